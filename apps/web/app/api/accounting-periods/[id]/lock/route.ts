@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { lockAccountingPeriod } from '@/lib/accounting/periods.server';
+
+/**
+ * POST /api/accounting-periods/[id]/lock
+ * Permanently lock a closed period (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const period = await lockAccountingPeriod(auth.companyId, auth.userId, params.id, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: period,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { AccountingPeriodReopenSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { reopenAccountingPeriod } from '@/lib/accounting/periods.server';
+
+/**
+ * POST /api/accounting-periods/[id]/reopen
+ * Reopen a closed period (admin only). Body: { reason }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { reason } = AccountingPeriodReopenSchema.parse(body);
+
+    const period = await reopenAccountingPeriod(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      reason,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: period,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { AccountingPeriodChangesFiltersSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { getPeriodChanges } from '@/lib/accounting/periods.server';
+
+/**
+ * GET /api/accounting-periods/changes?month=YYYY-MM
+ * Account balance changes and vouchers posted since the last close (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const { month } = AccountingPeriodChangesFiltersSchema.parse({
+      month: searchParams.get('month') || undefined,
+    });
+
+    const changes = await getPeriodChanges(auth.companyId, new Date(month + '-01'));
+
+    return NextResponse.json({
+      ok: true,
+      data: changes,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
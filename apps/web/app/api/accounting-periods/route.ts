@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { AccountingPeriodCloseSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { closeAccountingPeriod, listAccountingPeriods } from '@/lib/accounting/periods.server';
+
+/**
+ * GET /api/accounting-periods
+ * List closed/locked accounting periods for the company (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const periods = await listAccountingPeriods(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: periods,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/accounting-periods
+ * Close a month (admin only). Body: { month: 'YYYY-MM' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const { month } = AccountingPeriodCloseSchema.parse(body);
+
+    const period = await closeAccountingPeriod(
+      auth.companyId,
+      auth.userId,
+      new Date(month + '-01'),
+      request
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: period,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { VoucherApprovalRuleUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+
+/**
+ * PATCH /api/approval-rules/[id]
+ * Update a voucher approval rule (admin only).
+ * Vouchers already submitted keep the chain they were submitted with.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const validatedData = VoucherApprovalRuleUpdateSchema.parse(body);
+
+    const existing = await prisma.voucherApprovalRule.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Approval rule not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const rule = await prisma.voucherApprovalRule.update({
+      where: { id: existing.id },
+      data: {
+        name: validatedData.name,
+        voucherType:
+          validatedData.voucherType !== undefined ? validatedData.voucherType || null : undefined,
+        minAmount: validatedData.minAmount,
+        approverRoles: validatedData.approverRoles,
+        isActive: validatedData.isActive,
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: rule,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/approval-rules/[id]
+ * Delete a voucher approval rule (admin only).
+ * Vouchers submitted under the rule keep their recorded approval steps.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const existing = await prisma.voucherApprovalRule.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Approval rule not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.voucherApprovalRule.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: existing.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
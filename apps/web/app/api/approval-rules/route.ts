@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { VoucherApprovalRuleCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+
+/**
+ * GET /api/approval-rules
+ * List voucher approval rules for the company (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const rules = await prisma.voucherApprovalRule.findMany({
+      where: { companyId: auth.companyId },
+      orderBy: [{ minAmount: 'asc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: rules,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/approval-rules
+ * Create a voucher approval rule (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const validatedData = VoucherApprovalRuleCreateSchema.parse(body);
+
+    const rule = await prisma.voucherApprovalRule.create({
+      data: {
+        companyId: auth.companyId,
+        name: validatedData.name,
+        voucherType: validatedData.voucherType || null,
+        minAmount: validatedData.minAmount,
+        approverRoles: validatedData.approverRoles,
+        isActive: validatedData.isActive,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: rule,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
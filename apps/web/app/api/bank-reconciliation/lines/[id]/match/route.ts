@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { BankStatementLineMatchSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  matchStatementLine,
+  unmatchStatementLine,
+} from '@/lib/accounting/bankReconciliation.server';
+
+/**
+ * POST /api/bank-reconciliation/lines/[id]/match
+ * Manually match a statement line to a voucher line on the bank account
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const { voucherLineId } = BankStatementLineMatchSchema.parse(body);
+
+    const line = await matchStatementLine(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      voucherLineId,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: line,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * DELETE /api/bank-reconciliation/lines/[id]/match
+ * Remove the match of a statement line
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const line = await unmatchStatementLine(auth.companyId, auth.userId, params.id, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: line,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
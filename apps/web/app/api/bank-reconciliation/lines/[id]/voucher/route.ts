@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { BankStatementLineVoucherSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createVoucherFromStatementLine } from '@/lib/accounting/bankReconciliation.server';
+
+/**
+ * POST /api/bank-reconciliation/lines/[id]/voucher
+ * Create a DRAFT receipt/payment voucher for an unmatched statement line and match it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = BankStatementLineVoucherSchema.parse(body);
+
+    const voucher = await createVoucherFromStatementLine(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      data,
+      request
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: voucher,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { BankAutoMatchSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { autoMatchStatement } from '@/lib/accounting/bankReconciliation.server';
+
+/**
+ * POST /api/bank-reconciliation/statements/[id]/auto-match
+ * Match unmatched statement lines to posted bank entries by amount, date and reference
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json().catch(() => ({}));
+    const { dateWindowDays } = BankAutoMatchSchema.parse(body);
+
+    const matchedCount = await autoMatchStatement(auth.companyId, params.id, dateWindowDays);
+
+    return NextResponse.json({
+      ok: true,
+      data: { matchedCount },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@accounting/db';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createAuditLog } from '@/lib/audit';
+import {
+  getReconciliationStatement,
+  getStatementWorkspace,
+} from '@/lib/accounting/bankReconciliation.server';
+
+/**
+ * GET /api/bank-reconciliation/statements/[id]
+ * Statement lines with matches, unmatched book entries and the reconciliation statement
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const workspace = await getStatementWorkspace(auth.companyId, params.id);
+    if (!workspace) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Bank statement not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const reconciliation = await getReconciliationStatement(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: { ...workspace, reconciliation },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/bank-reconciliation/statements/[id]
+ * Delete an imported statement and its lines (vouchers created from it are kept)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const statement = await prisma.bankStatement.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+      include: { _count: { select: { lines: true } } },
+    });
+
+    if (!statement) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Bank statement not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.bankStatement.delete({ where: { id: statement.id } });
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'BankStatement',
+      entityId: statement.id,
+      action: 'DELETE',
+      before: {
+        accountId: statement.accountId,
+        statementDate: statement.statementDate.toISOString(),
+        closingBalance: Number(statement.closingBalance),
+        lineCount: statement._count.lines,
+      },
+      request,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: statement.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { BankStatementImportOptionsSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { readSheetFile, isSheetFile } from '@/lib/importTools';
+import {
+  assertBankAccount,
+  importBankStatement,
+  listBankStatements,
+  parseStatementRows,
+} from '@/lib/accounting/bankReconciliation.server';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * GET /api/bank-reconciliation/statements
+ * List imported bank statements (optionally for one bank account)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+    const accountId = request.nextUrl.searchParams.get('accountId') || undefined;
+
+    const statements = await listBankStatements(auth.companyId, accountId);
+
+    return NextResponse.json({
+      ok: true,
+      data: statements,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/bank-reconciliation/statements
+ * Upload a CSV/XLSX bank statement. Without `options` the file's headers are returned
+ * for column mapping; with `options` the statement is imported and auto-matched.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const optionsJson = formData.get('options') as string | null;
+
+    if (!file) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'No file provided',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `File size exceeds maximum of ${MAX_FILE_SIZE / 1024 / 1024}MB`,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!isSheetFile(file.name)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'File must be CSV or XLSX format',
+        },
+        { status: 400 }
+      );
+    }
+
+    let rows: any[][] = [];
+    let headers: string[] = [];
+    try {
+      ({ headers, rows } = readSheetFile(Buffer.from(await file.arrayBuffer()), file.name));
+    } catch (e) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: e instanceof Error ? e.message : 'Failed to read file',
+        },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'No data rows found in file',
+        },
+        { status: 400 }
+      );
+    }
+
+    // Initial upload: return headers for mapping
+    if (!optionsJson) {
+      return NextResponse.json({
+        ok: true,
+        data: {
+          headers,
+          totalRows: rows.length,
+        },
+      });
+    }
+
+    let rawOptions: unknown;
+    try {
+      rawOptions = JSON.parse(optionsJson);
+    } catch (e) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Invalid options JSON',
+        },
+        { status: 400 }
+      );
+    }
+    const options = BankStatementImportOptionsSchema.parse(rawOptions);
+
+    try {
+      await assertBankAccount(auth.companyId, options.accountId);
+    } catch (e) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: e instanceof Error ? e.message : 'Bank account not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const { lines, errors } = parseStatementRows(headers, rows, options);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: errors.slice(0, 5).join('; '),
+          data: { errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await importBankStatement(
+      auth.companyId,
+      auth.userId,
+      { options, fileName: file.name, lines },
+      request
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: {
+          id: result.statement.id,
+          lineCount: result.lineCount,
+          matchedCount: result.matchedCount,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
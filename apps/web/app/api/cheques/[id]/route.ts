@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ChequeUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { deleteCheque, updateCheque } from '@/lib/accounting/cheques.server';
+
+/**
+ * PATCH /api/cheques/[id]
+ * Correct cheque details (ISSUED cheques only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = ChequeUpdateSchema.parse(body);
+
+    const cheque = await updateCheque(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: cheque,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * DELETE /api/cheques/[id]
+ * Remove a cheque registered by mistake (ISSUED cheques only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    await deleteCheque(auth.companyId, auth.userId, params.id, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
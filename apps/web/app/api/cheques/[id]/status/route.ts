@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ChequeStatusUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { changeChequeStatus } from '@/lib/accounting/cheques.server';
+
+/**
+ * POST /api/cheques/[id]/status
+ * Move a cheque to PRESENTED, CLEARED, BOUNCED, CANCELLED or STALE.
+ * A bounce reverses the posted voucher, so it needs POST permission.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const data = ChequeStatusUpdateSchema.parse(body);
+
+    const auth = await requirePermission(
+      request,
+      'vouchers',
+      data.status === 'BOUNCED' ? 'POST' : 'WRITE'
+    );
+
+    const cheque = await changeChequeStatus(
+      auth.companyId,
+      auth.userId,
+      auth.role,
+      params.id,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: cheque,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
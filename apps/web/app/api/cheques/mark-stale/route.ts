@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { markStaleCheques } from '@/lib/accounting/cheques.server';
+
+/**
+ * POST /api/cheques/mark-stale
+ * Mark ISSUED cheques not presented within the stale period as STALE
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const count = await markStaleCheques(auth.companyId, auth.userId, new Date(), request);
+
+    return NextResponse.json({
+      ok: true,
+      data: { count },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
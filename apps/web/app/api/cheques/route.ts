@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ChequeCreateSchema, ChequeDirectionEnum, ChequeStatusEnum } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { listCheques, registerCheque } from '@/lib/accounting/cheques.server';
+
+/**
+ * GET /api/cheques
+ * List the cheque register (optional ?status=, ?direction=, ?search=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = ChequeStatusEnum.optional().parse(searchParams.get('status') || undefined);
+    const direction = ChequeDirectionEnum.optional().parse(searchParams.get('direction') || undefined);
+
+    const cheques = await listCheques(auth.companyId, {
+      status,
+      direction,
+      search: searchParams.get('search') || undefined,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: cheques,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/cheques
+ * Register a cheque against a PAYMENT/RECEIPT voucher line paid by cheque
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = ChequeCreateSchema.parse(body);
+
+    const cheque = await registerCheque(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: cheque,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -3,6 +3,7 @@ import { requireAdmin, createErrorResponse, ForbiddenError, UnauthorizedError }
 import { prisma } from '@accounting/db';
 import { CompanyUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
+import { resetCostLayers } from '@/lib/stock/costLayers.server';
 
 /**
  * PATCH /api/companies/[id]
@@ -60,20 +61,46 @@ export async function PATCH(
       }
     }
 
-    // Update company
-    const updatedCompany = await prisma.company.update({
-      where: { id: params.id },
-      data: {
-        ...(validatedData.name !== undefined && { name: validatedData.name }),
-        ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
-      },
-      select: {
-        id: true,
-        name: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    // Ledger amounts are stored in the base currency, so it is fixed once vouchers exist
+    if (validatedData.baseCurrency && validatedData.baseCurrency !== existingCompany.baseCurrency) {
+      const voucherCount = await prisma.voucher.count({ where: { companyId: params.id } });
+      if (voucherCount > 0) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'The base currency cannot be changed once the company has vouchers',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Update company; a new costing method restarts FIFO layers from the current average cost
+    const methodChanged =
+      validatedData.costingMethod !== undefined &&
+      validatedData.costingMethod !== existingCompany.costingMethod;
+    const updatedCompany = await prisma.$transaction(async (tx) => {
+      if (methodChanged) {
+        await resetCostLayers(tx, params.id);
+      }
+      return tx.company.update({
+        where: { id: params.id },
+        data: {
+          ...(validatedData.name !== undefined && { name: validatedData.name }),
+          ...(validatedData.baseCurrency !== undefined && { baseCurrency: validatedData.baseCurrency }),
+          ...(validatedData.costingMethod !== undefined && { costingMethod: validatedData.costingMethod }),
+          ...(validatedData.isActive !== undefined && { isActive: validatedData.isActive }),
+        },
+        select: {
+          id: true,
+          name: true,
+          baseCurrency: true,
+          costingMethod: true,
+          isActive: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
     });
 
     return NextResponse.json({
@@ -17,6 +17,7 @@ export async function GET(request: NextRequest) {
       select: {
         id: true,
         name: true,
+        baseCurrency: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -75,11 +76,13 @@ export async function POST(request: NextRequest) {
     const company = await prisma.company.create({
       data: {
         name: validatedData.name,
+        baseCurrency: validatedData.baseCurrency,
         isActive: validatedData.isActive ?? true,
       },
       select: {
         id: true,
         name: true,
+        baseCurrency: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { deleteExchangeRate } from '@/lib/accounting/currency.server';
+
+/**
+ * DELETE /api/exchange-rates/[id]
+ * Delete an exchange rate
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    await deleteExchangeRate(auth.companyId, auth.userId, params.id, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ExchangeRateLookupSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getExchangeRate } from '@/lib/accounting/currency.server';
+
+/**
+ * GET /api/exchange-rates/lookup?currency=USD&date=YYYY-MM-DD
+ * Rate effective on a date (latest rate on or before it); data is null when none is recorded
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const searchParams = request.nextUrl.searchParams;
+    const { currency, date } = ExchangeRateLookupSchema.parse({
+      currency: searchParams.get('currency'),
+      date: searchParams.get('date') || new Date().toISOString().split('T')[0],
+    });
+
+    const rate = await getExchangeRate(auth.companyId, currency, date);
+
+    return NextResponse.json({
+      ok: true,
+      data: rate,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
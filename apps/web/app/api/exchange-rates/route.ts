@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ExchangeRateCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  getBaseCurrency,
+  listExchangeRates,
+  saveExchangeRate,
+} from '@/lib/accounting/currency.server';
+
+/**
+ * GET /api/exchange-rates
+ * List exchange rates (optional ?currency=USD) with the company base currency
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const currency = request.nextUrl.searchParams.get('currency')?.toUpperCase() || undefined;
+    const [baseCurrency, rates] = await Promise.all([
+      getBaseCurrency(auth.companyId),
+      listExchangeRates(auth.companyId, currency),
+    ]);
+
+    return NextResponse.json({
+      ok: true,
+      data: { baseCurrency, rates },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/exchange-rates
+ * Record the rate of a currency for a date (replaces the rate already recorded for that date)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = ExchangeRateCreateSchema.parse(body);
+
+    const rate = await saveExchangeRate(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: rate,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
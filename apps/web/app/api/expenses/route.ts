@@ -10,6 +10,7 @@ import { ExpenseCreateSchema, ExpenseListFiltersSchema } from '@accounting/share
 import { ZodError } from 'zod';
 import { Prisma } from '@prisma/client';
 import { generateVoucherNumber } from '@/lib/voucher';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
 
 /**
  * GET /api/expenses
@@ -369,11 +370,20 @@ export async function POST(request: NextRequest) {
     // Date is already transformed by Zod schema
     const expenseDate = validatedData.date;
 
-    // Generate voucher number
-    const voucherNo = await generateVoucherNumber(auth.companyId, expenseDate);
+    // The expense voucher is posted immediately, so its date must fall in an open period and fiscal year
+    const lockError = await getPostingLockError(auth.companyId, expenseDate);
+    if (lockError) {
+      return NextResponse.json({ ok: false, error: lockError }, { status: 400 });
+    }
 
     // Create expense + voucher + voucher lines in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      const voucherNo = await generateVoucherNumber(tx, auth.companyId, {
+        date: expenseDate,
+        type: 'PAYMENT',
+        projectId: validatedData.projectId,
+      });
+
       // Create voucher with POSTED status (direct posting for expenses)
       const voucher = await tx.voucher.create({
         data: {
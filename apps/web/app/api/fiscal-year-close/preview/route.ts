@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { FiscalYearClosePreviewSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { previewYearEndClose } from '@/lib/accounting/yearEndClose.server';
+
+/**
+ * GET /api/fiscal-year-close/preview?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+ * Preview the closing entry for a fiscal year without posting it (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const { startDate, endDate } = FiscalYearClosePreviewSchema.parse({
+      startDate: searchParams.get('startDate') || undefined,
+      endDate: searchParams.get('endDate') || undefined,
+    });
+
+    const preview = await previewYearEndClose(auth.companyId, startDate, endDate);
+
+    return NextResponse.json({
+      ok: true,
+      data: preview,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { FiscalYearCloseCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { closeFiscalYear, listFiscalYearCloses } from '@/lib/accounting/yearEndClose.server';
+
+/**
+ * GET /api/fiscal-year-close
+ * List fiscal year closes for the company (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const closes = await listFiscalYearCloses(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: closes,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/fiscal-year-close
+ * Close a fiscal year into retained earnings (admin only).
+ * Body: { label, startDate, endDate }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const data = FiscalYearCloseCreateSchema.parse(body);
+
+    const close = await closeFiscalYear(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: close,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { NotificationMarkReadSchema } from '@accounting/shared';
+import {
+  requireAuth,
+  createErrorResponse,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { markNotificationsRead } from '@/lib/notifications.server';
+
+/**
+ * POST /api/notifications/read
+ * Mark the given notifications, or all of them, as read
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+
+    const body = await request.json();
+    const data = NotificationMarkReadSchema.parse(body);
+
+    const updated = await markNotificationsRead(auth.companyId, auth.userId, data);
+
+    return NextResponse.json({
+      ok: true,
+      data: { updated },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
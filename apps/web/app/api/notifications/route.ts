@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { NotificationListFiltersSchema } from '@accounting/shared';
+import {
+  requireAuth,
+  createErrorResponse,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { listNotifications } from '@/lib/notifications.server';
+
+/**
+ * GET /api/notifications
+ * The signed-in user's latest notifications and unread count (optional ?unread=true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request);
+
+    const filters = NotificationListFiltersSchema.parse({
+      unread: request.nextUrl.searchParams.get('unread') || undefined,
+    });
+
+    const result = await listNotifications(auth.companyId, auth.userId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StaffAdvanceCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createStaffAdvance, listStaffAdvances } from '@/lib/labor/payroll.server';
+
+/**
+ * GET /api/payroll/advances
+ * List salary advances and loans with what is outstanding
+ */
+export async function GET(
+  request: NextRequest
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const result = await listStaffAdvances(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/payroll/advances
+ * Pay a salary advance or loan to a staff member
+ */
+export async function POST(
+  request: NextRequest
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = StaffAdvanceCreateSchema.parse(body);
+
+    const result = await createStaffAdvance(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
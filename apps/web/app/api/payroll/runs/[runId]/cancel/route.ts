@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { cancelPayrollRun } from '@/lib/labor/payroll.server';
+
+/**
+ * POST /api/payroll/runs/[runId]/cancel
+ * Cancel a posted or paid run whose vouchers have been reversed
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const result = await cancelPayrollRun(auth.companyId, auth.userId, params.runId, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
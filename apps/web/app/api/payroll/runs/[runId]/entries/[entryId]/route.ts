@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { PayrollEntryUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { updatePayrollEntry } from '@/lib/labor/payroll.server';
+
+/**
+ * PATCH /api/payroll/runs/[runId]/entries/[entryId]
+ * Adjust absent days, project or deductions on a payslip of a draft run
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { runId: string; entryId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = PayrollEntryUpdateSchema.parse(body);
+
+    const result = await updatePayrollEntry(
+      auth.companyId,
+      auth.userId,
+      params.runId,
+      params.entryId,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
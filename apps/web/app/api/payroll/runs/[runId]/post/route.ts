@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { PayrollRunPostSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { postPayrollRun } from '@/lib/labor/payroll.server';
+
+/**
+ * POST /api/payroll/runs/[runId]/post
+ * Post a draft payroll run as a JOURNAL voucher
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json().catch(() => ({}));
+    const data = PayrollRunPostSchema.parse(body);
+
+    const result = await postPayrollRun(auth.companyId, auth.userId, params.runId, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
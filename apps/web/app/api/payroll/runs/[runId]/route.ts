@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { deletePayrollRun, getPayrollRun } from '@/lib/labor/payroll.server';
+
+/**
+ * GET /api/payroll/runs/[runId]
+ * Get a payroll run with its payslips
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const result = await getPayrollRun(auth.companyId, params.runId);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * DELETE /api/payroll/runs/[runId]
+ * Delete a draft payroll run
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { runId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    await deletePayrollRun(auth.companyId, auth.userId, params.runId, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.runId },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
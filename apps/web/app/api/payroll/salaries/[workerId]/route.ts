@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { SalaryStructureSaveSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { saveSalaryStructure } from '@/lib/labor/payroll.server';
+
+/**
+ * PUT /api/payroll/salaries/[workerId]
+ * Create or replace a worker's salary structure
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { workerId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = SalaryStructureSaveSchema.parse(body);
+
+    const result = await saveSalaryStructure(
+      auth.companyId,
+      auth.userId,
+      params.workerId,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
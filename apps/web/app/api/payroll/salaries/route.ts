@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { listSalaryStructures } from '@/lib/labor/payroll.server';
+
+/**
+ * GET /api/payroll/salaries
+ * List workers with their salary structures
+ */
+export async function GET(
+  request: NextRequest
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const result = await listSalaryStructures(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { AttendanceSheetFiltersSchema, AttendanceSheetSaveSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getAttendanceSheet, saveAttendance } from '@/lib/labor/attendance.server';
+
+/**
+ * GET /api/projects/[id]/attendance
+ * Attendance sheet of a project for `days` days from `from` (default: the week ending today)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = AttendanceSheetFiltersSchema.parse({
+      from: searchParams.get('from') || undefined,
+      days: searchParams.get('days') || undefined,
+    });
+
+    const sheet = await getAttendanceSheet(auth.companyId, params.id, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: sheet,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/attendance
+ * Save attendance cells and generate the DAY labor entries for the wages
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const data = AttendanceSheetSaveSchema.parse(body);
+
+    const result = await saveAttendance(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { cancelClientBill } from '@/lib/accounting/clientBilling.server';
+
+/**
+ * POST /api/projects/[id]/bills/[billId]/cancel
+ * Cancel a bill (an issued bill needs a draft or reversed voucher and no collections)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const bill = await cancelClientBill(auth.companyId, auth.userId, params.billId, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: bill,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
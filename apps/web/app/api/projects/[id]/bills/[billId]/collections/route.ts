@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ClientBillCollectionSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { recordBillCollection } from '@/lib/accounting/clientBilling.server';
+
+/**
+ * POST /api/projects/[id]/bills/[billId]/collections
+ * Record a collection against an issued bill as a DRAFT receipt voucher
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = ClientBillCollectionSchema.parse(body);
+
+    const collection = await recordBillCollection(auth.companyId, auth.userId, params.billId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: collection,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
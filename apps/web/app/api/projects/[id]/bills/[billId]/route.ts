@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ClientBillUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  deleteClientBill,
+  getClientBill,
+  updateClientBill,
+} from '@/lib/accounting/clientBilling.server';
+
+/**
+ * GET /api/projects/[id]/bills/[billId]
+ * Get a bill with its items and collections
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const bill = await getClientBill(auth.companyId, params.billId);
+    if (bill.projectId !== params.id) {
+      throw new Error('Bill not found');
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: bill,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/bills/[billId]
+ * Update a DRAFT bill (amounts are recalculated)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = ClientBillUpdateSchema.parse(body);
+
+    const bill = await updateClientBill(auth.companyId, auth.userId, params.billId, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: bill,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/bills/[billId]
+ * Delete a DRAFT bill
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    await deleteClientBill(auth.companyId, auth.userId, params.billId, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.billId },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
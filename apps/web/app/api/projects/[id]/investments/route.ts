@@ -11,6 +11,7 @@ import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
 import { generateVoucherNumber } from '@/lib/voucher';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
 import {
   getDefaultCashAccount,
   getDefaultBankAccount,
@@ -194,12 +195,22 @@ export async function POST(
     // Determine which account to debit based on payment method
     const debitAccountId = validatedData.paymentMethod === 'CASH' ? cashAccountId : bankAccountId;
 
-    // Generate voucher number
     const investmentDate = validatedData.date;
-    const voucherNo = await generateVoucherNumber(auth.companyId, investmentDate);
+
+    // The investment voucher is posted immediately, so its date must fall in an open period and fiscal year
+    const lockError = await getPostingLockError(auth.companyId, investmentDate);
+    if (lockError) {
+      return NextResponse.json({ ok: false, error: lockError }, { status: 400 });
+    }
 
     // Create investment + voucher + voucher lines in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      const voucherNo = await generateVoucherNumber(tx, auth.companyId, {
+        date: investmentDate,
+        type: 'RECEIPT',
+        projectId: params.id,
+      });
+
       // Create voucher with POSTED status (RECEIPT type because money is received)
       const voucher = await tx.voucher.create({
         data: {
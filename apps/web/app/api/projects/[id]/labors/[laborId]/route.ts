@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { ProjectLaborUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
+import { resolveLaborWorkers } from '@/lib/labor/workers.server';
 import { Prisma } from '@prisma/client';
 
 /**
@@ -32,6 +33,7 @@ export async function PATCH(
         projectId: params.id,
         companyId: auth.companyId,
       },
+      include: { attendance: { select: { id: true } } },
     });
 
     if (!existing) {
@@ -41,10 +43,56 @@ export async function PATCH(
       );
     }
 
+    // Wages from the attendance sheet follow the attendance; only payment details change here
+    if (
+      existing.attendance &&
+      ((validatedData.amount !== undefined && validatedData.amount !== existing.amount.toNumber()) ||
+        (validatedData.date !== undefined &&
+          validatedData.date.toISOString().split('T')[0] !== existing.date.toISOString().split('T')[0]) ||
+        (validatedData.workerId !== undefined && validatedData.workerId !== existing.workerId))
+    ) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'This entry comes from the attendance sheet; change the attendance to change its date, worker or amount',
+        },
+        { status: 400 }
+      );
+    }
+
+    let linked;
+    try {
+      linked = await resolveLaborWorkers(prisma, auth.companyId, params.id, {
+        workerId: validatedData.workerId,
+        teamLeaderId: validatedData.teamLeaderId,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { ok: false, error: error instanceof Error ? error.message : 'Worker not found' },
+        { status: 400 }
+      );
+    }
+
     const amount = validatedData.amount ?? existing.amount.toNumber();
     const paidNum = validatedData.paid !== undefined ? validatedData.paid : (existing.paid?.toNumber() ?? 0);
     const due = Math.max(0, amount - paidNum);
 
+    // Wages settled by wage payment vouchers stay paid; change the payment to change them
+    const settled = await prisma.wagePaymentAllocation.aggregate({
+      where: { laborId: existing.id },
+      _sum: { amount: true },
+    });
+    const settledNum = settled._sum.amount?.toNumber() ?? 0;
+    if (settledNum > 0 && (paidNum < settledNum || amount < settledNum)) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: `${settledNum} of this entry was paid by wage payment vouchers; the amount and paid cannot go below it`,
+        },
+        { status: 400 }
+      );
+    }
+
     const updateData: Prisma.ProjectLaborUpdateInput = {
       ...(validatedData.date !== undefined && { date: validatedData.date }),
       ...(validatedData.amount !== undefined && { amount: new Prisma.Decimal(validatedData.amount) }),
@@ -54,6 +102,19 @@ export async function PATCH(
       ...(validatedData.month !== undefined && { month: validatedData.month ?? null }),
       ...(validatedData.year !== undefined && { year: validatedData.year ?? null }),
       ...(validatedData.teamLeader !== undefined && { teamLeader: validatedData.teamLeader ?? null }),
+      ...(validatedData.workerId !== undefined && {
+        worker: linked.worker ? { connect: { id: linked.worker.id } } : { disconnect: true },
+        ...(linked.worker &&
+          (existing.type === 'MONTHLY'
+            ? { employeeName: linked.worker.name }
+            : { workerName: linked.worker.name })),
+      }),
+      ...(validatedData.teamLeaderId !== undefined && {
+        teamLeaderWorker: linked.teamLeader
+          ? { connect: { id: linked.teamLeader.id } }
+          : { disconnect: true },
+        ...(linked.teamLeader && { teamLeader: linked.teamLeader.name }),
+      }),
       ...(validatedData.paid !== undefined && { paid: new Prisma.Decimal(validatedData.paid) }),
       due: new Prisma.Decimal(due),
       ...(validatedData.rating !== undefined && { rating: validatedData.rating ?? null }),
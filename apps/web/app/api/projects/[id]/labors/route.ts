@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { ProjectLaborCreateSchema, ProjectLaborListFiltersSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
+import { resolveLaborWorkers } from '@/lib/labor/workers.server';
 import { Prisma } from '@prisma/client';
 
 /**
@@ -87,6 +88,12 @@ export async function GET(
           createdBy: {
             select: { id: true, name: true, email: true },
           },
+          worker: {
+            select: { id: true, name: true, trade: true },
+          },
+          teamLeaderWorker: {
+            select: { id: true, name: true },
+          },
         },
       }),
       prisma.projectLabor.count({ where }),
@@ -167,6 +174,23 @@ export async function POST(
       );
     }
 
+    let linked;
+    try {
+      linked = await resolveLaborWorkers(prisma, auth.companyId, params.id, {
+        workerId: validatedData.workerId,
+        teamLeaderId: validatedData.teamLeaderId,
+      });
+    } catch (error) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error instanceof Error ? error.message : 'Worker not found',
+        },
+        { status: 400 }
+      );
+    }
+
+    const type = validatedData.type ?? 'DAY';
     const amount = validatedData.amount;
     const paid = validatedData.paid ?? 0;
     const due = Math.max(0, amount - paid);
@@ -175,15 +199,24 @@ export async function POST(
       data: {
         companyId: auth.companyId,
         projectId: params.id,
-        type: validatedData.type ?? 'DAY',
+        type,
         date: validatedData.date,
         amount: new Prisma.Decimal(amount),
         note: validatedData.note ?? null,
-        workerName: validatedData.workerName ?? null,
-        employeeName: validatedData.employeeName ?? null,
+        // A register worker's name is kept on the entry as worker or employee name
+        workerName:
+          linked.worker && type !== 'MONTHLY'
+            ? linked.worker.name
+            : validatedData.workerName ?? null,
+        employeeName:
+          linked.worker && type === 'MONTHLY'
+            ? linked.worker.name
+            : validatedData.employeeName ?? null,
+        workerId: linked.worker?.id ?? null,
         month: validatedData.month ?? null,
         year: validatedData.year ?? null,
-        teamLeader: validatedData.teamLeader ?? null,
+        teamLeader: linked.teamLeader?.name ?? validatedData.teamLeader ?? null,
+        teamLeaderId: linked.teamLeader?.id ?? null,
         paid: new Prisma.Decimal(paid),
         due: new Prisma.Decimal(due),
         rating: validatedData.rating ?? null,
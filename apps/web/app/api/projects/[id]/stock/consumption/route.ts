@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getMaterialConsumptionReport } from '@/lib/stock/materialEstimates.server';
+
+/**
+ * GET /api/projects/[id]/stock/consumption
+ * Estimated vs issued vs wasted material of the project, with variances
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const report = await getMaterialConsumptionReport(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to get material consumption',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ProjectMaterialEstimateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  getProjectMaterialEstimate,
+  setProjectMaterialEstimate,
+} from '@/lib/stock/materialEstimates.server';
+
+/**
+ * GET /api/projects/[id]/stock/estimate
+ * Get the project's bill of quantities (material estimate)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const estimate = await getProjectMaterialEstimate(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: estimate,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to get material estimate',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/stock/estimate
+ * Replace the project's bill of quantities
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = ProjectMaterialEstimateSchema.parse(body);
+
+    const estimate = await setProjectMaterialEstimate(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: estimate,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
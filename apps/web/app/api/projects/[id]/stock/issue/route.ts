@@ -8,10 +8,16 @@ import {
 import { prisma } from '@accounting/db';
 import { StockMovementKind, StockMovementType } from '@prisma/client';
 import { adjustStock } from '@/lib/stock/stockService.server';
+import { issueRequisitionStock } from '@/lib/stock/materialRequisitions.server';
+import { resolveUnitConversion } from '@/lib/stock/unitsOfMeasure.server';
+import { StockTrackingSchema } from '@accounting/shared';
 
 /**
  * POST /api/projects/[id]/stock/issue
- * Issue stock from a project (OUT movement)
+ * Issue stock from a project (OUT movement). With requisitionLineId the quantity is
+ * issued against the approved quantity of that material requisition line. qty may be
+ * given in any unit allowed for the item; it is issued in the item's base unit.
+ * tracking names the lot or serial numbers issued of a tracked item.
  */
 export async function POST(
   request: NextRequest,
@@ -39,7 +45,17 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { stockItemId, qty, movementDate, notes, meta } = body;
+    const { stockItemId, qty, unit, movementDate, notes, meta, requisitionLineId } = body;
+    const tracking = StockTrackingSchema.nullable().safeParse(body.tracking ?? null);
+    if (!tracking.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: tracking.error.errors[0]?.message || 'Invalid lot or serial numbers',
+        },
+        { status: 400 }
+      );
+    }
 
     if (!stockItemId || !qty) {
       return NextResponse.json(
@@ -69,6 +85,20 @@ export async function POST(
       );
     }
 
+    let baseQty: number;
+    try {
+      const conversion = await resolveUnitConversion(prisma, auth.companyId, stockItemId, unit);
+      baseQty = Math.round(parseFloat(qty) * Number(conversion.factor) * 1000) / 1000;
+    } catch (error) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error instanceof Error ? error.message : 'Invalid unit',
+        },
+        { status: 400 }
+      );
+    }
+
     // Check available stock using the overview function for accurate calculation
     // This ensures we use the same weighted average logic
     try {
@@ -86,11 +116,11 @@ export async function POST(
         );
       }
 
-      if (item.remainingQty < parseFloat(qty)) {
+      if (item.remainingQty < baseQty) {
         return NextResponse.json(
           {
             ok: false,
-            error: `Insufficient stock. Available: ${item.remainingQty.toFixed(3)}, Requested: ${qty}`,
+            error: `Insufficient stock. Available: ${item.remainingQty.toFixed(3)} ${stockItem.unit}, Requested: ${baseQty} ${stockItem.unit}`,
           },
           { status: 400 }
         );
@@ -115,12 +145,45 @@ export async function POST(
       );
     }
 
+    if (requisitionLineId) {
+      try {
+        const issued = await issueRequisitionStock({
+          companyId: auth.companyId,
+          userId: auth.userId,
+          projectId: params.id,
+          requisitionLineId,
+          stockItemId,
+          qty: baseQty,
+          movementDate: movementDate ? new Date(movementDate) : new Date(),
+          notes: notes || null,
+          meta: meta || null,
+          tracking: tracking.data,
+        });
+        return NextResponse.json(
+          {
+            ok: true,
+            data: issued,
+          },
+          { status: 201 }
+        );
+      } catch (error) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: error instanceof Error ? error.message : 'Failed to issue stock',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create issue movement
     const result = await adjustStock({
       companyId: auth.companyId,
       stockItemId,
       type: StockMovementType.OUT,
       qty: parseFloat(qty),
+      unit: unit || undefined,
       unitCost: undefined, // Not needed for OUT
       projectId: params.id,
       vendorId: undefined,
@@ -129,6 +192,7 @@ export async function POST(
       notes: notes || undefined,
       userId: auth.userId,
       movementDate: movementDate ? new Date(movementDate) : new Date(),
+      tracking: tracking.data,
     });
 
     if (!result.success) {
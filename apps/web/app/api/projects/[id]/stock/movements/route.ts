@@ -7,6 +7,7 @@ import {
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
 import { StockMovementKind } from '@prisma/client';
+import { projectMovementsWhere } from '@/lib/stock/projectStock.server';
 
 /**
  * GET /api/projects/[id]/stock/movements
@@ -53,10 +54,7 @@ export async function GET(
     // Build where clause
     const where: any = {
       companyId: auth.companyId,
-      OR: [
-        { projectId: params.id },
-        { destinationProjectId: params.id }, // Include transfers received
-      ],
+      ...projectMovementsWhere(params.id), // Include transfers received
     };
 
     // Date range filter
@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
 import { StockMovementKind, StockMovementType } from '@prisma/client';
 import { adjustStock } from '@/lib/stock/stockService.server';
+import { getDefaultStockLocation } from '@/lib/stock/stockLocations.server';
 import { ZodError } from 'zod';
 
 const normalizeName = (s: string) => s.trim().replace(/\s+/g, ' ');
@@ -147,10 +148,12 @@ async function resolveLineToStockItemId(
         isActive: true,
       },
     });
+    const location = await getDefaultStockLocation(prisma, companyId);
     await prisma.stockBalance.create({
       data: {
         companyId,
         stockItemId: created.id,
+        locationId: location.id,
         onHandQty: new Prisma.Decimal(0),
         avgCost: new Prisma.Decimal(0),
       },
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { getTrackedStockAtLocation } from '@/lib/stock/stockTracking.server';
+
+/**
+ * GET /api/projects/[id]/stock/tracking?stockItemId=
+ * Lots with stock and serials in stock at the project's site for an item
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const stockItemId = new URL(request.url).searchParams.get('stockItemId');
+    if (!stockItemId) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'stockItemId is required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const location = await prisma.stockLocation.findFirst({
+      where: { companyId: auth.companyId, projectId: params.id },
+      select: { id: true },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: location
+        ? await getTrackedStockAtLocation(auth.companyId, location.id, stockItemId)
+        : { lots: [], serials: [] },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to get lots and serials',
+      },
+      { status: 500 }
+    );
+  }
+}
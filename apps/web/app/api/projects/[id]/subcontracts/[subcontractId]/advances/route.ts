@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { SubcontractAdvanceCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { recordSubcontractAdvance } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * POST /api/projects/[id]/subcontracts/[subcontractId]/advances
+ * Pay an advance to the subcontractor as a DRAFT payment voucher
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = SubcontractAdvanceCreateSchema.parse(body);
+
+    const result = await recordSubcontractAdvance(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      data,
+      request
+    );
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { cancelSubcontractBill } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * POST /api/projects/[id]/subcontracts/[subcontractId]/bills/[billId]/cancel
+ * Cancel a bill (certified bills only while the voucher is draft or reversed)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const result = await cancelSubcontractBill(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      params.billId,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { certifySubcontractBill } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * POST /api/projects/[id]/subcontracts/[subcontractId]/bills/[billId]/certify
+ * Certify a DRAFT bill and create its DRAFT journal voucher (cost to AP / retention / advance recovery)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const result = await certifySubcontractBill(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      params.billId,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { deleteSubcontractBill } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * DELETE /api/projects/[id]/subcontracts/[subcontractId]/bills/[billId]
+ * Delete a DRAFT running bill
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string; billId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    await deleteSubcontractBill(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      params.billId,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: params.billId },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
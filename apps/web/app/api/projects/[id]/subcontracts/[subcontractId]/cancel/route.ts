@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { cancelSubcontract } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * POST /api/projects/[id]/subcontracts/[subcontractId]/cancel
+ * Cancel a work order that has no bills or advances
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const result = await cancelSubcontract(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
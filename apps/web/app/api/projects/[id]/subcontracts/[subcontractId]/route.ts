@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { SubcontractUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getSubcontract, updateSubcontract } from '@/lib/accounting/subcontracts.server';
+
+/**
+ * GET /api/projects/[id]/subcontracts/[subcontractId]
+ * Get a work order with its items, advances and bills
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const result = await getSubcontract(auth.companyId, params.id, params.subcontractId);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/subcontracts/[subcontractId]
+ * Update an active work order (items only until it is first billed)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractId: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const data = SubcontractUpdateSchema.parse(body);
+
+    const result = await updateSubcontract(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      params.subcontractId,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { WagePaymentCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { createWagePayment, listWagePayments } from '@/lib/labor/wagePayments.server';
+
+/**
+ * GET /api/projects/[id]/wage-payments
+ * Wage payments of a project, newest first, with their vouchers and payees
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const project = await prisma.project.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+      select: { id: true },
+    });
+    if (!project) {
+      return NextResponse.json(
+        { ok: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const payments = await listWagePayments(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: payments,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/projects/[id]/wage-payments
+ * Pay workers or team leaders from cash or bank: posts a PAYMENT voucher and settles the
+ * payment against their labor entries
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const data = WagePaymentCreateSchema.parse(body);
+
+    const payment = await createWagePayment(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: payment,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
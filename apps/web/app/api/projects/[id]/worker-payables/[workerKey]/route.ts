@@ -9,7 +9,8 @@ import { getProjectWorkerLedger } from '@/lib/projects/projectWorkerPayables.ser
 
 /**
  * GET /api/projects/[id]/worker-payables/[workerKey]
- * Returns ledger for a single worker (workerKey is encoded e.g. "DAY%7CJohn").
+ * Returns ledger for a single worker (workerKey is encoded e.g. "W%7C<workerId>", or
+ * "DAY%7CJohn" for names not linked to the worker register).
  */
 export async function GET(
   _request: NextRequest,
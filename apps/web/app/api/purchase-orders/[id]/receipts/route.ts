@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { GoodsReceiptCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { receivePurchaseOrder } from '@/lib/purchases/purchaseOrders.server';
+
+/**
+ * POST /api/purchase-orders/[id]/receipts
+ * Record a goods receipt (GRN) against an open purchase order and bring the goods into stock
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = GoodsReceiptCreateSchema.parse(body);
+
+    const order = await receivePurchaseOrder(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: order,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
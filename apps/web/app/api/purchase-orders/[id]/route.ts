@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getPurchaseOrder } from '@/lib/purchases/purchaseOrders.server';
+
+/**
+ * GET /api/purchase-orders/[id]
+ * Get a purchase order with its lines, goods receipts and bills
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'READ');
+
+    const order = await getPurchaseOrder(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: order,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
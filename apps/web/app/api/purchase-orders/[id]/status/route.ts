@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { PurchaseOrderStatusActionSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { updatePurchaseOrderStatus } from '@/lib/purchases/purchaseOrders.server';
+
+/**
+ * POST /api/purchase-orders/[id]/status
+ * Close an open purchase order short, or cancel one nothing was received or billed on
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const data = PurchaseOrderStatusActionSchema.parse(body);
+
+    const order = await updatePurchaseOrderStatus(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: order,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
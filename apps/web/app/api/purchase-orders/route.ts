@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { PurchaseOrderCreateSchema, PurchaseOrderListFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createPurchaseOrder, listPurchaseOrders } from '@/lib/purchases/purchaseOrders.server';
+
+/**
+ * GET /api/purchase-orders
+ * List purchase orders (optional ?projectId=&supplierId=&status=&open=true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = PurchaseOrderListFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      supplierId: searchParams.get('supplierId') || undefined,
+      status: searchParams.get('status') || undefined,
+      open: searchParams.get('open') || undefined,
+    });
+
+    const orders = await listPurchaseOrders(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: orders,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/purchase-orders
+ * Raise a purchase order with agreed rates and a delivery schedule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const data = PurchaseOrderCreateSchema.parse(body);
+
+    const order = await createPurchaseOrder(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: order,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { PurchaseMatchActionSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { acceptPurchaseMatch, refreshPurchaseMatch } from '@/lib/purchases/threeWayMatch.server';
+
+/**
+ * POST /api/purchases/[id]/match
+ * Re-run the three-way match of a purchase (RECHECK) or accept its variances (ACCEPT)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const data = PurchaseMatchActionSchema.parse(body);
+
+    // Accepting variances stands in for the approver's sign-off on the bill
+    if (data.action === 'ACCEPT' && !can(auth.role, 'vouchers', 'APPROVE')) {
+      throw new ForbiddenError('You do not have permission to accept match variances');
+    }
+
+    const purchase = await prisma.purchase.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+      select: { id: true, status: true, purchaseOrderId: true },
+    });
+    if (!purchase) {
+      return NextResponse.json({ ok: false, error: 'Purchase not found' }, { status: 404 });
+    }
+    if (!purchase.purchaseOrderId) {
+      return NextResponse.json(
+        { ok: false, error: 'Purchase is not against a purchase order' },
+        { status: 400 }
+      );
+    }
+
+    if (data.action === 'ACCEPT') {
+      await acceptPurchaseMatch(auth.companyId, auth.userId, purchase.id, data.notes!, request);
+    } else {
+      if (purchase.status !== 'DRAFT' && purchase.status !== 'SUBMITTED') {
+        return NextResponse.json(
+          { ok: false, error: `Purchase is already ${purchase.status}` },
+          { status: 400 }
+        );
+      }
+      await refreshPurchaseMatch(auth.companyId, purchase.id);
+    }
+
+    const updated = await prisma.purchase.findUniqueOrThrow({
+      where: { id: purchase.id },
+      select: {
+        id: true,
+        matchStatus: true,
+        matchVariances: true,
+        matchCheckedAt: true,
+        matchAcceptedAt: true,
+        matchNotes: true,
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: updated,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -11,6 +11,9 @@ import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
 import { resolvePaymentAccountId } from '@/lib/purchases/purchasePaymentDefaults.server';
+import { assertPurchaseOrderBillable } from '@/lib/purchases/purchaseOrders.server';
+import { refreshPurchaseMatch } from '@/lib/purchases/threeWayMatch.server';
+import { assertAllowedUnits } from '@/lib/stock/unitsOfMeasure.server';
 
 /**
  * GET /api/purchases/[id]
@@ -226,6 +229,23 @@ export async function PUT(
       }
     }
 
+    // A bill against a purchase order must stay with its supplier and project
+    if (existingPurchase.purchaseOrderId) {
+      try {
+        await assertPurchaseOrderBillable(auth.companyId, existingPurchase.purchaseOrderId, {
+          projectId: validatedData.projectId ?? existingPurchase.projectId,
+          subProjectId:
+            validatedData.subProjectId !== undefined ? validatedData.subProjectId : existingPurchase.subProjectId,
+          supplierVendorId: validatedData.supplierVendorId ?? existingPurchase.supplierVendorId,
+        });
+      } catch (error) {
+        return NextResponse.json(
+          { ok: false, error: error instanceof Error ? error.message : 'Invalid purchase order' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Validate stock items and expense heads if lines are provided
     // New form uses materialName instead of stockItemId, so stockItemId is optional
     if (validatedData.lines) {
@@ -254,6 +274,16 @@ export async function PUT(
               { status: 400 }
             );
           }
+
+          // Quantities billed in another unit (rod in tons) must be a unit allowed for the item
+          try {
+            await assertAllowedUnits(auth.companyId, materialLines);
+          } catch (error) {
+            return NextResponse.json(
+              { ok: false, error: error instanceof Error ? error.message : 'Invalid unit' },
+              { status: 400 }
+            );
+          }
         }
       }
 
@@ -388,6 +418,11 @@ export async function PUT(
       return updatedPurchase;
     });
 
+    // Lines may have changed, so match the bill against its purchase order again
+    if (purchase.purchaseOrderId) {
+      await refreshPurchaseMatch(auth.companyId, purchase.id);
+    }
+
     // Create audit log
     await createAuditLog({
       companyId: auth.companyId,
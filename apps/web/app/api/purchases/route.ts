@@ -11,6 +11,9 @@ import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { Prisma } from '@prisma/client';
 import { resolvePaymentAccountId } from '@/lib/purchases/purchasePaymentDefaults.server';
+import { assertPurchaseOrderBillable } from '@/lib/purchases/purchaseOrders.server';
+import { refreshPurchaseMatch } from '@/lib/purchases/threeWayMatch.server';
+import { assertAllowedUnits } from '@/lib/stock/unitsOfMeasure.server';
 
 /**
  * GET /api/purchases
@@ -219,6 +222,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate purchase order if the bill is against one
+    if (validatedData.purchaseOrderId) {
+      try {
+        await assertPurchaseOrderBillable(auth.companyId, validatedData.purchaseOrderId, validatedData);
+      } catch (error) {
+        return NextResponse.json(
+          { ok: false, error: error instanceof Error ? error.message : 'Invalid purchase order' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Resolve paymentAccountId from paymentMethod when paidAmount > 0
     let paymentAccountId: string | null = null;
     let paymentMethod: 'CASH' | 'BANK' | null = null;
@@ -264,6 +279,16 @@ export async function POST(request: NextRequest) {
             { status: 400 }
           );
         }
+
+        // Quantities billed in another unit (rod in tons) must be a unit allowed for the item
+        try {
+          await assertAllowedUnits(auth.companyId, materialLines);
+        } catch (error) {
+          return NextResponse.json(
+            { ok: false, error: error instanceof Error ? error.message : 'Invalid unit' },
+            { status: 400 }
+          );
+        }
       }
     }
 
@@ -286,6 +311,7 @@ export async function POST(request: NextRequest) {
           projectId: validatedData.projectId,
           subProjectId: validatedData.subProjectId || null,
           supplierVendorId: validatedData.supplierVendorId,
+          purchaseOrderId: validatedData.purchaseOrderId || null,
           reference: validatedData.reference || null,
           discountPercent: validatedData.discountPercent ? new Prisma.Decimal(validatedData.discountPercent) : null,
           subtotal: new Prisma.Decimal(subtotal),
@@ -360,6 +386,9 @@ export async function POST(request: NextRequest) {
       return newPurchase;
     });
 
+    // Three-way match against the purchase order and its goods receipts
+    const match = await refreshPurchaseMatch(auth.companyId, purchase.id);
+
     // Create audit log
     await createAuditLog({
       companyId: auth.companyId,
@@ -374,7 +403,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(
       {
         ok: true,
-        data: purchase,
+        data: { ...purchase, match },
       },
       { status: 201 }
     );
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { RecurringVoucherTemplateUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { utcDay } from '@/lib/vouchers/recurring';
+
+/**
+ * PATCH /api/recurring-vouchers/[id]
+ * Rename, pause/resume or change the end date of a recurring template.
+ * Moving the end date before the next run ends the schedule.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = RecurringVoucherTemplateUpdateSchema.parse(body);
+
+    const existing = await prisma.recurringVoucherTemplate.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Recurring template not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    let endDate = existing.endDate;
+    let nextRunDate = existing.nextRunDate;
+    if (validatedData.endDate !== undefined) {
+      endDate = validatedData.endDate ? utcDay(validatedData.endDate) : null;
+      if (endDate && endDate < existing.startDate) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'End date must be on or after the start date',
+          },
+          { status: 400 }
+        );
+      }
+      if (endDate && nextRunDate && nextRunDate > endDate) {
+        nextRunDate = null;
+      }
+    }
+
+    const template = await prisma.recurringVoucherTemplate.update({
+      where: { id: existing.id },
+      data: {
+        name: validatedData.name,
+        narration: validatedData.narration,
+        isPaused: validatedData.isPaused,
+        endDate,
+        nextRunDate,
+      },
+    });
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'RecurringVoucherTemplate',
+      entityId: template.id,
+      action: 'UPDATE',
+      before: existing,
+      after: template,
+      request,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: template,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/recurring-vouchers/[id]
+ * Delete a recurring template. Vouchers it generated are kept and lose the link.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const existing = await prisma.recurringVoucherTemplate.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Recurring template not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.recurringVoucherTemplate.delete({ where: { id: existing.id } });
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'RecurringVoucherTemplate',
+      entityId: existing.id,
+      action: 'DELETE',
+      before: existing,
+      request,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: existing.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { RecurringVoucherGenerateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { generateDueVouchers } from '@/lib/vouchers/recurring.server';
+
+/**
+ * POST /api/recurring-vouchers/generate
+ * Create DRAFT vouchers for all recurring runs due on or before `asOf` (default today).
+ * Pass `templateId` to generate for a single template.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json().catch(() => ({}));
+    const validatedData = RecurringVoucherGenerateSchema.parse(body);
+
+    const result = await generateDueVouchers(auth.companyId, auth.userId, {
+      templateId: validatedData.templateId,
+      asOf: validatedData.asOf,
+      request,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
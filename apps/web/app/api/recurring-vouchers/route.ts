@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { RecurringVoucherTemplateCreateSchema, VoucherLineCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { validateVoucherBalance } from '@/lib/voucher';
+import { utcDay } from '@/lib/vouchers/recurring';
+import { listRecurringTemplates } from '@/lib/vouchers/recurring.server';
+
+/**
+ * GET /api/recurring-vouchers
+ * List recurring voucher templates with their latest generated vouchers
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const templates = await listRecurringTemplates(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: templates,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/recurring-vouchers
+ * Create a recurring voucher template, either from explicit lines or by copying an existing voucher
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'WRITE');
+
+    const body = await request.json();
+    const validatedData = RecurringVoucherTemplateCreateSchema.parse(body);
+
+    let header = {
+      type: validatedData.type,
+      narration: validatedData.narration || null,
+      projectId: validatedData.projectId || null,
+      expenseType: validatedData.expenseType || null,
+    };
+    let lines = validatedData.lines || [];
+
+    if (validatedData.sourceVoucherId) {
+      const source = await prisma.voucher.findUnique({
+        where: { id: validatedData.sourceVoucherId },
+        include: { lines: { orderBy: { createdAt: 'asc' } } },
+      });
+
+      if (!source || source.companyId !== auth.companyId) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Source voucher not found',
+          },
+          { status: 404 }
+        );
+      }
+
+      header = {
+        type: source.type || 'JOURNAL',
+        narration: validatedData.narration || source.narration,
+        projectId: source.projectId,
+        expenseType: source.expenseType,
+      };
+      lines = source.lines.map((line) =>
+        VoucherLineCreateSchema.parse({
+          accountId: line.accountId,
+          description: line.description,
+          debit: Number(line.debit),
+          credit: Number(line.credit),
+          projectId: line.projectId,
+          isCompanyLevel: line.isCompanyLevel,
+          vendorId: line.vendorId,
+          paymentMethodId: line.paymentMethodId,
+          expenseCategoryId: line.expenseCategoryId,
+          workDetails: line.workDetails,
+          paidBy: line.paidBy,
+          receivedBy: line.receivedBy,
+          fileRef: line.fileRef,
+          voucherRef: line.voucherRef,
+        })
+      );
+    }
+
+    const balanceCheck = validateVoucherBalance(lines);
+    if (!balanceCheck.valid) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: balanceCheck.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    if (header.projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: header.projectId, companyId: auth.companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Project not found or does not belong to your company',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    const startDate = utcDay(validatedData.startDate);
+    const endDate = validatedData.endDate ? utcDay(validatedData.endDate) : null;
+
+    const template = await prisma.recurringVoucherTemplate.create({
+      data: {
+        companyId: auth.companyId,
+        name: validatedData.name,
+        ...header,
+        lines,
+        frequency: validatedData.frequency,
+        startDate,
+        endDate,
+        nextRunDate: startDate,
+        createdById: auth.userId,
+      },
+    });
+
+    await createAuditLog({
+      companyId: auth.companyId,
+      actorUserId: auth.userId,
+      entityType: 'RecurringVoucherTemplate',
+      entityId: template.id,
+      action: 'CREATE',
+      after: template,
+      metadata: validatedData.sourceVoucherId
+        ? { sourceVoucherId: validatedData.sourceVoucherId }
+        : undefined,
+      request,
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: template,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getReceivablesAging } from '@/lib/accounting/clientBilling.server';
+
+/**
+ * GET /api/reports/receivables
+ * Client receivables aging (optional ?asOf=YYYY-MM-DD, ?projectId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const searchParams = request.nextUrl.searchParams;
+    const asOfDate = searchParams.get('asOf') || new Date().toISOString().split('T')[0];
+    const asOf = new Date(`${asOfDate}T23:59:59.999Z`);
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({ ok: false, error: 'Invalid asOf date' }, { status: 400 });
+    }
+
+    const report = await getReceivablesAging(
+      auth.companyId,
+      asOf,
+      searchParams.get('projectId') || undefined
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -11,7 +11,8 @@ import { ZodError } from 'zod';
 
 /**
  * GET /api/stock/balances
- * List stock balances (on-hand quantities) for user's company
+ * List stock balances (on-hand quantities) per item per location for user's company
+ * (optional ?locationId= for one location)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -24,6 +25,7 @@ export async function GET(request: NextRequest) {
       pageSize: searchParams.get('pageSize') || '25',
       lowStock: searchParams.get('lowStock') || undefined,
       category: searchParams.get('category') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
     });
 
     const page = Number(filters.page) || 1;
@@ -36,6 +38,10 @@ export async function GET(request: NextRequest) {
       },
     };
 
+    if (filters.locationId) {
+      where.locationId = filters.locationId;
+    }
+
     if (filters.category) {
       where.stockItem = {
         ...where.stockItem,
@@ -82,12 +88,26 @@ export async function GET(request: NextRequest) {
               reorderLevel: true,
             },
           },
-        },
-        orderBy: {
-          stockItem: {
-            name: 'asc',
+          location: {
+            select: {
+              id: true,
+              name: true,
+              type: true,
+            },
           },
         },
+        orderBy: [
+          {
+            stockItem: {
+              name: 'asc',
+            },
+          },
+          {
+            location: {
+              name: 'asc',
+            },
+          },
+        ],
       }),
       prisma.stockBalance.count({ where }),
     ]);
@@ -104,6 +124,7 @@ export async function GET(request: NextRequest) {
         id: balance.id,
         stockItemId: balance.stockItemId,
         stockItem: balance.stockItem,
+        location: balance.location,
         onHandQty: onHand,
         avgCost: Number(balance.avgCost),
         isLowStock,
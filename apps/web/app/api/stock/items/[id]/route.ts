@@ -9,6 +9,8 @@ import { prisma } from '@accounting/db';
 import { StockItemUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
+import { resetCostLayers } from '@/lib/stock/costLayers.server';
+import { totalStockBalance } from '@/lib/stock/stockService.server';
 import { Prisma } from '@prisma/client';
 
 /**
@@ -47,11 +49,9 @@ export async function GET(
       );
     }
 
-    const balance = item.balances[0];
     const itemWithBalance = {
       ...item,
-      onHandQty: balance ? Number(balance.onHandQty) : 0,
-      avgCost: balance ? Number(balance.avgCost) : 0,
+      ...totalStockBalance(item.balances),
       balances: undefined,
     };
 
@@ -222,6 +222,43 @@ export async function PUT(
       }
     }
 
+    // Stock already on hand has no lot or serial numbers to carry into a new tracking mode
+    if (
+      validatedData.trackingMode !== undefined &&
+      validatedData.trackingMode !== existing.trackingMode
+    ) {
+      const onHand = await prisma.stockBalance.aggregate({
+        where: { companyId: auth.companyId, stockItemId: existing.id },
+        _sum: { onHandQty: true },
+      });
+      if (onHand._sum.onHandQty?.gt(0)) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Tracking can only be changed while the item has no stock on hand',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate preferred supplier
+    if (validatedData.preferredVendorId) {
+      const vendor = await prisma.vendor.findFirst({
+        where: { id: validatedData.preferredVendorId, companyId: auth.companyId },
+        select: { id: true },
+      });
+      if (!vendor) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Preferred supplier not found or does not belong to your company',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Build update data
     const updateData: any = {};
     if (validatedData.name !== undefined) updateData.name = validatedData.name?.trim() ?? validatedData.name;
@@ -233,14 +270,30 @@ export async function PUT(
         ? new Prisma.Decimal(validatedData.reorderLevel)
         : null;
     }
+    if (validatedData.preferredVendorId !== undefined) {
+      updateData.preferredVendorId = validatedData.preferredVendorId || null;
+    }
+    if (validatedData.costingMethod !== undefined) {
+      updateData.costingMethod = validatedData.costingMethod ?? null;
+    }
+    if (validatedData.trackingMode !== undefined) updateData.trackingMode = validatedData.trackingMode;
     if (validatedData.isActive !== undefined) updateData.isActive = validatedData.isActive;
 
     const before = { ...existing };
-    const item = await prisma.stockItem.update({
-      where: {
-        id: params.id,
-      },
-      data: updateData,
+    // A new costing method restarts the item's FIFO layers from its current average cost
+    const item = await prisma.$transaction(async (tx) => {
+      if (
+        validatedData.costingMethod !== undefined &&
+        (validatedData.costingMethod ?? null) !== existing.costingMethod
+      ) {
+        await resetCostLayers(tx, auth.companyId, existing.id);
+      }
+      return tx.stockItem.update({
+        where: {
+          id: params.id,
+        },
+        data: updateData,
+      });
     });
 
     // Create audit log
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockItemUnitsSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getStockItemUnits, setStockItemUnits } from '@/lib/stock/unitsOfMeasure.server';
+
+/**
+ * GET /api/stock/items/[id]/units
+ * Base unit of an item and the other units it may be bought or issued in
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const units = await getStockItemUnits(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: units,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
+
+/**
+ * PUT /api/stock/items/[id]/units
+ * Replace the unit conversions of an item
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = StockItemUnitsSchema.parse(body);
+
+    const units = await setStockItemUnits(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: units,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
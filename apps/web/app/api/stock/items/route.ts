@@ -12,6 +12,8 @@ import {
 } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
+import { getDefaultStockLocation } from '@/lib/stock/stockLocations.server';
+import { totalStockBalance } from '@/lib/stock/stockService.server';
 import { Prisma } from '@prisma/client';
 
 /**
@@ -74,6 +76,10 @@ export async function GET(request: NextRequest) {
               avgCost: true,
             },
           },
+          units: {
+            where: { unit: { isActive: true } },
+            select: { factor: true, unit: { select: { code: true } } },
+          },
         },
       }),
       prisma.stockItem.count({ where }),
@@ -81,12 +87,12 @@ export async function GET(request: NextRequest) {
 
     // Transform items to include balance
     const itemsWithBalance = items.map((item) => {
-      const balance = item.balances[0];
       return {
         ...item,
-        onHandQty: balance ? Number(balance.onHandQty) : 0,
-        avgCost: balance ? Number(balance.avgCost) : 0,
+        ...totalStockBalance(item.balances),
         balances: undefined,
+        // Other units the item may be bought or issued in, with base units per unit
+        units: item.units.map((u) => ({ code: u.unit.code, factor: Number(u.factor) })),
       };
     });
 
@@ -176,6 +182,23 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Validate preferred supplier
+    if (validatedData.preferredVendorId) {
+      const vendor = await prisma.vendor.findFirst({
+        where: { id: validatedData.preferredVendorId, companyId: auth.companyId },
+        select: { id: true },
+      });
+      if (!vendor) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Preferred supplier not found or does not belong to your company',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
     // Create stock item
     const item = await prisma.stockItem.create({
       data: {
@@ -187,15 +210,20 @@ export async function POST(request: NextRequest) {
         reorderLevel: validatedData.reorderLevel
           ? new Prisma.Decimal(validatedData.reorderLevel)
           : null,
+        preferredVendorId: validatedData.preferredVendorId || null,
+        costingMethod: validatedData.costingMethod ?? null,
+        trackingMode: validatedData.trackingMode,
         isActive: validatedData.isActive,
       },
     });
 
-    // Create initial balance
+    // Create initial balance at the default location
+    const location = await getDefaultStockLocation(prisma, auth.companyId);
     await prisma.stockBalance.create({
       data: {
         companyId: auth.companyId,
         stockItemId: item.id,
+        locationId: location.id,
         onHandQty: new Prisma.Decimal(0),
         avgCost: new Prisma.Decimal(0),
       },
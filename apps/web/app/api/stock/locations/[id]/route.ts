@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockLocationUpdateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { updateStockLocation } from '@/lib/stock/stockLocations.server';
+
+/**
+ * PATCH /api/stock/locations/[id]
+ * Rename a location, make it the default warehouse, or (de)activate it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = StockLocationUpdateSchema.parse(body);
+
+    const location = await updateStockLocation(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: location,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
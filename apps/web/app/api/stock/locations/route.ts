@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockLocationCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createStockLocation, listStockLocations } from '@/lib/stock/stockLocations.server';
+
+/**
+ * GET /api/stock/locations
+ * List warehouses and project sites with the stock held at each
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const locations = await listStockLocations(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: locations,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/locations
+ * Create a warehouse or project site location
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = StockLocationCreateSchema.parse(body);
+
+    const location = await createStockLocation(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: location,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -9,6 +9,7 @@ import { prisma } from '@accounting/db';
 import { StockMovementAdjustSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { adjustStock } from '@/lib/stock/stockService.server';
+import { resolveStockLocationId } from '@/lib/stock/stockLocations.server';
 import { createAuditLog } from '@/lib/audit';
 
 /**
@@ -40,12 +41,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get current balance to calculate delta
+    // Get current balance at the location to calculate delta
+    const locationId = await resolveStockLocationId(prisma, auth.companyId, {
+      locationId: validatedData.locationId,
+    });
     const currentBalance = await prisma.stockBalance.findUnique({
       where: {
-        companyId_stockItemId: {
+        companyId_stockItemId_locationId: {
           companyId: auth.companyId,
           stockItemId: validatedData.stockItemId,
+          locationId,
         },
       },
     });
@@ -71,6 +76,7 @@ export async function POST(request: NextRequest) {
       type: 'ADJUST',
       qty: targetQty, // ADJUST uses qty as target onHandQty
       unitCost: validatedData.unitCost,
+      locationId,
       notes: validatedData.notes || `Adjustment: ${deltaQty > 0 ? '+' : ''}${deltaQty}`,
       userId: auth.userId,
       movementDate: validatedData.movementDate ? new Date(validatedData.movementDate) : new Date(),
@@ -86,14 +86,17 @@ export async function POST(request: NextRequest) {
       stockItemId: validatedData.stockItemId,
       type: 'IN',
       qty: validatedData.qty,
+      unit: validatedData.unit,
       unitCost: validatedData.unitCost,
       referenceType: validatedData.referenceType ?? undefined,
       referenceId: validatedData.referenceId ?? undefined,
       projectId: validatedData.projectId ?? undefined,
+      locationId: validatedData.locationId ?? undefined,
       vendorId: validatedData.vendorId ?? undefined,
       notes: validatedData.notes ?? undefined,
       userId: auth.userId,
       movementDate: validatedData.movementDate ? new Date(validatedData.movementDate) : new Date(),
+      tracking: validatedData.tracking ?? null,
     });
 
     if (!result.success) {
@@ -123,6 +126,12 @@ export async function POST(request: NextRequest) {
             name: true,
           },
         },
+        location: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         vendor: {
           select: {
             id: true,
@@ -22,6 +22,7 @@ export async function GET(request: NextRequest) {
       stockItemId: searchParams.get('stockItemId') || undefined,
       type: searchParams.get('type') as 'IN' | 'OUT' | 'ADJUST' | undefined,
       projectId: searchParams.get('projectId') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
       dateFrom: searchParams.get('dateFrom') || undefined,
       dateTo: searchParams.get('dateTo') || undefined,
       page: searchParams.get('page') || '1',
@@ -47,6 +48,10 @@ export async function GET(request: NextRequest) {
       where.projectId = filters.projectId;
     }
 
+    if (filters.locationId) {
+      where.locationId = filters.locationId;
+    }
+
     if (filters.dateFrom || filters.dateTo) {
       where.movementDate = {};
       if (filters.dateFrom) {
@@ -80,6 +85,12 @@ export async function GET(request: NextRequest) {
               name: true,
             },
           },
+          location: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           vendor: {
             select: {
               id: true,
@@ -103,6 +114,7 @@ export async function GET(request: NextRequest) {
       ...movement,
       qty: Number(movement.qty),
       unitCost: movement.unitCost ? Number(movement.unitCost) : null,
+      enteredQty: movement.enteredQty != null ? Number(movement.enteredQty) : null,
     }));
 
     return NextResponse.json({
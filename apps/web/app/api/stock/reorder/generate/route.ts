@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ReorderGenerateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { generateReorderDrafts } from '@/lib/stock/reorder.server';
+
+/**
+ * POST /api/stock/reorder/generate
+ * Raise draft purchase orders or draft purchases from reorder suggestions, one per
+ * supplier and project
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'purchases', 'WRITE');
+
+    const body = await request.json();
+    const data = ReorderGenerateSchema.parse(body);
+
+    const result = await generateReorderDrafts(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: result,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { ReorderSuggestionFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getReorderSuggestions } from '@/lib/stock/reorder.server';
+
+/**
+ * GET /api/stock/reorder
+ * Reorder suggestions for project sites (optional ?projectId=&windowDays=&coverDays=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = ReorderSuggestionFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      windowDays: searchParams.get('windowDays') || undefined,
+      coverDays: searchParams.get('coverDays') || undefined,
+    });
+
+    const result = await getReorderSuggestions(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
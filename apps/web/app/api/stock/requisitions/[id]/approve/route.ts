@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { MaterialRequisitionApproveSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { approveMaterialRequisition } from '@/lib/stock/materialRequisitions.server';
+
+/**
+ * POST /api/stock/requisitions/[id]/approve
+ * Approve the quantity of each line of a pending requisition. Approving less than
+ * requested is a partial approval and approving nothing rejects it.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'APPROVE');
+
+    const body = await request.json();
+    const data = MaterialRequisitionApproveSchema.parse(body);
+
+    const requisition = await approveMaterialRequisition(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      data,
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: requisition,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { cancelMaterialRequisition } from '@/lib/stock/materialRequisitions.server';
+
+/**
+ * POST /api/stock/requisitions/[id]/cancel
+ * Withdraw a pending requisition (its requester or an approver)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'WRITE');
+
+    const requisition = await cancelMaterialRequisition(
+      auth.companyId,
+      auth.userId,
+      params.id,
+      can(auth.role, 'requisitions', 'APPROVE'),
+      request
+    );
+
+    return NextResponse.json({
+      ok: true,
+      data: requisition,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getMaterialRequisition } from '@/lib/stock/materialRequisitions.server';
+
+/**
+ * GET /api/stock/requisitions/[id]
+ * Get a requisition with its lines and issued quantities
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'READ');
+
+    const requisition = await getMaterialRequisition(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: requisition,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
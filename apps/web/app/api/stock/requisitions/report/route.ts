@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getRequisitionFulfilmentReport } from '@/lib/stock/materialRequisitions.server';
+
+/**
+ * GET /api/stock/requisitions/report
+ * Approval and fulfilment rates of requisitions raised in a period, by project and by item
+ * (optional ?from=YYYY-MM-DD&to=YYYY-MM-DD&projectId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const fromDate = from ? new Date(from) : undefined;
+    const toDate = to ? new Date(`${to}T23:59:59.999Z`) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return NextResponse.json({ ok: false, error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const report = await getRequisitionFulfilmentReport(auth.companyId, {
+      from: fromDate,
+      to: toDate,
+      projectId: searchParams.get('projectId') || undefined,
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import {
+  MaterialRequisitionCreateSchema,
+  MaterialRequisitionListFiltersSchema,
+} from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  createMaterialRequisition,
+  listMaterialRequisitions,
+} from '@/lib/stock/materialRequisitions.server';
+
+/**
+ * GET /api/stock/requisitions
+ * List material requisitions (optional ?projectId=&status=&open=true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = MaterialRequisitionListFiltersSchema.parse({
+      projectId: searchParams.get('projectId') || undefined,
+      status: searchParams.get('status') || undefined,
+      open: searchParams.get('open') || undefined,
+    });
+
+    const requisitions = await listMaterialRequisitions(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: requisitions,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/requisitions
+ * Raise a material requisition against a project
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'requisitions', 'WRITE');
+
+    const body = await request.json();
+    const data = MaterialRequisitionCreateSchema.parse(body);
+
+    const requisition = await createMaterialRequisition(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: requisition,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getStockTake } from '@/lib/stock/stockTakes.server';
+
+/**
+ * GET /api/stock/stock-takes/[id]
+ * Get a stock-take with its expected and counted quantities and variances
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'stockTakes', 'READ');
+
+    const stockTake = await getStockTake(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: stockTake,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockTakeWorkflowSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { updateStockTakeStatus } from '@/lib/stock/stockTakes.server';
+
+/**
+ * POST /api/stock/stock-takes/[id]/workflow
+ * Submit a count, or (approvers) return it for recounting, approve and post its
+ * variances, or cancel it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json();
+    const data = StockTakeWorkflowSchema.parse(body);
+
+    const auth = await requirePermission(
+      request,
+      'stockTakes',
+      data.action === 'SUBMIT' ? 'WRITE' : 'APPROVE'
+    );
+
+    const stockTake = await updateStockTakeStatus(auth.companyId, auth.userId, params.id, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: stockTake,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockTakeCreateSchema, StockTakeListFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createStockTake, listStockTakes } from '@/lib/stock/stockTakes.server';
+
+/**
+ * GET /api/stock/stock-takes
+ * List stock-takes (optional ?locationId=&status=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stockTakes', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = StockTakeListFiltersSchema.parse({
+      locationId: searchParams.get('locationId') || undefined,
+      status: searchParams.get('status') || undefined,
+    });
+
+    const stockTakes = await listStockTakes(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: stockTakes,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/stock-takes
+ * Open a stock-take at a location or project site, freezing the expected quantities
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stockTakes', 'WRITE');
+
+    const body = await request.json();
+    const data = StockTakeCreateSchema.parse(body);
+
+    const stockTake = await createStockTake(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: stockTake,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
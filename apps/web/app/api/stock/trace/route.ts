@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockTraceFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getStockTrace } from '@/lib/stock/stockTracking.server';
+
+/**
+ * GET /api/stock/trace
+ * Movement history of lots and serial numbers (?q= lot or serial number, &stockItemId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = StockTraceFiltersSchema.parse({
+      q: searchParams.get('q') || undefined,
+      stockItemId: searchParams.get('stockItemId') || undefined,
+    });
+
+    const trace = await getStockTrace(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: trace,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : 'Failed to trace stock',
+      },
+      { status: 500 }
+    );
+  }
+}
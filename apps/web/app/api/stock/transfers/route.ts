@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { StockTransferStatus } from '@prisma/client';
+import { StockTransferCreateSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createStockTransfer, listStockTransfers } from '@/lib/stock/stockTransfers.server';
+
+/**
+ * GET /api/stock/transfers
+ * List inter-project transfers (optional ?status=IN_TRANSIT|RECEIVED&projectId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const statusParam = searchParams.get('status');
+    const status =
+      statusParam && statusParam in StockTransferStatus
+        ? (statusParam as StockTransferStatus)
+        : undefined;
+    const projectId = searchParams.get('projectId') || undefined;
+
+    const transfers = await listStockTransfers(auth.companyId, { status, projectId });
+
+    return NextResponse.json({
+      ok: true,
+      data: transfers,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/stock/transfers
+ * Dispatch material from one project to another at the source's weighted-average cost
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'WRITE');
+
+    const body = await request.json();
+    const data = StockTransferCreateSchema.parse(body);
+
+    const transfer = await createStockTransfer(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: transfer,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { InventoryValuationFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getInventoryValuation } from '@/lib/stock/inventoryValuation.server';
+
+/**
+ * GET /api/stock/valuation
+ * Inventory valuation as of a date (optional ?asOf=YYYY-MM-DD&method=FIFO|WEIGHTED_AVERAGE&locationId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'stock', 'READ');
+
+    const { searchParams } = request.nextUrl;
+    const filters = InventoryValuationFiltersSchema.parse({
+      asOf: searchParams.get('asOf') || undefined,
+      method: searchParams.get('method') || undefined,
+      locationId: searchParams.get('locationId') || undefined,
+    });
+
+    const valuation = await getInventoryValuation(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: valuation,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
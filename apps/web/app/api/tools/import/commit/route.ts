@@ -7,7 +7,7 @@ import {
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
 import { createAuditLog } from '@/lib/audit';
-import { generateVoucherNumber } from '@/lib/voucher';
+import { generateDraftVoucherNumber } from '@/lib/voucher';
 import { VoucherGroup, autoCreateMissingAccounts, resolveAccount } from '@/lib/importTools';
 
 /**
@@ -193,11 +193,10 @@ export async function POST(request: NextRequest) {
           throw new Error('Invalid date');
         }
 
-        // Generate voucher number
-        const voucherNo = await generateVoucherNumber(auth.companyId, voucherDate);
-
         // Create voucher with lines in transaction
         const created = await prisma.$transaction(async (tx) => {
+          const voucherNo = await generateDraftVoucherNumber(tx, auth.companyId);
+
           const newVoucher = await tx.voucher.create({
             data: {
               companyId: auth.companyId,
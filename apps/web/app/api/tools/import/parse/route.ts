@@ -5,8 +5,13 @@ import {
   ForbiddenError,
   UnauthorizedError,
 } from '@/lib/rbac';
-import * as XLSX from 'xlsx';
-import { parseFileData, parseAndValidateVouchers, ImportOptions } from '@/lib/importTools';
+import {
+  parseFileData,
+  parseAndValidateVouchers,
+  readSheetFile,
+  isSheetFile,
+  ImportOptions,
+} from '@/lib/importTools';
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
@@ -45,11 +50,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check file type
-    const fileName = file.name.toLowerCase();
-    const isCSV = fileName.endsWith('.csv');
-    const isXLSX = fileName.endsWith('.xlsx') || fileName.endsWith('.xls');
-
-    if (!isCSV && !isXLSX) {
+    if (!isSheetFile(file.name)) {
       return NextResponse.json(
         {
           ok: false,
@@ -81,115 +82,18 @@ export async function POST(request: NextRequest) {
     }
 
     // Read file
-    const buffer = Buffer.from(await file.arrayBuffer());
     let rows: any[][] = [];
     let headers: string[] = [];
-
-    if (isCSV) {
-      // Parse CSV - handle quoted fields properly
-      const csvText = buffer.toString('utf-8');
-      const lines: string[] = [];
-      let currentLine = '';
-      let inQuotes = false;
-
-      for (let i = 0; i < csvText.length; i++) {
-        const char = csvText[i];
-        const nextChar = csvText[i + 1];
-
-        if (char === '"') {
-          if (inQuotes && nextChar === '"') {
-            // Escaped quote
-            currentLine += '"';
-            i++; // Skip next quote
-          } else {
-            // Toggle quote state
-            inQuotes = !inQuotes;
-            currentLine += char;
-          }
-        } else if (char === '\n' && !inQuotes) {
-          // End of line
-          lines.push(currentLine);
-          currentLine = '';
-        } else {
-          currentLine += char;
-        }
-      }
-
-      // Add last line if exists
-      if (currentLine.trim()) {
-        lines.push(currentLine);
-      }
-
-      if (lines.length === 0) {
-        return NextResponse.json(
-          {
-            ok: false,
-            error: 'CSV file is empty',
-          },
-          { status: 400 }
-        );
-      }
-
-      // Parse header
-      const parseCSVLine = (line: string): string[] => {
-        const result: string[] = [];
-        let current = '';
-        let inQuotes = false;
-
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i];
-          const nextChar = line[i + 1];
-
-          if (char === '"') {
-            if (inQuotes && nextChar === '"') {
-              current += '"';
-              i++;
-            } else {
-              inQuotes = !inQuotes;
-            }
-          } else if (char === ',' && !inQuotes) {
-            result.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        result.push(current.trim());
-        return result;
-      };
-
-      headers = parseCSVLine(lines[0]).map((h) => h.replace(/^"|"$/g, ''));
-
-      // Parse rows
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]).map((v) => v.replace(/^"|"$/g, ''));
-        if (values.some((v) => v)) {
-          // Only add non-empty rows
-          rows.push(values);
-        }
-      }
-    } else {
-      // Parse XLSX
-      const workbook = XLSX.read(buffer, { type: 'buffer' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const data = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null }) as any[][];
-
-      if (data.length === 0) {
-        return NextResponse.json(
-          {
-            ok: false,
-            error: 'Excel file is empty',
-          },
-          { status: 400 }
-        );
-      }
-
-      // First row is headers
-      headers = data[0].map((h) => String(h || '').trim());
-      
-      // Rest are data rows
-      rows = data.slice(1).filter((row) => row.some((cell) => cell !== null && cell !== ''));
+    try {
+      ({ headers, rows } = readSheetFile(Buffer.from(await file.arrayBuffer()), file.name));
+    } catch (e) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: e instanceof Error ? e.message : 'Failed to read file',
+        },
+        { status: 400 }
+      );
     }
 
     if (rows.length === 0) {
@@ -7,7 +7,8 @@ import {
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
 import { createAuditLog } from '@/lib/audit';
-import { validateVoucherBalance, isLeafAccount } from '@/lib/voucher';
+import { validateVoucherBalance, isLeafAccount, resolvePostingVoucherNumber } from '@/lib/voucher';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
 
 /**
  * POST /api/tools/import/post
@@ -69,6 +70,14 @@ export async function POST(request: NextRequest) {
           continue;
         }
 
+        // Refuse vouchers dated inside a closed period or fiscal year
+        const lockError = await getPostingLockError(auth.companyId, voucher.date);
+        if (lockError) {
+          results.skipped++;
+          results.errors.push({ voucherId, error: lockError });
+          continue;
+        }
+
         // Validate balance
         const balanceCheck = validateVoucherBalance(
           voucher.lines.map((line) => ({
@@ -117,33 +126,37 @@ export async function POST(request: NextRequest) {
 
         const before = { ...voucher };
 
-        // Update voucher status to POSTED
-        const updated = await prisma.voucher.update({
-          where: { id: voucherId },
-          data: {
-            status: 'POSTED',
-            postedAt: new Date(),
-            postedByUserId: auth.userId,
-          },
-          include: {
-            project: {
-              select: { id: true, name: true },
-            },
-            createdBy: {
-              select: { id: true, name: true, email: true },
-            },
-            postedBy: {
-              select: { id: true, name: true, email: true },
+        // Update voucher status to POSTED, issuing its series number in place of the
+        // provisional draft number
+        const updated = await prisma.$transaction(async (tx) =>
+          tx.voucher.update({
+            where: { id: voucherId },
+            data: {
+              voucherNo: await resolvePostingVoucherNumber(tx, auth.companyId, voucher),
+              status: 'POSTED',
+              postedAt: new Date(),
+              postedByUserId: auth.userId,
             },
-            lines: {
-              include: {
-                account: {
-                  select: { id: true, code: true, name: true },
+            include: {
+              project: {
+                select: { id: true, name: true },
+              },
+              createdBy: {
+                select: { id: true, name: true, email: true },
+              },
+              postedBy: {
+                select: { id: true, name: true, email: true },
+              },
+              lines: {
+                include: {
+                  account: {
+                    select: { id: true, code: true, name: true },
+                  },
                 },
               },
             },
-          },
-        });
+          })
+        );
 
         // Create audit log
         await createAuditLog({
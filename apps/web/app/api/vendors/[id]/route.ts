@@ -31,6 +31,10 @@ export async function GET(
         phone: true,
         address: true,
         notes: true,
+        serviceType: true,
+        tin: true,
+        bin: true,
+        leadTimeDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -102,6 +106,10 @@ export async function PATCH(
     if (validatedData.phone !== undefined) updateData.phone = validatedData.phone;
     if (validatedData.address !== undefined) updateData.address = validatedData.address;
     if (validatedData.notes !== undefined) updateData.notes = validatedData.notes;
+    if (validatedData.serviceType !== undefined) updateData.serviceType = validatedData.serviceType;
+    if (validatedData.tin !== undefined) updateData.tin = validatedData.tin;
+    if (validatedData.bin !== undefined) updateData.bin = validatedData.bin;
+    if (validatedData.leadTimeDays !== undefined) updateData.leadTimeDays = validatedData.leadTimeDays;
     if (validatedData.isActive !== undefined) updateData.isActive = validatedData.isActive;
 
     const updatedVendor = await prisma.vendor.update({
@@ -113,6 +121,10 @@ export async function PATCH(
         phone: true,
         address: true,
         notes: true,
+        serviceType: true,
+        tin: true,
+        bin: true,
+        leadTimeDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
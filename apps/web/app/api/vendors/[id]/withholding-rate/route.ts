@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { resolveWithholdingRate } from '@/lib/accounting/withholdingTax.server';
+
+/**
+ * GET /api/vendors/[id]/withholding-rate
+ * Default VAT/AIT withholding percentages for payments to the vendor
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const rate = await resolveWithholdingRate(auth.companyId, params.id);
+
+    return NextResponse.json({
+      ok: true,
+      data: rate,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
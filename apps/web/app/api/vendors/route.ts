@@ -50,6 +50,10 @@ export async function GET(request: NextRequest) {
         phone: true,
         address: true,
         notes: true,
+        serviceType: true,
+        tin: true,
+        bin: true,
+        leadTimeDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -92,6 +96,10 @@ export async function POST(request: NextRequest) {
         phone: validatedData.phone,
         address: validatedData.address,
         notes: validatedData.notes,
+        serviceType: validatedData.serviceType || null,
+        tin: validatedData.tin,
+        bin: validatedData.bin,
+        leadTimeDays: validatedData.leadTimeDays ?? null,
         isActive: validatedData.isActive ?? true,
       },
       select: {
@@ -100,6 +108,10 @@ export async function POST(request: NextRequest) {
         phone: true,
         address: true,
         notes: true,
+        serviceType: true,
+        tin: true,
+        bin: true,
+        leadTimeDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
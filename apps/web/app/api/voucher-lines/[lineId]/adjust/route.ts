@@ -6,7 +6,7 @@ import {
   UnauthorizedError,
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
-import { generateVoucherNumber } from '@/lib/voucher';
+import { generateDraftVoucherNumber } from '@/lib/voucher';
 import { createAuditLog } from '@/lib/audit';
 
 /**
@@ -59,9 +59,9 @@ export async function POST(
 
     // Create new DRAFT voucher with adjustment line
     const today = new Date();
-    const voucherNo = await generateVoucherNumber(auth.companyId, today);
-
     const newVoucher = await prisma.$transaction(async (tx) => {
+      const voucherNo = await generateDraftVoucherNumber(tx, auth.companyId);
+
       // Create new voucher
       const voucher = await tx.voucher.create({
         data: {
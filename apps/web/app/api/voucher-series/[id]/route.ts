@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { VoucherNumberSeriesUpdateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { findOverlappingSeries } from '@/lib/vouchers/numberSeries.server';
+
+/**
+ * PATCH /api/voucher-series/[id]
+ * Update a voucher numbering series (admin only).
+ * Numbers already issued are kept; the change applies to the next voucher created.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const validatedData = VoucherNumberSeriesUpdateSchema.parse(body);
+
+    const existing = await prisma.voucherNumberSeries.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Numbering series not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    const voucherType =
+      validatedData.voucherType !== undefined ? validatedData.voucherType || null : existing.voucherType;
+    const projectId =
+      validatedData.projectId !== undefined ? validatedData.projectId || null : existing.projectId;
+    const isActive = validatedData.isActive ?? existing.isActive;
+
+    if (projectId && projectId !== existing.projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, companyId: auth.companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Project not found',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (isActive) {
+      const overlapping = await findOverlappingSeries(
+        auth.companyId,
+        voucherType,
+        projectId,
+        existing.id
+      );
+      if (overlapping) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: `Series "${overlapping.name}" already covers this voucher type and project`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const series = await prisma.voucherNumberSeries.update({
+      where: { id: existing.id },
+      data: {
+        name: validatedData.name,
+        voucherType,
+        projectId,
+        prefixTemplate: validatedData.prefixTemplate,
+        padding: validatedData.padding,
+        fiscalYearStartMonth: validatedData.fiscalYearStartMonth,
+        isActive,
+      },
+      include: {
+        project: { select: { id: true, name: true, reference: true } },
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      data: series,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * DELETE /api/voucher-series/[id]
+ * Delete a voucher numbering series (admin only).
+ * Counters are kept per prefix, so re-creating the series continues its numbering.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const existing = await prisma.voucherNumberSeries.findFirst({
+      where: { id: params.id, companyId: auth.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: 'Numbering series not found',
+        },
+        { status: 404 }
+      );
+    }
+
+    await prisma.voucherNumberSeries.delete({ where: { id: existing.id } });
+
+    return NextResponse.json({
+      ok: true,
+      data: { id: existing.id },
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requireAdmin,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { VoucherNumberSeriesCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import {
+  findOverlappingSeries,
+  listVoucherNumberSeries,
+} from '@/lib/vouchers/numberSeries.server';
+
+/**
+ * GET /api/voucher-series
+ * List voucher numbering series for the company (admin only)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const series = await listVoucherNumberSeries(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: series,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/voucher-series
+ * Create a voucher numbering series (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const validatedData = VoucherNumberSeriesCreateSchema.parse(body);
+
+    const voucherType = validatedData.voucherType || null;
+    const projectId = validatedData.projectId || null;
+
+    if (projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, companyId: auth.companyId },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: 'Project not found',
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (validatedData.isActive) {
+      const overlapping = await findOverlappingSeries(auth.companyId, voucherType, projectId);
+      if (overlapping) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: `Series "${overlapping.name}" already covers this voucher type and project`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    const series = await prisma.voucherNumberSeries.create({
+      data: {
+        companyId: auth.companyId,
+        name: validatedData.name,
+        voucherType,
+        projectId,
+        prefixTemplate: validatedData.prefixTemplate,
+        padding: validatedData.padding,
+        fiscalYearStartMonth: validatedData.fiscalYearStartMonth,
+        isActive: validatedData.isActive,
+      },
+      include: {
+        project: { select: { id: true, name: true, reference: true } },
+      },
+    });
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: series,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { VoucherRejectSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { rejectVoucher } from '@/lib/vouchers/workflow';
+
+/**
+ * POST /api/vouchers/[id]/reject
+ * Reject a submitted voucher with a reason (SUBMITTED → DRAFT)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'APPROVE');
+
+    const body = await request.json();
+    const { reason } = VoucherRejectSchema.parse(body);
+
+    const result = await rejectVoucher(
+      params.id,
+      auth.userId,
+      auth.companyId,
+      auth.role,
+      reason,
+      request
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: result.error,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      ok: true,
+      data: result.voucher,
+    });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -10,6 +10,7 @@ import { VoucherUpdateSchema } from '@accounting/shared';
 import { ZodError } from 'zod';
 import { createAuditLog } from '@/lib/audit';
 import { validateVoucherBalance, canEditVoucher } from '@/lib/voucher';
+import { resolveLineCurrencies, voucherLineAmounts } from '@/lib/accounting/currency.server';
 
 /**
  * GET /api/vouchers/[id]
@@ -154,8 +155,24 @@ export async function PATCH(
     const body = await request.json();
     const validatedData = VoucherUpdateSchema.parse(body);
 
-    // If lines are being updated, validate balance
+    // If lines are being updated, resolve foreign-currency rates and validate balance
+    // in base currency
     if (validatedData.lines) {
+      try {
+        validatedData.lines = await resolveLineCurrencies(
+          auth.companyId,
+          validatedData.date ?? voucher.date,
+          validatedData.lines
+        );
+      } catch (error) {
+        return NextResponse.json(
+          {
+            ok: false,
+            error: error instanceof Error ? error.message : 'Invalid currency',
+          },
+          { status: 400 }
+        );
+      }
       const balanceCheck = validateVoucherBalance(validatedData.lines);
       if (!balanceCheck.valid) {
         return NextResponse.json(
@@ -258,8 +275,7 @@ export async function PATCH(
               companyId: auth.companyId,
               accountId: line.accountId,
               description: line.description || null,
-              debit: line.debit,
-              credit: line.credit,
+              ...voucherLineAmounts(line),
               projectId: lineProjectId,
               isCompanyLevel: expenseType === 'OFFICE_EXPENSE' ? false : (line.isCompanyLevel || false),
               vendorId: line.vendorId || null,
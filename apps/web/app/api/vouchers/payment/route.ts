@@ -7,8 +7,14 @@ import {
 } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
 import { createAuditLog } from '@/lib/audit';
-import { generateVoucherNumber, validateVoucherBalance } from '@/lib/voucher';
+import { generateDraftVoucherNumber, validateVoucherBalance, toBaseAmount } from '@/lib/voucher';
 import { getVendorOpenItems, decimalToNumber } from '@/lib/payables';
+import { WithholdingRatesSchema } from '@accounting/shared';
+import { splitWithholding } from '@/lib/accounting/withholdingTax';
+import { getWithholdingAccountIds } from '@/lib/accounting/withholdingTax.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { getExchangeRate } from '@/lib/accounting/currency.server';
 import { z, ZodError } from 'zod';
 
 const PaymentVoucherCreateSchema = z.object({
@@ -19,14 +25,23 @@ const PaymentVoucherCreateSchema = z.object({
   allocations: z.array(
     z.object({
       sourceLineId: z.string(),
+      // In the bill's currency for foreign-currency bills
       amount: z.number().positive(),
+      // Settlement rate for a foreign-currency bill (defaults to the rate on the payment date)
+      exchangeRate: z.number().positive().optional(),
     })
   ),
+  // VAT/AIT deducted at source from each allocated bill
+  withholding: WithholdingRatesSchema.optional(),
 });
 
 /**
  * POST /api/vouchers/payment
- * Create a payment voucher with allocations to vendor payable lines
+ * Create a payment voucher with allocations to vendor payable lines.
+ * With withholding rates, the cash/bank credit is the net amount and the VAT/AIT
+ * withheld from each bill is credited to the tax payable accounts.
+ * Foreign-currency bills are cleared at their booked rate and paid at the settlement
+ * rate; the difference posts as realized exchange gain or loss.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -69,8 +84,17 @@ export async function POST(request: NextRequest) {
     const openItems = await getVendorOpenItems(validatedData.vendorId, auth.companyId);
     const openItemsMap = new Map(openItems.map((item) => [item.lineId, item]));
 
-    // Validate allocations
+    // Validate allocations and convert each to base currency: the carrying amount
+    // cleared from the payable and the amount actually paid
     let totalPayment = 0;
+    const settlements: Array<{
+      sourceLineId: string;
+      carryingAmount: number;
+      paidAmount: number;
+      fxAmount: number | null;
+      exchangeRate: number | null;
+      fxGainLoss: number;
+    }> = [];
     for (const alloc of validatedData.allocations) {
       const openItem = openItemsMap.get(alloc.sourceLineId);
       if (!openItem) {
@@ -83,6 +107,48 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (openItem.currencyCode && openItem.fxOutstanding !== null) {
+        if (alloc.amount > openItem.fxOutstanding + 0.001) {
+          return NextResponse.json(
+            {
+              ok: false,
+              error: `Allocation amount ${openItem.currencyCode} ${alloc.amount} exceeds outstanding ${openItem.currencyCode} ${openItem.fxOutstanding} for line ${openItem.voucherNo}`,
+            },
+            { status: 400 }
+          );
+        }
+
+        const settlementRate =
+          alloc.exchangeRate ??
+          (await getExchangeRate(auth.companyId, openItem.currencyCode, validatedData.date))?.rate;
+        if (!settlementRate) {
+          return NextResponse.json(
+            {
+              ok: false,
+              error: `No ${openItem.currencyCode} exchange rate for the payment date; enter the settlement rate`,
+            },
+            { status: 400 }
+          );
+        }
+
+        // Settling the whole remaining balance clears the exact carrying amount left
+        const carryingAmount =
+          alloc.amount >= openItem.fxOutstanding
+            ? Math.round(openItem.outstanding * 100) / 100
+            : Math.min(toBaseAmount(alloc.amount, openItem.exchangeRate), openItem.outstanding);
+        const paidAmount = toBaseAmount(alloc.amount, settlementRate);
+        settlements.push({
+          sourceLineId: alloc.sourceLineId,
+          carryingAmount,
+          paidAmount,
+          fxAmount: alloc.amount,
+          exchangeRate: settlementRate,
+          fxGainLoss: Math.round((carryingAmount - paidAmount) * 100) / 100,
+        });
+        totalPayment += paidAmount;
+        continue;
+      }
+
       if (alloc.amount > openItem.outstanding) {
         return NextResponse.json(
           {
@@ -93,8 +159,20 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      settlements.push({
+        sourceLineId: alloc.sourceLineId,
+        carryingAmount: alloc.amount,
+        paidAmount: alloc.amount,
+        fxAmount: null,
+        exchangeRate: null,
+        fxGainLoss: 0,
+      });
       totalPayment += alloc.amount;
     }
+    totalPayment = Math.round(totalPayment * 100) / 100;
+    const payableCleared =
+      Math.round(settlements.reduce((sum, s) => sum + s.carryingAmount, 0) * 100) / 100;
+    const fxGainLoss = Math.round((payableCleared - totalPayment) * 100) / 100;
 
     if (validatedData.allocations.length === 0) {
       return NextResponse.json(
@@ -106,16 +184,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find Accounts Payable account (LIABILITY type)
-    // For v1, we'll search for an account with type LIABILITY
-    // In a real system, you'd have a specific AP account or account code
-    const apAccount = await prisma.account.findFirst({
-      where: {
-        companyId: auth.companyId,
-        type: 'LIABILITY',
-        isActive: true,
-      },
-    });
+    // Find Accounts Payable account (LIABILITY type), preferring the system AP account
+    // over the tax payable liabilities
+    const apAccount =
+      (await prisma.account.findFirst({
+        where: {
+          companyId: auth.companyId,
+          code: SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+          type: 'LIABILITY',
+          isActive: true,
+        },
+      })) ??
+      (await prisma.account.findFirst({
+        where: {
+          companyId: auth.companyId,
+          type: 'LIABILITY',
+          isActive: true,
+        },
+        orderBy: { code: 'asc' },
+      }));
 
     if (!apAccount) {
       return NextResponse.json(
@@ -127,11 +214,42 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate voucher number
-    const voucherNo = await generateVoucherNumber(auth.companyId, validatedData.date);
+    // Split each allocated bill into net, VAT and AIT
+    const withholding = validatedData.withholding ?? { vatPercent: 0, aitPercent: 0 };
+    const deductions = settlements.flatMap((settlement) => {
+      const split = splitWithholding(settlement.paidAmount, withholding);
+      const billRef = openItemsMap.get(settlement.sourceLineId)!.voucherNo;
+      return [
+        { taxType: 'VAT' as const, ratePercent: withholding.vatPercent, amount: split.vatAmount },
+        { taxType: 'AIT' as const, ratePercent: withholding.aitPercent, amount: split.aitAmount },
+      ]
+        .filter((d) => d.amount > 0)
+        .map((d) => ({
+          ...d,
+          sourceLineId: settlement.sourceLineId,
+          billRef,
+          baseAmount: settlement.paidAmount,
+        }));
+    });
+    const vatTotal = deductions
+      .filter((d) => d.taxType === 'VAT')
+      .reduce((sum, d) => sum + d.amount, 0);
+    const aitTotal = deductions
+      .filter((d) => d.taxType === 'AIT')
+      .reduce((sum, d) => sum + d.amount, 0);
+    const netPayment = Math.round((totalPayment - vatTotal - aitTotal) * 100) / 100;
+    const taxAccounts = deductions.length > 0 ? await getWithholdingAccountIds(auth.companyId) : null;
+    const fxAccountId =
+      fxGainLoss !== 0
+        ? (await ensureSystemAccounts(auth.companyId))[
+            fxGainLoss > 0 ? SYSTEM_ACCOUNT_CODES.FX_GAIN : SYSTEM_ACCOUNT_CODES.FX_LOSS
+          ]
+        : null;
 
     // Create voucher with lines and allocations in a transaction
     const voucher = await prisma.$transaction(async (tx) => {
+      const voucherNo = await generateDraftVoucherNumber(tx, auth.companyId);
+
       // Create payment voucher
       const newVoucher = await tx.voucher.create({
         data: {
@@ -144,24 +262,62 @@ export async function POST(request: NextRequest) {
           createdByUserId: auth.userId,
           lines: {
             create: [
-              // Payment account (credit - money going out)
+              // Payment account (credit - money going out, net of withholding)
               {
                 companyId: auth.companyId,
                 accountId: validatedData.paymentAccountId,
                 description: `Payment to ${vendor.name}`,
                 debit: 0,
-                credit: totalPayment,
+                credit: netPayment,
                 vendorId: null,
               },
-              // Accounts Payable (debit - reducing liability)
+              // VAT/AIT withheld (credit - payable to the government, not the vendor)
+              ...(taxAccounts && vatTotal > 0
+                ? [
+                    {
+                      companyId: auth.companyId,
+                      accountId: taxAccounts.vatPayableAccountId,
+                      description: `VAT deducted at source - ${vendor.name}`,
+                      debit: 0,
+                      credit: Math.round(vatTotal * 100) / 100,
+                      vendorId: null,
+                    },
+                  ]
+                : []),
+              ...(taxAccounts && aitTotal > 0
+                ? [
+                    {
+                      companyId: auth.companyId,
+                      accountId: taxAccounts.aitPayableAccountId,
+                      description: `AIT deducted at source - ${vendor.name}`,
+                      debit: 0,
+                      credit: Math.round(aitTotal * 100) / 100,
+                      vendorId: null,
+                    },
+                  ]
+                : []),
+              // Accounts Payable (debit - reducing liability by the carrying amount)
               {
                 companyId: auth.companyId,
                 accountId: apAccount.id,
                 description: `Payment to ${vendor.name}`,
-                debit: totalPayment,
+                debit: payableCleared,
                 credit: 0,
                 vendorId: validatedData.vendorId,
               },
+              // Realized exchange gain (credit) or loss (debit) on foreign-currency bills
+              ...(fxAccountId
+                ? [
+                    {
+                      companyId: auth.companyId,
+                      accountId: fxAccountId,
+                      description: `Exchange ${fxGainLoss > 0 ? 'gain' : 'loss'} on payment to ${vendor.name}`,
+                      debit: fxGainLoss < 0 ? -fxGainLoss : 0,
+                      credit: fxGainLoss > 0 ? fxGainLoss : 0,
+                      vendorId: null,
+                    },
+                  ]
+                : []),
             ],
           },
         },
@@ -172,13 +328,27 @@ export async function POST(request: NextRequest) {
 
       // Create allocations
       await tx.vendorAllocation.createMany({
-        data: validatedData.allocations.map((alloc) => ({
+        data: settlements.map((settlement) => ({
           paymentVoucherId: newVoucher.id,
-          sourceLineId: alloc.sourceLineId,
-          amount: alloc.amount,
+          sourceLineId: settlement.sourceLineId,
+          amount: settlement.carryingAmount,
+          fxAmount: settlement.fxAmount,
+          exchangeRate: settlement.exchangeRate,
+          fxGainLoss: settlement.fxGainLoss,
         })),
       });
 
+      if (deductions.length > 0) {
+        await tx.withholdingDeduction.createMany({
+          data: deductions.map((d) => ({
+            companyId: auth.companyId,
+            voucherId: newVoucher.id,
+            vendorId: validatedData.vendorId,
+            ...d,
+          })),
+        });
+      }
+
       // Fetch complete voucher with relations
       return await tx.voucher.findUnique({
         where: { id: newVoucher.id },
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { WithholdingTaxRateCreateSchema } from '@accounting/shared';
+import {
+  requireAdmin,
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import {
+  createWithholdingRate,
+  listWithholdingRates,
+} from '@/lib/accounting/withholdingTax.server';
+
+/**
+ * GET /api/withholding-tax/rates
+ * List VAT/AIT withholding rates by service type and vendor
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const rates = await listWithholdingRates(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: rates,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/withholding-tax/rates
+ * Create a withholding rate for a service type or a vendor (admin only)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAdmin(request);
+
+    const body = await request.json();
+    const data = WithholdingTaxRateCreateSchema.parse(body);
+
+    const rate = await createWithholdingRate(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: rate,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { WithholdingTaxTypeEnum } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getWithholdingReturn } from '@/lib/accounting/withholdingTax.server';
+import { monthRange } from '@/lib/reports/helpers';
+
+/**
+ * GET /api/withholding-tax/return
+ * Monthly VAT/AIT withholding return (?month=YYYY-MM, optional ?taxType=VAT|AIT)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'vouchers', 'READ');
+
+    const searchParams = request.nextUrl.searchParams;
+    const month = searchParams.get('month') || new Date().toISOString().slice(0, 7);
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match) {
+      return NextResponse.json({ ok: false, error: 'Month must be YYYY-MM' }, { status: 400 });
+    }
+    const taxType = WithholdingTaxTypeEnum.optional().parse(searchParams.get('taxType') || undefined);
+
+    const { from, to } = monthRange(new Date(Number(match[1]), Number(match[2]) - 1, 1));
+    const report = await getWithholdingReturn(auth.companyId, from, to, taxType);
+
+    return NextResponse.json({
+      ok: true,
+      data: report,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { WorkerNameMergeSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { getUnlinkedWorkerNames, mergeWorkerNames } from '@/lib/labor/workers.server';
+
+/**
+ * GET /api/workers/merge
+ * Free-text names on labor entries not yet linked to the worker register, grouped
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const groups = await getUnlinkedWorkerNames(auth.companyId);
+
+    return NextResponse.json({
+      ok: true,
+      data: groups,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/workers/merge
+ * Link groups of free-text names to existing or new workers
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const data = WorkerNameMergeSchema.parse(body);
+
+    const result = await mergeWorkerNames(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json({
+      ok: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
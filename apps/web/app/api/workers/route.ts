@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ZodError } from 'zod';
+import { WorkerCreateSchema, WorkerListFiltersSchema } from '@accounting/shared';
+import {
+  requirePermission,
+  createErrorResponse,
+  ForbiddenError,
+  UnauthorizedError,
+} from '@/lib/rbac';
+import { createWorker, listWorkers } from '@/lib/labor/workers.server';
+
+/**
+ * GET /api/workers
+ * List the worker register (active workers unless includeInactive=true)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'READ');
+
+    const { searchParams } = new URL(request.url);
+    const filters = WorkerListFiltersSchema.parse({
+      q: searchParams.get('q') || undefined,
+      projectId: searchParams.get('projectId') || undefined,
+      includeInactive: searchParams.get('includeInactive') === 'true' || undefined,
+    });
+
+    const workers = await listWorkers(auth.companyId, filters);
+
+    return NextResponse.json({
+      ok: true,
+      data: workers,
+    });
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 500);
+  }
+}
+
+/**
+ * POST /api/workers
+ * Add a worker to the register
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requirePermission(request, 'projects', 'WRITE');
+
+    const body = await request.json();
+    const data = WorkerCreateSchema.parse(body);
+
+    const worker = await createWorker(auth.companyId, auth.userId, data, request);
+
+    return NextResponse.json(
+      {
+        ok: true,
+        data: worker,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof UnauthorizedError) {
+      return createErrorResponse(error, 401);
+    }
+    if (error instanceof ForbiddenError) {
+      return createErrorResponse(error, 403);
+    }
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error.errors[0]?.message || 'Validation error',
+        },
+        { status: 400 }
+      );
+    }
+    return createErrorResponse(error instanceof Error ? error : new Error('Unknown error'), 400);
+  }
+}
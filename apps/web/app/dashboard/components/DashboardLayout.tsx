@@ -117,6 +117,24 @@ export default async function DashboardLayout({
       href: '/dashboard/projects',
       show: canReadProjects,
     },
+    {
+      type: 'link',
+      label: `Workers ${canWriteProjects ? '✏️' : ''}`,
+      href: '/dashboard/workers',
+      show: canReadProjects,
+    },
+    {
+      type: 'dropdown',
+      label: 'Payroll',
+      pathPrefix: '/dashboard/payroll',
+      show: canReadVouchers,
+      accent: 'border-l-teal-500',
+      children: [
+        { label: 'Payroll Runs', href: '/dashboard/payroll' },
+        { label: 'Salary Structures', href: '/dashboard/payroll/salaries' },
+        { label: 'Advances & Loans', href: '/dashboard/payroll/advances' },
+      ],
+    },
     {
       type: 'link',
       label: `Vendors ${canWriteVendors ? '✏️' : ''}`,
@@ -130,7 +148,17 @@ export default async function DashboardLayout({
       show: canReadPaymentMethods,
     },
     { type: 'link', label: 'Vouchers', href: '/dashboard/vouchers', show: canReadVouchers },
-    { type: 'link', label: 'Purchases', href: '/dashboard/purchases', show: canReadPurchases },
+    {
+      type: 'dropdown',
+      label: 'Purchases',
+      pathPrefix: '/dashboard/purchases',
+      show: canReadPurchases,
+      accent: 'border-l-orange-500',
+      children: [
+        { label: 'Purchases', href: '/dashboard/purchases' },
+        { label: 'Purchase Orders', href: '/dashboard/purchases/orders' },
+      ],
+    },
     {
       type: 'dropdown',
       label: 'Entries',
@@ -162,9 +190,17 @@ export default async function DashboardLayout({
       children: [
         { label: 'Stock (Overview)', href: '/dashboard/stock' },
         { label: 'Stock Items', href: '/dashboard/stock/items' },
+        { label: 'Units of Measure', href: '/dashboard/stock/units' },
         { label: 'Receive Stock', href: '/dashboard/stock/receive' },
         { label: 'Issue Stock', href: '/dashboard/stock/issue' },
+        { label: 'Material Requisitions', href: '/dashboard/stock/requisitions' },
+        { label: 'Reorder Suggestions', href: '/dashboard/stock/reorder' },
+        { label: 'Stock Takes', href: '/dashboard/stock/stock-takes' },
+        { label: 'Inventory Valuation', href: '/dashboard/stock/valuation' },
+        { label: 'Lot & Serial Trace', href: '/dashboard/stock/trace' },
         { label: 'Stock Ledger', href: '/dashboard/stock/ledger' },
+        { label: 'Stock Transfers', href: '/dashboard/stock/transfers' },
+        { label: 'Stock Locations', href: '/dashboard/stock/locations' },
       ],
     },
     {
@@ -173,7 +209,17 @@ export default async function DashboardLayout({
       pathPrefix: '/dashboard/tools',
       show: canReadVouchers,
       accent: 'border-l-slate-500',
-      children: [{ label: 'Import Transactions', href: '/dashboard/tools/import-transactions' }],
+      children: [
+        { label: 'Import Transactions', href: '/dashboard/tools/import-transactions' },
+        { label: 'Exchange Rates', href: '/dashboard/tools/exchange-rates' },
+        ...(role === 'ADMIN'
+          ? [
+              { label: 'Voucher Numbering', href: '/dashboard/tools/voucher-numbering' },
+              { label: 'Approval Rules', href: '/dashboard/tools/approval-rules' },
+              { label: 'Withholding Tax Rates', href: '/dashboard/tools/withholding-tax' },
+            ]
+          : []),
+      ],
     },
     {
       type: 'dropdown-nested',
@@ -183,16 +229,26 @@ export default async function DashboardLayout({
       accent: 'border-l-indigo-500',
       children: [
         { label: 'Payables', href: '/dashboard/reports/payables' },
+        { label: 'Receivables', href: '/dashboard/reports/receivables' },
         { label: 'Overhead', href: '/dashboard/reports/overhead' },
         {
           label: 'Financial Statements',
           children: [
             { label: 'Cash Book', href: '/dashboard/reports/financial/cash-book' },
             { label: 'Bank Book', href: '/dashboard/reports/financial/bank-book' },
+            { label: 'Bank Reconciliation', href: '/dashboard/reports/financial/bank-reconciliation' },
+            { label: 'Post-dated Cheques', href: '/dashboard/reports/financial/post-dated-cheques' },
+            { label: 'Withholding Tax Return', href: '/dashboard/reports/financial/withholding-tax' },
             { label: 'Trial Balance', href: '/dashboard/reports/financial/trial-balance' },
             { label: 'Profit & Loss', href: '/dashboard/reports/financial/profit-loss' },
             { label: 'Balance Sheet', href: '/dashboard/reports/financial/balance-sheet' },
             { label: 'Project Profitability', href: '/dashboard/reports/financial/project-profitability' },
+            ...(role === 'ADMIN'
+              ? [
+                  { label: 'Period Close', href: '/dashboard/reports/financial/period-close' },
+                  { label: 'Year-End Close', href: '/dashboard/reports/financial/year-end-close' },
+                ]
+              : []),
           ],
         },
       ],
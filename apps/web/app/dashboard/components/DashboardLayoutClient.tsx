@@ -5,6 +5,7 @@ import { usePathname } from 'next/navigation';
 import Link from 'next/link';
 import MobileNav from './MobileNav';
 import LogoutButton from '../logout-button';
+import NotificationBell from './NotificationBell';
 import { ResponsivePageHeader } from './ui';
 
 interface DashboardLayoutClientProps {
@@ -42,6 +43,9 @@ export default function DashboardLayoutClient({
           </svg>
         </button>
         <span className="ml-2 font-semibold text-gray-900 truncate">{title}</span>
+        <div className="ml-auto">
+          <NotificationBell />
+        </div>
       </header>
 
       {/* Mobile drawer */}
@@ -61,10 +65,11 @@ export default function DashboardLayoutClient({
       {/* Desktop sidebar - hidden on mobile */}
       <aside className="hidden md:flex w-64 shrink-0 sticky top-0 h-screen overflow-y-auto bg-white/80 backdrop-blur border-r border-gray-200/80 flex-col">
         <div className="p-4 flex-1 overflow-y-auto">
-          <div className="mb-4 pb-3 border-b border-gray-200/80">
+          <div className="mb-4 pb-3 border-b border-gray-200/80 flex items-center justify-between gap-2">
             <Link href="/dashboard" className="text-base font-semibold text-gray-900 hover:text-gray-700">
               ASN Builders Accounts
             </Link>
+            <NotificationBell />
           </div>
           <p className="text-[10px] uppercase tracking-wider text-gray-400 mb-3 px-1">Navigation</p>
           <nav className="space-y-1">{sidebarContent}</nav>
@@ -0,0 +1,123 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+
+interface NotificationItem {
+  id: string;
+  kind: string;
+  title: string;
+  message: string;
+  link: string | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [open, setOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+
+  const fetchNotifications = async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      const data = await response.json();
+      if (data.ok) {
+        setUnreadCount(data.data.unreadCount);
+        setNotifications(data.data.notifications);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    setOpen(false);
+    fetchNotifications();
+  }, [pathname]);
+
+  const markRead = async (body: { ids?: string[]; all?: boolean }) => {
+    try {
+      await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      await fetchNotifications();
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  const handleOpen = async (notification: NotificationItem) => {
+    if (!notification.readAt) {
+      await markRead({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      setOpen(false);
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="relative p-2 rounded-md text-gray-600 hover:bg-gray-100"
+        aria-label="Notifications"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"
+          />
+        </svg>
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-[1.1rem] text-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="fixed right-2 top-14 md:top-4 md:left-64 md:right-auto md:ml-2 w-80 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead({ all: true })} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 ${notification.readAt ? '' : 'bg-blue-50/60'}`}
+                  >
+                    <div className={`text-sm ${notification.readAt ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                      {notification.title}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">{notification.message}</div>
+                    <div className="text-[11px] text-gray-400 mt-1">{formatDate(notification.createdAt)}</div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
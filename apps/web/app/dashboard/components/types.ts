@@ -33,6 +33,10 @@ export interface Vendor {
   phone?: string | null;
   address?: string | null;
   notes?: string | null;
+  serviceType?: string | null;
+  tin?: string | null;
+  bin?: string | null;
+  leadTimeDays?: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import type { PayrollRunStatus } from '@accounting/shared';
+
+interface PayrollRun {
+  id: string;
+  year: number;
+  month: number;
+  period: string;
+  status: PayrollRunStatus;
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  paymentVoucher: { id: string; voucherNo: string; status: string } | null;
+  totals: {
+    employees: number;
+    grossPay: number;
+    absenceDeduction: number;
+    advanceDeduction: number;
+    loanDeduction: number;
+    netPay: number;
+  };
+}
+
+interface PayrollRunsClientProps {
+  runs: PayrollRun[];
+  canWrite: boolean;
+}
+
+const STATUS_STYLES: Record<PayrollRunStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  POSTED: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const MONTHS = Array.from({ length: 12 }, (_, i) =>
+  new Date(Date.UTC(2000, i, 1)).toLocaleDateString('en-US', { month: 'long', timeZone: 'UTC' })
+);
+
+export default function PayrollRunsClient({ runs, canWrite }: PayrollRunsClientProps) {
+  const router = useRouter();
+  const now = new Date();
+  const [year, setYear] = useState(String(now.getFullYear()));
+  const [month, setMonth] = useState(String(now.getMonth() + 1));
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/payroll/runs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year, month }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to run payroll');
+        return;
+      }
+      router.push(`/dashboard/payroll/${data.data.id}`);
+    } catch (err) {
+      setError('Failed to run payroll');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {canWrite && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+            <select
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              {MONTHS.map((name, i) => (
+                <option key={name} value={i + 1}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Year</label>
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => setYear(e.target.value)}
+              className="w-28 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            disabled={isWorking || !year}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+          >
+            {isWorking ? 'Running...' : 'Run Payroll'}
+          </button>
+          <p className="text-sm text-gray-500">
+            Takes a payslip for everyone with an active{' '}
+            <Link href="/dashboard/payroll/salaries" className="text-blue-600 hover:text-blue-800">
+              salary structure
+            </Link>
+            , deducting advance and loan installments.
+          </p>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Staff</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Absence</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Advances & Loans</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Pay</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vouchers</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {runs.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No payroll has been run yet
+                </td>
+              </tr>
+            ) : (
+              runs.map((run) => (
+                <tr key={run.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <Link href={`/dashboard/payroll/${run.id}`} className="font-medium text-blue-600 hover:text-blue-800">
+                      {run.period}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">{run.totals.employees}</td>
+                  <td className="px-4 py-3 text-sm text-right">{toMoney(run.totals.grossPay)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">{toMoney(run.totals.absenceDeduction)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">
+                    {toMoney(run.totals.advanceDeduction + run.totals.loanDeduction)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(run.totals.netPay)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    {[run.voucher, run.paymentVoucher].map(
+                      (voucher) =>
+                        voucher && (
+                          <Link
+                            key={voucher.id}
+                            href={`/dashboard/vouchers/${voucher.id}`}
+                            className="block text-blue-600 hover:text-blue-800"
+                          >
+                            {voucher.voucherNo}
+                          </Link>
+                        )
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                      {run.status}
+                    </span>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,507 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import type { PayrollRunStatus } from '@accounting/shared';
+
+interface Entry {
+  id: string;
+  employeeName: string;
+  designation: string | null;
+  project: { id: string; name: string } | null;
+  basic: number;
+  houseRent: number;
+  conveyance: number;
+  mobile: number;
+  grossPay: number;
+  daysInMonth: number;
+  absentDays: number;
+  absenceDeduction: number;
+  advanceDeduction: number;
+  loanDeduction: number;
+  netPay: number;
+  paymentMode: 'CASH' | 'BANK';
+  bankAccountNo: string | null;
+}
+
+interface PayrollRun {
+  id: string;
+  year: number;
+  month: number;
+  period: string;
+  status: PayrollRunStatus;
+  notes: string | null;
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  paymentVoucher: { id: string; voucherNo: string; status: string } | null;
+  entries: Entry[];
+  totals: {
+    employees: number;
+    grossPay: number;
+    absenceDeduction: number;
+    advanceDeduction: number;
+    loanDeduction: number;
+    netPay: number;
+    bank: number;
+    cash: number;
+  };
+}
+
+interface PayrollRunClientProps {
+  run: PayrollRun;
+  projects: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+const STATUS_STYLES: Record<PayrollRunStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  POSTED: 'bg-blue-100 text-blue-800',
+  PAID: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const monthEnd = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0];
+
+export default function PayrollRunClient({ run, projects, canWrite }: PayrollRunClientProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<Entry | null>(null);
+  const [entryForm, setEntryForm] = useState({ absentDays: '', projectId: '', advanceDeduction: '', loanDeduction: '' });
+  const [action, setAction] = useState<'post' | 'pay' | null>(null);
+  const [actionDate, setActionDate] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/payroll/runs/${run.id}`;
+  const isDraft = run.status === 'DRAFT';
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(failure);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const openEntry = (entry: Entry) => {
+    setError(null);
+    setEditing(entry);
+    setEntryForm({
+      absentDays: String(entry.absentDays),
+      projectId: entry.project?.id || '',
+      advanceDeduction: String(entry.advanceDeduction),
+      loanDeduction: String(entry.loanDeduction),
+    });
+  };
+
+  const handleSaveEntry = async () => {
+    if (!editing) return;
+    const advanceDeduction = parseFloat(entryForm.advanceDeduction) || 0;
+    const loanDeduction = parseFloat(entryForm.loanDeduction) || 0;
+    const ok = await request(
+      `${baseUrl}/entries/${editing.id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          absentDays: entryForm.absentDays || 0,
+          projectId: entryForm.projectId || null,
+          // Unchanged deductions keep their installments on each advance and loan
+          ...(advanceDeduction !== editing.advanceDeduction ? { advanceDeduction } : {}),
+          ...(loanDeduction !== editing.loanDeduction ? { loanDeduction } : {}),
+        }),
+      },
+      'Failed to update payslip'
+    );
+    if (ok) setEditing(null);
+  };
+
+  const openAction = (next: 'post' | 'pay') => {
+    setError(null);
+    setAction(next);
+    setActionDate(next === 'post' ? monthEnd(run.year, run.month) : today());
+  };
+
+  const handleAction = async () => {
+    if (!action) return;
+    const ok = await request(
+      `${baseUrl}/${action}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: actionDate }),
+      },
+      action === 'post' ? 'Failed to post payroll' : 'Failed to pay salaries'
+    );
+    if (ok) setAction(null);
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the draft payroll for ${run.period}?`)) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(baseUrl, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to delete payroll run');
+        return;
+      }
+      router.push('/dashboard/payroll');
+    } catch (err) {
+      setError('Failed to delete payroll run');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm(`Cancel the payroll for ${run.period}? Its advance and loan recoveries will be released.`)) return;
+    await request(`${baseUrl}/cancel`, { method: 'POST' }, 'Failed to cancel payroll run');
+  };
+
+  const grossEdit = editing ? editing.grossPay : 0;
+  const absenceEdit = editing
+    ? Math.min(grossEdit, Math.round((grossEdit / editing.daysInMonth) * (parseFloat(entryForm.absentDays) || 0) * 100) / 100)
+    : 0;
+  const netEdit =
+    grossEdit -
+    absenceEdit -
+    (parseFloat(entryForm.advanceDeduction) || 0) -
+    (parseFloat(entryForm.loanDeduction) || 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex items-center gap-3">
+          <Link href="/dashboard/payroll" className="text-sm text-blue-600 hover:text-blue-800">
+            ← Back to payroll
+          </Link>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+            {run.status}
+          </span>
+          {[run.voucher, run.paymentVoucher].map(
+            (voucher) =>
+              voucher && (
+                <Link
+                  key={voucher.id}
+                  href={`/dashboard/vouchers/${voucher.id}`}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  {voucher.voucherNo} ({voucher.status})
+                </Link>
+              )
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => window.open(`/print/payroll/${run.id}/payslips`, '_blank')}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 text-sm"
+          >
+            Payslips
+          </button>
+          {run.totals.bank > 0 && (
+            <button
+              onClick={() => window.open(`/print/payroll/${run.id}/bank-advice`, '_blank')}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 text-sm"
+            >
+              Bank Advice
+            </button>
+          )}
+          {canWrite && isDraft && (
+            <>
+              <button
+                onClick={handleDelete}
+                disabled={isWorking}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 text-sm disabled:opacity-50"
+              >
+                Delete Draft
+              </button>
+              <button
+                onClick={() => openAction('post')}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+              >
+                Post Payroll
+              </button>
+            </>
+          )}
+          {canWrite && run.status === 'POSTED' && (
+            <button
+              onClick={() => openAction('pay')}
+              disabled={isWorking}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+            >
+              Pay Salaries
+            </button>
+          )}
+          {canWrite && (run.status === 'POSTED' || run.status === 'PAID') && (
+            <button
+              onClick={handleCancel}
+              disabled={isWorking}
+              className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 text-sm disabled:opacity-50"
+            >
+              Cancel Run
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Gross Salary</div>
+          <div className="text-xl font-bold">{toMoney(run.totals.grossPay)}</div>
+          <div className="text-xs text-gray-500">{run.totals.employees} staff</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Absence</div>
+          <div className="text-xl font-bold">{toMoney(run.totals.absenceDeduction)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Advances & Loans</div>
+          <div className="text-xl font-bold">
+            {toMoney(run.totals.advanceDeduction + run.totals.loanDeduction)}
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Net Pay</div>
+          <div className="text-xl font-bold text-orange-700">{toMoney(run.totals.netPay)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Bank / Cash</div>
+          <div className="text-sm font-medium mt-1">Bank {toMoney(run.totals.bank)}</div>
+          <div className="text-sm font-medium">Cash {toMoney(run.totals.cash)}</div>
+        </div>
+      </div>
+
+      {error && !editing && !action && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* Payslips */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Charged To</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Basic</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Allowances</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Absent</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Advance</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Loan</th>
+              <th className="px-3 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net Pay</th>
+              <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid By</th>
+              <th className="px-3 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {run.entries.map((entry) => (
+              <tr key={entry.id} className="hover:bg-gray-50">
+                <td className="px-3 py-3 text-sm">
+                  <div className="font-medium text-gray-900">{entry.employeeName}</div>
+                  {entry.designation && <div className="text-xs text-gray-500">{entry.designation}</div>}
+                </td>
+                <td className="px-3 py-3 text-sm">{entry.project?.name || 'Office'}</td>
+                <td className="px-3 py-3 text-sm text-right">{toMoney(entry.basic)}</td>
+                <td className="px-3 py-3 text-sm text-right">
+                  {toMoney(entry.houseRent + entry.conveyance + entry.mobile)}
+                </td>
+                <td className="px-3 py-3 text-sm text-right">{toMoney(entry.grossPay)}</td>
+                <td className="px-3 py-3 text-sm text-right">
+                  {entry.absentDays > 0 ? (
+                    <>
+                      <div>{toMoney(entry.absenceDeduction)}</div>
+                      <div className="text-xs text-gray-500">{entry.absentDays} day(s)</div>
+                    </>
+                  ) : (
+                    '—'
+                  )}
+                </td>
+                <td className="px-3 py-3 text-sm text-right">
+                  {entry.advanceDeduction > 0 ? toMoney(entry.advanceDeduction) : '—'}
+                </td>
+                <td className="px-3 py-3 text-sm text-right">
+                  {entry.loanDeduction > 0 ? toMoney(entry.loanDeduction) : '—'}
+                </td>
+                <td className="px-3 py-3 text-sm text-right font-medium">{toMoney(entry.netPay)}</td>
+                <td className="px-3 py-3 text-sm">
+                  {entry.paymentMode === 'BANK' ? (
+                    <>
+                      <div>Bank</div>
+                      <div className="text-xs text-gray-500">{entry.bankAccountNo}</div>
+                    </>
+                  ) : (
+                    'Cash'
+                  )}
+                </td>
+                <td className="px-3 py-3 text-sm text-right">
+                  {canWrite && isDraft && (
+                    <button onClick={() => openEntry(entry)} className="text-blue-600 hover:text-blue-800">
+                      Adjust
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {run.notes && <div className="text-sm text-gray-600">Notes: {run.notes}</div>}
+
+      {/* Adjust payslip */}
+      {editing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Payslip - {editing.employeeName}</h3>
+            <p className="text-sm text-gray-600">
+              Gross {toMoney(editing.grossPay)} for {editing.daysInMonth} days; each absent day deducts{' '}
+              {toMoney(editing.grossPay / editing.daysInMonth)}. Deductions are recovered from the oldest open advance or
+              loan first.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Absent Days</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={entryForm.absentDays}
+                  onChange={(e) => setEntryForm({ ...entryForm, absentDays: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Charged To</label>
+                <select
+                  value={entryForm.projectId}
+                  onChange={(e) => setEntryForm({ ...entryForm, projectId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Office overhead</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Advance Deduction</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={entryForm.advanceDeduction}
+                  onChange={(e) => setEntryForm({ ...entryForm, advanceDeduction: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Loan Deduction</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={entryForm.loanDeduction}
+                  onChange={(e) => setEntryForm({ ...entryForm, loanDeduction: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                />
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <div className="text-sm">
+                Net pay: <span className={`font-medium ${netEdit < 0 ? 'text-red-600' : ''}`}>{toMoney(netEdit)}</span>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSaveEntry}
+                  disabled={isWorking || netEdit < 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Post or pay */}
+      {action && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              {action === 'post' ? 'Post Payroll' : 'Pay Salaries'} - {run.period}
+            </h3>
+            <p className="text-sm text-gray-600">
+              {action === 'post'
+                ? `A posted journal voucher will charge ${toMoney(
+                    run.totals.grossPay - run.totals.absenceDeduction
+                  )} of salaries to the projects and office overhead, recover the advances and loans, and book ${toMoney(
+                    run.totals.netPay
+                  )} net pay to Salaries Payable. Payslips cannot be adjusted afterwards.`
+                : `A posted payment voucher will pay ${toMoney(run.totals.netPay)} of net salaries: ${toMoney(
+                    run.totals.bank
+                  )} from the bank and ${toMoney(run.totals.cash)} in cash.`}
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Voucher Date *</label>
+              <input
+                type="date"
+                value={actionDate}
+                onChange={(e) => setActionDate(e.target.value)}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setAction(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAction}
+                disabled={isWorking || !actionDate}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : action === 'post' ? 'Post' : 'Pay'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
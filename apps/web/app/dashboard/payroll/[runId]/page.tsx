@@ -0,0 +1,39 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { getPayrollRun } from '@/lib/labor/payroll.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import PayrollRunClient from './PayrollRunClient';
+
+export default async function PayrollRunPage({ params }: { params: { runId: string } }) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let run;
+  try {
+    run = await getPayrollRun(auth.companyId, params.runId);
+  } catch (error) {
+    redirect('/dashboard/payroll');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const projects =
+    canWrite && run.status === 'DRAFT'
+      ? await prisma.project.findMany({
+          where: { companyId: auth.companyId, isActive: true },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [];
+
+  return (
+    <DashboardLayout title={`Payroll - ${run.period}`}>
+      <PayrollRunClient run={run} projects={projects} canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
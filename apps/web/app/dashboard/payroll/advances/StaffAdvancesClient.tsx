@@ -0,0 +1,283 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Advance {
+  id: string;
+  worker: { id: string; name: string };
+  type: 'ADVANCE' | 'LOAN';
+  date: string;
+  amount: number;
+  installmentAmount: number;
+  recovered: number;
+  pending: number;
+  outstanding: number;
+  notes: string | null;
+  voucher: { id: string; voucherNo: string; status: string };
+  createdBy: string;
+}
+
+interface StaffAdvancesClientProps {
+  advances: Advance[];
+  employees: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyForm = () => ({
+  workerId: '',
+  type: 'ADVANCE' as 'ADVANCE' | 'LOAN',
+  date: today(),
+  amount: '',
+  installmentAmount: '',
+  paymentMethod: 'CASH' as 'CASH' | 'BANK',
+  notes: '',
+});
+
+export default function StaffAdvancesClient({ advances, employees, canWrite }: StaffAdvancesClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [showSettled, setShowSettled] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const live = advances.filter((advance) => advance.voucher.status === 'POSTED');
+  const shown = showSettled ? advances : advances.filter((advance) => advance.outstanding > 0);
+  const outstanding = (type: Advance['type']) =>
+    live.filter((advance) => advance.type === type).reduce((sum, advance) => sum + advance.outstanding, 0);
+
+  const amount = parseFloat(form.amount) || 0;
+  const installment = parseFloat(form.installmentAmount) || 0;
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/payroll/advances', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          notes: form.notes || null,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to pay advance');
+        return;
+      }
+      setShowForm(false);
+      setForm(emptyForm());
+      router.refresh();
+    } catch (err) {
+      setError('Failed to pay advance');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showSettled} onChange={(e) => setShowSettled(e.target.checked)} />
+          Show recovered advances and loans
+        </label>
+        {canWrite && (
+          <button
+            onClick={() => {
+              setError(null);
+              setShowForm(true);
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Pay Advance / Loan
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Salary Advances Outstanding</div>
+          <div className="text-xl font-bold">{toMoney(outstanding('ADVANCE'))}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Staff Loans Outstanding</div>
+          <div className="text-xl font-bold">{toMoney(outstanding('LOAN'))}</div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Installment</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Recovered</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Voucher</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {shown.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No advances or loans outstanding
+                </td>
+              </tr>
+            ) : (
+              shown.map((advance) => (
+                <tr key={advance.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">{formatDate(advance.date)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{advance.worker.name}</div>
+                    {advance.notes && <div className="text-xs text-gray-500">{advance.notes}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm">{advance.type === 'LOAN' ? 'Loan' : 'Advance'}</td>
+                  <td className="px-4 py-3 text-sm text-right">{toMoney(advance.amount)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">{toMoney(advance.installmentAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    <div>{toMoney(advance.recovered)}</div>
+                    {advance.pending > 0 && (
+                      <div className="text-xs text-gray-500">{toMoney(advance.pending)} in draft payroll</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(advance.outstanding)}</td>
+                  <td className="px-4 py-3 text-sm">
+                    <Link href={`/dashboard/vouchers/${advance.voucher.id}`} className="text-blue-600 hover:text-blue-800">
+                      {advance.voucher.voucherNo}
+                    </Link>
+                    {advance.voucher.status !== 'POSTED' && (
+                      <span className="ml-1 text-xs text-red-600">{advance.voucher.status}</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Pay Salary Advance / Loan</h3>
+            <p className="text-sm text-gray-600">
+              A payment voucher is posted now, and the installment is deducted from each payroll run until the amount
+              is recovered.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Employee *</label>
+                <select
+                  value={form.workerId}
+                  onChange={(e) => setForm({ ...form, workerId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Select employee</option>
+                  {employees.map((employee) => (
+                    <option key={employee.id} value={employee.id}>
+                      {employee.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type *</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value as 'ADVANCE' | 'LOAN' })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="ADVANCE">Salary advance</option>
+                  <option value="LOAN">Loan</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Monthly Installment *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={form.installmentAmount}
+                  onChange={(e) => setForm({ ...form, installmentAmount: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Paid From *</label>
+                <select
+                  value={form.paymentMethod}
+                  onChange={(e) => setForm({ ...form, paymentMethod: e.target.value as 'CASH' | 'BANK' })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="CASH">Cash</option>
+                  <option value="BANK">Bank</option>
+                </select>
+              </div>
+              <div className="flex items-end pb-2 text-sm text-gray-600">
+                {installment > 0 && amount > 0 && `Recovered in ${Math.ceil(amount / installment)} month(s)`}
+              </div>
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isWorking || !form.workerId || amount <= 0 || installment <= 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Pay'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { listStaffAdvances } from '@/lib/labor/payroll.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import StaffAdvancesClient from './StaffAdvancesClient';
+
+export default async function StaffAdvancesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const [advances, employees] = await Promise.all([
+    listStaffAdvances(auth.companyId),
+    canWrite
+      ? prisma.worker.findMany({
+          where: { companyId: auth.companyId, isActive: true, salaryStructure: { isActive: true } },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        })
+      : [],
+  ]);
+
+  return (
+    <DashboardLayout title="Salary Advances & Loans">
+      <StaffAdvancesClient advances={advances} employees={employees} canWrite={canWrite} />
+    </DashboardLayout>
+  );
+}
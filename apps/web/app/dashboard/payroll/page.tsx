@@ -0,0 +1,23 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listPayrollRuns } from '@/lib/labor/payroll.server';
+import DashboardLayout from '../components/DashboardLayout';
+import PayrollRunsClient from './PayrollRunsClient';
+
+export default async function PayrollRunsPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const runs = await listPayrollRuns(auth.companyId);
+
+  return (
+    <DashboardLayout title="Payroll">
+      <PayrollRunsClient runs={runs} canWrite={can(auth.role, 'vouchers', 'WRITE')} />
+    </DashboardLayout>
+  );
+}
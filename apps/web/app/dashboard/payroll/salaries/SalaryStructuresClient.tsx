@@ -0,0 +1,361 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Structure {
+  id: string;
+  designation: string | null;
+  basic: number;
+  houseRent: number;
+  conveyance: number;
+  mobile: number;
+  grossPay: number;
+  project: { id: string; name: string } | null;
+  paymentMode: 'CASH' | 'BANK';
+  bankName: string | null;
+  bankAccountNo: string | null;
+  isActive: boolean;
+}
+
+interface Employee {
+  workerId: string;
+  name: string;
+  trade: string | null;
+  phone: string | null;
+  workerActive: boolean;
+  structure: Structure | null;
+}
+
+interface SalaryStructuresClientProps {
+  employees: Employee[];
+  projects: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+const emptyForm = {
+  designation: '',
+  basic: '',
+  houseRent: '',
+  conveyance: '',
+  mobile: '',
+  projectId: '',
+  paymentMode: 'CASH' as 'CASH' | 'BANK',
+  bankName: '',
+  bankAccountNo: '',
+  isActive: true,
+};
+
+export default function SalaryStructuresClient({ employees, projects, canWrite }: SalaryStructuresClientProps) {
+  const router = useRouter();
+  const [editing, setEditing] = useState<Employee | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [showAll, setShowAll] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const staff = employees.filter((employee) => employee.structure);
+  const shown = showAll ? employees : staff;
+  const monthlyPayroll = staff
+    .filter((employee) => employee.structure!.isActive && employee.workerActive)
+    .reduce((sum, employee) => sum + employee.structure!.grossPay, 0);
+
+  const openEditor = (employee: Employee) => {
+    const structure = employee.structure;
+    setError(null);
+    setEditing(employee);
+    setForm(
+      structure
+        ? {
+            designation: structure.designation || '',
+            basic: String(structure.basic),
+            houseRent: String(structure.houseRent),
+            conveyance: String(structure.conveyance),
+            mobile: String(structure.mobile),
+            projectId: structure.project?.id || '',
+            paymentMode: structure.paymentMode,
+            bankName: structure.bankName || '',
+            bankAccountNo: structure.bankAccountNo || '',
+            isActive: structure.isActive,
+          }
+        : { ...emptyForm, designation: employee.trade || '' }
+    );
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/payroll/salaries/${editing.workerId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          designation: form.designation || null,
+          basic: form.basic,
+          houseRent: form.houseRent || 0,
+          conveyance: form.conveyance || 0,
+          mobile: form.mobile || 0,
+          projectId: form.projectId || null,
+          paymentMode: form.paymentMode,
+          bankName: form.bankName || null,
+          bankAccountNo: form.bankAccountNo || null,
+          isActive: form.isActive,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to save salary structure');
+        return;
+      }
+      setEditing(null);
+      router.refresh();
+    } catch (err) {
+      setError('Failed to save salary structure');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const gross =
+    (parseFloat(form.basic) || 0) +
+    (parseFloat(form.houseRent) || 0) +
+    (parseFloat(form.conveyance) || 0) +
+    (parseFloat(form.mobile) || 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-gray-600">
+          Monthly salary of site and office staff on the{' '}
+          <Link href="/dashboard/workers" className="text-blue-600 hover:text-blue-800">
+            worker register
+          </Link>
+          . Staff without a project are charged to office overhead.
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+          Show workers without a salary
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Salaried Staff</div>
+          <div className="text-xl font-bold">{staff.length}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Monthly Gross</div>
+          <div className="text-xl font-bold">{toMoney(monthlyPayroll)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Paid by Bank</div>
+          <div className="text-xl font-bold">
+            {staff.filter((employee) => employee.structure!.paymentMode === 'BANK').length}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Basic</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">House Rent</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Conveyance</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Mobile</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Charged To</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Paid By</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {shown.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No salary structures yet
+                </td>
+              </tr>
+            ) : (
+              shown.map((employee) => {
+                const structure = employee.structure;
+                return (
+                  <tr
+                    key={employee.workerId}
+                    className={structure && (!structure.isActive || !employee.workerActive) ? 'bg-gray-50 text-gray-500' : ''}
+                  >
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-gray-900">{employee.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {structure?.designation || employee.trade || '—'}
+                        {structure && !structure.isActive && ' · not on payroll'}
+                        {!employee.workerActive && ' · inactive worker'}
+                      </div>
+                    </td>
+                    {structure ? (
+                      <>
+                        <td className="px-4 py-3 text-sm text-right">{toMoney(structure.basic)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{toMoney(structure.houseRent)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{toMoney(structure.conveyance)}</td>
+                        <td className="px-4 py-3 text-sm text-right">{toMoney(structure.mobile)}</td>
+                        <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(structure.grossPay)}</td>
+                        <td className="px-4 py-3 text-sm">{structure.project?.name || 'Office'}</td>
+                        <td className="px-4 py-3 text-sm">
+                          {structure.paymentMode === 'BANK' ? (
+                            <>
+                              <div>Bank</div>
+                              <div className="text-xs text-gray-500">
+                                {[structure.bankName, structure.bankAccountNo].filter(Boolean).join(' · ')}
+                              </div>
+                            </>
+                          ) : (
+                            'Cash'
+                          )}
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={7} className="px-4 py-3 text-sm text-gray-400">
+                        No salary structure
+                      </td>
+                    )}
+                    <td className="px-4 py-3 text-sm text-right">
+                      {canWrite && (
+                        <button onClick={() => openEditor(employee)} className="text-blue-600 hover:text-blue-800">
+                          {structure ? 'Edit' : 'Set Salary'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Salary Structure - {editing.name}</h3>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Designation</label>
+                <input
+                  type="text"
+                  value={form.designation}
+                  onChange={(e) => setForm({ ...form, designation: e.target.value })}
+                  placeholder="e.g. Site Engineer"
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              {(
+                [
+                  ['basic', 'Basic *'],
+                  ['houseRent', 'House Rent'],
+                  ['conveyance', 'Conveyance'],
+                  ['mobile', 'Mobile'],
+                ] as const
+              ).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 text-right"
+                  />
+                </div>
+              ))}
+              <div className="col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Charged To</label>
+                <select
+                  value={form.projectId}
+                  onChange={(e) => setForm({ ...form, projectId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Office overhead</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Paid By</label>
+                <select
+                  value={form.paymentMode}
+                  onChange={(e) => setForm({ ...form, paymentMode: e.target.value as 'CASH' | 'BANK' })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="CASH">Cash</option>
+                  <option value="BANK">Bank transfer</option>
+                </select>
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={form.isActive}
+                    onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  />
+                  On payroll
+                </label>
+              </div>
+              {form.paymentMode === 'BANK' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Bank</label>
+                    <input
+                      type="text"
+                      value={form.bankName}
+                      onChange={(e) => setForm({ ...form, bankName: e.target.value })}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Account No *</label>
+                    <input
+                      type="text"
+                      value={form.bankAccountNo}
+                      onChange={(e) => setForm({ ...form, bankAccountNo: e.target.value })}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+            <div className="flex justify-between items-center">
+              <div className="text-sm">
+                Gross salary: <span className="font-medium">{toMoney(gross)}</span>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={isWorking || !(parseFloat(form.basic) > 0)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
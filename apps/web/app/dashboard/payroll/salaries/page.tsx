@@ -0,0 +1,35 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { listSalaryStructures } from '@/lib/labor/payroll.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import SalaryStructuresClient from './SalaryStructuresClient';
+
+export default async function SalaryStructuresPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const [employees, projects] = await Promise.all([
+    listSalaryStructures(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Salary Structures">
+      <SalaryStructuresClient
+        employees={employees}
+        projects={projects}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,735 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Bill {
+  id: string;
+  billRef: string;
+  billDate: string;
+  dueDate: string | null;
+  basis: 'PROGRESS' | 'MEASURED';
+  progressPercent: number | null;
+  cumulativeAmount: number;
+  previousAmount: number;
+  grossAmount: number;
+  vatPercent: number;
+  vatAmount: number;
+  aitPercent: number;
+  aitAmount: number;
+  retentionPercent: number;
+  retentionAmount: number;
+  netAmount: number;
+  status: 'DRAFT' | 'ISSUED' | 'CANCELLED';
+  notes: string | null;
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  items: Array<{ id: string; description: string; unit: string | null; quantity: number; rate: number; amount: number }>;
+  collections: Array<{
+    id: string;
+    date: string;
+    netAmount: number;
+    retentionAmount: number;
+    voucher: { id: string; voucherNo: string; status: string };
+  }>;
+  outstandingNet: number;
+  outstandingRetention: number;
+}
+
+interface ProjectBillingClientProps {
+  project: {
+    id: string;
+    name: string;
+    clientName: string | null;
+    contractValue: number | null;
+    progressPercent: number;
+  };
+  summary: {
+    billedToDate: number;
+    collected: number;
+    receivable: number;
+    retentionHeld: number;
+  };
+  bills: Bill[];
+  receivingAccounts: Array<{ id: string; code: string; name: string }>;
+  paymentMethods: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+interface ItemRow {
+  description: string;
+  unit: string;
+  quantity: string;
+  rate: string;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const STATUS_STYLES: Record<Bill['status'], string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  ISSUED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const emptyItem = (): ItemRow => ({ description: '', unit: '', quantity: '', rate: '' });
+
+export default function ProjectBillingClient({
+  project,
+  summary,
+  bills,
+  receivingAccounts,
+  paymentMethods,
+  canWrite,
+}: ProjectBillingClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({
+    billDate: today(),
+    dueDate: '',
+    basis: 'PROGRESS' as Bill['basis'],
+    progressPercent: String(project.progressPercent || ''),
+    vatPercent: '0',
+    aitPercent: '0',
+    retentionPercent: '0',
+    notes: '',
+  });
+  const [items, setItems] = useState<ItemRow[]>([emptyItem()]);
+  const [collecting, setCollecting] = useState<{
+    bill: Bill;
+    date: string;
+    accountId: string;
+    paymentMethodId: string;
+    netAmount: string;
+    retentionAmount: string;
+    narration: string;
+  } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Preview of the next bill, mirroring the server calculation
+  const cumulative =
+    form.basis === 'PROGRESS'
+      ? ((project.contractValue || 0) * (parseFloat(form.progressPercent) || 0)) / 100
+      : items.reduce(
+          (sum, item) => sum + (parseFloat(item.quantity) || 0) * (parseFloat(item.rate) || 0),
+          0
+        );
+  const gross = cumulative - summary.billedToDate;
+  const deduction = (percent: string) => (gross * (parseFloat(percent) || 0)) / 100;
+  const net =
+    gross - deduction(form.vatPercent) - deduction(form.aitPercent) - deduction(form.retentionPercent);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(failure);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    const ok = await request(
+      `/api/projects/${project.id}/bills`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          billDate: form.billDate,
+          dueDate: form.dueDate || null,
+          basis: form.basis,
+          progressPercent: form.basis === 'PROGRESS' ? form.progressPercent : null,
+          items:
+            form.basis === 'MEASURED'
+              ? items
+                  .filter((item) => item.description.trim())
+                  .map((item) => ({
+                    description: item.description,
+                    unit: item.unit || null,
+                    quantity: item.quantity,
+                    rate: item.rate,
+                  }))
+              : [],
+          vatPercent: form.vatPercent || 0,
+          aitPercent: form.aitPercent || 0,
+          retentionPercent: form.retentionPercent || 0,
+          notes: form.notes || null,
+        }),
+      },
+      'Failed to create bill'
+    );
+    if (ok) {
+      setShowForm(false);
+      setItems([emptyItem()]);
+    }
+  };
+
+  const handleIssue = async (bill: Bill) => {
+    if (!confirm(`Issue ${bill.billRef}? A draft journal voucher will be created for ${toMoney(bill.grossAmount)}.`)) return;
+    await request(`/api/projects/${project.id}/bills/${bill.id}/issue`, { method: 'POST' }, 'Failed to issue bill');
+  };
+
+  const handleCancel = async (bill: Bill) => {
+    if (!confirm(`Cancel ${bill.billRef}?`)) return;
+    await request(`/api/projects/${project.id}/bills/${bill.id}/cancel`, { method: 'POST' }, 'Failed to cancel bill');
+  };
+
+  const handleDelete = async (bill: Bill) => {
+    if (!confirm(`Delete draft ${bill.billRef}?`)) return;
+    await request(`/api/projects/${project.id}/bills/${bill.id}`, { method: 'DELETE' }, 'Failed to delete bill');
+  };
+
+  const handleCollect = async () => {
+    if (!collecting) return;
+    const ok = await request(
+      `/api/projects/${project.id}/bills/${collecting.bill.id}/collections`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: collecting.date,
+          accountId: collecting.accountId,
+          paymentMethodId: collecting.paymentMethodId || null,
+          netAmount: collecting.netAmount || 0,
+          retentionAmount: collecting.retentionAmount || 0,
+          narration: collecting.narration || null,
+        }),
+      },
+      'Failed to record collection'
+    );
+    if (ok) {
+      setCollecting(null);
+    }
+  };
+
+  const updateItem = (index: number, field: keyof ItemRow, value: string) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <Link href={`/dashboard/projects/${project.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to project
+        </Link>
+        <div className="flex gap-2">
+          <Link
+            href={`/dashboard/reports/receivables?projectId=${project.id}`}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 text-sm"
+          >
+            Receivables Aging
+          </Link>
+          {canWrite && (
+            <button
+              onClick={() => {
+                setError(null);
+                setShowForm(!showForm);
+              }}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+            >
+              New Bill
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Contract Value</div>
+          <div className="text-xl font-bold">
+            {project.contractValue != null ? toMoney(project.contractValue) : '-'}
+          </div>
+          <div className="text-xs text-gray-500">{project.clientName || 'No client set'}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Billed to Date</div>
+          <div className="text-xl font-bold">{toMoney(summary.billedToDate)}</div>
+          {project.contractValue ? (
+            <div className="text-xs text-gray-500">
+              {((summary.billedToDate / project.contractValue) * 100).toFixed(1)}% of contract
+            </div>
+          ) : null}
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Collected</div>
+          <div className="text-xl font-bold text-green-700">{toMoney(summary.collected)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Receivable</div>
+          <div className="text-xl font-bold text-orange-700">{toMoney(summary.receivable)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Retention Held</div>
+          <div className="text-xl font-bold">{toMoney(summary.retentionHeld)}</div>
+        </div>
+      </div>
+
+      {error && !collecting && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* New bill */}
+      {showForm && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">New Running Bill</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bill Date *</label>
+              <input
+                type="date"
+                value={form.billDate}
+                onChange={(e) => setForm({ ...form, billDate: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+              <input
+                type="date"
+                value={form.dueDate}
+                onChange={(e) => setForm({ ...form, dueDate: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Basis *</label>
+              <select
+                value={form.basis}
+                onChange={(e) => setForm({ ...form, basis: e.target.value as Bill['basis'] })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="PROGRESS">Progress % of contract</option>
+                <option value="MEASURED">Measured work</option>
+              </select>
+            </div>
+            {form.basis === 'PROGRESS' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cumulative Progress % *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={form.progressPercent}
+                  onChange={(e) => setForm({ ...form, progressPercent: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            )}
+          </div>
+
+          {form.basis === 'MEASURED' && (
+            <div>
+              <div className="text-sm font-medium text-gray-700 mb-2">
+                Measured items (cumulative quantities to date)
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {items.map((item, index) => (
+                    <tr key={index}>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={item.description}
+                          onChange={(e) => updateItem(index, 'description', e.target.value)}
+                          className="w-full rounded-md border-gray-300 shadow-sm text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-24">
+                        <input
+                          type="text"
+                          value={item.unit}
+                          onChange={(e) => updateItem(index, 'unit', e.target.value)}
+                          className="w-full rounded-md border-gray-300 shadow-sm text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-32">
+                        <input
+                          type="number"
+                          step="0.001"
+                          value={item.quantity}
+                          onChange={(e) => updateItem(index, 'quantity', e.target.value)}
+                          className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2 w-32">
+                        <input
+                          type="number"
+                          step="0.01"
+                          value={item.rate}
+                          onChange={(e) => updateItem(index, 'rate', e.target.value)}
+                          className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right"
+                        />
+                      </td>
+                      <td className="px-3 py-2 text-sm text-right">
+                        {toMoney((parseFloat(item.quantity) || 0) * (parseFloat(item.rate) || 0))}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {items.length > 1 && (
+                          <button
+                            onClick={() => setItems(items.filter((_, i) => i !== index))}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                onClick={() => setItems([...items, emptyItem()])}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+              >
+                + Add item
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">VAT Deducted %</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.vatPercent}
+                onChange={(e) => setForm({ ...form, vatPercent: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">AIT Deducted %</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.aitPercent}
+                onChange={(e) => setForm({ ...form, aitPercent: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Retention %</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.retentionPercent}
+                onChange={(e) => setForm({ ...form, retentionPercent: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-md p-4 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            <div>Cumulative: <span className="font-medium">{toMoney(cumulative)}</span></div>
+            <div>Previously billed: <span className="font-medium">{toMoney(summary.billedToDate)}</span></div>
+            <div>This bill (gross): <span className={`font-medium ${gross <= 0 ? 'text-red-600' : ''}`}>{toMoney(gross)}</span></div>
+            <div>Net receivable: <span className="font-medium">{toMoney(net)}</span></div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isWorking || gross <= 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Saving...' : 'Save Draft'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Bills */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bill</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cumulative</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">VAT / AIT</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Retention</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {bills.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No bills yet
+                </td>
+              </tr>
+            ) : (
+              bills.map((bill) => {
+                const canCollect =
+                  bill.status === 'ISSUED' &&
+                  bill.voucher?.status === 'POSTED' &&
+                  (bill.outstandingNet > 0 || bill.outstandingRetention > 0);
+                return (
+                  <Fragment key={bill.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm">
+                        <div className="font-medium text-gray-900">{bill.billRef}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(bill.billDate)}
+                          {bill.dueDate && ` · due ${formatDate(bill.dueDate)}`} ·{' '}
+                          {bill.basis === 'PROGRESS' ? `${bill.progressPercent}% progress` : `${bill.items.length} item(s)`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right">{toMoney(bill.cumulativeAmount)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(bill.grossAmount)}</td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">
+                        {toMoney(bill.vatAmount)} / {toMoney(bill.aitAmount)}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right text-gray-600">{toMoney(bill.retentionAmount)}</td>
+                      <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(bill.netAmount)}</td>
+                      <td className="px-4 py-3 text-sm text-right">
+                        {bill.status === 'ISSUED' ? (
+                          <>
+                            <div>{toMoney(bill.outstandingNet)}</div>
+                            {bill.outstandingRetention > 0 && (
+                              <div className="text-xs text-gray-500">
+                                + {toMoney(bill.outstandingRetention)} retention
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          '-'
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[bill.status]}`}>
+                          {bill.status}
+                        </span>
+                        {bill.voucher && (
+                          <div className="mt-1 text-xs">
+                            <Link
+                              href={`/dashboard/vouchers/${bill.voucher.id}`}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              {bill.voucher.voucherNo}
+                            </Link>{' '}
+                            <span className="text-gray-500">({bill.voucher.status})</span>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-3">
+                        {canWrite && bill.status === 'DRAFT' && (
+                          <>
+                            <button
+                              onClick={() => handleIssue(bill)}
+                              disabled={isWorking}
+                              className="text-green-600 hover:text-green-800"
+                            >
+                              Issue
+                            </button>
+                            <button
+                              onClick={() => handleDelete(bill)}
+                              disabled={isWorking}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                        {canWrite && canCollect && (
+                          <button
+                            onClick={() => {
+                              setError(null);
+                              setCollecting({
+                                bill,
+                                date: today(),
+                                accountId: receivingAccounts[0]?.id || '',
+                                paymentMethodId: '',
+                                netAmount: String(bill.outstandingNet),
+                                retentionAmount: '0',
+                                narration: '',
+                              });
+                            }}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Collect
+                          </button>
+                        )}
+                        {canWrite && bill.status === 'ISSUED' && (
+                          <button
+                            onClick={() => handleCancel(bill)}
+                            disabled={isWorking}
+                            className="text-red-600 hover:text-red-800"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                    {bill.collections.length > 0 && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={9} className="px-8 py-2 text-xs text-gray-600">
+                          Collections:{' '}
+                          {bill.collections.map((c, index) => (
+                            <span key={c.id}>
+                              {index > 0 && ' · '}
+                              {formatDate(c.date)} {toMoney(c.netAmount)}
+                              {c.retentionAmount > 0 && ` + ${toMoney(c.retentionAmount)} retention`} (
+                              <Link href={`/dashboard/vouchers/${c.voucher.id}`} className="text-blue-600 hover:text-blue-800">
+                                {c.voucher.voucherNo}
+                              </Link>
+                              , {c.voucher.status})
+                            </span>
+                          ))}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Collection modal */}
+      {collecting && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Record Collection - {collecting.bill.billRef}</h3>
+            <p className="text-sm text-gray-600">
+              Outstanding {toMoney(collecting.bill.outstandingNet)} receivable and{' '}
+              {toMoney(collecting.bill.outstandingRetention)} retention. A draft receipt voucher will be created.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  value={collecting.date}
+                  onChange={(e) => setCollecting({ ...collecting, date: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Received Into *</label>
+                <select
+                  value={collecting.accountId}
+                  onChange={(e) => setCollecting({ ...collecting, accountId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Select account</option>
+                  {receivingAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Receivable Amount</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={collecting.netAmount}
+                  onChange={(e) => setCollecting({ ...collecting, netAmount: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Retention Released</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={collecting.retentionAmount}
+                  onChange={(e) => setCollecting({ ...collecting, retentionAmount: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment Method</label>
+                <select
+                  value={collecting.paymentMethodId}
+                  onChange={(e) => setCollecting({ ...collecting, paymentMethodId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">-</option>
+                  {paymentMethods.map((method) => (
+                    <option key={method.id} value={method.id}>
+                      {method.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Narration</label>
+                <input
+                  type="text"
+                  value={collecting.narration}
+                  onChange={(e) => setCollecting({ ...collecting, narration: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setCollecting(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCollect}
+                disabled={isWorking || !collecting.accountId}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Record Collection'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
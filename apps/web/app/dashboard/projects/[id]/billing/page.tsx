@@ -0,0 +1,58 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { listProjectBills, listReceivingAccounts } from '@/lib/accounting/clientBilling.server';
+import DashboardLayout from '../../../components/DashboardLayout';
+import ProjectBillingClient from './ProjectBillingClient';
+
+export default async function ProjectBillingPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let billing;
+  try {
+    billing = await listProjectBills(auth.companyId, params.id);
+  } catch (error) {
+    redirect('/dashboard/projects');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const [receivingAccounts, paymentMethods] = canWrite
+    ? await Promise.all([
+        listReceivingAccounts(auth.companyId),
+        prisma.paymentMethod.findMany({
+          where: { companyId: auth.companyId, isActive: true },
+          select: { id: true, name: true },
+          orderBy: { name: 'asc' },
+        }),
+      ])
+    : [[], []];
+
+  return (
+    <DashboardLayout title={`Client Bills - ${billing.project.name}`}>
+      <ProjectBillingClient
+        project={billing.project}
+        summary={billing.summary}
+        bills={billing.bills.map((bill) => ({
+          ...bill,
+          billDate: bill.billDate.toISOString(),
+          dueDate: bill.dueDate?.toISOString() || null,
+          issuedAt: bill.issuedAt?.toISOString() || null,
+          collections: bill.collections.map((c) => ({ ...c, date: c.date.toISOString() })),
+        }))}
+        receivingAccounts={receivingAccounts}
+        paymentMethods={paymentMethods}
+        canWrite={canWrite}
+      />
+    </DashboardLayout>
+  );
+}
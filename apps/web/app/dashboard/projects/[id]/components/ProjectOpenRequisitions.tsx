@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface OpenRequisition {
+  id: string;
+  requisitionNo: number;
+  status: 'PENDING' | 'APPROVED' | 'PARTIALLY_APPROVED';
+  requestDate: string;
+  requiredBy: string | null;
+  requestedBy: { id: string; name: string };
+  lines: Array<{
+    id: string;
+    stockItem: { id: string; name: string; unit: string };
+    qtyRequested: number;
+    qtyOutstanding: number;
+  }>;
+}
+
+interface ProjectOpenRequisitionsProps {
+  projectId: string;
+}
+
+const STATUS_LABELS: Record<OpenRequisition['status'], string> = {
+  PENDING: 'Awaiting approval',
+  APPROVED: 'Awaiting issue',
+  PARTIALLY_APPROVED: 'Partly approved, awaiting issue',
+};
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+}
+
+export default function ProjectOpenRequisitions({ projectId }: ProjectOpenRequisitionsProps) {
+  const [requisitions, setRequisitions] = useState<OpenRequisition[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        setLoading(true);
+        const res = await fetch(`/api/stock/requisitions?projectId=${projectId}&open=true`);
+        const json = await res.json();
+        if (cancelled) return;
+        if (json.ok) {
+          setRequisitions(json.data);
+          setError(null);
+        } else {
+          setError(json.error ?? 'Failed to load requisitions');
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Open Material Requisitions</h2>
+        <Link
+          href="/dashboard/stock/requisitions"
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          All requisitions →
+        </Link>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-6 text-gray-500">Loading...</div>
+      ) : error ? (
+        <div className="text-center py-6 text-red-600">{error}</div>
+      ) : requisitions.length === 0 ? (
+        <p className="text-sm text-gray-500 py-2">No open requisitions</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {requisitions.map((requisition) => {
+            const overdue =
+              requisition.requiredBy && new Date(requisition.requiredBy) < new Date();
+            return (
+              <li key={requisition.id} className="py-3 flex items-start justify-between gap-4">
+                <div>
+                  <div className="text-sm font-medium text-gray-800">
+                    #{requisition.requisitionNo}{' '}
+                    <span className="font-normal text-gray-500">
+                      by {requisition.requestedBy.name} on {formatDate(requisition.requestDate)}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {requisition.lines
+                      .map(
+                        (line) =>
+                          `${line.stockItem.name} ${(requisition.status === 'PENDING'
+                            ? line.qtyRequested
+                            : line.qtyOutstanding
+                          ).toLocaleString('en-US', { maximumFractionDigits: 3 })} ${line.stockItem.unit}`
+                      )
+                      .join(', ')}
+                  </div>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <span
+                    className={`px-2 py-0.5 rounded text-xs font-medium ${
+                      requisition.status === 'PENDING'
+                        ? 'bg-yellow-100 text-yellow-800'
+                        : 'bg-blue-100 text-blue-800'
+                    }`}
+                  >
+                    {STATUS_LABELS[requisition.status]}
+                  </span>
+                  {requisition.requiredBy && (
+                    <div className={`text-xs mt-1 ${overdue ? 'text-red-600' : 'text-gray-500'}`}>
+                      Needed by {formatDate(requisition.requiredBy)}
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
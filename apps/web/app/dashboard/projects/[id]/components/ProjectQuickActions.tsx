@@ -55,6 +55,20 @@ export default function ProjectQuickActions({ projectId }: ProjectQuickActionsPr
           <span aria-hidden>📒</span>
           View Ledger
         </Link>
+        <Link
+          href={`/dashboard/projects/${projectId}/billing`}
+          className="inline-flex items-center gap-2 py-2 px-4 rounded-md text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+        >
+          <span aria-hidden>🧾</span>
+          Client Bills
+        </Link>
+        <Link
+          href={`/dashboard/projects/${projectId}/subcontracts`}
+          className="inline-flex items-center gap-2 py-2 px-4 rounded-md text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50"
+        >
+          <span aria-hidden>🤝</span>
+          Subcontracts
+        </Link>
       </div>
     </div>
   );
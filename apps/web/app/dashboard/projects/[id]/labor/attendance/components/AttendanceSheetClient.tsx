@@ -0,0 +1,427 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+type Status = 'PRESENT' | 'HALF_DAY' | 'ABSENT';
+
+interface SheetRow {
+  worker: {
+    id: string;
+    name: string;
+    trade: string | null;
+    teamLeader: { id: string; name: string } | null;
+    defaultDailyRate: number | null;
+  };
+  dailyRate: number | null;
+  daysWorked: number;
+  absentDays: number;
+  overtimeHours: number;
+  wages: number;
+}
+
+interface SheetEntry {
+  workerId: string;
+  date: string;
+  status: Status;
+  overtimeHours: number;
+  dailyRate: number;
+  wage: number;
+  laborId: string | null;
+}
+
+interface RegisterWorker {
+  id: string;
+  name: string;
+  trade: string | null;
+  defaultDailyRate: number | null;
+}
+
+interface AttendanceSheetClientProps {
+  projectId: string;
+  canWrite: boolean;
+  sheet: {
+    days: string[];
+    rows: SheetRow[];
+    entries: SheetEntry[];
+    totals: { daysWorked: number; overtimeHours: number; wages: number };
+  };
+  registerWorkers: RegisterWorker[];
+}
+
+interface Cell {
+  status: Status | '';
+  overtime: string;
+}
+
+// Matches the standard day the server pays overtime against
+const STANDARD_DAY_HOURS = 8;
+
+const STATUS_SHORT: Record<Status, string> = {
+  PRESENT: 'P',
+  HALF_DAY: '½',
+  ABSENT: 'A',
+};
+
+const cellKey = (workerId: string, date: string) => `${workerId}|${date}`;
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+function shiftDate(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function cellWage(cell: Cell | undefined, rate: number) {
+  if (!cell?.status || cell.status === 'ABSENT' || !rate) return 0;
+  const base = cell.status === 'HALF_DAY' ? rate / 2 : rate;
+  return base + ((parseFloat(cell.overtime) || 0) * rate) / STANDARD_DAY_HOURS;
+}
+
+export default function AttendanceSheetClient({
+  projectId,
+  canWrite,
+  sheet,
+  registerWorkers,
+}: AttendanceSheetClientProps) {
+  const router = useRouter();
+  const initialCells = (): Record<string, Cell> =>
+    Object.fromEntries(
+      sheet.entries.map((entry) => [
+        cellKey(entry.workerId, entry.date),
+        { status: entry.status, overtime: entry.overtimeHours ? String(entry.overtimeHours) : '' },
+      ])
+    );
+  const initialRates = (): Record<string, string> =>
+    Object.fromEntries(
+      sheet.rows.map((row) => [row.worker.id, row.dailyRate != null ? String(row.dailyRate) : ''])
+    );
+
+  const [rows, setRows] = useState(sheet.rows.map((row) => row.worker));
+  const [cells, setCells] = useState<Record<string, Cell>>(initialCells);
+  const [rates, setRates] = useState<Record<string, string>>(initialRates);
+  const [addWorkerId, setAddWorkerId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const savedCells = initialCells();
+  const savedRates = initialRates();
+  const available = registerWorkers.filter((worker) => !rows.some((row) => row.id === worker.id));
+
+  const setCell = (workerId: string, date: string, patch: Partial<Cell>) => {
+    const key = cellKey(workerId, date);
+    setCells((current) => ({
+      ...current,
+      [key]: { ...(current[key] ?? { status: '', overtime: '' }), ...patch },
+    }));
+  };
+
+  const markDay = (date: string, status: Status) => {
+    setCells((current) => {
+      const next = { ...current };
+      for (const worker of rows) {
+        const key = cellKey(worker.id, date);
+        if (!next[key]?.status) {
+          next[key] = { status, overtime: '' };
+        }
+      }
+      return next;
+    });
+  };
+
+  const addWorker = () => {
+    const worker = registerWorkers.find((w) => w.id === addWorkerId);
+    if (!worker) return;
+    setRows([...rows, { ...worker, teamLeader: null }]);
+    setRates({
+      ...rates,
+      [worker.id]: worker.defaultDailyRate != null ? String(worker.defaultDailyRate) : '',
+    });
+    setAddWorkerId('');
+  };
+
+  const changedEntries = () => {
+    const entries: Array<{
+      workerId: string;
+      date: string;
+      status: Status | null;
+      overtimeHours: number;
+      dailyRate: number | null;
+    }> = [];
+    for (const worker of rows) {
+      const rateChanged = (rates[worker.id] ?? '') !== (savedRates[worker.id] ?? '');
+      for (const date of sheet.days) {
+        const key = cellKey(worker.id, date);
+        const cell = cells[key] ?? { status: '', overtime: '' };
+        const saved = savedCells[key] ?? { status: '', overtime: '' };
+        const cellChanged =
+          cell.status !== saved.status ||
+          (parseFloat(cell.overtime) || 0) !== (parseFloat(saved.overtime) || 0);
+        if (cellChanged || (rateChanged && cell.status)) {
+          entries.push({
+            workerId: worker.id,
+            date,
+            status: cell.status || null,
+            overtimeHours: parseFloat(cell.overtime) || 0,
+            dailyRate: parseFloat(rates[worker.id]) || null,
+          });
+        }
+      }
+    }
+    return entries;
+  };
+
+  const pending = changedEntries();
+
+  const handleSave = async () => {
+    if (pending.length === 0) return;
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/attendance`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries: pending }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setMessage(
+          `Saved ${data.data.saved} day${data.data.saved === 1 ? '' : 's'}` +
+            (data.data.cleared ? `, cleared ${data.data.cleared}` : '') +
+            '. Day labor wages are updated.'
+        );
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save attendance');
+      }
+    } catch {
+      setError('An error occurred while saving attendance');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const goTo = (from: string) => {
+    const params = new URLSearchParams({ from, days: String(sheet.days.length) });
+    router.push(`/dashboard/projects/${projectId}/labor/attendance?${params.toString()}`);
+  };
+
+  const rowWages = (workerId: string) =>
+    sheet.days.reduce(
+      (sum, date) =>
+        sum + cellWage(cells[cellKey(workerId, date)], parseFloat(rates[workerId]) || 0),
+      0
+    );
+  const totalWages = rows.reduce((sum, worker) => sum + rowWages(worker.id), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => goTo(shiftDate(sheet.days[0], -sheet.days.length))}
+            className="py-1 px-3 border border-gray-300 rounded text-sm"
+          >
+            ← Previous
+          </button>
+          <input
+            type="date"
+            value={sheet.days[0]}
+            onChange={(e) => e.target.value && goTo(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          <span className="text-sm text-gray-600">to {sheet.days[sheet.days.length - 1]}</span>
+          <button
+            type="button"
+            onClick={() => goTo(shiftDate(sheet.days[0], sheet.days.length))}
+            className="py-1 px-3 border border-gray-300 rounded text-sm"
+          >
+            Next →
+          </button>
+        </div>
+        <p className="text-sm text-gray-500">
+          P present, ½ half day (half the rate), A absent. Overtime hours are paid at the daily
+          rate ÷ {STANDARD_DAY_HOURS}.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{message}</div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Worker</th>
+              <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+              {sheet.days.map((date) => (
+                <th key={date} className="px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+                  <div>
+                    {new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+                      weekday: 'short',
+                      timeZone: 'UTC',
+                    })}
+                  </div>
+                  <div className="font-normal normal-case">{date.slice(5)}</div>
+                  {canWrite && rows.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => markDay(date, 'PRESENT')}
+                      className="mt-1 text-orange-600 hover:text-orange-800 font-normal normal-case"
+                      title="Mark everyone not yet marked present"
+                    >
+                      all P
+                    </button>
+                  )}
+                </th>
+              ))}
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Wages</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={sheet.days.length + 3} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No workers are deployed to this project. Add workers below or set their sites
+                  in the worker register.
+                </td>
+              </tr>
+            ) : (
+              rows.map((worker) => (
+                <tr key={worker.id}>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">
+                    <div className="font-medium text-gray-900">{worker.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {[worker.trade, worker.teamLeader ? `team of ${worker.teamLeader.name}` : null]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </div>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={rates[worker.id] ?? ''}
+                      onChange={(e) => setRates({ ...rates, [worker.id]: e.target.value })}
+                      disabled={!canWrite}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-right"
+                    />
+                  </td>
+                  {sheet.days.map((date) => {
+                    const cell = cells[cellKey(worker.id, date)];
+                    return (
+                      <td key={date} className="px-2 py-2 text-center">
+                        <select
+                          value={cell?.status ?? ''}
+                          onChange={(e) =>
+                            setCell(worker.id, date, { status: e.target.value as Status | '' })
+                          }
+                          disabled={!canWrite}
+                          className={`w-14 px-1 py-1 border rounded-md text-sm ${
+                            cell?.status === 'ABSENT'
+                              ? 'border-red-300 bg-red-50'
+                              : cell?.status
+                                ? 'border-green-300 bg-green-50'
+                                : 'border-gray-300'
+                          }`}
+                        >
+                          <option value="">–</option>
+                          {(Object.keys(STATUS_SHORT) as Status[]).map((status) => (
+                            <option key={status} value={status}>
+                              {STATUS_SHORT[status]}
+                            </option>
+                          ))}
+                        </select>
+                        {cell?.status && cell.status !== 'ABSENT' && (
+                          <input
+                            type="number"
+                            min="0"
+                            max="16"
+                            step="0.5"
+                            value={cell.overtime}
+                            onChange={(e) => setCell(worker.id, date, { overtime: e.target.value })}
+                            disabled={!canWrite}
+                            placeholder="OT"
+                            title="Overtime hours"
+                            className="mt-1 w-14 px-1 py-0.5 border border-gray-300 rounded-md text-xs text-right"
+                          />
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-4 py-2 text-sm text-right font-medium text-orange-600 whitespace-nowrap">
+                    {formatCurrency(rowWages(worker.id))}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          {rows.length > 0 && (
+            <tfoot className="bg-gray-50">
+              <tr>
+                <td colSpan={sheet.days.length + 2} className="px-4 py-2 text-sm font-medium text-right">
+                  Total wages
+                </td>
+                <td className="px-4 py-2 text-sm text-right font-semibold whitespace-nowrap">
+                  {formatCurrency(totalWages)}
+                </td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+
+      {canWrite && (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <select
+              value={addWorkerId}
+              onChange={(e) => setAddWorkerId(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              <option value="">Add a worker to the sheet...</option>
+              {available.map((worker) => (
+                <option key={worker.id} value={worker.id}>
+                  {worker.name}
+                  {worker.trade ? ` — ${worker.trade}` : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={addWorker}
+              disabled={!addWorkerId}
+              className="py-2 px-4 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving || pending.length === 0}
+            className="py-2 px-4 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : `Save attendance${pending.length ? ` (${pending.length})` : ''}`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
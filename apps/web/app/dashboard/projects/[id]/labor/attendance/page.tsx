@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { AttendanceSheetFiltersSchema } from '@accounting/shared';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getAttendanceSheet } from '@/lib/labor/attendance.server';
+import DashboardLayout from '../../../../components/DashboardLayout';
+import AttendanceSheetClient from './components/AttendanceSheetClient';
+
+export default async function AttendanceSheetPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { from?: string; days?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const parsed = AttendanceSheetFiltersSchema.safeParse({
+    from: searchParams.from || undefined,
+    days: searchParams.days || undefined,
+  });
+  const filters = parsed.success ? parsed.data : { days: 7 };
+
+  let sheet;
+  try {
+    sheet = await getAttendanceSheet(auth.companyId, params.id, filters);
+  } catch {
+    redirect('/dashboard/projects');
+  }
+
+  const registerWorkers = await prisma.worker.findMany({
+    where: {
+      companyId: auth.companyId,
+      isActive: true,
+      id: { notIn: sheet.rows.map((row) => row.worker.id) },
+    },
+    select: { id: true, name: true, trade: true, defaultDailyRate: true },
+    orderBy: { name: 'asc' },
+  });
+
+  const printParams = new URLSearchParams({ from: sheet.days[0], days: String(sheet.days.length) });
+
+  return (
+    <DashboardLayout
+      title={`Attendance - ${sheet.project.name}`}
+      actions={
+        <div className="flex gap-2">
+          <Link
+            href={`/dashboard/projects/${params.id}/labor/day`}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Day Labor
+          </Link>
+          <a
+            href={`/print/projects/${params.id}/muster-roll?${printParams.toString()}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="py-2 px-4 border border-orange-300 rounded-md shadow-sm text-sm font-medium text-orange-700 bg-orange-50 hover:bg-orange-100"
+          >
+            Print Muster Roll
+          </a>
+        </div>
+      }
+    >
+      <AttendanceSheetClient
+        key={printParams.toString()}
+        projectId={params.id}
+        canWrite={can(auth.role, 'projects', 'WRITE')}
+        sheet={sheet}
+        registerWorkers={registerWorkers.map((worker) => ({
+          id: worker.id,
+          name: worker.name,
+          trade: worker.trade,
+          defaultDailyRate: worker.defaultDailyRate != null ? Number(worker.defaultDailyRate) : null,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
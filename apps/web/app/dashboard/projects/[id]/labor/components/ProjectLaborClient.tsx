@@ -5,6 +5,18 @@ import Link from 'next/link';
 
 type LaborType = 'DAY' | 'MONTHLY' | 'CONTRACT';
 
+// Picker value for an entry whose name was typed before the worker register
+const TYPED_NAME = '__typed__';
+
+interface RegisterWorker {
+  id: string;
+  name: string;
+  trade: string | null;
+  defaultDailyRate: number | null;
+  teamLeader: { id: string; name: string } | null;
+  sites: Array<{ id: string; name: string }>;
+}
+
 interface LaborEntry {
   id: string;
   type: string;
@@ -16,6 +28,8 @@ interface LaborEntry {
   month: number | null;
   year: number | null;
   teamLeader: string | null;
+  workerId: string | null;
+  teamLeaderId: string | null;
   paid: { toNumber?: () => number } | null;
   due: { toNumber?: () => number } | null;
   rating: number | null;
@@ -44,6 +58,9 @@ export default function ProjectLaborClient({
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [workers, setWorkers] = useState<RegisterWorker[]>([]);
+  // Names typed on the entry being edited that are not linked to the register
+  const [typedNames, setTypedNames] = useState({ worker: '', teamLeader: '' });
   const [formData, setFormData] = useState({
     date: new Date().toISOString().split('T')[0],
     amount: '',
@@ -53,6 +70,8 @@ export default function ProjectLaborClient({
     month: new Date().getMonth() + 1,
     year: new Date().getFullYear(),
     teamLeader: '',
+    workerId: '',
+    teamLeaderId: '',
     paid: '0',
     rating: '' as string | number,
   });
@@ -88,6 +107,63 @@ export default function ProjectLaborClient({
     loadLabors(pagination.page);
   }, [projectId, laborType]);
 
+  useEffect(() => {
+    fetch('/api/workers')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.ok) setWorkers(data.data);
+      })
+      .catch((err) => console.error(err));
+  }, []);
+
+  // Workers deployed to this project first, then the rest of the register
+  const siteWorkers = workers.filter((w) => w.sites.some((site) => site.id === projectId));
+  const otherWorkers = workers.filter((w) => !w.sites.some((site) => site.id === projectId));
+
+  const selectWorker = (workerId: string) => {
+    const worker = workers.find((w) => w.id === workerId);
+    setFormData((d) => ({
+      ...d,
+      workerId,
+      // Day labor starts from the worker's daily rate and team leader
+      ...(laborType === 'DAY' && worker?.defaultDailyRate != null && !d.amount
+        ? { amount: String(worker.defaultDailyRate) }
+        : {}),
+      ...(laborType === 'DAY' && worker?.teamLeader && !d.teamLeaderId
+        ? { teamLeaderId: worker.teamLeader.id }
+        : {}),
+    }));
+  };
+
+  // A typed name is left as it is; otherwise the picked worker (or none) is sent
+  const pickerPayload = (value: string) => (value === TYPED_NAME ? undefined : value || null);
+
+  const renderWorkerOptions = (typedName: string) => (
+    <>
+      {typedName && <option value={TYPED_NAME}>{typedName} (typed, not in register)</option>}
+      {siteWorkers.length > 0 && (
+        <optgroup label="On this site">
+          {siteWorkers.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name}
+              {w.trade ? ` — ${w.trade}` : ''}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {otherWorkers.length > 0 && (
+        <optgroup label={siteWorkers.length > 0 ? 'Other workers' : 'Workers'}>
+          {otherWorkers.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name}
+              {w.trade ? ` — ${w.trade}` : ''}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  );
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-BD', {
       style: 'currency',
@@ -114,16 +190,14 @@ export default function ProjectLaborClient({
       amount: parseFloat(formData.amount),
       note: formData.note || null,
     };
+    payload.workerId = pickerPayload(formData.workerId);
     if (laborType === 'DAY') {
-      payload.workerName = formData.workerName || null;
-      payload.teamLeader = formData.teamLeader || null;
+      payload.teamLeaderId = pickerPayload(formData.teamLeaderId);
       payload.paid = parseFloat(formData.paid) || 0;
       payload.rating = formData.rating === '' || formData.rating === undefined ? null : Number(formData.rating);
     } else if (laborType === 'CONTRACT') {
-      payload.workerName = formData.workerName?.trim() || null;
       payload.paid = parseFloat(formData.paid) || 0;
     } else {
-      payload.employeeName = formData.employeeName || null;
       payload.month = formData.month;
       payload.year = formData.year;
     }
@@ -146,6 +220,8 @@ export default function ProjectLaborClient({
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear(),
           teamLeader: '',
+          workerId: '',
+          teamLeaderId: '',
           paid: '0',
           rating: '',
         });
@@ -159,7 +235,12 @@ export default function ProjectLaborClient({
   };
 
   const openEdit = (entry: LaborEntry) => {
+    const typedWorker = entry.type === 'MONTHLY' ? entry.employeeName : entry.workerName;
     setEditingId(entry.id);
+    setTypedNames({
+      worker: entry.workerId ? '' : typedWorker ?? '',
+      teamLeader: entry.teamLeaderId ? '' : entry.teamLeader ?? '',
+    });
     setFormData({
       date: new Date(entry.date).toISOString().split('T')[0],
       amount: String(amountNum(entry)),
@@ -169,6 +250,8 @@ export default function ProjectLaborClient({
       month: entry.month ?? new Date().getMonth() + 1,
       year: entry.year ?? new Date().getFullYear(),
       teamLeader: entry.teamLeader ?? '',
+      workerId: entry.workerId ?? (typedWorker ? TYPED_NAME : ''),
+      teamLeaderId: entry.teamLeaderId ?? (entry.teamLeader ? TYPED_NAME : ''),
       paid: String(decimalNum(entry.paid)),
       rating: entry.rating ?? '',
     });
@@ -182,16 +265,14 @@ export default function ProjectLaborClient({
       amount: parseFloat(formData.amount),
       note: formData.note || null,
     };
+    payload.workerId = pickerPayload(formData.workerId);
     if (laborType === 'DAY') {
-      payload.workerName = formData.workerName || null;
-      payload.teamLeader = formData.teamLeader || null;
+      payload.teamLeaderId = pickerPayload(formData.teamLeaderId);
       payload.paid = parseFloat(formData.paid) || 0;
       payload.rating = formData.rating === '' || formData.rating === undefined ? null : Number(formData.rating);
     } else if (laborType === 'CONTRACT') {
-      payload.workerName = formData.workerName?.trim() || null;
       payload.paid = parseFloat(formData.paid) || 0;
     } else {
-      payload.employeeName = formData.employeeName || null;
       payload.month = formData.month;
       payload.year = formData.year;
     }
@@ -214,6 +295,8 @@ export default function ProjectLaborClient({
           month: new Date().getMonth() + 1,
           year: new Date().getFullYear(),
           teamLeader: '',
+          workerId: '',
+          teamLeaderId: '',
           paid: '0',
           rating: '',
         });
@@ -250,6 +333,8 @@ export default function ProjectLaborClient({
               month: new Date().getMonth() + 1,
               year: new Date().getFullYear(),
               teamLeader: '',
+              workerId: '',
+              teamLeaderId: '',
               paid: '0',
               rating: '',
             });
@@ -263,7 +348,7 @@ export default function ProjectLaborClient({
 
       {(showForm || editingId) && (
         <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
-          <h3 className="font-medium mb-3">
+          <h3 className="font-medium mb-1">
             {editingId ? 'Edit' : 'Add'}{' '}
             {laborType === 'DAY'
               ? 'Day Labor'
@@ -271,6 +356,13 @@ export default function ProjectLaborClient({
                 ? 'Contract Worker'
                 : 'Monthly Employee'}
           </h3>
+          <p className="mb-3 text-xs text-gray-500">
+            Workers are picked from the{' '}
+            <Link href="/dashboard/workers" className="text-orange-600 hover:text-orange-800">
+              worker register
+            </Link>
+            ; add new workers there first.
+          </p>
           <form onSubmit={editingId ? handleEditSubmit : handleSubmit} className="space-y-3">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               <div>
@@ -300,25 +392,29 @@ export default function ProjectLaborClient({
               <>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Worker name (optional)
+                    Worker (optional)
                   </label>
-                  <input
-                    type="text"
-                    value={formData.workerName}
-                    onChange={(e) => setFormData((d) => ({ ...d, workerName: e.target.value }))}
+                  <select
+                    value={formData.workerId}
+                    onChange={(e) => selectWorker(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  />
+                  >
+                    <option value="">—</option>
+                    {renderWorkerOptions(editingId ? typedNames.worker : '')}
+                  </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Team Leader (optional)
                   </label>
-                  <input
-                    type="text"
-                    value={formData.teamLeader}
-                    onChange={(e) => setFormData((d) => ({ ...d, teamLeader: e.target.value }))}
+                  <select
+                    value={formData.teamLeaderId}
+                    onChange={(e) => setFormData((d) => ({ ...d, teamLeaderId: e.target.value }))}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  />
+                  >
+                    <option value="">—</option>
+                    {renderWorkerOptions(editingId ? typedNames.teamLeader : '')}
+                  </select>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <div>
@@ -370,16 +466,17 @@ export default function ProjectLaborClient({
               <>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Worker / Contractor name <span className="text-red-500">*</span>
+                    Worker / Contractor <span className="text-red-500">*</span>
                   </label>
-                  <input
-                    type="text"
-                    value={formData.workerName}
-                    onChange={(e) => setFormData((d) => ({ ...d, workerName: e.target.value }))}
+                  <select
+                    value={formData.workerId}
+                    onChange={(e) => selectWorker(e.target.value)}
                     required={laborType === 'CONTRACT'}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                    placeholder="Contractor or worker group name"
-                  />
+                  >
+                    <option value="">Select worker...</option>
+                    {renderWorkerOptions(editingId ? typedNames.worker : '')}
+                  </select>
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <div>
@@ -411,14 +508,16 @@ export default function ProjectLaborClient({
               <>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Employee name (optional)
+                    Employee (optional)
                   </label>
-                  <input
-                    type="text"
-                    value={formData.employeeName}
-                    onChange={(e) => setFormData((d) => ({ ...d, employeeName: e.target.value }))}
+                  <select
+                    value={formData.workerId}
+                    onChange={(e) => selectWorker(e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                  />
+                  >
+                    <option value="">—</option>
+                    {renderWorkerOptions(editingId ? typedNames.worker : '')}
+                  </select>
                 </div>
                 <div className="grid grid-cols-2 gap-3">
                   <div>
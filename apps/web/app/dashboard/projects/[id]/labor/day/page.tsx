@@ -40,6 +40,12 @@ export default async function DayLaborPage({
           >
             Back to Project
           </Link>
+          <Link
+            href={`/dashboard/projects/${params.id}/labor/attendance`}
+            className="py-2 px-4 border border-orange-300 rounded-md shadow-sm text-sm font-medium text-orange-700 bg-orange-50 hover:bg-orange-100"
+          >
+            Attendance Sheet
+          </Link>
           <Link
             href={`/dashboard/projects/${params.id}/labor/monthly`}
             className="py-2 px-4 border border-orange-300 rounded-md shadow-sm text-sm font-medium text-orange-700 bg-orange-50 hover:bg-orange-100"
@@ -12,6 +12,13 @@ interface LedgerEntry {
   due: number;
   note: string | null;
   link: string;
+  payments: Array<{
+    voucherId: string;
+    voucherNo: string;
+    date: string;
+    amount: number;
+    payeeName: string;
+  }>;
 }
 
 interface LedgerData {
@@ -189,6 +196,9 @@ export default function WorkerLedgerClient({
                   <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
                     Due
                   </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Payments
+                  </th>
                   <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
                     Note
                   </th>
@@ -215,6 +225,24 @@ export default function WorkerLedgerClient({
                     <td className="px-4 py-2 text-sm text-right text-amber-600 font-medium">
                       {formatCurrency(e.due)}
                     </td>
+                    <td className="px-4 py-2 text-sm text-gray-600 whitespace-nowrap">
+                      {e.payments.length === 0
+                        ? '—'
+                        : e.payments.map((p, i) => (
+                            <div key={i}>
+                              <Link
+                                href={`/dashboard/vouchers/${p.voucherId}`}
+                                className="text-indigo-600 hover:text-indigo-800"
+                              >
+                                {p.voucherNo}
+                              </Link>{' '}
+                              {formatCurrency(p.amount)} on {formatDate(p.date)}
+                              {p.payeeName !== data.workerLabel && (
+                                <span className="text-gray-500"> via {p.payeeName}</span>
+                              )}
+                            </div>
+                          ))}
+                    </td>
                     <td className="px-4 py-2 text-sm text-gray-600 max-w-xs truncate">
                       {e.note ?? '—'}
                     </td>
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
+import WagePaymentForm from './WagePaymentForm';
 
 interface Aging {
   d0_7: number;
@@ -28,11 +29,37 @@ interface PayablesData {
     workerCountWithDue: number;
   };
   workers: WorkerItem[];
+  teamLeaders: Array<{
+    teamLeaderId: string;
+    teamLeaderName: string;
+    workerCount: number;
+    totalDue: number;
+  }>;
+}
+
+interface WagePayment {
+  id: string;
+  date: string;
+  amount: number;
+  narration: string | null;
+  voucher: { id: string; voucherNo: string; status: string };
+  paymentAccount: { code: string; name: string };
+  createdBy: string | null;
+  payees: Array<{ payeeName: string; amount: number }>;
 }
 
 interface ProjectWorkerPayablesClientProps {
   projectId: string;
   projectName: string;
+  canWrite: boolean;
+}
+
+function formatDate(dateStr: string) {
+  return new Intl.DateTimeFormat('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  }).format(new Date(dateStr));
 }
 
 function formatCurrency(amount: number) {
@@ -47,20 +74,33 @@ function formatCurrency(amount: number) {
 export default function ProjectWorkerPayablesClient({
   projectId,
   projectName,
+  canWrite,
 }: ProjectWorkerPayablesClientProps) {
   const [data, setData] = useState<PayablesData | null>(null);
+  const [payments, setPayments] = useState<WagePayment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState('');
+  const [isPaying, setIsPaying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Bumped after a payment to reload the payables and payments
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     let cancelled = false;
     async function load() {
       try {
         setLoading(true);
-        const res = await fetch(`/api/projects/${projectId}/worker-payables`);
+        const [res, paymentsRes] = await Promise.all([
+          fetch(`/api/projects/${projectId}/worker-payables`),
+          fetch(`/api/projects/${projectId}/wage-payments`),
+        ]);
         const json = await res.json();
+        const paymentsJson = await paymentsRes.json();
         if (cancelled) return;
+        if (paymentsJson.ok) {
+          setPayments(paymentsJson.data);
+        }
         if (json.ok && json.data) {
           setData(json.data);
           setError(null);
@@ -79,7 +119,7 @@ export default function ProjectWorkerPayablesClient({
     return () => {
       cancelled = true;
     };
-  }, [projectId]);
+  }, [projectId, reloadKey]);
 
   const filteredWorkers = useMemo(() => {
     if (!data) return [];
@@ -91,7 +131,7 @@ export default function ProjectWorkerPayablesClient({
     );
   }, [data, search]);
 
-  if (loading) {
+  if (loading && !data) {
     return (
       <div className="text-center py-8 text-gray-500">
         Loading worker payables…
@@ -105,10 +145,29 @@ export default function ProjectWorkerPayablesClient({
     );
   }
 
-  const { totals, workers } = data;
+  const { totals, workers, teamLeaders } = data;
 
   return (
     <div>
+      {message && (
+        <div className="p-3 mb-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">
+          {message}
+        </div>
+      )}
+      {canWrite && isPaying && (
+        <WagePaymentForm
+          projectId={projectId}
+          workers={workers}
+          teamLeaders={teamLeaders}
+          onPaid={(paidMessage) => {
+            setIsPaying(false);
+            setMessage(paidMessage);
+            setReloadKey((key) => key + 1);
+          }}
+          onCancel={() => setIsPaying(false)}
+        />
+      )}
+
       <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
         <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
           <p className="text-sm font-medium text-slate-600 mb-1">Total Labor</p>
@@ -136,17 +195,31 @@ export default function ProjectWorkerPayablesClient({
         </div>
       </div>
 
-      <div className="mb-4">
-        <label className="block text-sm font-medium text-gray-700 mb-1">
-          Search worker
-        </label>
-        <input
-          type="text"
-          value={search}
-          onChange={(e) => setSearch(e.target.value)}
-          placeholder="Filter by name…"
-          className="w-full max-w-xs px-3 py-2 border border-gray-300 rounded-md"
-        />
+      <div className="mb-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="w-full max-w-xs">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Search worker
+          </label>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter by name…"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        {canWrite && !isPaying && totals.totalDue > 0 && (
+          <button
+            type="button"
+            onClick={() => {
+              setMessage(null);
+              setIsPaying(true);
+            }}
+            className="py-2 px-4 bg-orange-600 text-white rounded-md hover:bg-orange-700"
+          >
+            Pay Wages
+          </button>
+        )}
       </div>
 
       <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
@@ -233,6 +306,70 @@ export default function ProjectWorkerPayablesClient({
           </div>
         )}
       </div>
+
+      <div className="mt-6 bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-800">Wage payments</h2>
+        </div>
+        {payments.length === 0 ? (
+          <div className="px-4 py-8 text-center text-gray-500">No wage payments yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Date
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Voucher
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Paid to
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    From
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Amount
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {payments.map((p) => (
+                  <tr key={p.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm text-gray-700 whitespace-nowrap">
+                      {formatDate(p.date)}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        href={`/dashboard/vouchers/${p.voucher.id}`}
+                        className="text-indigo-600 hover:text-indigo-800 font-medium"
+                      >
+                        {p.voucher.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">
+                      {p.payees.map((payee) => (
+                        <div key={payee.payeeName}>
+                          {payee.payeeName}{' '}
+                          <span className="text-gray-500">{formatCurrency(payee.amount)}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      {p.paymentAccount.name}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-green-600 font-medium">
+                      {formatCurrency(p.amount)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState } from 'react';
+
+interface PayableWorker {
+  workerKey: string;
+  workerLabel: string;
+  totalDue: number;
+}
+
+interface PayableTeamLeader {
+  teamLeaderId: string;
+  teamLeaderName: string;
+  workerCount: number;
+  totalDue: number;
+}
+
+interface WagePaymentFormProps {
+  projectId: string;
+  workers: PayableWorker[];
+  teamLeaders: PayableTeamLeader[];
+  onPaid: (message: string) => void;
+  onCancel: () => void;
+}
+
+interface Payee {
+  payeeKey: string;
+  label: string;
+  detail: string | null;
+  due: number;
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function WagePaymentForm({
+  projectId,
+  workers,
+  teamLeaders,
+  onPaid,
+  onCancel,
+}: WagePaymentFormProps) {
+  const [payBy, setPayBy] = useState<'WORKER' | 'TEAM_LEADER'>('WORKER');
+  // Amount to pay per selected payee key
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'BANK'>('CASH');
+  const [narration, setNarration] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const payees: Payee[] =
+    payBy === 'WORKER'
+      ? workers
+          .filter((w) => w.totalDue > 0)
+          .map((w) => ({ payeeKey: w.workerKey, label: w.workerLabel, detail: null, due: w.totalDue }))
+      : teamLeaders.map((t) => ({
+          payeeKey: `TL|${t.teamLeaderId}`,
+          label: t.teamLeaderName,
+          detail: `${t.workerCount} worker${t.workerCount === 1 ? '' : 's'}`,
+          due: t.totalDue,
+        }));
+
+  const selected = payees.filter((p) => amounts[p.payeeKey] !== undefined);
+  const total = selected.reduce((sum, p) => sum + (parseFloat(amounts[p.payeeKey]) || 0), 0);
+
+  const switchPayBy = (value: 'WORKER' | 'TEAM_LEADER') => {
+    setPayBy(value);
+    setAmounts({});
+  };
+
+  const togglePayee = (payee: Payee, checked: boolean) => {
+    const next = { ...amounts };
+    if (checked) {
+      next[payee.payeeKey] = String(payee.due);
+    } else {
+      delete next[payee.payeeKey];
+    }
+    setAmounts(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (selected.some((p) => !(parseFloat(amounts[p.payeeKey]) > 0))) {
+      setError('Enter an amount for each selected payee');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/wage-payments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          paymentMethod,
+          narration: narration.trim() || null,
+          payees: selected.map((p) => ({
+            payeeKey: p.payeeKey,
+            amount: parseFloat(amounts[p.payeeKey]),
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        onPaid(
+          `Paid ${formatCurrency(data.data.amount)} under voucher ${data.data.voucher.voucherNo}.`
+        );
+      } else {
+        setError(data.error || 'Failed to pay wages');
+      }
+    } catch {
+      setError('An error occurred while paying wages');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-md border border-orange-200 p-4 mb-6 space-y-4"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-gray-800">Pay wages</h2>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => switchPayBy('WORKER')}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              payBy === 'WORKER' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Workers
+          </button>
+          <button
+            type="button"
+            onClick={() => switchPayBy('TEAM_LEADER')}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium ${
+              payBy === 'TEAM_LEADER' ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Team leaders
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600">
+        {payBy === 'WORKER'
+          ? 'Each payment settles the worker’s oldest dues first.'
+          : 'A team leader collects for the workers entered under them; the payment settles their oldest dues first.'}
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+      )}
+
+      {payees.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {payBy === 'WORKER' ? 'No workers with dues' : 'No team leaders with dues on their workers'}
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2"></th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  {payBy === 'WORKER' ? 'Worker' : 'Team leader'}
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Due</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Pay</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {payees.map((payee) => {
+                const isSelected = amounts[payee.payeeKey] !== undefined;
+                return (
+                  <tr key={payee.payeeKey}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={isSelected}
+                        onChange={(e) => togglePayee(payee, e.target.checked)}
+                        className="h-4 w-4 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-900">
+                      {payee.label}
+                      {payee.detail && <span className="ml-2 text-xs text-gray-500">{payee.detail}</span>}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right text-amber-600">
+                      {formatCurrency(payee.due)}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        max={payee.due}
+                        value={amounts[payee.payeeKey] ?? ''}
+                        onChange={(e) => setAmounts({ ...amounts, [payee.payeeKey]: e.target.value })}
+                        disabled={!isSelected}
+                        className="w-32 px-2 py-1 border border-gray-300 rounded-md text-right disabled:bg-gray-50"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Paid from</label>
+          <select
+            value={paymentMethod}
+            onChange={(e) => setPaymentMethod(e.target.value as 'CASH' | 'BANK')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="CASH">Cash</option>
+            <option value="BANK">Bank</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Narration</label>
+          <input
+            type="text"
+            value={narration}
+            onChange={(e) => setNarration(e.target.value)}
+            placeholder="Optional"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          type="submit"
+          disabled={isSubmitting || selected.length === 0}
+          className="py-2 px-4 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Paying...' : `Pay ${formatCurrency(total)}`}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <span className="text-sm text-gray-500">
+          Posts a payment voucher from {paymentMethod === 'CASH' ? 'cash' : 'bank'} to Direct Labor
+        </span>
+      </div>
+    </form>
+  );
+}
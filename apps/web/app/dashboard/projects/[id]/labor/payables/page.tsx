@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { requirePermissionServer } from '@/lib/rbac';
 import { prisma } from '@accounting/db';
+import { can } from '@/lib/permissions';
 import DashboardLayout from '../../../../components/DashboardLayout';
 import Link from 'next/link';
 import ProjectWorkerPayablesClient from './components/ProjectWorkerPayablesClient';
@@ -58,6 +59,7 @@ export default async function ProjectLaborPayablesPage({
       <ProjectWorkerPayablesClient
         projectId={params.id}
         projectName={project.name}
+        canWrite={can(auth.role, 'projects', 'WRITE')}
       />
     </DashboardLayout>
   );
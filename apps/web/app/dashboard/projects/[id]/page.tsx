@@ -9,6 +9,7 @@ import ProjectDashboardClient from './components/ProjectDashboardClient';
 import ProjectLaborWorkforceSection from './components/ProjectLaborWorkforceSection';
 import ProjectPurchasesPayables from './components/ProjectPurchasesPayables';
 import ProjectStockStatus from './components/ProjectStockStatus';
+import ProjectOpenRequisitions from './components/ProjectOpenRequisitions';
 import ProjectProgressVsCost from './components/ProjectProgressVsCost';
 import ProjectRecentActivity from './components/ProjectRecentActivity';
 import ProjectDocuments from './components/ProjectDocuments';
@@ -95,6 +96,7 @@ export default async function ProjectViewPage({
       <ProjectLaborWorkforceSection projectId={params.id} />
       <ProjectPurchasesPayables projectId={params.id} />
       <ProjectStockStatus projectId={params.id} />
+      <ProjectOpenRequisitions projectId={params.id} />
       <ProjectProgressVsCost projectId={params.id} />
       <ProjectRecentActivity projectId={params.id} />
       <ProjectDocuments projectId={params.id} />
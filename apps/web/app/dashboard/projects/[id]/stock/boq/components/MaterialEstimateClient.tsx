@@ -0,0 +1,413 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+interface EstimateLine {
+  id: string;
+  stockItem: StockItem;
+  floor: number | null;
+  estimatedQty: number;
+  estimatedRate: number | null;
+  notes: string | null;
+}
+
+interface ConsumptionRow {
+  stockItem: StockItem;
+  estimatedQty: number;
+  estimatedValue: number;
+  issuedQty: number;
+  issuedValue: number;
+  wastageQty: number;
+  wastageValue: number;
+  consumedQty: number;
+  consumedValue: number;
+  remainingQty: number;
+  varianceQty: number;
+  varianceValue: number;
+  variancePercent: number | null;
+  consumedPercent: number | null;
+  wastagePercent: number | null;
+  floors: Array<{ floor: number | null; estimatedQty: number; estimatedValue: number; notes: string | null }>;
+}
+
+interface MaterialEstimateClientProps {
+  projectId: string;
+  canWrite: boolean;
+  totalFloors: number | null;
+  progressPercent: number;
+  stockItems: StockItem[];
+  lines: EstimateLine[];
+  report: {
+    rows: ConsumptionRow[];
+    totals: {
+      estimatedValue: number;
+      issuedValue: number;
+      wastageValue: number;
+      consumedValue: number;
+      varianceValue: number;
+      variancePercent: number | null;
+      wastagePercent: number | null;
+    };
+  };
+}
+
+interface EditRow {
+  stockItemId: string;
+  floor: string;
+  estimatedQty: string;
+  estimatedRate: string;
+  notes: string;
+}
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const formatPercent = (value: number | null) =>
+  value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+const floorLabel = (floor: number | null) => (floor === null ? 'Whole project' : `Floor ${floor}`);
+
+export default function MaterialEstimateClient({
+  projectId,
+  canWrite,
+  totalFloors,
+  progressPercent,
+  stockItems,
+  lines,
+  report,
+}: MaterialEstimateClientProps) {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [rows, setRows] = useState<EditRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const startEditing = () => {
+    setRows(
+      lines.map((line) => ({
+        stockItemId: line.stockItem.id,
+        floor: line.floor !== null ? String(line.floor) : '',
+        estimatedQty: String(line.estimatedQty),
+        estimatedRate: line.estimatedRate !== null ? String(line.estimatedRate) : '',
+        notes: line.notes ?? '',
+      }))
+    );
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const updateRow = (index: number, patch: Partial<EditRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/stock/estimate`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines: rows
+            .filter((row) => row.stockItemId)
+            .map((row) => ({
+              stockItemId: row.stockItemId,
+              floor: row.floor ? parseInt(row.floor, 10) : null,
+              estimatedQty: parseFloat(row.estimatedQty),
+              estimatedRate: row.estimatedRate ? parseFloat(row.estimatedRate) : null,
+              notes: row.notes || null,
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setIsEditing(false);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save the estimate');
+      }
+    } catch {
+      setError('An error occurred while saving the estimate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const varianceClass = (value: number) =>
+    value > 0 ? 'text-red-600' : value < 0 ? 'text-green-600' : '';
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Estimated value</div>
+          <div className="text-2xl font-bold">{toMoney(report.totals.estimatedValue)}</div>
+          <div className="text-xs text-gray-500">Project progress {progressPercent}%</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Consumed (issued + wasted)</div>
+          <div className="text-2xl font-bold">{toMoney(report.totals.consumedValue)}</div>
+          <div className="text-xs text-gray-500">Issued {toMoney(report.totals.issuedValue)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Variance</div>
+          <div className={`text-2xl font-bold ${varianceClass(report.totals.varianceValue)}`}>
+            {toMoney(report.totals.varianceValue)}
+          </div>
+          <div className="text-xs text-gray-500">{formatPercent(report.totals.variancePercent)} of estimate</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Wastage</div>
+          <div className="text-2xl font-bold text-red-600">{toMoney(report.totals.wastageValue)}</div>
+          <div className="text-xs text-gray-500">
+            {report.totals.wastagePercent === null ? '-' : `${report.totals.wastagePercent.toFixed(1)}%`} of consumption
+          </div>
+        </div>
+      </div>
+
+      {/* Consumption vs estimate */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-lg font-semibold text-gray-900">Consumption vs estimate</h2>
+          {canWrite && !isEditing && (
+            <button
+              onClick={startEditing}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+            >
+              Edit Estimate
+            </button>
+          )}
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Estimated</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Issued</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Wasted</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Consumed</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Est. value</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Consumed value</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value variance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {report.rows.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                    No material estimated or consumed yet
+                  </td>
+                </tr>
+              ) : (
+                report.rows.map((row) => {
+                  const byFloor = row.floors.some((f) => f.floor !== null);
+                  return (
+                    <Fragment key={row.stockItem.id}>
+                      <tr>
+                        <td className="px-4 py-2 text-sm">
+                          {row.stockItem.name}
+                          <span className="text-gray-500 ml-1">({row.stockItem.unit})</span>
+                          {byFloor && (
+                            <button
+                              onClick={() =>
+                                setExpanded({ ...expanded, [row.stockItem.id]: !expanded[row.stockItem.id] })
+                              }
+                              className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              {expanded[row.stockItem.id] ? 'Hide floors' : 'By floor'}
+                            </button>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {row.estimatedQty ? formatQty(row.estimatedQty) : '-'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{formatQty(row.issuedQty)}</td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {formatQty(row.wastageQty)}
+                          {row.wastagePercent !== null && row.wastageQty > 0 && (
+                            <div className="text-xs text-gray-500">{row.wastagePercent.toFixed(1)}%</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">
+                          {formatQty(row.consumedQty)}
+                          {row.consumedPercent !== null && (
+                            <div className="text-xs text-gray-500">{row.consumedPercent.toFixed(1)}% used</div>
+                          )}
+                        </td>
+                        <td className={`px-4 py-2 text-sm text-right ${varianceClass(row.varianceQty)}`}>
+                          {formatQty(row.varianceQty)}
+                          <div className="text-xs">
+                            {row.estimatedQty ? formatPercent(row.variancePercent) : 'Not estimated'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-sm text-right">{toMoney(row.estimatedValue)}</td>
+                        <td className="px-4 py-2 text-sm text-right">{toMoney(row.consumedValue)}</td>
+                        <td className={`px-4 py-2 text-sm text-right ${varianceClass(row.varianceValue)}`}>
+                          {toMoney(row.varianceValue)}
+                        </td>
+                      </tr>
+                      {byFloor &&
+                        expanded[row.stockItem.id] &&
+                        row.floors.map((floor) => (
+                          <tr key={`${row.stockItem.id}-${floor.floor ?? 'all'}`} className="bg-gray-50">
+                            <td className="px-4 py-1 pl-8 text-xs text-gray-600">
+                              {floorLabel(floor.floor)}
+                              {floor.notes && <span className="ml-1 text-gray-400">{floor.notes}</span>}
+                            </td>
+                            <td className="px-4 py-1 text-xs text-right text-gray-600">
+                              {formatQty(floor.estimatedQty)}
+                            </td>
+                            <td colSpan={4}></td>
+                            <td className="px-4 py-1 text-xs text-right text-gray-600">
+                              {toMoney(floor.estimatedValue)}
+                            </td>
+                            <td colSpan={2}></td>
+                          </tr>
+                        ))}
+                    </Fragment>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Consumption is material issued to the works plus wastage. Estimates without a rate are valued at
+          the project&apos;s average rate for the item.
+        </p>
+      </div>
+
+      {/* Estimate editor */}
+      {isEditing && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-gray-900">Bill of quantities</h2>
+          <p className="text-sm text-gray-600">
+            Quantities are in each item&apos;s base unit.
+            {totalFloors
+              ? ` Estimate an item for the whole project, or floor by floor (1 to ${totalFloors}).`
+              : ' Set the number of floors on the project to estimate floor by floor.'}
+          </p>
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Floor</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="px-3 py-2">
+                    <select
+                      value={row.stockItemId}
+                      onChange={(e) => updateRow(index, { stockItemId: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      <option value="">Select item...</option>
+                      {stockItems.map((item) => (
+                        <option key={item.id} value={item.id}>
+                          {item.name} ({item.unit})
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <select
+                      value={row.floor}
+                      onChange={(e) => updateRow(index, { floor: e.target.value })}
+                      disabled={!totalFloors}
+                      className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      <option value="">Whole project</option>
+                      {Array.from({ length: totalFloors ?? 0 }, (_, i) => i + 1).map((floor) => (
+                        <option key={floor} value={floor}>
+                          Floor {floor}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      value={row.estimatedQty}
+                      onChange={(e) => updateRow(index, { estimatedQty: e.target.value })}
+                      className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={row.estimatedRate}
+                      onChange={(e) => updateRow(index, { estimatedRate: e.target.value })}
+                      className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={row.notes}
+                      onChange={(e) => updateRow(index, { notes: e.target.value })}
+                      className="w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                setRows([...rows, { stockItemId: '', floor: '', estimatedQty: '', estimatedRate: '', notes: '' }])
+              }
+              className="py-2 px-3 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Add line
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="py-2 px-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : 'Save Estimate'}
+            </button>
+            <button
+              onClick={() => setIsEditing(false)}
+              className="py-2 px-3 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import {
+  getMaterialConsumptionReport,
+  getProjectMaterialEstimate,
+} from '@/lib/stock/materialEstimates.server';
+import DashboardLayout from '../../../../components/DashboardLayout';
+import MaterialEstimateClient from './components/MaterialEstimateClient';
+
+export default async function ProjectMaterialEstimatePage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id: params.id, companyId: auth.companyId },
+    select: { id: true },
+  });
+  if (!project) {
+    redirect('/dashboard/projects');
+  }
+
+  const [estimate, report, stockItems] = await Promise.all([
+    getProjectMaterialEstimate(auth.companyId, params.id),
+    getMaterialConsumptionReport(auth.companyId, params.id),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true, unit: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout
+      title={`Material Estimate: ${estimate.project.name}`}
+      actions={
+        <Link
+          href={`/dashboard/projects/${params.id}/stock`}
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back to Stock
+        </Link>
+      }
+    >
+      <MaterialEstimateClient
+        projectId={params.id}
+        canWrite={can(auth.role, 'stock', 'WRITE')}
+        totalFloors={estimate.project.totalFloors}
+        progressPercent={estimate.project.progressPercent}
+        stockItems={stockItems}
+        lines={estimate.lines}
+        report={report}
+      />
+    </DashboardLayout>
+  );
+}
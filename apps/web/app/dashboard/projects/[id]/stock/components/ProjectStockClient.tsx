@@ -2,6 +2,12 @@
 
 import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
+import StockTrackingFields, {
+  emptyTracking,
+  toTrackingPayload,
+  TrackingInput,
+  TrackingMode,
+} from '../../../../stock/components/StockTrackingFields';
 
 const normalizeName = (s: string) =>
   s.trim().replace(/\s+/g, ' ').toLowerCase();
@@ -17,6 +23,8 @@ interface StockItem {
   unit: string;
   category?: string | null;
   isActive?: boolean;
+  units?: Array<{ code: string; factor: number }>;
+  trackingMode?: TrackingMode;
 }
 
 interface OpeningStockRow {
@@ -57,6 +65,8 @@ interface ProjectStockItemBreakdown {
   receivedValue: number;
   issuedQty: number;
   issuedValue: number;
+  transferredOutQty: number;
+  transferredOutValue: number;
   wastageQty: number;
   wastageValue: number;
   remainingQty: number;
@@ -90,6 +100,12 @@ export default function ProjectStockClient({
   const [showMovementHistory, setShowMovementHistory] = useState(false);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [selectedItemId, setSelectedItemId] = useState<string>('');
+  const [issueItemId, setIssueItemId] = useState<string>('');
+  const [issueTracking, setIssueTracking] = useState<TrackingInput>(emptyTracking);
+  const [issueAvailable, setIssueAvailable] = useState<{
+    lots: Array<{ lotNumber: string; qty: number; expiryDate: string | null }>;
+    serials: Array<{ serialNumber: string }>;
+  } | null>(null);
   
   // Opening stock bulk table state
   const [openingMode, setOpeningMode] = useState<'quick' | 'existing'>('quick');
@@ -461,15 +477,36 @@ export default function ProjectStockClient({
     }
   };
 
+  const issueItem = stockItems.find((item) => item.id === issueItemId) ?? null;
+
+  // Lots and serials at the site to pick from when issuing a tracked item
+  useEffect(() => {
+    setIssueTracking(emptyTracking);
+    setIssueAvailable(null);
+    if (!issueItem?.trackingMode || issueItem.trackingMode === 'NONE') {
+      return;
+    }
+    fetch(`/api/projects/${projectId}/stock/tracking?stockItemId=${issueItem.id}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setIssueAvailable(data.data);
+        }
+      })
+      .catch((err) => console.error('Failed to load lots and serials:', err));
+  }, [issueItemId]);
+
   const handleIssueSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     const formData = new FormData(e.currentTarget);
     const data = {
       stockItemId: formData.get('stockItemId'),
       qty: parseFloat(formData.get('qty') as string),
+      unit: formData.get('unit') || null,
       movementDate: formData.get('movementDate') || new Date().toISOString().split('T')[0],
       notes: formData.get('notes') || null,
       meta: formData.get('meta') ? JSON.parse(formData.get('meta') as string) : null,
+      tracking: toTrackingPayload(issueItem?.trackingMode, issueTracking),
     };
 
     try {
@@ -482,6 +519,7 @@ export default function ProjectStockClient({
       const result = await response.json();
       if (result.ok) {
         setShowIssueModal(false);
+        setIssueItemId('');
         loadOverview();
         (e.target as HTMLFormElement).reset();
       } else {
@@ -662,6 +700,9 @@ export default function ProjectStockClient({
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Issued Qty
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Transferred Out
+                </th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Remaining Qty
                 </th>
@@ -704,6 +745,9 @@ export default function ProjectStockClient({
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                     {formatNumber(item.issuedQty)}
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
+                    {formatNumber(item.transferredOutQty)}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 text-right">
                     {formatNumber(item.remainingQty)}
                   </td>
@@ -728,6 +772,9 @@ export default function ProjectStockClient({
                 <td className="px-6 py-3 text-sm text-gray-900 text-right">
                   {formatNumber(overview.items.reduce((sum, item) => sum + item.issuedQty, 0))}
                 </td>
+                <td className="px-6 py-3 text-sm text-gray-900 text-right">
+                  {formatNumber(overview.items.reduce((sum, item) => sum + item.transferredOutQty, 0))}
+                </td>
                 <td className="px-6 py-3 text-sm font-bold text-gray-900 text-right">
                   {formatNumber(overview.items.reduce((sum, item) => sum + item.remainingQty, 0))}
                 </td>
@@ -978,6 +1025,8 @@ export default function ProjectStockClient({
               <select
                 name="stockItemId"
                 required
+                value={issueItemId}
+                onChange={(e) => setIssueItemId(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md"
               >
                 <option value="">Select item...</option>
@@ -988,19 +1037,46 @@ export default function ProjectStockClient({
                 ))}
               </select>
             </div>
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Quantity *
-              </label>
-              <input
-                type="number"
-                name="qty"
-                required
-                step="0.001"
-                min="0.001"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md"
-              />
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity *
+                </label>
+                <input
+                  type="number"
+                  name="qty"
+                  required
+                  step="0.001"
+                  min="0.001"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit
+                </label>
+                <select
+                  key={issueItemId}
+                  name="unit"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">{issueItem?.unit || 'Base unit'}</option>
+                  {(issueItem?.units ?? []).map((u) => (
+                    <option key={u.code} value={u.code}>
+                      {u.code} (1 = {u.factor} {issueItem?.unit})
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
+            <StockTrackingFields
+              mode={issueItem?.trackingMode}
+              direction="OUT"
+              compact
+              value={issueTracking}
+              onChange={setIssueTracking}
+              available={issueAvailable}
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Date *
@@ -38,6 +38,12 @@ export default async function ProjectStockPage({
       title="Stock"
       actions={
         <div className="flex gap-2 flex-wrap items-center">
+          <Link
+            href={`/dashboard/projects/${params.id}/stock/boq`}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Estimate vs Consumption
+          </Link>
           <Link
             href={`/dashboard/projects/${params.id}`}
             className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
@@ -0,0 +1,421 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Subcontract {
+  id: string;
+  workOrderRef: string;
+  title: string;
+  vendor: { id: string; name: string };
+  orderDate: string;
+  completionDate: string | null;
+  contractValue: number;
+  retentionPercent: number;
+  status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+  billCount: number;
+  summary: {
+    certifiedToDate: number;
+    advanceOutstanding: number;
+    retentionHeld: number;
+    payable: number;
+  };
+}
+
+interface ProjectSubcontractsClientProps {
+  project: { id: string; name: string };
+  summary: {
+    contractValue: number;
+    certifiedToDate: number;
+    advanceOutstanding: number;
+    retentionHeld: number;
+    payable: number;
+  };
+  subcontracts: Subcontract[];
+  vendors: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+interface ItemRow {
+  description: string;
+  unit: string;
+  quantity: string;
+  rate: string;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const STATUS_STYLES: Record<Subcontract['status'], string> = {
+  ACTIVE: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+const emptyItem = (): ItemRow => ({ description: '', unit: '', quantity: '', rate: '' });
+
+export default function ProjectSubcontractsClient({
+  project,
+  summary,
+  subcontracts,
+  vendors,
+  canWrite,
+}: ProjectSubcontractsClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({
+    vendorId: '',
+    title: '',
+    orderDate: today(),
+    completionDate: '',
+    retentionPercent: '5',
+    notes: '',
+  });
+  const [items, setItems] = useState<ItemRow[]>([emptyItem()]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const contractValue = items.reduce(
+    (sum, item) => sum + (parseFloat(item.quantity) || 0) * (parseFloat(item.rate) || 0),
+    0
+  );
+
+  const handleCreate = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${project.id}/subcontracts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          vendorId: form.vendorId,
+          title: form.title,
+          orderDate: form.orderDate,
+          completionDate: form.completionDate || null,
+          retentionPercent: form.retentionPercent || 0,
+          notes: form.notes || null,
+          items: items
+            .filter((item) => item.description.trim())
+            .map((item) => ({
+              description: item.description,
+              unit: item.unit || null,
+              quantity: item.quantity,
+              rate: item.rate,
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to create work order');
+        return;
+      }
+      router.push(`/dashboard/projects/${project.id}/subcontracts/${data.data.id}`);
+    } catch (err) {
+      setError('Failed to create work order');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateItem = (index: number, field: keyof ItemRow, value: string) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <Link href={`/dashboard/projects/${project.id}`} className="text-sm text-blue-600 hover:text-blue-800">
+          ← Back to project
+        </Link>
+        {canWrite && (
+          <button
+            onClick={() => {
+              setError(null);
+              setShowForm(!showForm);
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            New Work Order
+          </button>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Work Orders</div>
+          <div className="text-xl font-bold">{toMoney(summary.contractValue)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Certified to Date</div>
+          <div className="text-xl font-bold">{toMoney(summary.certifiedToDate)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Advances Outstanding</div>
+          <div className="text-xl font-bold">{toMoney(summary.advanceOutstanding)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Retention Held</div>
+          <div className="text-xl font-bold">{toMoney(summary.retentionHeld)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Payable</div>
+          <div className="text-xl font-bold text-orange-700">{toMoney(summary.payable)}</div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* New work order */}
+      {showForm && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">New Work Order</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Subcontractor *</label>
+              <select
+                value={form.vendorId}
+                onChange={(e) => setForm({ ...form, vendorId: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Select vendor</option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Scope of Work *</label>
+              <input
+                type="text"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+                placeholder="e.g. Brickwork, ground to third floor"
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Order Date *</label>
+              <input
+                type="date"
+                value={form.orderDate}
+                onChange={(e) => setForm({ ...form, orderDate: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Completion Date</label>
+              <input
+                type="date"
+                value={form.completionDate}
+                onChange={(e) => setForm({ ...form, completionDate: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Retention %</label>
+              <input
+                type="number"
+                step="0.01"
+                value={form.retentionPercent}
+                onChange={(e) => setForm({ ...form, retentionPercent: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="text-sm font-medium text-gray-700 mb-2">Work items</div>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map((item, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2">
+                      <input
+                        type="text"
+                        value={item.description}
+                        onChange={(e) => updateItem(index, 'description', e.target.value)}
+                        className="w-full rounded-md border-gray-300 shadow-sm text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-24">
+                      <input
+                        type="text"
+                        value={item.unit}
+                        onChange={(e) => updateItem(index, 'unit', e.target.value)}
+                        className="w-full rounded-md border-gray-300 shadow-sm text-sm"
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-32">
+                      <input
+                        type="number"
+                        step="0.001"
+                        value={item.quantity}
+                        onChange={(e) => updateItem(index, 'quantity', e.target.value)}
+                        className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right"
+                      />
+                    </td>
+                    <td className="px-3 py-2 w-32">
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={item.rate}
+                        onChange={(e) => updateItem(index, 'rate', e.target.value)}
+                        className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right"
+                      />
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      {toMoney((parseFloat(item.quantity) || 0) * (parseFloat(item.rate) || 0))}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {items.length > 1 && (
+                        <button
+                          onClick={() => setItems(items.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800 text-sm"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button
+              onClick={() => setItems([...items, emptyItem()])}
+              className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add item
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-between items-center">
+            <div className="text-sm">
+              Work order value: <span className="font-medium">{toMoney(contractValue)}</span>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isWorking || !form.vendorId || !form.title.trim() || contractValue <= 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Create Work Order'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Work orders */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Work Order</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subcontractor</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Value</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Certified</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Advance</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Retention</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payable</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {subcontracts.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No work orders yet
+                </td>
+              </tr>
+            ) : (
+              subcontracts.map((subcontract) => (
+                <tr key={subcontract.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <Link
+                      href={`/dashboard/projects/${project.id}/subcontracts/${subcontract.id}`}
+                      className="font-medium text-blue-600 hover:text-blue-800"
+                    >
+                      {subcontract.workOrderRef}
+                    </Link>{' '}
+                    <span className="text-gray-900">{subcontract.title}</span>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(subcontract.orderDate)}
+                      {subcontract.completionDate && ` – ${formatDate(subcontract.completionDate)}`} ·{' '}
+                      {subcontract.billCount} bill(s) · {subcontract.retentionPercent}% retention
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <Link
+                      href={`/dashboard/vendors/${subcontract.vendor.id}/ledger`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {subcontract.vendor.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">{toMoney(subcontract.contractValue)}</td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    <div>{toMoney(subcontract.summary.certifiedToDate)}</div>
+                    {subcontract.contractValue > 0 && (
+                      <div className="text-xs text-gray-500">
+                        {((subcontract.summary.certifiedToDate / subcontract.contractValue) * 100).toFixed(1)}%
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">
+                    {toMoney(subcontract.summary.advanceOutstanding)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">
+                    {toMoney(subcontract.summary.retentionHeld)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right font-medium">
+                    {toMoney(subcontract.summary.payable)}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[subcontract.status]}`}>
+                      {subcontract.status}
+                    </span>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,747 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface VoucherRef {
+  id: string;
+  voucherNo: string;
+  status: string;
+}
+
+interface Bill {
+  id: string;
+  billRef: string;
+  billDate: string;
+  isFinal: boolean;
+  cumulativeAmount: number;
+  previousAmount: number;
+  grossAmount: number;
+  retentionPercent: number;
+  retentionAmount: number;
+  advanceRecovery: number;
+  netAmount: number;
+  status: 'DRAFT' | 'CERTIFIED' | 'CANCELLED';
+  notes: string | null;
+  voucher: VoucherRef | null;
+  paid: number;
+  items: Array<{ itemId: string; quantity: number }>;
+}
+
+interface SubcontractDetailClientProps {
+  subcontract: {
+    id: string;
+    projectId: string;
+    projectName: string;
+    vendor: { id: string; name: string; phone: string | null };
+    workOrderRef: string;
+    title: string;
+    orderDate: string;
+    completionDate: string | null;
+    contractValue: number;
+    retentionPercent: number;
+    status: 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+    notes: string | null;
+    items: Array<{
+      id: string;
+      description: string;
+      unit: string | null;
+      quantity: number;
+      rate: number;
+      amount: number;
+      billedQuantity: number;
+      billedAmount: number;
+    }>;
+    advances: Array<{ id: string; date: string; amount: number; voucher: VoucherRef }>;
+    bills: Bill[];
+    retentionRelease: { voucher: VoucherRef; releasedAt: string | null } | null;
+    summary: {
+      certifiedToDate: number;
+      advancePaid: number;
+      advanceRecovered: number;
+      advanceOutstanding: number;
+      retentionHeld: number;
+      retentionReleased: number;
+      netCertified: number;
+      paid: number;
+      payable: number;
+    };
+    hasFinalBill: boolean;
+    canReleaseRetention: boolean;
+  };
+  paymentAccounts: Array<{ id: string; code: string; name: string }>;
+  canWrite: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const STATUS_STYLES: Record<string, string> = {
+  ACTIVE: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  DRAFT: 'bg-gray-100 text-gray-800',
+  CERTIFIED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-red-100 text-red-800',
+};
+
+function VoucherLink({ voucher }: { voucher: VoucherRef }) {
+  return (
+    <span className="text-xs">
+      <Link href={`/dashboard/vouchers/${voucher.id}`} className="text-blue-600 hover:text-blue-800">
+        {voucher.voucherNo}
+      </Link>{' '}
+      <span className="text-gray-500">({voucher.status})</span>
+    </span>
+  );
+}
+
+export default function SubcontractDetailClient({
+  subcontract,
+  paymentAccounts,
+  canWrite,
+}: SubcontractDetailClientProps) {
+  const router = useRouter();
+  const baseUrl = `/api/projects/${subcontract.projectId}/subcontracts/${subcontract.id}`;
+  const isActive = subcontract.status === 'ACTIVE';
+  const [showBillForm, setShowBillForm] = useState(false);
+  const [billForm, setBillForm] = useState({ billDate: today(), isFinal: false, notes: '' });
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [advance, setAdvance] = useState<{
+    date: string;
+    accountId: string;
+    amount: string;
+    narration: string;
+  } | null>(null);
+  const [release, setRelease] = useState<{ date: string; narration: string } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Preview of the next bill, mirroring the server calculation
+  const quantityOf = (item: SubcontractDetailClientProps['subcontract']['items'][number]) =>
+    quantities[item.id] !== undefined ? parseFloat(quantities[item.id]) || 0 : item.billedQuantity;
+  const cumulative = round(
+    subcontract.items.reduce((sum, item) => sum + round(quantityOf(item) * item.rate), 0)
+  );
+  const gross = round(cumulative - subcontract.summary.certifiedToDate);
+  const retention = round((gross * subcontract.retentionPercent) / 100);
+  const proportional =
+    subcontract.contractValue > 0
+      ? round((subcontract.summary.advancePaid * gross) / subcontract.contractValue)
+      : subcontract.summary.advanceOutstanding;
+  const recovery = Math.max(
+    Math.min(
+      billForm.isFinal ? subcontract.summary.advanceOutstanding : proportional,
+      subcontract.summary.advanceOutstanding,
+      round(gross - retention)
+    ),
+    0
+  );
+  const net = round(gross - retention - recovery);
+
+  const request = async (url: string, init: RequestInit, failure: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || failure);
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError(failure);
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreateBill = async () => {
+    const ok = await request(
+      `${baseUrl}/bills`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          billDate: billForm.billDate,
+          isFinal: billForm.isFinal,
+          notes: billForm.notes || null,
+          items: subcontract.items.map((item) => ({ itemId: item.id, quantity: quantityOf(item) })),
+        }),
+      },
+      'Failed to create bill'
+    );
+    if (ok) {
+      setShowBillForm(false);
+      setQuantities({});
+    }
+  };
+
+  const handleCertify = async (bill: Bill) => {
+    if (
+      !confirm(
+        `Certify ${bill.billRef}? A draft journal voucher will be created for ${toMoney(bill.grossAmount)}, with ${toMoney(bill.netAmount)} payable to ${subcontract.vendor.name}.`
+      )
+    )
+      return;
+    await request(`${baseUrl}/bills/${bill.id}/certify`, { method: 'POST' }, 'Failed to certify bill');
+  };
+
+  const handleCancelBill = async (bill: Bill) => {
+    if (!confirm(`Cancel ${bill.billRef}?`)) return;
+    await request(`${baseUrl}/bills/${bill.id}/cancel`, { method: 'POST' }, 'Failed to cancel bill');
+  };
+
+  const handleDeleteBill = async (bill: Bill) => {
+    if (!confirm(`Delete draft ${bill.billRef}?`)) return;
+    await request(`${baseUrl}/bills/${bill.id}`, { method: 'DELETE' }, 'Failed to delete bill');
+  };
+
+  const handleAdvance = async () => {
+    if (!advance) return;
+    const ok = await request(
+      `${baseUrl}/advances`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date: advance.date,
+          accountId: advance.accountId,
+          amount: advance.amount,
+          narration: advance.narration || null,
+        }),
+      },
+      'Failed to record advance'
+    );
+    if (ok) {
+      setAdvance(null);
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!release) return;
+    const ok = await request(
+      `${baseUrl}/release-retention`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: release.date, narration: release.narration || null }),
+      },
+      'Failed to release retention'
+    );
+    if (ok) {
+      setRelease(null);
+    }
+  };
+
+  const handleCancelWorkOrder = async () => {
+    if (!confirm(`Cancel work order ${subcontract.workOrderRef}?`)) return;
+    await request(`${baseUrl}/cancel`, { method: 'POST' }, 'Failed to cancel work order');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <Link
+          href={`/dashboard/projects/${subcontract.projectId}/subcontracts`}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          ← Back to subcontracts
+        </Link>
+        <div className="flex gap-2">
+          <button
+            onClick={() =>
+              window.open(
+                `/print/vendors/${subcontract.vendor.id}/subcontract-statement?subcontractId=${subcontract.id}`,
+                '_blank'
+              )
+            }
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 text-sm"
+          >
+            Print Statement
+          </button>
+          {canWrite && isActive && (
+            <>
+              <button
+                onClick={() => {
+                  setError(null);
+                  setAdvance({ date: today(), accountId: paymentAccounts[0]?.id || '', amount: '', narration: '' });
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 text-sm"
+              >
+                Pay Advance
+              </button>
+              {!subcontract.hasFinalBill && (
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setShowBillForm(!showBillForm);
+                  }}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+                >
+                  New Bill
+                </button>
+              )}
+            </>
+          )}
+          {canWrite && subcontract.canReleaseRetention && (
+            <button
+              onClick={() => {
+                setError(null);
+                setRelease({ date: today(), narration: '' });
+              }}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm"
+            >
+              Release Retention
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Work order */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">
+              {subcontract.workOrderRef} · {subcontract.title}
+            </h2>
+            <p className="text-sm text-gray-600 mt-1">
+              <Link
+                href={`/dashboard/vendors/${subcontract.vendor.id}/ledger`}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                {subcontract.vendor.name}
+              </Link>{' '}
+              · {subcontract.projectName} · ordered {formatDate(subcontract.orderDate)}
+              {subcontract.completionDate && `, due ${formatDate(subcontract.completionDate)}`}
+            </p>
+            {subcontract.notes && <p className="text-sm text-gray-500 mt-1">{subcontract.notes}</p>}
+          </div>
+          <div className="text-right space-y-2">
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[subcontract.status]}`}>
+              {subcontract.status}
+            </span>
+            {canWrite && isActive && (
+              <div>
+                <button
+                  onClick={handleCancelWorkOrder}
+                  disabled={isWorking}
+                  className="text-sm text-red-600 hover:text-red-800"
+                >
+                  Cancel work order
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Work Order Value</div>
+          <div className="text-xl font-bold">{toMoney(subcontract.contractValue)}</div>
+          <div className="text-xs text-gray-500">{subcontract.retentionPercent}% retention</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Certified to Date</div>
+          <div className="text-xl font-bold">{toMoney(subcontract.summary.certifiedToDate)}</div>
+          {subcontract.contractValue > 0 && (
+            <div className="text-xs text-gray-500">
+              {((subcontract.summary.certifiedToDate / subcontract.contractValue) * 100).toFixed(1)}% of work order
+            </div>
+          )}
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Advance Outstanding</div>
+          <div className="text-xl font-bold">{toMoney(subcontract.summary.advanceOutstanding)}</div>
+          <div className="text-xs text-gray-500">
+            {toMoney(subcontract.summary.advancePaid)} paid, {toMoney(subcontract.summary.advanceRecovered)} recovered
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Retention Held</div>
+          <div className="text-xl font-bold">{toMoney(subcontract.summary.retentionHeld)}</div>
+          {subcontract.summary.retentionReleased > 0 && (
+            <div className="text-xs text-gray-500">{toMoney(subcontract.summary.retentionReleased)} released</div>
+          )}
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Payable</div>
+          <div className="text-xl font-bold text-orange-700">{toMoney(subcontract.summary.payable)}</div>
+          <div className="text-xs text-gray-500">{toMoney(subcontract.summary.paid)} paid</div>
+        </div>
+      </div>
+
+      {error && !advance && !release && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* Items */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Ordered</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Rate</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Billed Qty</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Billed</th>
+              {showBillForm && (
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Qty to Date
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {subcontract.items.map((item) => (
+              <tr key={item.id}>
+                <td className="px-4 py-3 text-sm text-gray-900">{item.description}</td>
+                <td className="px-4 py-3 text-sm text-right">
+                  {item.quantity} {item.unit || ''}
+                </td>
+                <td className="px-4 py-3 text-sm text-right">{toMoney(item.rate)}</td>
+                <td className="px-4 py-3 text-sm text-right">{toMoney(item.amount)}</td>
+                <td className="px-4 py-3 text-sm text-right">{item.billedQuantity}</td>
+                <td className="px-4 py-3 text-sm text-right">{toMoney(item.billedAmount)}</td>
+                {showBillForm && (
+                  <td className="px-4 py-2 w-36">
+                    <input
+                      type="number"
+                      step="0.001"
+                      min="0"
+                      max={item.quantity}
+                      value={quantities[item.id] ?? String(item.billedQuantity)}
+                      onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right"
+                    />
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New bill */}
+      {showBillForm && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">New Running Bill</h3>
+          <p className="text-sm text-gray-600">
+            Enter the cumulative quantity done to date against each item above; the bill charges the increase over
+            the last certified bill.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bill Date *</label>
+              <input
+                type="date"
+                value={billForm.billDate}
+                onChange={(e) => setBillForm({ ...billForm, billDate: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={billForm.notes}
+                onChange={(e) => setBillForm({ ...billForm, notes: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-6">
+              <input
+                type="checkbox"
+                checked={billForm.isFinal}
+                onChange={(e) => setBillForm({ ...billForm, isFinal: e.target.checked })}
+                className="h-4 w-4 border-gray-300 rounded"
+              />
+              Final bill (recovers the remaining advance)
+            </label>
+          </div>
+
+          <div className="bg-gray-50 rounded-md p-4 grid grid-cols-2 md:grid-cols-6 gap-2 text-sm">
+            <div>Cumulative: <span className="font-medium">{toMoney(cumulative)}</span></div>
+            <div>Previously certified: <span className="font-medium">{toMoney(subcontract.summary.certifiedToDate)}</span></div>
+            <div>This bill (gross): <span className={`font-medium ${gross <= 0 ? 'text-red-600' : ''}`}>{toMoney(gross)}</span></div>
+            <div>Retention: <span className="font-medium">{toMoney(retention)}</span></div>
+            <div>Advance recovery: <span className="font-medium">{toMoney(recovery)}</span></div>
+            <div>Net payable: <span className="font-medium">{toMoney(net)}</span></div>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => {
+                setShowBillForm(false);
+                setQuantities({});
+              }}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreateBill}
+              disabled={isWorking || gross <= 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Saving...' : 'Save Draft'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Bills */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bill</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cumulative</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Retention</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Advance Recovery</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Paid</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {subcontract.bills.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No bills yet
+                </td>
+              </tr>
+            ) : (
+              subcontract.bills.map((bill) => (
+                <tr key={bill.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">
+                      {bill.billRef}
+                      {bill.isFinal && <span className="ml-2 text-xs text-gray-500">(final)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(bill.billDate)}
+                      {bill.notes && ` · ${bill.notes}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right">{toMoney(bill.cumulativeAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(bill.grossAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">{toMoney(bill.retentionAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-right text-gray-600">{toMoney(bill.advanceRecovery)}</td>
+                  <td className="px-4 py-3 text-sm text-right font-medium">{toMoney(bill.netAmount)}</td>
+                  <td className="px-4 py-3 text-sm text-right">
+                    {bill.status === 'CERTIFIED' ? toMoney(bill.paid) : '-'}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[bill.status]}`}>
+                      {bill.status}
+                    </span>
+                    {bill.voucher && (
+                      <div className="mt-1">
+                        <VoucherLink voucher={bill.voucher} />
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-3">
+                    {canWrite && bill.status === 'DRAFT' && (
+                      <>
+                        {isActive && (
+                          <button
+                            onClick={() => handleCertify(bill)}
+                            disabled={isWorking}
+                            className="text-green-600 hover:text-green-800"
+                          >
+                            Certify
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeleteBill(bill)}
+                          disabled={isWorking}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                    {canWrite && bill.status === 'CERTIFIED' && (
+                      <button
+                        onClick={() => handleCancelBill(bill)}
+                        disabled={isWorking}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Advances and retention */}
+      {(subcontract.advances.length > 0 || subcontract.retentionRelease) && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-2 text-sm">
+          {subcontract.advances.map((a) => (
+            <div key={a.id} className="flex justify-between">
+              <span>
+                Advance {formatDate(a.date)} <VoucherLink voucher={a.voucher} />
+              </span>
+              <span className="font-medium">{toMoney(a.amount)}</span>
+            </div>
+          ))}
+          {subcontract.retentionRelease && (
+            <div className="flex justify-between">
+              <span>
+                Retention released
+                {subcontract.retentionRelease.releasedAt && ` ${formatDate(subcontract.retentionRelease.releasedAt)}`}{' '}
+                <VoucherLink voucher={subcontract.retentionRelease.voucher} />
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Advance modal */}
+      {advance && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Pay Advance - {subcontract.workOrderRef}</h3>
+            <p className="text-sm text-gray-600">
+              A draft payment voucher will be created. Once posted, the advance is recovered from the running bills in
+              proportion to the work billed.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  value={advance.date}
+                  onChange={(e) => setAdvance({ ...advance, date: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Paid From *</label>
+                <select
+                  value={advance.accountId}
+                  onChange={(e) => setAdvance({ ...advance, accountId: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Select account</option>
+                  {paymentAccounts.map((account) => (
+                    <option key={account.id} value={account.id}>
+                      {account.code} - {account.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount *</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={advance.amount}
+                  onChange={(e) => setAdvance({ ...advance, amount: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Narration</label>
+                <input
+                  type="text"
+                  value={advance.narration}
+                  onChange={(e) => setAdvance({ ...advance, narration: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setAdvance(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleAdvance}
+                disabled={isWorking || !advance.accountId || !(parseFloat(advance.amount) > 0)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Record Advance'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Retention release modal */}
+      {release && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-lg space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Release Retention - {subcontract.workOrderRef}</h3>
+            <p className="text-sm text-gray-600">
+              {toMoney(subcontract.summary.retentionHeld)} held will move to {subcontract.vendor.name}&apos;s payables
+              by a draft journal voucher, and the work order will be completed.
+            </p>
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Date *</label>
+                <input
+                  type="date"
+                  value={release.date}
+                  onChange={(e) => setRelease({ ...release, date: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Narration</label>
+                <input
+                  type="text"
+                  value={release.narration}
+                  onChange={(e) => setRelease({ ...release, narration: e.target.value })}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setRelease(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRelease}
+                disabled={isWorking}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Release Retention'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
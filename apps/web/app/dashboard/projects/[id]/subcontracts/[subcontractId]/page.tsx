@@ -0,0 +1,59 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listReceivingAccounts } from '@/lib/accounting/clientBilling.server';
+import { getSubcontract } from '@/lib/accounting/subcontracts.server';
+import DashboardLayout from '../../../../components/DashboardLayout';
+import SubcontractDetailClient from './SubcontractDetailClient';
+
+export default async function SubcontractDetailPage({
+  params,
+}: {
+  params: { id: string; subcontractId: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let subcontract;
+  try {
+    subcontract = await getSubcontract(auth.companyId, params.id, params.subcontractId);
+  } catch (error) {
+    redirect(`/dashboard/projects/${params.id}/subcontracts`);
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const paymentAccounts = canWrite ? await listReceivingAccounts(auth.companyId) : [];
+
+  return (
+    <DashboardLayout title={`${subcontract.workOrderRef} - ${subcontract.title}`}>
+      <SubcontractDetailClient
+        subcontract={{
+          ...subcontract,
+          orderDate: subcontract.orderDate.toISOString(),
+          completionDate: subcontract.completionDate?.toISOString() || null,
+          advances: subcontract.advances.map((advance) => ({
+            ...advance,
+            date: advance.date.toISOString(),
+          })),
+          bills: subcontract.bills.map((bill) => ({
+            ...bill,
+            billDate: bill.billDate.toISOString(),
+            certifiedAt: bill.certifiedAt?.toISOString() || null,
+          })),
+          retentionRelease: subcontract.retentionRelease
+            ? {
+                voucher: subcontract.retentionRelease.voucher,
+                releasedAt: subcontract.retentionRelease.releasedAt?.toISOString() || null,
+              }
+            : null,
+        }}
+        paymentAccounts={paymentAccounts}
+        canWrite={canWrite}
+      />
+    </DashboardLayout>
+  );
+}
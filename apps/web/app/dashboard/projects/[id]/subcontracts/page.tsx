@@ -0,0 +1,60 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { listProjectSubcontracts } from '@/lib/accounting/subcontracts.server';
+import DashboardLayout from '../../../components/DashboardLayout';
+import ProjectSubcontractsClient from './ProjectSubcontractsClient';
+
+export default async function ProjectSubcontractsPage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let result;
+  try {
+    result = await listProjectSubcontracts(auth.companyId, params.id);
+  } catch (error) {
+    redirect('/dashboard/projects');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const vendors = canWrite
+    ? await prisma.vendor.findMany({
+        where: { companyId: auth.companyId, isActive: true },
+        select: { id: true, name: true },
+        orderBy: { name: 'asc' },
+      })
+    : [];
+
+  return (
+    <DashboardLayout title={`Subcontracts - ${result.project.name}`}>
+      <ProjectSubcontractsClient
+        project={result.project}
+        summary={result.summary}
+        subcontracts={result.subcontracts.map((subcontract) => ({
+          id: subcontract.id,
+          workOrderRef: subcontract.workOrderRef,
+          title: subcontract.title,
+          vendor: { id: subcontract.vendor.id, name: subcontract.vendor.name },
+          orderDate: subcontract.orderDate.toISOString(),
+          completionDate: subcontract.completionDate?.toISOString() || null,
+          contractValue: subcontract.contractValue,
+          retentionPercent: subcontract.retentionPercent,
+          status: subcontract.status,
+          billCount: subcontract.bills.filter((bill) => bill.status !== 'CANCELLED').length,
+          summary: subcontract.summary,
+        }))}
+        vendors={vendors}
+        canWrite={canWrite}
+      />
+    </DashboardLayout>
+  );
+}
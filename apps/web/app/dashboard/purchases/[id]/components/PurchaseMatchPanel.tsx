@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface MatchVariance {
+  kind: 'QUANTITY' | 'RATE' | 'NOT_ON_ORDER';
+  itemName: string;
+  ordered: number | null;
+  received: number | null;
+  billed: number | null;
+  agreedRate: number | null;
+  billedRate: number | null;
+  message: string;
+}
+
+interface PurchaseMatchPanelProps {
+  purchaseId: string;
+  status: string;
+  purchaseOrder: { id: string; poNo: number };
+  matchStatus: 'MATCHED' | 'VARIANCE' | 'ACCEPTED' | null;
+  variances: MatchVariance[];
+  checkedAt: string | null;
+  acceptedBy: string | null;
+  acceptedAt: string | null;
+  notes: string | null;
+  canWrite: boolean;
+  canApprove: boolean;
+}
+
+const KIND_LABELS: Record<MatchVariance['kind'], string> = {
+  QUANTITY: 'Quantity',
+  RATE: 'Rate',
+  NOT_ON_ORDER: 'Not on order',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatNumber = (value: number | null) =>
+  value == null ? '-' : value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+export default function PurchaseMatchPanel({
+  purchaseId,
+  status,
+  purchaseOrder,
+  matchStatus,
+  variances,
+  checkedAt,
+  acceptedBy,
+  acceptedAt,
+  notes,
+  canWrite,
+  canApprove,
+}: PurchaseMatchPanelProps) {
+  const router = useRouter();
+  const [acceptNotes, setAcceptNotes] = useState('');
+  const [isLoading, setIsLoading] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isPending = status === 'DRAFT' || status === 'SUBMITTED';
+
+  const runAction = async (action: 'RECHECK' | 'ACCEPT') => {
+    setIsLoading(action);
+    setError(null);
+    try {
+      const response = await fetch(`/api/purchases/${purchaseId}/match`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, notes: action === 'ACCEPT' ? acceptNotes : null }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setAcceptNotes('');
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to update the match');
+      }
+    } catch {
+      setError('An error occurred while updating the match');
+    } finally {
+      setIsLoading(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-medium">
+          Three-Way Match against{' '}
+          <Link href={`/dashboard/purchases/orders/${purchaseOrder.id}`} className="text-blue-600 hover:underline">
+            PO #{purchaseOrder.poNo}
+          </Link>
+        </h2>
+        <div className="flex items-center gap-3">
+          {matchStatus === 'MATCHED' && (
+            <span className="inline-flex px-3 py-1 text-sm font-semibold rounded-full bg-green-100 text-green-800">
+              Matched
+            </span>
+          )}
+          {matchStatus === 'VARIANCE' && (
+            <span className="inline-flex px-3 py-1 text-sm font-semibold rounded-full bg-red-100 text-red-800">
+              {variances.length} variance{variances.length === 1 ? '' : 's'}
+            </span>
+          )}
+          {matchStatus === 'ACCEPTED' && (
+            <span className="inline-flex px-3 py-1 text-sm font-semibold rounded-full bg-yellow-100 text-yellow-800">
+              Variances accepted
+            </span>
+          )}
+          {canWrite && isPending && (
+            <button
+              onClick={() => runAction('RECHECK')}
+              disabled={isLoading !== null}
+              className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+            >
+              {isLoading === 'RECHECK' ? 'Checking...' : 'Re-check'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {checkedAt && (
+        <p className="text-xs text-gray-500 mb-3">Last checked {formatDate(checkedAt)}</p>
+      )}
+
+      {variances.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          Billed quantities and rates agree with the order and the goods received.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Variance</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Billed</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Agreed rate</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Billed rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {variances.map((variance, index) => (
+                <tr key={index}>
+                  <td className="px-4 py-2 text-sm">
+                    <span className="font-medium text-red-700">{KIND_LABELS[variance.kind]}</span>
+                    <div className="text-xs text-gray-500">{variance.message}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{variance.itemName}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatNumber(variance.ordered)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatNumber(variance.received)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatNumber(variance.billed)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatNumber(variance.agreedRate)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatNumber(variance.billedRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {matchStatus === 'ACCEPTED' && (
+        <p className="mt-3 text-sm text-gray-700">
+          Accepted by {acceptedBy ?? 'an approver'}
+          {acceptedAt ? ` on ${formatDate(acceptedAt)}` : ''}: {notes}
+        </p>
+      )}
+
+      {matchStatus === 'VARIANCE' && isPending && (
+        <div className="mt-4 space-y-2">
+          <p className="text-sm text-gray-600">
+            This bill cannot be approved until the variances are cleared (for example by receiving the missing
+            goods and re-checking) or accepted by an approver.
+          </p>
+          {canApprove && (
+            <div className="flex flex-wrap gap-2">
+              <input
+                type="text"
+                value={acceptNotes}
+                onChange={(e) => setAcceptNotes(e.target.value)}
+                placeholder="Reason for accepting the variances"
+                className="flex-1 min-w-[16rem] rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+              <button
+                onClick={() => runAction('ACCEPT')}
+                disabled={isLoading !== null || !acceptNotes.trim()}
+                className="px-4 py-2 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 text-sm disabled:opacity-50"
+              >
+                {isLoading === 'ACCEPT' ? 'Accepting...' : 'Accept Variances'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -3,8 +3,10 @@ import Link from 'next/link';
 import { requirePermissionServer } from '@/lib/rbac';
 import { can } from '@/lib/permissions';
 import { prisma } from '@accounting/db';
+import type { PurchaseMatchVariance } from '@/lib/purchases/threeWayMatch.server';
 import DashboardLayout from '../../components/DashboardLayout';
 import PurchaseWorkflowActions from './components/PurchaseWorkflowActions';
+import PurchaseMatchPanel from './components/PurchaseMatchPanel';
 
 export default async function PurchaseDetailPage({ params }: { params: { id: string } }) {
   let auth;
@@ -50,6 +52,12 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
           status: true,
         },
       },
+      purchaseOrder: {
+        select: { id: true, poNo: true },
+      },
+      matchAcceptedBy: {
+        select: { name: true },
+      },
     },
   });
 
@@ -126,6 +134,22 @@ export default async function PurchaseDetailPage({ params }: { params: { id: str
           )}
         </div>
 
+        {purchase.purchaseOrder && (
+          <PurchaseMatchPanel
+            purchaseId={purchase.id}
+            status={purchase.status}
+            purchaseOrder={purchase.purchaseOrder}
+            matchStatus={purchase.matchStatus}
+            variances={(purchase.matchVariances as unknown as PurchaseMatchVariance[] | null) ?? []}
+            checkedAt={purchase.matchCheckedAt?.toISOString() ?? null}
+            acceptedBy={purchase.matchAcceptedBy?.name ?? null}
+            acceptedAt={purchase.matchAcceptedAt?.toISOString() ?? null}
+            notes={purchase.matchNotes}
+            canWrite={canWrite}
+            canApprove={canApprove}
+          />
+        )}
+
         {/* Header Info */}
         <div className="bg-white shadow rounded-lg p-6">
           <h2 className="text-lg font-medium mb-4">Purchase Information</h2>
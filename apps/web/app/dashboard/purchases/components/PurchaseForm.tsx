@@ -40,6 +40,7 @@ interface Purchase {
   projectId: string;
   subProjectId: string | null;
   supplierVendorId: string;
+  purchaseOrderId?: string | null;
   reference: string | null;
   discountPercent: number | null;
   paidAmount: number;
@@ -82,6 +83,19 @@ interface Vendor {
   name: string;
 }
 
+interface PurchaseOrderSummary {
+  id: string;
+  poNo: number;
+  project: { id: string; name: string };
+  supplierVendor: Vendor;
+  lines: Array<{
+    stockItem: StockItem;
+    agreedRate: number;
+    qtyReceived: number;
+    qtyBilled: number;
+  }>;
+}
+
 function toDateInputValue(input: unknown): string {
   if (input == null) return '';
   if (typeof input === 'string') {
@@ -128,6 +142,8 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
   // Get projectId and returnTo from URL if launched from project dashboard
   const projectIdFromUrl = searchParams.get('projectId') || '';
   const returnTo = searchParams.get('returnTo') || '';
+  const purchaseOrderId = purchase ? purchase.purchaseOrderId || '' : searchParams.get('purchaseOrderId') || '';
+  const [purchaseOrder, setPurchaseOrder] = useState<PurchaseOrderSummary | null>(null);
 
   const [formData, setFormData] = useState({
     date: toDateInputValue(purchase?.date || new Date()),
@@ -270,6 +286,62 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
   }, [projectIdFromUrl]); // Only re-run if projectIdFromUrl changes
 
 
+  // Bill against a purchase order: take supplier and project from the order and, for a new
+  // bill, prefill the goods received but not yet billed at the agreed rates
+  useEffect(() => {
+    if (!purchaseOrderId) return;
+
+    const fetchOrder = async () => {
+      try {
+        const [orderRes, projectsRes] = await Promise.all([
+          fetch(`/api/purchase-orders/${purchaseOrderId}`),
+          fetch('/api/projects?status=all&active=all'),
+        ]);
+        const orderData = await orderRes.json();
+        const projectsData = await projectsRes.json();
+        if (!orderData.ok) {
+          setError(orderData.error || 'Failed to load purchase order');
+          return;
+        }
+        const order = orderData.data as PurchaseOrderSummary;
+        setPurchaseOrder(order);
+        if (purchase) return;
+
+        const orderProject = projectsData.ok
+          ? (projectsData.data as Project[]).find((p) => p.id === order.project.id)
+          : undefined;
+        setFormData((prev) => ({
+          ...prev,
+          supplierVendorId: order.supplierVendor.id,
+          projectId: orderProject?.parentProjectId || order.project.id,
+          subProjectId: orderProject?.parentProjectId ? order.project.id : '',
+        }));
+        const unbilled = order.lines
+          .map((line) => ({ line, qty: Math.round((line.qtyReceived - line.qtyBilled) * 1000) / 1000 }))
+          .filter(({ qty }) => qty > 0);
+        if (unbilled.length > 0) {
+          setLines(
+            unbilled.map(({ line, qty }) => ({
+              lineType: 'MATERIAL' as PurchaseLineType,
+              stockItemId: line.stockItem.id,
+              quantity: qty,
+              unit: line.stockItem.unit,
+              unitRate: line.agreedRate,
+              description: null,
+              materialName: line.stockItem.name,
+              lineTotal: qty * line.agreedRate,
+            }))
+          );
+        }
+      } catch (err) {
+        console.error('Failed to fetch purchase order:', err);
+      }
+    };
+
+    fetchOrder();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [purchaseOrderId]);
+
   // Update sub-projects when main project changes (only if not preselected)
   useEffect(() => {
     if (isProjectPreselected) {
@@ -435,13 +507,15 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
         projectId: formData.projectId,
         subProjectId: formData.subProjectId || null,
         supplierVendorId: formData.supplierVendorId,
+        ...(purchase ? {} : { purchaseOrderId: purchaseOrderId || null }),
         reference: formData.reference || null,
         discountPercent: formData.discountPercent ? parseFloat(formData.discountPercent) : null,
         paidAmount: parseFloat(formData.paidAmount) || 0,
         paymentAccountId: formData.paymentAccountId || null,
         lines: lines.map((line) => ({
           lineType: 'MATERIAL', // Always MATERIAL for new form
-          stockItemId: null, // Not used in new form
+          // Only bills against a purchase order carry stock items, for the three-way match
+          stockItemId: purchaseOrderId ? line.stockItemId || null : null,
           quantity: line.quantity || null,
           unit: line.unit || null,
           unitRate: line.unitRate || null,
@@ -491,6 +565,17 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
         </div>
       )}
 
+      {purchaseOrder && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded text-sm">
+          Bill against{' '}
+          <Link href={`/dashboard/purchases/orders/${purchaseOrder.id}`} className="font-medium underline">
+            PO #{purchaseOrder.poNo}
+          </Link>{' '}
+          ({purchaseOrder.supplierVendor.name}, {purchaseOrder.project.name}). Quantities and rates are matched
+          against the order and the goods received before the bill can be approved.
+        </div>
+      )}
+
       {/* Header Fields */}
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 sm:gap-6">
         <div>
@@ -578,7 +663,7 @@ export default function PurchaseForm({ purchase }: PurchaseFormProps) {
             required
             value={formData.supplierVendorId}
             onChange={(e) => setFormData({ ...formData, supplierVendorId: e.target.value })}
-            disabled={isLoadingVendors}
+            disabled={isLoadingVendors || !!purchaseOrderId}
             className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-blue-500 focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
           >
             <option value="">{isLoadingVendors ? 'Loading vendors...' : 'Select vendor'}</option>
@@ -0,0 +1,341 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import { PO_STATUS_LABELS, PO_STATUS_STYLES } from '../../components/PurchaseOrdersClient';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface OrderLine {
+  id: string;
+  stockItem: { id: string; name: string; unit: string };
+  qtyOrdered: number;
+  agreedRate: number;
+  amount: number;
+  deliveryDate: string | null;
+  qtyReceived: number;
+  qtyBilled: number;
+  qtyOutstanding: number;
+  isOverdue: boolean;
+  notes: string | null;
+}
+
+interface Receipt {
+  id: string;
+  grnNo: number;
+  receiptDate: string;
+  challanNo: string | null;
+  notes: string | null;
+  receivedBy: Option;
+  lines: Array<{ purchaseOrderLineId: string; qty: number }>;
+}
+
+interface Bill {
+  id: string;
+  date: string;
+  challanNo: string | null;
+  status: string;
+  total: number;
+  matchStatus: 'MATCHED' | 'VARIANCE' | 'ACCEPTED' | null;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNo: number;
+  status: keyof typeof PO_STATUS_LABELS;
+  project: Option;
+  supplierVendor: Option;
+  orderDate: string;
+  expectedDate: string | null;
+  notes: string | null;
+  createdBy: Option;
+  closedAt: string | null;
+  total: number;
+  lines: OrderLine[];
+  receipts: Receipt[];
+  purchases: Bill[];
+  isOpen: boolean;
+}
+
+interface PurchaseOrderDetailClientProps {
+  canWrite: boolean;
+  canReceive: boolean;
+  order: PurchaseOrder;
+}
+
+const MATCH_LABELS: Record<NonNullable<Bill['matchStatus']>, string> = {
+  MATCHED: 'Matched',
+  VARIANCE: 'Variance',
+  ACCEPTED: 'Variance accepted',
+};
+
+const MATCH_STYLES: Record<NonNullable<Bill['matchStatus']>, string> = {
+  MATCHED: 'bg-green-100 text-green-800',
+  VARIANCE: 'bg-red-100 text-red-800',
+  ACCEPTED: 'bg-yellow-100 text-yellow-800',
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+export default function PurchaseOrderDetailClient({
+  canWrite,
+  canReceive,
+  order,
+}: PurchaseOrderDetailClientProps) {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const lineName = (lineId: string) =>
+    order.lines.find((line) => line.id === lineId)?.stockItem.name ?? 'Item';
+
+  const handleStatus = async (action: 'ISSUE' | 'CLOSE' | 'CANCEL') => {
+    const prompt =
+      action === 'ISSUE'
+        ? `Issue PO #${order.poNo} to ${order.supplierVendor.name}?`
+        : action === 'CANCEL'
+          ? `Cancel PO #${order.poNo}?`
+          : `Close PO #${order.poNo}? No further goods can be received against it.`;
+    if (!confirm(prompt)) return;
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update purchase order');
+      }
+    } catch {
+      alert('An error occurred while updating the purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-8 gap-y-3 text-sm">
+            <div>
+              <div className="text-gray-500">Supplier</div>
+              <div className="font-medium">{order.supplierVendor.name}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Project</div>
+              <Link href={`/dashboard/projects/${order.project.id}`} className="text-blue-600 hover:text-blue-800">
+                {order.project.name}
+              </Link>
+            </div>
+            <div>
+              <div className="text-gray-500">Order date</div>
+              <div>{formatDate(order.orderDate)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Expected delivery</div>
+              <div>{order.expectedDate ? formatDate(order.expectedDate) : '-'}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Status</div>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${PO_STATUS_STYLES[order.status]}`}>
+                {PO_STATUS_LABELS[order.status]}
+              </span>
+            </div>
+            <div>
+              <div className="text-gray-500">Value</div>
+              <div className="font-medium">{toMoney(order.total)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Raised by</div>
+              <div>{order.createdBy.name}</div>
+            </div>
+            {order.closedAt && (
+              <div>
+                <div className="text-gray-500">{order.status === 'CANCELLED' ? 'Cancelled' : 'Closed'}</div>
+                <div>{formatDate(order.closedAt)}</div>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canReceive && order.isOpen && (
+              <Link
+                href={`/dashboard/stock/receive?purchaseOrderId=${order.id}`}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                Receive Goods
+              </Link>
+            )}
+            {canWrite && order.status === 'DRAFT' && (
+              <>
+                <button
+                  onClick={() => handleStatus('ISSUE')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  Issue Order
+                </button>
+                <button
+                  onClick={() => handleStatus('CANCEL')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50 text-sm disabled:opacity-50"
+                >
+                  Cancel Draft
+                </button>
+              </>
+            )}
+            {canWrite && order.status !== 'CANCELLED' && order.status !== 'DRAFT' && (
+              <Link
+                href={`/dashboard/purchases/new?purchaseOrderId=${order.id}`}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 text-sm"
+              >
+                Record Supplier Bill
+              </Link>
+            )}
+            {canWrite && order.isOpen && (
+              <button
+                onClick={() => handleStatus(order.receipts.length > 0 || order.purchases.length > 0 ? 'CLOSE' : 'CANCEL')}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50 text-sm disabled:opacity-50"
+              >
+                {order.receipts.length > 0 || order.purchases.length > 0 ? 'Close Order' : 'Cancel Order'}
+              </button>
+            )}
+          </div>
+        </div>
+        {order.notes && <p className="mt-4 text-sm text-gray-600">{order.notes}</p>}
+      </div>
+
+      {/* Lines and delivery schedule */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 font-medium">Items and delivery schedule</div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Material</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Deliver by</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Agreed rate</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Billed</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {order.lines.map((line) => (
+              <tr key={line.id}>
+                <td className="px-4 py-2 text-sm">
+                  {line.stockItem.name} ({line.stockItem.unit})
+                  {line.notes && <div className="text-xs text-gray-500">{line.notes}</div>}
+                </td>
+                <td className={`px-4 py-2 text-sm whitespace-nowrap ${line.isOverdue ? 'text-red-600 font-medium' : ''}`}>
+                  {line.deliveryDate ? formatDate(line.deliveryDate) : '-'}
+                  {line.isOverdue && <span className="ml-1 text-xs">(overdue)</span>}
+                </td>
+                <td className="px-4 py-2 text-sm text-right">{formatQty(line.qtyOrdered)}</td>
+                <td className="px-4 py-2 text-sm text-right">{toMoney(line.agreedRate)}</td>
+                <td className="px-4 py-2 text-sm text-right">{formatQty(line.qtyReceived)}</td>
+                <td
+                  className={`px-4 py-2 text-sm text-right ${line.qtyBilled > line.qtyReceived ? 'text-red-600 font-medium' : ''}`}
+                >
+                  {formatQty(line.qtyBilled)}
+                </td>
+                <td className="px-4 py-2 text-sm text-right">{formatQty(line.qtyOutstanding)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Goods receipts */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 font-medium">Goods receipts</div>
+        {order.receipts.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-500">Nothing received yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">GRN</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Challan</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Items</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Received by</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {order.receipts.map((receipt) => (
+                <tr key={receipt.id}>
+                  <td className="px-4 py-2 text-sm">#{receipt.grnNo}</td>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(receipt.receiptDate)}</td>
+                  <td className="px-4 py-2 text-sm">{receipt.challanNo || '-'}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {receipt.lines
+                      .map((line) => `${lineName(line.purchaseOrderLineId)} ${formatQty(line.qty)}`)
+                      .join(', ')}
+                  </td>
+                  <td className="px-4 py-2 text-sm">{receipt.receivedBy.name}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Supplier bills */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 font-medium">Supplier bills</div>
+        {order.purchases.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-gray-500">No bills recorded against this order</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Challan</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Total</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Three-way match</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {order.purchases.map((bill) => (
+                <tr key={bill.id}>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">
+                    <Link href={`/dashboard/purchases/${bill.id}`} className="text-blue-600 hover:text-blue-800">
+                      {formatDate(bill.date)}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{bill.challanNo || '-'}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(bill.total)}</td>
+                  <td className="px-4 py-2 text-sm">{bill.status}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {bill.matchStatus ? (
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${MATCH_STYLES[bill.matchStatus]}`}>
+                        {MATCH_LABELS[bill.matchStatus]}
+                      </span>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
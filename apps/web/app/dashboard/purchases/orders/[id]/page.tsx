@@ -0,0 +1,49 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getPurchaseOrder } from '@/lib/purchases/purchaseOrders.server';
+import DashboardLayout from '../../../components/DashboardLayout';
+import PurchaseOrderDetailClient from './components/PurchaseOrderDetailClient';
+
+export default async function PurchaseOrderDetailPage({ params }: { params: { id: string } }) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('purchases', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  let order;
+  try {
+    order = await getPurchaseOrder(auth.companyId, params.id);
+  } catch {
+    redirect('/dashboard/purchases/orders');
+  }
+
+  return (
+    <DashboardLayout title={`Purchase Order #${order.poNo}`}>
+      <PurchaseOrderDetailClient
+        canWrite={can(auth.role, 'purchases', 'WRITE')}
+        canReceive={can(auth.role, 'stock', 'WRITE')}
+        order={{
+          ...order,
+          orderDate: order.orderDate.toISOString(),
+          expectedDate: order.expectedDate?.toISOString() ?? null,
+          closedAt: order.closedAt?.toISOString() ?? null,
+          lines: order.lines.map((line) => ({
+            ...line,
+            deliveryDate: line.deliveryDate?.toISOString() ?? null,
+          })),
+          receipts: order.receipts.map((receipt) => ({
+            ...receipt,
+            receiptDate: receipt.receiptDate.toISOString(),
+          })),
+          purchases: order.purchases.map((purchase) => ({
+            ...purchase,
+            date: purchase.date.toISOString(),
+          })),
+        }}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,471 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+type PurchaseOrderStatus = 'DRAFT' | 'OPEN' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CLOSED' | 'CANCELLED';
+
+interface PurchaseOrder {
+  id: string;
+  poNo: number;
+  status: PurchaseOrderStatus;
+  project: Option;
+  supplierVendor: Option;
+  orderDate: string;
+  expectedDate: string | null;
+  total: number;
+  receivedValue: number;
+  overdueLines: number;
+  lineCount: number;
+  isOpen: boolean;
+}
+
+interface PurchaseOrdersClientProps {
+  canWrite: boolean;
+  projects: Option[];
+  suppliers: Option[];
+  stockItems: StockItem[];
+  orders: PurchaseOrder[];
+}
+
+export const PO_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'Draft',
+  OPEN: 'Open',
+  PARTIALLY_RECEIVED: 'Partially received',
+  RECEIVED: 'Received',
+  CLOSED: 'Closed',
+  CANCELLED: 'Cancelled',
+};
+
+export const PO_STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-800',
+  OPEN: 'bg-blue-100 text-blue-800',
+  PARTIALLY_RECEIVED: 'bg-indigo-100 text-indigo-800',
+  RECEIVED: 'bg-green-100 text-green-800',
+  CLOSED: 'bg-gray-100 text-gray-700',
+  CANCELLED: 'bg-gray-100 text-gray-500',
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyLine = { stockItemId: '', qtyOrdered: '', agreedRate: '', deliveryDate: '' };
+
+export default function PurchaseOrdersClient({
+  canWrite,
+  projects,
+  suppliers,
+  stockItems,
+  orders,
+}: PurchaseOrdersClientProps) {
+  const router = useRouter();
+  const [statusFilter, setStatusFilter] = useState('OPEN');
+  const [supplierFilter, setSupplierFilter] = useState('');
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [supplierVendorId, setSupplierVendorId] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [orderDate, setOrderDate] = useState(today());
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState([{ ...emptyLine }]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = orders.filter(
+    (o) =>
+      (statusFilter === '' || (statusFilter === 'OPEN' ? o.isOpen : o.status === statusFilter)) &&
+      (!supplierFilter || o.supplierVendor.id === supplierFilter)
+  );
+  const openOrders = orders.filter((o) => o.isOpen);
+  const openValue = openOrders.reduce((sum, o) => sum + o.total - o.receivedValue, 0);
+  const overdueCount = openOrders.filter((o) => o.overdueLines > 0).length;
+  const orderTotal = lines.reduce(
+    (sum, line) => sum + (parseFloat(line.qtyOrdered) || 0) * (parseFloat(line.agreedRate) || 0),
+    0
+  );
+
+  const openCreate = () => {
+    setSupplierVendorId('');
+    setProjectId('');
+    setOrderDate(today());
+    setExpectedDate('');
+    setNotes('');
+    setLines([{ ...emptyLine }]);
+    setError(null);
+    setShowCreate(true);
+  };
+
+  const updateLine = (index: number, field: keyof typeof emptyLine, value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/purchase-orders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          supplierVendorId,
+          projectId,
+          orderDate,
+          expectedDate: expectedDate || null,
+          notes: notes || null,
+          lines: lines
+            .filter((line) => line.stockItemId)
+            .map((line) => ({
+              stockItemId: line.stockItemId,
+              qtyOrdered: parseFloat(line.qtyOrdered) || 0,
+              agreedRate: parseFloat(line.agreedRate) || 0,
+              deliveryDate: line.deliveryDate || expectedDate || null,
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowCreate(false);
+        router.push(`/dashboard/purchases/orders/${data.data.id}`);
+      } else {
+        setError(data.error || 'Failed to create purchase order');
+      }
+    } catch {
+      setError('An error occurred while creating the purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Open orders</div>
+          <div className="text-2xl font-bold">{openOrders.length}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Value still to be received</div>
+          <div className="text-2xl font-bold">{toMoney(openValue)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Orders with overdue deliveries</div>
+          <div className="text-2xl font-bold text-red-600">{overdueCount}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="OPEN">Awaiting delivery</option>
+            <option value="">All statuses</option>
+            {(Object.keys(PO_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {PO_STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={supplierFilter}
+            onChange={(e) => setSupplierFilter(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">All suppliers</option>
+            {suppliers.map((supplier) => (
+              <option key={supplier.id} value={supplier.id}>
+                {supplier.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {canWrite && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Purchase Order
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">PO</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expected</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No purchase orders
+                </td>
+              </tr>
+            ) : (
+              visible.map((order) => (
+                <tr key={order.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm">
+                    <Link
+                      href={`/dashboard/purchases/orders/${order.id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      PO #{order.poNo}
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      {order.lineCount} item{order.lineCount === 1 ? '' : 's'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(order.orderDate)}</td>
+                  <td className="px-4 py-2 text-sm">{order.supplierVendor.name}</td>
+                  <td className="px-4 py-2 text-sm">{order.project.name}</td>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">
+                    {order.expectedDate ? formatDate(order.expectedDate) : '-'}
+                    {order.overdueLines > 0 && (
+                      <div className="text-xs text-red-600">
+                        {order.overdueLines} line{order.overdueLines === 1 ? '' : 's'} overdue
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(order.total)}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {order.total > 0 ? Math.round((order.receivedValue / order.total) * 100) : 0}%
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${PO_STATUS_STYLES[order.status]}`}>
+                      {PO_STATUS_LABELS[order.status]}
+                    </span>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New purchase order modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Purchase Order</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Supplier *</label>
+                  <select
+                    required
+                    value={supplierVendorId}
+                    onChange={(e) => setSupplierVendorId(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Select supplier...</option>
+                    {suppliers.map((supplier) => (
+                      <option key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Project *</label>
+                  <select
+                    required
+                    value={projectId}
+                    onChange={(e) => setProjectId(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Select project...</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Order date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={orderDate}
+                    onChange={(e) => setOrderDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expected delivery</label>
+                  <input
+                    type="date"
+                    value={expectedDate}
+                    min={orderDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">Items and delivery schedule</div>
+                <table className="min-w-full">
+                  <thead>
+                    <tr>
+                      <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                      <th className="py-1 text-right text-xs font-medium text-gray-500">Qty</th>
+                      <th className="py-1 text-right text-xs font-medium text-gray-500">Agreed rate</th>
+                      <th className="py-1 text-left text-xs font-medium text-gray-500">Deliver by</th>
+                      <th className="py-1 text-right text-xs font-medium text-gray-500">Amount</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map((line, index) => (
+                      <tr key={index}>
+                        <td className="py-1 pr-2">
+                          <select
+                            value={line.stockItemId}
+                            onChange={(e) => updateLine(index, 'stockItemId', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                          >
+                            <option value="">Select material...</option>
+                            {stockItems
+                              .filter(
+                                (item) =>
+                                  item.id === line.stockItemId ||
+                                  !lines.some((other) => other.stockItemId === item.id)
+                              )
+                              .map((item) => (
+                                <option key={item.id} value={item.id}>
+                                  {item.name} ({item.unit})
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td className="py-1 px-2 w-28">
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0.001"
+                            required={!!line.stockItemId}
+                            value={line.qtyOrdered}
+                            onChange={(e) => updateLine(index, 'qtyOrdered', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-1 px-2 w-32">
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            required={!!line.stockItemId}
+                            value={line.agreedRate}
+                            onChange={(e) => updateLine(index, 'agreedRate', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-1 px-2 w-40">
+                          <input
+                            type="date"
+                            min={orderDate}
+                            value={line.deliveryDate}
+                            placeholder={expectedDate}
+                            onChange={(e) => updateLine(index, 'deliveryDate', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-1 px-2 text-sm text-right whitespace-nowrap">
+                          {toMoney((parseFloat(line.qtyOrdered) || 0) * (parseFloat(line.agreedRate) || 0))}
+                        </td>
+                        <td className="py-1 text-right">
+                          {lines.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                              className="text-sm text-red-600 hover:text-red-800"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="flex items-center justify-between mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setLines([...lines, { ...emptyLine }])}
+                    disabled={lines.length >= stockItems.length}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    + Add material
+                  </button>
+                  <div className="text-sm font-medium">Total: {toMoney(orderTotal)}</div>
+                </div>
+                <p className="mt-1 text-xs text-gray-500">
+                  Lines without a delivery date are due on the expected delivery date.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreate(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : 'Create Order'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
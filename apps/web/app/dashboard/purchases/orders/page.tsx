@@ -0,0 +1,60 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listPurchaseOrders } from '@/lib/purchases/purchaseOrders.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import PurchaseOrdersClient from './components/PurchaseOrdersClient';
+
+export default async function PurchaseOrdersPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('purchases', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [orders, projects, suppliers, stockItems] = await Promise.all([
+    listPurchaseOrders(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.vendor.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true, unit: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Purchase Orders">
+      <PurchaseOrdersClient
+        canWrite={can(auth.role, 'purchases', 'WRITE')}
+        projects={projects}
+        suppliers={suppliers}
+        stockItems={stockItems}
+        orders={orders.map((order) => ({
+          id: order.id,
+          poNo: order.poNo,
+          status: order.status,
+          project: order.project,
+          supplierVendor: order.supplierVendor,
+          orderDate: order.orderDate.toISOString(),
+          expectedDate: order.expectedDate?.toISOString() ?? null,
+          total: order.total,
+          receivedValue: order.lines.reduce((sum, line) => sum + line.qtyReceived * line.agreedRate, 0),
+          overdueLines: order.lines.filter((line) => line.isOverdue).length,
+          lineCount: order.lines.length,
+          isOpen: order.isOpen,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
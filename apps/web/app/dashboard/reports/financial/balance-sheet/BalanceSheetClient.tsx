@@ -26,6 +26,7 @@ interface BalanceSheetClientProps {
     }>;
     totalAssets: number;
     totalLiabilities: number;
+    currentEarnings: number;
     totalEquity: number;
     totalLiabilitiesAndEquity: number;
     difference: number;
@@ -192,7 +193,7 @@ export default function BalanceSheetClient({
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {initialData.equity.length === 0 ? (
+                  {initialData.equity.length === 0 && initialData.currentEarnings === 0 ? (
                     <tr>
                       <td colSpan={2} className="px-6 py-4 text-center text-sm text-gray-500">
                         No equity accounts with balance
@@ -211,6 +212,17 @@ export default function BalanceSheetClient({
                       </tr>
                     ))
                   )}
+                  {initialData.currentEarnings !== 0 && (
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">Current Earnings</div>
+                        <div className="text-gray-500">Profit not yet closed to retained earnings</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                        {toMoney(initialData.currentEarnings)}
+                      </td>
+                    </tr>
+                  )}
                 </tbody>
                 <tfoot className="bg-gray-50">
                   <tr className="font-medium">
@@ -0,0 +1,396 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Statement {
+  id: string;
+  statementDate: string;
+  closingBalance: number;
+  fileName: string | null;
+  importedBy: string;
+  createdAt: string;
+  lineCount: number;
+  matchedCount: number;
+}
+
+interface BankReconciliationClientProps {
+  availableAccounts: Array<{ id: string; code: string; name: string }>;
+  selectedAccountId: string;
+  canWrite: boolean;
+  statements: Statement[];
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const emptyMapping = {
+  dateColumn: '',
+  descriptionColumn: '',
+  referenceColumn: '',
+  amountColumn: '',
+  depositColumn: '',
+  withdrawalColumn: '',
+  balanceColumn: '',
+};
+
+const mappingFields: Array<{ key: keyof typeof emptyMapping; label: string; hint?: string }> = [
+  { key: 'dateColumn', label: 'Date *' },
+  { key: 'descriptionColumn', label: 'Description' },
+  { key: 'referenceColumn', label: 'Reference / Cheque No' },
+  { key: 'amountColumn', label: 'Amount (signed)', hint: 'Positive = deposit' },
+  { key: 'depositColumn', label: 'Deposit / Credit' },
+  { key: 'withdrawalColumn', label: 'Withdrawal / Debit' },
+  { key: 'balanceColumn', label: 'Running Balance' },
+];
+
+export default function BankReconciliationClient({
+  availableAccounts,
+  selectedAccountId,
+  canWrite,
+  statements,
+}: BankReconciliationClientProps) {
+  const router = useRouter();
+  const [showImport, setShowImport] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[] | null>(null);
+  const [mapping, setMapping] = useState(emptyMapping);
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [closingBalance, setClosingBalance] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const selectedAccount = availableAccounts.find((a) => a.id === selectedAccountId);
+
+  const resetImport = () => {
+    setShowImport(false);
+    setFile(null);
+    setHeaders(null);
+    setMapping(emptyMapping);
+    setClosingBalance('');
+    setOpeningBalance('');
+    setError(null);
+  };
+
+  const guessColumn = (fileHeaders: string[], patterns: RegExp[]) =>
+    fileHeaders.find((header) => patterns.some((pattern) => pattern.test(header))) || '';
+
+  const handleUpload = async () => {
+    if (!file) {
+      setError('Please select a file');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/bank-reconciliation/statements', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to read file');
+        return;
+      }
+      const fileHeaders: string[] = data.data.headers;
+      setHeaders(fileHeaders);
+      setMapping({
+        dateColumn: guessColumn(fileHeaders, [/date/i]),
+        descriptionColumn: guessColumn(fileHeaders, [/desc/i, /particular/i, /narration/i]),
+        referenceColumn: guessColumn(fileHeaders, [/ref/i, /cheque/i, /chq/i]),
+        amountColumn: guessColumn(fileHeaders, [/^amount$/i]),
+        depositColumn: guessColumn(fileHeaders, [/deposit/i, /^credit/i]),
+        withdrawalColumn: guessColumn(fileHeaders, [/withdraw/i, /^debit/i]),
+        balanceColumn: guessColumn(fileHeaders, [/balance/i]),
+      });
+    } catch (err) {
+      setError('An error occurred while reading the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    if (closingBalance === '' || isNaN(parseFloat(closingBalance))) {
+      setError('Closing balance per bank statement is required');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      const options = {
+        accountId: selectedAccountId,
+        statementDate,
+        closingBalance: parseFloat(closingBalance),
+        openingBalance: openingBalance === '' ? null : parseFloat(openingBalance),
+        ...Object.fromEntries(
+          Object.entries(mapping).map(([key, value]) => [key, value || null])
+        ),
+      };
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('options', JSON.stringify(options));
+      const response = await fetch('/api/bank-reconciliation/statements', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to import statement');
+        return;
+      }
+      setResult(
+        `Imported ${data.data.lineCount} lines, ${data.data.matchedCount} matched automatically.`
+      );
+      resetImport();
+      router.push(`/dashboard/reports/financial/bank-reconciliation/${data.data.id}`);
+    } catch (err) {
+      setError('An error occurred while importing the statement');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (statement: Statement) => {
+    if (!confirm(`Delete the statement dated ${formatDate(statement.statementDate)}? Matches will be removed.`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/bank-reconciliation/statements/${statement.id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        alert(data.error || 'Failed to delete statement');
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      alert('An error occurred while deleting the statement');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 flex flex-wrap items-end justify-between gap-4">
+        <div className="w-full md:w-80">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Bank Account</label>
+          <select
+            value={selectedAccountId}
+            onChange={(e) =>
+              router.push(`/dashboard/reports/financial/bank-reconciliation?accountId=${e.target.value}`)
+            }
+            className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            {availableAccounts.map((acc) => (
+              <option key={acc.id} value={acc.id}>
+                {acc.code} - {acc.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {canWrite && !showImport && (
+          <button
+            onClick={() => {
+              setShowImport(true);
+              setResult(null);
+            }}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Import Statement
+          </button>
+        )}
+      </div>
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-800 text-sm">
+          {result}
+        </div>
+      )}
+
+      {showImport && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">
+            Import Statement{selectedAccount ? ` — ${selectedAccount.code} ${selectedAccount.name}` : ''}
+          </h3>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">
+              {error}
+            </div>
+          )}
+
+          {!headers ? (
+            <div className="flex flex-wrap items-center gap-4">
+              <input
+                type="file"
+                accept=".csv,.xlsx,.xls"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="text-sm"
+              />
+              <button
+                onClick={handleUpload}
+                disabled={!file || isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Reading...' : 'Next: Map Columns'}
+              </button>
+              <button onClick={resetImport} className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50">
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Statement Date *</label>
+                  <input
+                    type="date"
+                    value={statementDate}
+                    onChange={(e) => setStatementDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Opening Balance</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={openingBalance}
+                    onChange={(e) => setOpeningBalance(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Closing Balance per Bank *</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={closingBalance}
+                    onChange={(e) => setClosingBalance(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                Map either a signed amount column or the deposit and withdrawal columns.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {mappingFields.map((field) => (
+                  <div key={field.key}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {field.label}
+                      {field.hint && <span className="ml-1 text-xs text-gray-500">({field.hint})</span>}
+                    </label>
+                    <select
+                      value={mapping[field.key]}
+                      onChange={(e) => setMapping({ ...mapping, [field.key]: e.target.value })}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      <option value="">-- Not mapped --</option>
+                      {headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setHeaders(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Back
+                </button>
+                <button
+                  onClick={handleImport}
+                  disabled={isWorking || !mapping.dateColumn}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Importing...' : 'Import & Auto-match'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Statement Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closing Balance</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Matched</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Imported</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {statements.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No statements imported for this account yet
+                </td>
+              </tr>
+            ) : (
+              statements.map((statement) => (
+                <tr key={statement.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {formatDate(statement.statementDate)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{statement.fileName || '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium">
+                    {toMoney(statement.closingBalance)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                    <span
+                      className={
+                        statement.matchedCount === statement.lineCount
+                          ? 'text-green-700 font-medium'
+                          : 'text-yellow-700 font-medium'
+                      }
+                    >
+                      {statement.matchedCount} / {statement.lineCount}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {statement.importedBy} · {formatDate(statement.createdAt)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right space-x-3">
+                    <Link
+                      href={`/dashboard/reports/financial/bank-reconciliation/${statement.id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Reconcile
+                    </Link>
+                    {canWrite && (
+                      <button
+                        onClick={() => handleDelete(statement)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
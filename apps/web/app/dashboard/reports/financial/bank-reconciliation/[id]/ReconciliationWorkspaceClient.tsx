@@ -0,0 +1,552 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface BookEntry {
+  voucherLineId: string;
+  voucherId: string;
+  voucherNo: string;
+  voucherStatus: string;
+  date: string | Date;
+  narration: string | null;
+  description: string | null;
+  amount: number;
+}
+
+interface StatementLine {
+  id: string;
+  date: string | Date;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+  balance: number | null;
+  matchMethod: string | null;
+  voucherLine: {
+    id: string;
+    description: string | null;
+    voucher: { id: string; voucherNo: string; status: string; date: string | Date };
+  } | null;
+}
+
+interface ReconciliationWorkspaceClientProps {
+  workspace: {
+    id: string;
+    account: { id: string; code: string; name: string };
+    statementDate: string | Date;
+    openingBalance: number | null;
+    closingBalance: number;
+    fileName: string | null;
+    lines: StatementLine[];
+    unmatchedBookEntries: BookEntry[];
+  };
+  reconciliation: {
+    bankBalance: number;
+    bookBalance: number;
+    depositsInTransit: BookEntry[];
+    outstandingPayments: BookEntry[];
+    unrecordedBankLines: Array<{ id: string; amount: number }>;
+    adjustedBankBalance: number;
+    adjustedBookBalance: number;
+    difference: number;
+  };
+  accounts: Array<{ id: string; code: string; name: string }>;
+  projects: Array<{ id: string; name: string }>;
+  canWrite: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export default function ReconciliationWorkspaceClient({
+  workspace,
+  reconciliation,
+  accounts,
+  projects,
+  canWrite,
+}: ReconciliationWorkspaceClientProps) {
+  const router = useRouter();
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [matchingLine, setMatchingLine] = useState<StatementLine | null>(null);
+  const [voucherLine, setVoucherLine] = useState<StatementLine | null>(null);
+  const [voucherForm, setVoucherForm] = useState({ contraAccountId: '', narration: '', projectId: '' });
+  const [modalError, setModalError] = useState<string | null>(null);
+
+  const matched = workspace.lines.filter((line) => line.voucherLine);
+  const unmatched = workspace.lines.filter((line) => !line.voucherLine);
+
+  const post = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    return response.json();
+  };
+
+  const handleAutoMatch = async () => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const data = await post(`/api/bank-reconciliation/statements/${workspace.id}/auto-match`, 'POST', {});
+      if (!data.ok) {
+        alert(data.error || 'Auto-match failed');
+        return;
+      }
+      setMessage(`${data.data.matchedCount} line(s) matched automatically.`);
+      router.refresh();
+    } catch (err) {
+      alert('An error occurred during auto-match');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMatch = async (entry: BookEntry) => {
+    if (!matchingLine) return;
+    setIsWorking(true);
+    setModalError(null);
+    try {
+      const data = await post(`/api/bank-reconciliation/lines/${matchingLine.id}/match`, 'POST', {
+        voucherLineId: entry.voucherLineId,
+      });
+      if (!data.ok) {
+        setModalError(data.error || 'Failed to match');
+        return;
+      }
+      setMatchingLine(null);
+      router.refresh();
+    } catch (err) {
+      setModalError('An error occurred while matching');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnmatch = async (line: StatementLine) => {
+    if (!confirm('Remove this match?')) return;
+    try {
+      const data = await post(`/api/bank-reconciliation/lines/${line.id}/match`, 'DELETE');
+      if (!data.ok) {
+        alert(data.error || 'Failed to unmatch');
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      alert('An error occurred while unmatching');
+    }
+  };
+
+  const handleCreateVoucher = async () => {
+    if (!voucherLine) return;
+    if (!voucherForm.contraAccountId) {
+      setModalError('Account is required');
+      return;
+    }
+    setIsWorking(true);
+    setModalError(null);
+    try {
+      const data = await post(`/api/bank-reconciliation/lines/${voucherLine.id}/voucher`, 'POST', {
+        contraAccountId: voucherForm.contraAccountId,
+        narration: voucherForm.narration || null,
+        projectId: voucherForm.projectId || null,
+      });
+      if (!data.ok) {
+        setModalError(data.error || 'Failed to create voucher');
+        return;
+      }
+      setVoucherLine(null);
+      setMessage(`Draft voucher ${data.data.voucherNo} created. Submit and post it to clear the line.`);
+      router.refresh();
+    } catch (err) {
+      setModalError('An error occurred while creating the voucher');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const matchCandidates = matchingLine
+    ? workspace.unmatchedBookEntries
+        .filter((entry) => Math.abs(entry.amount - matchingLine.amount) < 0.005)
+        .sort(
+          (a, b) =>
+            Math.abs(new Date(a.date).getTime() - new Date(matchingLine.date).getTime()) -
+            Math.abs(new Date(b.date).getTime() - new Date(matchingLine.date).getTime())
+        )
+    : [];
+
+  const summaryRows: Array<{ label: string; value: number; bold?: boolean }> = [
+    { label: 'Balance per bank statement', value: reconciliation.bankBalance },
+    { label: 'Add: deposits in transit', value: sum(reconciliation.depositsInTransit.map((e) => e.amount)) },
+    { label: 'Less: outstanding cheques / payments', value: sum(reconciliation.outstandingPayments.map((e) => e.amount)) },
+    { label: 'Adjusted bank balance', value: reconciliation.adjustedBankBalance, bold: true },
+    { label: 'Balance per books', value: reconciliation.bookBalance },
+    { label: 'Add/(less): bank items not in books', value: sum(reconciliation.unrecordedBankLines.map((l) => l.amount)) },
+    { label: 'Adjusted book balance', value: reconciliation.adjustedBookBalance, bold: true },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link
+            href={`/dashboard/reports/financial/bank-reconciliation?accountId=${workspace.account.id}`}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            ← All statements
+          </Link>
+          <h2 className="text-xl font-semibold text-gray-900 mt-1">
+            {workspace.account.code} - {workspace.account.name} · {formatDate(workspace.statementDate)}
+          </h2>
+          {workspace.fileName && <p className="text-sm text-gray-500">{workspace.fileName}</p>}
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => window.open(`/print/bank-reconciliation/${workspace.id}`, '_blank')}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+          >
+            Print Statement
+          </button>
+          {canWrite && (
+            <button
+              onClick={handleAutoMatch}
+              disabled={isWorking || unmatched.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              Auto-match
+            </button>
+          )}
+        </div>
+      </div>
+
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-green-800 text-sm">{message}</div>
+      )}
+
+      {/* Reconciliation summary */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white border border-gray-200 rounded-lg p-4 lg:col-span-2">
+          <h3 className="text-lg font-medium text-gray-900 mb-3">Reconciliation Statement</h3>
+          <table className="min-w-full text-sm">
+            <tbody>
+              {summaryRows.map((row) => (
+                <tr key={row.label} className={row.bold ? 'border-t border-gray-300' : ''}>
+                  <td className={`py-1 ${row.bold ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>{row.label}</td>
+                  <td className={`py-1 text-right ${row.bold ? 'font-semibold' : ''}`}>{toMoney(row.value)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div
+          className={`rounded-lg p-4 border ${
+            Math.abs(reconciliation.difference) < 0.005
+              ? 'bg-green-50 border-green-200'
+              : 'bg-red-50 border-red-200'
+          }`}
+        >
+          <div className="text-sm text-gray-600">Difference</div>
+          <div className="text-2xl font-bold">{toMoney(reconciliation.difference)}</div>
+          <div className="text-sm text-gray-600 mt-2">
+            {matched.length} of {workspace.lines.length} statement lines matched
+          </div>
+          {Math.abs(reconciliation.difference) < 0.005 ? (
+            <div className="text-sm text-green-800 mt-1">Bank and books reconcile.</div>
+          ) : (
+            <div className="text-sm text-red-800 mt-1">
+              Check the closing balance, unmatched lines and entries dated after the statement.
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Unmatched statement lines */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Unmatched Statement Lines ({unmatched.length})</h3>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Deposit</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Withdrawal</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {unmatched.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500">
+                  All statement lines are matched
+                </td>
+              </tr>
+            ) : (
+              unmatched.map((line) => (
+                <tr key={line.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 whitespace-nowrap text-sm">{formatDate(line.date)}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{line.description || '-'}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{line.reference || '-'}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.amount > 0 ? toMoney(line.amount) : ''}</td>
+                  <td className="px-4 py-2 text-sm text-right">{line.amount < 0 ? toMoney(-line.amount) : ''}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right space-x-3">
+                    {canWrite && (
+                      <>
+                        <button
+                          onClick={() => {
+                            setModalError(null);
+                            setMatchingLine(line);
+                          }}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Match
+                        </button>
+                        <button
+                          onClick={() => {
+                            setModalError(null);
+                            setVoucherForm({ contraAccountId: '', narration: line.description || '', projectId: '' });
+                            setVoucherLine(line);
+                          }}
+                          className="text-green-600 hover:text-green-800"
+                        >
+                          Create Voucher
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Matched statement lines */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Matched Statement Lines ({matched.length})</h3>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Description</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Method</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {matched.map((line) => (
+              <tr key={line.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2 whitespace-nowrap text-sm">{formatDate(line.date)}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {line.description || '-'}
+                  {line.reference && <span className="ml-1 text-gray-500">({line.reference})</span>}
+                </td>
+                <td className="px-4 py-2 text-sm text-right">{toMoney(line.amount)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <Link
+                    href={`/dashboard/vouchers/${line.voucherLine!.voucher.id}`}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    {line.voucherLine!.voucher.voucherNo}
+                  </Link>
+                  <span className="ml-2 text-gray-500">{formatDate(line.voucherLine!.voucher.date)}</span>
+                  {!['POSTED', 'REVERSED'].includes(line.voucherLine!.voucher.status) && (
+                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                      {line.voucherLine!.voucher.status}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-600">{line.matchMethod}</td>
+                <td className="px-4 py-2 text-sm text-right">
+                  {canWrite && (
+                    <button onClick={() => handleUnmatch(line)} className="text-red-600 hover:text-red-800">
+                      Unmatch
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Book entries not on any statement */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">
+            Unmatched Book Entries ({workspace.unmatchedBookEntries.length})
+          </h3>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Narration</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {workspace.unmatchedBookEntries.map((entry) => (
+              <tr key={entry.voucherLineId} className="hover:bg-gray-50">
+                <td className="px-4 py-2 whitespace-nowrap text-sm">{formatDate(entry.date)}</td>
+                <td className="px-4 py-2 text-sm">
+                  <Link href={`/dashboard/vouchers/${entry.voucherId}`} className="text-blue-600 hover:text-blue-800">
+                    {entry.voucherNo}
+                  </Link>
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700">{entry.narration || entry.description || '-'}</td>
+                <td className="px-4 py-2 text-sm text-right">{entry.amount > 0 ? toMoney(entry.amount) : ''}</td>
+                <td className="px-4 py-2 text-sm text-right">{entry.amount < 0 ? toMoney(-entry.amount) : ''}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Manual match modal */}
+      {matchingLine && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl w-full mx-4">
+            <h3 className="text-lg font-medium text-gray-900 mb-1">Match Statement Line</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {formatDate(matchingLine.date)} · {matchingLine.description || matchingLine.reference || '-'} ·{' '}
+              {toMoney(matchingLine.amount)}
+            </p>
+            {modalError && (
+              <div className="bg-red-50 border border-red-200 rounded p-2 mb-3 text-sm text-red-800">{modalError}</div>
+            )}
+            {matchCandidates.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">
+                No posted entries with the same amount. Create a voucher instead.
+              </p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto border border-gray-200 rounded mb-4">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <tbody className="divide-y divide-gray-200">
+                    {matchCandidates.map((entry) => (
+                      <tr key={entry.voucherLineId}>
+                        <td className="px-3 py-2 whitespace-nowrap">{formatDate(entry.date)}</td>
+                        <td className="px-3 py-2">{entry.voucherNo}</td>
+                        <td className="px-3 py-2 text-gray-600">{entry.narration || entry.description || '-'}</td>
+                        <td className="px-3 py-2 text-right">{toMoney(entry.amount)}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            onClick={() => handleMatch(entry)}
+                            disabled={isWorking}
+                            className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          >
+                            Select
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="flex justify-end">
+              <button
+                onClick={() => setMatchingLine(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create voucher modal */}
+      {voucherLine && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-lg w-full mx-4 space-y-4">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">
+                Create {voucherLine.amount > 0 ? 'Receipt' : 'Payment'} Voucher
+              </h3>
+              <p className="text-sm text-gray-600">
+                {formatDate(voucherLine.date)} · {toMoney(Math.abs(voucherLine.amount))}{' '}
+                {voucherLine.amount > 0 ? 'into' : 'out of'} {workspace.account.name}
+              </p>
+            </div>
+            {modalError && (
+              <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-800">{modalError}</div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {voucherLine.amount > 0 ? 'Credit' : 'Debit'} Account *
+              </label>
+              <select
+                value={voucherForm.contraAccountId}
+                onChange={(e) => setVoucherForm({ ...voucherForm, contraAccountId: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">Select account</option>
+                {accounts.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.code} - {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+              <select
+                value={voucherForm.projectId}
+                onChange={(e) => setVoucherForm({ ...voucherForm, projectId: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              >
+                <option value="">No project</option>
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Narration</label>
+              <input
+                type="text"
+                value={voucherForm.narration}
+                onChange={(e) => setVoucherForm({ ...voucherForm, narration: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              The voucher is created as a draft and matched to this line; it counts in the books once posted.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setVoucherLine(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreateVoucher}
+                disabled={isWorking}
+                className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Creating...' : 'Create Draft Voucher'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
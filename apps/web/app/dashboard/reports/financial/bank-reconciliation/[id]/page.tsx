@@ -0,0 +1,61 @@
+import { notFound, redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import {
+  getReconciliationStatement,
+  getStatementWorkspace,
+} from '@/lib/accounting/bankReconciliation.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import ReconciliationWorkspaceClient from './ReconciliationWorkspaceClient';
+
+export default async function BankReconciliationWorkspacePage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const workspace = await getStatementWorkspace(auth.companyId, params.id);
+  if (!workspace) {
+    notFound();
+  }
+
+  const reconciliation = await getReconciliationStatement(auth.companyId, params.id);
+
+  // Accounts and projects for creating vouchers from unmatched statement lines
+  const [accounts, projects] = await Promise.all([
+    prisma.account.findMany({
+      where: {
+        companyId: auth.companyId,
+        isActive: true,
+        isSystem: true,
+        id: { not: workspace.account.id },
+      },
+      select: { id: true, code: true, name: true },
+      orderBy: { code: 'asc' },
+    }),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Bank Reconciliation">
+      <ReconciliationWorkspaceClient
+        workspace={workspace}
+        reconciliation={reconciliation}
+        accounts={accounts}
+        projects={projects}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+      />
+    </DashboardLayout>
+  );
+}
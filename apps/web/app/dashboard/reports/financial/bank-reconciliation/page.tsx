@@ -0,0 +1,59 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { findBankAccounts } from '@/lib/reports/ledger';
+import { listBankStatements } from '@/lib/accounting/bankReconciliation.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import BankReconciliationClient from './BankReconciliationClient';
+
+export default async function BankReconciliationPage({
+  searchParams,
+}: {
+  searchParams: { accountId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const bankAccounts = await findBankAccounts(auth.companyId);
+
+  if (bankAccounts.length === 0) {
+    return (
+      <DashboardLayout title="Bank Reconciliation">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-yellow-800">
+            No bank accounts found. Please create an account with "Bank" in the name.
+          </p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const selectedAccount =
+    bankAccounts.find((a) => a.id === searchParams.accountId) || bankAccounts[0];
+
+  const statements = await listBankStatements(auth.companyId, selectedAccount.id);
+
+  return (
+    <DashboardLayout title="Bank Reconciliation">
+      <BankReconciliationClient
+        availableAccounts={bankAccounts.map((a) => ({ id: a.id, code: a.code, name: a.name }))}
+        selectedAccountId={selectedAccount.id}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+        statements={statements.map((s) => ({
+          id: s.id,
+          statementDate: s.statementDate.toISOString(),
+          closingBalance: s.closingBalance,
+          fileName: s.fileName,
+          importedBy: s.importedBy.name,
+          createdAt: s.createdAt.toISOString(),
+          lineCount: s.lineCount,
+          matchedCount: s.matchedCount,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,406 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+type PeriodStatus = 'OPEN' | 'CLOSED' | 'LOCKED';
+
+interface AccountingPeriod {
+  id: string;
+  month: string | Date;
+  status: PeriodStatus;
+  closedAt: string | Date | null;
+  closedBy: { id: string; name: string } | null;
+  reopenedAt: string | Date | null;
+  reopenedBy: { id: string; name: string } | null;
+  reopenReason: string | null;
+  lockedAt: string | Date | null;
+}
+
+interface PeriodCloseClientProps {
+  periods: AccountingPeriod[];
+  changes: {
+    month: string | Date;
+    status: PeriodStatus;
+    baseline: { month: string | Date; closedAt: string | Date | null } | null;
+    accountChanges: Array<{
+      accountId: string;
+      accountCode: string;
+      accountName: string;
+      previousBalance: number;
+      currentBalance: number;
+      change: number;
+    }>;
+    vouchers: Array<{
+      id: string;
+      voucherNo: string;
+      date: string | Date;
+      status: string;
+      narration: string | null;
+      postedAt: string | Date | null;
+    }>;
+  };
+  selectedMonth: string;
+}
+
+const monthLabel = (month: string | Date) =>
+  new Date(month).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+const getStatusColor = (status: PeriodStatus) => {
+  switch (status) {
+    case 'CLOSED':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'LOCKED':
+      return 'bg-red-100 text-red-800';
+    default:
+      return 'bg-green-100 text-green-800';
+  }
+};
+
+export default function PeriodCloseClient({
+  periods,
+  changes,
+  selectedMonth,
+}: PeriodCloseClientProps) {
+  const router = useRouter();
+  const [month, setMonth] = useState(selectedMonth);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reopenPeriod, setReopenPeriod] = useState<AccountingPeriod | null>(null);
+  const [reopenReason, setReopenReason] = useState('');
+
+  const selectedPeriod = periods.find(
+    (p) => new Date(p.month).toISOString().substring(0, 7) === selectedMonth
+  );
+
+  const handleFilter = () => {
+    router.push(`/dashboard/reports/financial/period-close?month=${month}`);
+  };
+
+  const runAction = async (url: string, body?: unknown) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Action failed');
+        return false;
+      }
+      router.refresh();
+      return true;
+    } catch (err) {
+      setError('An error occurred while updating the period');
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (
+      !confirm(
+        `Close ${monthLabel(selectedMonth + '-01')}? Vouchers dated in this month can no longer be approved, posted or reversed into it.`
+      )
+    ) {
+      return;
+    }
+    await runAction('/api/accounting-periods', { month: selectedMonth });
+  };
+
+  const handleLock = async (period: AccountingPeriod) => {
+    if (!confirm(`Lock ${monthLabel(period.month)} permanently? A locked period cannot be reopened.`)) {
+      return;
+    }
+    await runAction(`/api/accounting-periods/${period.id}/lock`);
+  };
+
+  const handleReopen = async () => {
+    if (!reopenPeriod) return;
+    const done = await runAction(`/api/accounting-periods/${reopenPeriod.id}/reopen`, {
+      reason: reopenReason,
+    });
+    if (done) {
+      setReopenPeriod(null);
+      setReopenReason('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+            <input
+              type="month"
+              value={month}
+              onChange={(e) => setMonth(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Show Month
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Selected month */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{monthLabel(changes.month)}</h3>
+          <p className="mt-1">
+            <span
+              className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(changes.status)}`}
+            >
+              {changes.status}
+            </span>
+          </p>
+          {selectedPeriod?.reopenedAt && changes.status === 'OPEN' && (
+            <p className="text-sm text-gray-600 mt-2">
+              Reopened by {selectedPeriod.reopenedBy?.name} on{' '}
+              {new Date(selectedPeriod.reopenedAt).toLocaleString()}: {selectedPeriod.reopenReason}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-3">
+          {changes.status === 'OPEN' && (
+            <button
+              onClick={handleClose}
+              disabled={isWorking}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Working...' : 'Close Month'}
+            </button>
+          )}
+          {selectedPeriod && selectedPeriod.status === 'CLOSED' && (
+            <>
+              <button
+                onClick={() => setReopenPeriod(selectedPeriod)}
+                disabled={isWorking}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Reopen
+              </button>
+              <button
+                onClick={() => handleLock(selectedPeriod)}
+                disabled={isWorking}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+              >
+                Lock
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Changes since last close */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Changes Since Last Close</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            {changes.baseline
+              ? `Compared with the close of ${monthLabel(changes.baseline.month)}${
+                  changes.baseline.closedAt
+                    ? ` on ${new Date(changes.baseline.closedAt).toLocaleString()}`
+                    : ''
+                }`
+              : 'No earlier close found; showing all balances as of month end'}
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Account
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  At Last Close
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Current
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Change
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {changes.accountChanges.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No balance changes
+                  </td>
+                </tr>
+              ) : (
+                changes.accountChanges.map((row) => (
+                  <tr key={row.accountId} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {row.accountCode} - {row.accountName}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {toMoney(row.previousBalance)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {toMoney(row.currentBalance)}
+                    </td>
+                    <td
+                      className={`px-6 py-4 whitespace-nowrap text-sm font-medium text-right ${
+                        row.change < 0 ? 'text-red-600' : 'text-green-700'
+                      }`}
+                    >
+                      {toMoney(row.change)}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        {changes.vouchers.length > 0 && (
+          <div className="px-6 py-4 border-t border-gray-200">
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Vouchers behind these changes</h4>
+            <ul className="space-y-1">
+              {changes.vouchers.map((voucher) => (
+                <li key={voucher.id} className="text-sm text-gray-700">
+                  <Link
+                    href={`/dashboard/vouchers/${voucher.id}`}
+                    className="text-blue-600 hover:text-blue-900 font-medium"
+                  >
+                    {voucher.voucherNo}
+                  </Link>{' '}
+                  — {new Date(voucher.date).toLocaleDateString()} · {voucher.status}
+                  {voucher.narration ? ` · ${voucher.narration}` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {/* Period history */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Period History</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Month
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Last Closed
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Last Reopened
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {periods.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No periods have been closed yet
+                  </td>
+                </tr>
+              ) : (
+                periods.map((period) => (
+                  <tr key={period.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      <Link
+                        href={`/dashboard/reports/financial/period-close?month=${new Date(period.month)
+                          .toISOString()
+                          .substring(0, 7)}`}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        {monthLabel(period.month)}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(period.status)}`}
+                      >
+                        {period.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {period.closedAt
+                        ? `${period.closedBy?.name ?? '-'} on ${new Date(period.closedAt).toLocaleString()}`
+                        : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {period.reopenedAt
+                        ? `${period.reopenedBy?.name ?? '-'} on ${new Date(period.reopenedAt).toLocaleString()} (${period.reopenReason})`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Reopen Modal */}
+      {reopenPeriod && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">
+              Reopen {monthLabel(reopenPeriod.month)}
+            </h3>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <textarea
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              rows={3}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            />
+            <p className="text-xs text-gray-500 mt-1">The reason is recorded in the audit log.</p>
+            <div className="flex gap-3 justify-end pt-4">
+              <button
+                onClick={() => {
+                  setReopenPeriod(null);
+                  setReopenReason('');
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReopen}
+                disabled={isWorking}
+                className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Reopening...' : 'Confirm Reopen'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
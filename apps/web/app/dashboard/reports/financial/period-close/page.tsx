@@ -0,0 +1,43 @@
+import { redirect } from 'next/navigation';
+import { requireAdminServer } from '@/lib/rbac';
+import {
+  listAccountingPeriods,
+  getPeriodChanges,
+  formatPeriodMonth,
+} from '@/lib/accounting/periods.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import PeriodCloseClient from './PeriodCloseClient';
+
+export default async function PeriodClosePage({
+  searchParams,
+}: {
+  searchParams: { month?: string };
+}) {
+  let auth;
+  try {
+    auth = await requireAdminServer();
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  // Default to the previous month, which is the one usually being closed
+  const now = new Date();
+  const month = searchParams.month
+    ? new Date(searchParams.month + '-01')
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+
+  const [periods, changes] = await Promise.all([
+    listAccountingPeriods(auth.companyId),
+    getPeriodChanges(auth.companyId, month),
+  ]);
+
+  return (
+    <DashboardLayout title="Period Close">
+      <PeriodCloseClient
+        periods={periods}
+        changes={changes}
+        selectedMonth={formatPeriodMonth(month)}
+      />
+    </DashboardLayout>
+  );
+}
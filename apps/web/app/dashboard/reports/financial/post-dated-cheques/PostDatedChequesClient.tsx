@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface PostDatedChequesClientProps {
+  asOf: string;
+  direction: string;
+  byMonth: Array<{ month: string; outgoing: number; incoming: number }>;
+  totalOutgoing: number;
+  totalIncoming: number;
+  cheques: Array<{
+    id: string;
+    direction: 'OUTGOING' | 'INCOMING';
+    chequeNo: string;
+    bankName: string;
+    payee: string;
+    amount: number;
+    chequeDate: string;
+    status: string;
+    voucherId: string;
+    voucherNo: string;
+    projectName: string | null;
+  }>;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+export default function PostDatedChequesClient({
+  asOf,
+  direction,
+  byMonth,
+  totalOutgoing,
+  totalIncoming,
+  cheques,
+}: PostDatedChequesClientProps) {
+  const router = useRouter();
+  const [date, setDate] = useState(asOf);
+  const [dir, setDir] = useState(direction);
+
+  const handleFilter = () => {
+    const params = new URLSearchParams();
+    if (date) params.set('asOf', date);
+    if (dir) params.set('direction', dir);
+    router.push(`/dashboard/reports/financial/post-dated-cheques?${params.toString()}`);
+  };
+
+  const daysUntil = (value: string) =>
+    Math.ceil((new Date(value).getTime() - new Date(`${asOf}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Direction</label>
+            <select
+              value={dir}
+              onChange={(e) => setDir(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">All</option>
+              <option value="OUTGOING">Issued (outflows)</option>
+              <option value="INCOMING">Received (inflows)</option>
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Upcoming outflows</div>
+          <div className="text-2xl font-bold text-red-700">{toMoney(totalOutgoing)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Upcoming inflows</div>
+          <div className="text-2xl font-bold text-green-700">{toMoney(totalIncoming)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Net</div>
+          <div className="text-2xl font-bold">{toMoney(totalIncoming - totalOutgoing)}</div>
+        </div>
+      </div>
+
+      {byMonth.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Month</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outflows</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Inflows</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Net</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {byMonth.map((row) => (
+                <tr key={row.month}>
+                  <td className="px-4 py-2 text-sm font-medium">{formatMonth(row.month)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(row.outgoing)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(row.incoming)}</td>
+                  <td className="px-4 py-2 text-sm text-right font-medium">{toMoney(row.incoming - row.outgoing)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cheque Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Cheque</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Payee / Drawer</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outflow</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Inflow</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {cheques.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No post-dated cheques
+                </td>
+              </tr>
+            ) : (
+              cheques.map((cheque) => {
+                const days = daysUntil(cheque.chequeDate);
+                return (
+                  <tr key={cheque.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm whitespace-nowrap">
+                      {formatDate(cheque.chequeDate)}
+                      <span className={`ml-2 text-xs ${days <= 7 ? 'text-orange-600 font-medium' : 'text-gray-500'}`}>
+                        in {days} day{days === 1 ? '' : 's'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {cheque.chequeNo}
+                      <div className="text-xs text-gray-500">{cheque.bankName}</div>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{cheque.payee}</td>
+                    <td className="px-4 py-2 text-sm text-gray-700">{cheque.projectName || '-'}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link href={`/dashboard/vouchers/${cheque.voucherId}`} className="text-blue-600 hover:text-blue-800">
+                        {cheque.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {cheque.direction === 'OUTGOING' ? toMoney(cheque.amount) : ''}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {cheque.direction === 'INCOMING' ? toMoney(cheque.amount) : ''}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
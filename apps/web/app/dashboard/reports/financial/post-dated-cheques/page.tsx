@@ -0,0 +1,53 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getPostDatedCheques } from '@/lib/accounting/cheques.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import PostDatedChequesClient from './PostDatedChequesClient';
+
+export default async function PostDatedChequesPage({
+  searchParams,
+}: {
+  searchParams: { direction?: string; asOf?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOfDate = searchParams.asOf || new Date().toISOString().split('T')[0];
+  // Cheques dated after the end of the as-of day are post-dated
+  const asOf = new Date(`${asOfDate}T23:59:59.999Z`);
+  const direction =
+    searchParams.direction === 'OUTGOING' || searchParams.direction === 'INCOMING'
+      ? searchParams.direction
+      : undefined;
+
+  const report = await getPostDatedCheques(auth.companyId, asOf, direction);
+
+  return (
+    <DashboardLayout title="Post-dated Cheques">
+      <PostDatedChequesClient
+        asOf={asOfDate}
+        direction={direction || ''}
+        byMonth={report.byMonth}
+        totalOutgoing={report.totalOutgoing}
+        totalIncoming={report.totalIncoming}
+        cheques={report.cheques.map((cheque) => ({
+          id: cheque.id,
+          direction: cheque.direction,
+          chequeNo: cheque.chequeNo,
+          bankName: cheque.bankName,
+          payee: cheque.payee,
+          amount: cheque.amount,
+          chequeDate: cheque.chequeDate.toISOString(),
+          status: cheque.status,
+          voucherId: cheque.voucherLine.voucher.id,
+          voucherNo: cheque.voucherLine.voucher.voucherNo,
+          projectName: cheque.voucherLine.project?.name || null,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
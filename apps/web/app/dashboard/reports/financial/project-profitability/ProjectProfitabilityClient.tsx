@@ -13,6 +13,8 @@ interface ProjectProfitabilityClientProps {
         income: number;
         expenses: number;
         profit: number;
+        billed: number;
+        collected: number;
         incomeByAccount: Array<{
           accountId: string;
           accountCode: string;
@@ -32,6 +34,8 @@ interface ProjectProfitabilityClientProps {
         income: number;
         expenses: number;
         profit: number;
+        billed: number;
+        collected: number;
         incomeByAccount: Array<{
           accountId: string;
           accountCode: string;
@@ -143,6 +147,12 @@ export default function ProjectProfitabilityClient({
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
                     Project
                   </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Billed
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                    Collected
+                  </th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
                     Income
                   </th>
@@ -157,7 +167,7 @@ export default function ProjectProfitabilityClient({
               <tbody className="bg-white divide-y divide-gray-200">
                 {data.length === 0 ? (
                   <tr>
-                    <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                    <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
                       No project transactions found
                     </td>
                   </tr>
@@ -167,6 +177,12 @@ export default function ProjectProfitabilityClient({
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                         {item.projectName || 'No Project'}
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {toMoney(item.billed)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {toMoney(item.collected)}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-green-600">
                         {toMoney(item.income)}
                       </td>
@@ -219,6 +235,32 @@ export default function ProjectProfitabilityClient({
                 </div>
               </div>
             </div>
+            <div className="grid grid-cols-3 gap-4 mt-4 pt-4 border-t border-gray-200">
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Billed to Client</div>
+                <div className="text-xl font-bold text-gray-900">
+                  {toMoney(singleProject?.billed || 0)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Collected</div>
+                <div className="text-xl font-bold text-gray-900">
+                  {toMoney(singleProject?.collected || 0)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-gray-600 mb-1">Billed vs Cost</div>
+                <div
+                  className={`text-xl font-bold ${
+                    (singleProject?.billed || 0) - (singleProject?.expenses || 0) >= 0
+                      ? 'text-green-600'
+                      : 'text-red-600'
+                  }`}
+                >
+                  {toMoney((singleProject?.billed || 0) - (singleProject?.expenses || 0))}
+                </div>
+              </div>
+            </div>
           </div>
 
           {/* Income Breakdown */}
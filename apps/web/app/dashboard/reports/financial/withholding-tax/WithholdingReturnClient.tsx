@@ -0,0 +1,305 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface WithholdingReturnClientProps {
+  month: string;
+  taxType: string;
+  canWrite: boolean;
+  totals: { VAT: number; AIT: number; deposited: number; pending: number };
+  rows: Array<{
+    id: string;
+    date: string;
+    voucherId: string;
+    voucherNo: string;
+    vendorName: string;
+    vendorTin: string | null;
+    vendorBin: string | null;
+    billRef: string | null;
+    taxType: 'VAT' | 'AIT';
+    baseAmount: number;
+    ratePercent: number;
+    amount: number;
+    challanNo: string | null;
+    challanDate: string | null;
+  }>;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+export default function WithholdingReturnClient({
+  month,
+  taxType,
+  canWrite,
+  totals,
+  rows,
+}: WithholdingReturnClientProps) {
+  const router = useRouter();
+  const [monthValue, setMonthValue] = useState(month);
+  const [type, setType] = useState(taxType);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [showChallan, setShowChallan] = useState(false);
+  const [challanNo, setChallanNo] = useState('');
+  const [challanDate, setChallanDate] = useState(new Date().toISOString().split('T')[0]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const pendingRows = rows.filter((row) => !row.challanNo);
+  const selectedTotal = rows
+    .filter((row) => selected.includes(row.id))
+    .reduce((sum, row) => sum + row.amount, 0);
+
+  const handleFilter = () => {
+    const params = new URLSearchParams();
+    if (monthValue) params.set('month', monthValue);
+    if (type) params.set('taxType', type);
+    setSelected([]);
+    router.push(`/dashboard/reports/financial/withholding-tax?${params.toString()}`);
+  };
+
+  const toggle = (id: string) => {
+    setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const toggleAll = () => {
+    setSelected(selected.length === pendingRows.length ? [] : pendingRows.map((row) => row.id));
+  };
+
+  const handleChallan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch('/api/withholding-tax/challan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ deductionIds: selected, challanNo, challanDate }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to record challan');
+        return;
+      }
+      setShowChallan(false);
+      setSelected([]);
+      setChallanNo('');
+      router.refresh();
+    } catch (err) {
+      setError('Failed to record challan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Month</label>
+            <input
+              type="month"
+              value={monthValue}
+              onChange={(e) => setMonthValue(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tax</label>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">VAT and AIT</option>
+              <option value="VAT">VAT</option>
+              <option value="AIT">AIT</option>
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">VAT deducted</div>
+          <div className="text-2xl font-bold">{toMoney(totals.VAT)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">AIT deducted</div>
+          <div className="text-2xl font-bold">{toMoney(totals.AIT)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Deposited</div>
+          <div className="text-2xl font-bold text-green-700">{toMoney(totals.deposited)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Pending deposit</div>
+          <div className="text-2xl font-bold text-orange-600">{toMoney(totals.pending)}</div>
+        </div>
+      </div>
+
+      {canWrite && selected.length > 0 && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 rounded-lg p-4">
+          <div className="text-sm text-blue-900">
+            {selected.length} deduction{selected.length === 1 ? '' : 's'} selected, {toMoney(selectedTotal)}
+          </div>
+          <button
+            onClick={() => setShowChallan(true)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+          >
+            Record Challan
+          </button>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              {canWrite && (
+                <th className="px-4 py-2">
+                  <input
+                    type="checkbox"
+                    checked={pendingRows.length > 0 && selected.length === pendingRows.length}
+                    onChange={toggleAll}
+                    disabled={pendingRows.length === 0}
+                  />
+                </th>
+              )}
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vendor</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">TIN / BIN</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bill</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tax</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Base</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Deducted</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Challan</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={canWrite ? 11 : 10} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No deductions in this month
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.id} className="hover:bg-gray-50">
+                  {canWrite && (
+                    <td className="px-4 py-2 text-center">
+                      {!row.challanNo && (
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(row.id)}
+                          onChange={() => toggle(row.id)}
+                        />
+                      )}
+                    </td>
+                  )}
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(row.date)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <Link href={`/dashboard/vouchers/${row.voucherId}`} className="text-blue-600 hover:text-blue-800">
+                      {row.voucherNo}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-900">{row.vendorName}</td>
+                  <td className="px-4 py-2 text-xs text-gray-600">
+                    <div>TIN: {row.vendorTin || '-'}</div>
+                    <div>BIN: {row.vendorBin || '-'}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{row.billRef || '-'}</td>
+                  <td className="px-4 py-2 text-sm">{row.taxType}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(row.baseAmount)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{row.ratePercent}%</td>
+                  <td className="px-4 py-2 text-sm text-right font-medium">{toMoney(row.amount)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {row.challanNo ? (
+                      <>
+                        {row.challanNo}
+                        {row.challanDate && (
+                          <div className="text-xs text-gray-500">{formatDate(row.challanDate)}</div>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-xs text-orange-600">Pending</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showChallan && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-medium text-gray-900 mb-4">Record Treasury Challan</h3>
+            <form onSubmit={handleChallan} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {selected.length} deduction{selected.length === 1 ? '' : 's'} totalling {toMoney(selectedTotal)}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Challan No *</label>
+                <input
+                  type="text"
+                  required
+                  value={challanNo}
+                  onChange={(e) => setChallanNo(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Challan Date *</label>
+                <input
+                  type="date"
+                  required
+                  value={challanDate}
+                  onChange={(e) => setChallanDate(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              {error && <div className="text-sm text-red-600">{error}</div>}
+              <div className="flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setShowChallan(false);
+                    setError('');
+                  }}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getWithholdingReturn } from '@/lib/accounting/withholdingTax.server';
+import { monthRange } from '@/lib/reports/helpers';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import WithholdingReturnClient from './WithholdingReturnClient';
+
+export default async function WithholdingReturnPage({
+  searchParams,
+}: {
+  searchParams: { month?: string; taxType?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const month = /^\d{4}-\d{2}$/.test(searchParams.month || '')
+    ? (searchParams.month as string)
+    : new Date().toISOString().slice(0, 7);
+  const taxType =
+    searchParams.taxType === 'VAT' || searchParams.taxType === 'AIT' ? searchParams.taxType : undefined;
+
+  const [year, monthIndex] = month.split('-').map(Number);
+  const { from, to } = monthRange(new Date(year, monthIndex - 1, 1));
+  const report = await getWithholdingReturn(auth.companyId, from, to, taxType);
+
+  return (
+    <DashboardLayout title="Withholding Tax Return">
+      <WithholdingReturnClient
+        month={month}
+        taxType={taxType || ''}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+        totals={report.totals}
+        rows={report.rows.map((row) => ({
+          ...row,
+          date: row.date.toISOString(),
+          challanDate: row.challanDate ? row.challanDate.toISOString() : null,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
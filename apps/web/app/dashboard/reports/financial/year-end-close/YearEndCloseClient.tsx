@@ -0,0 +1,404 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+type CloseStatus = 'CLOSED' | 'REVERSED';
+
+interface FiscalYearClose {
+  id: string;
+  label: string;
+  startDate: string | Date;
+  endDate: string | Date;
+  netProfit: number;
+  status: CloseStatus;
+  createdAt: string | Date;
+  reversedAt: string | Date | null;
+  voucher: { id: string; voucherNo: string; status: string };
+  createdBy: { id: string; name: string };
+}
+
+interface YearEndCloseClientProps {
+  closes: FiscalYearClose[];
+  preview: {
+    startDate: string | Date;
+    endDate: string | Date;
+    lines: Array<{
+      accountId: string;
+      accountCode: string;
+      accountName: string;
+      type: string;
+      balance: number;
+      debit: number;
+      credit: number;
+    }>;
+    totalIncome: number;
+    totalExpenses: number;
+    netProfit: number;
+    fiscalYearNetProfit: number;
+    previousClose: { label: string; endDate: string | Date } | null;
+    errors: string[];
+  };
+  startDate: string;
+  endDate: string;
+}
+
+const dateLabel = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+export default function YearEndCloseClient({
+  closes,
+  preview,
+  startDate,
+  endDate,
+}: YearEndCloseClientProps) {
+  const router = useRouter();
+  const [from, setFrom] = useState(startDate);
+  const [to, setTo] = useState(endDate);
+  const [label, setLabel] = useState(`FY ${endDate.substring(0, 4)}`);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const totalDebit =
+    preview.lines.reduce((sum, line) => sum + line.debit, 0) +
+    (preview.netProfit < 0 ? -preview.netProfit : 0);
+  const totalCredit =
+    preview.lines.reduce((sum, line) => sum + line.credit, 0) +
+    (preview.netProfit > 0 ? preview.netProfit : 0);
+
+  const handlePreview = () => {
+    router.push(`/dashboard/reports/financial/year-end-close?startDate=${from}&endDate=${to}`);
+  };
+
+  const runAction = async (url: string, body: unknown) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Action failed');
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while closing the fiscal year');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (
+      !confirm(
+        `Close ${label} (${dateLabel(startDate)} - ${dateLabel(endDate)})? A closing JOURNAL voucher will be posted moving ${toMoney(preview.netProfit)} to retained earnings.`
+      )
+    ) {
+      return;
+    }
+    await runAction('/api/fiscal-year-close', { label, startDate, endDate });
+  };
+
+  const handleReverse = async (close: FiscalYearClose) => {
+    if (
+      !confirm(
+        `Undo the close of ${close.label}? Voucher ${close.voucher.voucherNo} will be reversed and income/expense balances restored.`
+      )
+    ) {
+      return;
+    }
+    await runAction(`/api/vouchers/${close.voucher.id}/reverse`, {
+      description: `Reversal of year-end close for ${close.label}`,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Fiscal Year Start
+            </label>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Fiscal Year End</label>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handlePreview}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              Preview
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Closing Entry Preview</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Balances as of {dateLabel(preview.endDate)}
+            {preview.previousClose
+              ? ` since the close of ${preview.previousClose.label} (${dateLabel(preview.previousClose.endDate)})`
+              : ' (no earlier close)'}
+          </p>
+        </div>
+
+        {preview.errors.length > 0 && (
+          <div className="mx-6 mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+            <ul className="text-sm text-yellow-800 list-disc list-inside space-y-1">
+              {preview.errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {Math.abs(preview.netProfit - preview.fiscalYearNetProfit) >= 0.01 && (
+          <div className="mx-6 mt-4 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm text-blue-800">
+              Net profit for the fiscal year is {toMoney(preview.fiscalYearNetProfit)}, but{' '}
+              {toMoney(preview.netProfit)} is unclosed. The difference comes from activity before
+              the fiscal year start that was never closed and will be included in this close.
+            </p>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Account
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Debit
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Credit
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {preview.lines.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No income or expense balances to close
+                  </td>
+                </tr>
+              ) : (
+                <>
+                  {preview.lines.map((line) => (
+                    <tr key={line.accountId} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {line.accountCode} - {line.accountName}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {line.type}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.debit ? toMoney(line.debit) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {line.credit ? toMoney(line.credit) : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="bg-green-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      3030 - Retained Earnings
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">EQUITY</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {preview.netProfit < 0 ? toMoney(-preview.netProfit) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {preview.netProfit > 0 ? toMoney(preview.netProfit) : '-'}
+                    </td>
+                  </tr>
+                </>
+              )}
+            </tbody>
+            <tfoot className="bg-gray-50">
+              <tr className="font-medium">
+                <td colSpan={2} className="px-6 py-4 text-sm text-gray-900">
+                  Total
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {toMoney(totalDebit)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                  {toMoney(totalCredit)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex flex-wrap items-end justify-between gap-4">
+          <div className="grid grid-cols-3 gap-6">
+            <div>
+              <div className="text-sm text-gray-600 mb-1">Total Income</div>
+              <div className="text-lg font-bold text-gray-900">{toMoney(preview.totalIncome)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 mb-1">Total Expenses</div>
+              <div className="text-lg font-bold text-gray-900">{toMoney(preview.totalExpenses)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 mb-1">
+                {preview.netProfit >= 0 ? 'Net Profit' : 'Net Loss'}
+              </div>
+              <div
+                className={`text-lg font-bold ${preview.netProfit < 0 ? 'text-red-600' : 'text-green-700'}`}
+              >
+                {toMoney(preview.netProfit)}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <button
+              onClick={handleClose}
+              disabled={isWorking || preview.errors.length > 0 || !label.trim()}
+              className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+            >
+              {isWorking ? 'Working...' : 'Close Fiscal Year'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Close history */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Fiscal Year Closes</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Fiscal Year
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Voucher
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Net Profit
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Closed
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {closes.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No fiscal years have been closed yet
+                  </td>
+                </tr>
+              ) : (
+                closes.map((close) => (
+                  <tr key={close.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{close.label}</div>
+                      <div className="text-gray-500">
+                        {dateLabel(close.startDate)} - {dateLabel(close.endDate)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link
+                        href={`/dashboard/vouchers/${close.voucher.id}`}
+                        className="text-blue-600 hover:text-blue-900 font-medium"
+                      >
+                        {close.voucher.voucherNo}
+                      </Link>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {toMoney(close.netProfit)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          close.status === 'CLOSED'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {close.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {close.createdBy.name} on {new Date(close.createdAt).toLocaleString()}
+                      {close.reversedAt && (
+                        <div>Reversed on {new Date(close.reversedAt).toLocaleString()}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      {close.status === 'CLOSED' && (
+                        <button
+                          onClick={() => handleReverse(close)}
+                          disabled={isWorking}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          Reverse
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
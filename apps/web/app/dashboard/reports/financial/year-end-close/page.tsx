@@ -0,0 +1,55 @@
+import { redirect } from 'next/navigation';
+import { requireAdminServer } from '@/lib/rbac';
+import {
+  listFiscalYearCloses,
+  previewYearEndClose,
+} from '@/lib/accounting/yearEndClose.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import YearEndCloseClient from './YearEndCloseClient';
+
+export default async function YearEndClosePage({
+  searchParams,
+}: {
+  searchParams: { startDate?: string; endDate?: string };
+}) {
+  let auth;
+  try {
+    auth = await requireAdminServer();
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const closes = await listFiscalYearCloses(auth.companyId);
+
+  // Default to the twelve months after the latest active close, or the previous calendar year
+  const lastClose = closes.find((close) => close.status === 'CLOSED');
+  const now = new Date();
+  const defaultStart = lastClose
+    ? new Date(
+        Date.UTC(
+          lastClose.endDate.getUTCFullYear(),
+          lastClose.endDate.getUTCMonth(),
+          lastClose.endDate.getUTCDate() + 1
+        )
+      )
+    : new Date(Date.UTC(now.getUTCFullYear() - 1, 0, 1));
+  const defaultEnd = new Date(
+    Date.UTC(defaultStart.getUTCFullYear() + 1, defaultStart.getUTCMonth(), defaultStart.getUTCDate() - 1)
+  );
+
+  const startDate = searchParams.startDate || defaultStart.toISOString().split('T')[0];
+  const endDate = searchParams.endDate || defaultEnd.toISOString().split('T')[0];
+
+  const preview = await previewYearEndClose(auth.companyId, new Date(startDate), new Date(endDate));
+
+  return (
+    <DashboardLayout title="Year-End Close">
+      <YearEndCloseClient
+        closes={closes.map((close) => ({ ...close, netProfit: Number(close.netProfit) }))}
+        preview={preview}
+        startDate={startDate}
+        endDate={endDate}
+      />
+    </DashboardLayout>
+  );
+}
@@ -44,6 +44,64 @@ export default async function ReportsPage() {
             </div>
           </Link>
 
+          {/* Receivables Report Card */}
+          <Link
+            href="/dashboard/reports/receivables"
+            className="block p-6 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Receivables Aging</h3>
+                <p className="text-sm text-gray-600">Outstanding client bills by age and retention held</p>
+              </div>
+              <div className="text-blue-600">
+                <svg
+                  className="w-8 h-8"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5l7 7-7 7"
+                  />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
+          {/* Requisition Fulfilment Card */}
+          <Link
+            href="/dashboard/stock/requisitions/report"
+            className="block p-6 bg-white border border-gray-200 rounded-lg shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">Requisition Fulfilment</h3>
+                <p className="text-sm text-gray-600">Approval and issue rates of site material requisitions</p>
+              </div>
+              <div className="text-blue-600">
+                <svg
+                  className="w-8 h-8"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                  xmlns="http://www.w3.org/2000/svg"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 5l7 7-7 7"
+                  />
+                </svg>
+              </div>
+            </div>
+          </Link>
+
           {/* Overhead Report Card */}
           <Link
             href="/dashboard/reports/overhead"
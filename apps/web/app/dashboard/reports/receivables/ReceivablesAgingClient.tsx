@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+type Bucket = 'current' | '1-30' | '31-60' | '61-90' | '90+';
+
+interface ReceivablesAgingClientProps {
+  asOf: string;
+  projectId: string;
+  projects: Array<{ id: string; name: string }>;
+  totals: Record<Bucket, number>;
+  totalOutstanding: number;
+  totalRetention: number;
+  rows: Array<{
+    id: string;
+    projectId: string;
+    projectName: string;
+    clientName: string | null;
+    billRef: string;
+    billDate: string;
+    dueDate: string;
+    daysOverdue: number;
+    netAmount: number;
+    outstanding: number;
+    retention: number;
+    bucket: Bucket;
+  }>;
+}
+
+const BUCKETS: Array<{ key: Bucket; label: string }> = [
+  { key: 'current', label: 'Current' },
+  { key: '1-30', label: '1-30 days' },
+  { key: '31-60', label: '31-60 days' },
+  { key: '61-90', label: '61-90 days' },
+  { key: '90+', label: 'Over 90 days' },
+];
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+export default function ReceivablesAgingClient({
+  asOf,
+  projectId,
+  projects,
+  totals,
+  totalOutstanding,
+  totalRetention,
+  rows,
+}: ReceivablesAgingClientProps) {
+  const router = useRouter();
+  const [date, setDate] = useState(asOf);
+  const [project, setProject] = useState(projectId);
+
+  const handleFilter = () => {
+    const params = new URLSearchParams();
+    if (date) params.set('asOf', date);
+    if (project) params.set('projectId', project);
+    router.push(`/dashboard/reports/receivables?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">As of</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={project}
+              onChange={(e) => setProject(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">All projects</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Buckets */}
+      <div className="grid grid-cols-2 md:grid-cols-7 gap-4">
+        {BUCKETS.map((bucket) => (
+          <div key={bucket.key} className="bg-white border border-gray-200 rounded-lg p-4">
+            <div className="text-sm text-gray-600">{bucket.label}</div>
+            <div
+              className={`text-lg font-bold ${
+                bucket.key === '61-90' || bucket.key === '90+' ? 'text-red-700' : 'text-gray-900'
+              }`}
+            >
+              {toMoney(totals[bucket.key])}
+            </div>
+          </div>
+        ))}
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Total Receivable</div>
+          <div className="text-lg font-bold text-orange-700">{toMoney(totalOutstanding)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Retention Held</div>
+          <div className="text-lg font-bold">{toMoney(totalRetention)}</div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project / Client</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Bill</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Days Overdue</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Net Billed</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Retention</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No outstanding client bills
+                </td>
+              </tr>
+            ) : (
+              rows.map((row) => (
+                <tr key={row.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm">
+                    <Link
+                      href={`/dashboard/projects/${row.projectId}/billing`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {row.projectName}
+                    </Link>
+                    <div className="text-xs text-gray-500">{row.clientName || '-'}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {row.billRef}
+                    <div className="text-xs text-gray-500">{formatDate(row.billDate)}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm">{formatDate(row.dueDate)}</td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${row.daysOverdue > 60 ? 'text-red-600 font-medium' : ''}`}
+                  >
+                    {row.daysOverdue}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(row.netAmount)}</td>
+                  <td className="px-4 py-2 text-sm text-right font-medium">{toMoney(row.outstanding)}</td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-600">{toMoney(row.retention)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { getReceivablesAging } from '@/lib/accounting/clientBilling.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import ReceivablesAgingClient from './ReceivablesAgingClient';
+
+export default async function ReceivablesAgingPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string; projectId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const asOfDate = searchParams.asOf || new Date().toISOString().split('T')[0];
+  const asOf = new Date(`${asOfDate}T23:59:59.999Z`);
+  const projectId = searchParams.projectId || undefined;
+
+  const [report, projects] = await Promise.all([
+    getReceivablesAging(auth.companyId, asOf, projectId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Receivables Aging">
+      <ReceivablesAgingClient
+        asOf={asOfDate}
+        projectId={projectId || ''}
+        projects={projects}
+        totals={report.totals}
+        totalOutstanding={report.totalOutstanding}
+        totalRetention={report.totalRetention}
+        rows={report.rows.map((row) => ({
+          ...row,
+          billDate: row.billDate.toISOString(),
+          dueDate: row.dueDate.toISOString(),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
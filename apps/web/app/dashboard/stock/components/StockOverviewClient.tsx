@@ -14,11 +14,21 @@ interface StockBalance {
     category: string | null;
     reorderLevel: number | null;
   };
+  location: {
+    id: string;
+    name: string;
+    type: 'WAREHOUSE' | 'PROJECT_SITE';
+  };
   onHandQty: number;
   avgCost: number;
   isLowStock: boolean;
 }
 
+interface StockLocation {
+  id: string;
+  name: string;
+}
+
 interface StockOverviewClientProps {
   canWrite: boolean;
 }
@@ -27,6 +37,8 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
   const [balances, setBalances] = useState<StockBalance[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [search, setSearch] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [stats, setStats] = useState({
     totalItems: 0,
     lowStockCount: 0,
@@ -37,6 +49,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
     try {
       const params = new URLSearchParams();
       if (search) params.append('search', search);
+      if (locationId) params.append('locationId', locationId);
       params.append('pageSize', '100'); // Get more items for overview
 
       const response = await fetch(`/api/stock/balances?${params.toString()}`);
@@ -57,9 +70,19 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
     }
   };
 
+  useEffect(() => {
+    fetch('/api/stock/locations')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setLocations(data.data);
+        }
+      });
+  }, []);
+
   useEffect(() => {
     fetchBalances();
-  }, [search]);
+  }, [search, locationId]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -105,7 +128,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
       </div>
 
       {/* Search */}
-      <div className="mb-4">
+      <div className="mb-4 flex flex-col md:flex-row gap-4">
         <input
           type="text"
           placeholder="Search items..."
@@ -113,6 +136,18 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
           onChange={(e) => setSearch(e.target.value)}
           className="w-full md:w-1/3 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
         />
+        <select
+          value={locationId}
+          onChange={(e) => setLocationId(e.target.value)}
+          className="w-full md:w-1/4 px-4 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All Locations</option>
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Balances Table */}
@@ -126,6 +161,9 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Item
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Unit
                 </th>
@@ -143,7 +181,7 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
             <tbody className="bg-white divide-y divide-gray-200">
               {balances.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-4 text-center text-gray-500">
                     No stock items found
                   </td>
                 </tr>
@@ -158,6 +196,9 @@ export default function StockOverviewClient({ canWrite }: StockOverviewClientPro
                         <div className="text-sm text-gray-500">SKU: {balance.stockItem.sku}</div>
                       )}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {balance.location.name}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {balance.stockItem.unit}
                     </td>
@@ -0,0 +1,192 @@
+'use client';
+
+export type TrackingMode = 'NONE' | 'BATCH' | 'SERIAL';
+
+export interface TrackingInput {
+  lotNumber: string;
+  expiryDate: string;
+  certificateUrl: string;
+  // Serial numbers as typed, one per line or separated by commas
+  serialText: string;
+}
+
+export const emptyTracking: TrackingInput = {
+  lotNumber: '',
+  expiryDate: '',
+  certificateUrl: '',
+  serialText: '',
+};
+
+interface AvailableTracking {
+  lots: Array<{ lotNumber: string; qty: number; expiryDate: string | null }>;
+  serials: Array<{ serialNumber: string }>;
+}
+
+function parseSerialNumbers(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((serial) => serial.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The tracking to send with a movement, or null for an untracked item
+ */
+export function toTrackingPayload(mode: TrackingMode | undefined, value: TrackingInput) {
+  if (!mode || mode === 'NONE') {
+    return null;
+  }
+  if (mode === 'SERIAL') {
+    return { serialNumbers: parseSerialNumbers(value.serialText) };
+  }
+  return {
+    lotNumber: value.lotNumber.trim() || null,
+    expiryDate: value.expiryDate ? `${value.expiryDate}T00:00:00Z` : null,
+    certificateUrl: value.certificateUrl.trim() || null,
+  };
+}
+
+interface StockTrackingFieldsProps {
+  mode: TrackingMode | undefined;
+  // IN captures a new lot's details; OUT picks from what is available when given
+  direction: 'IN' | 'OUT';
+  value: TrackingInput;
+  onChange: (value: TrackingInput) => void;
+  available?: AvailableTracking | null;
+  compact?: boolean;
+}
+
+export default function StockTrackingFields({
+  mode,
+  direction,
+  value,
+  onChange,
+  available,
+  compact = false,
+}: StockTrackingFieldsProps) {
+  if (!mode || mode === 'NONE') {
+    return null;
+  }
+  const inputClass = compact
+    ? 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm'
+    : 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500';
+  const labelClass = compact
+    ? 'block text-xs font-medium text-gray-600'
+    : 'block text-sm font-medium text-gray-700';
+
+  if (mode === 'SERIAL') {
+    const selected = parseSerialNumbers(value.serialText);
+    if (direction === 'OUT' && available) {
+      return (
+        <div>
+          <span className={labelClass}>Serial numbers *</span>
+          {available.serials.length === 0 ? (
+            <p className="mt-1 text-sm text-amber-600">No serials in stock here</p>
+          ) : (
+            <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1">
+              {available.serials.map((serial) => (
+                <label key={serial.serialNumber} className="flex items-center gap-1 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(serial.serialNumber)}
+                    onChange={(e) =>
+                      onChange({
+                        ...value,
+                        serialText: (e.target.checked
+                          ? [...selected, serial.serialNumber]
+                          : selected.filter((s) => s !== serial.serialNumber)
+                        ).join('\n'),
+                      })
+                    }
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  {serial.serialNumber}
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="mt-1 text-xs text-gray-500">One serial per unit; {selected.length} selected.</p>
+        </div>
+      );
+    }
+    return (
+      <div>
+        <label className={labelClass}>Serial numbers *</label>
+        <textarea
+          rows={compact ? 2 : 3}
+          value={value.serialText}
+          onChange={(e) => onChange({ ...value, serialText: e.target.value })}
+          placeholder="One per line"
+          className={inputClass}
+        />
+        <p className="mt-1 text-xs text-gray-500">One serial per unit; {selected.length} entered.</p>
+      </div>
+    );
+  }
+
+  if (direction === 'OUT') {
+    return (
+      <div>
+        <label className={labelClass}>Lot number *</label>
+        {available ? (
+          <select
+            value={value.lotNumber}
+            onChange={(e) => onChange({ ...value, lotNumber: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Select lot...</option>
+            {available.lots.map((lot) => (
+              <option key={lot.lotNumber} value={lot.lotNumber}>
+                {lot.lotNumber} ({lot.qty} available
+                {lot.expiryDate
+                  ? `, expires ${new Date(lot.expiryDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}`
+                  : ''}
+                )
+              </option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={value.lotNumber}
+            onChange={(e) => onChange({ ...value, lotNumber: e.target.value })}
+            className={inputClass}
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={compact ? 'space-y-1' : 'grid grid-cols-3 gap-4'}>
+      <div>
+        <label className={labelClass}>Lot number *</label>
+        <input
+          type="text"
+          value={value.lotNumber}
+          onChange={(e) => onChange({ ...value, lotNumber: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Expiry date</label>
+        <input
+          type="date"
+          value={value.expiryDate}
+          onChange={(e) => onChange({ ...value, expiryDate: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Test certificate URL</label>
+        <input
+          type="url"
+          value={value.certificateUrl}
+          onChange={(e) => onChange({ ...value, certificateUrl: e.target.value })}
+          placeholder="https://"
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+}
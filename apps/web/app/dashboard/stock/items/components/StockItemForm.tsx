@@ -3,7 +3,11 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 
-export default function StockItemForm() {
+interface StockItemFormProps {
+  vendors: Array<{ id: string; name: string }>;
+}
+
+export default function StockItemForm({ vendors }: StockItemFormProps) {
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
@@ -12,6 +16,9 @@ export default function StockItemForm() {
     unit: '',
     category: '',
     reorderLevel: '',
+    preferredVendorId: '',
+    costingMethod: '',
+    trackingMode: 'NONE',
     isActive: true,
   });
 
@@ -28,6 +35,8 @@ export default function StockItemForm() {
           sku: formData.sku || null,
           category: formData.category || null,
           reorderLevel: formData.reorderLevel ? parseFloat(formData.reorderLevel) : null,
+          preferredVendorId: formData.preferredVendorId || null,
+          costingMethod: formData.costingMethod || null,
         }),
       });
 
@@ -117,6 +126,61 @@ export default function StockItemForm() {
         />
       </div>
 
+      <div>
+        <label htmlFor="preferredVendorId" className="block text-sm font-medium text-gray-700">
+          Preferred Supplier
+        </label>
+        <select
+          id="preferredVendorId"
+          value={formData.preferredVendorId}
+          onChange={(e) => setFormData({ ...formData, preferredVendorId: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Whoever it was last bought from</option>
+          {vendors.map((vendor) => (
+            <option key={vendor.id} value={vendor.id}>
+              {vendor.name}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">Used when suggesting reorders.</p>
+      </div>
+
+      <div>
+        <label htmlFor="costingMethod" className="block text-sm font-medium text-gray-700">
+          Costing Method
+        </label>
+        <select
+          id="costingMethod"
+          value={formData.costingMethod}
+          onChange={(e) => setFormData({ ...formData, costingMethod: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Company default</option>
+          <option value="WEIGHTED_AVERAGE">Weighted average</option>
+          <option value="FIFO">FIFO (first in, first out)</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="trackingMode" className="block text-sm font-medium text-gray-700">
+          Tracking
+        </label>
+        <select
+          id="trackingMode"
+          value={formData.trackingMode}
+          onChange={(e) => setFormData({ ...formData, trackingMode: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="NONE">None</option>
+          <option value="BATCH">Lot / batch number</option>
+          <option value="SERIAL">Serial number</option>
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          Tracked items need a lot or serial numbers on every receipt, issue and transfer.
+        </p>
+      </div>
+
       <div className="flex items-center">
         <input
           type="checkbox"
@@ -9,6 +9,8 @@ interface StockItem {
   unit: string;
   category: string | null;
   reorderLevel: number | null;
+  costingMethod: 'WEIGHTED_AVERAGE' | 'FIFO' | null;
+  trackingMode: 'NONE' | 'BATCH' | 'SERIAL';
   isActive: boolean;
   onHandQty: number;
   avgCost: number;
@@ -345,6 +347,8 @@ function StockItemEditForm({
     sku: item.sku ?? '',
     unit: item.unit,
     category: item.category ?? '',
+    costingMethod: item.costingMethod ?? '',
+    trackingMode: item.trackingMode,
     isActive: item.isActive,
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -369,6 +373,8 @@ function StockItemEditForm({
           sku: formData.sku.trim() || null,
           unit: formData.unit.trim(),
           category: formData.category.trim() || null,
+          costingMethod: formData.costingMethod || null,
+          trackingMode: formData.trackingMode,
           isActive: formData.isActive,
         }),
       });
@@ -430,6 +436,32 @@ function StockItemEditForm({
               className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
             />
           </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Costing Method</label>
+            <select
+              value={formData.costingMethod}
+              onChange={(e) => setFormData({ ...formData, costingMethod: e.target.value })}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="">Company default</option>
+              <option value="WEIGHTED_AVERAGE">Weighted average</option>
+              <option value="FIFO">FIFO (first in, first out)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tracking</label>
+            <select
+              value={formData.trackingMode}
+              onChange={(e) =>
+                setFormData({ ...formData, trackingMode: e.target.value as StockItem['trackingMode'] })
+              }
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+            >
+              <option value="NONE">None</option>
+              <option value="BATCH">Lot / batch number</option>
+              <option value="SERIAL">Serial number</option>
+            </select>
+          </div>
           <div className="flex items-center">
             <input
               type="checkbox"
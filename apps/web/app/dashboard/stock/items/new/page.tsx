@@ -1,18 +1,26 @@
 import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
 import { requirePermissionServer } from '@/lib/rbac';
 import DashboardLayout from '../../../components/DashboardLayout';
 import StockItemForm from '../components/StockItemForm';
 
 export default async function NewStockItemPage() {
+  let auth;
   try {
-    await requirePermissionServer('stock', 'WRITE');
+    auth = await requirePermissionServer('stock', 'WRITE');
   } catch {
     redirect('/forbidden');
   }
 
+  const vendors = await prisma.vendor.findMany({
+    where: { companyId: auth.companyId, isActive: true },
+    select: { id: true, name: true },
+    orderBy: { name: 'asc' },
+  });
+
   return (
     <DashboardLayout title="New Stock Item">
-      <StockItemForm />
+      <StockItemForm vendors={vendors} />
     </DashboardLayout>
   );
 }
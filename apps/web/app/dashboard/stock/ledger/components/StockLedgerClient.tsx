@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
 
 interface StockMovement {
   id: string;
@@ -8,6 +9,9 @@ interface StockMovement {
   type: 'IN' | 'OUT' | 'ADJUST';
   qty: number;
   unitCost: number | null;
+  // Set when the quantity was entered in another unit than the item's base unit
+  enteredQty: number | null;
+  enteredUnit: string | null;
   referenceType: string | null;
   referenceId: string | null;
   notes: string | null;
@@ -20,6 +24,10 @@ interface StockMovement {
     id: string;
     name: string;
   } | null;
+  location: {
+    id: string;
+    name: string;
+  } | null;
   vendor: {
     id: string;
     name: string;
@@ -40,15 +48,23 @@ interface Project {
   name: string;
 }
 
+interface StockLocation {
+  id: string;
+  name: string;
+}
+
 export default function StockLedgerClient() {
+  const searchParams = useSearchParams();
   const [movements, setMovements] = useState<StockMovement[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [filters, setFilters] = useState({
     stockItemId: '',
     type: '' as '' | 'IN' | 'OUT' | 'ADJUST',
     projectId: '',
+    locationId: searchParams.get('locationId') || '',
     dateFrom: '',
     dateTo: '',
   });
@@ -74,6 +90,15 @@ export default function StockLedgerClient() {
           setProjects(data.data);
         }
       });
+
+    // Fetch stock locations
+    fetch('/api/stock/locations')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setLocations(data.data);
+        }
+      });
   }, []);
 
   const fetchMovements = async () => {
@@ -83,6 +108,7 @@ export default function StockLedgerClient() {
       if (filters.stockItemId) params.append('stockItemId', filters.stockItemId);
       if (filters.type) params.append('type', filters.type);
       if (filters.projectId) params.append('projectId', filters.projectId);
+      if (filters.locationId) params.append('locationId', filters.locationId);
       if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
       if (filters.dateTo) params.append('dateTo', filters.dateTo);
       params.append('page', page.toString());
@@ -106,7 +132,7 @@ export default function StockLedgerClient() {
 
   useEffect(() => {
     fetchMovements();
-  }, [filters.stockItemId, filters.type, filters.projectId, filters.dateFrom, filters.dateTo, page, pageSize]);
+  }, [filters.stockItemId, filters.type, filters.projectId, filters.locationId, filters.dateFrom, filters.dateTo, page, pageSize]);
 
   const formatCurrency = (amount: number | null) => {
     if (amount === null) return '-';
@@ -180,6 +206,25 @@ export default function StockLedgerClient() {
           </select>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+          <select
+            value={filters.locationId}
+            onChange={(e) => {
+              setFilters({ ...filters, locationId: e.target.value });
+              setPage(1);
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">All Locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">Date From</label>
           <input
@@ -233,6 +278,9 @@ export default function StockLedgerClient() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Project
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Location
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Reference
                 </th>
@@ -244,7 +292,7 @@ export default function StockLedgerClient() {
             <tbody className="bg-white divide-y divide-gray-200">
               {movements.length === 0 ? (
                 <tr>
-                  <td colSpan={8} className="px-6 py-4 text-center text-gray-500">
+                  <td colSpan={9} className="px-6 py-4 text-center text-gray-500">
                     No movements found
                   </td>
                 </tr>
@@ -271,14 +319,31 @@ export default function StockLedgerClient() {
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {movement.qty.toFixed(3)} {movement.stockItem.unit}
+                      {movement.enteredUnit && movement.enteredQty !== null ? (
+                        <>
+                          {movement.enteredQty.toFixed(3)} {movement.enteredUnit}
+                          <div className="text-xs text-gray-500">
+                            = {movement.qty.toFixed(3)} {movement.stockItem.unit}
+                          </div>
+                        </>
+                      ) : (
+                        <>
+                          {movement.qty.toFixed(3)} {movement.stockItem.unit}
+                        </>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {formatCurrency(movement.unitCost)}
+                      {movement.unitCost !== null && (
+                        <span className="text-xs text-gray-500"> /{movement.stockItem.unit}</span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {movement.project?.name || '-'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {movement.location?.name || '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {movement.referenceType && movement.referenceId
                         ? `${movement.referenceType}: ${movement.referenceId.substring(0, 8)}...`
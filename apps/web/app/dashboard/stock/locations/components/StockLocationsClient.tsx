@@ -0,0 +1,363 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface Location {
+  id: string;
+  name: string;
+  code: string | null;
+  type: 'WAREHOUSE' | 'PROJECT_SITE';
+  project: Project | null;
+  isDefault: boolean;
+  isActive: boolean;
+  itemCount: number;
+  stockValue: number;
+}
+
+interface StockLocationsClientProps {
+  canWrite: boolean;
+  projects: Project[];
+  locations: Location[];
+}
+
+const emptyForm = {
+  name: '',
+  code: '',
+  type: 'WAREHOUSE' as Location['type'],
+  projectId: '',
+  isDefault: false,
+};
+
+export default function StockLocationsClient({
+  canWrite,
+  projects,
+  locations,
+}: StockLocationsClientProps) {
+  const router = useRouter();
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ ...emptyForm });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = showInactive ? locations : locations.filter((l) => l.isActive);
+  const totalValue = locations.reduce((sum, l) => sum + l.stockValue, 0);
+  const warehouseCount = locations.filter((l) => l.isActive && l.type === 'WAREHOUSE').length;
+  const siteCount = locations.filter((l) => l.isActive && l.type === 'PROJECT_SITE').length;
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm({ ...emptyForm });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditing(location);
+    setForm({
+      name: location.name,
+      code: location.code ?? '',
+      type: location.type,
+      projectId: location.project?.id ?? '',
+      isDefault: location.isDefault,
+    });
+    setError(null);
+    setShowForm(true);
+  };
+
+  const patchLocation = async (id: string, body: Record<string, unknown>) => {
+    const response = await fetch(`/api/stock/locations/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return response.json();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const data = editing
+        ? await patchLocation(editing.id, {
+            name: form.name,
+            code: form.code || null,
+            ...(form.isDefault && !editing.isDefault ? { isDefault: true } : {}),
+          })
+        : await fetch('/api/stock/locations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              name: form.name,
+              code: form.code || null,
+              type: form.type,
+              projectId: form.type === 'PROJECT_SITE' ? form.projectId : null,
+              isDefault: form.type === 'WAREHOUSE' && form.isDefault,
+            }),
+          }).then((res) => res.json());
+      if (data.ok) {
+        setShowForm(false);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save location');
+      }
+    } catch {
+      setError('An error occurred while saving the location');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAction = async (location: Location, body: Record<string, unknown>) => {
+    try {
+      const data = await patchLocation(location.id, body);
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update location');
+      }
+    } catch {
+      alert('An error occurred while updating the location');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Warehouses</div>
+          <div className="text-2xl font-bold">{warehouseCount}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Project sites</div>
+          <div className="text-2xl font-bold">{siteCount}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Stock value held</div>
+          <div className="text-2xl font-bold">{toMoney(totalValue)}</div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show inactive locations
+        </label>
+        {canWrite && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Location
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Type</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Items held</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Stock value</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No stock locations
+                </td>
+              </tr>
+            ) : (
+              visible.map((location) => (
+                <tr key={location.id} className={location.isActive ? 'hover:bg-gray-50' : 'bg-gray-50 text-gray-400'}>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="font-medium">
+                      {location.name}
+                      {location.isDefault && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                          Default
+                        </span>
+                      )}
+                      {!location.isActive && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-xs font-medium bg-gray-200 text-gray-600">
+                          Inactive
+                        </span>
+                      )}
+                    </div>
+                    {location.code && <div className="text-xs text-gray-500">{location.code}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {location.type === 'WAREHOUSE' ? 'Warehouse' : 'Project site'}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {location.project ? (
+                      <Link
+                        href={`/dashboard/projects/${location.project.id}/stock`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {location.project.name}
+                      </Link>
+                    ) : (
+                      '-'
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{location.itemCount}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(location.stockValue)}</td>
+                  <td className="px-4 py-2 text-sm text-right space-x-3 whitespace-nowrap">
+                    <Link
+                      href={`/dashboard/stock/ledger?locationId=${location.id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Ledger
+                    </Link>
+                    {canWrite && location.isActive && (
+                      <button onClick={() => openEdit(location)} className="text-blue-600 hover:text-blue-800">
+                        Edit
+                      </button>
+                    )}
+                    {canWrite && location.isActive && location.type === 'WAREHOUSE' && !location.isDefault && (
+                      <button
+                        onClick={() => handleAction(location, { isDefault: true })}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        Make default
+                      </button>
+                    )}
+                    {canWrite && !location.isDefault && (
+                      <button
+                        onClick={() => handleAction(location, { isActive: !location.isActive })}
+                        className={location.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}
+                      >
+                        {location.isActive ? 'Deactivate' : 'Reactivate'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Location modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              {editing ? `Edit ${editing.name}` : 'New Stock Location'}
+            </h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+                  <input
+                    type="text"
+                    required
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {!editing && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Type *</label>
+                    <select
+                      value={form.type}
+                      onChange={(e) => setForm({ ...form, type: e.target.value as Location['type'] })}
+                      className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                    >
+                      <option value="WAREHOUSE">Warehouse</option>
+                      <option value="PROJECT_SITE">Project site</option>
+                    </select>
+                  </div>
+                  {form.type === 'PROJECT_SITE' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Project *</label>
+                      <select
+                        required
+                        value={form.projectId}
+                        onChange={(e) => setForm({ ...form, projectId: e.target.value })}
+                        className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                      >
+                        <option value="">Select project...</option>
+                        {projects.map((project) => (
+                          <option key={project.id} value={project.id}>
+                            {project.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {form.type === 'WAREHOUSE' && !editing?.isDefault && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.isDefault}
+                    onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Default location for stock received without a project
+                </label>
+              )}
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
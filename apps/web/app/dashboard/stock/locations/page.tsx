@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listStockLocations } from '@/lib/stock/stockLocations.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockLocationsClient from './components/StockLocationsClient';
+
+export default async function StockLocationsPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [locations, projects] = await Promise.all([
+    listStockLocations(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, stockLocation: null },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Stock Locations">
+      <StockLocationsClient
+        canWrite={can(auth.role, 'stock', 'WRITE')}
+        projects={projects}
+        locations={locations.map((location) => ({
+          id: location.id,
+          name: location.name,
+          code: location.code,
+          type: location.type,
+          project: location.project,
+          isDefault: location.isDefault,
+          isActive: location.isActive,
+          itemCount: location.itemCount,
+          stockValue: location.stockValue,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
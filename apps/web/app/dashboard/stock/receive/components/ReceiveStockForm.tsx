@@ -1,13 +1,21 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { Fragment, useState, useEffect } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
+import StockTrackingFields, {
+  emptyTracking,
+  toTrackingPayload,
+  TrackingInput,
+  TrackingMode,
+} from '../../components/StockTrackingFields';
 
 interface StockItem {
   id: string;
   name: string;
   unit: string;
+  units?: Array<{ code: string; factor: number }>;
+  trackingMode?: TrackingMode;
 }
 
 interface Project {
@@ -20,6 +28,31 @@ interface Vendor {
   name: string;
 }
 
+interface StockLocation {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+interface PurchaseOrderLine {
+  id: string;
+  stockItem: StockItem;
+  qtyOrdered: number;
+  agreedRate: number;
+  deliveryDate: string | null;
+  qtyReceived: number;
+  qtyOutstanding: number;
+  isOverdue: boolean;
+}
+
+interface PurchaseOrder {
+  id: string;
+  poNo: number;
+  project: Project;
+  supplierVendor: Vendor;
+  lines: PurchaseOrderLine[];
+}
+
 export default function ReceiveStockForm() {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -27,6 +60,13 @@ export default function ReceiveStockForm() {
   const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [purchaseOrderId, setPurchaseOrderId] = useState(searchParams.get('purchaseOrderId') || '');
+  const [receiptQty, setReceiptQty] = useState<Record<string, string>>({});
+  const [receiptTracking, setReceiptTracking] = useState<Record<string, TrackingInput>>({});
+  const [tracking, setTracking] = useState<TrackingInput>(emptyTracking);
+  const [challanNo, setChallanNo] = useState('');
   const [isLoadingItems, setIsLoadingItems] = useState(false);
   const [itemsError, setItemsError] = useState<string | null>(null);
   const [showVendorModal, setShowVendorModal] = useState(false);
@@ -40,8 +80,10 @@ export default function ReceiveStockForm() {
   const [formData, setFormData] = useState({
     stockItemId: '',
     qty: '',
+    unit: '',
     unitCost: '',
     projectId: searchParams.get('projectId') || '',
+    locationId: '',
     vendorId: '',
     referenceType: '',
     referenceId: '',
@@ -70,6 +112,27 @@ export default function ReceiveStockForm() {
         setIsLoadingItems(false);
       });
 
+    // Fetch stock locations
+    fetch('/api/stock/locations')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setLocations((data.data ?? []).filter((l: StockLocation) => l.isActive));
+        }
+      });
+
+    // Fetch purchase orders awaiting delivery
+    fetch('/api/purchase-orders?open=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setOpenOrders(data.data ?? []);
+        }
+      })
+      .catch(() => {
+        // Direct receipts still work without purchase orders
+      });
+
     // Fetch projects
     fetch('/api/projects?pageSize=1000')
       .then((res) => res.json())
@@ -135,8 +198,61 @@ export default function ReceiveStockForm() {
     }
   };
 
+  const selectedOrder = openOrders.find((order) => order.id === purchaseOrderId) ?? null;
+  const selectedItem = stockItems.find((item) => item.id === formData.stockItemId) ?? null;
+  const selectedConversion = selectedItem?.units?.find((u) => u.code === formData.unit) ?? null;
+
+  const handleReceiveAgainstOrder = async (order: PurchaseOrder) => {
+    const lines = order.lines
+      .map((line) => ({
+        purchaseOrderLineId: line.id,
+        qty: parseFloat(receiptQty[line.id] || ''),
+        tracking: toTrackingPayload(
+          line.stockItem.trackingMode,
+          receiptTracking[line.id] ?? emptyTracking
+        ),
+      }))
+      .filter((line) => line.qty > 0);
+    if (lines.length === 0) {
+      alert('Enter the quantity received for at least one item');
+      return;
+    }
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/purchase-orders/${order.id}/receipts`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          receiptDate: `${formData.movementDate}T00:00:00Z`,
+          challanNo: challanNo || null,
+          locationId: formData.locationId || null,
+          notes: formData.notes || null,
+          lines,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        alert(`Goods received against PO #${order.poNo}`);
+        router.push(`/dashboard/purchases/orders/${order.id}`);
+      } else {
+        alert(data.error || 'Failed to receive goods');
+        setIsSubmitting(false);
+      }
+    } catch (error) {
+      alert('An error occurred while receiving goods');
+      setIsSubmitting(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (selectedOrder) {
+      await handleReceiveAgainstOrder(selectedOrder);
+      return;
+    }
     setIsSubmitting(true);
 
     try {
@@ -146,13 +262,16 @@ export default function ReceiveStockForm() {
         body: JSON.stringify({
           stockItemId: formData.stockItemId,
           qty: parseFloat(formData.qty),
+          unit: formData.unit || null,
           unitCost: formData.unitCost ? parseFloat(formData.unitCost) : undefined,
           projectId: formData.projectId || null,
+          locationId: formData.locationId || null,
           vendorId: formData.vendorId || null,
           referenceType: formData.referenceType || undefined,
           referenceId: formData.referenceId || undefined,
           notes: formData.notes || null,
           movementDate: formData.movementDate ? `${formData.movementDate}T00:00:00Z` : undefined,
+          tracking: toTrackingPayload(selectedItem?.trackingMode, tracking),
         }),
       });
 
@@ -179,6 +298,103 @@ export default function ReceiveStockForm() {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6 max-w-2xl">
+      <div>
+        <label htmlFor="purchaseOrderId" className="block text-sm font-medium text-gray-700">
+          Against Purchase Order
+        </label>
+        <select
+          id="purchaseOrderId"
+          value={purchaseOrderId}
+          onChange={(e) => {
+            setPurchaseOrderId(e.target.value);
+            setReceiptQty({});
+            setReceiptTracking({});
+          }}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">None (direct receipt)</option>
+          {openOrders.map((order) => (
+            <option key={order.id} value={order.id}>
+              PO #{order.poNo} - {order.supplierVendor.name} - {order.project.name}
+            </option>
+          ))}
+        </select>
+        {selectedOrder && (
+          <p className="mt-1 text-xs text-gray-500">
+            Goods come into stock at the agreed rates and are recorded as a goods receipt (GRN) on the order.
+          </p>
+        )}
+      </div>
+
+      {selectedOrder ? (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Received</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Due</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Receive now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {selectedOrder.lines.map((line) => (
+                <Fragment key={line.id}>
+                  <tr>
+                    <td className="px-3 py-2 text-sm">
+                      {line.stockItem.name}
+                      {line.stockItem.unit ? ` (${line.stockItem.unit})` : ''}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{line.qtyOrdered}</td>
+                    <td className="px-3 py-2 text-sm text-right">{line.qtyReceived}</td>
+                    <td className={`px-3 py-2 text-sm ${line.isOverdue ? 'text-red-600 font-medium' : ''}`}>
+                      {line.deliveryDate
+                        ? new Date(line.deliveryDate).toLocaleDateString('en-US', { timeZone: 'UTC' })
+                        : '-'}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{line.agreedRate.toFixed(2)}</td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      {line.qtyOutstanding > 0 ? (
+                        <input
+                          type="number"
+                          step="0.001"
+                          min="0"
+                          max={line.qtyOutstanding}
+                          placeholder={String(line.qtyOutstanding)}
+                          value={receiptQty[line.id] ?? ''}
+                          onChange={(e) => setReceiptQty({ ...receiptQty, [line.id]: e.target.value })}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right"
+                        />
+                      ) : (
+                        <span className="text-green-700">Received</span>
+                      )}
+                    </td>
+                  </tr>
+                  {line.qtyOutstanding > 0 &&
+                    line.stockItem.trackingMode &&
+                    line.stockItem.trackingMode !== 'NONE' &&
+                    receiptQty[line.id] && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={6} className="px-3 py-2">
+                          <StockTrackingFields
+                            mode={line.stockItem.trackingMode}
+                            direction="IN"
+                            compact
+                            value={receiptTracking[line.id] ?? emptyTracking}
+                            onChange={(value) => setReceiptTracking({ ...receiptTracking, [line.id]: value })}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+      <>
       <div>
         <label htmlFor="stockItemId" className="block text-sm font-medium text-gray-700">
           Stock Item *
@@ -206,7 +422,10 @@ export default function ReceiveStockForm() {
             id="stockItemId"
             required
             value={formData.stockItemId}
-            onChange={(e) => setFormData({ ...formData, stockItemId: e.target.value })}
+            onChange={(e) => {
+              setFormData({ ...formData, stockItemId: e.target.value, unit: '' });
+              setTracking(emptyTracking);
+            }}
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
           >
             <option value="">Select item...</option>
@@ -219,7 +438,7 @@ export default function ReceiveStockForm() {
         )}
       </div>
 
-      <div className="grid grid-cols-2 gap-4">
+      <div className="grid grid-cols-3 gap-4">
         <div>
           <label htmlFor="qty" className="block text-sm font-medium text-gray-700">
             Quantity *
@@ -236,9 +455,37 @@ export default function ReceiveStockForm() {
           />
         </div>
 
+        <div>
+          <label htmlFor="unit" className="block text-sm font-medium text-gray-700">
+            Unit
+          </label>
+          <select
+            id="unit"
+            value={formData.unit}
+            onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+            disabled={!selectedItem}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100"
+          >
+            <option value="">{selectedItem?.unit || 'Base unit'}</option>
+            {(selectedItem?.units ?? []).map((u) => (
+              <option key={u.code} value={u.code}>
+                {u.code}
+              </option>
+            ))}
+          </select>
+          {selectedItem && selectedConversion && (
+            <p className="mt-1 text-xs text-gray-500">
+              1 {selectedConversion.code} = {selectedConversion.factor} {selectedItem.unit}
+              {formData.qty
+                ? `; stocked as ${Math.round(parseFloat(formData.qty) * selectedConversion.factor * 1000) / 1000} ${selectedItem.unit}`
+                : ''}
+            </p>
+          )}
+        </div>
+
         <div>
           <label htmlFor="unitCost" className="block text-sm font-medium text-gray-700">
-            Unit Cost
+            Unit Cost{formData.unit ? ` (per ${formData.unit})` : ''}
           </label>
           <input
             type="number"
@@ -252,6 +499,16 @@ export default function ReceiveStockForm() {
         </div>
       </div>
 
+      <StockTrackingFields
+        mode={selectedItem?.trackingMode}
+        direction="IN"
+        value={tracking}
+        onChange={setTracking}
+      />
+
+      </>
+      )}
+
       <div>
         <label htmlFor="movementDate" className="block text-sm font-medium text-gray-700">
           Date *
@@ -266,6 +523,40 @@ export default function ReceiveStockForm() {
         />
       </div>
 
+      <div>
+        <label htmlFor="locationId" className="block text-sm font-medium text-gray-700">
+          Location
+        </label>
+        <select
+          id="locationId"
+          value={formData.locationId}
+          onChange={(e) => setFormData({ ...formData, locationId: e.target.value })}
+          className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">Project site, or the default warehouse</option>
+          {locations.map((location) => (
+            <option key={location.id} value={location.id}>
+              {location.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {selectedOrder ? (
+        <div>
+          <label htmlFor="challanNo" className="block text-sm font-medium text-gray-700">
+            Supplier Challan No.
+          </label>
+          <input
+            type="text"
+            id="challanNo"
+            value={challanNo}
+            onChange={(e) => setChallanNo(e.target.value)}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      ) : (
+      <>
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label htmlFor="projectId" className="block text-sm font-medium text-gray-700">
@@ -348,6 +639,9 @@ export default function ReceiveStockForm() {
         </div>
       </div>
 
+      </>
+      )}
+
       <div>
         <label htmlFor="notes" className="block text-sm font-medium text-gray-700">
           Notes
@@ -0,0 +1,379 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface Supplier {
+  id: string;
+  name: string;
+  leadTimeDays: number | null;
+}
+
+interface Suggestion {
+  projectId: string;
+  projectName: string;
+  stockItem: { id: string; name: string; unit: string };
+  minimum: number;
+  onHand: number;
+  onOrder: number;
+  issuedInWindow: number;
+  avgDailyUsage: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQty: number;
+  supplier: { id: string; name: string } | null;
+  rate: number;
+  isBelowMinimum: boolean;
+}
+
+interface Draft {
+  selected: boolean;
+  supplierVendorId: string;
+  qty: string;
+  rate: string;
+}
+
+interface CreatedDocument {
+  id: string;
+  poNo: number | null;
+  supplier: { id: string; name: string };
+  project: { id: string; name: string };
+  total: number;
+}
+
+interface ReorderClientProps {
+  canGenerate: boolean;
+  projects: Project[];
+  suppliers: Supplier[];
+  projectId: string;
+  windowDays: number;
+  coverDays: number;
+  suggestions: Suggestion[];
+}
+
+const formatQty = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const rowKey = (s: Suggestion) => `${s.projectId}:${s.stockItem.id}`;
+
+const initialDraft = (s: Suggestion): Draft => ({
+  selected: s.supplier != null,
+  supplierVendorId: s.supplier?.id ?? '',
+  qty: String(s.suggestedQty),
+  rate: String(s.rate),
+});
+
+export default function ReorderClient({
+  canGenerate,
+  projects,
+  suppliers,
+  projectId,
+  windowDays,
+  coverDays,
+  suggestions,
+}: ReorderClientProps) {
+  const router = useRouter();
+  const [filters, setFilters] = useState({
+    projectId,
+    windowDays: String(windowDays),
+    coverDays: String(coverDays),
+  });
+  const [drafts, setDrafts] = useState<Record<string, Draft>>(() =>
+    Object.fromEntries(suggestions.map((s) => [rowKey(s), initialDraft(s)]))
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [created, setCreated] = useState<{ target: string; documents: CreatedDocument[] } | null>(null);
+
+  // Rows can appear after a refresh, so fall back to the suggestion's own values
+  const draftFor = (s: Suggestion) => drafts[rowKey(s)] ?? initialDraft(s);
+  const updateDraft = (s: Suggestion, changes: Partial<Draft>) =>
+    setDrafts((current) => ({
+      ...current,
+      [rowKey(s)]: { ...(current[rowKey(s)] ?? initialDraft(s)), ...changes },
+    }));
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    if (filters.projectId) params.set('projectId', filters.projectId);
+    if (filters.windowDays) params.set('windowDays', filters.windowDays);
+    if (filters.coverDays) params.set('coverDays', filters.coverDays);
+    router.push(`/dashboard/stock/reorder?${params.toString()}`);
+  };
+
+  const selectedRows = suggestions.filter((s) => draftFor(s).selected);
+  const belowMinimum = suggestions.filter((s) => s.isBelowMinimum).length;
+  const selectedValue = selectedRows.reduce((sum, s) => {
+    const draft = draftFor(s);
+    return sum + (parseFloat(draft.qty) || 0) * (parseFloat(draft.rate) || 0);
+  }, 0);
+
+  const handleGenerate = async (target: 'PURCHASE_ORDER' | 'PURCHASE') => {
+    setError(null);
+    const missingSupplier = selectedRows.find((s) => !draftFor(s).supplierVendorId);
+    if (missingSupplier) {
+      setError(`Choose a supplier for ${missingSupplier.stockItem.name} at ${missingSupplier.projectName}`);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/stock/reorder/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          target,
+          lines: selectedRows.map((s) => {
+            const draft = draftFor(s);
+            return {
+              projectId: s.projectId,
+              stockItemId: s.stockItem.id,
+              supplierVendorId: draft.supplierVendorId,
+              qty: parseFloat(draft.qty) || 0,
+              rate: parseFloat(draft.rate) || 0,
+            };
+          }),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setCreated(data.data);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to create drafts');
+      }
+    } catch {
+      setError('An error occurred while creating drafts');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Project</label>
+          <select
+            value={filters.projectId}
+            onChange={(e) => setFilters({ ...filters, projectId: e.target.value })}
+            className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Usage window (days)</label>
+          <input
+            type="number"
+            min="1"
+            max="365"
+            value={filters.windowDays}
+            onChange={(e) => setFilters({ ...filters, windowDays: e.target.value })}
+            className="mt-1 block w-32 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Cover (days)</label>
+          <input
+            type="number"
+            min="0"
+            max="365"
+            value={filters.coverDays}
+            onChange={(e) => setFilters({ ...filters, coverDays: e.target.value })}
+            className="mt-1 block w-32 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <button type="submit" className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 text-sm">
+          Recalculate
+        </button>
+      </form>
+
+      <p className="text-sm text-gray-600">
+        Daily usage is the average of stock issued over the last {windowDays} days. An item is suggested when
+        its stock plus what is on order would fall below its minimum before the supplier can deliver; the
+        quantity also covers {coverDays} days of usage after delivery. Suppliers without a lead time are
+        assumed to deliver in 7 days.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-500">Items to reorder</div>
+          <div className="text-2xl font-semibold">{suggestions.length}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-500">Already below minimum</div>
+          <div className={`text-2xl font-semibold ${belowMinimum > 0 ? 'text-red-600' : ''}`}>{belowMinimum}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-500">Selected order value</div>
+          <div className="text-2xl font-semibold">{toMoney(selectedValue)}</div>
+        </div>
+      </div>
+
+      {created && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 text-sm">
+          <p className="font-medium text-green-800 mb-2">
+            Created {created.documents.length} draft {created.target === 'PURCHASE_ORDER' ? 'purchase order' : 'purchase'}
+            {created.documents.length === 1 ? '' : 's'}
+          </p>
+          <ul className="space-y-1">
+            {created.documents.map((doc) => (
+              <li key={doc.id}>
+                <Link
+                  href={
+                    doc.poNo != null ? `/dashboard/purchases/orders/${doc.id}` : `/dashboard/purchases/${doc.id}`
+                  }
+                  className="text-blue-600 hover:underline"
+                >
+                  {doc.poNo != null ? `PO #${doc.poNo}` : 'Draft purchase'}
+                </Link>{' '}
+                — {doc.supplier.name}, {doc.project.name}, {toMoney(doc.total)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Nothing needs reordering. Items are checked against the project's minimum stock, or the item's reorder
+          level where the project has none.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {canGenerate && <th className="px-3 py-2" />}
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On hand</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On order</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Minimum</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Daily usage</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Lead time</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reorder point</th>
+                <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Order qty</th>
+                <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {suggestions.map((s) => {
+                const key = rowKey(s);
+                const draft = draftFor(s);
+                return (
+                  <tr key={key} className={s.isBelowMinimum ? 'bg-red-50/50' : ''}>
+                    {canGenerate && (
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={draft.selected}
+                          onChange={(e) => updateDraft(s, { selected: e.target.checked })}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                      </td>
+                    )}
+                    <td className="px-3 py-2 text-sm">{s.projectName}</td>
+                    <td className="px-3 py-2 text-sm">
+                      <div className="font-medium">{s.stockItem.name}</div>
+                      {s.isBelowMinimum && <div className="text-xs text-red-600">Below minimum</div>}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      {formatQty(s.onHand)} {s.stockItem.unit}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">{formatQty(s.onOrder)}</td>
+                    <td className="px-3 py-2 text-sm text-right">{formatQty(s.minimum)}</td>
+                    <td className="px-3 py-2 text-sm text-right">{formatQty(s.avgDailyUsage)}</td>
+                    <td className="px-3 py-2 text-sm text-right">{s.leadTimeDays}d</td>
+                    <td className="px-3 py-2 text-sm text-right">{formatQty(s.reorderPoint)}</td>
+                    <td className="px-3 py-2 text-sm">
+                      {canGenerate ? (
+                        <select
+                          value={draft.supplierVendorId}
+                          onChange={(e) => updateDraft(s, { supplierVendorId: e.target.value })}
+                          className="w-40 rounded-md border border-gray-300 px-2 py-1 text-sm"
+                        >
+                          <option value="">Choose supplier</option>
+                          {suppliers.map((supplier) => (
+                            <option key={supplier.id} value={supplier.id}>
+                              {supplier.name}
+                              {supplier.leadTimeDays != null ? ` (${supplier.leadTimeDays}d)` : ''}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        s.supplier?.name ?? '-'
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      {canGenerate ? (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.001"
+                          value={draft.qty}
+                          onChange={(e) => updateDraft(s, { qty: e.target.value })}
+                          className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                        />
+                      ) : (
+                        formatQty(s.suggestedQty)
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      {canGenerate ? (
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={draft.rate}
+                          onChange={(e) => updateDraft(s, { rate: e.target.value })}
+                          className="w-24 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                        />
+                      ) : (
+                        toMoney(s.rate)
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {canGenerate && suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-2 justify-end">
+          <button
+            onClick={() => handleGenerate('PURCHASE')}
+            disabled={isSubmitting || selectedRows.length === 0}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+          >
+            Create Draft Purchases
+          </button>
+          <button
+            onClick={() => handleGenerate('PURCHASE_ORDER')}
+            disabled={isSubmitting || selectedRows.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+          >
+            {isSubmitting ? 'Creating...' : 'Create Draft Purchase Orders'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { ReorderSuggestionFiltersSchema } from '@accounting/shared';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getReorderSuggestions } from '@/lib/stock/reorder.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import ReorderClient from './components/ReorderClient';
+
+export default async function ReorderSuggestionsPage({
+  searchParams,
+}: {
+  searchParams: { projectId?: string; windowDays?: string; coverDays?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const parsed = ReorderSuggestionFiltersSchema.safeParse({
+    projectId: searchParams.projectId || undefined,
+    windowDays: searchParams.windowDays || undefined,
+    coverDays: searchParams.coverDays || undefined,
+  });
+  const filters = parsed.success ? parsed.data : ReorderSuggestionFiltersSchema.parse({});
+
+  const [result, projects, suppliers] = await Promise.all([
+    getReorderSuggestions(auth.companyId, filters),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.vendor.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true, leadTimeDays: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Reorder Suggestions">
+      <ReorderClient
+        canGenerate={can(auth.role, 'purchases', 'WRITE')}
+        projects={projects}
+        suppliers={suppliers}
+        projectId={filters.projectId ?? ''}
+        windowDays={result.windowDays}
+        coverDays={result.coverDays}
+        suggestions={result.suggestions}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,918 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+}
+
+type RequisitionStatus =
+  | 'PENDING'
+  | 'APPROVED'
+  | 'PARTIALLY_APPROVED'
+  | 'REJECTED'
+  | 'ISSUED'
+  | 'CANCELLED';
+
+interface RequisitionLine {
+  id: string;
+  stockItem: StockItem;
+  qtyRequested: number;
+  qtyApproved: number | null;
+  qtyIssued: number;
+  qtyOutstanding: number;
+  notes: string | null;
+}
+
+interface Requisition {
+  id: string;
+  requisitionNo: number;
+  status: RequisitionStatus;
+  project: Project;
+  requestDate: string;
+  requiredBy: string | null;
+  notes: string | null;
+  requestedBy: { id: string; name: string };
+  decidedBy: { id: string; name: string } | null;
+  decidedAt: string | null;
+  decisionNotes: string | null;
+  lines: RequisitionLine[];
+  isOpen: boolean;
+}
+
+interface RequisitionsClientProps {
+  currentUserId: string;
+  canRequest: boolean;
+  canApprove: boolean;
+  canIssue: boolean;
+  projects: Project[];
+  stockItems: StockItem[];
+  requisitions: Requisition[];
+}
+
+const STATUS_LABELS: Record<RequisitionStatus, string> = {
+  PENDING: 'Pending approval',
+  APPROVED: 'Approved',
+  PARTIALLY_APPROVED: 'Partially approved',
+  REJECTED: 'Rejected',
+  ISSUED: 'Issued',
+  CANCELLED: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<RequisitionStatus, string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  APPROVED: 'bg-blue-100 text-blue-800',
+  PARTIALLY_APPROVED: 'bg-indigo-100 text-indigo-800',
+  REJECTED: 'bg-red-100 text-red-800',
+  ISSUED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyLine = { stockItemId: '', qty: '', notes: '' };
+
+export default function RequisitionsClient({
+  currentUserId,
+  canRequest,
+  canApprove,
+  canIssue,
+  projects,
+  stockItems,
+  requisitions,
+}: RequisitionsClientProps) {
+  const router = useRouter();
+  const [statusFilter, setStatusFilter] = useState('OPEN');
+  const [projectFilter, setProjectFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // New requisition
+  const [showCreate, setShowCreate] = useState(false);
+  const [projectId, setProjectId] = useState('');
+  const [requestDate, setRequestDate] = useState(today());
+  const [requiredBy, setRequiredBy] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState([{ ...emptyLine }]);
+
+  // Approve
+  const [approving, setApproving] = useState<Requisition | null>(null);
+  const [approvedQty, setApprovedQty] = useState<Record<string, string>>({});
+  const [decisionNotes, setDecisionNotes] = useState('');
+  const [issueNow, setIssueNow] = useState(false);
+
+  // Issue
+  const [issuing, setIssuing] = useState<Requisition | null>(null);
+  const [issueDate, setIssueDate] = useState(today());
+  const [issueQty, setIssueQty] = useState<Record<string, string>>({});
+  const [available, setAvailable] = useState<Record<string, number>>({});
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = requisitions.filter(
+    (r) =>
+      (statusFilter === '' ||
+        (statusFilter === 'OPEN' ? r.isOpen : r.status === statusFilter)) &&
+      (!projectFilter || r.project.id === projectFilter)
+  );
+  const pendingCount = requisitions.filter((r) => r.status === 'PENDING').length;
+  const awaitingIssueCount = requisitions.filter(
+    (r) => (r.status === 'APPROVED' || r.status === 'PARTIALLY_APPROVED') && r.isOpen
+  ).length;
+
+  const openCreate = () => {
+    setProjectId('');
+    setRequestDate(today());
+    setRequiredBy('');
+    setNotes('');
+    setLines([{ ...emptyLine }]);
+    setError(null);
+    setShowCreate(true);
+  };
+
+  const updateLine = (index: number, field: keyof typeof emptyLine, value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/stock/requisitions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          requestDate,
+          requiredBy: requiredBy || null,
+          notes: notes || null,
+          lines: lines
+            .filter((line) => line.stockItemId)
+            .map((line) => ({
+              stockItemId: line.stockItemId,
+              qty: parseFloat(line.qty) || 0,
+              notes: line.notes || null,
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowCreate(false);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to raise requisition');
+      }
+    } catch {
+      setError('An error occurred while raising the requisition');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Issue the given quantities through the project issue endpoint, one movement per line.
+   * Returns the error messages of lines that could not be issued.
+   */
+  const issueLines = async (
+    requisition: Requisition,
+    quantities: Array<{ line: RequisitionLine; qty: number }>,
+    movementDate: string
+  ) => {
+    const failures: string[] = [];
+    for (const { line, qty } of quantities) {
+      if (qty <= 0) continue;
+      const response = await fetch(`/api/projects/${requisition.project.id}/stock/issue`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stockItemId: line.stockItem.id,
+          qty,
+          movementDate,
+          requisitionLineId: line.id,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        failures.push(`${line.stockItem.name}: ${data.error || 'Failed to issue'}`);
+      }
+    }
+    return failures;
+  };
+
+  const openApprove = (requisition: Requisition) => {
+    setApproving(requisition);
+    setApprovedQty(
+      Object.fromEntries(requisition.lines.map((line) => [line.id, String(line.qtyRequested)]))
+    );
+    setDecisionNotes('');
+    setIssueNow(false);
+    setError(null);
+  };
+
+  const submitDecision = async (reject: boolean) => {
+    if (!approving) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/stock/requisitions/${approving.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          notes: decisionNotes || null,
+          lines: approving.lines.map((line) => ({
+            lineId: line.id,
+            qtyApproved: reject ? 0 : parseFloat(approvedQty[line.id]) || 0,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to record the decision');
+        return;
+      }
+      if (!reject && issueNow) {
+        const approved = data.data as Requisition;
+        const failures = await issueLines(
+          approved,
+          approved.lines.map((line) => ({ line, qty: line.qtyOutstanding })),
+          today()
+        );
+        if (failures.length > 0) {
+          alert(`Approved, but some lines could not be issued:\n${failures.join('\n')}`);
+        }
+      }
+      setApproving(null);
+      router.refresh();
+    } catch {
+      setError('An error occurred while recording the decision');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openIssue = async (requisition: Requisition) => {
+    setIssuing(requisition);
+    setIssueDate(today());
+    setIssueQty(
+      Object.fromEntries(
+        requisition.lines.map((line) => [line.id, line.qtyOutstanding > 0 ? String(line.qtyOutstanding) : ''])
+      )
+    );
+    setAvailable({});
+    setError(null);
+    try {
+      const response = await fetch(`/api/projects/${requisition.project.id}/stock/overview`);
+      const data = await response.json();
+      if (data.ok) {
+        setAvailable(
+          Object.fromEntries(
+            (data.data.items as Array<{ stockItemId: string; remainingQty: number }>).map((item) => [
+              item.stockItemId,
+              item.remainingQty,
+            ])
+          )
+        );
+      }
+    } catch {
+      // Availability is informational; the issue endpoint checks it again
+    }
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!issuing) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const failures = await issueLines(
+        issuing,
+        issuing.lines.map((line) => ({ line, qty: parseFloat(issueQty[line.id]) || 0 })),
+        issueDate
+      );
+      if (failures.length > 0) {
+        alert(`Some lines could not be issued:\n${failures.join('\n')}`);
+      }
+      setIssuing(null);
+      router.refresh();
+    } catch {
+      setError('An error occurred while issuing stock');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async (requisition: Requisition) => {
+    if (!confirm(`Cancel requisition #${requisition.requisitionNo}?`)) return;
+    try {
+      const response = await fetch(`/api/stock/requisitions/${requisition.id}/cancel`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to cancel requisition');
+      }
+    } catch {
+      alert('An error occurred while cancelling the requisition');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Open requisitions</div>
+          <div className="text-2xl font-bold">{requisitions.filter((r) => r.isOpen).length}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Awaiting approval</div>
+          <div className="text-2xl font-bold text-yellow-600">{pendingCount}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Approved, awaiting issue</div>
+          <div className="text-2xl font-bold text-blue-600">{awaitingIssueCount}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="OPEN">Open</option>
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as RequisitionStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={projectFilter}
+            onChange={(e) => setProjectFilter(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href="/dashboard/stock/requisitions/report"
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Fulfilment Report
+          </Link>
+          {canRequest && (
+            <button
+              onClick={openCreate}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              New Requisition
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Requisition</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Requested by</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Required by</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No material requisitions
+                </td>
+              </tr>
+            ) : (
+              visible.map((requisition) => {
+                const outstanding = requisition.lines.some((line) => line.qtyOutstanding > 0);
+                return (
+                  <Fragment key={requisition.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-4 py-2 text-sm">
+                        <button
+                          onClick={() =>
+                            setExpandedId(expandedId === requisition.id ? null : requisition.id)
+                          }
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          #{requisition.requisitionNo}
+                        </button>
+                        <div className="text-xs text-gray-500">
+                          {requisition.lines.length} item{requisition.lines.length === 1 ? '' : 's'}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">
+                        {formatDate(requisition.requestDate)}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <Link
+                          href={`/dashboard/projects/${requisition.project.id}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {requisition.project.name}
+                        </Link>
+                      </td>
+                      <td className="px-4 py-2 text-sm">{requisition.requestedBy.name}</td>
+                      <td className="px-4 py-2 text-sm whitespace-nowrap">
+                        {requisition.requiredBy ? formatDate(requisition.requiredBy) : '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        <span
+                          className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[requisition.status]}`}
+                        >
+                          {STATUS_LABELS[requisition.status]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right space-x-3 whitespace-nowrap">
+                        {canApprove && requisition.status === 'PENDING' && (
+                          <button
+                            onClick={() => openApprove(requisition)}
+                            className="text-green-600 hover:text-green-800"
+                          >
+                            Review
+                          </button>
+                        )}
+                        {canIssue &&
+                          (requisition.status === 'APPROVED' ||
+                            requisition.status === 'PARTIALLY_APPROVED') &&
+                          outstanding && (
+                            <button
+                              onClick={() => openIssue(requisition)}
+                              className="text-blue-600 hover:text-blue-800"
+                            >
+                              Issue
+                            </button>
+                          )}
+                        {requisition.status === 'PENDING' &&
+                          (canApprove ||
+                            (canRequest && requisition.requestedBy.id === currentUserId)) && (
+                            <button
+                              onClick={() => handleCancel(requisition)}
+                              className="text-red-600 hover:text-red-800"
+                            >
+                              Cancel
+                            </button>
+                          )}
+                      </td>
+                    </tr>
+                    {expandedId === requisition.id && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-3 bg-gray-50">
+                          <table className="min-w-full">
+                            <thead>
+                              <tr>
+                                <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                                <th className="py-1 text-right text-xs font-medium text-gray-500">Requested</th>
+                                <th className="py-1 text-right text-xs font-medium text-gray-500">Approved</th>
+                                <th className="py-1 text-right text-xs font-medium text-gray-500">Issued</th>
+                                <th className="py-1 text-right text-xs font-medium text-gray-500">Outstanding</th>
+                                <th className="py-1 pl-4 text-left text-xs font-medium text-gray-500">Notes</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {requisition.lines.map((line) => (
+                                <tr key={line.id}>
+                                  <td className="py-1 text-sm">
+                                    {line.stockItem.name}
+                                    <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                                  </td>
+                                  <td className="py-1 text-sm text-right">{formatQty(line.qtyRequested)}</td>
+                                  <td className="py-1 text-sm text-right">
+                                    {line.qtyApproved != null ? formatQty(line.qtyApproved) : '-'}
+                                  </td>
+                                  <td className="py-1 text-sm text-right">{formatQty(line.qtyIssued)}</td>
+                                  <td className="py-1 text-sm text-right">
+                                    {line.qtyOutstanding > 0 ? formatQty(line.qtyOutstanding) : '-'}
+                                  </td>
+                                  <td className="py-1 pl-4 text-sm text-gray-500">{line.notes || ''}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                          <div className="mt-2 text-xs text-gray-500 space-y-1">
+                            {requisition.notes && <div>Notes: {requisition.notes}</div>}
+                            {requisition.decidedBy && (
+                              <div>
+                                Decided by {requisition.decidedBy.name}
+                                {requisition.decidedAt ? ` on ${formatDate(requisition.decidedAt)}` : ''}
+                                {requisition.decisionNotes ? `: ${requisition.decisionNotes}` : ''}
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New requisition modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Material Requisition</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Project *</label>
+                  <select
+                    required
+                    value={projectId}
+                    onChange={(e) => setProjectId(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Select project...</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Request date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={requestDate}
+                    onChange={(e) => setRequestDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Required by</label>
+                  <input
+                    type="date"
+                    value={requiredBy}
+                    min={requestDate}
+                    onChange={(e) => setRequiredBy(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">Materials</div>
+                <table className="min-w-full">
+                  <thead>
+                    <tr>
+                      <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                      <th className="py-1 text-right text-xs font-medium text-gray-500">Qty</th>
+                      <th className="py-1 text-left text-xs font-medium text-gray-500">Notes</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map((line, index) => (
+                      <tr key={index}>
+                        <td className="py-1 pr-2">
+                          <select
+                            value={line.stockItemId}
+                            onChange={(e) => updateLine(index, 'stockItemId', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                          >
+                            <option value="">Select material...</option>
+                            {stockItems
+                              .filter(
+                                (item) =>
+                                  item.id === line.stockItemId ||
+                                  !lines.some((other) => other.stockItemId === item.id)
+                              )
+                              .map((item) => (
+                                <option key={item.id} value={item.id}>
+                                  {item.name} ({item.unit})
+                                </option>
+                              ))}
+                          </select>
+                        </td>
+                        <td className="py-1 px-2 w-32">
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0.001"
+                            required={!!line.stockItemId}
+                            value={line.qty}
+                            onChange={(e) => updateLine(index, 'qty', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-1 px-2">
+                          <input
+                            type="text"
+                            value={line.notes}
+                            onChange={(e) => updateLine(index, 'notes', e.target.value)}
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="py-1 text-right">
+                          {lines.length > 1 && (
+                            <button
+                              type="button"
+                              onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                              className="text-sm text-red-600 hover:text-red-800"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <button
+                  type="button"
+                  onClick={() => setLines([...lines, { ...emptyLine }])}
+                  disabled={lines.length >= stockItems.length}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  + Add material
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreate(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !lines.some((line) => line.stockItemId)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : 'Submit Requisition'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Approve modal */}
+      {approving && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Review Requisition #{approving.requisitionNo}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {approving.project.name}, requested by {approving.requestedBy.name} on{' '}
+              {formatDate(approving.requestDate)}. Approve less than requested for a partial
+              approval.
+            </p>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitDecision(false);
+              }}
+              className="space-y-4"
+            >
+              <table className="min-w-full">
+                <thead>
+                  <tr>
+                    <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Requested</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Approve</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {approving.lines.map((line) => {
+                    const over = parseFloat(approvedQty[line.id]) > line.qtyRequested;
+                    return (
+                      <tr key={line.id}>
+                        <td className="py-1 text-sm">
+                          {line.stockItem.name}
+                          <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                          {line.notes && <div className="text-xs text-gray-500">{line.notes}</div>}
+                        </td>
+                        <td className="py-1 px-2 text-sm text-right">{formatQty(line.qtyRequested)}</td>
+                        <td className="py-1 px-2 w-32">
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            max={line.qtyRequested}
+                            required
+                            value={approvedQty[line.id] ?? ''}
+                            onChange={(e) =>
+                              setApprovedQty({ ...approvedQty, [line.id]: e.target.value })
+                            }
+                            className={`w-full rounded-md shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500 ${
+                              over ? 'border-red-500' : 'border-gray-300'
+                            }`}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {approving.notes && (
+                <div className="text-sm text-gray-600">Engineer&apos;s notes: {approving.notes}</div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Decision notes</label>
+                <textarea
+                  rows={2}
+                  value={decisionNotes}
+                  onChange={(e) => setDecisionNotes(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+
+              {canIssue && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={issueNow}
+                    onChange={(e) => setIssueNow(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Issue the approved quantities from the project store today
+                </label>
+              )}
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-between gap-2">
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => submitDecision(true)}
+                  className="px-4 py-2 border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+                >
+                  Reject
+                </button>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setApproving(null)}
+                    className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Close
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                  >
+                    {isSubmitting ? 'Saving...' : 'Approve'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Issue modal */}
+      {issuing && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Issue Requisition #{issuing.requisitionNo}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              Issued from the {issuing.project.name} store. Quantities left outstanding can be
+              issued later.
+            </p>
+            <form onSubmit={handleIssue} className="space-y-4">
+              <div className="w-48">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Issue date *</label>
+                <input
+                  type="date"
+                  required
+                  value={issueDate}
+                  onChange={(e) => setIssueDate(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <table className="min-w-full">
+                <thead>
+                  <tr>
+                    <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Outstanding</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">In store</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Issue</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issuing.lines
+                    .filter((line) => line.qtyOutstanding > 0)
+                    .map((line) => {
+                      const qty = parseFloat(issueQty[line.id]) || 0;
+                      const inStore = available[line.stockItem.id];
+                      const over =
+                        qty > line.qtyOutstanding || (inStore !== undefined && qty > inStore);
+                      return (
+                        <tr key={line.id}>
+                          <td className="py-1 text-sm">
+                            {line.stockItem.name}
+                            <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                          </td>
+                          <td className="py-1 px-2 text-sm text-right">{formatQty(line.qtyOutstanding)}</td>
+                          <td className="py-1 px-2 text-sm text-right">
+                            {inStore !== undefined ? formatQty(inStore) : '-'}
+                          </td>
+                          <td className="py-1 px-2 w-32">
+                            <input
+                              type="number"
+                              step="0.001"
+                              min="0"
+                              max={line.qtyOutstanding}
+                              value={issueQty[line.id] ?? ''}
+                              onChange={(e) => setIssueQty({ ...issueQty, [line.id]: e.target.value })}
+                              className={`w-full rounded-md shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500 ${
+                                over ? 'border-red-500' : 'border-gray-300'
+                              }`}
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                </tbody>
+              </table>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIssuing(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={
+                    isSubmitting || !issuing.lines.some((line) => parseFloat(issueQty[line.id]) > 0)
+                  }
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Issuing...' : 'Issue'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listMaterialRequisitions } from '@/lib/stock/materialRequisitions.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import RequisitionsClient from './components/RequisitionsClient';
+
+export default async function RequisitionsPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('requisitions', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [requisitions, projects, stockItems] = await Promise.all([
+    listMaterialRequisitions(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true, unit: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Material Requisitions">
+      <RequisitionsClient
+        currentUserId={auth.userId}
+        canRequest={can(auth.role, 'requisitions', 'WRITE')}
+        canApprove={can(auth.role, 'requisitions', 'APPROVE')}
+        canIssue={can(auth.role, 'stock', 'WRITE')}
+        projects={projects}
+        stockItems={stockItems}
+        requisitions={requisitions.map((requisition) => ({
+          ...requisition,
+          requestDate: requisition.requestDate.toISOString(),
+          requiredBy: requisition.requiredBy?.toISOString() ?? null,
+          decidedAt: requisition.decidedAt?.toISOString() ?? null,
+          createdAt: requisition.createdAt.toISOString(),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface Summary {
+  requisitions: number;
+  open: number;
+  lines: number;
+  linesFilled: number;
+  approvalRate: number;
+  fulfilmentRate: number;
+  avgDaysToDecision: number | null;
+}
+
+interface RequisitionFulfilmentClientProps {
+  from: string;
+  to: string;
+  projectId: string;
+  projects: Array<{ id: string; name: string }>;
+  totals: Summary;
+  projectRows: Array<Summary & { project: { id: string; name: string } }>;
+  itemRows: Array<{
+    stockItem: { id: string; name: string; unit: string };
+    requested: number;
+    approved: number;
+    issued: number;
+    fulfilmentRate: number;
+  }>;
+}
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const rateClass = (rate: number) =>
+  rate >= 90 ? 'text-green-700' : rate >= 60 ? 'text-amber-700' : 'text-red-700';
+
+export default function RequisitionFulfilmentClient({
+  from,
+  to,
+  projectId,
+  projects,
+  totals,
+  projectRows,
+  itemRows,
+}: RequisitionFulfilmentClientProps) {
+  const router = useRouter();
+  const [dateFrom, setDateFrom] = useState(from);
+  const [dateTo, setDateTo] = useState(to);
+  const [project, setProject] = useState(projectId);
+
+  const handleFilter = () => {
+    const params = new URLSearchParams();
+    if (dateFrom) params.set('from', dateFrom);
+    if (dateTo) params.set('to', dateTo);
+    if (project) params.set('projectId', project);
+    router.push(`/dashboard/stock/requisitions/report?${params.toString()}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Requested from</label>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Requested to</label>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Project</label>
+            <select
+              value={project}
+              onChange={(e) => setProject(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">All projects</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply Filters
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Requisitions</div>
+          <div className="text-lg font-bold">{totals.requisitions}</div>
+          <div className="text-xs text-gray-500">{totals.open} open</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Lines filled in full</div>
+          <div className="text-lg font-bold">
+            {totals.linesFilled} / {totals.lines}
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Approval rate</div>
+          <div className="text-lg font-bold">{totals.approvalRate}%</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Fulfilment rate</div>
+          <div className={`text-lg font-bold ${rateClass(totals.fulfilmentRate)}`}>
+            {totals.fulfilmentRate}%
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Avg days to decision</div>
+          <div className="text-lg font-bold">{totals.avgDaysToDecision ?? '-'}</div>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500">
+        Rates are the share of the requested quantity approved or issued, averaged over
+        requisition lines. Cancelled requisitions are left out.
+      </p>
+
+      {/* By project */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">By project</div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requisitions</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Open</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Lines filled</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approval rate</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fulfilment rate</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Days to decision</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {projectRows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No requisitions in this period
+                </td>
+              </tr>
+            ) : (
+              projectRows.map((row) => (
+                <tr key={row.project.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm">
+                    <Link
+                      href={`/dashboard/projects/${row.project.id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {row.project.name}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{row.requisitions}</td>
+                  <td className="px-4 py-2 text-sm text-right">{row.open}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {row.linesFilled} / {row.lines}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{row.approvalRate}%</td>
+                  <td className={`px-4 py-2 text-sm text-right font-medium ${rateClass(row.fulfilmentRate)}`}>
+                    {row.fulfilmentRate}%
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{row.avgDaysToDecision ?? '-'}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* By item */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 font-semibold text-gray-800">By material</div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Material</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Requested</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Approved</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Issued</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Fulfilment rate</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {itemRows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No requisitions in this period
+                </td>
+              </tr>
+            ) : (
+              itemRows.map((row) => (
+                <tr key={row.stockItem.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm">
+                    {row.stockItem.name}
+                    <span className="text-gray-500 ml-1">({row.stockItem.unit})</span>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{formatQty(row.requested)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatQty(row.approved)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatQty(row.issued)}</td>
+                  <td className={`px-4 py-2 text-sm text-right font-medium ${rateClass(row.fulfilmentRate)}`}>
+                    {row.fulfilmentRate}%
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
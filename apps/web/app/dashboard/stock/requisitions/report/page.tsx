@@ -0,0 +1,50 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { getRequisitionFulfilmentReport } from '@/lib/stock/materialRequisitions.server';
+import DashboardLayout from '../../../components/DashboardLayout';
+import RequisitionFulfilmentClient from './RequisitionFulfilmentClient';
+
+export default async function RequisitionFulfilmentPage({
+  searchParams,
+}: {
+  searchParams: { from?: string; to?: string; projectId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('requisitions', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const from = searchParams.from || '';
+  const to = searchParams.to || '';
+  const projectId = searchParams.projectId || undefined;
+
+  const [report, projects] = await Promise.all([
+    getRequisitionFulfilmentReport(auth.companyId, {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(`${to}T23:59:59.999Z`) : undefined,
+      projectId,
+    }),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Requisition Fulfilment">
+      <RequisitionFulfilmentClient
+        from={from}
+        to={to}
+        projectId={projectId || ''}
+        projects={projects}
+        totals={report.totals}
+        projectRows={report.projects}
+        itemRows={report.items}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,441 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+type StockTakeStatus = 'COUNTING' | 'SUBMITTED' | 'POSTED' | 'CANCELLED';
+
+interface StockTakeLine {
+  id: string;
+  stockItem: { id: string; name: string; sku: string | null; unit: string };
+  expectedQty: number;
+  avgCost: number;
+  countedQty: number | null;
+  varianceQty: number | null;
+  varianceValue: number | null;
+  notes: string | null;
+}
+
+interface StockTake {
+  id: string;
+  stockTakeNo: number;
+  status: StockTakeStatus;
+  location: { id: string; name: string };
+  project: { id: string; name: string } | null;
+  countDate: string;
+  snapshotAt: string;
+  notes: string | null;
+  createdBy: { id: string; name: string };
+  submittedBy: { id: string; name: string } | null;
+  submittedAt: string | null;
+  approvedBy: { id: string; name: string } | null;
+  approvedAt: string | null;
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  lines: StockTakeLine[];
+  summary: {
+    itemCount: number;
+    countedCount: number;
+    varianceCount: number;
+    expectedValue: number;
+    shortageValue: number;
+    surplusValue: number;
+    netVarianceValue: number;
+  };
+}
+
+interface StockTakeDetailClientProps {
+  canWrite: boolean;
+  canApprove: boolean;
+  stockTake: StockTake;
+}
+
+type WorkflowAction = 'SUBMIT' | 'RETURN' | 'APPROVE' | 'CANCEL';
+
+const STATUS_LABELS: Record<StockTakeStatus, string> = {
+  COUNTING: 'Counting',
+  SUBMITTED: 'Awaiting review',
+  POSTED: 'Posted',
+  CANCELLED: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<StockTakeStatus, string> = {
+  COUNTING: 'bg-blue-100 text-blue-800',
+  SUBMITTED: 'bg-yellow-100 text-yellow-800',
+  POSTED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const initialCounts = (lines: StockTakeLine[]) =>
+  Object.fromEntries(
+    lines.map((line) => [line.id, line.countedQty != null ? String(line.countedQty) : ''])
+  );
+
+export default function StockTakeDetailClient({
+  canWrite,
+  canApprove,
+  stockTake,
+}: StockTakeDetailClientProps) {
+  const router = useRouter();
+  const [counts, setCounts] = useState<Record<string, string>>(() => initialCounts(stockTake.lines));
+  const [lineNotes, setLineNotes] = useState<Record<string, string>>(() =>
+    Object.fromEntries(stockTake.lines.map((line) => [line.id, line.notes ?? '']))
+  );
+  const [search, setSearch] = useState('');
+  const [onlyVariances, setOnlyVariances] = useState(stockTake.status !== 'COUNTING');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isCounting = stockTake.status === 'COUNTING';
+  const editable = canWrite && isCounting;
+
+  const isDirty = stockTake.lines.some(
+    (line) =>
+      (counts[line.id] ?? '') !== (line.countedQty != null ? String(line.countedQty) : '') ||
+      (lineNotes[line.id] ?? '') !== (line.notes ?? '')
+  );
+
+  const visible = stockTake.lines.filter(
+    (line) =>
+      (!search || line.stockItem.name.toLowerCase().includes(search.toLowerCase())) &&
+      (!onlyVariances || (line.varianceQty != null && line.varianceQty !== 0))
+  );
+
+  const saveCounts = async () => {
+    const response = await fetch(`/api/stock/stock-takes/${stockTake.id}/counts`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        lines: stockTake.lines.map((line) => ({
+          lineId: line.id,
+          countedQty: counts[line.id] !== '' && counts[line.id] != null ? parseFloat(counts[line.id]) : null,
+          notes: lineNotes[line.id] || null,
+        })),
+      }),
+    });
+    const data = await response.json();
+    if (!data.ok) {
+      throw new Error(data.error || 'Failed to save counts');
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await saveCounts();
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while saving counts');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWorkflow = async (action: WorkflowAction) => {
+    const prompt = {
+      SUBMIT: `Submit stock take #${stockTake.stockTakeNo} for review? Counts cannot be changed unless it is returned.`,
+      RETURN: `Return stock take #${stockTake.stockTakeNo} for recounting?`,
+      APPROVE: `Approve stock take #${stockTake.stockTakeNo}? ${stockTake.summary.varianceCount} variance(s) worth ${toMoney(stockTake.summary.netVarianceValue)} net will be posted to stock and the ledger.`,
+      CANCEL: `Cancel stock take #${stockTake.stockTakeNo}? Nothing will be adjusted.`,
+    }[action];
+    if (!confirm(prompt)) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (action === 'SUBMIT' && isDirty) {
+        await saveCounts();
+      }
+      const response = await fetch(`/api/stock/stock-takes/${stockTake.id}/workflow`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setOnlyVariances(action === 'SUBMIT' || action === 'APPROVE');
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to update stock take');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating the stock take');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openCountSheet = (blind: boolean) => {
+    window.open(`/print/stock-takes/${stockTake.id}${blind ? '?blind=true' : ''}`, '_blank');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-x-8 gap-y-3 text-sm">
+            <div>
+              <div className="text-gray-500">Location</div>
+              <div className="font-medium">{stockTake.location.name}</div>
+              {stockTake.project && (
+                <Link
+                  href={`/dashboard/projects/${stockTake.project.id}`}
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  {stockTake.project.name}
+                </Link>
+              )}
+            </div>
+            <div>
+              <div className="text-gray-500">Count date</div>
+              <div>{formatDate(stockTake.countDate)}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Snapshot taken</div>
+              <div>{new Date(stockTake.snapshotAt).toLocaleString('en-US')}</div>
+            </div>
+            <div>
+              <div className="text-gray-500">Status</div>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[stockTake.status]}`}>
+                {STATUS_LABELS[stockTake.status]}
+              </span>
+            </div>
+            <div>
+              <div className="text-gray-500">Started by</div>
+              <div>{stockTake.createdBy.name}</div>
+            </div>
+            {stockTake.submittedBy && (
+              <div>
+                <div className="text-gray-500">Submitted by</div>
+                <div>
+                  {stockTake.submittedBy.name}
+                  {stockTake.submittedAt ? ` on ${formatDate(stockTake.submittedAt)}` : ''}
+                </div>
+              </div>
+            )}
+            {stockTake.approvedBy && (
+              <div>
+                <div className="text-gray-500">Approved by</div>
+                <div>
+                  {stockTake.approvedBy.name}
+                  {stockTake.approvedAt ? ` on ${formatDate(stockTake.approvedAt)}` : ''}
+                </div>
+              </div>
+            )}
+            {stockTake.voucher && (
+              <div>
+                <div className="text-gray-500">Voucher</div>
+                <Link
+                  href={`/dashboard/vouchers/${stockTake.voucher.id}`}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  {stockTake.voucher.voucherNo}
+                </Link>
+                <span className="text-xs text-gray-500 ml-1">({stockTake.voucher.status})</span>
+              </div>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => openCountSheet(true)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 text-sm"
+            >
+              Print Count Sheet
+            </button>
+            {canApprove && (
+              <button
+                onClick={() => openCountSheet(false)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 text-sm"
+              >
+                Print with Expected
+              </button>
+            )}
+            {editable && (
+              <>
+                <button
+                  onClick={handleSave}
+                  disabled={isSubmitting || !isDirty}
+                  className="px-4 py-2 border border-blue-300 rounded-md text-blue-700 bg-white hover:bg-blue-50 text-sm disabled:opacity-50"
+                >
+                  Save Counts
+                </button>
+                <button
+                  onClick={() => handleWorkflow('SUBMIT')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  Submit for Review
+                </button>
+              </>
+            )}
+            {canApprove && stockTake.status === 'SUBMITTED' && (
+              <>
+                <button
+                  onClick={() => handleWorkflow('APPROVE')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+                >
+                  Approve &amp; Post
+                </button>
+                <button
+                  onClick={() => handleWorkflow('RETURN')}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+                >
+                  Return for Recount
+                </button>
+              </>
+            )}
+            {canApprove && (isCounting || stockTake.status === 'SUBMITTED') && (
+              <button
+                onClick={() => handleWorkflow('CANCEL')}
+                disabled={isSubmitting}
+                className="px-4 py-2 border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50 text-sm disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+        {stockTake.notes && <p className="mt-4 text-sm text-gray-600">{stockTake.notes}</p>}
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Variance summary */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Items counted</div>
+          <div className="text-2xl font-bold">
+            {stockTake.summary.countedCount} / {stockTake.summary.itemCount}
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Shortages at avg cost</div>
+          <div className="text-2xl font-bold text-red-600">{toMoney(stockTake.summary.shortageValue)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Surpluses at avg cost</div>
+          <div className="text-2xl font-bold text-green-600">{toMoney(stockTake.summary.surplusValue)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Net value impact</div>
+          <div
+            className={`text-2xl font-bold ${stockTake.summary.netVarianceValue < 0 ? 'text-red-600' : ''}`}
+          >
+            {toMoney(stockTake.summary.netVarianceValue)}
+          </div>
+          <div className="text-xs text-gray-500">of {toMoney(stockTake.summary.expectedValue)} expected</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          placeholder="Search items..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={onlyVariances}
+            onChange={(e) => setOnlyVariances(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Only saved variances
+        </label>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Expected</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variance</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Avg cost</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value impact</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Notes</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No items to show
+                </td>
+              </tr>
+            ) : (
+              visible.map((line) => (
+                <tr key={line.id}>
+                  <td className="px-4 py-2 text-sm">
+                    {line.stockItem.name}
+                    <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                    {line.stockItem.sku && <div className="text-xs text-gray-500">{line.stockItem.sku}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{formatQty(line.expectedQty)}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {editable ? (
+                      <input
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        value={counts[line.id] ?? ''}
+                        onChange={(e) => setCounts({ ...counts, [line.id]: e.target.value })}
+                        className="w-28 rounded-md border-gray-300 shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    ) : line.countedQty != null ? (
+                      formatQty(line.countedQty)
+                    ) : (
+                      <span className="text-gray-400">Not counted</span>
+                    )}
+                  </td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${
+                      line.varianceQty != null && line.varianceQty < 0
+                        ? 'text-red-600'
+                        : line.varianceQty
+                          ? 'text-green-600'
+                          : ''
+                    }`}
+                  >
+                    {line.varianceQty != null
+                      ? `${line.varianceQty > 0 ? '+' : ''}${formatQty(line.varianceQty)}`
+                      : '-'}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(line.avgCost)}</td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${line.varianceValue != null && line.varianceValue < 0 ? 'text-red-600' : ''}`}
+                  >
+                    {line.varianceValue ? toMoney(line.varianceValue) : '-'}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {editable ? (
+                      <input
+                        type="text"
+                        value={lineNotes[line.id] ?? ''}
+                        onChange={(e) => setLineNotes({ ...lineNotes, [line.id]: e.target.value })}
+                        className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                      />
+                    ) : (
+                      <span className="text-gray-500">{line.notes || ''}</span>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
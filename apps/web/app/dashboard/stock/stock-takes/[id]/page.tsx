@@ -0,0 +1,38 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getStockTake } from '@/lib/stock/stockTakes.server';
+import DashboardLayout from '../../../components/DashboardLayout';
+import StockTakeDetailClient from './components/StockTakeDetailClient';
+
+export default async function StockTakeDetailPage({ params }: { params: { id: string } }) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stockTakes', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  let stockTake;
+  try {
+    stockTake = await getStockTake(auth.companyId, params.id);
+  } catch {
+    redirect('/dashboard/stock/stock-takes');
+  }
+
+  return (
+    <DashboardLayout title={`Stock Take #${stockTake.stockTakeNo}`}>
+      <StockTakeDetailClient
+        canWrite={can(auth.role, 'stockTakes', 'WRITE')}
+        canApprove={can(auth.role, 'stockTakes', 'APPROVE')}
+        stockTake={{
+          ...stockTake,
+          countDate: stockTake.countDate.toISOString(),
+          snapshotAt: stockTake.snapshotAt.toISOString(),
+          submittedAt: stockTake.submittedAt?.toISOString() ?? null,
+          approvedAt: stockTake.approvedAt?.toISOString() ?? null,
+        }}
+      />
+    </DashboardLayout>
+  );
+}
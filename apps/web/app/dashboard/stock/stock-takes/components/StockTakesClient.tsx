@@ -0,0 +1,279 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+type StockTakeStatus = 'COUNTING' | 'SUBMITTED' | 'POSTED' | 'CANCELLED';
+
+interface StockTake {
+  id: string;
+  stockTakeNo: number;
+  status: StockTakeStatus;
+  location: Location;
+  countDate: string;
+  createdBy: { id: string; name: string };
+  voucher: { id: string; voucherNo: string; status: string } | null;
+  summary: {
+    itemCount: number;
+    countedCount: number;
+    varianceCount: number;
+    netVarianceValue: number;
+  };
+}
+
+interface StockTakesClientProps {
+  canWrite: boolean;
+  locations: Location[];
+  stockTakes: StockTake[];
+}
+
+const STOCK_TAKE_STATUS_LABELS: Record<StockTakeStatus, string> = {
+  COUNTING: 'Counting',
+  SUBMITTED: 'Awaiting review',
+  POSTED: 'Posted',
+  CANCELLED: 'Cancelled',
+};
+
+const STOCK_TAKE_STATUS_STYLES: Record<StockTakeStatus, string> = {
+  COUNTING: 'bg-blue-100 text-blue-800',
+  SUBMITTED: 'bg-yellow-100 text-yellow-800',
+  POSTED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-600',
+};
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function StockTakesClient({ canWrite, locations, stockTakes }: StockTakesClientProps) {
+  const router = useRouter();
+  const [statusFilter, setStatusFilter] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+  const [locationId, setLocationId] = useState('');
+  const [countDate, setCountDate] = useState(today());
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = stockTakes.filter((s) => !statusFilter || s.status === statusFilter);
+
+  const openCreate = () => {
+    setLocationId('');
+    setCountDate(today());
+    setNotes('');
+    setError(null);
+    setShowCreate(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/stock/stock-takes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locationId, countDate, notes: notes || null }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.push(`/dashboard/stock/stock-takes/${data.data.id}`);
+      } else {
+        setError(data.error || 'Failed to start stock-take');
+      }
+    } catch {
+      setError('An error occurred while starting the stock-take');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Being counted</div>
+          <div className="text-2xl font-bold text-blue-600">
+            {stockTakes.filter((s) => s.status === 'COUNTING').length}
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Awaiting review</div>
+          <div className="text-2xl font-bold text-yellow-600">
+            {stockTakes.filter((s) => s.status === 'SUBMITTED').length}
+          </div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Posted</div>
+          <div className="text-2xl font-bold">{stockTakes.filter((s) => s.status === 'POSTED').length}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          {(Object.keys(STOCK_TAKE_STATUS_LABELS) as StockTakeStatus[]).map((status) => (
+            <option key={status} value={status}>
+              {STOCK_TAKE_STATUS_LABELS[status]}
+            </option>
+          ))}
+        </select>
+        {canWrite && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Stock Take
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Stock take</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Count date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Counted</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Variances</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Net value</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No stock takes
+                </td>
+              </tr>
+            ) : (
+              visible.map((stockTake) => (
+                <tr key={stockTake.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm">
+                    <Link
+                      href={`/dashboard/stock/stock-takes/${stockTake.id}`}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      #{stockTake.stockTakeNo}
+                    </Link>
+                    <div className="text-xs text-gray-500">by {stockTake.createdBy.name}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(stockTake.countDate)}</td>
+                  <td className="px-4 py-2 text-sm">{stockTake.location.name}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {stockTake.summary.countedCount} / {stockTake.summary.itemCount}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{stockTake.summary.varianceCount}</td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${stockTake.summary.netVarianceValue < 0 ? 'text-red-600' : ''}`}
+                  >
+                    {toMoney(stockTake.summary.netVarianceValue)}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <span
+                      className={`px-2 py-0.5 rounded text-xs font-medium ${STOCK_TAKE_STATUS_STYLES[stockTake.status]}`}
+                    >
+                      {STOCK_TAKE_STATUS_LABELS[stockTake.status]}
+                    </span>
+                    {stockTake.voucher && (
+                      <Link
+                        href={`/dashboard/vouchers/${stockTake.voucher.id}`}
+                        className="ml-2 text-xs text-blue-600 hover:text-blue-800"
+                      >
+                        {stockTake.voucher.voucherNo}
+                      </Link>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New stock take modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">New Stock Take</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              The quantity on hand of every active item at the location is frozen now as the expected
+              count.
+            </p>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Location *</label>
+                <select
+                  required
+                  value={locationId}
+                  onChange={(e) => setLocationId(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Select location...</option>
+                  {locations.map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {location.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Count date *</label>
+                <input
+                  type="date"
+                  required
+                  value={countDate}
+                  onChange={(e) => setCountDate(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreate(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Starting...' : 'Start Count'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
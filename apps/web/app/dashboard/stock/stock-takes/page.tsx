@@ -0,0 +1,44 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listStockTakes } from '@/lib/stock/stockTakes.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockTakesClient from './components/StockTakesClient';
+
+export default async function StockTakesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stockTakes', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [stockTakes, locations] = await Promise.all([
+    listStockTakes(auth.companyId),
+    prisma.stockLocation.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true },
+      orderBy: [{ isDefault: 'desc' }, { type: 'asc' }, { name: 'asc' }],
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Stock Takes">
+      <StockTakesClient
+        canWrite={can(auth.role, 'stockTakes', 'WRITE')}
+        locations={locations}
+        stockTakes={stockTakes.map((stockTake) => ({
+          id: stockTake.id,
+          stockTakeNo: stockTake.stockTakeNo,
+          status: stockTake.status,
+          location: stockTake.location,
+          countDate: stockTake.countDate.toISOString(),
+          createdBy: stockTake.createdBy,
+          voucher: stockTake.voucher,
+          summary: stockTake.summary,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface NamedRef {
+  id: string;
+  name: string;
+}
+
+interface HistoryEntry {
+  movementId: string;
+  movementDate: string;
+  type: 'IN' | 'OUT' | 'ADJUST';
+  movementKind: string | null;
+  qty: number;
+  location: NamedRef | null;
+  project: NamedRef | null;
+  sourceProject: NamedRef | null;
+  destinationProject: NamedRef | null;
+  vendor: NamedRef | null;
+  notes: string | null;
+}
+
+interface TracedLot {
+  id: string;
+  lotNumber: string;
+  stockItem: { id: string; name: string; unit: string };
+  expiryDate: string | null;
+  certificateUrl: string | null;
+  onHand: Array<{ location: NamedRef; qty: number }>;
+  history: HistoryEntry[];
+}
+
+interface TracedSerial {
+  id: string;
+  serialNumber: string;
+  stockItem: { id: string; name: string; unit: string };
+  status: 'IN_STOCK' | 'IN_TRANSIT' | 'ISSUED';
+  location: NamedRef | null;
+  history: HistoryEntry[];
+}
+
+interface StockTraceClientProps {
+  filters: { q: string; stockItemId: string };
+  trackedItems: Array<{ id: string; name: string; trackingMode: string }>;
+  trace: { lots: TracedLot[]; serials: TracedSerial[] };
+}
+
+const KIND_LABELS: Record<string, string> = {
+  OPENING: 'Opening',
+  RECEIVE: 'Received',
+  ISSUE: 'Issued',
+  TRANSFER_IN: 'Transfer in',
+  TRANSFER_OUT: 'Transfer out',
+  RETURN_IN: 'Returned',
+  WASTAGE: 'Wastage',
+  ADJUSTMENT: 'Adjustment',
+};
+
+const STATUS_LABELS: Record<TracedSerial['status'], string> = {
+  IN_STOCK: 'In stock',
+  IN_TRANSIT: 'In transit',
+  ISSUED: 'Issued',
+};
+
+const STATUS_COLORS: Record<TracedSerial['status'], string> = {
+  IN_STOCK: 'bg-green-100 text-green-800',
+  IN_TRANSIT: 'bg-yellow-100 text-yellow-800',
+  ISSUED: 'bg-gray-100 text-gray-800',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+function kindLabel(entry: HistoryEntry) {
+  if (entry.movementKind) {
+    return KIND_LABELS[entry.movementKind] ?? entry.movementKind;
+  }
+  return entry.type === 'IN' ? 'Received' : entry.type === 'OUT' ? 'Issued' : 'Adjusted';
+}
+
+function HistoryTable({ history, unit }: { history: HistoryEntry[]; unit: string }) {
+  if (history.length === 0) {
+    return <p className="px-4 py-3 text-sm text-gray-500">No movements recorded</p>;
+  }
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Movement</th>
+          <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Qty</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Location</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {history.map((entry) => (
+          <tr key={entry.movementId}>
+            <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(entry.movementDate)}</td>
+            <td className="px-4 py-2 text-sm">{kindLabel(entry)}</td>
+            <td className={`px-4 py-2 text-sm text-right ${entry.type === 'OUT' ? 'text-red-600' : 'text-green-700'}`}>
+              {entry.type === 'OUT' ? '-' : '+'}
+              {formatQty(entry.qty)} {unit}
+            </td>
+            <td className="px-4 py-2 text-sm">{entry.location?.name ?? '-'}</td>
+            <td className="px-4 py-2 text-sm">{entry.project?.name ?? '-'}</td>
+            <td className="px-4 py-2 text-sm text-gray-600">
+              {entry.movementKind === 'TRANSFER_OUT' && entry.destinationProject
+                ? `To ${entry.destinationProject.name}`
+                : entry.movementKind === 'TRANSFER_IN' && entry.sourceProject
+                  ? `From ${entry.sourceProject.name}`
+                  : entry.vendor
+                    ? `From ${entry.vendor.name}`
+                    : entry.notes || ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function StockTraceClient({ filters, trackedItems, trace }: StockTraceClientProps) {
+  const router = useRouter();
+  const [form, setForm] = useState(filters);
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    if (form.q.trim()) params.set('q', form.q.trim());
+    if (form.stockItemId) params.set('stockItemId', form.stockItemId);
+    router.push(`/dashboard/stock/trace?${params.toString()}`);
+  };
+
+  const searched = !!(filters.q || filters.stockItemId);
+  const found = trace.lots.length + trace.serials.length;
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={applyFilters} className="flex flex-wrap gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lot or serial number</label>
+          <input
+            type="text"
+            value={form.q}
+            onChange={(e) => setForm({ ...form, q: e.target.value })}
+            placeholder="e.g. GEN-2041 or MTC-0712"
+            className="w-64 px-3 py-2 border border-gray-300 rounded-md"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Item</label>
+          <select
+            value={form.stockItemId}
+            onChange={(e) => setForm({ ...form, stockItemId: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">All tracked items</option>
+            {trackedItems.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name} ({item.trackingMode === 'SERIAL' ? 'serial' : 'lot'})
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+        >
+          Trace
+        </button>
+      </form>
+
+      {!searched ? (
+        <p className="text-sm text-gray-500">
+          Enter a lot or serial number, or pick an item, to see where it has been.
+        </p>
+      ) : found === 0 ? (
+        <p className="text-sm text-gray-500">No lots or serial numbers found</p>
+      ) : null}
+
+      {trace.serials.map((serial) => (
+        <div key={serial.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <div className="text-sm font-semibold text-gray-900">
+                Serial {serial.serialNumber}
+              </div>
+              <div className="text-xs text-gray-500">{serial.stockItem.name}</div>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[serial.status]}`}>
+                {STATUS_LABELS[serial.status]}
+              </span>
+              {serial.location && <span className="text-gray-600">at {serial.location.name}</span>}
+            </div>
+          </div>
+          <HistoryTable history={serial.history} unit={serial.stockItem.unit} />
+        </div>
+      ))}
+
+      {trace.lots.map((lot) => (
+        <div key={lot.id} className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap items-start justify-between gap-2">
+            <div>
+              <div className="text-sm font-semibold text-gray-900">Lot {lot.lotNumber}</div>
+              <div className="text-xs text-gray-500">
+                {lot.stockItem.name}
+                {lot.expiryDate ? ` · Expires ${formatDate(lot.expiryDate)}` : ''}
+              </div>
+              {lot.certificateUrl && (
+                <a
+                  href={lot.certificateUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 hover:text-blue-800"
+                >
+                  Test certificate
+                </a>
+              )}
+            </div>
+            <div className="text-sm text-gray-600 text-right">
+              {lot.onHand.length === 0
+                ? 'None in stock'
+                : lot.onHand.map((held) => (
+                    <div key={held.location.id}>
+                      {formatQty(held.qty)} {lot.stockItem.unit} at {held.location.name}
+                    </div>
+                  ))}
+            </div>
+          </div>
+          <HistoryTable history={lot.history} unit={lot.stockItem.unit} />
+        </div>
+      ))}
+    </div>
+  );
+}
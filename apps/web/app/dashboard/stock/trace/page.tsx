@@ -0,0 +1,61 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { StockTraceFiltersSchema } from '@accounting/shared';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getStockTrace } from '@/lib/stock/stockTracking.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockTraceClient from './components/StockTraceClient';
+
+export default async function StockTracePage({
+  searchParams,
+}: {
+  searchParams: { q?: string; stockItemId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const parsed = StockTraceFiltersSchema.safeParse({
+    q: searchParams.q || undefined,
+    stockItemId: searchParams.stockItemId || undefined,
+  });
+  const filters = parsed.success ? parsed.data : {};
+
+  const [trace, trackedItems] = await Promise.all([
+    getStockTrace(auth.companyId, filters),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, trackingMode: { not: 'NONE' } },
+      select: { id: true, name: true, trackingMode: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Lot & Serial Trace">
+      <StockTraceClient
+        filters={{ q: filters.q ?? '', stockItemId: filters.stockItemId ?? '' }}
+        trackedItems={trackedItems}
+        trace={{
+          lots: trace.lots.map((lot) => ({
+            ...lot,
+            expiryDate: lot.expiryDate?.toISOString() ?? null,
+            history: lot.history.map((entry) => ({
+              ...entry,
+              movementDate: entry.movementDate.toISOString(),
+            })),
+          })),
+          serials: trace.serials.map((serial) => ({
+            ...serial,
+            history: serial.history.map((entry) => ({
+              ...entry,
+              movementDate: entry.movementDate.toISOString(),
+            })),
+          })),
+        }}
+      />
+    </DashboardLayout>
+  );
+}
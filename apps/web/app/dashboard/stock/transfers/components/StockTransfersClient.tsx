@@ -0,0 +1,760 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import StockTrackingFields, {
+  emptyTracking,
+  toTrackingPayload,
+  TrackingInput,
+  TrackingMode,
+} from '../../components/StockTrackingFields';
+
+interface Project {
+  id: string;
+  name: string;
+}
+
+interface TransferLine {
+  id: string;
+  stockItem: { id: string; name: string; unit: string };
+  qtySent: number;
+  unitCost: number;
+  value: number;
+  qtyReceived: number | null;
+  shortfallQty: number | null;
+}
+
+interface Transfer {
+  id: string;
+  transferNo: number;
+  status: 'IN_TRANSIT' | 'RECEIVED';
+  sourceProject: Project;
+  destinationProject: Project;
+  dispatchDate: string;
+  receivedDate: string | null;
+  notes: string | null;
+  receiptNotes: string | null;
+  createdBy: { id: string; name: string };
+  receivedBy: { id: string; name: string } | null;
+  lines: TransferLine[];
+  totalValue: number;
+  shortfallValue: number;
+}
+
+interface SourceItem {
+  stockItemId: string;
+  stockItemName: string;
+  stockItemUnit: string;
+  remainingQty: number;
+  avgRate: number;
+}
+
+interface AvailableTracking {
+  lots: Array<{ lotNumber: string; qty: number; expiryDate: string | null }>;
+  serials: Array<{ serialNumber: string }>;
+}
+
+interface StockTransfersClientProps {
+  canWrite: boolean;
+  projects: Project[];
+  transfers: Transfer[];
+  // Items tracked by lot or serial number
+  trackedItems: Array<{ id: string; trackingMode: TrackingMode }>;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const emptyLine = { stockItemId: '', qty: '', tracking: emptyTracking };
+
+export default function StockTransfersClient({
+  canWrite,
+  projects,
+  transfers,
+  trackedItems,
+}: StockTransfersClientProps) {
+  const router = useRouter();
+  const [statusFilter, setStatusFilter] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // New transfer
+  const [showCreate, setShowCreate] = useState(false);
+  const [sourceProjectId, setSourceProjectId] = useState('');
+  const [destinationProjectId, setDestinationProjectId] = useState('');
+  const [dispatchDate, setDispatchDate] = useState(today());
+  const [requireReceipt, setRequireReceipt] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState([{ ...emptyLine }]);
+  const [sourceItems, setSourceItems] = useState<SourceItem[]>([]);
+  const [isLoadingItems, setIsLoadingItems] = useState(false);
+  const [available, setAvailable] = useState<Record<string, AvailableTracking>>({});
+
+  // Receive
+  const [receiving, setReceiving] = useState<Transfer | null>(null);
+  const [receivedDate, setReceivedDate] = useState(today());
+  const [receiptNotes, setReceiptNotes] = useState('');
+  const [receivedQty, setReceivedQty] = useState<Record<string, string>>({});
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const visible = statusFilter ? transfers.filter((t) => t.status === statusFilter) : transfers;
+  const inTransitCount = transfers.filter((t) => t.status === 'IN_TRANSIT').length;
+  const inTransitValue = transfers
+    .filter((t) => t.status === 'IN_TRANSIT')
+    .reduce((sum, t) => sum + t.totalValue, 0);
+
+  const trackingModeOf = (stockItemId: string) =>
+    trackedItems.find((item) => item.id === stockItemId)?.trackingMode;
+
+  // Lots and serials at the source site to pick from for a tracked item
+  const loadAvailable = async (stockItemId: string) => {
+    if (!trackingModeOf(stockItemId) || available[stockItemId]) return;
+    try {
+      const response = await fetch(
+        `/api/projects/${sourceProjectId}/stock/tracking?stockItemId=${stockItemId}`
+      );
+      const data = await response.json();
+      if (data.ok) {
+        setAvailable((current) => ({ ...current, [stockItemId]: data.data }));
+      }
+    } catch (err) {
+      console.error('Failed to load lots and serials:', err);
+    }
+  };
+
+  const loadSourceItems = async (projectId: string) => {
+    setSourceItems([]);
+    setAvailable({});
+    if (!projectId) return;
+    setIsLoadingItems(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/stock/overview`);
+      const data = await response.json();
+      if (data.ok) {
+        setSourceItems(
+          (data.data.items as SourceItem[]).filter((item) => item.remainingQty > 0)
+        );
+      } else {
+        setError(data.error || 'Failed to load project stock');
+      }
+    } catch {
+      setError('Failed to load project stock');
+    } finally {
+      setIsLoadingItems(false);
+    }
+  };
+
+  const openCreate = () => {
+    setSourceProjectId('');
+    setDestinationProjectId('');
+    setDispatchDate(today());
+    setRequireReceipt(true);
+    setNotes('');
+    setLines([{ ...emptyLine }]);
+    setSourceItems([]);
+    setError(null);
+    setShowCreate(true);
+  };
+
+  const updateLine = (index: number, field: 'stockItemId' | 'qty', value: string) => {
+    setLines(
+      lines.map((line, i) =>
+        i === index
+          ? {
+              ...line,
+              [field]: value,
+              ...(field === 'stockItemId' ? { tracking: emptyTracking } : {}),
+            }
+          : line
+      )
+    );
+    if (field === 'stockItemId' && value) {
+      loadAvailable(value);
+    }
+  };
+
+  const updateLineTracking = (index: number, tracking: TrackingInput) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, tracking } : line)));
+  };
+
+  const transferValue = lines.reduce((sum, line) => {
+    const item = sourceItems.find((i) => i.stockItemId === line.stockItemId);
+    return sum + (item ? (parseFloat(line.qty) || 0) * item.avgRate : 0);
+  }, 0);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/stock/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sourceProjectId,
+          destinationProjectId,
+          dispatchDate,
+          requireReceipt,
+          notes: notes || null,
+          lines: lines
+            .filter((line) => line.stockItemId)
+            .map((line) => ({
+              stockItemId: line.stockItemId,
+              qty: parseFloat(line.qty) || 0,
+              tracking: toTrackingPayload(trackingModeOf(line.stockItemId), line.tracking),
+            })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setShowCreate(false);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to create transfer');
+      }
+    } catch {
+      setError('An error occurred while creating the transfer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openReceive = (transfer: Transfer) => {
+    setReceiving(transfer);
+    setReceivedDate(today());
+    setReceiptNotes('');
+    setReceivedQty(
+      Object.fromEntries(transfer.lines.map((line) => [line.id, String(line.qtySent)]))
+    );
+    setError(null);
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiving) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/stock/transfers/${receiving.id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          receivedDate,
+          notes: receiptNotes || null,
+          lines: receiving.lines.map((line) => ({
+            lineId: line.id,
+            qtyReceived: parseFloat(receivedQty[line.id]) || 0,
+          })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setReceiving(null);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to receive transfer');
+      }
+    } catch {
+      setError('An error occurred while receiving the transfer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Transfers</div>
+          <div className="text-2xl font-bold">{transfers.length}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">In transit</div>
+          <div className="text-2xl font-bold text-orange-600">{inTransitCount}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Value in transit</div>
+          <div className="text-2xl font-bold">{toMoney(inTransitValue)}</div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+        >
+          <option value="">All statuses</option>
+          <option value="IN_TRANSIT">In transit</option>
+          <option value="RECEIVED">Received</option>
+        </select>
+        {canWrite && (
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            New Transfer
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transfer</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Dispatched</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">From</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">To</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Value</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Shortfall</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No stock transfers
+                </td>
+              </tr>
+            ) : (
+              visible.map((transfer) => (
+                <Fragment key={transfer.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="px-4 py-2 text-sm">
+                      <button
+                        onClick={() => setExpandedId(expandedId === transfer.id ? null : transfer.id)}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        #{transfer.transferNo}
+                      </button>
+                      <div className="text-xs text-gray-500">
+                        {transfer.lines.length} item{transfer.lines.length === 1 ? '' : 's'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-sm whitespace-nowrap">{formatDate(transfer.dispatchDate)}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        href={`/dashboard/projects/${transfer.sourceProject.id}/stock`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {transfer.sourceProject.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <Link
+                        href={`/dashboard/projects/${transfer.destinationProject.id}/stock`}
+                        className="text-blue-600 hover:text-blue-800"
+                      >
+                        {transfer.destinationProject.name}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">{toMoney(transfer.totalValue)}</td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {transfer.shortfallValue > 0 ? (
+                        <span className="text-red-600">{toMoney(transfer.shortfallValue)}</span>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      {transfer.status === 'IN_TRANSIT' ? (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                          In transit
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                          Received {transfer.receivedDate ? formatDate(transfer.receivedDate) : ''}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {canWrite && transfer.status === 'IN_TRANSIT' && (
+                        <button
+                          onClick={() => openReceive(transfer)}
+                          className="text-green-600 hover:text-green-800"
+                        >
+                          Receive
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedId === transfer.id && (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-3 bg-gray-50">
+                        <table className="min-w-full">
+                          <thead>
+                            <tr>
+                              <th className="px-2 py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                              <th className="px-2 py-1 text-right text-xs font-medium text-gray-500">Sent</th>
+                              <th className="px-2 py-1 text-right text-xs font-medium text-gray-500">Received</th>
+                              <th className="px-2 py-1 text-right text-xs font-medium text-gray-500">Shortfall</th>
+                              <th className="px-2 py-1 text-right text-xs font-medium text-gray-500">Rate</th>
+                              <th className="px-2 py-1 text-right text-xs font-medium text-gray-500">Value</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {transfer.lines.map((line) => (
+                              <tr key={line.id}>
+                                <td className="px-2 py-1 text-sm">
+                                  {line.stockItem.name}
+                                  <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                                </td>
+                                <td className="px-2 py-1 text-sm text-right">{formatQty(line.qtySent)}</td>
+                                <td className="px-2 py-1 text-sm text-right">
+                                  {line.qtyReceived != null ? formatQty(line.qtyReceived) : '-'}
+                                </td>
+                                <td className="px-2 py-1 text-sm text-right">
+                                  {line.shortfallQty ? formatQty(line.shortfallQty) : '-'}
+                                </td>
+                                <td className="px-2 py-1 text-sm text-right">{toMoney(line.unitCost)}</td>
+                                <td className="px-2 py-1 text-sm text-right">{toMoney(line.value)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <div className="mt-2 text-xs text-gray-500 space-y-1">
+                          <div>
+                            Dispatched by {transfer.createdBy.name}
+                            {transfer.receivedBy ? `, received by ${transfer.receivedBy.name}` : ''}
+                          </div>
+                          {transfer.notes && <div>Notes: {transfer.notes}</div>}
+                          {transfer.receiptNotes && <div>Receipt notes: {transfer.receiptNotes}</div>}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New transfer modal */}
+      {showCreate && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Stock Transfer</h3>
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">From project *</label>
+                  <select
+                    required
+                    value={sourceProjectId}
+                    onChange={(e) => {
+                      setSourceProjectId(e.target.value);
+                      setLines([{ ...emptyLine }]);
+                      loadSourceItems(e.target.value);
+                    }}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Select project...</option>
+                    {projects.map((project) => (
+                      <option key={project.id} value={project.id}>
+                        {project.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To project *</label>
+                  <select
+                    required
+                    value={destinationProjectId}
+                    onChange={(e) => setDestinationProjectId(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  >
+                    <option value="">Select project...</option>
+                    {projects
+                      .filter((project) => project.id !== sourceProjectId)
+                      .map((project) => (
+                        <option key={project.id} value={project.id}>
+                          {project.name}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dispatch date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={dispatchDate}
+                    onChange={(e) => setDispatchDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="text-sm font-medium text-gray-700 mb-1">Materials</div>
+                {isLoadingItems ? (
+                  <div className="text-sm text-gray-500">Loading project stock...</div>
+                ) : sourceProjectId && sourceItems.length === 0 ? (
+                  <div className="text-sm text-amber-600">No stock on hand at this project</div>
+                ) : (
+                  <table className="min-w-full">
+                    <thead>
+                      <tr>
+                        <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                        <th className="py-1 text-right text-xs font-medium text-gray-500">Available</th>
+                        <th className="py-1 text-right text-xs font-medium text-gray-500">Avg rate</th>
+                        <th className="py-1 text-right text-xs font-medium text-gray-500">Qty</th>
+                        <th className="py-1"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map((line, index) => {
+                        const item = sourceItems.find((i) => i.stockItemId === line.stockItemId);
+                        const over = item && parseFloat(line.qty) > item.remainingQty;
+                        const trackingMode = trackingModeOf(line.stockItemId);
+                        return (
+                          <Fragment key={index}>
+                            <tr>
+                              <td className="py-1 pr-2">
+                                <select
+                                  value={line.stockItemId}
+                                  onChange={(e) => updateLine(index, 'stockItemId', e.target.value)}
+                                  disabled={!sourceProjectId}
+                                  className="w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-500 focus:ring-blue-500"
+                                >
+                                  <option value="">Select item...</option>
+                                  {sourceItems
+                                    .filter(
+                                      (i) =>
+                                        i.stockItemId === line.stockItemId ||
+                                        !lines.some((l) => l.stockItemId === i.stockItemId)
+                                    )
+                                    .map((i) => (
+                                      <option key={i.stockItemId} value={i.stockItemId}>
+                                        {i.stockItemName}
+                                        {i.stockItemUnit ? ` (${i.stockItemUnit})` : ''}
+                                      </option>
+                                    ))}
+                                </select>
+                              </td>
+                              <td className="py-1 px-2 text-sm text-right">
+                                {item ? formatQty(item.remainingQty) : '-'}
+                              </td>
+                              <td className="py-1 px-2 text-sm text-right">
+                                {item ? toMoney(item.avgRate) : '-'}
+                              </td>
+                              <td className="py-1 px-2 w-32">
+                                <input
+                                  type="number"
+                                  step="0.001"
+                                  min="0.001"
+                                  required={!!line.stockItemId}
+                                  value={line.qty}
+                                  onChange={(e) => updateLine(index, 'qty', e.target.value)}
+                                  className={`w-full rounded-md shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500 ${
+                                    over ? 'border-red-500' : 'border-gray-300'
+                                  }`}
+                                />
+                              </td>
+                              <td className="py-1 text-right">
+                                {lines.length > 1 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                                    className="text-sm text-red-600 hover:text-red-800"
+                                  >
+                                    Remove
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                            {trackingMode && (
+                              <tr>
+                                <td colSpan={5} className="pb-2 pr-2">
+                                  <StockTrackingFields
+                                    mode={trackingMode}
+                                    direction="OUT"
+                                    compact
+                                    value={line.tracking}
+                                    onChange={(tracking) => updateLineTracking(index, tracking)}
+                                    available={available[line.stockItemId] ?? null}
+                                  />
+                                </td>
+                              </tr>
+                            )}
+                          </Fragment>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+                <div className="flex items-center justify-between mt-2">
+                  <button
+                    type="button"
+                    onClick={() => setLines([...lines, { ...emptyLine }])}
+                    disabled={!sourceProjectId || lines.length >= sourceItems.length}
+                    className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    + Add material
+                  </button>
+                  <div className="text-sm">
+                    Transfer value: <span className="font-medium">{toMoney(transferValue)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={requireReceipt}
+                  onChange={(e) => setRequireReceipt(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Keep in transit until the receiving site confirms the quantity
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                />
+              </div>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowCreate(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting || !lines.some((line) => line.stockItemId)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : requireReceipt ? 'Dispatch' : 'Transfer'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Receive modal */}
+      {receiving && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="relative bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">
+              Receive Transfer #{receiving.transferNo}
+            </h3>
+            <p className="text-sm text-gray-500 mb-4">
+              {receiving.sourceProject.name} to {receiving.destinationProject.name}, dispatched{' '}
+              {formatDate(receiving.dispatchDate)}. Any shortfall is recorded as wastage at{' '}
+              {receiving.destinationProject.name}.
+            </p>
+            <form onSubmit={handleReceive} className="space-y-4">
+              <table className="min-w-full">
+                <thead>
+                  <tr>
+                    <th className="py-1 text-left text-xs font-medium text-gray-500">Material</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Sent</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Received</th>
+                    <th className="py-1 text-right text-xs font-medium text-gray-500">Shortfall</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {receiving.lines.map((line) => {
+                    const qty = parseFloat(receivedQty[line.id]) || 0;
+                    const shortfall = Math.max(0, line.qtySent - qty);
+                    return (
+                      <tr key={line.id}>
+                        <td className="py-1 text-sm">
+                          {line.stockItem.name}
+                          <span className="text-gray-500 ml-1">({line.stockItem.unit})</span>
+                        </td>
+                        <td className="py-1 px-2 text-sm text-right">{formatQty(line.qtySent)}</td>
+                        <td className="py-1 px-2 w-32">
+                          <input
+                            type="number"
+                            step="0.001"
+                            min="0"
+                            max={line.qtySent}
+                            required
+                            value={receivedQty[line.id] ?? ''}
+                            onChange={(e) =>
+                              setReceivedQty({ ...receivedQty, [line.id]: e.target.value })
+                            }
+                            className="w-full rounded-md border-gray-300 shadow-sm text-sm text-right focus:border-blue-500 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className={`py-1 text-sm text-right ${shortfall > 0 ? 'text-red-600' : ''}`}>
+                          {shortfall > 0 ? formatQty(shortfall) : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Received date *</label>
+                  <input
+                    type="date"
+                    required
+                    value={receivedDate}
+                    onChange={(e) => setReceivedDate(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <input
+                    type="text"
+                    value={receiptNotes}
+                    onChange={(e) => setReceiptNotes(e.target.value)}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {error && <div className="text-sm text-red-600">{error}</div>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setReceiving(null)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isSubmitting ? 'Saving...' : 'Confirm Receipt'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listStockTransfers } from '@/lib/stock/stockTransfers.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import StockTransfersClient from './components/StockTransfersClient';
+
+export default async function StockTransfersPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [transfers, projects, trackedItems] = await Promise.all([
+    listStockTransfers(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, trackingMode: { not: 'NONE' } },
+      select: { id: true, trackingMode: true },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Stock Transfers">
+      <StockTransfersClient
+        canWrite={can(auth.role, 'stock', 'WRITE')}
+        projects={projects}
+        trackedItems={trackedItems}
+        transfers={transfers.map((transfer) => ({
+          ...transfer,
+          dispatchDate: transfer.dispatchDate.toISOString(),
+          receivedDate: transfer.receivedDate?.toISOString() ?? null,
+          createdAt: transfer.createdAt.toISOString(),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
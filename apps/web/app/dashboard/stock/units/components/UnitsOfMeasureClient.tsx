@@ -0,0 +1,296 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface Unit {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+  itemCount: number;
+}
+
+interface Item {
+  id: string;
+  name: string;
+  unit: string;
+  units: Array<{ unitId: string; factor: number }>;
+}
+
+interface UnitsOfMeasureClientProps {
+  canWrite: boolean;
+  units: Unit[];
+  items: Item[];
+}
+
+interface ConversionRow {
+  unitId: string;
+  factor: string;
+}
+
+export default function UnitsOfMeasureClient({ canWrite, units, items }: UnitsOfMeasureClientProps) {
+  const router = useRouter();
+  const [form, setForm] = useState({ code: '', name: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [itemId, setItemId] = useState('');
+  const [rows, setRows] = useState<ConversionRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [itemError, setItemError] = useState<string | null>(null);
+
+  const item = items.find((i) => i.id === itemId) ?? null;
+  const activeUnits = units.filter(
+    (u) => u.isActive && u.code.toLowerCase() !== item?.unit.toLowerCase()
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/stock/units', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setForm({ code: '', name: '' });
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to add unit');
+      }
+    } catch {
+      setError('An error occurred while adding the unit');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (unit: Unit) => {
+    try {
+      const response = await fetch(`/api/stock/units/${unit.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !unit.isActive }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update unit');
+      }
+    } catch {
+      alert('An error occurred while updating the unit');
+    }
+  };
+
+  const selectItem = (id: string) => {
+    const selected = items.find((i) => i.id === id);
+    setItemId(id);
+    setItemError(null);
+    setRows(
+      (selected?.units ?? []).map((u) => ({ unitId: u.unitId, factor: String(u.factor) }))
+    );
+  };
+
+  const updateRow = (index: number, patch: Partial<ConversionRow>) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSaveConversions = async () => {
+    if (!item) return;
+    setIsSaving(true);
+    setItemError(null);
+    try {
+      const response = await fetch(`/api/stock/items/${item.id}/units`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          units: rows
+            .filter((row) => row.unitId)
+            .map((row) => ({ unitId: row.unitId, factor: parseFloat(row.factor) })),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        setItemError(data.error || 'Failed to save conversions');
+      }
+    } catch {
+      setItemError('An error occurred while saving the conversions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Catalogue */}
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Catalogue</h2>
+        <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Items</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {units.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-8 text-center text-sm text-gray-500">
+                    No units yet
+                  </td>
+                </tr>
+              ) : (
+                units.map((unit) => (
+                  <tr key={unit.id} className={unit.isActive ? '' : 'bg-gray-50 text-gray-400'}>
+                    <td className="px-4 py-2 text-sm font-medium">{unit.code}</td>
+                    <td className="px-4 py-2 text-sm">{unit.name}</td>
+                    <td className="px-4 py-2 text-sm text-right">{unit.itemCount}</td>
+                    <td className="px-4 py-2 text-sm text-right">
+                      {canWrite && (
+                        <button
+                          onClick={() => handleToggle(unit)}
+                          className={unit.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}
+                        >
+                          {unit.isActive ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {canWrite && (
+          <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Code</label>
+              <input
+                type="text"
+                required
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="ton"
+                className="mt-1 block w-28 rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Metric ton"
+                className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+            >
+              Add Unit
+            </button>
+          </form>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {/* Item conversions */}
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Item conversions</h2>
+        <p className="text-sm text-gray-600">
+          Stock is kept in each item&apos;s base unit. Allow other units for an item and purchases
+          and issues can be entered in them; quantities are converted to the base unit.
+        </p>
+        <select
+          value={itemId}
+          onChange={(e) => selectItem(e.target.value)}
+          className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="">Select item...</option>
+          {items.map((i) => (
+            <option key={i.id} value={i.id}>
+              {i.name} ({i.unit})
+            </option>
+          ))}
+        </select>
+
+        {item && (
+          <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+            <div className="text-sm text-gray-700">
+              Base unit: <span className="font-medium">{item.unit}</span>
+            </div>
+            {rows.length === 0 && <p className="text-sm text-gray-500">Only the base unit is allowed</p>}
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2 text-sm">
+                <span>1</span>
+                <select
+                  value={row.unitId}
+                  onChange={(e) => updateRow(index, { unitId: e.target.value })}
+                  disabled={!canWrite}
+                  className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                >
+                  <option value="">Unit...</option>
+                  {activeUnits.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.code}
+                    </option>
+                  ))}
+                </select>
+                <span>=</span>
+                <input
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  value={row.factor}
+                  onChange={(e) => updateRow(index, { factor: e.target.value })}
+                  disabled={!canWrite}
+                  className="w-32 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+                />
+                <span>{item.unit}</span>
+                {canWrite && (
+                  <button
+                    onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+            {canWrite && (
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setRows([...rows, { unitId: '', factor: '' }])}
+                  className="py-2 px-3 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Add conversion
+                </button>
+                <button
+                  onClick={handleSaveConversions}
+                  disabled={isSaving}
+                  className="py-2 px-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            )}
+            {itemError && <p className="text-sm text-red-600">{itemError}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
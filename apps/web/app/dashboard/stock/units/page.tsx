@@ -0,0 +1,51 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listUnitsOfMeasure } from '@/lib/stock/unitsOfMeasure.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import UnitsOfMeasureClient from './components/UnitsOfMeasureClient';
+
+export default async function UnitsOfMeasurePage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [units, items] = await Promise.all([
+    listUnitsOfMeasure(auth.companyId),
+    prisma.stockItem.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: {
+        id: true,
+        name: true,
+        unit: true,
+        units: { select: { unitId: true, factor: true } },
+      },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Units of Measure">
+      <UnitsOfMeasureClient
+        canWrite={can(auth.role, 'stock', 'WRITE')}
+        units={units.map((unit) => ({
+          id: unit.id,
+          code: unit.code,
+          name: unit.name,
+          isActive: unit.isActive,
+          itemCount: unit.itemCount,
+        }))}
+        items={items.map((item) => ({
+          id: item.id,
+          name: item.name,
+          unit: item.unit,
+          units: item.units.map((u) => ({ unitId: u.unitId, factor: Number(u.factor) })),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+type CostingMethod = 'WEIGHTED_AVERAGE' | 'FIFO';
+
+interface ValuationRow {
+  stockItem: { id: string; name: string; sku: string | null; unit: string };
+  category: string | null;
+  costingMethod: CostingMethod;
+  qty: number;
+  unitCost: number;
+  value: number;
+  weightedAverageValue: number;
+  fifoValue: number;
+  difference: number;
+}
+
+interface InventoryValuationClientProps {
+  companyId: string;
+  isAdmin: boolean;
+  locations: Array<{ id: string; name: string }>;
+  valuation: {
+    asOf: string;
+    method: CostingMethod;
+    companyMethod: CostingMethod;
+    location: { id: string; name: string } | null;
+    rows: ValuationRow[];
+    totals: {
+      value: number;
+      weightedAverageValue: number;
+      fifoValue: number;
+      difference: number;
+    };
+  };
+}
+
+const METHOD_LABELS: Record<CostingMethod, string> = {
+  WEIGHTED_AVERAGE: 'Weighted average',
+  FIFO: 'FIFO',
+};
+
+const formatQty = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+export default function InventoryValuationClient({
+  companyId,
+  isAdmin,
+  locations,
+  valuation,
+}: InventoryValuationClientProps) {
+  const router = useRouter();
+  const [filters, setFilters] = useState({
+    asOf: valuation.asOf,
+    method: valuation.method as string,
+    locationId: valuation.location?.id ?? '',
+  });
+  const [companyMethod, setCompanyMethod] = useState<CostingMethod>(valuation.companyMethod);
+  const [error, setError] = useState<string | null>(null);
+
+  const otherMethod: CostingMethod = valuation.method === 'FIFO' ? 'WEIGHTED_AVERAGE' : 'FIFO';
+  const otherValue = (row: { weightedAverageValue: number; fifoValue: number }) =>
+    otherMethod === 'FIFO' ? row.fifoValue : row.weightedAverageValue;
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    const params = new URLSearchParams();
+    if (filters.asOf) params.set('asOf', filters.asOf);
+    if (filters.method) params.set('method', filters.method);
+    if (filters.locationId) params.set('locationId', filters.locationId);
+    router.push(`/dashboard/stock/valuation?${params.toString()}`);
+  };
+
+  const handleCompanyMethod = async () => {
+    if (
+      !confirm(
+        `Cost stock issues under ${METHOD_LABELS[companyMethod]} from now on? Items with their own method are not affected.`
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    const response = await fetch(`/api/companies/${companyId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ costingMethod: companyMethod }),
+    });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      setError(data.error || 'Failed to change the costing method');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        <p>
+          Stock is valued by replaying every movement up to the as-of date. Issues are costed under{' '}
+          <strong>{METHOD_LABELS[valuation.companyMethod]}</strong> unless an item has its own
+          costing method; this report can be stated under either method for any date.
+        </p>
+        {isAdmin && (
+          <div className="mt-3 flex items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Company costing method</label>
+              <select
+                value={companyMethod}
+                onChange={(e) => setCompanyMethod(e.target.value as CostingMethod)}
+                className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+              >
+                <option value="WEIGHTED_AVERAGE">Weighted average</option>
+                <option value="FIFO">FIFO (first in, first out)</option>
+              </select>
+            </div>
+            <button
+              onClick={handleCompanyMethod}
+              disabled={companyMethod === valuation.companyMethod}
+              className="py-2 px-3 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Change
+            </button>
+          </div>
+        )}
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+
+      <form onSubmit={applyFilters} className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">As of</label>
+          <input
+            type="date"
+            value={filters.asOf}
+            onChange={(e) => setFilters({ ...filters, asOf: e.target.value })}
+            className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Method</label>
+          <select
+            value={filters.method}
+            onChange={(e) => setFilters({ ...filters, method: e.target.value })}
+            className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="WEIGHTED_AVERAGE">Weighted average</option>
+            <option value="FIFO">FIFO</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">Location</label>
+          <select
+            value={filters.locationId}
+            onChange={(e) => setFilters({ ...filters, locationId: e.target.value })}
+            className="mt-1 block rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" className="px-4 py-2 bg-gray-800 text-white rounded-md hover:bg-gray-900 text-sm">
+          Run Report
+        </button>
+      </form>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Value ({METHOD_LABELS[valuation.method]})</div>
+          <div className="text-2xl font-bold">{toMoney(valuation.totals.value)}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">Value ({METHOD_LABELS[otherMethod]})</div>
+          <div className="text-2xl font-bold text-gray-700">{toMoney(otherValue(valuation.totals))}</div>
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <div className="text-sm text-gray-600">FIFO less weighted average</div>
+          <div
+            className={`text-2xl font-bold ${valuation.totals.difference < 0 ? 'text-red-600' : 'text-green-600'}`}
+          >
+            {toMoney(valuation.totals.difference)}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Costed at</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">On hand</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit cost</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                Value ({METHOD_LABELS[valuation.method]})
+              </th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                {METHOD_LABELS[otherMethod]}
+              </th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Difference</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {valuation.rows.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No stock on hand as of this date
+                </td>
+              </tr>
+            ) : (
+              valuation.rows.map((row) => (
+                <tr key={row.stockItem.id}>
+                  <td className="px-4 py-2 text-sm">
+                    {row.stockItem.name}
+                    <span className="text-gray-500 ml-1">({row.stockItem.unit})</span>
+                    {row.stockItem.sku && <div className="text-xs text-gray-500">{row.stockItem.sku}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{row.category || '-'}</td>
+                  <td className="px-4 py-2 text-sm text-gray-500">{METHOD_LABELS[row.costingMethod]}</td>
+                  <td className="px-4 py-2 text-sm text-right">{formatQty(row.qty)}</td>
+                  <td className="px-4 py-2 text-sm text-right">{toMoney(row.unitCost)}</td>
+                  <td className="px-4 py-2 text-sm text-right font-medium">{toMoney(row.value)}</td>
+                  <td className="px-4 py-2 text-sm text-right text-gray-600">{toMoney(otherValue(row))}</td>
+                  <td
+                    className={`px-4 py-2 text-sm text-right ${row.difference < 0 ? 'text-red-600' : row.difference > 0 ? 'text-green-600' : ''}`}
+                  >
+                    {row.difference ? toMoney(row.difference) : '-'}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+          {valuation.rows.length > 0 && (
+            <tfoot className="bg-gray-50 font-medium">
+              <tr>
+                <td colSpan={5} className="px-4 py-2 text-sm text-right">
+                  Total
+                </td>
+                <td className="px-4 py-2 text-sm text-right">{toMoney(valuation.totals.value)}</td>
+                <td className="px-4 py-2 text-sm text-right">{toMoney(otherValue(valuation.totals))}</td>
+                <td className="px-4 py-2 text-sm text-right">{toMoney(valuation.totals.difference)}</td>
+              </tr>
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+}
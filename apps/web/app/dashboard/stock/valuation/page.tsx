@@ -0,0 +1,47 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { InventoryValuationFiltersSchema } from '@accounting/shared';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getInventoryValuation } from '@/lib/stock/inventoryValuation.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import InventoryValuationClient from './components/InventoryValuationClient';
+
+export default async function InventoryValuationPage({
+  searchParams,
+}: {
+  searchParams: { asOf?: string; method?: string; locationId?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('stock', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const parsed = InventoryValuationFiltersSchema.safeParse({
+    asOf: searchParams.asOf || undefined,
+    method: searchParams.method || undefined,
+    locationId: searchParams.locationId || undefined,
+  });
+  const filters = parsed.success ? parsed.data : {};
+
+  const [valuation, locations] = await Promise.all([
+    getInventoryValuation(auth.companyId, filters),
+    prisma.stockLocation.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: [{ isDefault: 'desc' }, { type: 'asc' }, { name: 'asc' }],
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Inventory Valuation">
+      <InventoryValuationClient
+        companyId={auth.companyId}
+        isAdmin={auth.role === 'ADMIN'}
+        locations={locations}
+        valuation={valuation}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toMoney } from '@/lib/payables';
+
+type VoucherTypeOption = 'RECEIPT' | 'PAYMENT' | 'JOURNAL' | 'CONTRA';
+type ApproverRole = 'ADMIN' | 'ACCOUNTANT';
+
+interface Rule {
+  id: string;
+  name: string;
+  voucherType: VoucherTypeOption | null;
+  minAmount: number;
+  approverRoles: string[];
+  isActive: boolean;
+}
+
+interface ApprovalRulesClientProps {
+  initialRules: Rule[];
+}
+
+const emptyForm = {
+  name: '',
+  voucherType: '' as VoucherTypeOption | '',
+  minAmount: 0,
+  approverRoles: ['ACCOUNTANT', 'ADMIN'] as ApproverRole[],
+  isActive: true,
+};
+
+export default function ApprovalRulesClient({ initialRules }: ApprovalRulesClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEdit = (rule: Rule) => {
+    setEditingId(rule.id);
+    setFormData({
+      name: rule.name,
+      voucherType: rule.voucherType || '',
+      minAmount: rule.minAmount,
+      approverRoles: rule.approverRoles as ApproverRole[],
+      isActive: rule.isActive,
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const updateStep = (index: number, role: ApproverRole) => {
+    const approverRoles = [...formData.approverRoles];
+    approverRoles[index] = role;
+    setFormData({ ...formData, approverRoles });
+  };
+
+  const addStep = () => {
+    setFormData({ ...formData, approverRoles: [...formData.approverRoles, 'ADMIN'] });
+  };
+
+  const removeStep = (index: number) => {
+    setFormData({
+      ...formData,
+      approverRoles: formData.approverRoles.filter((_, i) => i !== index),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editingId ? `/api/approval-rules/${editingId}` : '/api/approval-rules',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...formData,
+            voucherType: formData.voucherType || null,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to save approval rule');
+        return;
+      }
+      setShowForm(false);
+      setEditingId(null);
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while saving the approval rule');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: Rule) => {
+    if (!confirm(`Delete rule "${rule.name}"? Vouchers already submitted keep their approval steps.`)) {
+      return;
+    }
+    const response = await fetch(`/api/approval-rules/${rule.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      alert(data.error || 'Failed to delete approval rule');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        <p>
+          When a voucher is submitted, the active rule with the highest minimum amount not above
+          the voucher total decides its approval steps; a rule for the voucher&apos;s own type wins
+          over an all-types rule with the same minimum. Without a matching rule, one approval by an
+          ADMIN or ACCOUNTANT is enough.
+        </p>
+        <p className="mt-2">
+          The creator of a voucher can never approve it, and each step needs a different approver.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={openCreate}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          New Rule
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-medium mb-4">
+            {editingId ? 'Edit Approval Rule' : 'Create Approval Rule'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Voucher Type</label>
+                <select
+                  value={formData.voucherType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, voucherType: e.target.value as VoucherTypeOption | '' })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">All types</option>
+                  <option value="RECEIPT">Receipt</option>
+                  <option value="PAYMENT">Payment</option>
+                  <option value="JOURNAL">Journal</option>
+                  <option value="CONTRA">Contra</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Minimum Amount</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.minAmount}
+                  onChange={(e) =>
+                    setFormData({ ...formData, minAmount: parseFloat(e.target.value) || 0 })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Approval Steps <span className="text-red-500">*</span>
+                </label>
+                <div className="space-y-2">
+                  {formData.approverRoles.map((role, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-sm text-gray-500 w-14">Step {index + 1}</span>
+                      <select
+                        value={role}
+                        onChange={(e) => updateStep(index, e.target.value as ApproverRole)}
+                        className="block w-48 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      >
+                        <option value="ACCOUNTANT">Accountant</option>
+                        <option value="ADMIN">Admin</option>
+                      </select>
+                      {formData.approverRoles.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => removeStep(index)}
+                          className="text-sm text-red-600 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {formData.approverRoles.length < 5 && (
+                    <button
+                      type="button"
+                      onClick={addStep}
+                      className="text-sm text-blue-600 hover:text-blue-900"
+                    >
+                      + Add step
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">Active</label>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setEditingId(null);
+                }}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save' : 'Create Rule'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Approval Rules</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Voucher Type
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  From Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Steps
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {initialRules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No approval rules configured. Every voucher needs a single approval.
+                  </td>
+                </tr>
+              ) : (
+                initialRules.map((rule) => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{rule.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {rule.voucherType || 'All types'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {toMoney(rule.minAmount)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {rule.approverRoles.join(' → ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          rule.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {rule.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => openEdit(rule)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
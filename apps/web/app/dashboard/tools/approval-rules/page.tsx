@@ -0,0 +1,30 @@
+import { redirect } from 'next/navigation';
+import { requireAdminServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import ApprovalRulesClient from './ApprovalRulesClient';
+
+export default async function ApprovalRulesPage() {
+  let auth;
+  try {
+    auth = await requireAdminServer();
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const rules = await prisma.voucherApprovalRule.findMany({
+    where: { companyId: auth.companyId },
+    orderBy: [{ minAmount: 'asc' }, { name: 'asc' }],
+  });
+
+  return (
+    <DashboardLayout title="Approval Rules">
+      <ApprovalRulesClient
+        initialRules={rules.map((rule) => ({
+          ...rule,
+          minAmount: Number(rule.minAmount),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface ExchangeRatesClientProps {
+  companyId: string;
+  baseCurrency: string;
+  canWrite: boolean;
+  isAdmin: boolean;
+  rates: Array<{
+    id: string;
+    currency: string;
+    date: string;
+    rate: number;
+  }>;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+export default function ExchangeRatesClient({
+  companyId,
+  baseCurrency,
+  canWrite,
+  isAdmin,
+  rates,
+}: ExchangeRatesClientProps) {
+  const router = useRouter();
+  const [formData, setFormData] = useState({
+    currency: 'USD',
+    date: new Date().toISOString().split('T')[0],
+    rate: '',
+  });
+  const [base, setBase] = useState(baseCurrency);
+  const [filter, setFilter] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currencies = Array.from(new Set(rates.map((rate) => rate.currency))).sort();
+  const visibleRates = filter ? rates.filter((rate) => rate.currency === filter) : rates;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/exchange-rates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currency: formData.currency,
+          date: formData.date,
+          rate: parseFloat(formData.rate),
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to save exchange rate');
+        return;
+      }
+      setFormData({ ...formData, rate: '' });
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while saving the exchange rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleBaseCurrency = async () => {
+    setError(null);
+    const response = await fetch(`/api/companies/${companyId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ baseCurrency: base }),
+    });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      setError(data.error || 'Failed to change the base currency');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this rate? Vouchers already converted keep their rate.')) {
+      return;
+    }
+    const response = await fetch(`/api/exchange-rates/${id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      alert(data.error || 'Failed to delete exchange rate');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        <p>
+          All ledger balances are kept in the base currency, <strong>{baseCurrency}</strong>. Rates
+          are in {baseCurrency} per one unit of the foreign currency; a voucher line in a foreign
+          currency uses the latest rate on or before the voucher date unless a rate is entered on
+          the line.
+        </p>
+        {isAdmin && (
+          <div className="mt-3 flex items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700">Base currency</label>
+              <input
+                type="text"
+                maxLength={3}
+                value={base}
+                onChange={(e) => setBase(e.target.value.toUpperCase())}
+                className="mt-1 block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm uppercase"
+              />
+            </div>
+            <button
+              onClick={handleBaseCurrency}
+              disabled={base === baseCurrency || base.length !== 3}
+              className="py-2 px-3 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+            >
+              Change
+            </button>
+            <span className="text-xs text-gray-500">Only possible before the first voucher.</span>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {canWrite && (
+        <form onSubmit={handleSubmit} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Currency <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                required
+                maxLength={3}
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value.toUpperCase() })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm uppercase"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Effective Date <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="date"
+                required
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                Rate ({baseCurrency} per unit) <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="number"
+                required
+                min="0"
+                step="0.000001"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right"
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save Rate'}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h3 className="text-lg font-medium text-gray-900">Rate History</h3>
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+          >
+            <option value="">All currencies</option>
+            {currencies.map((currency) => (
+              <option key={currency} value={currency}>
+                {currency}
+              </option>
+            ))}
+          </select>
+        </div>
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Effective Date</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
+              {canWrite && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {visibleRates.length === 0 ? (
+              <tr>
+                <td colSpan={canWrite ? 4 : 3} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No exchange rates recorded
+                </td>
+              </tr>
+            ) : (
+              visibleRates.map((rate) => (
+                <tr key={rate.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(rate.date)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{rate.currency}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                    {rate.rate} {baseCurrency}
+                  </td>
+                  {canWrite && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => handleDelete(rate.id)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { getBaseCurrency, listExchangeRates } from '@/lib/accounting/currency.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import ExchangeRatesClient from './ExchangeRatesClient';
+
+export default async function ExchangeRatesPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const [baseCurrency, rates] = await Promise.all([
+    getBaseCurrency(auth.companyId),
+    listExchangeRates(auth.companyId),
+  ]);
+
+  return (
+    <DashboardLayout title="Exchange Rates">
+      <ExchangeRatesClient
+        companyId={auth.companyId}
+        baseCurrency={baseCurrency}
+        canWrite={can(auth.role, 'vouchers', 'WRITE')}
+        isAdmin={auth.role === 'ADMIN'}
+        rates={rates.map((rate) => ({
+          id: rate.id,
+          currency: rate.currency,
+          date: rate.date.toISOString(),
+          rate: rate.rate,
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,460 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  DEFAULT_PREFIX_TEMPLATE,
+  SERIES_TOKENS,
+  formatVoucherNumber,
+  renderSeriesPrefix,
+} from '@/lib/vouchers/numberSeries';
+
+type VoucherTypeOption = 'RECEIPT' | 'PAYMENT' | 'JOURNAL' | 'CONTRA';
+
+interface Project {
+  id: string;
+  name: string;
+  reference: string | null;
+}
+
+interface Series {
+  id: string;
+  name: string;
+  voucherType: VoucherTypeOption | null;
+  projectId: string | null;
+  prefixTemplate: string;
+  padding: number;
+  fiscalYearStartMonth: number;
+  isActive: boolean;
+  project: Project | null;
+}
+
+interface Counter {
+  id: string;
+  prefix: string;
+  lastNumber: number;
+  updatedAt: string | Date;
+}
+
+interface VoucherNumberingClientProps {
+  initialSeries: Series[];
+  counters: Counter[];
+  projects: Project[];
+}
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const emptyForm = {
+  name: '',
+  voucherType: '' as VoucherTypeOption | '',
+  projectId: '',
+  prefixTemplate: '{TYPE}-{FY}-',
+  padding: 6,
+  fiscalYearStartMonth: 1,
+  isActive: true,
+};
+
+export default function VoucherNumberingClient({
+  initialSeries,
+  counters,
+  projects,
+}: VoucherNumberingClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sampleProject = projects.find((p) => p.id === formData.projectId);
+  const samplePrefix = renderSeriesPrefix(formData.prefixTemplate, {
+    date: new Date(),
+    type: formData.voucherType || 'JOURNAL',
+    projectCode: sampleProject?.reference ?? null,
+    fiscalYearStartMonth: formData.fiscalYearStartMonth,
+  });
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEdit = (series: Series) => {
+    setEditingId(series.id);
+    setFormData({
+      name: series.name,
+      voucherType: series.voucherType || '',
+      projectId: series.projectId || '',
+      prefixTemplate: series.prefixTemplate,
+      padding: series.padding,
+      fiscalYearStartMonth: series.fiscalYearStartMonth,
+      isActive: series.isActive,
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(
+        editingId ? `/api/voucher-series/${editingId}` : '/api/voucher-series',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...formData,
+            voucherType: formData.voucherType || null,
+            projectId: formData.projectId || null,
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to save numbering series');
+        return;
+      }
+      setShowForm(false);
+      setEditingId(null);
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while saving the numbering series');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (series: Series) => {
+    if (!confirm(`Delete series "${series.name}"? Vouchers already numbered keep their numbers.`)) {
+      return;
+    }
+    const response = await fetch(`/api/voucher-series/${series.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      alert(data.error || 'Failed to delete numbering series');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        <p>
+          New vouchers take their number from the most specific active series: voucher type and
+          project, then project, then voucher type, then the company default. Without any series,
+          numbers use <code className="font-mono">{DEFAULT_PREFIX_TEMPLATE}NNNNNN</code>.
+        </p>
+        <p className="mt-2">
+          Tokens: {SERIES_TOKENS.map((token) => (
+            <code key={token} className="font-mono mr-2">{token}</code>
+          ))}
+          — {'{PROJECT}'} uses the project reference (GEN when there is none).
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={openCreate}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          New Series
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-medium mb-4">
+            {editingId ? 'Edit Numbering Series' : 'Create Numbering Series'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Voucher Type</label>
+                <select
+                  value={formData.voucherType}
+                  onChange={(e) =>
+                    setFormData({ ...formData, voucherType: e.target.value as VoucherTypeOption | '' })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">All types</option>
+                  <option value="RECEIPT">Receipt</option>
+                  <option value="PAYMENT">Payment</option>
+                  <option value="JOURNAL">Journal</option>
+                  <option value="CONTRA">Contra</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Project</label>
+                <select
+                  value={formData.projectId}
+                  onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">All projects</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>
+                      {project.name}
+                      {project.reference ? ` (${project.reference})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Prefix Template <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.prefixTemplate}
+                  onChange={(e) => setFormData({ ...formData, prefixTemplate: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Digits</label>
+                <input
+                  type="number"
+                  min={3}
+                  max={10}
+                  value={formData.padding}
+                  onChange={(e) =>
+                    setFormData({ ...formData, padding: parseInt(e.target.value, 10) || 6 })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Fiscal Year Starts In
+                </label>
+                <select
+                  value={formData.fiscalYearStartMonth}
+                  onChange={(e) =>
+                    setFormData({ ...formData, fiscalYearStartMonth: parseInt(e.target.value, 10) })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {MONTHS.map((month, index) => (
+                    <option key={month} value={index + 1}>
+                      {month}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">Active</label>
+              </div>
+              <div className="md:col-span-2 flex items-center text-sm text-gray-600">
+                Next number would look like:{' '}
+                <span className="ml-2 font-mono font-medium text-gray-900">
+                  {formatVoucherNumber(samplePrefix, 1, formData.padding)}
+                </span>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setEditingId(null);
+                }}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save' : 'Create Series'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Series */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Numbering Series</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Example
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {initialSeries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No numbering series configured. The default V-YYYY-NNNNNN format is used.
+                  </td>
+                </tr>
+              ) : (
+                initialSeries.map((series) => (
+                  <tr key={series.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{series.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {series.voucherType || 'All types'} ·{' '}
+                      {series.project ? series.project.name : 'All projects'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {series.prefixTemplate}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-500">
+                      {formatVoucherNumber(
+                        renderSeriesPrefix(series.prefixTemplate, {
+                          date: new Date(),
+                          type: series.voucherType || 'JOURNAL',
+                          projectCode: series.project?.reference ?? null,
+                          fiscalYearStartMonth: series.fiscalYearStartMonth,
+                        }),
+                        1,
+                        series.padding
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          series.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {series.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => openEdit(series)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(series)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Counters */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Issued Sequences</h3>
+          <p className="text-sm text-gray-600 mt-1">Last number issued for each prefix</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Prefix
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Last Number
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Last Issued
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {counters.length === 0 ? (
+                <tr>
+                  <td colSpan={3} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No numbers issued through a series yet
+                  </td>
+                </tr>
+              ) : (
+                counters.map((counter) => (
+                  <tr key={counter.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-900">
+                      {counter.prefix}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {counter.lastNumber}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(counter.updatedAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { requireAdminServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import {
+  listVoucherNumberCounters,
+  listVoucherNumberSeries,
+} from '@/lib/vouchers/numberSeries.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import VoucherNumberingClient from './VoucherNumberingClient';
+
+export default async function VoucherNumberingPage() {
+  let auth;
+  try {
+    auth = await requireAdminServer();
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const [series, counters, projects] = await Promise.all([
+    listVoucherNumberSeries(auth.companyId),
+    listVoucherNumberCounters(auth.companyId),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId, isActive: true },
+      select: { id: true, name: true, reference: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Voucher Numbering">
+      <VoucherNumberingClient initialSeries={series} counters={counters} projects={projects} />
+    </DashboardLayout>
+  );
+}
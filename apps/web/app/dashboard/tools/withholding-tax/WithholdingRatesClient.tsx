@@ -0,0 +1,368 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  WITHHOLDING_SERVICE_TYPE_LABELS,
+  type WithholdingServiceTypeValue,
+} from '@/lib/accounting/withholdingTax';
+
+interface Rate {
+  id: string;
+  name: string;
+  serviceType: WithholdingServiceTypeValue | null;
+  vendorId: string | null;
+  vendorName: string | null;
+  vatPercent: number;
+  aitPercent: number;
+  isActive: boolean;
+}
+
+interface WithholdingRatesClientProps {
+  initialRates: Rate[];
+  vendors: Array<{ id: string; name: string }>;
+}
+
+const emptyForm = {
+  name: '',
+  appliesTo: 'SERVICE_TYPE' as 'SERVICE_TYPE' | 'VENDOR',
+  serviceType: 'SUPPLY' as WithholdingServiceTypeValue,
+  vendorId: '',
+  vatPercent: 0,
+  aitPercent: 0,
+  isActive: true,
+};
+
+export default function WithholdingRatesClient({ initialRates, vendors }: WithholdingRatesClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setShowForm(true);
+    setError(null);
+  };
+
+  const openEdit = (rate: Rate) => {
+    setEditingId(rate.id);
+    setFormData({
+      name: rate.name,
+      appliesTo: rate.vendorId ? 'VENDOR' : 'SERVICE_TYPE',
+      serviceType: rate.serviceType || 'SUPPLY',
+      vendorId: rate.vendorId || '',
+      vatPercent: rate.vatPercent,
+      aitPercent: rate.aitPercent,
+      isActive: rate.isActive,
+    });
+    setShowForm(true);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const common = {
+        name: formData.name,
+        vatPercent: formData.vatPercent,
+        aitPercent: formData.aitPercent,
+        isActive: formData.isActive,
+      };
+      const response = await fetch(
+        editingId ? `/api/withholding-tax/rates/${editingId}` : '/api/withholding-tax/rates',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(
+            editingId
+              ? common
+              : {
+                  ...common,
+                  serviceType: formData.appliesTo === 'SERVICE_TYPE' ? formData.serviceType : undefined,
+                  vendorId: formData.appliesTo === 'VENDOR' ? formData.vendorId : undefined,
+                }
+          ),
+        }
+      );
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to save withholding rate');
+        return;
+      }
+      setShowForm(false);
+      setEditingId(null);
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while saving the withholding rate');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (rate: Rate) => {
+    if (!confirm(`Delete rate "${rate.name}"? Recorded deductions keep the rate they were made at.`)) {
+      return;
+    }
+    const response = await fetch(`/api/withholding-tax/rates/${rate.id}`, { method: 'DELETE' });
+    const data = await response.json();
+    if (data.ok) {
+      router.refresh();
+    } else {
+      alert(data.error || 'Failed to delete withholding rate');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        <p>
+          Supplier payments withhold VAT and AIT at the vendor&apos;s own rate if one is set,
+          otherwise at the rate for the vendor&apos;s service type. The percentages can still be
+          changed on each payment voucher.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={openCreate}
+          className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+        >
+          New Rate
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-medium mb-4">
+            {editingId ? 'Edit Withholding Rate' : 'Create Withholding Rate'}
+          </h3>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Applies To</label>
+                <select
+                  value={formData.appliesTo}
+                  disabled={!!editingId}
+                  onChange={(e) =>
+                    setFormData({ ...formData, appliesTo: e.target.value as 'SERVICE_TYPE' | 'VENDOR' })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-100"
+                >
+                  <option value="SERVICE_TYPE">Service type</option>
+                  <option value="VENDOR">Specific vendor</option>
+                </select>
+              </div>
+              <div>
+                {formData.appliesTo === 'SERVICE_TYPE' ? (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">Service Type</label>
+                    <select
+                      value={formData.serviceType}
+                      disabled={!!editingId}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          serviceType: e.target.value as WithholdingServiceTypeValue,
+                        })
+                      }
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-100"
+                    >
+                      {Object.entries(WITHHOLDING_SERVICE_TYPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                ) : (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700">
+                      Vendor <span className="text-red-500">*</span>
+                    </label>
+                    <select
+                      required
+                      value={formData.vendorId}
+                      disabled={!!editingId}
+                      onChange={(e) => setFormData({ ...formData, vendorId: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-100"
+                    >
+                      <option value="">Select vendor</option>
+                      {vendors.map((vendor) => (
+                        <option key={vendor.id} value={vendor.id}>
+                          {vendor.name}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">VAT %</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={formData.vatPercent}
+                  onChange={(e) =>
+                    setFormData({ ...formData, vatPercent: parseFloat(e.target.value) || 0 })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">AIT %</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={formData.aitPercent}
+                  onChange={(e) =>
+                    setFormData({ ...formData, aitPercent: parseFloat(e.target.value) || 0 })
+                  }
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.isActive}
+                  onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <label className="ml-2 block text-sm text-gray-900">Active</label>
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setEditingId(null);
+                }}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save' : 'Create Rate'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Withholding Rates</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Name
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Applies To
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  VAT %
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  AIT %
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {initialRates.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No withholding rates configured. Payments are made without deductions.
+                  </td>
+                </tr>
+              ) : (
+                initialRates.map((rate) => (
+                  <tr key={rate.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{rate.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {rate.vendorName
+                        ? `Vendor: ${rate.vendorName}`
+                        : rate.serviceType
+                          ? WITHHOLDING_SERVICE_TYPE_LABELS[rate.serviceType]
+                          : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {rate.vatPercent}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                      {rate.aitPercent}%
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                          rate.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {rate.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <button
+                        onClick={() => openEdit(rate)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rate)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { redirect } from 'next/navigation';
+import { requireAdminServer } from '@/lib/rbac';
+import { prisma } from '@accounting/db';
+import { listWithholdingRates } from '@/lib/accounting/withholdingTax.server';
+import DashboardLayout from '@/app/dashboard/components/DashboardLayout';
+import WithholdingRatesClient from './WithholdingRatesClient';
+
+export default async function WithholdingRatesPage() {
+  let auth;
+  try {
+    auth = await requireAdminServer();
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const [rates, vendors] = await Promise.all([
+    listWithholdingRates(auth.companyId),
+    prisma.vendor.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout title="Withholding Tax Rates">
+      <WithholdingRatesClient
+        initialRates={rates.map((rate) => ({
+          id: rate.id,
+          name: rate.name,
+          serviceType: rate.serviceType,
+          vendorId: rate.vendorId,
+          vendorName: rate.vendor?.name || null,
+          vatPercent: rate.vatPercent,
+          aitPercent: rate.aitPercent,
+          isActive: rate.isActive,
+        }))}
+        vendors={vendors}
+      />
+    </DashboardLayout>
+  );
+}
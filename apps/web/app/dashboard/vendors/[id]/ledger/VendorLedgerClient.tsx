@@ -29,6 +29,7 @@ interface VendorLedgerClientProps {
   openBalance: number;
   vendorId: string;
   canCreatePayment: boolean;
+  hasSubcontracts: boolean;
 }
 
 export default function VendorLedgerClient({
@@ -38,6 +39,7 @@ export default function VendorLedgerClient({
   openBalance,
   vendorId,
   canCreatePayment,
+  hasSubcontracts,
 }: VendorLedgerClientProps) {
   const router = useRouter();
   const [dateFrom, setDateFrom] = useState('');
@@ -111,6 +113,14 @@ export default function VendorLedgerClient({
               >
                 <span>🖨️</span> Print Statement
               </button>
+              {hasSubcontracts && (
+                <button
+                  onClick={() => window.open(`/print/vendors/${vendorId}/subcontract-statement`, '_blank')}
+                  className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center gap-2"
+                >
+                  <span>🤝</span> Subcontract Statement
+                </button>
+              )}
               <button
                 onClick={handleDownloadPDF}
                 className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 inline-flex items-center gap-2"
@@ -1,6 +1,7 @@
 import { redirect } from 'next/navigation';
 import { requirePermissionServer } from '@/lib/rbac';
 import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
 import { getVendorLedger, getVendorGLBalance, getVendorOpenBalance } from '@/lib/payables';
 import DashboardLayout from '../../../components/DashboardLayout';
 import VendorLedgerClient from './VendorLedgerClient';
@@ -19,6 +20,9 @@ export default async function VendorLedgerPage({ params }: { params: { id: strin
     const ledgerData = await getVendorLedger(params.id, auth.companyId);
     const glBalance = await getVendorGLBalance(params.id, auth.companyId);
     const openBalance = await getVendorOpenBalance(params.id, auth.companyId);
+    const subcontractCount = await prisma.subcontract.count({
+      where: { companyId: auth.companyId, vendorId: params.id },
+    });
 
     return (
       <DashboardLayout title={`Vendor Ledger - ${ledgerData.vendor.name}`}>
@@ -29,6 +33,7 @@ export default async function VendorLedgerPage({ params }: { params: { id: strin
           openBalance={openBalance}
           vendorId={params.id}
           canCreatePayment={canWrite}
+          hasSubcontracts={subcontractCount > 0}
         />
       </DashboardLayout>
     );
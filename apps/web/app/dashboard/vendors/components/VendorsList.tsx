@@ -2,6 +2,19 @@
 
 import { useState, useEffect } from 'react';
 import { Vendor } from '../../components/types';
+import { WITHHOLDING_SERVICE_TYPE_LABELS } from '@/lib/accounting/withholdingTax';
+
+const emptyForm = {
+  name: '',
+  phone: '',
+  address: '',
+  notes: '',
+  serviceType: '',
+  tin: '',
+  bin: '',
+  leadTimeDays: '',
+  isActive: true,
+};
 
 interface VendorsListProps {
   initialVendors: Vendor[];
@@ -15,13 +28,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
   const [isLoading, setIsLoading] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showCreateForm, setShowCreateForm] = useState(false);
-  const [formData, setFormData] = useState({
-    name: '',
-    phone: '',
-    address: '',
-    notes: '',
-    isActive: true,
-  });
+  const [formData, setFormData] = useState(emptyForm);
 
   const fetchVendors = async () => {
     setIsLoading(true);
@@ -62,6 +69,10 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
         phone: formData.phone || null,
         address: formData.address || null,
         notes: formData.notes || null,
+        serviceType: formData.serviceType || null,
+        tin: formData.tin || null,
+        bin: formData.bin || null,
+        leadTimeDays: formData.leadTimeDays ? parseInt(formData.leadTimeDays, 10) : null,
         isActive: formData.isActive,
       };
 
@@ -76,7 +87,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
       if (data.ok) {
         setEditingId(null);
         setShowCreateForm(false);
-        setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+        setFormData(emptyForm);
         fetchVendors();
       } else {
         alert(data.error || 'Failed to save vendor');
@@ -93,6 +104,10 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
       phone: vendor.phone || '',
       address: vendor.address || '',
       notes: vendor.notes || '',
+      serviceType: vendor.serviceType || '',
+      tin: vendor.tin || '',
+      bin: vendor.bin || '',
+      leadTimeDays: vendor.leadTimeDays != null ? String(vendor.leadTimeDays) : '',
       isActive: vendor.isActive,
     });
   };
@@ -141,7 +156,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
             onClick={() => {
               setShowCreateForm(true);
               setEditingId(null);
-              setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+              setFormData(emptyForm);
             }}
             className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
           >
@@ -187,6 +202,53 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Withholding Service Type</label>
+                <select
+                  value={formData.serviceType}
+                  onChange={(e) => setFormData({ ...formData, serviceType: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">Not subject to withholding</option>
+                  {Object.entries(WITHHOLDING_SERVICE_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Lead Time (days)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={formData.leadTimeDays}
+                  onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                  placeholder="Used for reorder suggestions"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">TIN</label>
+                  <input
+                    type="text"
+                    value={formData.tin}
+                    onChange={(e) => setFormData({ ...formData, tin: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">BIN</label>
+                  <input
+                    type="text"
+                    value={formData.bin}
+                    onChange={(e) => setFormData({ ...formData, bin: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+              </div>
               <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-gray-700">Notes</label>
                 <textarea
@@ -202,7 +264,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                 type="button"
                 onClick={() => {
                   setShowCreateForm(false);
-                  setFormData({ name: '', phone: '', address: '', notes: '', isActive: true });
+                  setFormData(emptyForm);
                 }}
                 className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
               >
@@ -300,6 +362,53 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
                               />
                             </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">Withholding Service Type</label>
+                              <select
+                                value={formData.serviceType}
+                                onChange={(e) => setFormData({ ...formData, serviceType: e.target.value })}
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              >
+                                <option value="">Not subject to withholding</option>
+                                {Object.entries(WITHHOLDING_SERVICE_TYPE_LABELS).map(([value, label]) => (
+                                  <option key={value} value={value}>
+                                    {label}
+                                  </option>
+                                ))}
+                              </select>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700">Lead Time (days)</label>
+                              <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={formData.leadTimeDays}
+                                onChange={(e) => setFormData({ ...formData, leadTimeDays: e.target.value })}
+                                placeholder="Used for reorder suggestions"
+                                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                              />
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700">TIN</label>
+                                <input
+                                  type="text"
+                                  value={formData.tin}
+                                  onChange={(e) => setFormData({ ...formData, tin: e.target.value })}
+                                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                                />
+                              </div>
+                              <div>
+                                <label className="block text-sm font-medium text-gray-700">BIN</label>
+                                <input
+                                  type="text"
+                                  value={formData.bin}
+                                  onChange={(e) => setFormData({ ...formData, bin: e.target.value })}
+                                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                                />
+                              </div>
+                            </div>
                             <div className="md:col-span-2">
                               <label className="block text-sm font-medium text-gray-700">
                                 Notes
@@ -330,13 +439,7 @@ export default function VendorsList({ initialVendors, canWrite }: VendorsListPro
                               type="button"
                               onClick={() => {
                                 setEditingId(null);
-                                setFormData({
-                                  name: '',
-                                  phone: '',
-                                  address: '',
-                                  notes: '',
-                                  isActive: true,
-                                });
+                                setFormData(emptyForm);
                               }}
                               className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
                             >
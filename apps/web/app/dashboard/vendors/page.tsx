@@ -27,6 +27,10 @@ export default async function VendorsPage() {
       phone: true,
       address: true,
       notes: true,
+      serviceType: true,
+      tin: true,
+      bin: true,
+      leadTimeDays: true,
       isActive: true,
       createdAt: true,
       updatedAt: true,
@@ -9,6 +9,12 @@ interface VoucherDetailProps {
   canEdit: boolean;
   canSubmit: boolean;
   canApprove: boolean;
+  canReject: boolean;
+  approvalProgress: {
+    totalSteps: number;
+    nextStep: number | null;
+    nextRole: string | null;
+  };
   canPost: boolean;
   canReverse: boolean;
   currentUserId: string;
@@ -19,6 +25,8 @@ export default function VoucherDetail({
   canEdit,
   canSubmit,
   canApprove,
+  canReject,
+  approvalProgress,
   canPost,
   canReverse,
   currentUserId,
@@ -26,6 +34,9 @@ export default function VoucherDetail({
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [showRejectModal, setShowRejectModal] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
   const [isPosting, setIsPosting] = useState(false);
   const [isReversing, setIsReversing] = useState(false);
   const [showReverseModal, setShowReverseModal] = useState(false);
@@ -87,6 +98,31 @@ export default function VoucherDetail({
     }
   };
 
+  const handleReject = async () => {
+    setIsRejecting(true);
+    try {
+      const response = await fetch(`/api/vouchers/${voucher.id}/reject`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ reason: rejectReason }),
+      });
+
+      const data = await response.json();
+
+      if (data.ok) {
+        window.location.reload();
+      } else {
+        alert(data.error || 'Failed to reject voucher');
+        setIsRejecting(false);
+      }
+    } catch (error) {
+      alert('An error occurred while rejecting the voucher');
+      setIsRejecting(false);
+    }
+  };
+
   const handlePost = async () => {
     if (!confirm('Are you sure you want to post this voucher? It cannot be edited after posting.')) {
       return;
@@ -207,7 +243,19 @@ export default function VoucherDetail({
             disabled={isApproving}
             className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
           >
-            {isApproving ? 'Approving...' : 'Approve'}
+            {isApproving
+              ? 'Approving...'
+              : approvalProgress.totalSteps > 1
+                ? `Approve (step ${approvalProgress.nextStep} of ${approvalProgress.totalSteps})`
+                : 'Approve'}
+          </button>
+        )}
+        {canReject && (
+          <button
+            onClick={() => setShowRejectModal(true)}
+            className="px-4 py-2 border border-red-300 rounded-md shadow-sm text-sm font-medium text-red-700 bg-white hover:bg-red-50"
+          >
+            Reject
           </button>
         )}
         {canPost && (
@@ -343,6 +391,55 @@ export default function VoucherDetail({
         </div>
       </div>
 
+      {/* Approval Trail */}
+      {(voucher.status === 'SUBMITTED' || (voucher.approvals && voucher.approvals.length > 0)) && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium text-gray-900">Approval Trail</h3>
+            {voucher.approvalRule && (
+              <span className="text-xs text-gray-500">Rule: {voucher.approvalRule.name}</span>
+            )}
+          </div>
+          {voucher.status === 'SUBMITTED' && approvalProgress.nextStep && (
+            <div className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2 mb-4">
+              Awaiting step {approvalProgress.nextStep} of {approvalProgress.totalSteps}
+              {' — '}
+              {approvalProgress.nextRole
+                ? `approval by ${approvalProgress.nextRole}`
+                : 'approval by ADMIN or ACCOUNTANT'}
+            </div>
+          )}
+          {voucher.approvals && voucher.approvals.length > 0 ? (
+            <div className="space-y-3">
+              {voucher.approvals.map((approval: any) => (
+                <div key={approval.id} className="flex items-start">
+                  <div
+                    className={`w-3 h-3 rounded-full mr-3 mt-1 ${
+                      approval.action === 'APPROVED' ? 'bg-blue-500' : 'bg-red-500'
+                    }`}
+                  />
+                  <div className="flex-1">
+                    <div className="text-sm font-medium text-gray-900">
+                      {approval.action === 'APPROVED' ? 'Approved' : 'Rejected'} — step{' '}
+                      {approval.step}
+                      {approval.requiredRole ? ` (${approval.requiredRole})` : ''}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {approval.user?.name} on {new Date(approval.createdAt).toLocaleString()}
+                    </div>
+                    {approval.reason && (
+                      <div className="text-xs text-red-700 mt-1">Reason: {approval.reason}</div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No approvals recorded yet</p>
+          )}
+        </div>
+      )}
+
       {/* Reversal Link (if this is a reversal voucher) */}
       {voucher.originalVoucher && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
@@ -361,6 +458,45 @@ export default function VoucherDetail({
         </div>
       )}
 
+      {/* Year-end close link (if this voucher closed a fiscal year) */}
+      {voucher.fiscalYearClose && (
+        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-6">
+          <div className="text-sm">
+            <span className="font-medium text-purple-900">
+              Year-end closing entry for {voucher.fiscalYearClose.label}.
+            </span>
+            <span className="text-purple-700 ml-2">
+              {new Date(voucher.fiscalYearClose.startDate).toLocaleDateString('en-US', { timeZone: 'UTC' })} -{' '}
+              {new Date(voucher.fiscalYearClose.endDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}
+              {voucher.fiscalYearClose.status === 'REVERSED' ? ' (close reversed)' : ''}
+              {' · '}
+              <Link href="/dashboard/reports/financial/year-end-close" className="hover:underline font-medium">
+                Year-End Close
+              </Link>
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Recurring template link (if this voucher was generated from a template) */}
+      {voucher.recurringTemplate && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+          <div className="text-sm">
+            <span className="font-medium text-blue-900">
+              Generated from recurring template {voucher.recurringTemplate.name}
+            </span>
+            <span className="text-blue-700 ml-2">
+              {voucher.recurringRunDate
+                ? `Run of ${new Date(voucher.recurringRunDate).toLocaleDateString('en-US', { timeZone: 'UTC' })} · `
+                : ''}
+              <Link href="/dashboard/vouchers/recurring" className="hover:underline font-medium">
+                Recurring Vouchers
+              </Link>
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Voucher Header */}
       <div className="bg-white border border-gray-200 rounded-lg p-6 mb-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -434,7 +570,16 @@ export default function VoucherDetail({
                     <div className="text-xs text-gray-500">Vendor: {line.vendor.name}</div>
                   )}
                 </td>
-                <td className="px-6 py-4 text-sm text-gray-900">{line.description || '-'}</td>
+                <td className="px-6 py-4 text-sm text-gray-900">
+                  {line.description || '-'}
+                  {line.currencyCode && (
+                    <div className="text-xs text-gray-500">
+                      {line.currencyCode}{' '}
+                      {Number(Number(line.fxDebit) > 0 ? line.fxDebit : line.fxCredit).toFixed(2)} @{' '}
+                      {Number(line.exchangeRate)}
+                    </div>
+                  )}
+                </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right">
                   {Number(line.debit) > 0
                     ? new Intl.NumberFormat('en-US', {
@@ -525,6 +670,16 @@ export default function VoucherDetail({
                         style: 'currency',
                         currency: 'USD',
                       }).format(Number(allocation.amount))}
+                      {allocation.fxAmount && (
+                        <div className="text-xs font-normal text-gray-500">
+                          {allocation.sourceLine.currencyCode} {Number(allocation.fxAmount).toFixed(2)} @{' '}
+                          {Number(allocation.exchangeRate)}
+                          {Number(allocation.fxGainLoss) !== 0 &&
+                            `, exchange ${Number(allocation.fxGainLoss) > 0 ? 'gain' : 'loss'} ${Math.abs(
+                              Number(allocation.fxGainLoss)
+                            ).toFixed(2)}`}
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -605,6 +760,51 @@ export default function VoucherDetail({
         </div>
       )}
 
+      {/* Reject Modal */}
+      {showRejectModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <div className="mt-3">
+              <h3 className="text-lg font-medium text-gray-900 mb-4">Reject Voucher</h3>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  The voucher goes back to draft so the creator can correct and re-submit it.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason <span className="text-red-500">*</span>
+                  </label>
+                  <textarea
+                    value={rejectReason}
+                    onChange={(e) => setRejectReason(e.target.value)}
+                    rows={3}
+                    className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+                <div className="flex gap-3 justify-end pt-4">
+                  <button
+                    onClick={() => {
+                      setShowRejectModal(false);
+                      setIsRejecting(false);
+                    }}
+                    className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleReject}
+                    disabled={isRejecting || rejectReason.trim().length < 5}
+                    className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50"
+                  >
+                    {isRejecting ? 'Rejecting...' : 'Confirm Reject'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Print Styles */}
       <style jsx global>{`
         @media print {
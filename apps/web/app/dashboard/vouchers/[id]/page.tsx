@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation';
 import { requirePermissionServer } from '@/lib/rbac';
 import { can } from '@/lib/permissions';
 import { prisma } from '@accounting/db';
+import { canApproveStep, getApprovalProgress } from '@/lib/vouchers/approvals';
 import DashboardLayout from '../../components/DashboardLayout';
 import VoucherDetail from './components/VoucherDetail';
 
@@ -40,6 +41,23 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
       reversalVouchers: {
         select: { id: true, voucherNo: true, date: true },
       },
+      fiscalYearClose: {
+        select: { id: true, label: true, startDate: true, endDate: true, status: true },
+      },
+      approvalRule: {
+        select: { id: true, name: true },
+      },
+      recurringTemplate: {
+        select: { id: true, name: true },
+      },
+      approvals: {
+        include: {
+          user: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
       lines: {
         include: {
           account: {
@@ -84,7 +102,13 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
   const canApprove = can(auth.role, 'vouchers', 'APPROVE');
   const canEdit = voucher.status === 'DRAFT' && canWrite;
   const canSubmit = voucher.status === 'DRAFT';
-  const canApproveVoucher = voucher.status === 'SUBMITTED' && canApprove;
+  const approvalProgress = getApprovalProgress(voucher, voucher.approvals);
+  const canApproveVoucher =
+    voucher.status === 'SUBMITTED' &&
+    canApprove &&
+    canApproveStep(auth.role, auth.userId, voucher, approvalProgress).allowed;
+  const canRejectVoucher =
+    voucher.status === 'SUBMITTED' && canApprove && voucher.createdByUserId !== auth.userId;
   const canPostVoucher = voucher.status === 'APPROVED' && canPost;
   const canReverse = voucher.status === 'POSTED' && canPost;
 
@@ -95,6 +119,12 @@ export default async function VoucherDetailPage({ params }: { params: { id: stri
         canEdit={canEdit}
         canSubmit={canSubmit}
         canApprove={canApproveVoucher}
+        canReject={canRejectVoucher}
+        approvalProgress={{
+          totalSteps: approvalProgress.totalSteps,
+          nextStep: approvalProgress.nextStep,
+          nextRole: approvalProgress.nextRole,
+        }}
         canPost={canPostVoucher}
         canReverse={canReverse}
         currentUserId={auth.userId}
@@ -0,0 +1,533 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import {
+  CHEQUE_STATUS_STYLES,
+  CHEQUE_STATUS_TRANSITIONS,
+  ChequeStatusValue,
+} from '@/lib/accounting/cheques';
+
+interface Cheque {
+  id: string;
+  direction: 'OUTGOING' | 'INCOMING';
+  chequeNo: string;
+  bankName: string;
+  payee: string;
+  amount: number;
+  issueDate: string;
+  chequeDate: string;
+  status: ChequeStatusValue;
+  statusNote: string | null;
+  clearedAt: string | null;
+  bouncedAt: string | null;
+  voucher: { id: string; voucherNo: string; status: string };
+  accountName: string;
+  reversalVoucher: { id: string; voucherNo: string } | null;
+}
+
+interface UnregisteredLine {
+  id: string;
+  voucherId: string;
+  voucherNo: string;
+  voucherType: string | null;
+  voucherStatus: string;
+  date: string;
+  narration: string | null;
+  accountName: string;
+  vendorName: string | null;
+  paidBy: string | null;
+  receivedBy: string | null;
+  amount: number;
+}
+
+interface ChequeRegisterClientProps {
+  cheques: Cheque[];
+  unregisteredLines: UnregisteredLine[];
+  filters: { status: string; direction: string; search: string };
+  canWrite: boolean;
+  canBounce: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const ACTION_LABELS: Record<ChequeStatusValue, string> = {
+  ISSUED: 'Issued',
+  PRESENTED: 'Presented',
+  CLEARED: 'Cleared',
+  BOUNCED: 'Bounced',
+  CANCELLED: 'Cancel',
+  STALE: 'Stale',
+};
+
+export default function ChequeRegisterClient({
+  cheques,
+  unregisteredLines,
+  filters,
+  canWrite,
+  canBounce,
+}: ChequeRegisterClientProps) {
+  const router = useRouter();
+  const [status, setStatus] = useState(filters.status);
+  const [direction, setDirection] = useState(filters.direction);
+  const [search, setSearch] = useState(filters.search);
+  const [showRegister, setShowRegister] = useState(false);
+  const [form, setForm] = useState({
+    voucherLineId: '',
+    chequeNo: '',
+    bankName: '',
+    payee: '',
+    issueDate: today(),
+    chequeDate: today(),
+  });
+  const [statusChange, setStatusChange] = useState<{
+    cheque: Cheque;
+    status: ChequeStatusValue;
+    date: string;
+    note: string;
+  } | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFilter = () => {
+    const params = new URLSearchParams();
+    if (status) params.set('status', status);
+    if (direction) params.set('direction', direction);
+    if (search) params.set('search', search);
+    router.push(`/dashboard/vouchers/cheques?${params.toString()}`);
+  };
+
+  const handleSelectLine = (lineId: string) => {
+    const line = unregisteredLines.find((l) => l.id === lineId);
+    setForm({
+      ...form,
+      voucherLineId: lineId,
+      payee: line ? line.vendorName || line.receivedBy || line.paidBy || '' : '',
+      issueDate: line ? line.date.split('T')[0] : today(),
+      chequeDate: line ? line.date.split('T')[0] : today(),
+    });
+  };
+
+  const handleRegister = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/cheques', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to register cheque');
+        return;
+      }
+      setShowRegister(false);
+      setForm({ voucherLineId: '', chequeNo: '', bankName: form.bankName, payee: '', issueDate: today(), chequeDate: today() });
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while registering the cheque');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleStatusChange = async () => {
+    if (!statusChange) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/cheques/${statusChange.cheque.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: statusChange.status,
+          date: statusChange.date,
+          note: statusChange.note || null,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to update cheque');
+        return;
+      }
+      setStatusChange(null);
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while updating the cheque');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async (cheque: Cheque) => {
+    if (!confirm(`Remove cheque ${cheque.chequeNo} from the register?`)) return;
+    try {
+      const response = await fetch(`/api/cheques/${cheque.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.ok) {
+        alert(data.error || 'Failed to remove cheque');
+        return;
+      }
+      router.refresh();
+    } catch (err) {
+      alert('An error occurred while removing the cheque');
+    }
+  };
+
+  const handleMarkStale = async () => {
+    if (!confirm('Mark all issued cheques older than the stale period as STALE?')) return;
+    try {
+      const response = await fetch('/api/cheques/mark-stale', { method: 'POST' });
+      const data = await response.json();
+      if (!data.ok) {
+        alert(data.error || 'Failed to mark stale cheques');
+        return;
+      }
+      alert(`${data.data.count} cheque(s) marked stale`);
+      router.refresh();
+    } catch (err) {
+      alert('An error occurred while marking stale cheques');
+    }
+  };
+
+  const selectedLine = unregisteredLines.find((l) => l.id === form.voucherLineId);
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">All</option>
+              {(Object.keys(CHEQUE_STATUS_STYLES) as ChequeStatusValue[]).map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Direction</label>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            >
+              <option value="">All</option>
+              <option value="OUTGOING">Issued (payments)</option>
+              <option value="INCOMING">Received (receipts)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Cheque No / Payee</label>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          <div className="flex items-end">
+            <button
+              onClick={handleFilter}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Apply Filters
+            </button>
+          </div>
+          <div className="flex items-end gap-2">
+            {canWrite && (
+              <>
+                <button
+                  onClick={() => {
+                    setError(null);
+                    setShowRegister(!showRegister);
+                  }}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
+                >
+                  Register
+                </button>
+                <button
+                  onClick={handleMarkStale}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Mark Stale
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="mt-3 text-sm">
+          <Link href="/dashboard/reports/financial/post-dated-cheques" className="text-blue-600 hover:text-blue-800">
+            Post-dated cheques report →
+          </Link>
+        </div>
+      </div>
+
+      {error && !statusChange && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-red-800 text-sm">{error}</div>
+      )}
+
+      {/* Register form */}
+      {showRegister && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+          <h3 className="text-lg font-medium text-gray-900">Register Cheque</h3>
+          {unregisteredLines.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No payment or receipt vouchers with a cheque payment method are waiting to be registered.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Voucher *</label>
+                <select
+                  value={form.voucherLineId}
+                  onChange={(e) => handleSelectLine(e.target.value)}
+                  className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                >
+                  <option value="">Select voucher</option>
+                  {unregisteredLines.map((line) => (
+                    <option key={line.id} value={line.id}>
+                      {line.voucherNo} · {formatDate(line.date)} · {line.voucherType} · {toMoney(line.amount)}
+                      {line.vendorName ? ` · ${line.vendorName}` : ''}
+                    </option>
+                  ))}
+                </select>
+                {selectedLine && (
+                  <p className="mt-1 text-xs text-gray-500">
+                    {selectedLine.accountName} · {selectedLine.narration || 'No narration'} · {selectedLine.voucherStatus}
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cheque No *</label>
+                  <input
+                    type="text"
+                    value={form.chequeNo}
+                    onChange={(e) => setForm({ ...form, chequeNo: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Bank *</label>
+                  <input
+                    type="text"
+                    value={form.bankName}
+                    onChange={(e) => setForm({ ...form, bankName: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {selectedLine?.voucherType === 'RECEIPT' ? 'Drawer *' : 'Payee *'}
+                  </label>
+                  <input
+                    type="text"
+                    value={form.payee}
+                    onChange={(e) => setForm({ ...form, payee: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Issue Date *</label>
+                  <input
+                    type="date"
+                    value={form.issueDate}
+                    onChange={(e) => setForm({ ...form, issueDate: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Cheque Date *</label>
+                  <input
+                    type="date"
+                    value={form.chequeDate}
+                    onChange={(e) => setForm({ ...form, chequeDate: e.target.value })}
+                    className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setShowRegister(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRegister}
+                  disabled={isWorking || !form.voucherLineId}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                >
+                  {isWorking ? 'Saving...' : 'Register Cheque'}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Register */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Cheque</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payee / Drawer</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dates</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Voucher</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {cheques.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No cheques found
+                </td>
+              </tr>
+            ) : (
+              cheques.map((cheque) => (
+                <tr key={cheque.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{cheque.chequeNo}</div>
+                    <div className="text-xs text-gray-500">
+                      {cheque.bankName} · {cheque.direction === 'OUTGOING' ? 'Issued' : 'Received'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{cheque.payee}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    <div>Issued {formatDate(cheque.issueDate)}</div>
+                    <div className="text-xs text-gray-500">
+                      Dated {formatDate(cheque.chequeDate)}
+                      {new Date(cheque.chequeDate) > new Date() && (
+                        <span className="ml-1 text-orange-600 font-medium">post-dated</span>
+                      )}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <Link href={`/dashboard/vouchers/${cheque.voucher.id}`} className="text-blue-600 hover:text-blue-800">
+                      {cheque.voucher.voucherNo}
+                    </Link>
+                    <div className="text-xs text-gray-500">{cheque.accountName}</div>
+                    {cheque.reversalVoucher && (
+                      <div className="text-xs">
+                        Reversed by{' '}
+                        <Link
+                          href={`/dashboard/vouchers/${cheque.reversalVoucher.id}`}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          {cheque.reversalVoucher.voucherNo}
+                        </Link>
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right font-medium whitespace-nowrap">
+                    {toMoney(cheque.amount)}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 py-1 text-xs font-semibold rounded-full ${CHEQUE_STATUS_STYLES[cheque.status]}`}>
+                      {cheque.status}
+                    </span>
+                    {cheque.statusNote && <div className="text-xs text-gray-500 mt-1">{cheque.statusNote}</div>}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-right whitespace-nowrap space-x-2">
+                    {canWrite &&
+                      CHEQUE_STATUS_TRANSITIONS[cheque.status]
+                        .filter((next) => next !== 'BOUNCED' || canBounce)
+                        .map((next) => (
+                          <button
+                            key={next}
+                            onClick={() => {
+                              setError(null);
+                              setStatusChange({ cheque, status: next, date: today(), note: '' });
+                            }}
+                            className={next === 'BOUNCED' || next === 'CANCELLED' ? 'text-red-600 hover:text-red-800' : 'text-blue-600 hover:text-blue-800'}
+                          >
+                            {ACTION_LABELS[next]}
+                          </button>
+                        ))}
+                    {canWrite && cheque.status === 'ISSUED' && (
+                      <button onClick={() => handleDelete(cheque)} className="text-gray-500 hover:text-gray-700">
+                        Remove
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Status change modal */}
+      {statusChange && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50 flex items-center justify-center">
+          <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4 space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">
+              Cheque {statusChange.cheque.chequeNo}: {statusChange.status}
+            </h3>
+            {statusChange.status === 'BOUNCED' && statusChange.cheque.voucher.status === 'POSTED' && (
+              <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">
+                Voucher {statusChange.cheque.voucher.voucherNo} will be reversed on the bounce date.
+              </p>
+            )}
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-800">{error}</div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+              <input
+                type="date"
+                value={statusChange.date}
+                onChange={(e) => setStatusChange({ ...statusChange, date: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {statusChange.status === 'BOUNCED' ? 'Bounce reason *' : 'Note'}
+              </label>
+              <input
+                type="text"
+                value={statusChange.note}
+                onChange={(e) => setStatusChange({ ...statusChange, note: e.target.value })}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              />
+            </div>
+            <div className="flex justify-end gap-3">
+              <button
+                onClick={() => setStatusChange(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleStatusChange}
+                disabled={isWorking}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isWorking ? 'Saving...' : 'Confirm'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
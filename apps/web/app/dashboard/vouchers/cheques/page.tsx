@@ -0,0 +1,69 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listCheques, listUnregisteredChequeLines } from '@/lib/accounting/cheques.server';
+import { ChequeStatusValue } from '@/lib/accounting/cheques';
+import DashboardLayout from '../../components/DashboardLayout';
+import ChequeRegisterClient from './ChequeRegisterClient';
+
+const STATUSES: ChequeStatusValue[] = ['ISSUED', 'PRESENTED', 'CLEARED', 'BOUNCED', 'CANCELLED', 'STALE'];
+
+export default async function ChequeRegisterPage({
+  searchParams,
+}: {
+  searchParams: { status?: string; direction?: string; search?: string };
+}) {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+  const status = STATUSES.find((s) => s === searchParams.status);
+  const direction =
+    searchParams.direction === 'OUTGOING' || searchParams.direction === 'INCOMING'
+      ? searchParams.direction
+      : undefined;
+
+  const [cheques, unregisteredLines] = await Promise.all([
+    listCheques(auth.companyId, { status, direction, search: searchParams.search || undefined }),
+    canWrite ? listUnregisteredChequeLines(auth.companyId) : Promise.resolve([]),
+  ]);
+
+  return (
+    <DashboardLayout title="Cheque Register">
+      <ChequeRegisterClient
+        cheques={cheques.map((cheque) => ({
+          id: cheque.id,
+          direction: cheque.direction,
+          chequeNo: cheque.chequeNo,
+          bankName: cheque.bankName,
+          payee: cheque.payee,
+          amount: cheque.amount,
+          issueDate: cheque.issueDate.toISOString(),
+          chequeDate: cheque.chequeDate.toISOString(),
+          status: cheque.status,
+          statusNote: cheque.statusNote,
+          clearedAt: cheque.clearedAt?.toISOString() || null,
+          bouncedAt: cheque.bouncedAt?.toISOString() || null,
+          voucher: {
+            id: cheque.voucherLine.voucher.id,
+            voucherNo: cheque.voucherLine.voucher.voucherNo,
+            status: cheque.voucherLine.voucher.status,
+          },
+          accountName: `${cheque.voucherLine.account.code} - ${cheque.voucherLine.account.name}`,
+          reversalVoucher: cheque.reversalVoucher,
+        }))}
+        unregisteredLines={unregisteredLines.map((line) => ({
+          ...line,
+          date: line.date.toISOString(),
+        }))}
+        filters={{ status: status || '', direction: direction || '', search: searchParams.search || '' }}
+        canWrite={canWrite}
+        canBounce={can(auth.role, 'vouchers', 'POST')}
+      />
+    </DashboardLayout>
+  );
+}
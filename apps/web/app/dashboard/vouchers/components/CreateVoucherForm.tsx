@@ -21,13 +21,21 @@ interface PaymentMethod {
   type: string;
 }
 
+interface Vendor {
+  id: string;
+  name: string;
+}
+
 interface VoucherLine {
   accountId: string;
   description: string;
   debit: string | number; // Allow string for UI state (empty while typing)
   credit: string | number; // Allow string for UI state (empty while typing)
+  currencyCode: string; // Empty for the base currency
+  exchangeRate: string | number;
   projectId: string;
   isCompanyLevel: boolean;
+  vendorId: string;
   paymentMethodId: string;
   // PDF fields
   workDetails: string;
@@ -37,6 +45,29 @@ interface VoucherLine {
   voucherRef: string;
 }
 
+type VoucherTypeOption = 'RECEIPT' | 'PAYMENT' | 'JOURNAL' | 'CONTRA';
+
+const emptyLine: VoucherLine = {
+  accountId: '',
+  description: '',
+  debit: '',
+  credit: '',
+  currencyCode: '',
+  exchangeRate: '',
+  projectId: '',
+  isCompanyLevel: false,
+  vendorId: '',
+  paymentMethodId: '',
+  workDetails: '',
+  paidBy: '',
+  receivedBy: '',
+  fileRef: '',
+  voucherRef: '',
+};
+
+const toNumber = (value: string | number) =>
+  typeof value === 'string' ? parseFloat(value) || 0 : value || 0;
+
 interface CreateVoucherFormProps {
   voucher?: any;
   voucherId?: string;
@@ -52,11 +83,14 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [projects, setProjects] = useState<Project[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('');
 
   const [formData, setFormData] = useState(() => {
     if (voucher) {
       return {
         date: new Date(voucher.date).toISOString().split('T')[0],
+        type: (voucher.type || 'JOURNAL') as VoucherTypeOption,
         narration: voucher.narration || '',
         projectId: voucher.projectId || '',
         expenseType: voucher.expenseType || 'PROJECT_EXPENSE',
@@ -64,6 +98,7 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
     }
     return {
       date: new Date().toISOString().split('T')[0],
+      type: 'JOURNAL' as VoucherTypeOption,
       narration: '',
       projectId: '',
       expenseType: 'PROJECT_EXPENSE' as 'PROJECT_EXPENSE' | 'OFFICE_EXPENSE',
@@ -75,10 +110,14 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
       return voucher.lines.map((l: any) => ({
         accountId: l.accountId,
         description: l.description || '',
-        debit: Number(l.debit),
-        credit: Number(l.credit),
+        // Foreign-currency lines are edited in their own currency
+        debit: l.currencyCode ? Number(l.fxDebit) : Number(l.debit),
+        credit: l.currencyCode ? Number(l.fxCredit) : Number(l.credit),
+        currencyCode: l.currencyCode || '',
+        exchangeRate: l.exchangeRate ? Number(l.exchangeRate) : '',
         projectId: l.projectId || '',
         isCompanyLevel: l.isCompanyLevel || false,
+        vendorId: l.vendorId || '',
         paymentMethodId: l.paymentMethodId || '',
         workDetails: l.workDetails || '',
         paidBy: l.paidBy || '',
@@ -87,10 +126,7 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
         voucherRef: l.voucherRef || '',
       }));
     }
-    return [
-      { accountId: '', description: '', debit: '', credit: '', projectId: '', isCompanyLevel: false, paymentMethodId: '', workDetails: '', paidBy: '', receivedBy: '', fileRef: '', voucherRef: '' },
-      { accountId: '', description: '', debit: '', credit: '', projectId: '', isCompanyLevel: false, paymentMethodId: '', workDetails: '', paidBy: '', receivedBy: '', fileRef: '', voucherRef: '' },
-    ];
+    return [{ ...emptyLine }, { ...emptyLine }];
   });
 
   useEffect(() => {
@@ -120,10 +156,28 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
           setPaymentMethods(data.data);
         }
       });
+
+    // Fetch vendors (payable lines)
+    fetch('/api/vendors?active=true')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setVendors(data.data);
+        }
+      });
+
+    // Fetch the company base currency
+    fetch('/api/exchange-rates')
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setBaseCurrency(data.data.baseCurrency);
+        }
+      });
   }, []);
 
   const addLine = () => {
-    setLines([...lines, { accountId: '', description: '', debit: '', credit: '', projectId: '', isCompanyLevel: false, paymentMethodId: '', workDetails: '', paidBy: '', receivedBy: '', fileRef: '', voucherRef: '' }]);
+    setLines([...lines, { ...emptyLine }]);
   };
 
   const removeLine = (index: number) => {
@@ -140,15 +194,32 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
     });
   };
 
+  // Default a foreign-currency line's rate to the rate recorded for the voucher date
+  const updateCurrency = (index: number, value: string) => {
+    const currencyCode = value.toUpperCase().slice(0, 3);
+    updateLine(index, 'currencyCode', currencyCode);
+    if (currencyCode.length !== 3 || currencyCode === baseCurrency) {
+      updateLine(index, 'exchangeRate', '');
+      return;
+    }
+    fetch(`/api/exchange-rates/lookup?currency=${currencyCode}&date=${formData.date}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok && data.data) {
+          updateLine(index, 'exchangeRate', data.data.rate);
+        }
+      });
+  };
+
+  const isForeign = (line: VoucherLine) => !!line.currencyCode && line.currencyCode !== baseCurrency;
+
+  // Totals in base currency (foreign lines converted at their rate)
+  const toBase = (line: VoucherLine, amount: string | number) =>
+    Math.round(toNumber(amount) * (isForeign(line) ? toNumber(line.exchangeRate) : 1) * 100) / 100;
+
   const calculateTotals = () => {
-    const totalDebit = lines.reduce((sum, line) => {
-      const debit = typeof line.debit === 'string' ? parseFloat(line.debit) || 0 : line.debit || 0;
-      return sum + debit;
-    }, 0);
-    const totalCredit = lines.reduce((sum, line) => {
-      const credit = typeof line.credit === 'string' ? parseFloat(line.credit) || 0 : line.credit || 0;
-      return sum + credit;
-    }, 0);
+    const totalDebit = lines.reduce((sum, line) => sum + toBase(line, line.debit), 0);
+    const totalCredit = lines.reduce((sum, line) => sum + toBase(line, line.credit), 0);
     return { totalDebit, totalCredit, difference: totalDebit - totalCredit };
   };
 
@@ -168,6 +239,11 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
       return;
     }
 
+    if (lines.some((line) => isForeign(line) && toNumber(line.exchangeRate) <= 0)) {
+      setError('Enter an exchange rate for every foreign-currency line');
+      return;
+    }
+
     // Validate each line has either debit or credit
     if (lines.some((line) => {
       const debit = typeof line.debit === 'string' ? parseFloat(line.debit) || 0 : line.debit || 0;
@@ -186,6 +262,7 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
 
       const payload = {
         date: formData.date,
+        type: formData.type,
         narration: formData.narration || null,
         projectId: finalProjectId,
         expenseType: formData.expenseType,
@@ -196,10 +273,13 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
             description: line.description || null,
             debit: typeof line.debit === 'string' ? parseFloat(line.debit) || 0 : line.debit || 0,
             credit: typeof line.credit === 'string' ? parseFloat(line.credit) || 0 : line.credit || 0,
+            currencyCode: isForeign(line) ? line.currencyCode : null,
+            exchangeRate: isForeign(line) ? toNumber(line.exchangeRate) : null,
             projectId: formData.expenseType === 'OFFICE_EXPENSE' 
               ? null 
               : (isCompanyLevel ? null : (line.projectId || null)),
             isCompanyLevel: formData.expenseType === 'OFFICE_EXPENSE' ? false : isCompanyLevel,
+            vendorId: line.vendorId || null,
             paymentMethodId: line.paymentMethodId || null,
             // PDF fields
             workDetails: line.workDetails || null,
@@ -269,6 +349,29 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
           />
         </div>
 
+        <div>
+          <label htmlFor="voucherType" className="block text-sm font-medium text-gray-700">
+            Voucher Type <span className="text-red-500">*</span>
+          </label>
+          <select
+            id="voucherType"
+            value={formData.type}
+            disabled={isEdit}
+            onChange={(e) => setFormData({ ...formData, type: e.target.value as VoucherTypeOption })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm disabled:bg-gray-100"
+          >
+            <option value="JOURNAL">Journal</option>
+            <option value="RECEIPT">Receipt</option>
+            <option value="PAYMENT">Payment</option>
+            <option value="CONTRA">Contra</option>
+          </select>
+          {isEdit && (
+            <p className="mt-1 text-xs text-gray-500">
+              The type is fixed once the voucher is numbered.
+            </p>
+          )}
+        </div>
+
         <div>
           <label htmlFor="expenseType" className="block text-sm font-medium text-gray-700">
             Expense Type <span className="text-red-500">*</span>
@@ -348,12 +451,15 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Account (Purpose)</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Note</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Project</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vendor</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Work Details</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Payment Method</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Paid By</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Received By</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">File Ref</th>
                 <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Voucher Ref</th>
+                <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase">Currency</th>
+                <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Rate</th>
                 <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Debit</th>
                 <th className="px-2 py-2 text-right text-xs font-medium text-gray-500 uppercase">Credit</th>
                 <th className="px-2 py-2 text-center text-xs font-medium text-gray-500 uppercase">Actions</th>
@@ -413,6 +519,20 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
                       ))}
                     </select>
                   </td>
+                  <td className="px-2 py-2">
+                    <select
+                      value={line.vendorId}
+                      onChange={(e) => updateLine(index, 'vendorId', e.target.value)}
+                      className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    >
+                      <option value="">None</option>
+                      {vendors.map((vendor) => (
+                        <option key={vendor.id} value={vendor.id}>
+                          {vendor.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
                   <td className="px-2 py-2">
                     <input
                       type="text"
@@ -461,6 +581,27 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
                       <option value="OC">OC</option>
                     </select>
                   </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="text"
+                      value={line.currencyCode}
+                      onChange={(e) => updateCurrency(index, e.target.value)}
+                      placeholder={baseCurrency || 'Base'}
+                      maxLength={3}
+                      className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm uppercase"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      step="0.000001"
+                      min="0"
+                      value={line.exchangeRate}
+                      onChange={(e) => updateLine(index, 'exchangeRate', e.target.value)}
+                      disabled={!isForeign(line)}
+                      className="block w-24 rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right disabled:bg-gray-100"
+                    />
+                  </td>
                   <td className="px-2 py-2">
                     <input
                       type="number"
@@ -511,7 +652,9 @@ export default function CreateVoucherForm(props?: CreateVoucherFormProps) {
             </tbody>
             <tfoot className="bg-gray-50">
               <tr>
-                <td colSpan={9} className="px-2 py-2 text-right font-medium">Totals:</td>
+                <td colSpan={12} className="px-2 py-2 text-right font-medium">
+                  Totals{baseCurrency ? ` (${baseCurrency})` : ''}:
+                </td>
                 <td className="px-2 py-2 text-right font-medium">
                   {totalDebit.toFixed(2)}
                 </td>
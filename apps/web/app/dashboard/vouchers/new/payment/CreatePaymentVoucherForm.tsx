@@ -2,6 +2,7 @@
 
 import { useState, useEffect, FormEvent } from 'react';
 import { useRouter } from 'next/navigation';
+import { splitWithholding } from '@/lib/accounting/withholdingTax';
 
 interface Vendor {
   id: string;
@@ -26,6 +27,12 @@ interface OpenItem {
   originalAmount: number;
   allocatedAmount: number;
   outstanding: number;
+  // Foreign-currency bills: amounts in the bill's currency and the rate it was booked at
+  currencyCode: string | null;
+  exchangeRate: number | null;
+  fxOriginalAmount: number | null;
+  fxAllocatedAmount: number | null;
+  fxOutstanding: number | null;
 }
 
 interface CreatePaymentVoucherFormProps {
@@ -49,6 +56,9 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
   });
 
   const [allocations, setAllocations] = useState<Record<string, number>>({});
+  const [withholding, setWithholding] = useState({ vatPercent: 0, aitPercent: 0 });
+  const [withholdingRateName, setWithholdingRateName] = useState<string | null>(null);
+  const [settlementRates, setSettlementRates] = useState<Record<string, number>>({});
 
   // Fetch vendors and accounts on mount
   useEffect(() => {
@@ -105,19 +115,88 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
     }
   }, [formData.vendorId]);
 
+  // Default the settlement rate of each foreign currency to the rate on the payment date
+  const foreignCurrencies = Array.from(
+    new Set(openItems.map((item) => item.currencyCode).filter((code): code is string => !!code))
+  );
+  const foreignCurrencyKey = foreignCurrencies.join(',');
+  useEffect(() => {
+    foreignCurrencies.forEach((currencyCode) => {
+      fetch(`/api/exchange-rates/lookup?currency=${currencyCode}&date=${formData.date}`)
+        .then((res) => res.json())
+        .then((data) => {
+          if (data.ok && data.data) {
+            setSettlementRates((prev) => ({ ...prev, [currencyCode]: data.data.rate }));
+          }
+        });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [foreignCurrencyKey, formData.date]);
+
+  // Default the VAT/AIT withholding to the vendor's configured rate
+  useEffect(() => {
+    if (!formData.vendorId) {
+      setWithholding({ vatPercent: 0, aitPercent: 0 });
+      setWithholdingRateName(null);
+      return;
+    }
+    fetch(`/api/vendors/${formData.vendorId}/withholding-rate`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.ok) {
+          setWithholding({ vatPercent: data.data.vatPercent, aitPercent: data.data.aitPercent });
+          setWithholdingRateName(data.data.name);
+        }
+      })
+      .catch(() => {
+        setWithholding({ vatPercent: 0, aitPercent: 0 });
+        setWithholdingRateName(null);
+      });
+  }, [formData.vendorId]);
+
   const updateAllocation = (lineId: string, amount: number) => {
     const item = openItems.find((i) => i.lineId === lineId);
     if (!item) return;
 
-    // Validate amount doesn't exceed outstanding
-    const validAmount = Math.max(0, Math.min(amount, item.outstanding));
+    // Validate amount doesn't exceed outstanding (in the bill's currency for foreign bills)
+    const outstanding = item.currencyCode ? item.fxOutstanding ?? 0 : item.outstanding;
+    const validAmount = Math.max(0, Math.min(amount, outstanding));
     setAllocations((prev) => ({
       ...prev,
       [lineId]: validAmount,
     }));
   };
 
-  const totalPayment = Object.values(allocations).reduce((sum, amount) => sum + amount, 0);
+  // Base-currency amount paid for each allocation; foreign bills convert at the settlement rate
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const paidAmounts = openItems
+    .filter((item) => (allocations[item.lineId] || 0) > 0)
+    .map((item) => {
+      const amount = allocations[item.lineId];
+      if (!item.currencyCode) {
+        return { paid: amount, fxGainLoss: 0 };
+      }
+      const paid = round(amount * (settlementRates[item.currencyCode] || 0));
+      const carrying =
+        amount >= (item.fxOutstanding ?? 0)
+          ? round(item.outstanding)
+          : Math.min(round(amount * (item.exchangeRate || 0)), item.outstanding);
+      return { paid, fxGainLoss: round(carrying - paid) };
+    });
+  const totalPayment = paidAmounts.reduce((sum, p) => sum + p.paid, 0);
+  const fxGainLoss = paidAmounts.reduce((sum, p) => sum + p.fxGainLoss, 0);
+
+  // Withholding is computed per bill, as the server does
+  const withheld = paidAmounts
+    .map((p) => p.paid)
+    .reduce(
+      (sum, amount) => {
+        const split = splitWithholding(amount, withholding);
+        return { vat: sum.vat + split.vatAmount, ait: sum.ait + split.aitAmount };
+      },
+      { vat: 0, ait: 0 }
+    );
+  const netPayment = totalPayment - withheld.vat - withheld.ait;
 
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
@@ -141,10 +220,24 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
     // Build allocations array (only include non-zero allocations)
     const allocationEntries = Object.entries(allocations)
       .filter(([_, amount]) => amount > 0)
-      .map(([sourceLineId, amount]) => ({
-        sourceLineId,
-        amount,
-      }));
+      .map(([sourceLineId, amount]) => {
+        const currencyCode = openItems.find((item) => item.lineId === sourceLineId)?.currencyCode;
+        return {
+          sourceLineId,
+          amount,
+          ...(currencyCode ? { exchangeRate: settlementRates[currencyCode] } : {}),
+        };
+      });
+
+    const missingRate = foreignCurrencies.find(
+      (code) =>
+        !settlementRates[code] &&
+        openItems.some((item) => item.currencyCode === code && (allocations[item.lineId] || 0) > 0)
+    );
+    if (missingRate) {
+      setError(`Enter the ${missingRate} settlement rate`);
+      return;
+    }
 
     if (allocationEntries.length === 0) {
       setError('Please allocate at least one payment amount');
@@ -165,6 +258,8 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
           narration: formData.narration || null,
           paymentAccountId: formData.paymentAccountId,
           allocations: allocationEntries,
+          withholding:
+            withholding.vatPercent > 0 || withholding.aitPercent > 0 ? withholding : undefined,
         }),
       });
 
@@ -297,26 +392,39 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
                 <tbody className="bg-white divide-y divide-gray-200">
                   {openItems.map((item) => (
                     <tr key={item.lineId}>
-                      <td className="px-4 py-2 text-sm text-gray-900">{item.voucherNo}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {item.voucherNo}
+                        {item.currencyCode && (
+                          <div className="text-xs text-gray-500">
+                            {item.currencyCode} @ {item.exchangeRate}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-4 py-2 text-sm text-gray-500">
                         {new Date(item.date).toLocaleDateString()}
                       </td>
                       <td className="px-4 py-2 text-sm text-gray-500">{item.narration || '-'}</td>
                       <td className="px-4 py-2 text-sm text-gray-900 text-right">
-                        {item.originalAmount.toFixed(2)}
+                        {item.currencyCode
+                          ? `${item.currencyCode} ${(item.fxOriginalAmount ?? 0).toFixed(2)}`
+                          : item.originalAmount.toFixed(2)}
                       </td>
                       <td className="px-4 py-2 text-sm text-gray-500 text-right">
-                        {item.allocatedAmount.toFixed(2)}
+                        {item.currencyCode
+                          ? `${item.currencyCode} ${(item.fxAllocatedAmount ?? 0).toFixed(2)}`
+                          : item.allocatedAmount.toFixed(2)}
                       </td>
                       <td className="px-4 py-2 text-sm font-medium text-gray-900 text-right">
-                        {item.outstanding.toFixed(2)}
+                        {item.currencyCode
+                          ? `${item.currencyCode} ${(item.fxOutstanding ?? 0).toFixed(2)}`
+                          : item.outstanding.toFixed(2)}
                       </td>
                       <td className="px-4 py-2">
                         <input
                           type="number"
                           step="0.01"
                           min="0"
-                          max={item.outstanding}
+                          max={item.currencyCode ? item.fxOutstanding ?? 0 : item.outstanding}
                           value={allocations[item.lineId] || 0}
                           onChange={(e) => updateAllocation(item.lineId, parseFloat(e.target.value) || 0)}
                           className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right"
@@ -328,6 +436,109 @@ export default function CreatePaymentVoucherForm({ initialVendorId }: CreatePaym
               </table>
             </div>
           )}
+
+          {/* Settlement rates for foreign-currency bills */}
+          {foreignCurrencies.length > 0 && (
+            <div className="mt-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Settlement Rates</h4>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {foreignCurrencies.map((currencyCode) => (
+                  <div key={currencyCode}>
+                    <label className="block text-sm font-medium text-gray-700">
+                      {currencyCode} rate <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      step="0.000001"
+                      min="0"
+                      value={settlementRates[currencyCode] || ''}
+                      onChange={(e) =>
+                        setSettlementRates({
+                          ...settlementRates,
+                          [currencyCode]: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm text-right"
+                    />
+                  </div>
+                ))}
+              </div>
+              {fxGainLoss !== 0 && (
+                <p className="mt-3 text-sm text-gray-700">
+                  Realized exchange {fxGainLoss > 0 ? 'gain' : 'loss'}:{' '}
+                  <span className={fxGainLoss > 0 ? 'text-green-600' : 'text-red-600'}>
+                    {Math.abs(fxGainLoss).toFixed(2)}
+                  </span>
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* VAT/AIT deducted at source */}
+      {formData.vendorId && openItems.length > 0 && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <div className="flex justify-between items-center mb-3">
+            <h3 className="text-lg font-medium">Withholding Tax</h3>
+            <span className="text-xs text-gray-500">
+              {withholdingRateName ? `Default rate: ${withholdingRateName}` : 'No rate configured for this vendor'}
+            </span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="vatPercent" className="block text-sm font-medium text-gray-700">
+                VAT %
+              </label>
+              <input
+                type="number"
+                id="vatPercent"
+                step="0.01"
+                min="0"
+                max="100"
+                value={withholding.vatPercent}
+                onChange={(e) =>
+                  setWithholding({ ...withholding, vatPercent: parseFloat(e.target.value) || 0 })
+                }
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="aitPercent" className="block text-sm font-medium text-gray-700">
+                AIT %
+              </label>
+              <input
+                type="number"
+                id="aitPercent"
+                step="0.01"
+                min="0"
+                max="100"
+                value={withholding.aitPercent}
+                onChange={(e) =>
+                  setWithholding({ ...withholding, aitPercent: parseFloat(e.target.value) || 0 })
+                }
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+          </div>
+          <dl className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Gross</dt>
+              <dd className="font-medium text-gray-900">{totalPayment.toFixed(2)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">VAT withheld</dt>
+              <dd className="font-medium text-gray-900">{withheld.vat.toFixed(2)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">AIT withheld</dt>
+              <dd className="font-medium text-gray-900">{withheld.ait.toFixed(2)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Net paid</dt>
+              <dd className="font-medium text-green-600">{netPayment.toFixed(2)}</dd>
+            </div>
+          </dl>
         </div>
       )}
 
@@ -21,14 +21,28 @@ export default async function VouchersPage() {
     <DashboardLayout
       title="Vouchers"
       actions={
-        canWrite ? (
+        <div className="flex gap-2">
           <Link
-            href="/dashboard/vouchers/new"
-            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            href="/dashboard/vouchers/recurring"
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
           >
-            New Voucher
+            Recurring
           </Link>
-        ) : null
+          <Link
+            href="/dashboard/vouchers/cheques"
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Cheques
+          </Link>
+          {canWrite && (
+            <Link
+              href="/dashboard/vouchers/new"
+              className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+            >
+              New Voucher
+            </Link>
+          )}
+        </div>
       }
     >
       <VouchersList canWrite={canWrite} canPost={canPost} canApprove={canApprove} />
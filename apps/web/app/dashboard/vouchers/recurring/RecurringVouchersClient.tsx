@@ -0,0 +1,489 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toMoney } from '@/lib/payables';
+import { FREQUENCY_LABELS, upcomingRunDates } from '@/lib/vouchers/recurring';
+
+type Frequency = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+interface Template {
+  id: string;
+  name: string;
+  type: string;
+  narration: string | null;
+  project: { id: string; name: string } | null;
+  frequency: Frequency;
+  startDate: string | Date;
+  endDate: string | Date | null;
+  nextRunDate: string | Date | null;
+  isPaused: boolean;
+  lastError: string | null;
+  amount: number;
+  generatedCount: number;
+  recentVouchers: Array<{
+    id: string;
+    voucherNo: string;
+    date: string | Date;
+    status: string;
+  }>;
+}
+
+interface SourceVoucher {
+  id: string;
+  voucherNo: string;
+  date: string | Date;
+  narration: string | null;
+  type: string | null;
+}
+
+interface RecurringVouchersClientProps {
+  templates: Template[];
+  sourceVouchers: SourceVoucher[];
+  canWrite: boolean;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone: 'UTC' });
+
+const emptyForm = {
+  name: '',
+  sourceVoucherId: '',
+  frequency: 'MONTHLY' as Frequency,
+  startDate: new Date().toISOString().split('T')[0],
+  endDate: '',
+};
+
+export default function RecurringVouchersClient({
+  templates,
+  sourceVouchers,
+  canWrite,
+}: RecurringVouchersClientProps) {
+  const router = useRouter();
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const dueCount = templates.filter(
+    (t) => !t.isPaused && t.nextRunDate && new Date(t.nextRunDate) <= new Date()
+  ).length;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/recurring-vouchers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: formData.name,
+          sourceVoucherId: formData.sourceVoucherId,
+          frequency: formData.frequency,
+          startDate: formData.startDate,
+          endDate: formData.endDate || null,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to create recurring template');
+        return;
+      }
+      setShowForm(false);
+      setFormData(emptyForm);
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while creating the recurring template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGenerate = async (templateId?: string) => {
+    setIsGenerating(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/recurring-vouchers/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(templateId ? { templateId } : {}),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        setError(data.error || 'Failed to generate vouchers');
+        return;
+      }
+      const { generated, failed } = data.data;
+      setMessage(
+        `${generated.length} draft voucher(s) generated` +
+          (failed.length > 0 ? `, ${failed.length} template(s) failed` : '')
+      );
+      router.refresh();
+    } catch (err) {
+      setError('An error occurred while generating vouchers');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSkip = async (template: Template) => {
+    if (!template.nextRunDate) return;
+    if (!confirm(`Skip the ${formatDate(template.nextRunDate)} run of "${template.name}"?`)) {
+      return;
+    }
+    setBusyId(template.id);
+    try {
+      const response = await fetch(`/api/recurring-vouchers/${template.id}/skip`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to skip run');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleTogglePause = async (template: Template) => {
+    setBusyId(template.id);
+    try {
+      const response = await fetch(`/api/recurring-vouchers/${template.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isPaused: !template.isPaused }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update template');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (template: Template) => {
+    if (!confirm(`Delete template "${template.name}"? Vouchers it generated are kept.`)) {
+      return;
+    }
+    setBusyId(template.id);
+    try {
+      const response = await fetch(`/api/recurring-vouchers/${template.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to delete template');
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white border border-gray-200 rounded-lg p-4 text-sm text-gray-600">
+        Each run creates a DRAFT voucher dated on the run date, which then goes through the usual
+        submit, approve and post workflow. Runs missed while generation was not triggered are
+        caught up the next time vouchers are generated.
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+          <p className="text-sm text-green-800">{message}</p>
+        </div>
+      )}
+
+      {canWrite && (
+        <div className="flex justify-end gap-4">
+          <button
+            onClick={() => handleGenerate()}
+            disabled={isGenerating || dueCount === 0}
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isGenerating ? 'Generating...' : `Generate Due Vouchers (${dueCount})`}
+          </button>
+          <button
+            onClick={() => {
+              setShowForm(true);
+              setError(null);
+            }}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700"
+          >
+            New Template
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <h3 className="text-lg font-medium mb-4">Create Recurring Template</h3>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  Name <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g. Site office rent"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Copy Header and Lines From <span className="text-red-500">*</span>
+                </label>
+                <select
+                  required
+                  value={formData.sourceVoucherId}
+                  onChange={(e) => setFormData({ ...formData, sourceVoucherId: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  <option value="">Select a voucher</option>
+                  {sourceVouchers.map((voucher) => (
+                    <option key={voucher.id} value={voucher.id}>
+                      {voucher.voucherNo} · {formatDate(voucher.date)}
+                      {voucher.narration ? ` · ${voucher.narration}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Frequency</label>
+                <select
+                  value={formData.frequency}
+                  onChange={(e) => setFormData({ ...formData, frequency: e.target.value as Frequency })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                >
+                  {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map((frequency) => (
+                    <option key={frequency} value={frequency}>
+                      {FREQUENCY_LABELS[frequency]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">
+                  First Run <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="date"
+                  required
+                  value={formData.startDate}
+                  onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">End Date</label>
+                <input
+                  type="date"
+                  value={formData.endDate}
+                  onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-4">
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Create Template'}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Template
+                </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Upcoming Runs
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Status
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                  Generated Vouchers
+                </th>
+                {canWrite && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    Actions
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {templates.length === 0 ? (
+                <tr>
+                  <td colSpan={canWrite ? 6 : 5} className="px-6 py-4 text-center text-sm text-gray-500">
+                    No recurring templates yet
+                  </td>
+                </tr>
+              ) : (
+                templates.map((template) => {
+                  const upcoming = upcomingRunDates(
+                    {
+                      frequency: template.frequency,
+                      startDate: new Date(template.startDate),
+                      endDate: template.endDate ? new Date(template.endDate) : null,
+                      nextRunDate: template.nextRunDate ? new Date(template.nextRunDate) : null,
+                    },
+                    3
+                  );
+                  const isEnded = !template.nextRunDate;
+                  return (
+                    <tr key={template.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{template.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {template.type} · {FREQUENCY_LABELS[template.frequency]}
+                          {template.project ? ` · ${template.project.name}` : ''}
+                        </div>
+                        {template.narration && (
+                          <div className="text-xs text-gray-500">{template.narration}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-900">
+                        {toMoney(template.amount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {upcoming.length === 0 ? (
+                          <span className="text-gray-500">-</span>
+                        ) : (
+                          upcoming.map((date, index) => (
+                            <div key={date.toISOString()} className={index === 0 ? 'font-medium' : 'text-gray-500'}>
+                              {formatDate(date)}
+                            </div>
+                          ))
+                        )}
+                        {template.endDate && (
+                          <div className="text-xs text-gray-400">Ends {formatDate(template.endDate)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span
+                          className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                            isEnded
+                              ? 'bg-gray-100 text-gray-800'
+                              : template.isPaused
+                                ? 'bg-yellow-100 text-yellow-800'
+                                : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {isEnded ? 'Ended' : template.isPaused ? 'Paused' : 'Active'}
+                        </span>
+                        {template.lastError && (
+                          <div className="text-xs text-red-700 mt-1">Last run failed: {template.lastError}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        {template.recentVouchers.length === 0 ? (
+                          <span className="text-gray-500">None yet</span>
+                        ) : (
+                          template.recentVouchers.map((voucher) => (
+                            <div key={voucher.id}>
+                              <Link
+                                href={`/dashboard/vouchers/${voucher.id}`}
+                                className="text-blue-600 hover:text-blue-900"
+                              >
+                                {voucher.voucherNo}
+                              </Link>
+                              <span className="text-xs text-gray-500 ml-2">
+                                {formatDate(voucher.date)} · {voucher.status}
+                              </span>
+                            </div>
+                          ))
+                        )}
+                        {template.generatedCount > template.recentVouchers.length && (
+                          <div className="text-xs text-gray-400">
+                            {template.generatedCount} generated in total
+                          </div>
+                        )}
+                      </td>
+                      {canWrite && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                          {!isEnded && !template.isPaused && (
+                            <button
+                              onClick={() => handleGenerate(template.id)}
+                              disabled={isGenerating || upcoming.length === 0 || upcoming[0] > new Date()}
+                              className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                            >
+                              Generate
+                            </button>
+                          )}
+                          {!isEnded && (
+                            <button
+                              onClick={() => handleSkip(template)}
+                              disabled={busyId === template.id}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                            >
+                              Skip Next
+                            </button>
+                          )}
+                          {!isEnded && (
+                            <button
+                              onClick={() => handleTogglePause(template)}
+                              disabled={busyId === template.id}
+                              className="text-yellow-700 hover:text-yellow-900 disabled:opacity-50"
+                            >
+                              {template.isPaused ? 'Resume' : 'Pause'}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => handleDelete(template)}
+                            disabled={busyId === template.id}
+                            className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
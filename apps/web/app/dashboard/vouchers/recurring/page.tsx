@@ -0,0 +1,62 @@
+import { redirect } from 'next/navigation';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { prisma } from '@accounting/db';
+import { listRecurringTemplates } from '@/lib/vouchers/recurring.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import RecurringVouchersClient from './RecurringVouchersClient';
+
+export default async function RecurringVouchersPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('vouchers', 'READ');
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'vouchers', 'WRITE');
+
+  const [templates, recentVouchers] = await Promise.all([
+    listRecurringTemplates(auth.companyId),
+    canWrite
+      ? prisma.voucher.findMany({
+          where: {
+            companyId: auth.companyId,
+            isClosingEntry: false,
+            reversalOfId: null,
+          },
+          select: { id: true, voucherNo: true, date: true, narration: true, type: true },
+          orderBy: { date: 'desc' },
+          take: 100,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  return (
+    <DashboardLayout title="Recurring Vouchers">
+      <RecurringVouchersClient
+        templates={templates.map((template) => {
+          const lines = (template.lines as Array<{ debit: number }>) || [];
+          return {
+            id: template.id,
+            name: template.name,
+            type: template.type,
+            narration: template.narration,
+            project: template.project,
+            frequency: template.frequency,
+            startDate: template.startDate,
+            endDate: template.endDate,
+            nextRunDate: template.nextRunDate,
+            isPaused: template.isPaused,
+            lastError: template.lastError,
+            amount: lines.reduce((sum, line) => sum + Number(line.debit || 0), 0),
+            generatedCount: template._count.vouchers,
+            recentVouchers: template.vouchers,
+          };
+        })}
+        sourceVouchers={recentVouchers}
+        canWrite={canWrite}
+      />
+    </DashboardLayout>
+  );
+}
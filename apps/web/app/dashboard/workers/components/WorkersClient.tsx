@@ -0,0 +1,418 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface NamedRef {
+  id: string;
+  name: string;
+}
+
+interface Worker {
+  id: string;
+  name: string;
+  phone: string | null;
+  nationalId: string | null;
+  trade: string | null;
+  defaultDailyRate: number | null;
+  teamLeader: NamedRef | null;
+  isActive: boolean;
+  notes: string | null;
+  sites: NamedRef[];
+  laborCount: number;
+  teamSize: number;
+  createdAt: string;
+}
+
+interface WorkersClientProps {
+  canWrite: boolean;
+  projects: NamedRef[];
+  workers: Worker[];
+}
+
+interface WorkerForm {
+  name: string;
+  phone: string;
+  nationalId: string;
+  trade: string;
+  defaultDailyRate: string;
+  teamLeaderId: string;
+  notes: string;
+  projectIds: string[];
+}
+
+const emptyForm: WorkerForm = {
+  name: '',
+  phone: '',
+  nationalId: '',
+  trade: '',
+  defaultDailyRate: '',
+  teamLeaderId: '',
+  notes: '',
+  projectIds: [],
+};
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export default function WorkersClient({ canWrite, projects, workers }: WorkersClientProps) {
+  const router = useRouter();
+  const [search, setSearch] = useState('');
+  const [projectFilter, setProjectFilter] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [editing, setEditing] = useState<Worker | 'new' | null>(null);
+  const [form, setForm] = useState<WorkerForm>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const q = search.trim().toLowerCase();
+  const visible = workers.filter(
+    (worker) =>
+      (showInactive || worker.isActive) &&
+      (!projectFilter || worker.sites.some((site) => site.id === projectFilter)) &&
+      (!q ||
+        worker.name.toLowerCase().includes(q) ||
+        (worker.phone ?? '').includes(q) ||
+        (worker.nationalId ?? '').includes(q) ||
+        (worker.trade ?? '').toLowerCase().includes(q))
+  );
+  const leaders = workers.filter(
+    (worker) => worker.isActive && (editing === 'new' || worker.id !== editing?.id)
+  );
+
+  const openNew = () => {
+    setEditing('new');
+    setForm(emptyForm);
+    setError(null);
+  };
+
+  const openEdit = (worker: Worker) => {
+    setEditing(worker);
+    setForm({
+      name: worker.name,
+      phone: worker.phone ?? '',
+      nationalId: worker.nationalId ?? '',
+      trade: worker.trade ?? '',
+      defaultDailyRate: worker.defaultDailyRate != null ? String(worker.defaultDailyRate) : '',
+      teamLeaderId: worker.teamLeader?.id ?? '',
+      notes: worker.notes ?? '',
+      projectIds: worker.sites.map((site) => site.id),
+    });
+    setError(null);
+  };
+
+  const toggleSite = (projectId: string) => {
+    setForm({
+      ...form,
+      projectIds: form.projectIds.includes(projectId)
+        ? form.projectIds.filter((id) => id !== projectId)
+        : [...form.projectIds, projectId],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const payload = {
+        name: form.name,
+        phone: form.phone.trim() || null,
+        nationalId: form.nationalId.trim() || null,
+        trade: form.trade.trim() || null,
+        defaultDailyRate: form.defaultDailyRate === '' ? null : parseFloat(form.defaultDailyRate),
+        teamLeaderId: form.teamLeaderId || null,
+        notes: form.notes.trim() || null,
+        projectIds: form.projectIds,
+      };
+      const response = await fetch(
+        editing === 'new' ? '/api/workers' : `/api/workers/${editing.id}`,
+        {
+          method: editing === 'new' ? 'POST' : 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(payload),
+        }
+      );
+      const data = await response.json();
+      if (data.ok) {
+        setEditing(null);
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to save worker');
+      }
+    } catch {
+      setError('An error occurred while saving the worker');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (worker: Worker) => {
+    try {
+      const response = await fetch(`/api/workers/${worker.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !worker.isActive }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        router.refresh();
+      } else {
+        alert(data.error || 'Failed to update worker');
+      }
+    } catch {
+      alert('An error occurred while updating the worker');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Search</label>
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Name, phone, NID or trade"
+              className="w-64 px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Site</label>
+            <select
+              value={projectFilter}
+              onChange={(e) => setProjectFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">All sites</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 pb-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={showInactive}
+              onChange={(e) => setShowInactive(e.target.checked)}
+              className="h-4 w-4 border-gray-300 rounded"
+            />
+            Show inactive
+          </label>
+        </div>
+        {canWrite && (
+          <button
+            type="button"
+            onClick={openNew}
+            className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700"
+          >
+            Add worker
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <form
+          onSubmit={handleSubmit}
+          className="p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-3"
+        >
+          <h3 className="font-medium">{editing === 'new' ? 'Add worker' : `Edit ${editing.name}`}</h3>
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="text"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">National ID</label>
+              <input
+                type="text"
+                value={form.nationalId}
+                onChange={(e) => setForm({ ...form, nationalId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Trade</label>
+              <input
+                type="text"
+                value={form.trade}
+                onChange={(e) => setForm({ ...form, trade: e.target.value })}
+                placeholder="Mason, helper, rod binder..."
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default daily rate (৳)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.defaultDailyRate}
+                onChange={(e) => setForm({ ...form, defaultDailyRate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Team leader</label>
+              <select
+                value={form.teamLeaderId}
+                onChange={(e) => setForm({ ...form, teamLeaderId: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="">None</option>
+                {leaders.map((worker) => (
+                  <option key={worker.id} value={worker.id}>
+                    {worker.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Active sites</span>
+            {projects.length === 0 ? (
+              <p className="text-sm text-gray-500">No projects yet</p>
+            ) : (
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {projects.map((project) => (
+                  <label key={project.id} className="flex items-center gap-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={form.projectIds.includes(project.id)}
+                      onChange={() => toggleSite(project.id)}
+                      className="h-4 w-4 border-gray-300 rounded"
+                    />
+                    {project.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="py-2 px-4 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="py-2 px-4 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Trade</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Phone</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">National ID</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Daily rate</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Team leader</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Active sites</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Entries</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={9} className="px-4 py-8 text-center text-sm text-gray-500">
+                  No workers found
+                </td>
+              </tr>
+            ) : (
+              visible.map((worker) => (
+                <tr key={worker.id} className={worker.isActive ? '' : 'bg-gray-50 text-gray-400'}>
+                  <td className="px-4 py-2 text-sm font-medium">
+                    {worker.name}
+                    {worker.teamSize > 0 && (
+                      <span className="ml-2 text-xs text-gray-500">leads {worker.teamSize}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm">{worker.trade ?? '—'}</td>
+                  <td className="px-4 py-2 text-sm">{worker.phone ?? '—'}</td>
+                  <td className="px-4 py-2 text-sm">{worker.nationalId ?? '—'}</td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {worker.defaultDailyRate != null ? formatCurrency(worker.defaultDailyRate) : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-sm">{worker.teamLeader?.name ?? '—'}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {worker.sites.length > 0 ? worker.sites.map((site) => site.name).join(', ') : '—'}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{worker.laborCount}</td>
+                  <td className="px-4 py-2 text-sm text-right whitespace-nowrap">
+                    {canWrite && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => openEdit(worker)}
+                          className="text-orange-600 hover:text-orange-800 mr-3"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleToggleActive(worker)}
+                          className={worker.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}
+                        >
+                          {worker.isActive ? 'Deactivate' : 'Reactivate'}
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
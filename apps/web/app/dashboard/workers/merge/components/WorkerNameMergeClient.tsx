@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface NameGroup {
+  key: string;
+  suggestedName: string;
+  variants: Array<{ name: string; count: number }>;
+  entryCount: number;
+  teamLeaderCount: number;
+  amount: number;
+  projects: Array<{ id: string; name: string }>;
+  matchingWorker: { id: string; name: string } | null;
+}
+
+interface WorkerNameMergeClientProps {
+  groups: NameGroup[];
+  workers: Array<{ id: string; name: string; isActive: boolean }>;
+}
+
+interface GroupChoice {
+  selected: boolean;
+  // Existing worker id, or '' to create a worker named newName
+  workerId: string;
+  newName: string;
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat('en-BD', {
+    style: 'currency',
+    currency: 'BDT',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+export default function WorkerNameMergeClient({ groups, workers }: WorkerNameMergeClientProps) {
+  const router = useRouter();
+  const [choices, setChoices] = useState<Record<string, GroupChoice>>(() =>
+    Object.fromEntries(
+      groups.map((group) => [
+        group.key,
+        {
+          selected: true,
+          workerId: group.matchingWorker?.id ?? '',
+          newName: group.suggestedName,
+        },
+      ])
+    )
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const updateChoice = (key: string, patch: Partial<GroupChoice>) => {
+    setChoices({ ...choices, [key]: { ...choices[key], ...patch } });
+  };
+
+  const selectedGroups = groups.filter((group) => choices[group.key]?.selected);
+
+  const handleMerge = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    setResult(null);
+    try {
+      const response = await fetch('/api/workers/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          groups: selectedGroups.map((group) => {
+            const choice = choices[group.key];
+            return {
+              names: group.variants.map((variant) => variant.name),
+              workerId: choice.workerId || null,
+              name: choice.workerId ? null : choice.newName,
+            };
+          }),
+        }),
+      });
+      const data = await response.json();
+      if (data.ok) {
+        setResult(
+          `Linked ${data.data.linkedEntries} labor entries to ${data.data.workers} workers (${data.data.createdWorkers} new).`
+        );
+        router.refresh();
+      } else {
+        setError(data.error || 'Failed to merge names');
+      }
+    } catch {
+      setError('An error occurred while merging names');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (groups.length === 0) {
+    return (
+      <div className="space-y-4">
+        {result && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{result}</div>
+        )}
+        <p className="text-sm text-gray-500">
+          Every worker, employee and team leader name on labor entries is linked to the worker register.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Names typed on labor entries before the worker register, grouped ignoring case and extra
+        spaces. Link each group to an existing worker or create one; groups given the same new
+        name become one worker, so a misspelt name can be folded into the right one.
+      </p>
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+      )}
+      {result && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-700">{result}</div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2"></th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Typed as</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Entries</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Projects</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Link to</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {groups.map((group) => {
+              const choice = choices[group.key];
+              return (
+                <tr key={group.key} className={choice.selected ? '' : 'bg-gray-50 text-gray-400'}>
+                  <td className="px-4 py-2">
+                    <input
+                      type="checkbox"
+                      checked={choice.selected}
+                      onChange={(e) => updateChoice(group.key, { selected: e.target.checked })}
+                      className="h-4 w-4 border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {group.variants.map((variant) => (
+                      <div key={variant.name}>
+                        <span className="font-mono bg-gray-100 px-1 rounded whitespace-pre">{variant.name}</span>
+                        <span className="ml-1 text-xs text-gray-500">×{variant.count}</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">
+                    {group.entryCount}
+                    {group.teamLeaderCount > 0 && (
+                      <div className="text-xs text-gray-500">team leader on {group.teamLeaderCount}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-sm text-right">{formatCurrency(group.amount)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    {group.projects.map((project) => project.name).join(', ')}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="flex flex-wrap gap-2">
+                      <select
+                        value={choice.workerId}
+                        onChange={(e) => updateChoice(group.key, { workerId: e.target.value })}
+                        disabled={!choice.selected}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      >
+                        <option value="">New worker</option>
+                        {workers.map((worker) => (
+                          <option key={worker.id} value={worker.id}>
+                            {worker.name}
+                            {worker.isActive ? '' : ' (inactive)'}
+                          </option>
+                        ))}
+                      </select>
+                      {!choice.workerId && (
+                        <input
+                          type="text"
+                          value={choice.newName}
+                          onChange={(e) => updateChoice(group.key, { newName: e.target.value })}
+                          disabled={!choice.selected}
+                          className="w-44 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                        />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={handleMerge}
+          disabled={isSubmitting || selectedGroups.length === 0}
+          className="py-2 px-4 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Merging...' : `Merge ${selectedGroups.length} name groups`}
+        </button>
+      </div>
+    </div>
+  );
+}
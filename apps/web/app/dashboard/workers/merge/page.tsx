@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { getUnlinkedWorkerNames } from '@/lib/labor/workers.server';
+import DashboardLayout from '../../components/DashboardLayout';
+import WorkerNameMergeClient from './components/WorkerNameMergeClient';
+
+export default async function WorkerNameMergePage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'WRITE');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const [groups, workers] = await Promise.all([
+    getUnlinkedWorkerNames(auth.companyId),
+    prisma.worker.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true, isActive: true },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout
+      title="Merge Typed Worker Names"
+      actions={
+        <Link
+          href="/dashboard/workers"
+          className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Back to Workers
+        </Link>
+      }
+    >
+      <WorkerNameMergeClient groups={groups} workers={workers} />
+    </DashboardLayout>
+  );
+}
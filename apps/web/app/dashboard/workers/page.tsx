@@ -0,0 +1,63 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { requirePermissionServer } from '@/lib/rbac';
+import { can } from '@/lib/permissions';
+import { listWorkers } from '@/lib/labor/workers.server';
+import DashboardLayout from '../components/DashboardLayout';
+import WorkersClient from './components/WorkersClient';
+
+export default async function WorkersPage() {
+  let auth;
+  try {
+    auth = await requirePermissionServer('projects', 'READ');
+  } catch {
+    redirect('/forbidden');
+  }
+
+  const canWrite = can(auth.role, 'projects', 'WRITE');
+
+  const [workers, projects, unlinkedCount] = await Promise.all([
+    listWorkers(auth.companyId, { includeInactive: true }),
+    prisma.project.findMany({
+      where: { companyId: auth.companyId },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.projectLabor.count({
+      where: {
+        companyId: auth.companyId,
+        OR: [
+          { workerId: null, workerName: { not: null } },
+          { workerId: null, employeeName: { not: null } },
+          { teamLeaderId: null, teamLeader: { not: null } },
+        ],
+      },
+    }),
+  ]);
+
+  return (
+    <DashboardLayout
+      title="Workers"
+      actions={
+        canWrite ? (
+          <Link
+            href="/dashboard/workers/merge"
+            className="py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Merge typed names{unlinkedCount > 0 ? ` (${unlinkedCount})` : ''}
+          </Link>
+        ) : undefined
+      }
+    >
+      <WorkersClient
+        canWrite={canWrite}
+        projects={projects}
+        workers={workers.map((worker) => ({
+          ...worker,
+          createdAt: worker.createdAt.toISOString(),
+        }))}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,189 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getReconciliationStatement } from '@/lib/accounting/bankReconciliation.server';
+
+const cell = { border: '1px solid #000', padding: '6px' };
+
+export default async function PrintBankReconciliationPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const statement = await prisma.bankStatement.findFirst({
+    where: { id: params.id, companyId: auth.companyId },
+    include: { account: { select: { code: true, name: true } } },
+  });
+
+  if (!statement) {
+    redirect('/dashboard/reports/financial/bank-reconciliation');
+  }
+
+  const reconciliation = await getReconciliationStatement(auth.companyId, statement.id);
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const depositsTotal = sum(reconciliation.depositsInTransit.map((entry) => entry.amount));
+  const paymentsTotal = sum(reconciliation.outstandingPayments.map((entry) => entry.amount));
+  const unrecordedTotal = sum(reconciliation.unrecordedBankLines.map((line) => line.amount));
+
+  const generatedAt = formatDateTime(new Date());
+
+  const entryTable = (
+    title: string,
+    rows: Array<{ key: string; date: Date; ref: string; description: string; amount: number }>,
+    total: number
+  ) => (
+    <>
+      <h2 style={{ fontSize: '12pt', margin: '16px 0 8px' }}>{title}</h2>
+      {rows.length === 0 ? (
+        <p style={{ fontSize: '10pt', color: '#666' }}>None</p>
+      ) : (
+        <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+          <thead>
+            <tr>
+              <th style={{ ...cell, textAlign: 'left' }}>Date</th>
+              <th style={{ ...cell, textAlign: 'left' }}>Reference</th>
+              <th style={{ ...cell, textAlign: 'left' }}>Description</th>
+              <th style={{ ...cell, textAlign: 'right' }}>Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td style={cell}>{formatDate(row.date)}</td>
+                <td style={cell}>{row.ref}</td>
+                <td style={cell}>{row.description}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(row.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr style={{ fontWeight: 'bold' }}>
+              <td colSpan={3} style={{ ...cell, textAlign: 'right' }}>
+                Total:
+              </td>
+              <td style={{ ...cell, textAlign: 'right' }}>{toMoney(total)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </>
+  );
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>BANK RECONCILIATION STATEMENT</h1>
+        <div style={{ fontSize: '11pt' }}>
+          {statement.account.code} - {statement.account.name} | As of{' '}
+          {formatDate(statement.statementDate)}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={{ padding: '5px' }}>Balance per bank statement</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(reconciliation.bankBalance)}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px' }}>Add: deposits in transit</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(depositsTotal)}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px' }}>Less: outstanding cheques / payments</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(-paymentsTotal)}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Adjusted bank balance</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(reconciliation.adjustedBankBalance)}
+              </td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px' }}>Balance per books</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(reconciliation.bookBalance)}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px' }}>Add/(less): bank items not recorded in books</td>
+              <td style={{ padding: '5px', textAlign: 'right' }}>{toMoney(unrecordedTotal)}</td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Adjusted book balance</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(reconciliation.adjustedBookBalance)}
+              </td>
+            </tr>
+            <tr>
+              <td style={{ padding: '5px', fontWeight: 'bold' }}>Difference</td>
+              <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>
+                {toMoney(reconciliation.difference)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {entryTable(
+        'Deposits in Transit',
+        reconciliation.depositsInTransit.map((entry) => ({
+          key: entry.voucherLineId,
+          date: entry.date,
+          ref: entry.voucherNo,
+          description: entry.narration || entry.description || '',
+          amount: entry.amount,
+        })),
+        depositsTotal
+      )}
+
+      {entryTable(
+        'Outstanding Cheques / Payments',
+        reconciliation.outstandingPayments.map((entry) => ({
+          key: entry.voucherLineId,
+          date: entry.date,
+          ref: entry.voucherNo,
+          description: entry.narration || entry.description || '',
+          amount: -entry.amount,
+        })),
+        -paymentsTotal
+      )}
+
+      {entryTable(
+        'Bank Items Not Recorded in Books',
+        reconciliation.unrecordedBankLines.map((line) => ({
+          key: line.id,
+          date: line.date,
+          ref: line.reference || '',
+          description: line.description || '',
+          amount: line.amount,
+        })),
+        unrecordedTotal
+      )}
+
+      {/* Footer */}
+      <div className="print-footer">
+        Generated on {generatedAt} | Book balance includes only POSTED and REVERSED vouchers
+      </div>
+    </div>
+  );
+}
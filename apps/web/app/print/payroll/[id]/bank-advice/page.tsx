@@ -0,0 +1,122 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getPayrollRun } from '@/lib/labor/payroll.server';
+
+const cell = { border: '1px solid #000', padding: '6px' };
+
+/**
+ * Bank advice for a payroll run: the letter asking the bank to credit each staff member's
+ * account with their net pay for the month, for the staff paid by bank, with the total
+ * to be debited from the company's account and lines for the authorised signatories.
+ */
+export default async function PrintBankAdvicePage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let run;
+  try {
+    run = await getPayrollRun(auth.companyId, params.id);
+  } catch (error) {
+    redirect('/dashboard/payroll');
+  }
+
+  const entries = run.entries.filter((entry) => entry.paymentMode === 'BANK' && entry.netPay > 0);
+  const total = entries.reduce((sum, entry) => sum + entry.netPay, 0);
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '16px', fontSize: '11pt' }}>
+        <div>Date: {formatDate(new Date())}</div>
+        <div style={{ marginTop: '12px' }}>
+          The Manager
+          <br />
+          ______________________ Bank
+          <br />
+          ______________________ Branch
+        </div>
+        <div style={{ marginTop: '12px' }}>
+          <strong>Subject: Salary advice for {run.period}</strong>
+        </div>
+        <p style={{ marginTop: '12px' }}>
+          Please debit our account no. ______________________ by {toMoney(total)} and credit the accounts of the
+          following employees with the amounts shown against their names, being their net salaries for{' '}
+          {run.period}.
+        </p>
+      </div>
+
+      <table className="print-table" style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, width: '6%' }}>SL</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Employee</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Bank</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Account No</th>
+            <th style={{ ...cell, textAlign: 'right', width: '18%' }}>Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.length === 0 ? (
+            <tr>
+              <td colSpan={5} style={{ ...cell, textAlign: 'center' }}>
+                No staff in this payroll run are paid by bank
+              </td>
+            </tr>
+          ) : (
+            entries.map((entry, i) => (
+              <tr key={entry.id}>
+                <td style={{ ...cell, textAlign: 'center' }}>{i + 1}</td>
+                <td style={cell}>
+                  {entry.employeeName}
+                  {entry.designation && <span style={{ color: '#666' }}> ({entry.designation})</span>}
+                </td>
+                <td style={cell}>{entry.bankName || ''}</td>
+                <td style={cell}>{entry.bankAccountNo}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(entry.netPay)}</td>
+              </tr>
+            ))
+          )}
+          <tr style={{ fontWeight: 'bold' }}>
+            <td colSpan={4} style={{ ...cell, textAlign: 'right' }}>
+              Total ({entries.length} employee{entries.length === 1 ? '' : 's'})
+            </td>
+            <td style={{ ...cell, textAlign: 'right' }}>{toMoney(total)}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {/* Signatures */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '60px', fontSize: '10pt' }}>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Authorised signatory
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Authorised signatory
+        </div>
+      </div>
+
+      <div className="print-footer">
+        {run.status === 'DRAFT' ? 'DRAFT payroll - not posted. ' : ''}Generated on {generatedAt}
+      </div>
+    </div>
+  );
+}
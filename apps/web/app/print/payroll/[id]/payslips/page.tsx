@@ -0,0 +1,168 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getPayrollRun } from '@/lib/labor/payroll.server';
+
+const cell = { border: '1px solid #000', padding: '4px' };
+
+/**
+ * Payslips of a payroll run, two to a page: earnings (basic and allowances), deductions
+ * for absence, advances and loans, net pay and how it is paid, with a line for the
+ * employee's signature. Prints every payslip of the run, or one with ?entryId=.
+ */
+export default async function PrintPayslipsPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { entryId?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'vouchers', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let run;
+  try {
+    run = await getPayrollRun(auth.companyId, params.id);
+  } catch (error) {
+    redirect('/dashboard/payroll');
+  }
+
+  const entries = searchParams.entryId
+    ? run.entries.filter((entry) => entry.id === searchParams.entryId)
+    : run.entries;
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout" style={{ fontSize: '10pt' }}>
+      {entries.map((entry) => {
+        const earnings: Array<[string, number]> = [
+          ['Basic', entry.basic],
+          ['House rent', entry.houseRent],
+          ['Conveyance', entry.conveyance],
+          ['Mobile', entry.mobile],
+        ];
+        const deductions: Array<[string, number]> = [
+          [`Absence (${entry.absentDays} of ${entry.daysInMonth} days)`, entry.absenceDeduction],
+          ['Salary advance', entry.advanceDeduction],
+          ['Loan installment', entry.loanDeduction],
+        ];
+        const totalDeductions = entry.absenceDeduction + entry.advanceDeduction + entry.loanDeduction;
+
+        return (
+          <div
+            key={entry.id}
+            style={{ pageBreakInside: 'avoid', borderBottom: '1px dashed #999', paddingBottom: '24px', marginBottom: '24px' }}
+          >
+            {/* Header */}
+            <div className="print-header">
+              <div className="print-title">{COMPANY_INFO.name}</div>
+              <div style={{ fontSize: '10pt', color: '#666' }}>
+                {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+              </div>
+            </div>
+
+            <div style={{ textAlign: 'center', marginBottom: '12px' }}>
+              <h1 style={{ fontSize: '14pt', margin: '6px 0' }}>PAYSLIP</h1>
+              <div style={{ fontSize: '11pt' }}>{run.period}</div>
+            </div>
+
+            {/* Employee */}
+            <table style={{ width: '100%', marginBottom: '12px' }}>
+              <tbody>
+                <tr>
+                  <td style={{ width: '50%' }}>
+                    <strong>Employee:</strong> {entry.employeeName}
+                  </td>
+                  <td>
+                    <strong>Designation:</strong> {entry.designation || '—'}
+                  </td>
+                </tr>
+                <tr>
+                  <td>
+                    <strong>Charged to:</strong> {entry.project?.name || 'Office'}
+                  </td>
+                  <td>
+                    <strong>Paid by:</strong>{' '}
+                    {entry.paymentMode === 'BANK'
+                      ? `Bank - ${[entry.bankName, entry.bankAccountNo].filter(Boolean).join(', ')}`
+                      : 'Cash'}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+
+            {/* Earnings and deductions */}
+            <table className="print-table" style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cell, textAlign: 'left' }}>Earnings</th>
+                  <th style={{ ...cell, textAlign: 'right', width: '18%' }}>Amount</th>
+                  <th style={{ ...cell, textAlign: 'left' }}>Deductions</th>
+                  <th style={{ ...cell, textAlign: 'right', width: '18%' }}>Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {earnings.map(([label, amount], i) => (
+                  <tr key={label}>
+                    <td style={cell}>{label}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>{toMoney(amount)}</td>
+                    <td style={cell}>{deductions[i]?.[0] ?? ''}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>
+                      {deductions[i] ? toMoney(deductions[i][1]) : ''}
+                    </td>
+                  </tr>
+                ))}
+                <tr style={{ fontWeight: 'bold' }}>
+                  <td style={cell}>Gross salary</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(entry.grossPay)}</td>
+                  <td style={cell}>Total deductions</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(totalDeductions)}</td>
+                </tr>
+                <tr style={{ fontWeight: 'bold' }}>
+                  <td colSpan={3} style={{ ...cell, textAlign: 'right' }}>
+                    Net pay
+                  </td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(entry.netPay)}</td>
+                </tr>
+              </tbody>
+            </table>
+
+            {entry.recoveries.length > 0 && (
+              <div style={{ fontSize: '9pt', color: '#666', marginTop: '6px' }}>
+                Recovered:{' '}
+                {entry.recoveries
+                  .map(
+                    (recovery) =>
+                      `${toMoney(recovery.amount)} of the ${recovery.type === 'LOAN' ? 'loan' : 'advance'} of ${toMoney(
+                        recovery.advanceAmount
+                      )} dated ${formatDate(recovery.advanceDate)}`
+                  )
+                  .join('; ')}
+              </div>
+            )}
+
+            {/* Signatures */}
+            <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '40px', fontSize: '10pt' }}>
+              <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+                Employee
+              </div>
+              <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+                Authorised by
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      {entries.length === 0 && <div style={{ textAlign: 'center', padding: '20px' }}>No payslips in this payroll run</div>}
+
+      <div className="print-footer">
+        {run.status === 'DRAFT' ? 'DRAFT payroll - not posted. ' : ''}Generated on {generatedAt}
+      </div>
+    </div>
+  );
+}
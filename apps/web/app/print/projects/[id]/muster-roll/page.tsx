@@ -0,0 +1,169 @@
+import { redirect } from 'next/navigation';
+import { AttendanceSheetFiltersSchema } from '@accounting/shared';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticateAndVerifyEntity } from '@/lib/print/auth';
+import { getAttendanceSheet } from '@/lib/labor/attendance.server';
+
+const cell = { border: '1px solid #000', padding: '4px' };
+
+const STATUS_MARKS: Record<string, string> = {
+  PRESENT: 'P',
+  HALF_DAY: '½',
+  ABSENT: 'A',
+};
+
+/**
+ * Muster roll of a project's attendance sheet: each worker's attendance per day with
+ * overtime, days worked and wages, and a column for the worker's signature or thumb
+ * impression on payment. Printed landscape for a week or a month of days.
+ */
+export default async function PrintMusterRollPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { from?: string; days?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticateAndVerifyEntity(
+      searchParams,
+      { resource: 'projects', action: 'READ' },
+      'project',
+      params.id
+    );
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const parsed = AttendanceSheetFiltersSchema.safeParse({
+    from: searchParams.from || undefined,
+    days: searchParams.days || undefined,
+  });
+  const sheet = await getAttendanceSheet(
+    auth.companyId,
+    params.id,
+    parsed.success ? parsed.data : { days: 7 }
+  );
+
+  const entryByCell = new Map(
+    sheet.entries.map((entry) => [`${entry.workerId}|${entry.date}`, entry])
+  );
+  // Only workers with attendance in the period are on the roll
+  const rows = sheet.rows.filter((row) =>
+    sheet.days.some((date) => entryByCell.has(`${row.worker.id}|${date}`))
+  );
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout" style={{ maxWidth: '297mm', fontSize: '9pt' }}>
+      <style>{'@media print { @page { size: A4 landscape; margin: 1cm; } }'}</style>
+
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '16px' }}>
+        <h1 style={{ fontSize: '16pt', margin: '8px 0' }}>MUSTER ROLL</h1>
+        <div style={{ fontSize: '11pt' }}>
+          {sheet.project.name} | {formatDate(sheet.days[0])} to{' '}
+          {formatDate(sheet.days[sheet.days.length - 1])}
+        </div>
+        <div style={{ fontSize: '9pt', color: '#666' }}>
+          P present, ½ half day, A absent; overtime hours shown under the mark
+        </div>
+      </div>
+
+      <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: 'left', width: '24px' }}>#</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Worker</th>
+            {sheet.days.map((date) => (
+              <th key={date} style={{ ...cell, textAlign: 'center' }}>
+                {date.slice(8)}
+              </th>
+            ))}
+            <th style={{ ...cell, textAlign: 'right' }}>Days</th>
+            <th style={{ ...cell, textAlign: 'right' }}>OT hrs</th>
+            <th style={{ ...cell, textAlign: 'right' }}>Rate</th>
+            <th style={{ ...cell, textAlign: 'right' }}>Wages</th>
+            <th style={{ ...cell, textAlign: 'left', width: '90px' }}>Signature</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={sheet.days.length + 7} style={{ ...cell, textAlign: 'center' }}>
+                No attendance recorded for this period
+              </td>
+            </tr>
+          ) : (
+            rows.map((row, index) => (
+              <tr key={row.worker.id}>
+                <td style={cell}>{index + 1}</td>
+                <td style={cell}>
+                  {row.worker.name}
+                  {row.worker.trade ? ` (${row.worker.trade})` : ''}
+                </td>
+                {sheet.days.map((date) => {
+                  const entry = entryByCell.get(`${row.worker.id}|${date}`);
+                  return (
+                    <td key={date} style={{ ...cell, textAlign: 'center' }}>
+                      {entry ? STATUS_MARKS[entry.status] : ''}
+                      {entry && entry.overtimeHours > 0 && (
+                        <div style={{ fontSize: '7pt' }}>+{entry.overtimeHours}h</div>
+                      )}
+                    </td>
+                  );
+                })}
+                <td style={{ ...cell, textAlign: 'right' }}>{row.daysWorked}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>{row.overtimeHours || ''}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>
+                  {row.dailyRate != null ? toMoney(row.dailyRate) : ''}
+                </td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(row.wages)}</td>
+                <td style={cell}></td>
+              </tr>
+            ))
+          )}
+        </tbody>
+        {rows.length > 0 && (
+          <tfoot>
+            <tr style={{ fontWeight: 'bold' }}>
+              <td colSpan={sheet.days.length + 2} style={{ ...cell, textAlign: 'right' }}>
+                Total:
+              </td>
+              <td style={{ ...cell, textAlign: 'right' }}>{sheet.totals.daysWorked}</td>
+              <td style={{ ...cell, textAlign: 'right' }}>{sheet.totals.overtimeHours || ''}</td>
+              <td style={cell}></td>
+              <td style={{ ...cell, textAlign: 'right' }}>{toMoney(sheet.totals.wages)}</td>
+              <td style={cell}></td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+
+      {/* Signatures */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '50px', fontSize: '10pt' }}>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Site supervisor
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Project engineer
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Approved by
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">Generated on {generatedAt}</div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { redirect } from 'next/navigation';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticatePrintRoute } from '@/lib/print/auth';
+import { getStockTake } from '@/lib/stock/stockTakes.server';
+
+const cell = { border: '1px solid #000', padding: '6px' };
+
+const formatQty = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 3 });
+
+/**
+ * Count sheet for a stock-take. While counting, the Counted column is left blank for
+ * site staff to fill in; ?blind=true leaves out the expected quantities so the count is
+ * not influenced by them.
+ */
+export default async function PrintStockTakePage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { pdfToken?: string; blind?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticatePrintRoute(searchParams, { resource: 'stockTakes', action: 'READ' });
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  let stockTake;
+  try {
+    stockTake = await getStockTake(auth.companyId, params.id);
+  } catch {
+    redirect('/dashboard/stock/stock-takes');
+  }
+
+  const blind = searchParams.blind === 'true';
+  const showCounts = stockTake.status !== 'COUNTING';
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>STOCK COUNT SHEET</h1>
+        <div style={{ fontSize: '11pt' }}>
+          Stock Take #{stockTake.stockTakeNo} | {stockTake.location.name} | Count date{' '}
+          {formatDate(stockTake.countDate)}
+        </div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          Expected quantities as of {formatDateTime(stockTake.snapshotAt)}
+        </div>
+      </div>
+
+      <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%' }}>
+        <thead>
+          <tr>
+            <th style={{ ...cell, textAlign: 'left', width: '30px' }}>#</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Item</th>
+            <th style={{ ...cell, textAlign: 'left' }}>SKU</th>
+            <th style={{ ...cell, textAlign: 'left' }}>Unit</th>
+            {!blind && <th style={{ ...cell, textAlign: 'right' }}>Expected</th>}
+            <th style={{ ...cell, textAlign: 'right', width: '90px' }}>Counted</th>
+            {showCounts && !blind && <th style={{ ...cell, textAlign: 'right' }}>Variance</th>}
+            {showCounts && !blind && <th style={{ ...cell, textAlign: 'right' }}>Value</th>}
+            <th style={{ ...cell, textAlign: 'left', width: '160px' }}>Remarks</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stockTake.lines.map((line, index) => (
+            <tr key={line.id}>
+              <td style={cell}>{index + 1}</td>
+              <td style={cell}>{line.stockItem.name}</td>
+              <td style={cell}>{line.stockItem.sku || ''}</td>
+              <td style={cell}>{line.stockItem.unit}</td>
+              {!blind && <td style={{ ...cell, textAlign: 'right' }}>{formatQty(line.expectedQty)}</td>}
+              <td style={{ ...cell, textAlign: 'right' }}>
+                {showCounts && line.countedQty != null ? formatQty(line.countedQty) : ''}
+              </td>
+              {showCounts && !blind && (
+                <td style={{ ...cell, textAlign: 'right' }}>
+                  {line.varianceQty ? formatQty(line.varianceQty) : ''}
+                </td>
+              )}
+              {showCounts && !blind && (
+                <td style={{ ...cell, textAlign: 'right' }}>
+                  {line.varianceValue ? toMoney(line.varianceValue) : ''}
+                </td>
+              )}
+              <td style={cell}>{showCounts ? line.notes || '' : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+        {showCounts && !blind && (
+          <tfoot>
+            <tr style={{ fontWeight: 'bold' }}>
+              <td colSpan={7} style={{ ...cell, textAlign: 'right' }}>
+                Net variance at average cost:
+              </td>
+              <td style={{ ...cell, textAlign: 'right' }}>{toMoney(stockTake.summary.netVarianceValue)}</td>
+              <td style={cell}></td>
+            </tr>
+          </tfoot>
+        )}
+      </table>
+
+      {/* Signatures */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '60px', fontSize: '10pt' }}>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Counted by
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Checked by
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Approved by
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">Generated on {generatedAt}</div>
+    </div>
+  );
+}
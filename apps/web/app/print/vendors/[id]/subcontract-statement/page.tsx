@@ -0,0 +1,287 @@
+import { redirect } from 'next/navigation';
+import { prisma } from '@accounting/db';
+import { COMPANY_INFO, formatDate, formatDateTime, toMoney } from '@/lib/print/format';
+import { authenticateAndVerifyEntity } from '@/lib/print/auth';
+import { getVendorSubcontracts } from '@/lib/accounting/subcontracts.server';
+
+const cell = { border: '1px solid #000', padding: '6px' };
+
+/**
+ * Subcontractor statement: each work order let to the vendor with the work billed to
+ * date per item, its running bills (gross, retention, advance recovered, net and paid),
+ * the advances paid and what remains payable. Prints every open work order of the
+ * vendor, or one with ?subcontractId=.
+ */
+export default async function PrintSubcontractStatementPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { subcontractId?: string; pdfToken?: string };
+}) {
+  let auth;
+  try {
+    auth = await authenticateAndVerifyEntity(
+      searchParams,
+      { resource: 'vouchers', action: 'READ' },
+      'vendor',
+      params.id
+    );
+  } catch (error) {
+    redirect('/forbidden');
+  }
+
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: params.id, companyId: auth.companyId },
+    select: { id: true, name: true, phone: true, address: true },
+  });
+  if (!vendor) {
+    redirect('/dashboard/vendors');
+  }
+
+  const subcontracts = await getVendorSubcontracts(
+    auth.companyId,
+    params.id,
+    searchParams.subcontractId || undefined
+  );
+  const totals = subcontracts.reduce(
+    (sum, s) => ({
+      contractValue: sum.contractValue + s.contractValue,
+      certifiedToDate: sum.certifiedToDate + s.summary.certifiedToDate,
+      advanceOutstanding: sum.advanceOutstanding + s.summary.advanceOutstanding,
+      retentionHeld: sum.retentionHeld + s.summary.retentionHeld,
+      paid: sum.paid + s.summary.paid,
+      payable: sum.payable + s.summary.payable,
+    }),
+    { contractValue: 0, certifiedToDate: 0, advanceOutstanding: 0, retentionHeld: 0, paid: 0, payable: 0 }
+  );
+  const generatedAt = formatDateTime(new Date());
+
+  return (
+    <div className="print-layout">
+      {/* Header */}
+      <div className="print-header">
+        <div className="print-title">{COMPANY_INFO.name}</div>
+        <div style={{ fontSize: '10pt', color: '#666' }}>
+          {COMPANY_INFO.address} | {COMPANY_INFO.phone}
+        </div>
+      </div>
+
+      {/* Title */}
+      <div style={{ textAlign: 'center', marginBottom: '20px' }}>
+        <h1 style={{ fontSize: '18pt', margin: '10px 0' }}>SUBCONTRACTOR STATEMENT</h1>
+      </div>
+
+      {/* Vendor Info */}
+      <div style={{ marginBottom: '20px' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            <tr>
+              <td style={{ padding: '5px', width: '30%', fontWeight: 'bold' }}>Subcontractor:</td>
+              <td style={{ padding: '5px' }}>{vendor.name}</td>
+            </tr>
+            {vendor.address && (
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Address:</td>
+                <td style={{ padding: '5px' }}>{vendor.address}</td>
+              </tr>
+            )}
+            {vendor.phone && (
+              <tr>
+                <td style={{ padding: '5px', fontWeight: 'bold' }}>Phone:</td>
+                <td style={{ padding: '5px' }}>{vendor.phone}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Summary */}
+      <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#f9f9f9', border: '1px solid #ccc' }}>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {[
+              ['Work Order Value', totals.contractValue],
+              ['Certified to Date', totals.certifiedToDate],
+              ['Advance Outstanding', totals.advanceOutstanding],
+              ['Retention Held', totals.retentionHeld],
+              ['Paid Against Bills', totals.paid],
+              ['Balance Payable', totals.payable],
+            ].map(([label, amount]) => (
+              <tr key={label}>
+                <td style={{ padding: '5px', fontWeight: 'bold', width: '50%' }}>{label}:</td>
+                <td style={{ padding: '5px', textAlign: 'right', fontWeight: 'bold' }}>{toMoney(amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {subcontracts.length === 0 && (
+        <p style={{ textAlign: 'center' }}>No work orders have been let to this vendor</p>
+      )}
+
+      {subcontracts.map((subcontract) => (
+        <div key={subcontract.id} style={{ marginBottom: '30px', pageBreakInside: 'avoid' }}>
+          <h2 style={{ fontSize: '13pt', marginBottom: '4px' }}>
+            {subcontract.workOrderRef} – {subcontract.title}
+          </h2>
+          <div style={{ fontSize: '10pt', color: '#444', marginBottom: '10px' }}>
+            {subcontract.projectName} | ordered {formatDate(subcontract.orderDate)}
+            {subcontract.completionDate && `, due ${formatDate(subcontract.completionDate)}`} |{' '}
+            {subcontract.retentionPercent}% retention | {subcontract.status}
+          </div>
+
+          {/* Items */}
+          <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '12px' }}>
+            <thead>
+              <tr>
+                <th style={{ ...cell, textAlign: 'left' }}>Item</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Ordered</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Rate</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Amount</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Billed Qty</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Billed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {subcontract.items.map((item) => (
+                <tr key={item.id}>
+                  <td style={cell}>{item.description}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>
+                    {item.quantity} {item.unit || ''}
+                  </td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(item.rate)}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(item.amount)}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{item.billedQuantity}</td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(item.billedAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr style={{ fontWeight: 'bold' }}>
+                <td colSpan={3} style={{ ...cell, textAlign: 'right' }}>
+                  Total:
+                </td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.contractValue)}</td>
+                <td style={cell}></td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.certifiedToDate)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {/* Bills and advances */}
+          <table className="print-table" style={{ borderCollapse: 'collapse', width: '100%', marginBottom: '12px' }}>
+            <thead>
+              <tr>
+                <th style={{ ...cell, textAlign: 'left' }}>Date</th>
+                <th style={{ ...cell, textAlign: 'left' }}>Reference</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Gross</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Retention</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Advance</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Net</th>
+                <th style={{ ...cell, textAlign: 'right' }}>Paid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[
+                ...subcontract.advances
+                  .filter((a) => a.voucher.status === 'POSTED')
+                  .map((a) => ({
+                    key: a.id,
+                    date: a.date,
+                    reference: `Advance paid (${a.voucher.voucherNo})`,
+                    gross: null,
+                    retention: null,
+                    advance: a.amount,
+                    net: null,
+                    paid: null,
+                  })),
+                ...subcontract.bills
+                  .filter((b) => b.status === 'CERTIFIED' && b.voucher?.status === 'POSTED')
+                  .map((b) => ({
+                    key: b.id,
+                    date: b.billDate,
+                    reference: `${b.billRef}${b.isFinal ? ' (final)' : ''} (${b.voucher!.voucherNo})`,
+                    gross: b.grossAmount,
+                    retention: b.retentionAmount,
+                    advance: -b.advanceRecovery,
+                    net: b.netAmount,
+                    paid: b.paid,
+                  })),
+              ]
+                .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+                .map((row) => (
+                  <tr key={row.key}>
+                    <td style={cell}>{formatDate(row.date)}</td>
+                    <td style={cell}>{row.reference}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>{row.gross != null ? toMoney(row.gross) : '-'}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>
+                      {row.retention != null ? toMoney(row.retention) : '-'}
+                    </td>
+                    <td style={{ ...cell, textAlign: 'right' }}>{row.advance ? toMoney(row.advance) : '-'}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>{row.net != null ? toMoney(row.net) : '-'}</td>
+                    <td style={{ ...cell, textAlign: 'right' }}>{row.paid != null ? toMoney(row.paid) : '-'}</td>
+                  </tr>
+                ))}
+              {subcontract.summary.retentionReleased > 0 && subcontract.retentionRelease && (
+                <tr>
+                  <td style={cell}>
+                    {subcontract.retentionRelease.releasedAt
+                      ? formatDate(subcontract.retentionRelease.releasedAt)
+                      : '-'}
+                  </td>
+                  <td style={cell}>Retention released ({subcontract.retentionRelease.voucher.voucherNo})</td>
+                  <td style={cell}></td>
+                  <td style={{ ...cell, textAlign: 'right' }}>
+                    {toMoney(-subcontract.summary.retentionReleased)}
+                  </td>
+                  <td style={cell}></td>
+                  <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.retentionReleased)}</td>
+                  <td style={cell}></td>
+                </tr>
+              )}
+            </tbody>
+            <tfoot>
+              <tr style={{ fontWeight: 'bold' }}>
+                <td colSpan={3} style={{ ...cell, textAlign: 'right' }}>
+                  Balance:
+                </td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.retentionHeld)}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.advanceOutstanding)}</td>
+                <td style={{ ...cell, textAlign: 'right' }}>
+                  {toMoney(subcontract.summary.netCertified + subcontract.summary.retentionReleased)}
+                </td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.paid)}</td>
+              </tr>
+              <tr style={{ fontWeight: 'bold' }}>
+                <td colSpan={6} style={{ ...cell, textAlign: 'right' }}>
+                  Payable:
+                </td>
+                <td style={{ ...cell, textAlign: 'right' }}>{toMoney(subcontract.summary.payable)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      ))}
+
+      {/* Signatures */}
+      <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '50px', fontSize: '10pt' }}>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Subcontractor
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Project engineer
+        </div>
+        <div style={{ borderTop: '1px solid #000', width: '30%', textAlign: 'center', paddingTop: '4px' }}>
+          Approved by
+        </div>
+      </div>
+
+      {/* Footer */}
+      <div className="print-footer">
+        Generated on {generatedAt} | Only POSTED vouchers are included in the balances
+      </div>
+    </div>
+  );
+}
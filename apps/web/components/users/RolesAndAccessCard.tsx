@@ -18,6 +18,8 @@ const RESOURCE_ORDER: Resource[] = [
   'purchases',
   'expenses',
   'stock',
+  'requisitions',
+  'stockTakes',
   'users',
 ];
 
@@ -32,6 +34,8 @@ const RESOURCE_LABELS: Record<Resource, string> = {
   purchases: 'Purchases',
   expenses: 'Expenses',
   stock: 'Stock',
+  requisitions: 'Material Requisitions',
+  stockTakes: 'Stock Takes',
   users: 'Users',
 };
 
@@ -72,15 +76,17 @@ const ROLE_DESCRIPTIONS: Record<UserRole, string[]> = {
   ACCOUNTANT: [
     'Day-to-day accounting and finance operations.',
     'Create and edit vouchers, purchases, expenses, and stock; submit and approve where applicable.',
+    'Approve site material requisitions and issue the approved quantities.',
+    'Review stock-take variances and post the approved adjustments.',
     'View projects, vendors, and reports; no access to company or user management.',
   ],
   ENGINEER: [
     'View projects, vendors, vouchers, purchases, expenses, and stock for reference.',
-    'No create/edit/post/approve permissions; read-only access to operational data.',
+    'Raise material requisitions and enter stock-take counts for site stock; otherwise read-only access to operational data.',
   ],
   DATA_ENTRY: [
     'View projects, vendors, payment methods, vouchers, purchases, expenses, and stock.',
-    'Read-only; no create, edit, post, or approve permissions.',
+    'Enter stock-take counts; otherwise read-only, with no create, edit, post, or approve permissions.',
   ],
   VIEWER: [
     'View-only access to projects, vendors, payment methods, vouchers, purchases, expenses, and stock.',
@@ -0,0 +1,738 @@
+/**
+ * Bank Reconciliation
+ *
+ * Bank statements are imported per bank account (CSV/XLSX, read with the same sheet
+ * parsing as the transaction import tool). Each statement line is reconciled by linking
+ * it to one posted voucher line on that bank account, either automatically (same amount,
+ * date within a window, reference used to break ties), manually, or by creating a new
+ * voucher from the statement line.
+ *
+ * The reconciliation statement for a statement date compares the book balance with the
+ * bank's closing balance: book entries not yet seen by the bank are outstanding cheques
+ * (credits) and deposits in transit (debits); bank lines not (yet) recorded in the books
+ * adjust the book side.
+ */
+
+import { prisma } from '@accounting/db';
+import { NextRequest } from 'next/server';
+import type { BankStatementImportOptions, VoucherCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { parseDate, parseFileData, parseNumber, ParsedRow } from '@/lib/importTools';
+import { decimalToNumber } from '@/lib/reports/helpers';
+import { findBankAccounts } from '@/lib/reports/ledger';
+import { createDraftVoucher } from '@/lib/vouchers/create.server';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BOOK_STATUSES: Array<'POSTED' | 'REVERSED'> = ['POSTED', 'REVERSED'];
+
+export interface ParsedStatementLine {
+  date: Date;
+  description: string | null;
+  reference: string | null;
+  amount: number;
+  balance: number | null;
+}
+
+export interface BookEntry {
+  voucherLineId: string;
+  voucherId: string;
+  voucherNo: string;
+  voucherStatus: string;
+  date: Date;
+  narration: string | null;
+  description: string | null;
+  amount: number; // debit - credit on the bank account
+}
+
+export interface ReconciliationStatement {
+  statementDate: Date;
+  bankBalance: number;
+  bookBalance: number;
+  /** Book debits the bank has not received yet */
+  depositsInTransit: BookEntry[];
+  /** Book credits (cheques, transfers) the bank has not paid yet */
+  outstandingPayments: BookEntry[];
+  /** Bank lines not recorded (or not yet posted) in the books */
+  unrecordedBankLines: Array<{
+    id: string;
+    date: Date;
+    description: string | null;
+    reference: string | null;
+    amount: number;
+  }>;
+  adjustedBankBalance: number;
+  adjustedBookBalance: number;
+  difference: number;
+}
+
+/**
+ * Last instant of the (UTC) statement day, so entries dated on it are included
+ */
+function statementEndOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 23, 59, 59, 999)
+  );
+}
+
+/**
+ * Statement dates may arrive as Excel serial numbers when read from XLSX
+ */
+function parseStatementDate(value: string | number | null): Date | null {
+  if (typeof value === 'number' && value > 20000 && value < 80000) {
+    return new Date(Date.UTC(1899, 11, 30) + Math.round(value) * DAY_MS);
+  }
+  return parseDate(value);
+}
+
+function normalizeRef(value: string | null | undefined): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Turn sheet rows into statement lines using the column mapping.
+ * Returns row-level errors instead of throwing so the user can fix the mapping.
+ */
+export function parseStatementRows(
+  headers: string[],
+  rows: any[][],
+  options: BankStatementImportOptions
+): { lines: ParsedStatementLine[]; errors: string[] } {
+  const parsedRows: ParsedRow[] = parseFileData(rows, headers);
+  const lines: ParsedStatementLine[] = [];
+  const errors: string[] = [];
+
+  parsedRows.forEach((row, index) => {
+    const rowNumber = index + 2; // header is row 1
+    const date = parseStatementDate(row[options.dateColumn]);
+    if (!date) {
+      errors.push(`Row ${rowNumber}: invalid date "${row[options.dateColumn] ?? ''}"`);
+      return;
+    }
+
+    let amount = 0;
+    if (options.amountColumn) {
+      amount = parseNumber(row[options.amountColumn]);
+    } else {
+      const deposit = options.depositColumn ? Math.abs(parseNumber(row[options.depositColumn])) : 0;
+      const withdrawal = options.withdrawalColumn
+        ? Math.abs(parseNumber(row[options.withdrawalColumn]))
+        : 0;
+      amount = deposit - withdrawal;
+    }
+    amount = roundMoney(amount);
+
+    // Skip rows without a movement (e.g. "balance brought forward")
+    if (amount === 0) return;
+
+    const text = (column?: string | null) =>
+      column && row[column] !== null && row[column] !== undefined && String(row[column]).trim()
+        ? String(row[column]).trim()
+        : null;
+
+    lines.push({
+      date,
+      description: text(options.descriptionColumn),
+      reference: text(options.referenceColumn),
+      amount,
+      balance:
+        options.balanceColumn && text(options.balanceColumn)
+          ? parseNumber(row[options.balanceColumn])
+          : null,
+    });
+  });
+
+  if (lines.length === 0 && errors.length === 0) {
+    errors.push('No statement lines with an amount were found');
+  }
+
+  return { lines, errors };
+}
+
+/**
+ * Bank accounts a statement can be imported for
+ */
+export async function assertBankAccount(companyId: string, accountId: string) {
+  const bankAccounts = await findBankAccounts(companyId);
+  const account = bankAccounts.find((a) => a.id === accountId);
+  if (!account) {
+    throw new Error('Bank account not found. Statements can only be imported for bank accounts.');
+  }
+  return account;
+}
+
+/**
+ * List imported statements with their matched line counts (newest first)
+ */
+export async function listBankStatements(companyId: string, accountId?: string) {
+  const statements = await prisma.bankStatement.findMany({
+    where: { companyId, ...(accountId ? { accountId } : {}) },
+    include: {
+      account: { select: { id: true, code: true, name: true } },
+      importedBy: { select: { id: true, name: true } },
+      _count: { select: { lines: true } },
+    },
+    orderBy: [{ statementDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  const matched = await prisma.bankStatementLine.groupBy({
+    by: ['statementId'],
+    where: {
+      companyId,
+      statementId: { in: statements.map((s) => s.id) },
+      voucherLineId: { not: null },
+    },
+    _count: { _all: true },
+  });
+  const matchedByStatement = new Map(matched.map((row) => [row.statementId, row._count._all]));
+
+  return statements.map((statement) => ({
+    ...statement,
+    openingBalance: statement.openingBalance === null ? null : Number(statement.openingBalance),
+    closingBalance: Number(statement.closingBalance),
+    lineCount: statement._count.lines,
+    matchedCount: matchedByStatement.get(statement.id) ?? 0,
+  }));
+}
+
+/**
+ * Import a parsed statement and auto-match it
+ */
+export async function importBankStatement(
+  companyId: string,
+  userId: string,
+  data: {
+    options: BankStatementImportOptions;
+    fileName: string;
+    lines: ParsedStatementLine[];
+  },
+  request?: NextRequest
+) {
+  const account = await assertBankAccount(companyId, data.options.accountId);
+
+  const statement = await prisma.bankStatement.create({
+    data: {
+      companyId,
+      accountId: account.id,
+      statementDate: data.options.statementDate,
+      openingBalance: data.options.openingBalance ?? null,
+      closingBalance: data.options.closingBalance,
+      fileName: data.fileName,
+      importedById: userId,
+      lines: {
+        create: data.lines.map((line) => ({
+          companyId,
+          date: line.date,
+          description: line.description,
+          reference: line.reference,
+          amount: line.amount,
+          balance: line.balance,
+        })),
+      },
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'BankStatement',
+    entityId: statement.id,
+    action: 'CREATE',
+    after: {
+      accountId: account.id,
+      statementDate: statement.statementDate.toISOString(),
+      closingBalance: data.options.closingBalance,
+      lineCount: data.lines.length,
+    },
+    metadata: { fileName: data.fileName },
+    request,
+  });
+
+  const matchedCount = await autoMatchStatement(companyId, statement.id);
+
+  return { statement, lineCount: data.lines.length, matchedCount };
+}
+
+/**
+ * Match unmatched lines of a statement to unmatched book entries on the bank account.
+ * A book entry qualifies when its amount equals the statement amount and its date is
+ * within `dateWindowDays`. A reference match (voucher number, line reference or file
+ * reference found in the statement text) wins; otherwise the closest date wins, and
+ * ties are left for manual matching. Returns the number of lines matched.
+ */
+export async function autoMatchStatement(
+  companyId: string,
+  statementId: string,
+  dateWindowDays = 7
+): Promise<number> {
+  const statement = await prisma.bankStatement.findFirst({
+    where: { id: statementId, companyId },
+    include: {
+      lines: {
+        where: { voucherLineId: null },
+        orderBy: { date: 'asc' },
+      },
+    },
+  });
+
+  if (!statement) {
+    throw new Error('Bank statement not found');
+  }
+  if (statement.lines.length === 0) {
+    return 0;
+  }
+
+  const windowMs = dateWindowDays * DAY_MS;
+  const firstDate = statement.lines[0].date;
+  const lastDate = statement.lines[statement.lines.length - 1].date;
+
+  const candidates = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      accountId: statement.accountId,
+      bankStatementLine: null,
+      voucher: {
+        status: { in: BOOK_STATUSES },
+        date: {
+          gte: new Date(firstDate.getTime() - windowMs),
+          lte: new Date(lastDate.getTime() + windowMs),
+        },
+      },
+    },
+    include: {
+      voucher: { select: { voucherNo: true, date: true, narration: true } },
+    },
+  });
+
+  const available = candidates.map((line) => ({
+    id: line.id,
+    amount: roundMoney(decimalToNumber(line.debit) - decimalToNumber(line.credit)),
+    date: line.voucher.date,
+    refs: [line.voucher.voucherNo, line.voucherRef, line.fileRef]
+      .map(normalizeRef)
+      .filter((ref) => ref.length >= 3),
+    text: normalizeRef(`${line.voucher.narration || ''} ${line.description || ''}`),
+  }));
+  const used = new Set<string>();
+  const matches: Array<{ statementLineId: string; voucherLineId: string }> = [];
+
+  for (const line of statement.lines) {
+    const amount = roundMoney(decimalToNumber(line.amount));
+    const statementText = normalizeRef(`${line.reference || ''} ${line.description || ''}`);
+    const statementRef = normalizeRef(line.reference);
+
+    const inWindow = available
+      .filter(
+        (candidate) =>
+          !used.has(candidate.id) &&
+          candidate.amount === amount &&
+          Math.abs(candidate.date.getTime() - line.date.getTime()) <= windowMs
+      )
+      .map((candidate) => ({
+        ...candidate,
+        distance: Math.abs(candidate.date.getTime() - line.date.getTime()),
+        refMatch:
+          candidate.refs.some((ref) => statementText.includes(ref)) ||
+          (statementRef.length >= 3 && candidate.text.includes(statementRef)),
+      }));
+
+    if (inWindow.length === 0) continue;
+
+    const referenced = inWindow.filter((candidate) => candidate.refMatch);
+    const pool = referenced.length > 0 ? referenced : inWindow;
+    pool.sort((a, b) => a.distance - b.distance);
+
+    // Two equally close candidates without a reference: leave for manual matching
+    if (pool.length > 1 && pool[0].distance === pool[1].distance) continue;
+
+    used.add(pool[0].id);
+    matches.push({ statementLineId: line.id, voucherLineId: pool[0].id });
+  }
+
+  if (matches.length === 0) {
+    return 0;
+  }
+
+  const matchedAt = new Date();
+  await prisma.$transaction(
+    matches.map((match) =>
+      prisma.bankStatementLine.update({
+        where: { id: match.statementLineId },
+        data: { voucherLineId: match.voucherLineId, matchMethod: 'AUTO', matchedAt },
+      })
+    )
+  );
+
+  return matches.length;
+}
+
+/**
+ * Load a statement line of the company together with its statement
+ */
+async function findStatementLine(companyId: string, lineId: string) {
+  const line = await prisma.bankStatementLine.findFirst({
+    where: { id: lineId, companyId },
+    include: { statement: { select: { id: true, accountId: true } } },
+  });
+  if (!line) {
+    throw new Error('Statement line not found');
+  }
+  return line;
+}
+
+/**
+ * Manually match a statement line to a voucher line on the same bank account
+ */
+export async function matchStatementLine(
+  companyId: string,
+  userId: string,
+  lineId: string,
+  voucherLineId: string,
+  request?: NextRequest
+) {
+  const line = await findStatementLine(companyId, lineId);
+  if (line.voucherLineId) {
+    throw new Error('Statement line is already matched. Unmatch it first.');
+  }
+
+  const voucherLine = await prisma.voucherLine.findFirst({
+    where: { id: voucherLineId, companyId },
+    include: {
+      voucher: { select: { voucherNo: true, status: true } },
+      bankStatementLine: { select: { id: true } },
+    },
+  });
+  if (!voucherLine || voucherLine.accountId !== line.statement.accountId) {
+    throw new Error('Voucher line not found on this bank account');
+  }
+  if (voucherLine.bankStatementLine) {
+    throw new Error(`${voucherLine.voucher.voucherNo} is already matched to another statement line`);
+  }
+
+  const bookAmount = roundMoney(decimalToNumber(voucherLine.debit) - decimalToNumber(voucherLine.credit));
+  const bankAmount = roundMoney(decimalToNumber(line.amount));
+  if (bookAmount !== bankAmount) {
+    throw new Error(
+      `Amounts differ: statement ${bankAmount.toFixed(2)}, voucher ${bookAmount.toFixed(2)}`
+    );
+  }
+
+  const updated = await prisma.bankStatementLine.update({
+    where: { id: line.id },
+    data: { voucherLineId, matchMethod: 'MANUAL', matchedAt: new Date() },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'BankStatement',
+    entityId: line.statement.id,
+    action: 'UPDATE',
+    after: { statementLineId: line.id, voucherLineId, voucherNo: voucherLine.voucher.voucherNo },
+    metadata: { match: 'MANUAL' },
+    request,
+  });
+
+  return updated;
+}
+
+/**
+ * Remove the match of a statement line
+ */
+export async function unmatchStatementLine(
+  companyId: string,
+  userId: string,
+  lineId: string,
+  request?: NextRequest
+) {
+  const line = await findStatementLine(companyId, lineId);
+  if (!line.voucherLineId) {
+    throw new Error('Statement line is not matched');
+  }
+
+  const updated = await prisma.bankStatementLine.update({
+    where: { id: line.id },
+    data: { voucherLineId: null, matchMethod: null, matchedAt: null },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'BankStatement',
+    entityId: line.statement.id,
+    action: 'UPDATE',
+    before: { statementLineId: line.id, voucherLineId: line.voucherLineId },
+    after: { statementLineId: line.id, voucherLineId: null },
+    metadata: { match: 'UNMATCH' },
+    request,
+  });
+
+  return updated;
+}
+
+/**
+ * Create a DRAFT voucher for a statement line that has no book entry yet
+ * (bank charges, interest, direct credits) and link the line to its bank-side line.
+ * Deposits become RECEIPT vouchers, withdrawals PAYMENT vouchers.
+ */
+export async function createVoucherFromStatementLine(
+  companyId: string,
+  userId: string,
+  lineId: string,
+  data: { contraAccountId: string; narration?: string | null; projectId?: string | null },
+  request?: NextRequest
+) {
+  const line = await findStatementLine(companyId, lineId);
+  if (line.voucherLineId) {
+    throw new Error('Statement line is already matched');
+  }
+  if (data.contraAccountId === line.statement.accountId) {
+    throw new Error('Choose an account other than the bank account itself');
+  }
+
+  const amount = roundMoney(decimalToNumber(line.amount));
+  const isDeposit = amount > 0;
+  const value = Math.abs(amount);
+  const description = [line.description, line.reference].filter(Boolean).join(' / ') || null;
+
+  const voucherData: VoucherCreate = {
+    date: line.date,
+    type: isDeposit ? 'RECEIPT' : 'PAYMENT',
+    narration: data.narration || description || 'Bank statement entry',
+    projectId: data.projectId || null,
+    lines: [
+      {
+        accountId: line.statement.accountId,
+        description,
+        debit: isDeposit ? value : 0,
+        credit: isDeposit ? 0 : value,
+        isCompanyLevel: false,
+        voucherRef: line.reference,
+      },
+      {
+        accountId: data.contraAccountId,
+        description,
+        debit: isDeposit ? 0 : value,
+        credit: isDeposit ? value : 0,
+        isCompanyLevel: false,
+      },
+    ],
+  };
+
+  const result = await createDraftVoucher(companyId, userId, voucherData, { request });
+  if (!result.success || !result.voucher) {
+    throw new Error(result.error || 'Failed to create voucher');
+  }
+
+  const bankLine = result.voucher.lines.find(
+    (voucherLine) => voucherLine.accountId === line.statement.accountId
+  );
+  if (!bankLine) {
+    throw new Error('Created voucher has no line on the bank account');
+  }
+
+  await prisma.bankStatementLine.update({
+    where: { id: line.id },
+    data: { voucherLineId: bankLine.id, matchMethod: 'CREATED', matchedAt: new Date() },
+  });
+
+  return result.voucher;
+}
+
+/**
+ * Book entries on the bank account up to a date that no statement line (dated on or
+ * before that date) has matched
+ */
+async function getUnreconciledBookEntries(
+  companyId: string,
+  accountId: string,
+  asOf: Date
+): Promise<BookEntry[]> {
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      accountId,
+      voucher: { status: { in: BOOK_STATUSES }, date: { lte: asOf } },
+      OR: [{ bankStatementLine: null }, { bankStatementLine: { date: { gt: asOf } } }],
+    },
+    include: {
+      voucher: { select: { id: true, voucherNo: true, status: true, date: true, narration: true } },
+    },
+    orderBy: [{ voucher: { date: 'asc' } }, { voucher: { voucherNo: 'asc' } }],
+  });
+
+  return lines.map((line) => ({
+    voucherLineId: line.id,
+    voucherId: line.voucher.id,
+    voucherNo: line.voucher.voucherNo,
+    voucherStatus: line.voucher.status,
+    date: line.voucher.date,
+    narration: line.voucher.narration,
+    description: line.description,
+    amount: roundMoney(decimalToNumber(line.debit) - decimalToNumber(line.credit)),
+  }));
+}
+
+/**
+ * Reconciliation statement for a bank statement's date
+ */
+export async function getReconciliationStatement(
+  companyId: string,
+  statementId: string
+): Promise<ReconciliationStatement> {
+  const statement = await prisma.bankStatement.findFirst({
+    where: { id: statementId, companyId },
+  });
+  if (!statement) {
+    throw new Error('Bank statement not found');
+  }
+
+  const asOf = statementEndOfDay(statement.statementDate);
+
+  const bookTotals = await prisma.voucherLine.aggregate({
+    where: {
+      companyId,
+      accountId: statement.accountId,
+      voucher: { status: { in: BOOK_STATUSES }, date: { lte: asOf } },
+    },
+    _sum: { debit: true, credit: true },
+  });
+  const bookBalance = roundMoney(
+    decimalToNumber(bookTotals._sum.debit) - decimalToNumber(bookTotals._sum.credit)
+  );
+
+  const outstanding = await getUnreconciledBookEntries(companyId, statement.accountId, asOf);
+  const depositsInTransit = outstanding.filter((entry) => entry.amount > 0);
+  const outstandingPayments = outstanding.filter((entry) => entry.amount < 0);
+
+  // Bank lines up to the statement date on any statement for this account that the
+  // books do not contain as of that date
+  const bankLines = await prisma.bankStatementLine.findMany({
+    where: {
+      companyId,
+      date: { lte: asOf },
+      statement: { accountId: statement.accountId, statementDate: { lte: asOf } },
+      OR: [
+        { voucherLineId: null },
+        {
+          voucherLine: {
+            voucher: {
+              OR: [{ status: { notIn: BOOK_STATUSES } }, { date: { gt: asOf } }],
+            },
+          },
+        },
+      ],
+    },
+    orderBy: { date: 'asc' },
+  });
+  const unrecordedBankLines = bankLines.map((line) => ({
+    id: line.id,
+    date: line.date,
+    description: line.description,
+    reference: line.reference,
+    amount: roundMoney(decimalToNumber(line.amount)),
+  }));
+
+  const bankBalance = roundMoney(decimalToNumber(statement.closingBalance));
+  const sum = (values: number[]) => roundMoney(values.reduce((total, value) => total + value, 0));
+
+  const adjustedBankBalance = roundMoney(
+    bankBalance +
+      sum(depositsInTransit.map((entry) => entry.amount)) +
+      sum(outstandingPayments.map((entry) => entry.amount))
+  );
+  const adjustedBookBalance = roundMoney(
+    bookBalance + sum(unrecordedBankLines.map((line) => line.amount))
+  );
+
+  return {
+    statementDate: statement.statementDate,
+    bankBalance,
+    bookBalance,
+    depositsInTransit,
+    outstandingPayments,
+    unrecordedBankLines,
+    adjustedBankBalance,
+    adjustedBookBalance,
+    difference: roundMoney(adjustedBankBalance - adjustedBookBalance),
+  };
+}
+
+/**
+ * Statement lines with their matches, plus unmatched book entries that could be
+ * matched manually (dated up to the statement date plus a week)
+ */
+export async function getStatementWorkspace(companyId: string, statementId: string) {
+  const statement = await prisma.bankStatement.findFirst({
+    where: { id: statementId, companyId },
+    include: {
+      account: { select: { id: true, code: true, name: true } },
+      importedBy: { select: { id: true, name: true } },
+      lines: {
+        include: {
+          voucherLine: {
+            select: {
+              id: true,
+              description: true,
+              voucher: { select: { id: true, voucherNo: true, status: true, date: true } },
+            },
+          },
+        },
+        orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+  if (!statement) {
+    return null;
+  }
+
+  const candidateLines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      accountId: statement.accountId,
+      bankStatementLine: null,
+      voucher: {
+        status: { in: BOOK_STATUSES },
+        date: { lte: new Date(statementEndOfDay(statement.statementDate).getTime() + 7 * DAY_MS) },
+      },
+    },
+    include: {
+      voucher: { select: { id: true, voucherNo: true, status: true, date: true, narration: true } },
+    },
+    orderBy: [{ voucher: { date: 'asc' } }, { voucher: { voucherNo: 'asc' } }],
+  });
+
+  return {
+    id: statement.id,
+    account: statement.account,
+    statementDate: statement.statementDate,
+    openingBalance: statement.openingBalance === null ? null : Number(statement.openingBalance),
+    closingBalance: Number(statement.closingBalance),
+    fileName: statement.fileName,
+    importedBy: statement.importedBy,
+    createdAt: statement.createdAt,
+    lines: statement.lines.map((line) => ({
+      id: line.id,
+      date: line.date,
+      description: line.description,
+      reference: line.reference,
+      amount: roundMoney(decimalToNumber(line.amount)),
+      balance: line.balance === null ? null : Number(line.balance),
+      matchMethod: line.matchMethod,
+      voucherLine: line.voucherLine,
+    })),
+    unmatchedBookEntries: candidateLines.map((line) => ({
+      voucherLineId: line.id,
+      voucherId: line.voucher.id,
+      voucherNo: line.voucher.voucherNo,
+      voucherStatus: line.voucher.status,
+      date: line.voucher.date,
+      narration: line.voucher.narration,
+      description: line.description,
+      amount: roundMoney(decimalToNumber(line.debit) - decimalToNumber(line.credit)),
+    })) as BookEntry[],
+  };
+}
@@ -0,0 +1,471 @@
+/**
+ * Cheque Register
+ *
+ * A cheque is registered against the cash/bank-side line of a PAYMENT (credit line,
+ * OUTGOING cheque) or RECEIPT (debit line, INCOMING cheque) voucher whose payment method
+ * is of type CHEQUE. Its status then follows the bank:
+ *
+ *   ISSUED → PRESENTED → CLEARED / BOUNCED
+ *   ISSUED → CANCELLED, ISSUED → STALE → CANCELLED
+ *
+ * A bounce on a posted voucher reverses the whole voucher through reverseVoucher, so the
+ * payable/receivable it settled is reopened; a voucher that also carries other payments
+ * (more cheques, cash) has to be reversed by hand. Cheques dated in the future are post-dated;
+ * they cannot be presented or cleared before their date.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, UserRole } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ChequeCreate, ChequeStatusUpdate, ChequeUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { reverseVoucher } from '@/lib/vouchers/workflow';
+import {
+  canTransitionCheque,
+  ChequeStatusValue,
+  OPEN_CHEQUE_STATUSES,
+  staleDateFor,
+} from './cheques';
+
+const chequeInclude = Prisma.validator<Prisma.ChequeInclude>()({
+  voucherLine: {
+    select: {
+      id: true,
+      account: { select: { id: true, code: true, name: true } },
+      vendor: { select: { id: true, name: true } },
+      project: { select: { id: true, name: true } },
+      voucher: {
+        select: { id: true, voucherNo: true, type: true, status: true, date: true, narration: true },
+      },
+    },
+  },
+  reversalVoucher: { select: { id: true, voucherNo: true } },
+  createdBy: { select: { id: true, name: true } },
+});
+
+/**
+ * Where clause for voucher lines a cheque can be registered against
+ */
+function eligibleLineWhere(companyId: string): Prisma.VoucherLineWhereInput {
+  return {
+    companyId,
+    cheque: null,
+    paymentMethod: { type: 'CHEQUE' },
+    voucher: { status: { not: 'REVERSED' }, reversalOfId: null },
+    OR: [
+      { voucher: { type: 'PAYMENT' }, credit: { gt: 0 } },
+      { voucher: { type: 'RECEIPT' }, debit: { gt: 0 } },
+    ],
+  };
+}
+
+/**
+ * Voucher lines paid by cheque that are not in the register yet
+ */
+export async function listUnregisteredChequeLines(companyId: string) {
+  const lines = await prisma.voucherLine.findMany({
+    where: eligibleLineWhere(companyId),
+    include: {
+      account: { select: { code: true, name: true } },
+      vendor: { select: { name: true } },
+      voucher: { select: { id: true, voucherNo: true, type: true, status: true, date: true, narration: true } },
+    },
+    orderBy: [{ voucher: { date: 'desc' } }, { voucher: { voucherNo: 'desc' } }],
+    take: 200,
+  });
+
+  return lines.map((line) => ({
+    id: line.id,
+    voucherId: line.voucher.id,
+    voucherNo: line.voucher.voucherNo,
+    voucherType: line.voucher.type,
+    voucherStatus: line.voucher.status,
+    date: line.voucher.date,
+    narration: line.voucher.narration,
+    accountName: `${line.account.code} - ${line.account.name}`,
+    vendorName: line.vendor?.name || null,
+    paidBy: line.paidBy,
+    receivedBy: line.receivedBy,
+    amount: Number(line.voucher.type === 'PAYMENT' ? line.credit : line.debit),
+  }));
+}
+
+/**
+ * List cheques in the register
+ */
+export async function listCheques(
+  companyId: string,
+  filters: {
+    status?: ChequeStatusValue;
+    direction?: 'OUTGOING' | 'INCOMING';
+    search?: string;
+  } = {}
+) {
+  const cheques = await prisma.cheque.findMany({
+    where: {
+      companyId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.direction ? { direction: filters.direction } : {}),
+      ...(filters.search
+        ? {
+            OR: [
+              { chequeNo: { contains: filters.search, mode: 'insensitive' as const } },
+              { payee: { contains: filters.search, mode: 'insensitive' as const } },
+            ],
+          }
+        : {}),
+    },
+    include: chequeInclude,
+    orderBy: [{ chequeDate: 'desc' }, { createdAt: 'desc' }],
+  });
+
+  return cheques.map((cheque) => ({ ...cheque, amount: Number(cheque.amount) }));
+}
+
+/**
+ * Register a cheque against a voucher line
+ */
+export async function registerCheque(
+  companyId: string,
+  userId: string,
+  data: ChequeCreate,
+  request?: NextRequest
+) {
+  const line = await prisma.voucherLine.findFirst({
+    where: { ...eligibleLineWhere(companyId), id: data.voucherLineId },
+    include: { voucher: { select: { voucherNo: true, type: true } } },
+  });
+
+  if (!line) {
+    throw new Error(
+      'Voucher line not found, already registered, or not the cheque side of a payment/receipt'
+    );
+  }
+
+  const direction = line.voucher.type === 'PAYMENT' ? 'OUTGOING' : 'INCOMING';
+  const amount = line.voucher.type === 'PAYMENT' ? line.credit : line.debit;
+
+  const cheque = await prisma.cheque.create({
+    data: {
+      companyId,
+      voucherLineId: line.id,
+      direction,
+      chequeNo: data.chequeNo,
+      bankName: data.bankName,
+      payee: data.payee,
+      amount,
+      issueDate: data.issueDate,
+      chequeDate: data.chequeDate,
+      createdById: userId,
+    },
+    include: chequeInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Cheque',
+    entityId: cheque.id,
+    action: 'CREATE',
+    after: {
+      chequeNo: cheque.chequeNo,
+      direction,
+      amount: Number(amount),
+      voucherNo: line.voucher.voucherNo,
+      chequeDate: cheque.chequeDate.toISOString(),
+    },
+    request,
+  });
+
+  return cheque;
+}
+
+/**
+ * Load a cheque of the company
+ */
+async function findCheque(companyId: string, chequeId: string) {
+  const cheque = await prisma.cheque.findFirst({
+    where: { id: chequeId, companyId },
+    include: chequeInclude,
+  });
+  if (!cheque) {
+    throw new Error('Cheque not found');
+  }
+  return cheque;
+}
+
+/**
+ * Correct the details of a cheque that is still ISSUED
+ */
+export async function updateCheque(
+  companyId: string,
+  userId: string,
+  chequeId: string,
+  data: ChequeUpdate,
+  request?: NextRequest
+) {
+  const cheque = await findCheque(companyId, chequeId);
+  if (cheque.status !== 'ISSUED') {
+    throw new Error(`Cannot edit a cheque with status ${cheque.status}`);
+  }
+
+  const updated = await prisma.cheque.update({
+    where: { id: cheque.id },
+    data,
+    include: chequeInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Cheque',
+    entityId: cheque.id,
+    action: 'UPDATE',
+    before: {
+      chequeNo: cheque.chequeNo,
+      bankName: cheque.bankName,
+      payee: cheque.payee,
+      issueDate: cheque.issueDate.toISOString(),
+      chequeDate: cheque.chequeDate.toISOString(),
+    },
+    after: {
+      chequeNo: updated.chequeNo,
+      bankName: updated.bankName,
+      payee: updated.payee,
+      issueDate: updated.issueDate.toISOString(),
+      chequeDate: updated.chequeDate.toISOString(),
+    },
+    request,
+  });
+
+  return updated;
+}
+
+/**
+ * Remove a cheque registered by mistake (ISSUED only)
+ */
+export async function deleteCheque(
+  companyId: string,
+  userId: string,
+  chequeId: string,
+  request?: NextRequest
+) {
+  const cheque = await findCheque(companyId, chequeId);
+  if (cheque.status !== 'ISSUED') {
+    throw new Error(`Cannot delete a cheque with status ${cheque.status}. Cancel it instead.`);
+  }
+
+  await prisma.cheque.delete({ where: { id: cheque.id } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Cheque',
+    entityId: cheque.id,
+    action: 'DELETE',
+    before: {
+      chequeNo: cheque.chequeNo,
+      amount: Number(cheque.amount),
+      voucherNo: cheque.voucherLine.voucher.voucherNo,
+    },
+    request,
+  });
+}
+
+/**
+ * Move a cheque to a new status. A bounce reverses the cheque's voucher when it is posted.
+ */
+export async function changeChequeStatus(
+  companyId: string,
+  userId: string,
+  role: UserRole,
+  chequeId: string,
+  data: ChequeStatusUpdate,
+  request?: NextRequest
+) {
+  const cheque = await findCheque(companyId, chequeId);
+  const from = cheque.status as ChequeStatusValue;
+  const to = data.status as ChequeStatusValue;
+  const date = data.date || new Date();
+
+  if (!canTransitionCheque(from, to)) {
+    throw new Error(`Cannot change cheque status from ${from} to ${to}`);
+  }
+
+  if ((to === 'PRESENTED' || to === 'CLEARED') && date < cheque.chequeDate) {
+    throw new Error(
+      `Cheque ${cheque.chequeNo} is post-dated to ${cheque.chequeDate.toISOString().split('T')[0]} and cannot be ${to.toLowerCase()} earlier`
+    );
+  }
+
+  if (to === 'STALE' && date < staleDateFor(cheque.chequeDate)) {
+    throw new Error(
+      `Cheque ${cheque.chequeNo} only becomes stale on ${staleDateFor(cheque.chequeDate).toISOString().split('T')[0]}`
+    );
+  }
+
+  // A bounce reverses the whole voucher, which is only right when the voucher pays or
+  // receives this cheque alone. Other lines on the cheque's side are other payments
+  // (further cheques, cash) that did not bounce.
+  if (to === 'BOUNCED' && cheque.voucherLine.voucher.status === 'POSTED') {
+    const otherPayments = await prisma.voucherLine.count({
+      where: {
+        voucherId: cheque.voucherLine.voucher.id,
+        id: { not: cheque.voucherLineId },
+        ...(cheque.direction === 'OUTGOING' ? { credit: { gt: 0 } } : { debit: { gt: 0 } }),
+      },
+    });
+    if (otherPayments > 0) {
+      throw new Error(
+        `Voucher ${cheque.voucherLine.voucher.voucherNo} has other payments besides cheque ${cheque.chequeNo}, so it cannot be reversed for this bounce. Reverse the voucher and re-enter the other payments, then mark the cheque bounced.`
+      );
+    }
+  }
+
+  // Claim the cheque first, so a lost race never leaves a reversal behind
+  const updated = await prisma.cheque.updateMany({
+    where: { id: cheque.id, status: cheque.status },
+    data: {
+      status: to,
+      statusNote: data.note || null,
+      ...(to === 'PRESENTED' ? { presentedAt: date } : {}),
+      ...(to === 'CLEARED' ? { clearedAt: date, presentedAt: cheque.presentedAt ?? date } : {}),
+      ...(to === 'BOUNCED' ? { bouncedAt: date } : {}),
+    },
+  });
+
+  if (updated.count === 0) {
+    throw new Error('Cheque status was changed by someone else. Reload and try again.');
+  }
+
+  let reversalVoucherId: string | null = null;
+  if (to === 'BOUNCED' && cheque.voucherLine.voucher.status === 'POSTED') {
+    // Put the cheque back as it was when its voucher cannot be reversed
+    const release = () =>
+      prisma.cheque.updateMany({
+        where: { id: cheque.id, status: 'BOUNCED', reversalVoucherId: null },
+        data: { status: cheque.status, statusNote: cheque.statusNote, bouncedAt: cheque.bouncedAt },
+      });
+
+    let result: Awaited<ReturnType<typeof reverseVoucher>>;
+    try {
+      result = await reverseVoucher(
+        cheque.voucherLine.voucher.id,
+        userId,
+        companyId,
+        role,
+        {
+          date,
+          description: `Cheque ${cheque.chequeNo} bounced${data.note ? `: ${data.note}` : ''} (reversal of ${cheque.voucherLine.voucher.voucherNo})`,
+        },
+        request
+      );
+    } catch (error) {
+      await release();
+      throw error;
+    }
+    if (!result.success) {
+      await release();
+      throw new Error(result.error || 'Failed to reverse the cheque voucher');
+    }
+    reversalVoucherId = result.voucher?.id ?? null;
+    await prisma.cheque.update({ where: { id: cheque.id }, data: { reversalVoucherId } });
+  }
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Cheque',
+    entityId: cheque.id,
+    action: 'STATUS_CHANGE',
+    before: { status: from },
+    after: { status: to, date: date.toISOString(), note: data.note || null },
+    metadata: reversalVoucherId ? { reversalVoucherId } : undefined,
+    request,
+  });
+
+  return findCheque(companyId, cheque.id);
+}
+
+/**
+ * Mark ISSUED cheques that were never presented within the stale period as STALE.
+ * Returns the number of cheques marked.
+ */
+export async function markStaleCheques(
+  companyId: string,
+  userId: string,
+  asOf: Date = new Date(),
+  request?: NextRequest
+): Promise<number> {
+  const candidates = await prisma.cheque.findMany({
+    where: { companyId, status: 'ISSUED', chequeDate: { lte: asOf } },
+    select: { id: true, chequeNo: true, chequeDate: true },
+  });
+
+  const stale = candidates.filter((cheque) => staleDateFor(cheque.chequeDate) <= asOf);
+
+  let marked = 0;
+  for (const cheque of stale) {
+    const updated = await prisma.cheque.updateMany({
+      where: { id: cheque.id, status: 'ISSUED' },
+      data: { status: 'STALE', statusNote: `Not presented by ${asOf.toISOString().split('T')[0]}` },
+    });
+    if (updated.count === 0) continue;
+    marked += updated.count;
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Cheque',
+      entityId: cheque.id,
+      action: 'STATUS_CHANGE',
+      before: { status: 'ISSUED' },
+      after: { status: 'STALE' },
+      metadata: { automatic: true, chequeNo: cheque.chequeNo },
+      request,
+    });
+  }
+
+  return marked;
+}
+
+/**
+ * Open cheques dated after `asOf` (post-dated), earliest first, with totals per month
+ */
+export async function getPostDatedCheques(
+  companyId: string,
+  asOf: Date,
+  direction?: 'OUTGOING' | 'INCOMING'
+) {
+  const cheques = await prisma.cheque.findMany({
+    where: {
+      companyId,
+      status: { in: OPEN_CHEQUE_STATUSES },
+      chequeDate: { gt: asOf },
+      ...(direction ? { direction } : {}),
+    },
+    include: chequeInclude,
+    orderBy: [{ chequeDate: 'asc' }, { chequeNo: 'asc' }],
+  });
+
+  const months = new Map<string, { month: string; outgoing: number; incoming: number }>();
+  for (const cheque of cheques) {
+    const month = cheque.chequeDate.toISOString().slice(0, 7);
+    const bucket = months.get(month) || { month, outgoing: 0, incoming: 0 };
+    if (cheque.direction === 'OUTGOING') {
+      bucket.outgoing += Number(cheque.amount);
+    } else {
+      bucket.incoming += Number(cheque.amount);
+    }
+    months.set(month, bucket);
+  }
+
+  const rows = cheques.map((cheque) => ({ ...cheque, amount: Number(cheque.amount) }));
+
+  return {
+    cheques: rows,
+    byMonth: Array.from(months.values()),
+    totalOutgoing: rows.filter((c) => c.direction === 'OUTGOING').reduce((sum, c) => sum + c.amount, 0),
+    totalIncoming: rows.filter((c) => c.direction === 'INCOMING').reduce((sum, c) => sum + c.amount, 0),
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Cheque register rules shared by the server and the register UI.
+ * No server-only imports.
+ */
+
+export type ChequeStatusValue = 'ISSUED' | 'PRESENTED' | 'CLEARED' | 'BOUNCED' | 'CANCELLED' | 'STALE';
+
+/** A cheque not presented within this many months of its date can no longer be honoured */
+export const STALE_AFTER_MONTHS = 6;
+
+/** Statuses a cheque may move to from each status (CLEARED, BOUNCED and CANCELLED are final) */
+export const CHEQUE_STATUS_TRANSITIONS: Record<ChequeStatusValue, ChequeStatusValue[]> = {
+  ISSUED: ['PRESENTED', 'CLEARED', 'BOUNCED', 'CANCELLED', 'STALE'],
+  PRESENTED: ['CLEARED', 'BOUNCED'],
+  CLEARED: [],
+  BOUNCED: [],
+  CANCELLED: [],
+  STALE: ['CANCELLED'],
+};
+
+/** Statuses still waiting on the bank (count towards upcoming cash flow) */
+export const OPEN_CHEQUE_STATUSES: ChequeStatusValue[] = ['ISSUED', 'PRESENTED'];
+
+export const CHEQUE_STATUS_STYLES: Record<ChequeStatusValue, string> = {
+  ISSUED: 'bg-blue-100 text-blue-800',
+  PRESENTED: 'bg-indigo-100 text-indigo-800',
+  CLEARED: 'bg-green-100 text-green-800',
+  BOUNCED: 'bg-red-100 text-red-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+  STALE: 'bg-yellow-100 text-yellow-800',
+};
+
+/**
+ * Date from which an unpresented cheque is stale
+ */
+export function staleDateFor(chequeDate: Date | string): Date {
+  const date = new Date(chequeDate);
+  const stale = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + STALE_AFTER_MONTHS, 1)
+  );
+  // Keep the day of month, clamped to the length of the target month
+  const lastDay = new Date(
+    Date.UTC(stale.getUTCFullYear(), stale.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  stale.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return stale;
+}
+
+/**
+ * Check whether a cheque may move from one status to another
+ */
+export function canTransitionCheque(from: ChequeStatusValue, to: ChequeStatusValue): boolean {
+  return CHEQUE_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,843 @@
+/**
+ * Client Billing (running-account bills)
+ *
+ * A project is billed to its client in running-account (RA) bills. Each bill states the
+ * cumulative value of work done to date, either as a progress percentage of the contract
+ * value or as measured items (cumulative quantity × rate); the bill charges the increase
+ * over the previous issued bill:
+ *
+ *   gross     = cumulative − previous cumulative
+ *   net       = gross − VAT deducted − AIT deducted − retention
+ *
+ * Issuing a bill creates a DRAFT JOURNAL voucher for the project:
+ *
+ *   Dr Accounts Receivable (net), Retention Receivable, AIT, VAT deducted at source
+ *   Cr Sales Revenue (gross)
+ *
+ * Collections are DRAFT RECEIPT vouchers crediting AR and Retention Receivable. Only
+ * bills and collections whose vouchers are POSTED count towards receivables and aging.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ClientBillCollection, ClientBillCreate, ClientBillUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateDraftVoucherNumber } from '@/lib/voucher';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { findBankAccounts, findCashAccounts } from '@/lib/reports/ledger';
+
+const clientBillInclude = Prisma.validator<Prisma.ClientBillInclude>()({
+  project: { select: { id: true, name: true, clientName: true, contractValue: true } },
+  items: { orderBy: { sortOrder: 'asc' } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+  collections: {
+    include: { voucher: { select: { id: true, voucherNo: true, status: true } } },
+    orderBy: { date: 'asc' },
+  },
+  createdBy: { select: { id: true, name: true } },
+});
+
+type ClientBillWithRelations = Prisma.ClientBillGetPayload<{ include: typeof clientBillInclude }>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Display number of a running-account bill
+ */
+export function formatBillNo(billNo: number): string {
+  return `RA-${billNo}`;
+}
+
+/**
+ * Collected net and retention amounts of a bill. Collections whose voucher was
+ * reversed are ignored; pass postedOnly to count only posted collections.
+ */
+function collectedAmounts(bill: ClientBillWithRelations, postedOnly = false) {
+  return bill.collections
+    .filter((c) =>
+      postedOnly ? c.voucher.status === 'POSTED' : c.voucher.status !== 'REVERSED'
+    )
+    .reduce(
+      (sum, c) => ({
+        net: sum.net + Number(c.netAmount),
+        retention: sum.retention + Number(c.retentionAmount),
+      }),
+      { net: 0, retention: 0 }
+    );
+}
+
+/**
+ * Convert a bill to plain numbers for API responses and client components
+ */
+function serializeBill(bill: ClientBillWithRelations) {
+  const collected = collectedAmounts(bill);
+  return {
+    id: bill.id,
+    projectId: bill.projectId,
+    projectName: bill.project.name,
+    clientName: bill.project.clientName,
+    billNo: bill.billNo,
+    billRef: formatBillNo(bill.billNo),
+    billDate: bill.billDate,
+    dueDate: bill.dueDate,
+    basis: bill.basis,
+    progressPercent: bill.progressPercent != null ? Number(bill.progressPercent) : null,
+    cumulativeAmount: Number(bill.cumulativeAmount),
+    previousAmount: Number(bill.previousAmount),
+    grossAmount: Number(bill.grossAmount),
+    vatPercent: Number(bill.vatPercent),
+    vatAmount: Number(bill.vatAmount),
+    aitPercent: Number(bill.aitPercent),
+    aitAmount: Number(bill.aitAmount),
+    retentionPercent: Number(bill.retentionPercent),
+    retentionAmount: Number(bill.retentionAmount),
+    netAmount: Number(bill.netAmount),
+    status: bill.status,
+    notes: bill.notes,
+    issuedAt: bill.issuedAt,
+    voucher: bill.voucher,
+    createdBy: bill.createdBy,
+    items: bill.items.map((item) => ({
+      id: item.id,
+      description: item.description,
+      unit: item.unit,
+      quantity: Number(item.quantity),
+      rate: Number(item.rate),
+      amount: Number(item.amount),
+    })),
+    collections: bill.collections.map((c) => ({
+      id: c.id,
+      date: c.date,
+      netAmount: Number(c.netAmount),
+      retentionAmount: Number(c.retentionAmount),
+      voucher: c.voucher,
+    })),
+    collectedNet: roundMoney(collected.net),
+    collectedRetention: roundMoney(collected.retention),
+    outstandingNet: roundMoney(Number(bill.netAmount) - collected.net),
+    outstandingRetention: roundMoney(Number(bill.retentionAmount) - collected.retention),
+  };
+}
+
+export type ClientBillView = ReturnType<typeof serializeBill>;
+
+async function findProject(companyId: string, projectId: string) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true, clientName: true, contractValue: true, progressPercent: true },
+  });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  return project;
+}
+
+async function findBill(companyId: string, billId: string) {
+  const bill = await prisma.clientBill.findFirst({
+    where: { id: billId, companyId },
+    include: clientBillInclude,
+  });
+  if (!bill) {
+    throw new Error('Bill not found');
+  }
+  return bill;
+}
+
+/**
+ * Work out the amounts of a bill from its basis, the contract value and the
+ * cumulative value of the project's issued bills
+ */
+async function computeBillAmounts(
+  client: Prisma.TransactionClient | typeof prisma,
+  project: { id: string; contractValue: Prisma.Decimal | null },
+  data: {
+    basis: 'PROGRESS' | 'MEASURED';
+    progressPercent?: number | null;
+    items: Array<{ quantity: number; rate: number }>;
+    vatPercent: number;
+    aitPercent: number;
+    retentionPercent: number;
+  },
+  excludeBillId?: string
+) {
+  let cumulativeAmount: number;
+  if (data.basis === 'PROGRESS') {
+    const contractValue = Number(project.contractValue ?? 0);
+    if (contractValue <= 0) {
+      throw new Error('Set the project contract value before billing on progress');
+    }
+    cumulativeAmount = roundMoney((contractValue * (data.progressPercent ?? 0)) / 100);
+  } else {
+    cumulativeAmount = roundMoney(
+      data.items.reduce((sum, item) => sum + roundMoney(item.quantity * item.rate), 0)
+    );
+  }
+
+  const previous = await client.clientBill.aggregate({
+    where: {
+      projectId: project.id,
+      status: 'ISSUED',
+      ...(excludeBillId ? { id: { not: excludeBillId } } : {}),
+    },
+    _max: { cumulativeAmount: true },
+  });
+  const previousAmount = Number(previous._max.cumulativeAmount ?? 0);
+
+  const grossAmount = roundMoney(cumulativeAmount - previousAmount);
+  if (grossAmount <= 0) {
+    throw new Error(
+      `Cumulative value (${cumulativeAmount.toFixed(2)}) must exceed the previous bill (${previousAmount.toFixed(2)})`
+    );
+  }
+
+  const vatAmount = roundMoney((grossAmount * data.vatPercent) / 100);
+  const aitAmount = roundMoney((grossAmount * data.aitPercent) / 100);
+  const retentionAmount = roundMoney((grossAmount * data.retentionPercent) / 100);
+  const netAmount = roundMoney(grossAmount - vatAmount - aitAmount - retentionAmount);
+
+  return {
+    cumulativeAmount,
+    previousAmount,
+    grossAmount,
+    vatAmount,
+    aitAmount,
+    retentionAmount,
+    netAmount,
+  };
+}
+
+function itemRows(items: Array<{ description: string; unit?: string | null; quantity: number; rate: number }>) {
+  return items.map((item, index) => ({
+    description: item.description,
+    unit: item.unit || null,
+    quantity: item.quantity,
+    rate: item.rate,
+    amount: roundMoney(item.quantity * item.rate),
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Bills of a project (newest first) with the project's billing summary
+ */
+export async function listProjectBills(companyId: string, projectId: string) {
+  const project = await findProject(companyId, projectId);
+
+  const bills = await prisma.clientBill.findMany({
+    where: { companyId, projectId },
+    include: clientBillInclude,
+    orderBy: { billNo: 'desc' },
+  });
+  const views = bills.map(serializeBill);
+
+  const issued = bills.filter((b) => b.status === 'ISSUED');
+  const billedToDate = issued.reduce((max, b) => Math.max(max, Number(b.cumulativeAmount)), 0);
+  const posted = issued.filter((b) => b.voucher?.status === 'POSTED');
+  const summary = posted.reduce(
+    (sum, bill) => {
+      const collected = collectedAmounts(bill, true);
+      return {
+        collected: sum.collected + collected.net + collected.retention,
+        receivable: sum.receivable + Number(bill.netAmount) - collected.net,
+        retentionHeld: sum.retentionHeld + Number(bill.retentionAmount) - collected.retention,
+      };
+    },
+    { collected: 0, receivable: 0, retentionHeld: 0 }
+  );
+
+  return {
+    project: {
+      id: project.id,
+      name: project.name,
+      clientName: project.clientName,
+      contractValue: project.contractValue != null ? Number(project.contractValue) : null,
+      progressPercent: project.progressPercent,
+    },
+    summary: {
+      billedToDate,
+      collected: roundMoney(summary.collected),
+      receivable: roundMoney(summary.receivable),
+      retentionHeld: roundMoney(summary.retentionHeld),
+    },
+    bills: views,
+  };
+}
+
+/**
+ * A single bill with its items and collections
+ */
+export async function getClientBill(companyId: string, billId: string) {
+  return serializeBill(await findBill(companyId, billId));
+}
+
+/**
+ * Create a DRAFT running-account bill for a project
+ */
+export async function createClientBill(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  data: ClientBillCreate,
+  request?: NextRequest
+) {
+  const project = await findProject(companyId, projectId);
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const amounts = await computeBillAmounts(tx, project, data);
+    const billNo = await nextDocumentNumber(tx, companyId, `CLIENT_BILL:${projectId}`, async () => {
+      const last = await tx.clientBill.aggregate({ where: { projectId }, _max: { billNo: true } });
+      return last._max.billNo;
+    });
+
+    return tx.clientBill.create({
+      data: {
+        companyId,
+        projectId,
+        billNo,
+        billDate: data.billDate,
+        dueDate: data.dueDate || null,
+        basis: data.basis,
+        progressPercent: data.basis === 'PROGRESS' ? data.progressPercent : null,
+        vatPercent: data.vatPercent,
+        aitPercent: data.aitPercent,
+        retentionPercent: data.retentionPercent,
+        ...amounts,
+        notes: data.notes || null,
+        createdById: userId,
+        items: data.basis === 'MEASURED' ? { create: itemRows(data.items) } : undefined,
+      },
+      include: clientBillInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: bill.id,
+    action: 'CREATE',
+    after: {
+      projectId,
+      billNo: formatBillNo(bill.billNo),
+      basis: bill.basis,
+      grossAmount: Number(bill.grossAmount),
+      netAmount: Number(bill.netAmount),
+    },
+    request,
+  });
+
+  return serializeBill(bill);
+}
+
+/**
+ * Update a DRAFT bill; amounts are recalculated
+ */
+export async function updateClientBill(
+  companyId: string,
+  userId: string,
+  billId: string,
+  data: ClientBillUpdate,
+  request?: NextRequest
+) {
+  const existing = await findBill(companyId, billId);
+  if (existing.status !== 'DRAFT') {
+    throw new Error('Only draft bills can be edited');
+  }
+
+  const merged = {
+    billDate: data.billDate ?? existing.billDate,
+    dueDate: data.dueDate !== undefined ? data.dueDate : existing.dueDate,
+    basis: data.basis ?? existing.basis,
+    progressPercent:
+      data.progressPercent !== undefined
+        ? data.progressPercent
+        : existing.progressPercent != null
+          ? Number(existing.progressPercent)
+          : null,
+    items:
+      data.items ??
+      existing.items.map((item) => ({
+        description: item.description,
+        unit: item.unit,
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+      })),
+    vatPercent: data.vatPercent ?? Number(existing.vatPercent),
+    aitPercent: data.aitPercent ?? Number(existing.aitPercent),
+    retentionPercent: data.retentionPercent ?? Number(existing.retentionPercent),
+    notes: data.notes !== undefined ? data.notes : existing.notes,
+  };
+
+  if (merged.basis === 'PROGRESS' && merged.progressPercent == null) {
+    throw new Error('Progress percentage is required for progress bills');
+  }
+  if (merged.basis === 'MEASURED' && merged.items.length === 0) {
+    throw new Error('At least one measured item is required');
+  }
+  if (merged.vatPercent + merged.aitPercent + merged.retentionPercent >= 100) {
+    throw new Error('Deductions must be less than 100% of the bill');
+  }
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const amounts = await computeBillAmounts(tx, existing.project, merged, existing.id);
+
+    await tx.clientBillItem.deleteMany({ where: { billId } });
+
+    return tx.clientBill.update({
+      where: { id: billId },
+      data: {
+        billDate: merged.billDate,
+        dueDate: merged.dueDate || null,
+        basis: merged.basis,
+        progressPercent: merged.basis === 'PROGRESS' ? merged.progressPercent : null,
+        vatPercent: merged.vatPercent,
+        aitPercent: merged.aitPercent,
+        retentionPercent: merged.retentionPercent,
+        ...amounts,
+        notes: merged.notes || null,
+        items: merged.basis === 'MEASURED' ? { create: itemRows(merged.items) } : undefined,
+      },
+      include: clientBillInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: bill.id,
+    action: 'UPDATE',
+    before: { grossAmount: Number(existing.grossAmount), netAmount: Number(existing.netAmount) },
+    after: { grossAmount: Number(bill.grossAmount), netAmount: Number(bill.netAmount) },
+    request,
+  });
+
+  return serializeBill(bill);
+}
+
+/**
+ * Delete a DRAFT bill
+ */
+export async function deleteClientBill(
+  companyId: string,
+  userId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const bill = await findBill(companyId, billId);
+  if (bill.status !== 'DRAFT') {
+    throw new Error('Only draft bills can be deleted; cancel issued bills instead');
+  }
+
+  await prisma.clientBill.delete({ where: { id: billId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: billId,
+    action: 'DELETE',
+    before: { billNo: formatBillNo(bill.billNo), grossAmount: Number(bill.grossAmount) },
+    request,
+  });
+}
+
+/**
+ * Issue a bill: amounts are recalculated against the latest issued bill and a DRAFT
+ * JOURNAL voucher is created for the receivable and revenue
+ */
+export async function issueClientBill(
+  companyId: string,
+  userId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const existing = await findBill(companyId, billId);
+  if (existing.status !== 'DRAFT') {
+    throw new Error('Only draft bills can be issued');
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const billRef = formatBillNo(existing.billNo);
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const amounts = await computeBillAmounts(
+      tx,
+      existing.project,
+      {
+        basis: existing.basis,
+        progressPercent: existing.progressPercent != null ? Number(existing.progressPercent) : null,
+        items: existing.items.map((item) => ({
+          quantity: Number(item.quantity),
+          rate: Number(item.rate),
+        })),
+        vatPercent: Number(existing.vatPercent),
+        aitPercent: Number(existing.aitPercent),
+        retentionPercent: Number(existing.retentionPercent),
+      },
+      existing.id
+    );
+
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    const description = `${billRef} - ${existing.project.name}`;
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId: existing.projectId,
+        voucherNo,
+        type: 'JOURNAL',
+        date: existing.billDate,
+        status: 'DRAFT',
+        narration: `Running bill ${billRef} to ${existing.project.clientName || 'client'} for ${existing.project.name}`,
+        createdByUserId: userId,
+        lines: {
+          create: [
+            { code: SYSTEM_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE, debit: amounts.netAmount, credit: 0 },
+            { code: SYSTEM_ACCOUNT_CODES.RETENTION_RECEIVABLE, debit: amounts.retentionAmount, credit: 0 },
+            { code: SYSTEM_ACCOUNT_CODES.AIT_RECEIVABLE, debit: amounts.aitAmount, credit: 0 },
+            { code: SYSTEM_ACCOUNT_CODES.VAT_RECEIVABLE, debit: amounts.vatAmount, credit: 0 },
+            { code: SYSTEM_ACCOUNT_CODES.SALES_REVENUE, debit: 0, credit: amounts.grossAmount },
+          ]
+            .filter((line) => line.debit !== 0 || line.credit !== 0)
+            .map((line) => ({
+              companyId,
+              accountId: accountIds[line.code],
+              description,
+              debit: line.debit,
+              credit: line.credit,
+              projectId: existing.projectId,
+            })),
+        },
+      },
+    });
+
+    return tx.clientBill.update({
+      where: { id: billId },
+      data: {
+        ...amounts,
+        status: 'ISSUED',
+        issuedAt: new Date(),
+        voucherId: voucher.id,
+      },
+      include: clientBillInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: bill.id,
+    action: 'STATUS_CHANGE',
+    before: { status: existing.status },
+    after: {
+      status: bill.status,
+      billNo: billRef,
+      grossAmount: Number(bill.grossAmount),
+      netAmount: Number(bill.netAmount),
+      voucherNo: bill.voucher?.voucherNo,
+    },
+    request,
+  });
+
+  return serializeBill(bill);
+}
+
+/**
+ * Cancel a bill. An issued bill can only be cancelled while its voucher is still a
+ * draft (the draft is deleted) or after the voucher has been reversed, and only if it
+ * is the project's latest issued bill and nothing has been collected against it.
+ */
+export async function cancelClientBill(
+  companyId: string,
+  userId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const existing = await findBill(companyId, billId);
+  if (existing.status === 'CANCELLED') {
+    throw new Error('Bill is already cancelled');
+  }
+
+  if (existing.status === 'ISSUED') {
+    if (existing.collections.some((c) => c.voucher.status !== 'REVERSED')) {
+      throw new Error('Bill has collections; reverse or delete them first');
+    }
+    const later = await prisma.clientBill.count({
+      where: { projectId: existing.projectId, status: 'ISSUED', billNo: { gt: existing.billNo } },
+    });
+    if (later > 0) {
+      throw new Error('A later bill has been issued for this project; cancel it first');
+    }
+    if (existing.voucher && !['DRAFT', 'REVERSED'].includes(existing.voucher.status)) {
+      throw new Error(
+        `Bill voucher ${existing.voucher.voucherNo} is ${existing.voucher.status}; reverse it before cancelling the bill`
+      );
+    }
+  }
+
+  const bill = await prisma.$transaction(async (tx) => {
+    if (existing.voucher?.status === 'DRAFT') {
+      await tx.voucher.delete({ where: { id: existing.voucher.id } });
+    }
+    return tx.clientBill.update({
+      where: { id: billId },
+      data: { status: 'CANCELLED' },
+      include: clientBillInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: bill.id,
+    action: 'STATUS_CHANGE',
+    before: { status: existing.status, voucherNo: existing.voucher?.voucherNo },
+    after: { status: bill.status },
+    request,
+  });
+
+  return serializeBill(bill);
+}
+
+/**
+ * Cash and bank accounts a collection can be received into
+ */
+export async function listReceivingAccounts(companyId: string) {
+  const [cash, bank] = await Promise.all([
+    findCashAccounts(companyId),
+    findBankAccounts(companyId),
+  ]);
+  const seen = new Set<string>();
+  return [...cash, ...bank].filter((account) => {
+    if (seen.has(account.id)) return false;
+    seen.add(account.id);
+    return true;
+  });
+}
+
+/**
+ * Record a collection against an issued bill as a DRAFT RECEIPT voucher
+ */
+export async function recordBillCollection(
+  companyId: string,
+  userId: string,
+  billId: string,
+  data: ClientBillCollection,
+  request?: NextRequest
+) {
+  const bill = await findBill(companyId, billId);
+  if (bill.status !== 'ISSUED' || bill.voucher?.status !== 'POSTED') {
+    throw new Error('Collections can only be recorded against issued bills with a posted voucher');
+  }
+
+  const receivingAccounts = await listReceivingAccounts(companyId);
+  if (!receivingAccounts.some((account) => account.id === data.accountId)) {
+    throw new Error('Receiving account must be a cash or bank account');
+  }
+
+  if (data.paymentMethodId) {
+    const method = await prisma.paymentMethod.findFirst({
+      where: { id: data.paymentMethodId, companyId, isActive: true },
+    });
+    if (!method) {
+      throw new Error('Payment method not found');
+    }
+  }
+
+  const collected = collectedAmounts(bill);
+  const outstandingNet = roundMoney(Number(bill.netAmount) - collected.net);
+  const outstandingRetention = roundMoney(Number(bill.retentionAmount) - collected.retention);
+  if (data.netAmount > outstandingNet + 0.005) {
+    throw new Error(`Amount exceeds the outstanding receivable (${outstandingNet.toFixed(2)})`);
+  }
+  if (data.retentionAmount > outstandingRetention + 0.005) {
+    throw new Error(`Retention exceeds the outstanding retention (${outstandingRetention.toFixed(2)})`);
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const billRef = formatBillNo(bill.billNo);
+  const total = roundMoney(data.netAmount + data.retentionAmount);
+
+  const collection = await prisma.$transaction(async (tx) => {
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId: bill.projectId,
+        voucherNo,
+        type: 'RECEIPT',
+        date: data.date,
+        status: 'DRAFT',
+        narration: data.narration || `Collection against ${billRef} - ${bill.project.name}`,
+        createdByUserId: userId,
+        lines: {
+          create: [
+            {
+              accountId: data.accountId,
+              description: `Received against ${billRef}`,
+              debit: total,
+              credit: 0,
+              paymentMethodId: data.paymentMethodId || null,
+              receivedBy: bill.project.clientName || null,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.ACCOUNTS_RECEIVABLE],
+              description: `${billRef} receivable`,
+              debit: 0,
+              credit: data.netAmount,
+            },
+            {
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.RETENTION_RECEIVABLE],
+              description: `${billRef} retention released`,
+              debit: 0,
+              credit: data.retentionAmount,
+            },
+          ]
+            .filter((line) => line.debit !== 0 || line.credit !== 0)
+            .map((line) => ({ companyId, projectId: bill.projectId, ...line })),
+        },
+      },
+    });
+
+    return tx.clientBillCollection.create({
+      data: {
+        companyId,
+        billId,
+        voucherId: voucher.id,
+        date: data.date,
+        netAmount: data.netAmount,
+        retentionAmount: data.retentionAmount,
+        createdById: userId,
+      },
+      include: { voucher: { select: { id: true, voucherNo: true, status: true } } },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ClientBill',
+    entityId: billId,
+    action: 'UPDATE',
+    after: {
+      collection: collection.id,
+      voucherNo: collection.voucher.voucherNo,
+      netAmount: data.netAmount,
+      retentionAmount: data.retentionAmount,
+    },
+    metadata: { operation: 'COLLECTION' },
+    request,
+  });
+
+  return {
+    id: collection.id,
+    date: collection.date,
+    netAmount: Number(collection.netAmount),
+    retentionAmount: Number(collection.retentionAmount),
+    voucher: collection.voucher,
+  };
+}
+
+export const AGING_BUCKETS = ['current', '1-30', '31-60', '61-90', '90+'] as const;
+export type AgingBucket = (typeof AGING_BUCKETS)[number];
+
+function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return '1-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+/**
+ * Accounts receivable aging as of a date. Bills and collections count once their
+ * vouchers are posted; age runs from the due date (or bill date when none is set).
+ * Retention is not due until project handover, so it is reported beside the buckets.
+ */
+export async function getReceivablesAging(
+  companyId: string,
+  asOf: Date,
+  projectId?: string
+) {
+  const bills = await prisma.clientBill.findMany({
+    where: {
+      companyId,
+      status: 'ISSUED',
+      billDate: { lte: asOf },
+      voucher: { status: 'POSTED' },
+      ...(projectId ? { projectId } : {}),
+    },
+    include: {
+      project: { select: { id: true, name: true, clientName: true } },
+      collections: {
+        where: { date: { lte: asOf }, voucher: { status: 'POSTED' } },
+        select: { netAmount: true, retentionAmount: true },
+      },
+    },
+    orderBy: [{ billDate: 'asc' }, { billNo: 'asc' }],
+  });
+
+  const totals: Record<AgingBucket, number> = {
+    current: 0,
+    '1-30': 0,
+    '31-60': 0,
+    '61-90': 0,
+    '90+': 0,
+  };
+  let totalOutstanding = 0;
+  let totalRetention = 0;
+
+  const rows = bills
+    .map((bill) => {
+      const collectedNet = bill.collections.reduce((sum, c) => sum + Number(c.netAmount), 0);
+      const collectedRetention = bill.collections.reduce(
+        (sum, c) => sum + Number(c.retentionAmount),
+        0
+      );
+      const outstanding = roundMoney(Number(bill.netAmount) - collectedNet);
+      const retention = roundMoney(Number(bill.retentionAmount) - collectedRetention);
+      const dueDate = bill.dueDate ?? bill.billDate;
+      const daysOverdue = Math.floor((asOf.getTime() - dueDate.getTime()) / (24 * 60 * 60 * 1000));
+      const bucket = agingBucket(daysOverdue);
+
+      return {
+        id: bill.id,
+        projectId: bill.project.id,
+        projectName: bill.project.name,
+        clientName: bill.project.clientName,
+        billRef: formatBillNo(bill.billNo),
+        billDate: bill.billDate,
+        dueDate,
+        daysOverdue: Math.max(daysOverdue, 0),
+        netAmount: Number(bill.netAmount),
+        outstanding,
+        retention,
+        bucket,
+      };
+    })
+    .filter((row) => row.outstanding > 0 || row.retention > 0);
+
+  rows.forEach((row) => {
+    totals[row.bucket] += row.outstanding;
+    totalOutstanding += row.outstanding;
+    totalRetention += row.retention;
+  });
+
+  return {
+    rows,
+    totals: Object.fromEntries(
+      AGING_BUCKETS.map((bucket) => [bucket, roundMoney(totals[bucket])])
+    ) as Record<AgingBucket, number>,
+    totalOutstanding: roundMoney(totalOutstanding),
+    totalRetention: roundMoney(totalRetention),
+  };
+}
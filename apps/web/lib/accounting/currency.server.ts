@@ -0,0 +1,190 @@
+/**
+ * Multi-currency
+ *
+ * Ledger amounts (VoucherLine.debit/credit) are always in the company base currency, so
+ * every report keeps working unchanged. A foreign-currency line additionally keeps its
+ * transaction currency, the amount in that currency (fxDebit/fxCredit) and the rate it
+ * was converted at. Rates default to the latest rate in the exchange rate table on or
+ * before the voucher date.
+ */
+
+import { prisma } from '@accounting/db';
+import { ExchangeRate, Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ExchangeRateCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { toBaseAmount } from '@/lib/voucher';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Base currency of a company
+ */
+export async function getBaseCurrency(companyId: string, db: Db = prisma): Promise<string> {
+  const company = await db.company.findUnique({
+    where: { id: companyId },
+    select: { baseCurrency: true },
+  });
+  if (!company) {
+    throw new Error('Company not found');
+  }
+  return company.baseCurrency;
+}
+
+function serializeRate(rate: ExchangeRate) {
+  return { ...rate, rate: Number(rate.rate) };
+}
+
+/**
+ * List exchange rates, newest first
+ */
+export async function listExchangeRates(companyId: string, currency?: string) {
+  const rates = await prisma.exchangeRate.findMany({
+    where: { companyId, ...(currency ? { currency } : {}) },
+    orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+  });
+  return rates.map(serializeRate);
+}
+
+/**
+ * Record the rate of a currency for a date (replaces an existing rate for that date)
+ */
+export async function saveExchangeRate(
+  companyId: string,
+  userId: string,
+  data: ExchangeRateCreate,
+  request?: NextRequest
+) {
+  const baseCurrency = await getBaseCurrency(companyId);
+  if (data.currency === baseCurrency) {
+    throw new Error(`${baseCurrency} is the base currency; it has no exchange rate`);
+  }
+
+  const existing = await prisma.exchangeRate.findUnique({
+    where: { companyId_currency_date: { companyId, currency: data.currency, date: data.date } },
+  });
+  const rate = await prisma.exchangeRate.upsert({
+    where: { companyId_currency_date: { companyId, currency: data.currency, date: data.date } },
+    create: { companyId, currency: data.currency, date: data.date, rate: data.rate },
+    update: { rate: data.rate },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ExchangeRate',
+    entityId: rate.id,
+    action: existing ? 'UPDATE' : 'CREATE',
+    before: existing ? serializeRate(existing) : undefined,
+    after: serializeRate(rate),
+    request,
+  });
+
+  return serializeRate(rate);
+}
+
+/**
+ * Delete an exchange rate. Vouchers keep the rate they were converted at.
+ */
+export async function deleteExchangeRate(
+  companyId: string,
+  userId: string,
+  rateId: string,
+  request?: NextRequest
+) {
+  const existing = await prisma.exchangeRate.findFirst({ where: { id: rateId, companyId } });
+  if (!existing) {
+    throw new Error('Exchange rate not found');
+  }
+
+  await prisma.exchangeRate.delete({ where: { id: rateId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ExchangeRate',
+    entityId: rateId,
+    action: 'DELETE',
+    before: serializeRate(existing),
+    request,
+  });
+}
+
+/**
+ * Rate of a currency effective on a date: the latest rate dated on or before it.
+ * Returns null when no rate has been recorded yet.
+ */
+export async function getExchangeRate(
+  companyId: string,
+  currency: string,
+  date: Date,
+  db: Db = prisma
+): Promise<{ rate: number; date: Date } | null> {
+  const rate = await db.exchangeRate.findFirst({
+    where: { companyId, currency, date: { lte: date } },
+    orderBy: { date: 'desc' },
+  });
+  return rate ? { rate: Number(rate.rate), date: rate.date } : null;
+}
+
+/**
+ * Normalize the currency of incoming voucher lines: lines in the base currency lose their
+ * currency code and rate, and foreign lines without a rate get the rate effective on the
+ * voucher date. Throws when a foreign line has no rate and none is recorded.
+ */
+export async function resolveLineCurrencies<
+  T extends { currencyCode?: string | null; exchangeRate?: number | null },
+>(companyId: string, date: Date, lines: T[]): Promise<T[]> {
+  if (!lines.some((line) => line.currencyCode)) {
+    return lines.map((line) => ({ ...line, currencyCode: null, exchangeRate: null }));
+  }
+
+  const baseCurrency = await getBaseCurrency(companyId);
+  const lookedUp = new Map<string, number>();
+
+  const resolved: T[] = [];
+  for (const line of lines) {
+    if (!line.currencyCode || line.currencyCode === baseCurrency) {
+      resolved.push({ ...line, currencyCode: null, exchangeRate: null });
+      continue;
+    }
+    if (line.exchangeRate) {
+      resolved.push(line);
+      continue;
+    }
+    if (!lookedUp.has(line.currencyCode)) {
+      const rate = await getExchangeRate(companyId, line.currencyCode, date);
+      if (!rate) {
+        throw new Error(
+          `No ${line.currencyCode} exchange rate on or before ${date.toISOString().split('T')[0]}; enter the rate on the line`
+        );
+      }
+      lookedUp.set(line.currencyCode, rate.rate);
+    }
+    resolved.push({ ...line, exchangeRate: lookedUp.get(line.currencyCode)! });
+  }
+  return resolved;
+}
+
+/**
+ * Stored amount columns for a resolved voucher line: base-currency debit/credit plus the
+ * transaction-currency amounts for foreign lines
+ */
+export function voucherLineAmounts(line: {
+  debit: number;
+  credit: number;
+  currencyCode?: string | null;
+  exchangeRate?: number | null;
+}) {
+  if (!line.currencyCode) {
+    return { debit: line.debit, credit: line.credit };
+  }
+  return {
+    debit: toBaseAmount(line.debit, line.exchangeRate),
+    credit: toBaseAmount(line.credit, line.exchangeRate),
+    currencyCode: line.currencyCode,
+    exchangeRate: line.exchangeRate ?? null,
+    fxDebit: line.debit,
+    fxCredit: line.credit,
+  };
+}
@@ -0,0 +1,413 @@
+/**
+ * Accounting Period Helpers
+ *
+ * Month-end close for a company. A period is one calendar month and is either
+ * OPEN (default, no row needed), CLOSED (reopenable by an admin) or LOCKED
+ * (permanent). Vouchers dated inside a CLOSED or LOCKED month cannot be
+ * approved, posted or reversed into that month, nor into a closed fiscal year.
+ */
+
+import { prisma } from '@accounting/db';
+import { AccountingPeriodStatus, Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { createAuditLog } from '@/lib/audit';
+import { getTrialBalance, TrialBalanceEntry } from '@/lib/reports/statements';
+
+type Tx = Prisma.TransactionClient;
+
+export interface PeriodSnapshot {
+  asOf: string;
+  entries: TrialBalanceEntry[];
+  totalDebits: number;
+  totalCredits: number;
+}
+
+export interface PeriodChanges {
+  month: Date;
+  status: AccountingPeriodStatus;
+  /** Close the comparison is made against (this period's last close, or the previous closed month) */
+  baseline: { month: Date; closedAt: Date | null } | null;
+  accountChanges: Array<{
+    accountId: string;
+    accountCode: string;
+    accountName: string;
+    previousBalance: number;
+    currentBalance: number;
+    change: number;
+  }>;
+  vouchers: Array<{
+    id: string;
+    voucherNo: string;
+    date: Date;
+    status: string;
+    narration: string | null;
+    postedAt: Date | null;
+  }>;
+}
+
+/**
+ * First day of the month containing the date (the key periods are stored under).
+ * Uses UTC so the value round-trips through the DATE column unchanged.
+ */
+export function periodMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Last instant of the period month
+ */
+export function periodMonthEnd(month: Date): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 0, 23, 59, 59, 999));
+}
+
+/**
+ * Format a period month as YYYY-MM for display and API params
+ */
+export function formatPeriodMonth(month: Date): string {
+  return `${month.getUTCFullYear()}-${String(month.getUTCMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Returns an error message if the date falls inside a CLOSED or LOCKED period, otherwise null.
+ * Accepts a transaction client so workflow checks run inside the same transaction.
+ */
+export async function getPeriodLockError(
+  companyId: string,
+  date: Date,
+  tx: Tx | typeof prisma = prisma
+): Promise<string | null> {
+  const period = await tx.accountingPeriod.findUnique({
+    where: {
+      companyId_month: {
+        companyId,
+        month: periodMonth(date),
+      },
+    },
+    select: { status: true, month: true },
+  });
+
+  if (!period || period.status === 'OPEN') {
+    return null;
+  }
+
+  return `Accounting period ${formatPeriodMonth(periodMonth(date))} is ${period.status.toLowerCase()}. Vouchers dated in this period cannot be changed.`;
+}
+
+/**
+ * Returns an error message if the date is on or before the end of the latest active
+ * fiscal year close, otherwise null. P&L posted there would never reach retained earnings.
+ */
+async function getFiscalYearCloseError(
+  companyId: string,
+  date: Date,
+  tx: Tx | typeof prisma
+): Promise<string | null> {
+  const close = await tx.fiscalYearClose.findFirst({
+    where: { companyId, status: 'CLOSED', endDate: { gte: date } },
+    orderBy: { endDate: 'desc' },
+    select: { label: true, endDate: true },
+  });
+  if (!close) {
+    return null;
+  }
+  return `${close.label} is closed through ${close.endDate.toISOString().slice(0, 10)}. Vouchers dated in a closed fiscal year cannot be posted.`;
+}
+
+/**
+ * Returns an error message if a voucher dated on this date cannot be posted: its month
+ * is CLOSED or LOCKED, or its fiscal year has been closed. Otherwise null.
+ */
+export async function getPostingLockError(
+  companyId: string,
+  date: Date,
+  tx: Tx | typeof prisma = prisma
+): Promise<string | null> {
+  return (
+    (await getPeriodLockError(companyId, date, tx)) ??
+    (await getFiscalYearCloseError(companyId, date, tx))
+  );
+}
+
+/**
+ * List all periods that have ever been closed for a company (newest first)
+ */
+export async function listAccountingPeriods(companyId: string) {
+  return prisma.accountingPeriod.findMany({
+    where: { companyId },
+    include: {
+      closedBy: { select: { id: true, name: true } },
+      reopenedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { month: 'desc' },
+  });
+}
+
+/**
+ * Compare the current trial balance at month end with the balance captured at the last close.
+ * If this month was never closed, the latest closed month before it is used as the baseline.
+ */
+export async function getPeriodChanges(companyId: string, month: Date): Promise<PeriodChanges> {
+  const monthStart = periodMonth(month);
+  const monthEnd = periodMonthEnd(monthStart);
+
+  const period = await prisma.accountingPeriod.findUnique({
+    where: { companyId_month: { companyId, month: monthStart } },
+  });
+
+  const baselinePeriod =
+    period?.closingSnapshot
+      ? period
+      : await prisma.accountingPeriod.findFirst({
+          where: {
+            companyId,
+            month: { lt: monthStart },
+            closingSnapshot: { not: Prisma.DbNull },
+          },
+          orderBy: { month: 'desc' },
+        });
+
+  const snapshot = (baselinePeriod?.closingSnapshot ?? null) as PeriodSnapshot | null;
+  const current = await getTrialBalance(companyId, monthEnd);
+
+  const previousByAccount = new Map<string, TrialBalanceEntry>();
+  snapshot?.entries.forEach((entry) => previousByAccount.set(entry.accountId, entry));
+
+  const accountChanges: PeriodChanges['accountChanges'] = [];
+  const seen = new Set<string>();
+
+  current.entries.forEach((entry) => {
+    seen.add(entry.accountId);
+    const previousBalance = previousByAccount.get(entry.accountId)?.netBalance ?? 0;
+    const change = entry.netBalance - previousBalance;
+    if (Math.abs(change) >= 0.01) {
+      accountChanges.push({
+        accountId: entry.accountId,
+        accountCode: entry.accountCode,
+        accountName: entry.accountName,
+        previousBalance,
+        currentBalance: entry.netBalance,
+        change,
+      });
+    }
+  });
+
+  previousByAccount.forEach((entry, accountId) => {
+    if (seen.has(accountId) || Math.abs(entry.netBalance) < 0.01) return;
+    accountChanges.push({
+      accountId,
+      accountCode: entry.accountCode,
+      accountName: entry.accountName,
+      previousBalance: entry.netBalance,
+      currentBalance: 0,
+      change: -entry.netBalance,
+    });
+  });
+
+  accountChanges.sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+
+  // Vouchers behind the account changes: anything posted after the baseline close up to
+  // month end, plus (when the baseline is an earlier month) everything dated in this month
+  const postedSinceBaseline: Prisma.VoucherWhereInput | null = baselinePeriod?.closedAt
+    ? { date: { lte: monthEnd }, postedAt: { gt: baselinePeriod.closedAt } }
+    : null;
+  const datedInMonth: Prisma.VoucherWhereInput = { date: { gte: monthStart, lte: monthEnd } };
+  const voucherScope =
+    baselinePeriod && baselinePeriod.id === period?.id && postedSinceBaseline
+      ? [postedSinceBaseline]
+      : postedSinceBaseline
+        ? [datedInMonth, postedSinceBaseline]
+        : [datedInMonth];
+
+  const vouchers = await prisma.voucher.findMany({
+    where: {
+      companyId,
+      status: { in: ['POSTED', 'REVERSED'] },
+      OR: voucherScope,
+    },
+    select: {
+      id: true,
+      voucherNo: true,
+      date: true,
+      status: true,
+      narration: true,
+      postedAt: true,
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  return {
+    month: monthStart,
+    status: period?.status ?? 'OPEN',
+    baseline: baselinePeriod
+      ? { month: baselinePeriod.month, closedAt: baselinePeriod.closedAt }
+      : null,
+    accountChanges,
+    vouchers,
+  };
+}
+
+/**
+ * Close a month. Captures the trial balance as of month end so later drift can be reported.
+ */
+export async function closeAccountingPeriod(
+  companyId: string,
+  userId: string,
+  month: Date,
+  request?: NextRequest
+) {
+  const monthStart = periodMonth(month);
+  const monthEnd = periodMonthEnd(monthStart);
+
+  const existing = await prisma.accountingPeriod.findUnique({
+    where: { companyId_month: { companyId, month: monthStart } },
+  });
+
+  if (existing && existing.status !== 'OPEN') {
+    throw new Error(`Period ${formatPeriodMonth(monthStart)} is already ${existing.status.toLowerCase()}`);
+  }
+
+  // Vouchers still in the approval pipeline would be stranded once the month is closed
+  const pendingCount = await prisma.voucher.count({
+    where: {
+      companyId,
+      status: { in: ['SUBMITTED', 'APPROVED'] },
+      date: { gte: monthStart, lte: monthEnd },
+    },
+  });
+  if (pendingCount > 0) {
+    throw new Error(
+      `${pendingCount} voucher(s) dated in ${formatPeriodMonth(monthStart)} are submitted or approved but not posted. Post or reject them before closing.`
+    );
+  }
+
+  const trialBalance = await getTrialBalance(companyId, monthEnd);
+  const snapshot: PeriodSnapshot = {
+    asOf: monthEnd.toISOString(),
+    entries: trialBalance.entries,
+    totalDebits: trialBalance.totalDebits,
+    totalCredits: trialBalance.totalCredits,
+  };
+
+  const now = new Date();
+  const period = await prisma.accountingPeriod.upsert({
+    where: { companyId_month: { companyId, month: monthStart } },
+    update: {
+      status: 'CLOSED',
+      closingSnapshot: snapshot as unknown as Prisma.InputJsonValue,
+      closedAt: now,
+      closedById: userId,
+    },
+    create: {
+      companyId,
+      month: monthStart,
+      status: 'CLOSED',
+      closingSnapshot: snapshot as unknown as Prisma.InputJsonValue,
+      closedAt: now,
+      closedById: userId,
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'AccountingPeriod',
+    entityId: period.id,
+    action: 'PERIOD_CLOSE',
+    before: existing ? { status: existing.status } : { status: 'OPEN' },
+    after: { status: period.status, month: formatPeriodMonth(monthStart) },
+    metadata: {
+      totalDebits: trialBalance.totalDebits,
+      totalCredits: trialBalance.totalCredits,
+    },
+    request,
+  });
+
+  return period;
+}
+
+/**
+ * Reopen a CLOSED period. LOCKED periods cannot be reopened. A reason is mandatory and audit-logged.
+ */
+export async function reopenAccountingPeriod(
+  companyId: string,
+  userId: string,
+  periodId: string,
+  reason: string,
+  request?: NextRequest
+) {
+  const period = await prisma.accountingPeriod.findUnique({ where: { id: periodId } });
+
+  if (!period || period.companyId !== companyId) {
+    throw new Error('Accounting period not found');
+  }
+  if (period.status === 'LOCKED') {
+    throw new Error('Locked periods cannot be reopened');
+  }
+  if (period.status !== 'CLOSED') {
+    throw new Error('Only closed periods can be reopened');
+  }
+
+  const updated = await prisma.accountingPeriod.update({
+    where: { id: periodId },
+    data: {
+      status: 'OPEN',
+      reopenedAt: new Date(),
+      reopenedById: userId,
+      reopenReason: reason,
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'AccountingPeriod',
+    entityId: periodId,
+    action: 'PERIOD_REOPEN',
+    before: { status: period.status },
+    after: { status: updated.status, month: formatPeriodMonth(period.month) },
+    metadata: { reason },
+    request,
+  });
+
+  return updated;
+}
+
+/**
+ * Permanently lock a CLOSED period (e.g. after figures have been filed)
+ */
+export async function lockAccountingPeriod(
+  companyId: string,
+  userId: string,
+  periodId: string,
+  request?: NextRequest
+) {
+  const period = await prisma.accountingPeriod.findUnique({ where: { id: periodId } });
+
+  if (!period || period.companyId !== companyId) {
+    throw new Error('Accounting period not found');
+  }
+  if (period.status !== 'CLOSED') {
+    throw new Error('Only closed periods can be locked');
+  }
+
+  const updated = await prisma.accountingPeriod.update({
+    where: { id: periodId },
+    data: {
+      status: 'LOCKED',
+      lockedAt: new Date(),
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'AccountingPeriod',
+    entityId: periodId,
+    action: 'PERIOD_LOCK',
+    before: { status: period.status },
+    after: { status: updated.status, month: formatPeriodMonth(period.month) },
+    request,
+  });
+
+  return updated;
+}
@@ -0,0 +1,1070 @@
+/**
+ * Subcontracts (work orders)
+ *
+ * Part of a project's work is let to a subcontractor (a vendor) under a work order of
+ * measured items (quantity × rate). The subcontractor is paid in running bills: each
+ * bill states the cumulative quantity done to date per item and charges the increase
+ * over the previous certified bill:
+ *
+ *   gross     = cumulative − previous cumulative
+ *   retention = gross × retention %
+ *   recovery  = advances paid × gross / work order value (the final bill recovers the rest)
+ *   net       = gross − retention − recovery
+ *
+ * Advances are DRAFT PAYMENT vouchers debiting Advances to Subcontractors. Certifying a
+ * bill creates a DRAFT JOURNAL voucher for the project:
+ *
+ *   Dr Direct Labor (gross)
+ *   Cr Accounts Payable (net, against the vendor), Retention Payable, Advances to Subcontractors
+ *
+ * so the net amount is paid through the vendor's payables. Once the final bill is
+ * certified the retention held is released to Accounts Payable by another JOURNAL voucher.
+ * Only vouchers that are POSTED count towards the balances.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  SubcontractAdvanceCreate,
+  SubcontractBillCreate,
+  SubcontractCreate,
+  SubcontractRetentionRelease,
+  SubcontractUpdate,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateDraftVoucherNumber } from '@/lib/voucher';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { listReceivingAccounts } from '@/lib/accounting/clientBilling.server';
+import { billAmountsOf } from '@/lib/accounting/subcontracts';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const voucherSelect = { id: true, voucherNo: true, status: true } as const;
+
+// Vouchers that put an amount on the vendor's payables, with what has been paid against them
+const payableVoucherSelect = {
+  ...voucherSelect,
+  lines: {
+    where: { vendorId: { not: null } },
+    select: {
+      sourceAllocations: {
+        where: { paymentVoucher: { status: 'POSTED' } },
+        select: { amount: true },
+      },
+    },
+  },
+} satisfies Prisma.VoucherSelect;
+
+const subcontractInclude = Prisma.validator<Prisma.SubcontractInclude>()({
+  project: { select: { id: true, name: true } },
+  vendor: { select: { id: true, name: true, phone: true, address: true } },
+  items: { orderBy: { sortOrder: 'asc' } },
+  advances: {
+    include: { voucher: { select: voucherSelect } },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  },
+  bills: {
+    include: {
+      items: true,
+      voucher: { select: payableVoucherSelect },
+      createdBy: { select: { id: true, name: true } },
+    },
+    orderBy: { billNo: 'asc' },
+  },
+  retentionReleaseVoucher: { select: payableVoucherSelect },
+  createdBy: { select: { id: true, name: true } },
+});
+
+type SubcontractWithRelations = Prisma.SubcontractGetPayload<{
+  include: typeof subcontractInclude;
+}>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Display number of a work order
+ */
+export function formatWorkOrderNo(workOrderNo: number): string {
+  return `WO-${workOrderNo}`;
+}
+
+/**
+ * Display number of a subcontractor's running bill
+ */
+export function formatSubcontractBillNo(billNo: number): string {
+  return `RA-${billNo}`;
+}
+
+function paidAgainst(voucher: { lines: Array<{ sourceAllocations: Array<{ amount: Prisma.Decimal }> }> }) {
+  return voucher.lines.reduce(
+    (sum, line) => sum + line.sourceAllocations.reduce((s, a) => s + Number(a.amount), 0),
+    0
+  );
+}
+
+function sum<T>(rows: T[], value: (row: T) => number): number {
+  return roundMoney(rows.reduce((total, row) => total + value(row), 0));
+}
+
+// Certified bills that still count towards the work order. A bill whose voucher has been
+// reversed counts for nothing until it is cancelled.
+const liveBillWhere = {
+  status: 'CERTIFIED',
+  NOT: { voucher: { status: 'REVERSED' } },
+} satisfies Prisma.SubcontractBillWhereInput;
+
+function liveBills(subcontract: SubcontractWithRelations) {
+  return subcontract.bills.filter(
+    (bill) => bill.status === 'CERTIFIED' && bill.voucher?.status !== 'REVERSED'
+  );
+}
+
+function isReleased(subcontract: SubcontractWithRelations) {
+  return (
+    subcontract.retentionReleaseVoucher != null &&
+    subcontract.retentionReleaseVoucher.status !== 'REVERSED'
+  );
+}
+
+/**
+ * Cumulative quantities of the latest certified bill, per work order item
+ */
+function certifiedQuantities(subcontract: SubcontractWithRelations) {
+  const certified = liveBills(subcontract);
+  const latest = certified[certified.length - 1];
+  return new Map(latest ? latest.items.map((item) => [item.itemId, Number(item.quantity)]) : []);
+}
+
+/**
+ * Convert a work order to plain numbers with its billing, advance and retention balances
+ */
+function serializeSubcontract(subcontract: SubcontractWithRelations) {
+  const billed = certifiedQuantities(subcontract);
+  const certified = liveBills(subcontract);
+  const posted = certified.filter((bill) => bill.voucher?.status === 'POSTED');
+  const postedAdvances = subcontract.advances.filter((a) => a.voucher.status === 'POSTED');
+  const released = isReleased(subcontract);
+  const releasePosted = subcontract.retentionReleaseVoucher?.status === 'POSTED';
+
+  const advancePaid = sum(postedAdvances, (a) => Number(a.amount));
+  const advanceRecovered = sum(posted, (bill) => Number(bill.advanceRecovery));
+  const retentionHeld = sum(posted, (bill) => Number(bill.retentionAmount));
+  const netCertified = sum(posted, (bill) => Number(bill.netAmount));
+  const paid =
+    sum(posted, (bill) => paidAgainst(bill.voucher!)) +
+    (releasePosted ? paidAgainst(subcontract.retentionReleaseVoucher!) : 0);
+
+  return {
+    id: subcontract.id,
+    projectId: subcontract.projectId,
+    projectName: subcontract.project.name,
+    vendor: subcontract.vendor,
+    workOrderNo: subcontract.workOrderNo,
+    workOrderRef: formatWorkOrderNo(subcontract.workOrderNo),
+    title: subcontract.title,
+    orderDate: subcontract.orderDate,
+    completionDate: subcontract.completionDate,
+    contractValue: Number(subcontract.contractValue),
+    retentionPercent: Number(subcontract.retentionPercent),
+    status: subcontract.status,
+    notes: subcontract.notes,
+    createdBy: subcontract.createdBy,
+    items: subcontract.items.map((item) => {
+      const billedQuantity = billed.get(item.id) ?? 0;
+      return {
+        id: item.id,
+        description: item.description,
+        unit: item.unit,
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        amount: Number(item.amount),
+        billedQuantity,
+        billedAmount: roundMoney(billedQuantity * Number(item.rate)),
+      };
+    }),
+    advances: subcontract.advances.map((advance) => ({
+      id: advance.id,
+      date: advance.date,
+      amount: Number(advance.amount),
+      voucher: advance.voucher,
+    })),
+    bills: subcontract.bills.map((bill) => ({
+      id: bill.id,
+      billNo: bill.billNo,
+      billRef: formatSubcontractBillNo(bill.billNo),
+      billDate: bill.billDate,
+      isFinal: bill.isFinal,
+      cumulativeAmount: Number(bill.cumulativeAmount),
+      previousAmount: Number(bill.previousAmount),
+      grossAmount: Number(bill.grossAmount),
+      retentionPercent: Number(bill.retentionPercent),
+      retentionAmount: Number(bill.retentionAmount),
+      advanceRecovery: Number(bill.advanceRecovery),
+      netAmount: Number(bill.netAmount),
+      status: bill.status,
+      notes: bill.notes,
+      certifiedAt: bill.certifiedAt,
+      voucher: bill.voucher
+        ? { id: bill.voucher.id, voucherNo: bill.voucher.voucherNo, status: bill.voucher.status }
+        : null,
+      paid: bill.voucher?.status === 'POSTED' ? roundMoney(paidAgainst(bill.voucher)) : 0,
+      createdBy: bill.createdBy,
+      items: bill.items.map((item) => ({
+        itemId: item.itemId,
+        quantity: Number(item.quantity),
+        rate: Number(item.rate),
+        amount: Number(item.amount),
+      })),
+    })),
+    retentionRelease: subcontract.retentionReleaseVoucher
+      ? {
+          voucher: {
+            id: subcontract.retentionReleaseVoucher.id,
+            voucherNo: subcontract.retentionReleaseVoucher.voucherNo,
+            status: subcontract.retentionReleaseVoucher.status,
+          },
+          releasedAt: subcontract.retentionReleasedAt,
+        }
+      : null,
+    summary: {
+      certifiedToDate: certified.reduce((max, bill) => Math.max(max, Number(bill.cumulativeAmount)), 0),
+      advancePaid,
+      advanceRecovered,
+      advanceOutstanding: roundMoney(advancePaid - advanceRecovered),
+      retentionHeld: releasePosted ? 0 : retentionHeld,
+      retentionReleased: releasePosted ? retentionHeld : 0,
+      netCertified,
+      paid: roundMoney(paid),
+      payable: roundMoney(netCertified + (releasePosted ? retentionHeld : 0) - paid),
+    },
+    hasFinalBill: certified.some((bill) => bill.isFinal),
+    canReleaseRetention:
+      certified.some((bill) => bill.isFinal) && !released && retentionHeld > 0,
+  };
+}
+
+export type SubcontractView = ReturnType<typeof serializeSubcontract>;
+
+async function findProject(companyId: string, projectId: string) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  return project;
+}
+
+async function findSubcontract(db: Db, companyId: string, projectId: string, subcontractId: string) {
+  const subcontract = await db.subcontract.findFirst({
+    where: { id: subcontractId, companyId, projectId },
+    include: subcontractInclude,
+  });
+  if (!subcontract) {
+    throw new Error('Work order not found');
+  }
+  return subcontract;
+}
+
+function findBill(subcontract: SubcontractWithRelations, billId: string) {
+  const bill = subcontract.bills.find((b) => b.id === billId);
+  if (!bill) {
+    throw new Error('Bill not found');
+  }
+  return bill;
+}
+
+function itemRows(items: SubcontractCreate['items']) {
+  return items.map((item, index) => ({
+    description: item.description,
+    unit: item.unit || null,
+    quantity: item.quantity,
+    rate: item.rate,
+    amount: roundMoney(item.quantity * item.rate),
+    sortOrder: index,
+  }));
+}
+
+/**
+ * Work out a bill's amounts from its cumulative quantities against the work order's
+ * certified bills and posted advances
+ */
+async function computeBillAmounts(
+  db: Db,
+  subcontract: SubcontractWithRelations,
+  quantities: Map<string, number>,
+  isFinal: boolean,
+  excludeBillId?: string
+) {
+  const rows = subcontract.items
+    .map((item) => {
+      const quantity = quantities.get(item.id) ?? 0;
+      if (quantity > Number(item.quantity) + 0.0005) {
+        throw new Error(
+          `Quantity of "${item.description}" (${quantity}) exceeds the ordered ${Number(item.quantity)}`
+        );
+      }
+      return {
+        itemId: item.id,
+        quantity,
+        rate: Number(item.rate),
+        amount: roundMoney(quantity * Number(item.rate)),
+      };
+    })
+    .filter((row) => row.quantity > 0);
+  const cumulativeAmount = roundMoney(rows.reduce((sum, row) => sum + row.amount, 0));
+
+  const certified = await db.subcontractBill.findMany({
+    where: {
+      subcontractId: subcontract.id,
+      ...liveBillWhere,
+      ...(excludeBillId ? { id: { not: excludeBillId } } : {}),
+    },
+    select: { cumulativeAmount: true, advanceRecovery: true },
+  });
+  const advances = await db.subcontractAdvance.aggregate({
+    where: { subcontractId: subcontract.id, voucher: { status: 'POSTED' } },
+    _sum: { amount: true },
+  });
+
+  return {
+    rows,
+    amounts: billAmountsOf({
+      cumulativeAmount,
+      certified: certified.map((bill) => ({
+        cumulativeAmount: Number(bill.cumulativeAmount),
+        advanceRecovery: Number(bill.advanceRecovery),
+      })),
+      retentionPercent: Number(subcontract.retentionPercent),
+      advancePaid: Number(advances._sum.amount ?? 0),
+      contractValue: Number(subcontract.contractValue),
+      isFinal,
+    }),
+  };
+}
+
+/**
+ * Work orders of a project, newest first
+ */
+export async function listProjectSubcontracts(companyId: string, projectId: string) {
+  const project = await findProject(companyId, projectId);
+
+  const subcontracts = await prisma.subcontract.findMany({
+    where: { companyId, projectId },
+    include: subcontractInclude,
+    orderBy: { workOrderNo: 'desc' },
+  });
+  const views = subcontracts.map(serializeSubcontract);
+  const active = views.filter((view) => view.status !== 'CANCELLED');
+
+  return {
+    project,
+    summary: {
+      contractValue: roundMoney(active.reduce((sum, view) => sum + view.contractValue, 0)),
+      certifiedToDate: roundMoney(active.reduce((sum, view) => sum + view.summary.certifiedToDate, 0)),
+      advanceOutstanding: roundMoney(
+        active.reduce((sum, view) => sum + view.summary.advanceOutstanding, 0)
+      ),
+      retentionHeld: roundMoney(active.reduce((sum, view) => sum + view.summary.retentionHeld, 0)),
+      payable: roundMoney(active.reduce((sum, view) => sum + view.summary.payable, 0)),
+    },
+    subcontracts: views,
+  };
+}
+
+/**
+ * A single work order with its items, advances and bills
+ */
+export async function getSubcontract(companyId: string, projectId: string, subcontractId: string) {
+  return serializeSubcontract(await findSubcontract(prisma, companyId, projectId, subcontractId));
+}
+
+/**
+ * Work orders let to a vendor, for the subcontractor statement
+ */
+export async function getVendorSubcontracts(
+  companyId: string,
+  vendorId: string,
+  subcontractId?: string
+) {
+  const subcontracts = await prisma.subcontract.findMany({
+    where: {
+      companyId,
+      vendorId,
+      ...(subcontractId ? { id: subcontractId } : { status: { not: 'CANCELLED' } }),
+    },
+    include: subcontractInclude,
+    orderBy: [{ orderDate: 'asc' }, { workOrderNo: 'asc' }],
+  });
+  return subcontracts.map(serializeSubcontract);
+}
+
+/**
+ * Let a work order on a project to a subcontractor
+ */
+export async function createSubcontract(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  data: SubcontractCreate,
+  request?: NextRequest
+) {
+  await findProject(companyId, projectId);
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: data.vendorId, companyId },
+    select: { id: true, isActive: true },
+  });
+  if (!vendor || !vendor.isActive) {
+    throw new Error('Subcontractor not found');
+  }
+
+  const items = itemRows(data.items);
+  const subcontract = await prisma.$transaction(async (tx) => {
+    const workOrderNo = await nextDocumentNumber(tx, companyId, `WORK_ORDER:${projectId}`, async () => {
+      const last = await tx.subcontract.aggregate({ where: { projectId }, _max: { workOrderNo: true } });
+      return last._max.workOrderNo;
+    });
+    return tx.subcontract.create({
+      data: {
+        companyId,
+        projectId,
+        vendorId: data.vendorId,
+        workOrderNo,
+        title: data.title,
+        orderDate: data.orderDate,
+        completionDate: data.completionDate || null,
+        contractValue: roundMoney(items.reduce((sum, item) => sum + item.amount, 0)),
+        retentionPercent: data.retentionPercent,
+        notes: data.notes || null,
+        createdById: userId,
+        items: { create: items },
+      },
+      include: subcontractInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontract.id,
+    action: 'CREATE',
+    after: {
+      projectId,
+      vendorId: subcontract.vendorId,
+      workOrderNo: formatWorkOrderNo(subcontract.workOrderNo),
+      contractValue: Number(subcontract.contractValue),
+      retentionPercent: Number(subcontract.retentionPercent),
+    },
+    request,
+  });
+
+  return serializeSubcontract(subcontract);
+}
+
+/**
+ * Update an active work order. Its items can only change until it is first billed; a
+ * new retention percentage applies to bills not yet certified.
+ */
+export async function updateSubcontract(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  data: SubcontractUpdate,
+  request?: NextRequest
+) {
+  const existing = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  if (existing.status !== 'ACTIVE') {
+    throw new Error('Only active work orders can be edited');
+  }
+  if (data.items && existing.bills.length > 0) {
+    throw new Error('Work items cannot be changed once the work order has been billed');
+  }
+
+  const items = data.items ? itemRows(data.items) : null;
+  const subcontract = await prisma.$transaction(async (tx) => {
+    if (items) {
+      await tx.subcontractItem.deleteMany({ where: { subcontractId } });
+    }
+    return tx.subcontract.update({
+      where: { id: subcontractId },
+      data: {
+        title: data.title,
+        orderDate: data.orderDate,
+        completionDate: data.completionDate !== undefined ? data.completionDate || null : undefined,
+        retentionPercent: data.retentionPercent,
+        notes: data.notes !== undefined ? data.notes || null : undefined,
+        ...(items
+          ? {
+              contractValue: roundMoney(items.reduce((sum, item) => sum + item.amount, 0)),
+              items: { create: items },
+            }
+          : {}),
+      },
+      include: subcontractInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontract.id,
+    action: 'UPDATE',
+    before: {
+      title: existing.title,
+      contractValue: Number(existing.contractValue),
+      retentionPercent: Number(existing.retentionPercent),
+    },
+    after: {
+      title: subcontract.title,
+      contractValue: Number(subcontract.contractValue),
+      retentionPercent: Number(subcontract.retentionPercent),
+    },
+    request,
+  });
+
+  return serializeSubcontract(subcontract);
+}
+
+/**
+ * Cancel a work order that has not been billed or paid an advance
+ */
+export async function cancelSubcontract(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  request?: NextRequest
+) {
+  const existing = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  if (existing.status !== 'ACTIVE') {
+    throw new Error('Only active work orders can be cancelled');
+  }
+  if (existing.bills.some((bill) => bill.status !== 'CANCELLED')) {
+    throw new Error('Work order has bills; cancel or delete them first');
+  }
+  if (existing.advances.some((advance) => advance.voucher.status !== 'REVERSED')) {
+    throw new Error('Work order has advances; reverse or delete their vouchers first');
+  }
+
+  const subcontract = await prisma.subcontract.update({
+    where: { id: subcontractId },
+    data: { status: 'CANCELLED' },
+    include: subcontractInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontract.id,
+    action: 'STATUS_CHANGE',
+    before: { status: existing.status },
+    after: { status: subcontract.status },
+    request,
+  });
+
+  return serializeSubcontract(subcontract);
+}
+
+/**
+ * Pay an advance to the subcontractor as a DRAFT PAYMENT voucher; it is recovered from
+ * the work order's bills once posted
+ */
+export async function recordSubcontractAdvance(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  data: SubcontractAdvanceCreate,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  if (subcontract.status !== 'ACTIVE') {
+    throw new Error('Advances can only be paid on active work orders');
+  }
+
+  const paymentAccounts = await listReceivingAccounts(companyId);
+  if (!paymentAccounts.some((account) => account.id === data.accountId)) {
+    throw new Error('Payment account must be a cash or bank account');
+  }
+
+  const certifiedToDate = liveBills(subcontract).reduce(
+    (max, bill) => Math.max(max, Number(bill.cumulativeAmount)),
+    0
+  );
+  const advanced = subcontract.advances
+    .filter((advance) => advance.voucher.status !== 'REVERSED')
+    .reduce((sum, advance) => sum + Number(advance.amount), 0);
+  const unbilled = roundMoney(Number(subcontract.contractValue) - certifiedToDate);
+  if (advanced + data.amount > unbilled + 0.005) {
+    throw new Error(
+      `Advances cannot exceed the unbilled work order value (${unbilled.toFixed(2)})`
+    );
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const workOrderRef = formatWorkOrderNo(subcontract.workOrderNo);
+
+  const advance = await prisma.$transaction(async (tx) => {
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId,
+        voucherNo,
+        type: 'PAYMENT',
+        date: data.date,
+        status: 'DRAFT',
+        narration:
+          data.narration ||
+          `Advance to ${subcontract.vendor.name} against ${workOrderRef} - ${subcontract.project.name}`,
+        createdByUserId: userId,
+        lines: {
+          create: [
+            {
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.SUBCONTRACT_ADVANCES],
+              description: `${workOrderRef} advance - ${subcontract.vendor.name}`,
+              debit: data.amount,
+              credit: 0,
+              projectId,
+            },
+            {
+              companyId,
+              accountId: data.accountId,
+              description: `Advance paid against ${workOrderRef}`,
+              debit: 0,
+              credit: data.amount,
+              projectId,
+              receivedBy: subcontract.vendor.name,
+            },
+          ],
+        },
+      },
+    });
+
+    return tx.subcontractAdvance.create({
+      data: {
+        companyId,
+        subcontractId,
+        voucherId: voucher.id,
+        date: data.date,
+        amount: data.amount,
+        createdById: userId,
+      },
+      include: { voucher: { select: voucherSelect } },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'UPDATE',
+    after: { advance: advance.id, voucherNo: advance.voucher.voucherNo, amount: data.amount },
+    metadata: { operation: 'ADVANCE' },
+    request,
+  });
+
+  return {
+    id: advance.id,
+    date: advance.date,
+    amount: Number(advance.amount),
+    voucher: advance.voucher,
+  };
+}
+
+/**
+ * Create a DRAFT running bill. Items left out keep the quantity of the previous
+ * certified bill.
+ */
+export async function createSubcontractBill(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  data: SubcontractBillCreate,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  if (subcontract.status !== 'ACTIVE') {
+    throw new Error('Bills can only be raised on active work orders');
+  }
+  if (liveBills(subcontract).some((bill) => bill.isFinal)) {
+    throw new Error('The final bill of this work order has been certified');
+  }
+
+  const quantities = certifiedQuantities(subcontract);
+  for (const item of data.items) {
+    if (!subcontract.items.some((i) => i.id === item.itemId)) {
+      throw new Error('Work item not found on this work order');
+    }
+    quantities.set(item.itemId, item.quantity);
+  }
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const { rows, amounts } = await computeBillAmounts(tx, subcontract, quantities, data.isFinal);
+    const billNo = await nextDocumentNumber(tx, companyId, `SUBCONTRACT_BILL:${subcontractId}`, async () => {
+      const last = await tx.subcontractBill.aggregate({ where: { subcontractId }, _max: { billNo: true } });
+      return last._max.billNo;
+    });
+
+    return tx.subcontractBill.create({
+      data: {
+        companyId,
+        subcontractId,
+        billNo,
+        billDate: data.billDate,
+        isFinal: data.isFinal,
+        ...amounts,
+        notes: data.notes || null,
+        createdById: userId,
+        items: { create: rows },
+      },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'UPDATE',
+    after: {
+      bill: bill.id,
+      billNo: formatSubcontractBillNo(bill.billNo),
+      grossAmount: Number(bill.grossAmount),
+      netAmount: Number(bill.netAmount),
+    },
+    metadata: { operation: 'BILL_CREATE' },
+    request,
+  });
+
+  return getSubcontract(companyId, projectId, subcontractId);
+}
+
+/**
+ * Delete a DRAFT bill
+ */
+export async function deleteSubcontractBill(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  const bill = findBill(subcontract, billId);
+  if (bill.status !== 'DRAFT') {
+    throw new Error('Only draft bills can be deleted; cancel certified bills instead');
+  }
+
+  await prisma.subcontractBill.delete({ where: { id: billId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'UPDATE',
+    before: { bill: billId, billNo: formatSubcontractBillNo(bill.billNo), grossAmount: Number(bill.grossAmount) },
+    metadata: { operation: 'BILL_DELETE' },
+    request,
+  });
+}
+
+/**
+ * Certify a bill: amounts are recalculated against the latest certified bill and the
+ * posted advances, and a DRAFT JOURNAL voucher books the cost, the vendor's payable,
+ * the retention held and the advance recovered
+ */
+export async function certifySubcontractBill(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  const existing = findBill(subcontract, billId);
+  if (existing.status !== 'DRAFT') {
+    throw new Error('Only draft bills can be certified');
+  }
+  if (subcontract.status !== 'ACTIVE') {
+    throw new Error('Bills can only be certified on active work orders');
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const workOrderRef = formatWorkOrderNo(subcontract.workOrderNo);
+  const billRef = formatSubcontractBillNo(existing.billNo);
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const { amounts } = await computeBillAmounts(
+      tx,
+      subcontract,
+      new Map(existing.items.map((item) => [item.itemId, Number(item.quantity)])),
+      existing.isFinal,
+      existing.id
+    );
+
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    const description = `${workOrderRef} ${billRef} - ${subcontract.vendor.name}`;
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId,
+        voucherNo,
+        type: 'JOURNAL',
+        date: existing.billDate,
+        status: 'DRAFT',
+        narration: `${existing.isFinal ? 'Final' : 'Running'} bill ${billRef} of ${subcontract.vendor.name} on ${workOrderRef} (${subcontract.title}) - ${subcontract.project.name}`,
+        createdByUserId: userId,
+        lines: {
+          create: [
+            { code: SYSTEM_ACCOUNT_CODES.DIRECT_LABOR, debit: amounts.grossAmount, credit: 0, vendorId: null },
+            {
+              code: SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE,
+              debit: 0,
+              credit: amounts.netAmount,
+              vendorId: subcontract.vendorId,
+            },
+            { code: SYSTEM_ACCOUNT_CODES.RETENTION_PAYABLE, debit: 0, credit: amounts.retentionAmount, vendorId: null },
+            { code: SYSTEM_ACCOUNT_CODES.SUBCONTRACT_ADVANCES, debit: 0, credit: amounts.advanceRecovery, vendorId: null },
+          ]
+            .filter((line) => line.debit !== 0 || line.credit !== 0)
+            .map((line) => ({
+              companyId,
+              accountId: accountIds[line.code],
+              description,
+              debit: line.debit,
+              credit: line.credit,
+              projectId,
+              vendorId: line.vendorId,
+            })),
+        },
+      },
+    });
+
+    await tx.subcontractBill.update({
+      where: { id: billId },
+      data: {
+        ...amounts,
+        status: 'CERTIFIED',
+        certifiedAt: new Date(),
+        voucherId: voucher.id,
+      },
+    });
+    // A final bill with no retention to release completes the work order
+    if (existing.isFinal) {
+      const held = await tx.subcontractBill.aggregate({
+        where: { subcontractId, ...liveBillWhere },
+        _sum: { retentionAmount: true },
+      });
+      if (Number(held._sum.retentionAmount ?? 0) === 0) {
+        await tx.subcontract.update({ where: { id: subcontractId }, data: { status: 'COMPLETED' } });
+      }
+    }
+    return { voucherNo: voucher.voucherNo, amounts };
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'STATUS_CHANGE',
+    before: { bill: billId, status: existing.status },
+    after: {
+      status: 'CERTIFIED',
+      billNo: billRef,
+      grossAmount: bill.amounts.grossAmount,
+      netAmount: bill.amounts.netAmount,
+      voucherNo: bill.voucherNo,
+    },
+    metadata: { operation: 'BILL_CERTIFY' },
+    request,
+  });
+
+  return getSubcontract(companyId, projectId, subcontractId);
+}
+
+/**
+ * Cancel a bill. A certified bill can only be cancelled while its voucher is still a
+ * draft (the draft is deleted) or after the voucher has been reversed, only if it is
+ * the work order's latest certified bill, nothing has been paid against it and the
+ * retention has not been released.
+ */
+export async function cancelSubcontractBill(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  billId: string,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  const existing = findBill(subcontract, billId);
+  if (existing.status === 'CANCELLED') {
+    throw new Error('Bill is already cancelled');
+  }
+
+  if (existing.status === 'CERTIFIED') {
+    if (isReleased(subcontract)) {
+      throw new Error('Retention on this work order has been released; reverse the release first');
+    }
+    if (liveBills(subcontract).some((bill) => bill.billNo > existing.billNo)) {
+      throw new Error('A later bill has been certified on this work order; cancel it first');
+    }
+    if (existing.voucher && paidAgainst(existing.voucher) > 0) {
+      throw new Error('Payments have been allocated to this bill; reverse them first');
+    }
+    if (existing.voucher && !['DRAFT', 'REVERSED'].includes(existing.voucher.status)) {
+      throw new Error(
+        `Bill voucher ${existing.voucher.voucherNo} is ${existing.voucher.status}; reverse it before cancelling the bill`
+      );
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (existing.voucher?.status === 'DRAFT') {
+      await tx.voucher.delete({ where: { id: existing.voucher.id } });
+    }
+    await tx.subcontractBill.update({
+      where: { id: billId },
+      data: { status: 'CANCELLED' },
+    });
+    // Cancelling the final bill reopens a completed work order
+    if (existing.status === 'CERTIFIED' && existing.isFinal && subcontract.status === 'COMPLETED') {
+      await tx.subcontract.update({ where: { id: subcontractId }, data: { status: 'ACTIVE' } });
+    }
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'STATUS_CHANGE',
+    before: { bill: billId, status: existing.status, voucherNo: existing.voucher?.voucherNo },
+    after: { status: 'CANCELLED' },
+    metadata: { operation: 'BILL_CANCEL' },
+    request,
+  });
+
+  return getSubcontract(companyId, projectId, subcontractId);
+}
+
+/**
+ * Release the retention held on a work order once its final bill is certified: a DRAFT
+ * JOURNAL voucher moves it from Retention Payable to the vendor's payables and the
+ * work order is completed
+ */
+export async function releaseSubcontractRetention(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  subcontractId: string,
+  data: SubcontractRetentionRelease,
+  request?: NextRequest
+) {
+  const subcontract = await findSubcontract(prisma, companyId, projectId, subcontractId);
+  const certified = liveBills(subcontract);
+  if (!certified.some((bill) => bill.isFinal)) {
+    throw new Error('Retention can be released once the final bill is certified');
+  }
+  if (isReleased(subcontract)) {
+    throw new Error('Retention on this work order has already been released');
+  }
+  if (certified.some((bill) => bill.voucher?.status !== 'POSTED')) {
+    throw new Error('Post the vouchers of all certified bills before releasing retention');
+  }
+  const retention = roundMoney(
+    certified.reduce((sum, bill) => sum + Number(bill.retentionAmount), 0)
+  );
+  if (retention <= 0) {
+    throw new Error('No retention is held on this work order');
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const workOrderRef = formatWorkOrderNo(subcontract.workOrderNo);
+
+  const voucher = await prisma.$transaction(async (tx) => {
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    const description = `${workOrderRef} retention - ${subcontract.vendor.name}`;
+    const created = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId,
+        voucherNo,
+        type: 'JOURNAL',
+        date: data.date,
+        status: 'DRAFT',
+        narration:
+          data.narration ||
+          `Retention released to ${subcontract.vendor.name} on ${workOrderRef} - ${subcontract.project.name}`,
+        createdByUserId: userId,
+        lines: {
+          create: [
+            {
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.RETENTION_PAYABLE],
+              description,
+              debit: retention,
+              credit: 0,
+              projectId,
+            },
+            {
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.ACCOUNTS_PAYABLE],
+              description,
+              debit: 0,
+              credit: retention,
+              projectId,
+              vendorId: subcontract.vendorId,
+            },
+          ],
+        },
+      },
+      select: { id: true, voucherNo: true },
+    });
+
+    await tx.subcontract.update({
+      where: { id: subcontractId },
+      data: {
+        retentionReleaseVoucherId: created.id,
+        retentionReleasedAt: new Date(),
+        status: 'COMPLETED',
+      },
+    });
+    return created;
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Subcontract',
+    entityId: subcontractId,
+    action: 'STATUS_CHANGE',
+    before: { status: subcontract.status },
+    after: { status: 'COMPLETED', retention, voucherNo: voucher.voucherNo },
+    metadata: { operation: 'RETENTION_RELEASE' },
+    request,
+  });
+
+  return getSubcontract(companyId, projectId, subcontractId);
+}
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for subcontractor running bill amounts: gross over the previous bill,
+ * retention and advance recovery
+ *
+ * Run from apps/web with: npx tsx lib/accounting/subcontracts.test.ts
+ */
+
+import { billAmountsOf } from './subcontracts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+const workOrder = { retentionPercent: 5, advancePaid: 100000, contractValue: 1000000 };
+
+function testFirstBill() {
+  console.log('Test: first bill charges its cumulative value less retention and a share of the advance');
+  const amounts = billAmountsOf({ ...workOrder, cumulativeAmount: 200000, certified: [], isFinal: false });
+  assert(amounts.previousAmount === 0 && amounts.grossAmount === 200000, 'gross is the whole cumulative value');
+  assert(amounts.retentionAmount === 10000, `5% retention, got ${amounts.retentionAmount}`);
+  assert(amounts.advanceRecovery === 20000, `100000 x 200000 / 1000000, got ${amounts.advanceRecovery}`);
+  assert(amounts.netAmount === 170000, `net 170000, got ${amounts.netAmount}`);
+  console.log('  PASS');
+}
+
+function testRunningBill() {
+  console.log('Test: a later bill charges the increase over the highest certified bill');
+  const certified = [
+    { cumulativeAmount: 200000, advanceRecovery: 20000 },
+    { cumulativeAmount: 450000, advanceRecovery: 25000 },
+  ];
+  const amounts = billAmountsOf({ ...workOrder, cumulativeAmount: 600000, certified, isFinal: false });
+  assert(amounts.previousAmount === 450000, `previous is the highest cumulative, got ${amounts.previousAmount}`);
+  assert(amounts.grossAmount === 150000, `gross 150000, got ${amounts.grossAmount}`);
+  assert(amounts.advanceRecovery === 15000, `proportional recovery 15000, got ${amounts.advanceRecovery}`);
+  assert(amounts.netAmount === 127500, `net 150000 - 7500 - 15000, got ${amounts.netAmount}`);
+
+  let error = '';
+  try {
+    billAmountsOf({ ...workOrder, cumulativeAmount: 450000, certified, isFinal: false });
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  assert(error === 'Cumulative value (450000.00) must exceed the previous bill (450000.00)', `got "${error}"`);
+  console.log('  PASS');
+}
+
+function testFinalBill() {
+  console.log('Test: the final bill recovers whatever advance is left');
+  const certified = [{ cumulativeAmount: 900000, advanceRecovery: 70000 }];
+  const amounts = billAmountsOf({ ...workOrder, cumulativeAmount: 1000000, certified, isFinal: true });
+  assert(amounts.advanceRecovery === 30000, `rest of the advance, got ${amounts.advanceRecovery}`);
+  assert(amounts.netAmount === 65000, `net 100000 - 5000 - 30000, got ${amounts.netAmount}`);
+  console.log('  PASS');
+}
+
+function testRecoveryCaps() {
+  console.log('Test: recovery never exceeds what is outstanding or what the bill pays');
+  const recovered = billAmountsOf({
+    ...workOrder,
+    cumulativeAmount: 500000,
+    certified: [{ cumulativeAmount: 300000, advanceRecovery: 95000 }],
+    isFinal: false,
+  });
+  assert(recovered.advanceRecovery === 5000, `only 5000 outstanding, got ${recovered.advanceRecovery}`);
+
+  const small = billAmountsOf({
+    retentionPercent: 10,
+    advancePaid: 500000,
+    contractValue: 600000,
+    cumulativeAmount: 100000,
+    certified: [],
+    isFinal: true,
+  });
+  assert(small.advanceRecovery === 90000, `capped at gross less retention, got ${small.advanceRecovery}`);
+  assert(small.netAmount === 0, `nothing left to pay, got ${small.netAmount}`);
+
+  const noValue = billAmountsOf({ ...workOrder, contractValue: 0, cumulativeAmount: 50000, certified: [], isFinal: false });
+  assert(noValue.advanceRecovery === 47500, `no contract value recovers up to the bill, got ${noValue.advanceRecovery}`);
+  console.log('  PASS');
+}
+
+function runTests() {
+  console.log('Running subcontract bill tests...\n');
+  testFirstBill();
+  testRunningBill();
+  testFinalBill();
+  testRecoveryCaps();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests();
+}
@@ -0,0 +1,51 @@
+/**
+ * Running bill arithmetic shared by subcontract billing and its tests
+ */
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Amounts of a running bill from its cumulative value, the work order's certified bills
+ * and the advances paid against it
+ */
+export function billAmountsOf(params: {
+  cumulativeAmount: number;
+  certified: Array<{ cumulativeAmount: number; advanceRecovery: number }>;
+  retentionPercent: number;
+  advancePaid: number;
+  contractValue: number;
+  isFinal: boolean;
+}) {
+  const { cumulativeAmount, certified, retentionPercent, advancePaid, contractValue, isFinal } = params;
+  const previousAmount = certified.reduce((max, bill) => Math.max(max, bill.cumulativeAmount), 0);
+
+  const grossAmount = roundMoney(cumulativeAmount - previousAmount);
+  if (grossAmount <= 0) {
+    throw new Error(
+      `Cumulative value (${cumulativeAmount.toFixed(2)}) must exceed the previous bill (${previousAmount.toFixed(2)})`
+    );
+  }
+
+  const retentionAmount = roundMoney((grossAmount * retentionPercent) / 100);
+
+  const recovered = certified.reduce((sum, bill) => sum + bill.advanceRecovery, 0);
+  const outstanding = roundMoney(Math.max(advancePaid - recovered, 0));
+  const proportional =
+    contractValue > 0 ? roundMoney((advancePaid * grossAmount) / contractValue) : outstanding;
+  const advanceRecovery = Math.max(
+    Math.min(isFinal ? outstanding : proportional, outstanding, roundMoney(grossAmount - retentionAmount)),
+    0
+  );
+
+  return {
+    cumulativeAmount,
+    previousAmount,
+    grossAmount,
+    retentionPercent,
+    retentionAmount,
+    advanceRecovery,
+    netAmount: roundMoney(grossAmount - retentionAmount - advanceRecovery),
+  };
+}
@@ -0,0 +1,340 @@
+/**
+ * Withholding Tax (VAT/AIT deducted at source)
+ *
+ * Supplier payments are split into the net paid to the vendor and the VAT and AIT
+ * withheld, which are credited to the VAT/AIT payable accounts until deposited with the
+ * treasury. The default rates of a vendor come from a rate configured for that vendor,
+ * otherwise from the rate for the vendor's service type.
+ *
+ * Each deduction is stored against the payment voucher (and the bill it settles) so the
+ * monthly return can list it with its treasury challan once deposited.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, WithholdingServiceType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  WithholdingChallan,
+  WithholdingTaxRateCreate,
+  WithholdingTaxRateUpdate,
+  WithholdingTaxType,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+
+const rateInclude = Prisma.validator<Prisma.WithholdingTaxRateInclude>()({
+  vendor: { select: { id: true, name: true } },
+});
+
+function serializeRate(rate: Prisma.WithholdingTaxRateGetPayload<{ include: typeof rateInclude }>) {
+  return {
+    ...rate,
+    vatPercent: Number(rate.vatPercent),
+    aitPercent: Number(rate.aitPercent),
+  };
+}
+
+/**
+ * List configured withholding rates (service type rates first, then vendor rates)
+ */
+export async function listWithholdingRates(companyId: string) {
+  const rates = await prisma.withholdingTaxRate.findMany({
+    where: { companyId },
+    include: rateInclude,
+    orderBy: [{ vendorId: { sort: 'asc', nulls: 'first' } }, { serviceType: 'asc' }, { name: 'asc' }],
+  });
+  return rates.map(serializeRate);
+}
+
+/**
+ * Only one active rate may exist per service type and per vendor
+ */
+async function assertNoActiveDuplicate(
+  companyId: string,
+  target: { serviceType?: WithholdingServiceType | null; vendorId?: string | null },
+  excludeId?: string
+) {
+  const duplicate = await prisma.withholdingTaxRate.findFirst({
+    where: {
+      companyId,
+      isActive: true,
+      ...(target.vendorId
+        ? { vendorId: target.vendorId }
+        : { serviceType: target.serviceType ?? null, vendorId: null }),
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+  });
+  if (duplicate) {
+    throw new Error(`An active rate already exists (${duplicate.name}); deactivate it first`);
+  }
+}
+
+/**
+ * Create a withholding rate for a service type or a vendor
+ */
+export async function createWithholdingRate(
+  companyId: string,
+  userId: string,
+  data: WithholdingTaxRateCreate,
+  request?: NextRequest
+) {
+  if (data.vendorId) {
+    const vendor = await prisma.vendor.findFirst({ where: { id: data.vendorId, companyId } });
+    if (!vendor) {
+      throw new Error('Vendor not found');
+    }
+  }
+  if (data.isActive) {
+    await assertNoActiveDuplicate(companyId, data);
+  }
+
+  const rate = await prisma.withholdingTaxRate.create({
+    data: {
+      companyId,
+      name: data.name,
+      serviceType: data.vendorId ? null : data.serviceType,
+      vendorId: data.vendorId || null,
+      vatPercent: data.vatPercent,
+      aitPercent: data.aitPercent,
+      isActive: data.isActive,
+    },
+    include: rateInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'WithholdingTaxRate',
+    entityId: rate.id,
+    action: 'CREATE',
+    after: serializeRate(rate),
+    request,
+  });
+
+  return serializeRate(rate);
+}
+
+/**
+ * Update the name, percentages or active flag of a rate
+ */
+export async function updateWithholdingRate(
+  companyId: string,
+  userId: string,
+  rateId: string,
+  data: WithholdingTaxRateUpdate,
+  request?: NextRequest
+) {
+  const existing = await prisma.withholdingTaxRate.findFirst({
+    where: { id: rateId, companyId },
+    include: rateInclude,
+  });
+  if (!existing) {
+    throw new Error('Withholding rate not found');
+  }
+  if (data.isActive && !existing.isActive) {
+    await assertNoActiveDuplicate(companyId, existing, existing.id);
+  }
+
+  const rate = await prisma.withholdingTaxRate.update({
+    where: { id: rateId },
+    data: {
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.vatPercent !== undefined ? { vatPercent: data.vatPercent } : {}),
+      ...(data.aitPercent !== undefined ? { aitPercent: data.aitPercent } : {}),
+      ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+    },
+    include: rateInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'WithholdingTaxRate',
+    entityId: rate.id,
+    action: 'UPDATE',
+    before: serializeRate(existing),
+    after: serializeRate(rate),
+    request,
+  });
+
+  return serializeRate(rate);
+}
+
+/**
+ * Delete a rate. Recorded deductions keep the percentage they were made at.
+ */
+export async function deleteWithholdingRate(
+  companyId: string,
+  userId: string,
+  rateId: string,
+  request?: NextRequest
+) {
+  const existing = await prisma.withholdingTaxRate.findFirst({
+    where: { id: rateId, companyId },
+    include: rateInclude,
+  });
+  if (!existing) {
+    throw new Error('Withholding rate not found');
+  }
+
+  await prisma.withholdingTaxRate.delete({ where: { id: rateId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'WithholdingTaxRate',
+    entityId: rateId,
+    action: 'DELETE',
+    before: serializeRate(existing),
+    request,
+  });
+}
+
+/**
+ * Default VAT/AIT rates for a vendor: its own rate, else the rate for its service type.
+ * Returns zero rates when nothing is configured.
+ */
+export async function resolveWithholdingRate(companyId: string, vendorId: string) {
+  const vendor = await prisma.vendor.findFirst({
+    where: { id: vendorId, companyId },
+    select: { id: true, serviceType: true },
+  });
+  if (!vendor) {
+    throw new Error('Vendor not found');
+  }
+
+  const rates = await prisma.withholdingTaxRate.findMany({
+    where: {
+      companyId,
+      isActive: true,
+      OR: [
+        { vendorId: vendor.id },
+        ...(vendor.serviceType ? [{ serviceType: vendor.serviceType, vendorId: null }] : []),
+      ],
+    },
+  });
+  const rate = rates.find((r) => r.vendorId === vendor.id) ?? rates[0] ?? null;
+
+  return {
+    rateId: rate?.id ?? null,
+    name: rate?.name ?? null,
+    serviceType: vendor.serviceType,
+    vatPercent: rate ? Number(rate.vatPercent) : 0,
+    aitPercent: rate ? Number(rate.aitPercent) : 0,
+  };
+}
+
+/**
+ * Ids of the VAT and AIT payable accounts
+ */
+export async function getWithholdingAccountIds(companyId: string) {
+  const accountIds = await ensureSystemAccounts(companyId);
+  return {
+    vatPayableAccountId: accountIds[SYSTEM_ACCOUNT_CODES.VAT_PAYABLE],
+    aitPayableAccountId: accountIds[SYSTEM_ACCOUNT_CODES.AIT_PAYABLE],
+  };
+}
+
+/**
+ * Record the treasury challan for deposited deductions
+ */
+export async function recordWithholdingChallan(
+  companyId: string,
+  userId: string,
+  data: WithholdingChallan,
+  request?: NextRequest
+) {
+  const deductions = await prisma.withholdingDeduction.findMany({
+    where: { id: { in: data.deductionIds }, companyId },
+    include: { voucher: { select: { status: true, voucherNo: true } } },
+  });
+  if (deductions.length !== data.deductionIds.length) {
+    throw new Error('One or more deductions not found');
+  }
+  const unposted = deductions.find((d) => d.voucher.status !== 'POSTED');
+  if (unposted) {
+    throw new Error(`Payment voucher ${unposted.voucher.voucherNo} is not posted`);
+  }
+
+  const result = await prisma.withholdingDeduction.updateMany({
+    where: { id: { in: data.deductionIds }, companyId },
+    data: { challanNo: data.challanNo, challanDate: data.challanDate },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'WithholdingDeduction',
+    entityId: data.deductionIds.join(','),
+    action: 'UPDATE',
+    before: deductions.map((d) => ({ id: d.id, challanNo: d.challanNo })),
+    after: { challanNo: data.challanNo, challanDate: data.challanDate.toISOString() },
+    request,
+  });
+
+  return result.count;
+}
+
+/**
+ * Monthly withholding return: every VAT/AIT deduction on posted payment vouchers dated
+ * in the month, with vendor identification, bill and challan reference
+ */
+export async function getWithholdingReturn(
+  companyId: string,
+  from: Date,
+  to: Date,
+  taxType?: WithholdingTaxType
+) {
+  const deductions = await prisma.withholdingDeduction.findMany({
+    where: {
+      companyId,
+      ...(taxType ? { taxType } : {}),
+      voucher: { status: 'POSTED', date: { gte: from, lte: to } },
+    },
+    include: {
+      vendor: { select: { id: true, name: true, tin: true, bin: true, address: true } },
+      voucher: { select: { id: true, voucherNo: true, date: true } },
+    },
+    orderBy: [{ voucher: { date: 'asc' } }, { voucher: { voucherNo: 'asc' } }, { taxType: 'asc' }],
+  });
+
+  const rows = deductions.map((d) => ({
+    id: d.id,
+    date: d.voucher.date,
+    voucherId: d.voucher.id,
+    voucherNo: d.voucher.voucherNo,
+    vendorId: d.vendor.id,
+    vendorName: d.vendor.name,
+    vendorTin: d.vendor.tin,
+    vendorBin: d.vendor.bin,
+    vendorAddress: d.vendor.address,
+    billRef: d.billRef,
+    taxType: d.taxType,
+    baseAmount: Number(d.baseAmount),
+    ratePercent: Number(d.ratePercent),
+    amount: Number(d.amount),
+    challanNo: d.challanNo,
+    challanDate: d.challanDate,
+  }));
+
+  const totals = { VAT: 0, AIT: 0, deposited: 0, pending: 0 };
+  rows.forEach((row) => {
+    totals[row.taxType] += row.amount;
+    if (row.challanNo) {
+      totals.deposited += row.amount;
+    } else {
+      totals.pending += row.amount;
+    }
+  });
+
+  return {
+    rows,
+    totals: {
+      VAT: Math.round(totals.VAT * 100) / 100,
+      AIT: Math.round(totals.AIT * 100) / 100,
+      deposited: Math.round(totals.deposited * 100) / 100,
+      pending: Math.round(totals.pending * 100) / 100,
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for splitting a supplier payment into VAT, AIT and the net paid
+ *
+ * Run from apps/web with: npx tsx lib/accounting/withholdingTax.test.ts
+ */
+
+import { splitWithholding } from './withholdingTax';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+function testPlainSplit() {
+  console.log('Test: VAT and AIT are taken from the gross amount');
+  const split = splitWithholding(100000, { vatPercent: 7.5, aitPercent: 5 });
+  assert(split.vatAmount === 7500, `VAT 7500, got ${split.vatAmount}`);
+  assert(split.aitAmount === 5000, `AIT 5000, got ${split.aitAmount}`);
+  assert(split.netAmount === 87500, `net 87500, got ${split.netAmount}`);
+  console.log('  PASS');
+}
+
+function testRounding() {
+  console.log('Test: amounts are rounded to cents and always add back to the gross');
+  const gross = 3333.33;
+  const split = splitWithholding(gross, { vatPercent: 7.5, aitPercent: 2.5 });
+  assert(split.vatAmount === 250, `VAT 250.00, got ${split.vatAmount}`);
+  assert(split.aitAmount === 83.33, `AIT 83.33, got ${split.aitAmount}`);
+  const total = Math.round((split.vatAmount + split.aitAmount + split.netAmount) * 100) / 100;
+  assert(total === gross, `parts add back to ${gross}, got ${total}`);
+  console.log('  PASS');
+}
+
+function testNoWithholding() {
+  console.log('Test: zero rates leave the payment untouched');
+  const split = splitWithholding(4200.5, { vatPercent: 0, aitPercent: 0 });
+  assert(split.vatAmount === 0 && split.aitAmount === 0, 'nothing withheld');
+  assert(split.netAmount === 4200.5, `net equals gross, got ${split.netAmount}`);
+  console.log('  PASS');
+}
+
+function runTests() {
+  console.log('Running withholding tax tests...\n');
+  testPlainSplit();
+  testRounding();
+  testNoWithholding();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests();
+}
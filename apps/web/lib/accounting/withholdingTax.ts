@@ -0,0 +1,40 @@
+/**
+ * Withholding tax helpers shared by server code and client components
+ */
+
+export type WithholdingServiceTypeValue =
+  | 'SUPPLY'
+  | 'CONSTRUCTION'
+  | 'SERVICE'
+  | 'RENT'
+  | 'TRANSPORT'
+  | 'OTHER';
+
+export const WITHHOLDING_SERVICE_TYPE_LABELS: Record<WithholdingServiceTypeValue, string> = {
+  SUPPLY: 'Supply of goods',
+  CONSTRUCTION: 'Construction / contractor',
+  SERVICE: 'Professional / other services',
+  RENT: 'House / equipment rent',
+  TRANSPORT: 'Transport',
+  OTHER: 'Other',
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Split a gross supplier payment into VAT, AIT and the net paid to the vendor
+ */
+export function splitWithholding(
+  grossAmount: number,
+  rates: { vatPercent: number; aitPercent: number }
+) {
+  const vatAmount = roundMoney((grossAmount * rates.vatPercent) / 100);
+  const aitAmount = roundMoney((grossAmount * rates.aitPercent) / 100);
+  return {
+    vatAmount,
+    aitAmount,
+    netAmount: roundMoney(grossAmount - vatAmount - aitAmount),
+  };
+}
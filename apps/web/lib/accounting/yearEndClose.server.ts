@@ -0,0 +1,335 @@
+/**
+ * Fiscal Year-End Close
+ *
+ * Closes a fiscal year by posting a JOURNAL voucher that zeroes every INCOME and
+ * EXPENSE account into Retained Earnings (3030). The voucher is flagged as a
+ * closing entry so P&L reports ignore it, and is linked to a FiscalYearClose row
+ * so it can be traced back to the year. A close is undone by reversing its voucher.
+ */
+
+import { prisma } from '@accounting/db';
+import { AccountType, Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { createAuditLog } from '@/lib/audit';
+import { generateVoucherNumber } from '@/lib/voucher';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { getPeriodLockError } from '@/lib/accounting/periods.server';
+import { decimalToNumber } from '@/lib/reports/helpers';
+import { getProfitAndLoss } from '@/lib/reports/statements';
+
+type Tx = Prisma.TransactionClient;
+
+export interface YearEndClosePreview {
+  startDate: Date;
+  endDate: Date;
+  /** One entry per INCOME/EXPENSE account with an unclosed balance at year end */
+  lines: Array<{
+    accountId: string;
+    accountCode: string;
+    accountName: string;
+    type: AccountType;
+    balance: number; // debit - credit before closing
+    debit: number; // closing entry debit
+    credit: number; // closing entry credit
+  }>;
+  totalIncome: number;
+  totalExpenses: number;
+  netProfit: number;
+  /** Net profit of the fiscal year itself, for comparison with the unclosed total */
+  fiscalYearNetProfit: number;
+  previousClose: { label: string; endDate: Date } | null;
+  errors: string[];
+}
+
+/**
+ * Normalise a fiscal year end date to the last instant of that (UTC) day,
+ * so vouchers dated on the last day are included in the close.
+ */
+export function fiscalYearEndOfDay(date: Date): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 23, 59, 59, 999)
+  );
+}
+
+/**
+ * List fiscal year closes for a company (newest first)
+ */
+export async function listFiscalYearCloses(companyId: string) {
+  return prisma.fiscalYearClose.findMany({
+    where: { companyId },
+    include: {
+      voucher: { select: { id: true, voucherNo: true, status: true } },
+      createdBy: { select: { id: true, name: true } },
+    },
+    orderBy: { endDate: 'desc' },
+  });
+}
+
+/**
+ * Build the closing entry for a fiscal year without posting anything.
+ * Balances are cumulative up to year end, so anything left open by an earlier
+ * (or missing) close is swept into retained earnings as well.
+ */
+export async function previewYearEndClose(
+  companyId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<YearEndClosePreview> {
+  const yearEnd = fiscalYearEndOfDay(endDate);
+  const errors: string[] = [];
+
+  const previousClose = await prisma.fiscalYearClose.findFirst({
+    where: { companyId, status: 'CLOSED' },
+    orderBy: { endDate: 'desc' },
+    select: { label: true, endDate: true },
+  });
+
+  if (previousClose && previousClose.endDate >= yearEnd) {
+    errors.push(
+      `${previousClose.label} is already closed through ${previousClose.endDate.toISOString().slice(0, 10)}. Reverse that close first to close an earlier year.`
+    );
+  }
+
+  const periodError = await getPeriodLockError(companyId, yearEnd);
+  if (periodError) {
+    errors.push(periodError);
+  }
+
+  const pendingCount = await prisma.voucher.count({
+    where: {
+      companyId,
+      status: { in: ['SUBMITTED', 'APPROVED'] },
+      date: { gte: startDate, lte: yearEnd },
+    },
+  });
+  if (pendingCount > 0) {
+    errors.push(
+      `${pendingCount} voucher(s) in this fiscal year are submitted or approved but not posted. Post or reject them before closing.`
+    );
+  }
+
+  const accounts = await prisma.account.findMany({
+    where: {
+      companyId,
+      type: { in: ['INCOME', 'EXPENSE'] },
+    },
+    select: { id: true, code: true, name: true, type: true },
+    orderBy: { code: 'asc' },
+  });
+
+  const balances = await prisma.voucherLine.groupBy({
+    by: ['accountId'],
+    where: {
+      companyId,
+      account: { type: { in: ['INCOME', 'EXPENSE'] } },
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: yearEnd },
+      },
+    },
+    _sum: { debit: true, credit: true },
+  });
+
+  const balanceByAccount = new Map<string, number>();
+  balances.forEach((row) => {
+    balanceByAccount.set(
+      row.accountId,
+      decimalToNumber(row._sum.debit) - decimalToNumber(row._sum.credit)
+    );
+  });
+
+  const lines: YearEndClosePreview['lines'] = [];
+  let totalIncome = 0;
+  let totalExpenses = 0;
+
+  accounts.forEach((account) => {
+    const balance = Math.round((balanceByAccount.get(account.id) ?? 0) * 100) / 100;
+    if (balance === 0) return;
+
+    if (account.type === 'INCOME') {
+      totalIncome -= balance;
+    } else {
+      totalExpenses += balance;
+    }
+
+    lines.push({
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      type: account.type,
+      balance,
+      // Post the opposite side so the account ends at zero
+      debit: balance < 0 ? -balance : 0,
+      credit: balance > 0 ? balance : 0,
+    });
+  });
+
+  if (lines.length === 0) {
+    errors.push('There are no income or expense balances to close');
+  }
+
+  const fiscalYear = await getProfitAndLoss(companyId, startDate, yearEnd);
+
+  return {
+    startDate,
+    endDate: yearEnd,
+    lines,
+    totalIncome,
+    totalExpenses,
+    netProfit: totalIncome - totalExpenses,
+    fiscalYearNetProfit: fiscalYear.netProfit,
+    previousClose,
+    errors,
+  };
+}
+
+/**
+ * Close a fiscal year: posts the closing JOURNAL voucher dated on the last day of
+ * the year and records the FiscalYearClose that links the voucher to the year.
+ */
+export async function closeFiscalYear(
+  companyId: string,
+  userId: string,
+  data: { label: string; startDate: Date; endDate: Date },
+  request?: NextRequest
+) {
+  const preview = await previewYearEndClose(companyId, data.startDate, data.endDate);
+  if (preview.errors.length > 0) {
+    throw new Error(preview.errors[0]);
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const retainedEarningsAccountId = accountIds[SYSTEM_ACCOUNT_CODES.RETAINED_EARNINGS];
+
+  const netProfit = Math.round(preview.netProfit * 100) / 100;
+
+  const fiscalYearClose = await prisma.$transaction(async (tx) => {
+    // Hold the company row until commit so two closes cannot run side by side, then
+    // check again for a close made since the preview
+    await tx.company.update({ where: { id: companyId }, data: { updatedAt: new Date() } });
+    const existing = await tx.fiscalYearClose.findFirst({
+      where: { companyId, status: 'CLOSED', endDate: { gte: preview.endDate } },
+      orderBy: { endDate: 'desc' },
+      select: { label: true, endDate: true },
+    });
+    if (existing) {
+      throw new Error(
+        `${existing.label} is already closed through ${existing.endDate.toISOString().slice(0, 10)}`
+      );
+    }
+
+    const voucherNo = await generateVoucherNumber(tx, companyId, {
+      date: preview.endDate,
+      type: 'JOURNAL',
+    });
+
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        voucherNo,
+        type: 'JOURNAL',
+        date: preview.endDate,
+        status: 'POSTED',
+        narration: `Year-end closing entry for ${data.label}`,
+        isClosingEntry: true,
+        createdByUserId: userId,
+        postedByUserId: userId,
+        postedAt: new Date(),
+        lines: {
+          create: [
+            ...preview.lines.map((line) => ({
+              companyId,
+              accountId: line.accountId,
+              description: `Close ${line.accountCode} ${line.accountName} to retained earnings`,
+              debit: line.debit,
+              credit: line.credit,
+            })),
+            // Profit is credited to retained earnings, a loss is debited
+            {
+              companyId,
+              accountId: retainedEarningsAccountId,
+              description: `${netProfit >= 0 ? 'Net profit' : 'Net loss'} for ${data.label}`,
+              debit: netProfit < 0 ? -netProfit : 0,
+              credit: netProfit > 0 ? netProfit : 0,
+            },
+          ].filter((line) => line.debit !== 0 || line.credit !== 0),
+        },
+      },
+    });
+
+    return tx.fiscalYearClose.create({
+      data: {
+        companyId,
+        label: data.label,
+        startDate: data.startDate,
+        endDate: preview.endDate,
+        voucherId: voucher.id,
+        netProfit,
+        createdById: userId,
+      },
+      include: {
+        voucher: { select: { id: true, voucherNo: true, status: true } },
+      },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'FiscalYearClose',
+    entityId: fiscalYearClose.id,
+    action: 'YEAR_END_CLOSE',
+    before: null,
+    after: {
+      label: fiscalYearClose.label,
+      endDate: fiscalYearClose.endDate.toISOString(),
+      voucherNo: fiscalYearClose.voucher.voucherNo,
+      netProfit,
+    },
+    metadata: {
+      accountsClosed: preview.lines.length,
+      totalIncome: preview.totalIncome,
+      totalExpenses: preview.totalExpenses,
+    },
+    request,
+  });
+
+  return fiscalYearClose;
+}
+
+/**
+ * Called from the voucher reversal workflow. If the voucher is a year-end closing
+ * entry, only the most recent active close may be undone (later years were closed
+ * on top of it), and the close is marked REVERSED.
+ * Returns an error message when the reversal must be refused.
+ */
+export async function reverseFiscalYearCloseForVoucher(
+  tx: Tx,
+  companyId: string,
+  voucherId: string
+): Promise<string | null> {
+  const close = await tx.fiscalYearClose.findUnique({ where: { voucherId } });
+  if (!close || close.companyId !== companyId || close.status !== 'CLOSED') {
+    return null;
+  }
+
+  const laterClose = await tx.fiscalYearClose.findFirst({
+    where: {
+      companyId,
+      status: 'CLOSED',
+      endDate: { gt: close.endDate },
+    },
+    select: { label: true },
+  });
+  if (laterClose) {
+    return `${laterClose.label} was closed after ${close.label}. Reverse the later close first.`;
+  }
+
+  await tx.fiscalYearClose.update({
+    where: { id: close.id },
+    data: { status: 'REVERSED', reversedAt: new Date() },
+  });
+
+  return null;
+}
@@ -1,8 +1,8 @@
 import { NextRequest } from 'next/server';
 import { prisma } from '@accounting/db';
 
-export type EntityType = 'ACCOUNT' | 'VOUCHER' | 'VOUCHER_LINE' | 'User' | 'Credit' | 'ProjectInvestment' | 'ProjectLabor' | 'Purchase' | 'StockItem' | 'StockMovement';
-export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'POST' | 'STATUS_CHANGE' | 'REVERSE' | 'USER_ACTIVATE' | 'USER_DEACTIVATE' | 'USER_RESET_PASSWORD' | 'LOGIN' | 'LOGIN_SUCCESS' | 'LOGIN_FAILURE';
+export type EntityType = 'ACCOUNT' | 'VOUCHER' | 'VOUCHER_LINE' | 'User' | 'Credit' | 'ProjectInvestment' | 'ProjectLabor' | 'Purchase' | 'StockItem' | 'StockMovement' | 'AccountingPeriod' | 'FiscalYearClose' | 'RecurringVoucherTemplate' | 'BankStatement' | 'Cheque' | 'ClientBill' | 'WithholdingTaxRate' | 'WithholdingDeduction' | 'ExchangeRate' | 'StockTransfer' | 'StockLocation' | 'MaterialRequisition' | 'PurchaseOrder' | 'GoodsReceipt' | 'StockTake' | 'UnitOfMeasure' | 'ProjectMaterialEstimate' | 'Worker' | 'LaborAttendance' | 'WagePayment' | 'Subcontract' | 'SalaryStructure' | 'StaffAdvance' | 'PayrollRun';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'POST' | 'STATUS_CHANGE' | 'REVERSE' | 'USER_ACTIVATE' | 'USER_DEACTIVATE' | 'USER_RESET_PASSWORD' | 'LOGIN' | 'LOGIN_SUCCESS' | 'LOGIN_FAILURE' | 'PERIOD_CLOSE' | 'PERIOD_REOPEN' | 'PERIOD_LOCK' | 'YEAR_END_CLOSE' | 'RECURRING_SKIP';
 
 interface CreateAuditLogParams {
   companyId?: string;
@@ -7,6 +7,7 @@
 import { prisma } from '@accounting/db';
 import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
 import { getProjectTotalCredit } from '@/lib/credits/creditTotals.server';
+import { netStockValue } from '@/lib/stock/projectStock.server';
 
 export interface CompanySummaryOptions {
   dateFrom?: Date;
@@ -121,15 +122,13 @@ export async function getCompanySummary(
           const movements = await prisma.stockMovement.findMany({
             where: {
               companyId,
-              type: 'IN',
+              OR: [{ type: 'IN' }, { movementKind: 'TRANSFER_OUT' }],
               unitCost: { not: null },
             },
-            select: { qty: true, unitCost: true },
+            select: { type: true, movementKind: true, qty: true, unitCost: true },
           });
-          return movements.reduce((sum, m) => {
-            if (m.unitCost) return sum + m.qty.toNumber() * m.unitCost.toNumber();
-            return sum;
-          }, 0);
+          // Transfers between projects are received as IN movements; net them out
+          return netStockValue(movements);
         } catch {
           return 0;
         }
@@ -0,0 +1,44 @@
+/**
+ * Document numbers
+ *
+ * Purchase orders, goods receipts, stock transfers, requisitions, stock-takes, work
+ * orders and bills are numbered 1, 2, 3... within a scope: the company, or a project or
+ * work order for documents numbered per project. Each scope has a counter row that is
+ * incremented in the transaction creating the document, so two documents created at
+ * once never take the same number.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * Increment the counter of a scope and return the new last number. The row is locked
+ * until the calling transaction ends; a rolled-back document gives its number back.
+ * lastIssued is asked for the highest number already in use the first time a scope is
+ * used, so numbering continues after documents created before the counter existed.
+ */
+export async function nextDocumentNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  scope: string,
+  lastIssued: () => Promise<number | null>
+): Promise<number> {
+  const existing = await tx.documentNumberCounter.findUnique({
+    where: { companyId_scope: { companyId, scope } },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    // ON CONFLICT DO NOTHING: a concurrent first use waits for the other insert and then
+    // increments the same row, instead of failing the transaction on the unique index
+    await tx.documentNumberCounter.createMany({
+      data: [{ companyId, scope, lastNumber: (await lastIssued()) ?? 0 }],
+      skipDuplicates: true,
+    });
+  }
+
+  const counter = await tx.documentNumberCounter.update({
+    where: { companyId_scope: { companyId, scope } },
+    data: { lastNumber: { increment: 1 } },
+  });
+  return counter.lastNumber;
+}
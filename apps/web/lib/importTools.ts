@@ -1,6 +1,7 @@
 import { prisma } from '@accounting/db';
 import { VoucherType, AccountType } from '@accounting/db';
 import { Decimal } from '@prisma/client/runtime/library';
+import * as XLSX from 'xlsx';
 
 export interface ColumnMapping {
   [columnName: string]: string | null; // Maps CSV column to target field, or null to skip
@@ -64,6 +65,125 @@ export interface ValidationResult {
   unresolvedAccounts: Array<{ accountCode?: string; accountName?: string; rowIndex: number }>;
 }
 
+/**
+ * Whether a file name is a supported sheet (CSV or XLSX)
+ */
+export function isSheetFile(fileName: string): boolean {
+  const name = fileName.toLowerCase();
+  return name.endsWith('.csv') || name.endsWith('.xlsx') || name.endsWith('.xls');
+}
+
+/**
+ * Split one CSV line into values, honouring quoted fields
+ */
+function parseCSVLine(line: string): string[] {
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    const nextChar = line[i + 1];
+
+    if (char === '"') {
+      if (inQuotes && nextChar === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+/**
+ * Read a CSV or XLSX file into a header row and data rows (first sheet for XLSX).
+ * Empty rows are dropped. Throws when the file is empty or not a supported format.
+ */
+export function readSheetFile(buffer: Buffer, fileName: string): { headers: string[]; rows: any[][] } {
+  const name = fileName.toLowerCase();
+  let rows: any[][] = [];
+  let headers: string[] = [];
+
+  if (name.endsWith('.csv')) {
+    // Parse CSV - handle quoted fields properly
+    const csvText = buffer.toString('utf-8');
+    const lines: string[] = [];
+    let currentLine = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < csvText.length; i++) {
+      const char = csvText[i];
+      const nextChar = csvText[i + 1];
+
+      if (char === '"') {
+        if (inQuotes && nextChar === '"') {
+          // Escaped quote
+          currentLine += '"';
+          i++; // Skip next quote
+        } else {
+          // Toggle quote state
+          inQuotes = !inQuotes;
+          currentLine += char;
+        }
+      } else if (char === '\n' && !inQuotes) {
+        // End of line
+        lines.push(currentLine);
+        currentLine = '';
+      } else {
+        currentLine += char;
+      }
+    }
+
+    // Add last line if exists
+    if (currentLine.trim()) {
+      lines.push(currentLine);
+    }
+
+    if (lines.length === 0) {
+      throw new Error('CSV file is empty');
+    }
+
+    headers = parseCSVLine(lines[0]).map((h) => h.replace(/^"|"$/g, ''));
+
+    // Parse rows
+    for (let i = 1; i < lines.length; i++) {
+      const values = parseCSVLine(lines[i]).map((v) => v.replace(/^"|"$/g, ''));
+      if (values.some((v) => v)) {
+        // Only add non-empty rows
+        rows.push(values);
+      }
+    }
+  } else if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+    // Parse XLSX
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheetName = workbook.SheetNames[0];
+    const worksheet = workbook.Sheets[sheetName];
+    const data = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null }) as any[][];
+
+    if (data.length === 0) {
+      throw new Error('Excel file is empty');
+    }
+
+    // First row is headers
+    headers = data[0].map((h) => String(h || '').trim());
+
+    // Rest are data rows
+    rows = data.slice(1).filter((row) => row.some((cell) => cell !== null && cell !== ''));
+  } else {
+    throw new Error('File must be CSV or XLSX format');
+  }
+
+  return { headers, rows };
+}
+
 /**
  * Parse CSV/XLSX data into rows
  */
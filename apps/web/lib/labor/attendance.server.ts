@@ -0,0 +1,358 @@
+/**
+ * Daily attendance
+ *
+ * Site supervisors mark each worker present, half-day or absent per day with any overtime
+ * hours on a project's attendance sheet. The wage for the day is worked out from the
+ * worker's daily rate (which the sheet can override): a half day is paid half the rate and
+ * overtime at the hourly rate of a standard day. Each paid day becomes the worker's DAY
+ * labor entry, kept in step as the sheet changes, so labor costs, worker payables and the
+ * labor summary come from attendance rather than typed amounts. The same sheet prints as a
+ * muster roll.
+ */
+
+import { prisma } from '@accounting/db';
+import { AttendanceStatus, Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { AttendanceSheetFilters, AttendanceSheetSave } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+
+// Hours in a standard working day; overtime is paid at the daily rate divided by these
+export const STANDARD_DAY_HOURS = 8;
+
+const ZERO = new Prisma.Decimal(0);
+
+const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: 'present',
+  HALF_DAY: 'half day',
+  ABSENT: 'absent',
+};
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function fromDateKey(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+/**
+ * Wage for a day's attendance at a daily rate
+ */
+export function computeAttendanceWage(
+  status: AttendanceStatus,
+  dailyRate: Prisma.Decimal,
+  overtimeHours: Prisma.Decimal
+): Prisma.Decimal {
+  if (status === AttendanceStatus.ABSENT) {
+    return ZERO;
+  }
+  const base = status === AttendanceStatus.HALF_DAY ? dailyRate.div(2) : dailyRate;
+  const overtime = overtimeHours.mul(dailyRate).div(STANDARD_DAY_HOURS);
+  return base.plus(overtime).toDecimalPlaces(2);
+}
+
+function attendanceNote(status: AttendanceStatus, overtimeHours: Prisma.Decimal): string {
+  const overtime = overtimeHours.gt(0) ? `, ${overtimeHours.toString()}h overtime` : '';
+  return `Attendance: ${STATUS_LABELS[status]}${overtime}`;
+}
+
+/**
+ * Days of a sheet: `days` days from `from`, by default the week ending today
+ */
+function sheetDays(filters: Partial<AttendanceSheetFilters>): string[] {
+  const count = filters.days ?? 7;
+  let start: Date;
+  if (filters.from) {
+    start = fromDateKey(filters.from);
+    if (Number.isNaN(start.getTime())) {
+      throw new Error('Invalid date');
+    }
+  } else {
+    start = fromDateKey(toDateKey(new Date()));
+    start.setUTCDate(start.getUTCDate() - (count - 1));
+  }
+  return Array.from({ length: count }, (_, i) => {
+    const day = new Date(start);
+    day.setUTCDate(day.getUTCDate() + i);
+    return toDateKey(day);
+  });
+}
+
+/**
+ * Attendance sheet of a project: the workers deployed to it (and any others with
+ * attendance in the period) against the days, with each worker's days, overtime and wages
+ */
+export async function getAttendanceSheet(
+  companyId: string,
+  projectId: string,
+  filters: Partial<AttendanceSheetFilters> = {}
+) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to your company');
+  }
+
+  const days = sheetDays(filters);
+  const records = await prisma.laborAttendance.findMany({
+    where: {
+      companyId,
+      projectId,
+      date: { gte: fromDateKey(days[0]), lte: fromDateKey(days[days.length - 1]) },
+    },
+    select: {
+      workerId: true,
+      date: true,
+      status: true,
+      overtimeHours: true,
+      dailyRate: true,
+      wage: true,
+      laborId: true,
+    },
+  });
+  const workers = await prisma.worker.findMany({
+    where: {
+      companyId,
+      OR: [
+        { isActive: true, sites: { some: { projectId } } },
+        { id: { in: Array.from(new Set(records.map((r) => r.workerId))) } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      trade: true,
+      defaultDailyRate: true,
+      teamLeader: { select: { id: true, name: true } },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  const entries = records.map((record) => ({
+    workerId: record.workerId,
+    date: toDateKey(record.date),
+    status: record.status,
+    overtimeHours: Number(record.overtimeHours),
+    dailyRate: Number(record.dailyRate),
+    wage: Number(record.wage),
+    laborId: record.laborId,
+  }));
+
+  const rows = workers.map((worker) => {
+    const own = entries.filter((entry) => entry.workerId === worker.id);
+    const daysWorked = own.reduce(
+      (sum, entry) =>
+        sum + (entry.status === 'PRESENT' ? 1 : entry.status === 'HALF_DAY' ? 0.5 : 0),
+      0
+    );
+    return {
+      worker: {
+        id: worker.id,
+        name: worker.name,
+        trade: worker.trade,
+        teamLeader: worker.teamLeader,
+        defaultDailyRate: worker.defaultDailyRate != null ? Number(worker.defaultDailyRate) : null,
+      },
+      // The rate used most recently on the sheet, else the worker's default
+      dailyRate:
+        own.length > 0
+          ? own.reduce((latest, entry) => (entry.date > latest.date ? entry : latest)).dailyRate
+          : worker.defaultDailyRate != null
+            ? Number(worker.defaultDailyRate)
+            : null,
+      daysWorked,
+      absentDays: own.filter((entry) => entry.status === 'ABSENT').length,
+      overtimeHours: own.reduce((sum, entry) => sum + entry.overtimeHours, 0),
+      wages: Math.round(own.reduce((sum, entry) => sum + entry.wage, 0) * 100) / 100,
+    };
+  });
+
+  return {
+    project,
+    days,
+    rows,
+    entries,
+    totals: {
+      daysWorked: rows.reduce((sum, row) => sum + row.daysWorked, 0),
+      overtimeHours: rows.reduce((sum, row) => sum + row.overtimeHours, 0),
+      wages: Math.round(rows.reduce((sum, row) => sum + row.wages, 0) * 100) / 100,
+    },
+  };
+}
+
+export type AttendanceSheet = Awaited<ReturnType<typeof getAttendanceSheet>>;
+
+/**
+ * Save cells of a project's attendance sheet and bring the DAY labor entries they pay in
+ * step: a paid day creates or updates the worker's entry for the day, an absence or a
+ * cleared day removes it. An entry that has already been paid cannot be removed or brought
+ * below what was paid.
+ */
+export async function saveAttendance(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  data: AttendanceSheetSave,
+  request?: NextRequest
+) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to your company');
+  }
+  const workerIds = Array.from(new Set(data.entries.map((entry) => entry.workerId)));
+  const workers = await prisma.worker.findMany({
+    where: { companyId, id: { in: workerIds } },
+    select: {
+      id: true,
+      name: true,
+      defaultDailyRate: true,
+      teamLeader: { select: { id: true, name: true } },
+    },
+  });
+  const workerById = new Map(workers.map((worker) => [worker.id, worker]));
+  if (workerById.size !== workerIds.length) {
+    throw new Error('Worker not found');
+  }
+
+  const summary = await prisma.$transaction(async (tx) => {
+    let saved = 0;
+    let cleared = 0;
+
+    const removeLabor = async (laborId: string, workerName: string, date: string) => {
+      const labor = await tx.projectLabor.findUniqueOrThrow({
+        where: { id: laborId },
+        select: { paid: true },
+      });
+      if (labor.paid?.gt(0)) {
+        throw new Error(
+          `${workerName}'s wage for ${date} has already been paid and cannot be removed`
+        );
+      }
+      await tx.projectLabor.delete({ where: { id: laborId } });
+    };
+
+    for (const entry of data.entries) {
+      const worker = workerById.get(entry.workerId)!;
+      const date = fromDateKey(entry.date);
+      const existing = await tx.laborAttendance.findUnique({
+        where: { projectId_workerId_date: { projectId, workerId: worker.id, date } },
+      });
+
+      if (!entry.status) {
+        if (existing) {
+          await tx.laborAttendance.delete({ where: { id: existing.id } });
+          if (existing.laborId) {
+            await removeLabor(existing.laborId, worker.name, entry.date);
+          }
+          cleared += 1;
+        }
+        continue;
+      }
+
+      const rate =
+        entry.dailyRate != null
+          ? new Prisma.Decimal(entry.dailyRate)
+          : existing?.dailyRate ?? worker.defaultDailyRate;
+      if (!rate || rate.lte(0)) {
+        throw new Error(`Set a daily rate for ${worker.name}`);
+      }
+      const overtimeHours =
+        entry.status === AttendanceStatus.ABSENT ? ZERO : new Prisma.Decimal(entry.overtimeHours);
+      const wage = computeAttendanceWage(entry.status, rate, overtimeHours);
+
+      let laborId = existing?.laborId ?? null;
+      if (wage.lte(0)) {
+        if (laborId) {
+          await removeLabor(laborId, worker.name, entry.date);
+          laborId = null;
+        }
+      } else {
+        const laborData = {
+          date,
+          amount: wage,
+          note: attendanceNote(entry.status, overtimeHours),
+          workerName: worker.name,
+          teamLeader: worker.teamLeader?.name ?? null,
+          teamLeaderId: worker.teamLeader?.id ?? null,
+        };
+        if (laborId) {
+          const labor = await tx.projectLabor.findUniqueOrThrow({
+            where: { id: laborId },
+            select: { paid: true },
+          });
+          const paid = labor.paid ?? ZERO;
+          if (wage.lt(paid)) {
+            throw new Error(
+              `${worker.name}'s wage for ${entry.date} cannot go below the ${paid.toString()} already paid`
+            );
+          }
+          await tx.projectLabor.update({
+            where: { id: laborId },
+            data: { ...laborData, due: wage.minus(paid) },
+          });
+        } else {
+          const labor = await tx.projectLabor.create({
+            data: {
+              ...laborData,
+              companyId,
+              projectId,
+              type: 'DAY',
+              workerId: worker.id,
+              paid: ZERO,
+              due: wage,
+              createdByUserId: userId,
+            },
+            select: { id: true },
+          });
+          laborId = labor.id;
+        }
+      }
+
+      const values = {
+        status: entry.status,
+        overtimeHours,
+        dailyRate: rate,
+        wage,
+        laborId,
+        recordedByUserId: userId,
+      };
+      if (existing) {
+        await tx.laborAttendance.update({ where: { id: existing.id }, data: values });
+      } else {
+        await tx.laborAttendance.create({
+          data: { ...values, companyId, projectId, workerId: worker.id, date },
+        });
+      }
+      saved += 1;
+    }
+
+    for (const workerId of workerIds) {
+      await tx.workerSite.upsert({
+        where: { workerId_projectId: { workerId, projectId } },
+        create: { workerId, projectId },
+        update: {},
+      });
+    }
+
+    return { saved, cleared };
+  });
+
+  const dates = data.entries.map((entry) => entry.date).sort();
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'LaborAttendance',
+    entityId: projectId,
+    action: 'UPDATE',
+    after: summary,
+    metadata: { from: dates[0], to: dates[dates.length - 1], workers: workerIds.length },
+    request,
+  });
+
+  return summary;
+}
@@ -0,0 +1,52 @@
+/**
+ * Unit tests for the day wage earned by an attendance entry
+ *
+ * Run from apps/web with: npx tsx lib/labor/attendance.test.ts
+ */
+
+import { Prisma } from '@prisma/client';
+import { computeAttendanceWage } from './attendance.server';
+
+const D = (value: number) => new Prisma.Decimal(value);
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+function testStatuses() {
+  console.log('Test: present earns the rate, half day half of it, absent nothing');
+  assert(computeAttendanceWage('PRESENT', D(800), D(0)).eq(800), 'present 800');
+  assert(computeAttendanceWage('HALF_DAY', D(800), D(0)).eq(400), 'half day 400');
+  assert(computeAttendanceWage('ABSENT', D(800), D(0)).eq(0), 'absent 0');
+  console.log('  PASS');
+}
+
+function testOvertime() {
+  console.log('Test: overtime is paid per hour of a standard day and rounded to cents');
+  const present = computeAttendanceWage('PRESENT', D(800), D(2));
+  assert(present.eq(1000), `800 + 2 x 800 / 8 = 1000, got ${present}`);
+
+  const halfDay = computeAttendanceWage('HALF_DAY', D(800), D(1.5));
+  assert(halfDay.eq(550), `400 + 1.5 x 100 = 550, got ${halfDay}`);
+
+  const rounded = computeAttendanceWage('PRESENT', D(700), D(1));
+  assert(rounded.eq(787.5), `700 + 87.5, got ${rounded}`);
+
+  const odd = computeAttendanceWage('PRESENT', D(655), D(1));
+  assert(odd.eq(736.88), `655 + 81.875 rounds to 736.88, got ${odd}`);
+
+  const absent = computeAttendanceWage('ABSENT', D(800), D(3));
+  assert(absent.eq(0), `overtime is not paid on an absent day, got ${absent}`);
+  console.log('  PASS');
+}
+
+function runTests() {
+  console.log('Running attendance wage tests...\n');
+  testStatuses();
+  testOvertime();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests();
+}
@@ -0,0 +1,1025 @@
+/**
+ * Staff payroll
+ *
+ * Site and office staff on the worker register are paid a monthly salary from their
+ * salary structure: basic plus house rent, conveyance and mobile allowances. A payroll
+ * run takes a payslip for every active structure of the month:
+ *
+ *   gross    = basic + house rent + conveyance + mobile
+ *   absence  = gross / days in month × absent days
+ *   recovery = monthly installment of each open advance and loan (up to what is left)
+ *   net      = gross − absence − recovery
+ *
+ * Advances and loans are POSTED PAYMENT vouchers debiting Staff Advances & Loans. Posting
+ * a run books one POSTED JOURNAL voucher:
+ *
+ *   Dr Salaries & Allowances (gross − absence, per project, or without a project for office staff)
+ *   Cr Staff Advances & Loans (recoveries), Salaries Payable (net pay)
+ *
+ * Paying the run clears Salaries Payable from cash and bank by a PAYMENT voucher. An
+ * advance's recovered amount is the sum of its recoveries in runs that are not cancelled.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  PayrollEntryUpdate,
+  PayrollRunCreate,
+  PayrollRunPay,
+  PayrollRunPost,
+  SalaryStructureSave,
+  StaffAdvanceCreate,
+  StaffAdvanceType,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateVoucherNumber } from '@/lib/voucher';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
+import { resolvePaymentAccountId } from '@/lib/purchases/purchasePaymentDefaults.server';
+import {
+  OpenAdvance,
+  absenceDeductionOf,
+  allocateRecovery,
+  daysInMonth,
+  grossOf,
+  recoverInstallments,
+} from '@/lib/labor/payroll';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const voucherSelect = { id: true, voucherNo: true, status: true } as const;
+
+const payrollRunInclude = Prisma.validator<Prisma.PayrollRunInclude>()({
+  voucher: { select: voucherSelect },
+  paymentVoucher: { select: voucherSelect },
+  createdBy: { select: { id: true, name: true } },
+  entries: {
+    include: {
+      project: { select: { id: true, name: true } },
+      worker: { select: { phone: true, nationalId: true } },
+      recoveries: {
+        include: { advance: { select: { id: true, type: true, date: true, amount: true } } },
+      },
+    },
+    orderBy: { employeeName: 'asc' },
+  },
+});
+
+type PayrollRunWithRelations = Prisma.PayrollRunGetPayload<{ include: typeof payrollRunInclude }>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sum<T>(rows: T[], value: (row: T) => number): number {
+  return roundMoney(rows.reduce((total, row) => total + value(row), 0));
+}
+
+function toDateString(date: Date) {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Month and year of a payroll run, e.g. "March 2026"
+ */
+export function formatPayrollPeriod(year: number, month: number): string {
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+async function assertProject(db: Db, companyId: string, projectId: string | null | undefined) {
+  if (!projectId) return;
+  const project = await db.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to your company');
+  }
+}
+
+/**
+ * Active workers with their salary structure, if any, and inactive workers that still
+ * have one
+ */
+export async function listSalaryStructures(companyId: string) {
+  const workers = await prisma.worker.findMany({
+    where: { companyId, OR: [{ isActive: true }, { salaryStructure: { isNot: null } }] },
+    select: {
+      id: true,
+      name: true,
+      trade: true,
+      phone: true,
+      isActive: true,
+      salaryStructure: { include: { project: { select: { id: true, name: true } } } },
+    },
+    orderBy: { name: 'asc' },
+  });
+
+  return workers.map((worker) => {
+    const structure = worker.salaryStructure;
+    return {
+      workerId: worker.id,
+      name: worker.name,
+      trade: worker.trade,
+      phone: worker.phone,
+      workerActive: worker.isActive,
+      structure: structure
+        ? {
+            id: structure.id,
+            designation: structure.designation,
+            basic: Number(structure.basic),
+            houseRent: Number(structure.houseRent),
+            conveyance: Number(structure.conveyance),
+            mobile: Number(structure.mobile),
+            grossPay: grossOf(structure),
+            project: structure.project,
+            paymentMode: structure.paymentMode,
+            bankName: structure.bankName,
+            bankAccountNo: structure.bankAccountNo,
+            isActive: structure.isActive,
+          }
+        : null,
+    };
+  });
+}
+
+export type SalaryStructureView = Awaited<ReturnType<typeof listSalaryStructures>>[number];
+
+/**
+ * Create or replace a worker's salary structure. Payroll runs already taken keep the
+ * amounts they were run with.
+ */
+export async function saveSalaryStructure(
+  companyId: string,
+  userId: string,
+  workerId: string,
+  data: SalaryStructureSave,
+  request?: NextRequest
+) {
+  const worker = await prisma.worker.findFirst({
+    where: { id: workerId, companyId },
+    select: { id: true, name: true, salaryStructure: true },
+  });
+  if (!worker) {
+    throw new Error('Worker not found');
+  }
+  await assertProject(prisma, companyId, data.projectId);
+
+  const values = {
+    designation: data.designation || null,
+    basic: data.basic,
+    houseRent: data.houseRent,
+    conveyance: data.conveyance,
+    mobile: data.mobile,
+    projectId: data.projectId || null,
+    paymentMode: data.paymentMode,
+    bankName: data.paymentMode === 'BANK' ? data.bankName || null : null,
+    bankAccountNo: data.paymentMode === 'BANK' ? data.bankAccountNo || null : null,
+    isActive: data.isActive,
+  };
+  const saved = await prisma.salaryStructure.upsert({
+    where: { workerId },
+    create: { companyId, workerId, ...values },
+    update: values,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'SalaryStructure',
+    entityId: saved.id,
+    action: worker.salaryStructure ? 'UPDATE' : 'CREATE',
+    before: worker.salaryStructure ?? undefined,
+    after: saved,
+    metadata: { workerId, workerName: worker.name },
+    request,
+  });
+
+  return saved;
+}
+
+/**
+ * A worker's posted advances and loans with something left to recover, oldest first.
+ * Recoveries in runs that are not cancelled count as recovered, except those of runId.
+ */
+async function getOpenAdvances(
+  db: Db,
+  companyId: string,
+  workerId: string,
+  options: { upTo?: Date; runId?: string } = {}
+): Promise<OpenAdvance[]> {
+  const advances = await db.staffAdvance.findMany({
+    where: {
+      companyId,
+      workerId,
+      voucher: { status: 'POSTED' },
+      ...(options.upTo ? { date: { lte: options.upTo } } : {}),
+    },
+    select: {
+      id: true,
+      type: true,
+      amount: true,
+      installmentAmount: true,
+      recoveries: {
+        where: {
+          entry: {
+            run: {
+              status: { not: 'CANCELLED' },
+              ...(options.runId ? { id: { not: options.runId } } : {}),
+            },
+          },
+        },
+        select: { amount: true },
+      },
+    },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  return advances
+    .map((advance) => ({
+      id: advance.id,
+      type: advance.type,
+      installment: Number(advance.installmentAmount),
+      outstanding: roundMoney(
+        Number(advance.amount) - sum(advance.recoveries, (r) => Number(r.amount))
+      ),
+    }))
+    .filter((advance) => advance.outstanding > 0);
+}
+
+/**
+ * Advances and loans paid to staff, newest first, with what is recovered and outstanding
+ */
+export async function listStaffAdvances(companyId: string, take = 100) {
+  const advances = await prisma.staffAdvance.findMany({
+    where: { companyId },
+    include: {
+      worker: { select: { id: true, name: true } },
+      voucher: { select: voucherSelect },
+      createdBy: { select: { name: true } },
+      recoveries: {
+        where: { entry: { run: { status: { not: 'CANCELLED' } } } },
+        select: { amount: true, entry: { select: { run: { select: { status: true } } } } },
+      },
+    },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    take,
+  });
+
+  return advances.map((advance) => {
+    const recovered = sum(
+      advance.recoveries.filter((r) => r.entry.run.status !== 'DRAFT'),
+      (r) => Number(r.amount)
+    );
+    const pending = sum(
+      advance.recoveries.filter((r) => r.entry.run.status === 'DRAFT'),
+      (r) => Number(r.amount)
+    );
+    return {
+      id: advance.id,
+      worker: advance.worker,
+      type: advance.type,
+      date: toDateString(advance.date),
+      amount: Number(advance.amount),
+      installmentAmount: Number(advance.installmentAmount),
+      recovered,
+      pending,
+      outstanding: roundMoney(Number(advance.amount) - recovered),
+      notes: advance.notes,
+      voucher: advance.voucher,
+      createdBy: advance.createdBy.name,
+    };
+  });
+}
+
+export type StaffAdvanceView = Awaited<ReturnType<typeof listStaffAdvances>>[number];
+
+/**
+ * Pay a salary advance or loan: posts the PAYMENT voucher and records the installments
+ * payroll will recover it in
+ */
+export async function createStaffAdvance(
+  companyId: string,
+  userId: string,
+  data: StaffAdvanceCreate,
+  request?: NextRequest
+) {
+  const worker = await prisma.worker.findFirst({
+    where: { id: data.workerId, companyId },
+    select: { id: true, name: true, salaryStructure: { select: { isActive: true } } },
+  });
+  if (!worker) {
+    throw new Error('Worker not found');
+  }
+  if (!worker.salaryStructure?.isActive) {
+    throw new Error(`${worker.name} has no active salary structure to recover the advance from`);
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const account = await resolvePaymentAccountId(companyId, data.paymentMethod);
+  if ('error' in account) {
+    throw new Error(account.error);
+  }
+  const date = new Date(`${data.date}T00:00:00.000Z`);
+  const label = data.type === 'LOAN' ? 'Staff loan' : 'Salary advance';
+
+  const advance = await prisma.$transaction(async (tx) => {
+    const lockError = await getPostingLockError(companyId, date, tx);
+    if (lockError) {
+      throw new Error(lockError);
+    }
+
+    const voucherNo = await generateVoucherNumber(tx, companyId, { date, type: 'PAYMENT' });
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        voucherNo,
+        type: 'PAYMENT',
+        date,
+        status: 'POSTED',
+        narration: data.notes || `${label} - ${worker.name}`,
+        createdByUserId: userId,
+        postedByUserId: userId,
+        postedAt: new Date(),
+        lines: {
+          create: [
+            {
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.STAFF_ADVANCES],
+              description: `${label} - ${worker.name}`,
+              debit: data.amount,
+              credit: 0,
+              receivedBy: worker.name,
+            },
+            {
+              companyId,
+              accountId: account.paymentAccountId,
+              description: `${label} paid`,
+              debit: 0,
+              credit: data.amount,
+            },
+          ],
+        },
+      },
+      select: { id: true, voucherNo: true },
+    });
+
+    return tx.staffAdvance.create({
+      data: {
+        companyId,
+        workerId: worker.id,
+        type: data.type,
+        date,
+        amount: data.amount,
+        installmentAmount: data.installmentAmount,
+        voucherId: voucher.id,
+        notes: data.notes || null,
+        createdById: userId,
+      },
+      include: { voucher: { select: { id: true, voucherNo: true } } },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StaffAdvance',
+    entityId: advance.id,
+    action: 'CREATE',
+    after: advance,
+    metadata: { workerId: worker.id, voucherId: advance.voucherId },
+    request,
+  });
+
+  return advance;
+}
+
+/**
+ * Convert a payroll run to plain numbers with its payslips and totals
+ */
+function serializePayrollRun(run: PayrollRunWithRelations) {
+  const entries = run.entries.map((entry) => ({
+    id: entry.id,
+    workerId: entry.workerId,
+    employeeName: entry.employeeName,
+    designation: entry.designation,
+    phone: entry.worker.phone,
+    nationalId: entry.worker.nationalId,
+    project: entry.project,
+    basic: Number(entry.basic),
+    houseRent: Number(entry.houseRent),
+    conveyance: Number(entry.conveyance),
+    mobile: Number(entry.mobile),
+    grossPay: Number(entry.grossPay),
+    daysInMonth: entry.daysInMonth,
+    absentDays: Number(entry.absentDays),
+    absenceDeduction: Number(entry.absenceDeduction),
+    advanceDeduction: Number(entry.advanceDeduction),
+    loanDeduction: Number(entry.loanDeduction),
+    netPay: Number(entry.netPay),
+    paymentMode: entry.paymentMode,
+    bankName: entry.bankName,
+    bankAccountNo: entry.bankAccountNo,
+    recoveries: entry.recoveries.map((recovery) => ({
+      advanceId: recovery.advanceId,
+      type: recovery.advance.type,
+      advanceDate: toDateString(recovery.advance.date),
+      advanceAmount: Number(recovery.advance.amount),
+      amount: Number(recovery.amount),
+    })),
+  }));
+
+  return {
+    id: run.id,
+    year: run.year,
+    month: run.month,
+    period: formatPayrollPeriod(run.year, run.month),
+    status: run.status,
+    notes: run.notes,
+    postedAt: run.postedAt?.toISOString() ?? null,
+    paidAt: run.paidAt?.toISOString() ?? null,
+    createdAt: run.createdAt.toISOString(),
+    createdBy: run.createdBy,
+    voucher: run.voucher,
+    paymentVoucher: run.paymentVoucher,
+    entries,
+    totals: {
+      employees: entries.length,
+      grossPay: sum(entries, (e) => e.grossPay),
+      absenceDeduction: sum(entries, (e) => e.absenceDeduction),
+      advanceDeduction: sum(entries, (e) => e.advanceDeduction),
+      loanDeduction: sum(entries, (e) => e.loanDeduction),
+      netPay: sum(entries, (e) => e.netPay),
+      bank: sum(entries.filter((e) => e.paymentMode === 'BANK'), (e) => e.netPay),
+      cash: sum(entries.filter((e) => e.paymentMode === 'CASH'), (e) => e.netPay),
+    },
+  };
+}
+
+export type PayrollRunView = ReturnType<typeof serializePayrollRun>;
+
+async function findPayrollRun(db: Db, companyId: string, runId: string) {
+  const run = await db.payrollRun.findFirst({
+    where: { id: runId, companyId },
+    include: payrollRunInclude,
+  });
+  if (!run) {
+    throw new Error('Payroll run not found');
+  }
+  return run;
+}
+
+/**
+ * Payroll runs of the company, newest month first, with their totals
+ */
+export async function listPayrollRuns(companyId: string) {
+  const runs = await prisma.payrollRun.findMany({
+    where: { companyId },
+    include: payrollRunInclude,
+    orderBy: [{ year: 'desc' }, { month: 'desc' }, { createdAt: 'desc' }],
+  });
+  return runs.map((run) => {
+    const { entries, ...summary } = serializePayrollRun(run);
+    return summary;
+  });
+}
+
+/**
+ * A payroll run with its payslips
+ */
+export async function getPayrollRun(companyId: string, runId: string) {
+  return serializePayrollRun(await findPayrollRun(prisma, companyId, runId));
+}
+
+/**
+ * Take the payroll of a month: a payslip for every active salary structure, with the
+ * month's installments of open advances and loans deducted
+ */
+export async function createPayrollRun(
+  companyId: string,
+  userId: string,
+  data: PayrollRunCreate,
+  request?: NextRequest
+) {
+  const existing = await prisma.payrollRun.findFirst({
+    where: { companyId, year: data.year, month: data.month, status: { not: 'CANCELLED' } },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new Error(`Payroll for ${formatPayrollPeriod(data.year, data.month)} has already been run`);
+  }
+
+  const structures = await prisma.salaryStructure.findMany({
+    where: { companyId, isActive: true, worker: { isActive: true } },
+    include: { worker: { select: { id: true, name: true } } },
+    orderBy: { worker: { name: 'asc' } },
+  });
+  if (structures.length === 0) {
+    throw new Error('No active salary structures to run payroll for');
+  }
+
+  const days = daysInMonth(data.year, data.month);
+  const monthEnd = new Date(Date.UTC(data.year, data.month - 1, days));
+
+  const run = await prisma.$transaction(async (tx) => {
+    const entries: Prisma.PayrollEntryCreateWithoutRunInput[] = [];
+    for (const structure of structures) {
+      const grossPay = grossOf(structure);
+      const open = await getOpenAdvances(tx, companyId, structure.workerId, { upTo: monthEnd });
+
+      const { recoveries, deducted, netPay } = recoverInstallments(open, grossPay);
+
+      entries.push({
+        worker: { connect: { id: structure.workerId } },
+        employeeName: structure.worker.name,
+        designation: structure.designation,
+        ...(structure.projectId ? { project: { connect: { id: structure.projectId } } } : {}),
+        basic: structure.basic,
+        houseRent: structure.houseRent,
+        conveyance: structure.conveyance,
+        mobile: structure.mobile,
+        grossPay,
+        daysInMonth: days,
+        advanceDeduction: deducted.ADVANCE,
+        loanDeduction: deducted.LOAN,
+        netPay,
+        paymentMode: structure.paymentMode,
+        bankName: structure.bankName,
+        bankAccountNo: structure.bankAccountNo,
+        recoveries: { create: recoveries.map((r) => ({ advance: { connect: { id: r.advanceId } }, amount: r.amount })) },
+      });
+    }
+
+    return tx.payrollRun.create({
+      data: {
+        companyId,
+        year: data.year,
+        month: data.month,
+        notes: data.notes || null,
+        createdById: userId,
+        entries: { create: entries },
+      },
+      include: payrollRunInclude,
+    });
+  }).catch((error) => {
+    // Another run for the month was created at the same time
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new Error(`Payroll for ${formatPayrollPeriod(data.year, data.month)} has already been run`);
+    }
+    throw error;
+  });
+
+  const created = serializePayrollRun(run);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: run.id,
+    action: 'CREATE',
+    after: { period: created.period, totals: created.totals },
+    request,
+  });
+
+  return created;
+}
+
+/**
+ * Adjust a payslip of a draft run: absent days, the project charged, or the advance and
+ * loan deductions
+ */
+export async function updatePayrollEntry(
+  companyId: string,
+  userId: string,
+  runId: string,
+  entryId: string,
+  data: PayrollEntryUpdate,
+  request?: NextRequest
+) {
+  const run = await findPayrollRun(prisma, companyId, runId);
+  if (run.status !== 'DRAFT') {
+    throw new Error('Only a draft payroll run can be changed');
+  }
+  const entry = run.entries.find((e) => e.id === entryId);
+  if (!entry) {
+    throw new Error('Payslip not found in this payroll run');
+  }
+  await assertProject(prisma, companyId, data.projectId);
+
+  const grossPay = Number(entry.grossPay);
+  const absentDays = data.absentDays ?? Number(entry.absentDays);
+  if (absentDays > entry.daysInMonth) {
+    throw new Error(`Absent days cannot exceed the ${entry.daysInMonth} days in the month`);
+  }
+  const absenceDeduction = absenceDeductionOf(grossPay, entry.daysInMonth, absentDays);
+
+  await prisma.$transaction(async (tx) => {
+    const open = await getOpenAdvances(tx, companyId, entry.workerId, { runId });
+    const types: StaffAdvanceType[] = [];
+    if (data.advanceDeduction !== undefined) types.push('ADVANCE');
+    if (data.loanDeduction !== undefined) types.push('LOAN');
+
+    const replaced = types.flatMap((type) =>
+      allocateRecovery(
+        open,
+        type,
+        roundMoney((type === 'LOAN' ? data.loanDeduction : data.advanceDeduction) ?? 0),
+        entry.employeeName
+      )
+    );
+    const advanceDeduction =
+      data.advanceDeduction !== undefined ? roundMoney(data.advanceDeduction) : Number(entry.advanceDeduction);
+    const loanDeduction =
+      data.loanDeduction !== undefined ? roundMoney(data.loanDeduction) : Number(entry.loanDeduction);
+    const netPay = roundMoney(grossPay - absenceDeduction - advanceDeduction - loanDeduction);
+    if (netPay < 0) {
+      throw new Error(`Deductions exceed the salary of ${entry.employeeName}`);
+    }
+
+    if (types.length > 0) {
+      await tx.payrollRecovery.deleteMany({
+        where: { entryId, advance: { type: { in: types } } },
+      });
+      if (replaced.length > 0) {
+        await tx.payrollRecovery.createMany({
+          data: replaced.map((r) => ({ entryId, advanceId: r.advanceId, amount: r.amount })),
+        });
+      }
+    }
+
+    await tx.payrollEntry.update({
+      where: { id: entryId },
+      data: {
+        absentDays,
+        absenceDeduction,
+        advanceDeduction,
+        loanDeduction,
+        netPay,
+        ...(data.projectId !== undefined ? { projectId: data.projectId || null } : {}),
+      },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: runId,
+    action: 'UPDATE',
+    before: {
+      entry: entryId,
+      absentDays: Number(entry.absentDays),
+      projectId: entry.projectId,
+      advanceDeduction: Number(entry.advanceDeduction),
+      loanDeduction: Number(entry.loanDeduction),
+    },
+    after: { entry: entryId, ...data },
+    metadata: { employeeName: entry.employeeName },
+    request,
+  });
+
+  return getPayrollRun(companyId, runId);
+}
+
+/**
+ * Delete a draft payroll run; its recoveries are released to the next run
+ */
+export async function deletePayrollRun(
+  companyId: string,
+  userId: string,
+  runId: string,
+  request?: NextRequest
+) {
+  const run = await findPayrollRun(prisma, companyId, runId);
+  if (run.status !== 'DRAFT') {
+    throw new Error('Only a draft payroll run can be deleted; cancel a posted run instead');
+  }
+
+  await prisma.payrollRun.delete({ where: { id: runId } });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: runId,
+    action: 'DELETE',
+    before: { period: formatPayrollPeriod(run.year, run.month), status: run.status },
+    request,
+  });
+}
+
+/**
+ * Post a draft payroll run: books the JOURNAL voucher charging salaries to projects and
+ * office overhead against the recoveries and net pay
+ */
+export async function postPayrollRun(
+  companyId: string,
+  userId: string,
+  runId: string,
+  data: PayrollRunPost,
+  request?: NextRequest
+) {
+  const run = await findPayrollRun(prisma, companyId, runId);
+  if (run.status !== 'DRAFT') {
+    throw new Error(`Payroll run is ${run.status}`);
+  }
+
+  const period = formatPayrollPeriod(run.year, run.month);
+  const date = data.date
+    ? new Date(`${data.date}T00:00:00.000Z`)
+    : new Date(Date.UTC(run.year, run.month - 1, daysInMonth(run.year, run.month)));
+  const accountIds = await ensureSystemAccounts(companyId);
+
+  // Salary earned (gross less absence) is charged to each project, or to the office
+  const charges = new Map<string, { projectId: string | null; name: string; amount: number }>();
+  for (const entry of run.entries) {
+    const key = entry.projectId ?? '';
+    const charge = charges.get(key) ?? {
+      projectId: entry.projectId,
+      name: entry.project?.name ?? 'Office',
+      amount: 0,
+    };
+    charge.amount = roundMoney(
+      charge.amount + Number(entry.grossPay) - Number(entry.absenceDeduction)
+    );
+    charges.set(key, charge);
+  }
+  const recoveries = run.entries
+    .map((entry) => ({
+      employeeName: entry.employeeName,
+      amount: roundMoney(Number(entry.advanceDeduction) + Number(entry.loanDeduction)),
+    }))
+    .filter((r) => r.amount > 0);
+  const netPay = sum(run.entries, (e) => Number(e.netPay));
+  const hasOffice = charges.has('');
+
+  const voucher = await prisma.$transaction(async (tx) => {
+    // Claim the run so a concurrent post cannot book it a second time
+    const claimed = await tx.payrollRun.updateMany({
+      where: { id: runId, companyId, status: 'DRAFT' },
+      data: { status: 'POSTED', postedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Payroll run has already been posted');
+    }
+
+    const lockError = await getPostingLockError(companyId, date, tx);
+    if (lockError) {
+      throw new Error(lockError);
+    }
+
+    // Advances recovered by another run since this one was taken cannot be recovered twice
+    for (const entry of run.entries) {
+      if (entry.recoveries.length === 0) continue;
+      const open = await getOpenAdvances(tx, companyId, entry.workerId, { runId });
+      for (const recovery of entry.recoveries) {
+        const advance = open.find((a) => a.id === recovery.advanceId);
+        if (!advance || Number(recovery.amount) > advance.outstanding) {
+          throw new Error(
+            `Recovery for ${entry.employeeName} exceeds what is outstanding on the ${recovery.advance.type.toLowerCase()}; adjust the payslip`
+          );
+        }
+      }
+    }
+
+    const voucherNo = await generateVoucherNumber(tx, companyId, { date, type: 'JOURNAL' });
+    const created = await tx.voucher.create({
+      data: {
+        companyId,
+        voucherNo,
+        type: 'JOURNAL',
+        date,
+        status: 'POSTED',
+        narration: `Payroll for ${period}`,
+        expenseType: hasOffice ? 'OFFICE_EXPENSE' : 'PROJECT_EXPENSE',
+        createdByUserId: userId,
+        postedByUserId: userId,
+        postedAt: new Date(),
+        lines: {
+          create: [
+            // Debit: salaries charged to each project, and the office's share
+            ...Array.from(charges.values())
+              .filter((charge) => charge.amount > 0)
+              .map((charge) => ({
+                companyId,
+                accountId: accountIds[SYSTEM_ACCOUNT_CODES.SALARIES],
+                description: `Salaries ${period} - ${charge.name}`,
+                debit: charge.amount,
+                credit: 0,
+                projectId: charge.projectId,
+              })),
+            // Credit: advances and loans recovered from each employee
+            ...recoveries.map((r) => ({
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.STAFF_ADVANCES],
+              description: `Advance/loan recovery - ${r.employeeName}`,
+              debit: 0,
+              credit: r.amount,
+            })),
+            // Credit: net pay owed to the staff
+            ...(netPay > 0
+              ? [
+                  {
+                    companyId,
+                    accountId: accountIds[SYSTEM_ACCOUNT_CODES.SALARIES_PAYABLE],
+                    description: `Net salaries payable - ${period}`,
+                    debit: 0,
+                    credit: netPay,
+                  },
+                ]
+              : []),
+          ],
+        },
+      },
+      select: { id: true, voucherNo: true },
+    });
+
+    await tx.payrollRun.update({ where: { id: runId }, data: { voucherId: created.id } });
+    return created;
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: runId,
+    action: 'STATUS_CHANGE',
+    before: { status: run.status },
+    after: { status: 'POSTED', voucherNo: voucher.voucherNo },
+    metadata: { operation: 'POST', voucherId: voucher.id },
+    request,
+  });
+
+  return getPayrollRun(companyId, runId);
+}
+
+/**
+ * Pay the net salaries of a posted run: a PAYMENT voucher clearing Salaries Payable from
+ * cash for staff paid in cash and from the bank for those on the bank advice
+ */
+export async function payPayrollRun(
+  companyId: string,
+  userId: string,
+  runId: string,
+  data: PayrollRunPay,
+  request?: NextRequest
+) {
+  const run = await findPayrollRun(prisma, companyId, runId);
+  if (run.status !== 'POSTED') {
+    throw new Error(
+      run.status === 'PAID' ? 'Payroll run has already been paid' : 'Post the payroll run before paying it'
+    );
+  }
+  if (run.voucher?.status !== 'POSTED') {
+    throw new Error('Payroll voucher is not posted');
+  }
+
+  const paid = run.entries.filter((entry) => Number(entry.netPay) > 0);
+  if (paid.length === 0) {
+    throw new Error('No net pay to pay in this payroll run');
+  }
+  const totals = {
+    CASH: sum(paid.filter((e) => e.paymentMode === 'CASH'), (e) => Number(e.netPay)),
+    BANK: sum(paid.filter((e) => e.paymentMode === 'BANK'), (e) => Number(e.netPay)),
+  };
+  const credits: Array<{ accountId: string; description: string; amount: number }> = [];
+  for (const mode of ['CASH', 'BANK'] as const) {
+    if (totals[mode] <= 0) continue;
+    const account = await resolvePaymentAccountId(companyId, mode);
+    if ('error' in account) {
+      throw new Error(account.error);
+    }
+    credits.push({
+      accountId: account.paymentAccountId,
+      description: mode === 'BANK' ? 'Salaries paid by bank advice' : 'Salaries paid in cash',
+      amount: totals[mode],
+    });
+  }
+
+  const period = formatPayrollPeriod(run.year, run.month);
+  const date = new Date(`${data.date}T00:00:00.000Z`);
+  const accountIds = await ensureSystemAccounts(companyId);
+
+  const voucher = await prisma.$transaction(async (tx) => {
+    // Claim the run so a concurrent payment cannot pay it a second time
+    const claimed = await tx.payrollRun.updateMany({
+      where: { id: runId, companyId, status: 'POSTED' },
+      data: { status: 'PAID', paidAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Payroll run has already been paid');
+    }
+
+    const lockError = await getPostingLockError(companyId, date, tx);
+    if (lockError) {
+      throw new Error(lockError);
+    }
+
+    const voucherNo = await generateVoucherNumber(tx, companyId, { date, type: 'PAYMENT' });
+    const created = await tx.voucher.create({
+      data: {
+        companyId,
+        voucherNo,
+        type: 'PAYMENT',
+        date,
+        status: 'POSTED',
+        narration: data.narration || `Salaries paid for ${period}`,
+        createdByUserId: userId,
+        postedByUserId: userId,
+        postedAt: new Date(),
+        lines: {
+          create: [
+            // Debit: net salary paid to each employee
+            ...paid.map((entry) => ({
+              companyId,
+              accountId: accountIds[SYSTEM_ACCOUNT_CODES.SALARIES_PAYABLE],
+              description: `Salary ${period} - ${entry.employeeName}`,
+              debit: Number(entry.netPay),
+              credit: 0,
+              receivedBy: entry.employeeName,
+            })),
+            // Credit: cash and bank paid out
+            ...credits.map((credit) => ({
+              companyId,
+              accountId: credit.accountId,
+              description: credit.description,
+              debit: 0,
+              credit: credit.amount,
+            })),
+          ],
+        },
+      },
+      select: { id: true, voucherNo: true },
+    });
+
+    await tx.payrollRun.update({ where: { id: runId }, data: { paymentVoucherId: created.id } });
+    return created;
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: runId,
+    action: 'STATUS_CHANGE',
+    before: { status: run.status },
+    after: { status: 'PAID', voucherNo: voucher.voucherNo },
+    metadata: { operation: 'PAY', voucherId: voucher.id, ...totals },
+    request,
+  });
+
+  return getPayrollRun(companyId, runId);
+}
+
+/**
+ * Cancel a posted or paid run once its vouchers have been reversed; its recoveries go
+ * back onto the advances and loans and the month can be run again
+ */
+export async function cancelPayrollRun(
+  companyId: string,
+  userId: string,
+  runId: string,
+  request?: NextRequest
+) {
+  const run = await findPayrollRun(prisma, companyId, runId);
+  if (run.status === 'DRAFT') {
+    throw new Error('Delete a draft payroll run instead of cancelling it');
+  }
+  if (run.status === 'CANCELLED') {
+    throw new Error('Payroll run is already cancelled');
+  }
+  for (const voucher of [run.paymentVoucher, run.voucher]) {
+    if (voucher && voucher.status !== 'REVERSED') {
+      throw new Error(
+        `Voucher ${voucher.voucherNo} is ${voucher.status}; reverse it before cancelling the payroll run`
+      );
+    }
+  }
+
+  const claimed = await prisma.payrollRun.updateMany({
+    where: { id: runId, companyId, status: run.status },
+    data: { status: 'CANCELLED' },
+  });
+  if (claimed.count === 0) {
+    throw new Error('Payroll run was updated by someone else; please reload');
+  }
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PayrollRun',
+    entityId: runId,
+    action: 'STATUS_CHANGE',
+    before: { status: run.status },
+    after: { status: 'CANCELLED' },
+    metadata: { operation: 'CANCEL' },
+    request,
+  });
+
+  return getPayrollRun(companyId, runId);
+}
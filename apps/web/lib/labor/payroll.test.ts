@@ -0,0 +1,95 @@
+/**
+ * Unit tests for payslip arithmetic: gross, absence deduction and recovery of staff
+ * advances and loans
+ *
+ * Run from apps/web with: npx tsx lib/labor/payroll.test.ts
+ */
+
+import {
+  OpenAdvance,
+  absenceDeductionOf,
+  allocateRecovery,
+  daysInMonth,
+  grossOf,
+  recoverInstallments,
+} from './payroll';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+function testGrossAndAbsence() {
+  console.log('Test: gross adds the allowances; absence is a share of it by days');
+  const gross = grossOf({ basic: '20000.00', houseRent: 8000, conveyance: '1500.50', mobile: 500 });
+  assert(gross === 30000.5, `gross 30000.50, got ${gross}`);
+
+  assert(daysInMonth(2026, 2) === 28 && daysInMonth(2028, 2) === 29, 'February by year');
+  assert(daysInMonth(2026, 12) === 31, 'December');
+
+  const absence = absenceDeductionOf(31000, 31, 2);
+  assert(absence === 2000, `2 of 31 days, got ${absence}`);
+  const rounded = absenceDeductionOf(30000, 31, 1);
+  assert(rounded === 967.74, `1 of 31 days rounds to cents, got ${rounded}`);
+  assert(absenceDeductionOf(30000, 30, 40) === 30000, 'never more than the gross');
+  console.log('  PASS');
+}
+
+function testInstallmentRecovery() {
+  console.log('Test: each open advance recovers its installment, oldest first, while pay lasts');
+  const open: OpenAdvance[] = [
+    { id: 'adv-1', type: 'ADVANCE', installment: 3000, outstanding: 1200 },
+    { id: 'loan-1', type: 'LOAN', installment: 5000, outstanding: 40000 },
+    { id: 'adv-2', type: 'ADVANCE', installment: 4000, outstanding: 4000 },
+  ];
+
+  const full = recoverInstallments(open, 25000);
+  const taken = full.recoveries.map((r) => `${r.advanceId}:${r.amount}`).join(',');
+  assert(taken === 'adv-1:1200,loan-1:5000,adv-2:4000', `installments capped by what is outstanding, got ${taken}`);
+  assert(full.deducted.ADVANCE === 5200 && full.deducted.LOAN === 5000, 'deductions by type');
+  assert(full.netPay === 14800, `net 25000 - 10200, got ${full.netPay}`);
+
+  const short = recoverInstallments(open, 6000);
+  assert(short.recoveries.length === 2, 'the last advance waits for next month');
+  assert(short.recoveries[1].amount === 4800, `loan takes what is left of the pay, got ${short.recoveries[1].amount}`);
+  assert(short.netPay === 0, 'pay never goes negative');
+
+  const none = recoverInstallments([], 18000);
+  assert(none.recoveries.length === 0 && none.netPay === 18000, 'no advances leave the gross');
+  console.log('  PASS');
+}
+
+function testAllocateRecovery() {
+  console.log('Test: an adjusted deduction is spread over advances of its type, oldest first');
+  const open: OpenAdvance[] = [
+    { id: 'adv-1', type: 'ADVANCE', installment: 1000, outstanding: 1500 },
+    { id: 'loan-1', type: 'LOAN', installment: 5000, outstanding: 20000 },
+    { id: 'adv-2', type: 'ADVANCE', installment: 1000, outstanding: 2500.25 },
+  ];
+
+  const spread = allocateRecovery(open, 'ADVANCE', 2000.1, 'Rahim');
+  const taken = spread.map((r) => `${r.advanceId}:${r.amount}`).join(',');
+  assert(taken === 'adv-1:1500,adv-2:500.1', `oldest advance cleared first, loans untouched, got ${taken}`);
+
+  assert(allocateRecovery(open, 'LOAN', 0, 'Rahim').length === 0, 'zero deduction recovers nothing');
+
+  let error = '';
+  try {
+    allocateRecovery(open, 'ADVANCE', 5000, 'Rahim');
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  assert(error === 'Advance deduction of 5000 exceeds the 4000.25 outstanding for Rahim', `got "${error}"`);
+  console.log('  PASS');
+}
+
+function runTests() {
+  console.log('Running payroll tests...\n');
+  testGrossAndAbsence();
+  testInstallmentRecovery();
+  testAllocateRecovery();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests();
+}
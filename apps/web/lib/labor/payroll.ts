@@ -0,0 +1,77 @@
+/**
+ * Payslip arithmetic shared by the payroll run and its tests
+ */
+
+import type { StaffAdvanceType } from '@accounting/shared';
+
+export type OpenAdvance = {
+  id: string;
+  type: StaffAdvanceType;
+  installment: number;
+  outstanding: number;
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export function grossOf(structure: { basic: unknown; houseRent: unknown; conveyance: unknown; mobile: unknown }) {
+  return roundMoney(
+    Number(structure.basic) +
+      Number(structure.houseRent) +
+      Number(structure.conveyance) +
+      Number(structure.mobile)
+  );
+}
+
+export function absenceDeductionOf(grossPay: number, days: number, absentDays: number) {
+  return roundMoney(Math.min(grossPay, (grossPay / days) * absentDays));
+}
+
+/**
+ * Recover each open advance's installment, oldest first, while the pay lasts
+ */
+export function recoverInstallments(open: OpenAdvance[], grossPay: number) {
+  let left = grossPay;
+  const recoveries: Array<{ advanceId: string; amount: number }> = [];
+  const deducted = { ADVANCE: 0, LOAN: 0 };
+  for (const advance of open) {
+    const amount = roundMoney(Math.min(advance.installment, advance.outstanding, left));
+    if (amount <= 0) continue;
+    recoveries.push({ advanceId: advance.id, amount });
+    deducted[advance.type] = roundMoney(deducted[advance.type] + amount);
+    left = roundMoney(left - amount);
+  }
+  return { recoveries, deducted, netPay: left };
+}
+
+/**
+ * Spread a deduction over open advances of one type, oldest first
+ */
+export function allocateRecovery(
+  open: OpenAdvance[],
+  type: StaffAdvanceType,
+  amount: number,
+  employeeName: string
+) {
+  const ofType = open.filter((advance) => advance.type === type);
+  const outstanding = roundMoney(ofType.reduce((total, advance) => total + advance.outstanding, 0));
+  if (amount > outstanding) {
+    throw new Error(
+      `${type === 'LOAN' ? 'Loan' : 'Advance'} deduction of ${amount} exceeds the ${outstanding} outstanding for ${employeeName}`
+    );
+  }
+  const recoveries: Array<{ advanceId: string; amount: number }> = [];
+  let left = amount;
+  for (const advance of ofType) {
+    if (left <= 0) break;
+    const recovered = roundMoney(Math.min(left, advance.outstanding));
+    recoveries.push({ advanceId: advance.id, amount: recovered });
+    left = roundMoney(left - recovered);
+  }
+  return recoveries;
+}
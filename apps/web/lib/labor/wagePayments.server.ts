@@ -0,0 +1,327 @@
+/**
+ * Wage payments
+ *
+ * Wages owed on a project's DAY labor entries are paid to a worker, or to a team leader who
+ * collects for the team, from the company's cash or bank account. Each payment posts a
+ * PAYMENT voucher (Direct Labor debited per payee against the project, cash or bank
+ * credited) and is settled against the labor entries it pays, oldest dues first unless the
+ * entries are chosen, so the labor payables and the cash book move together.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { WagePaymentCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateVoucherNumber } from '@/lib/voucher';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
+import { resolvePaymentAccountId } from '@/lib/purchases/purchasePaymentDefaults.server';
+import { legacyWorkerLabel, parseWorkerKey } from '@/lib/projects/projectWorkerPayables.server';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const ZERO = new Prisma.Decimal(0);
+
+type Payee =
+  | { type: 'WORKER'; workerId: string }
+  | { type: 'TEAM_LEADER'; workerId: string }
+  | { type: 'DAY'; name: string };
+
+/**
+ * Parse a payee key: a worker payables key ("W|<workerId>", "DAY|<name>") or a team
+ * leader ("TL|<workerId>")
+ */
+function parsePayeeKey(key: string): Payee | null {
+  if (key.startsWith('TL|')) {
+    const workerId = key.slice(3);
+    return workerId ? { type: 'TEAM_LEADER', workerId } : null;
+  }
+  const parsed = parseWorkerKey(encodeURIComponent(key));
+  if (!parsed || parsed.type === 'MONTHLY') return null;
+  return parsed.type === 'WORKER' ? parsed : { type: 'DAY', name: parsed.name };
+}
+
+/**
+ * Name of a payee and the project's DAY labor entries they are paid for, oldest first
+ */
+async function getPayeeLabors(db: Db, companyId: string, projectId: string, payee: Payee) {
+  const select = {
+    id: true,
+    date: true,
+    amount: true,
+    paid: true,
+    workerName: true,
+  } satisfies Prisma.ProjectLaborSelect;
+  const orderBy: Prisma.ProjectLaborOrderByWithRelationInput[] = [
+    { date: 'asc' },
+    { createdAt: 'asc' },
+  ];
+
+  if (payee.type === 'DAY') {
+    // Names not linked to the register match on the tidied name, as payables group them
+    const labors = await db.projectLabor.findMany({
+      where: { companyId, projectId, type: 'DAY', workerId: null },
+      select,
+      orderBy,
+    });
+    return {
+      payeeName: payee.name,
+      labors: labors.filter((labor) => legacyWorkerLabel(labor.workerName) === payee.name),
+    };
+  }
+
+  const worker = await db.worker.findFirst({
+    where: { id: payee.workerId, companyId },
+    select: { name: true },
+  });
+  if (!worker) {
+    throw new Error(payee.type === 'TEAM_LEADER' ? 'Team leader not found' : 'Worker not found');
+  }
+  const labors = await db.projectLabor.findMany({
+    where: {
+      companyId,
+      projectId,
+      type: 'DAY',
+      ...(payee.type === 'TEAM_LEADER' ? { teamLeaderId: payee.workerId } : { workerId: payee.workerId }),
+    },
+    select,
+    orderBy,
+  });
+  return { payeeName: worker.name, labors };
+}
+
+/**
+ * Pay wages on a project: posts the PAYMENT voucher, records the payment with its
+ * allocations and moves the paid and due amounts of the labor entries settled
+ */
+export async function createWagePayment(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  data: WagePaymentCreate,
+  request?: NextRequest
+) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to your company');
+  }
+
+  const accountIds = await ensureSystemAccounts(companyId);
+  const directLaborAccountId = accountIds[SYSTEM_ACCOUNT_CODES.DIRECT_LABOR];
+  const account = await resolvePaymentAccountId(companyId, data.paymentMethod);
+  if ('error' in account) {
+    throw new Error(account.error);
+  }
+  const date = new Date(`${data.date}T00:00:00.000Z`);
+
+  const payment = await prisma.$transaction(async (tx) => {
+    const lockError = await getPostingLockError(companyId, date, tx);
+    if (lockError) {
+      throw new Error(lockError);
+    }
+
+    // Dues still open on each entry, shared across payees so a worker and their team
+    // leader paid together cannot settle the same wage twice
+    const remaining = new Map<string, Prisma.Decimal>();
+    // Amount paid on each entry as read, to claim the entry with when it is settled
+    const paidRead = new Map<string, Prisma.Decimal | null>();
+    const payees: Array<{ payeeName: string; amount: Prisma.Decimal }> = [];
+    const allocations: Array<{ laborId: string; payeeName: string; amount: Prisma.Decimal }> = [];
+
+    for (const entry of data.payees) {
+      const payee = parsePayeeKey(entry.payeeKey);
+      if (!payee) {
+        throw new Error('Invalid payee');
+      }
+      const { payeeName, labors } = await getPayeeLabors(tx, companyId, projectId, payee);
+      if (entry.laborIds?.some((laborId) => !labors.some((labor) => labor.id === laborId))) {
+        throw new Error(`Labor entry not found for ${payeeName}`);
+      }
+
+      const open = labors
+        .filter((labor) => !entry.laborIds || entry.laborIds.includes(labor.id))
+        .map((labor) => {
+          if (!remaining.has(labor.id)) {
+            paidRead.set(labor.id, labor.paid);
+            const due = labor.amount.minus(labor.paid ?? ZERO);
+            remaining.set(labor.id, due.gt(0) ? due : ZERO);
+          }
+          return { laborId: labor.id, due: remaining.get(labor.id)! };
+        })
+        .filter((labor) => labor.due.gt(0));
+      const totalDue = open.reduce((sum, labor) => sum.plus(labor.due), ZERO);
+      const amount = new Prisma.Decimal(entry.amount).toDecimalPlaces(2);
+      if (amount.gt(totalDue)) {
+        throw new Error(
+          `Payment of ${amount.toString()} to ${payeeName} exceeds the ${totalDue.toString()} due`
+        );
+      }
+
+      let left = amount;
+      for (const labor of open) {
+        if (left.lte(0)) break;
+        const settled = Prisma.Decimal.min(left, labor.due);
+        allocations.push({ laborId: labor.laborId, payeeName, amount: settled });
+        remaining.set(labor.laborId, labor.due.minus(settled));
+        left = left.minus(settled);
+      }
+      payees.push({ payeeName, amount });
+    }
+
+    const total = payees.reduce((sum, payee) => sum.plus(payee.amount), ZERO);
+    const voucherNo = await generateVoucherNumber(tx, companyId, {
+      date,
+      type: 'PAYMENT',
+      projectId,
+    });
+    const voucher = await tx.voucher.create({
+      data: {
+        companyId,
+        projectId,
+        voucherNo,
+        type: 'PAYMENT',
+        date,
+        status: 'POSTED',
+        narration:
+          data.narration ||
+          `Wages paid to ${payees.map((payee) => payee.payeeName).join(', ')} - ${project.name}`,
+        createdByUserId: userId,
+        postedByUserId: userId,
+        postedAt: new Date(),
+        lines: {
+          create: [
+            // Debit: wages paid to each worker or team leader
+            ...payees.map((payee) => ({
+              companyId,
+              accountId: directLaborAccountId,
+              description: `Wages - ${payee.payeeName}`,
+              debit: payee.amount,
+              credit: 0,
+              projectId,
+              receivedBy: payee.payeeName,
+            })),
+            // Credit: cash or bank paid out
+            {
+              companyId,
+              accountId: account.paymentAccountId,
+              description: 'Wages paid',
+              debit: 0,
+              credit: total,
+              projectId,
+            },
+          ],
+        },
+      },
+      select: { id: true, voucherNo: true },
+    });
+
+    const created = await tx.wagePayment.create({
+      data: {
+        companyId,
+        projectId,
+        voucherId: voucher.id,
+        date,
+        paymentAccountId: account.paymentAccountId,
+        amount: total,
+        narration: data.narration || null,
+        createdByUserId: userId,
+        allocations: { create: allocations },
+      },
+      select: { id: true, date: true, amount: true },
+    });
+
+    for (const laborId of Array.from(new Set(allocations.map((a) => a.laborId)))) {
+      const settled = allocations
+        .filter((a) => a.laborId === laborId)
+        .reduce((sum, a) => sum.plus(a.amount), ZERO);
+      const labor = await tx.projectLabor.findUniqueOrThrow({
+        where: { id: laborId },
+        select: { amount: true },
+      });
+      const before = paidRead.get(laborId) ?? null;
+      const paid = (before ?? ZERO).plus(settled);
+      const due = labor.amount.minus(paid);
+      // Only if nothing was paid on the entry since its dues were read
+      const claimed = await tx.projectLabor.updateMany({
+        where: { id: laborId, paid: before },
+        data: { paid, due: due.gt(0) ? due : ZERO },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Wages were paid by someone else in the meantime; please reload');
+      }
+    }
+
+    return {
+      id: created.id,
+      date: data.date,
+      amount: Number(created.amount),
+      voucher,
+      payees: payees.map((payee) => ({ payeeName: payee.payeeName, amount: Number(payee.amount) })),
+      allocations: allocations.length,
+    };
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'WagePayment',
+    entityId: payment.id,
+    action: 'CREATE',
+    after: payment,
+    metadata: { projectId, voucherId: payment.voucher.id },
+    request,
+  });
+
+  return payment;
+}
+
+/**
+ * Wage payments of a project, newest first, with who was paid
+ */
+export async function listWagePayments(companyId: string, projectId: string, take = 50) {
+  const payments = await prisma.wagePayment.findMany({
+    where: { companyId, projectId },
+    select: {
+      id: true,
+      date: true,
+      amount: true,
+      narration: true,
+      voucher: { select: { id: true, voucherNo: true, status: true } },
+      paymentAccount: { select: { code: true, name: true } },
+      createdBy: { select: { name: true } },
+      allocations: { select: { payeeName: true, amount: true } },
+    },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    take,
+  });
+
+  return payments.map((payment) => {
+    const payees = new Map<string, number>();
+    for (const allocation of payment.allocations) {
+      payees.set(
+        allocation.payeeName,
+        (payees.get(allocation.payeeName) ?? 0) + Number(allocation.amount)
+      );
+    }
+    return {
+      id: payment.id,
+      date: payment.date.toISOString().split('T')[0],
+      amount: Number(payment.amount),
+      narration: payment.narration,
+      voucher: payment.voucher,
+      paymentAccount: payment.paymentAccount,
+      createdBy: payment.createdBy.name,
+      payees: Array.from(payees, ([payeeName, amount]) => ({
+        payeeName,
+        amount: Math.round(amount * 100) / 100,
+      })),
+    };
+  });
+}
+
+export type WagePaymentView = Awaited<ReturnType<typeof listWagePayments>>[number];
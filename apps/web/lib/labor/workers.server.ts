@@ -0,0 +1,553 @@
+/**
+ * Worker register
+ *
+ * Day labourers, contract workers and monthly staff are kept once per company with their
+ * phone, national ID, trade, default daily rate, team leader and the project sites they
+ * are deployed to. Labor entries point at the worker (and at the team leader) so payables
+ * and ledgers group by the worker rather than by how a name was typed; the entry keeps a
+ * copy of the name for reports that read it. Entries from before the register can be
+ * linked with the name merge tool below.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  WorkerCreate,
+  WorkerListFilters,
+  WorkerNameMerge,
+  WorkerUpdate,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const workerInclude = Prisma.validator<Prisma.WorkerInclude>()({
+  teamLeader: { select: { id: true, name: true } },
+  sites: {
+    select: { project: { select: { id: true, name: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+  _count: { select: { labors: true, teamMembers: true } },
+});
+
+function serializeWorker(worker: Prisma.WorkerGetPayload<{ include: typeof workerInclude }>) {
+  return {
+    id: worker.id,
+    name: worker.name,
+    phone: worker.phone,
+    nationalId: worker.nationalId,
+    trade: worker.trade,
+    defaultDailyRate: worker.defaultDailyRate != null ? Number(worker.defaultDailyRate) : null,
+    teamLeader: worker.teamLeader,
+    isActive: worker.isActive,
+    notes: worker.notes,
+    sites: worker.sites.map((site) => site.project),
+    laborCount: worker._count.labors,
+    teamSize: worker._count.teamMembers,
+    createdAt: worker.createdAt,
+  };
+}
+
+export type WorkerView = ReturnType<typeof serializeWorker>;
+
+/**
+ * Trim a typed name and collapse its inner whitespace
+ */
+export function normalizeWorkerName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Key under which typed names count as the same person: normalized and case-insensitive
+ */
+export function workerNameKey(name: string): string {
+  return normalizeWorkerName(name).toLowerCase();
+}
+
+/**
+ * Workers of the register, active only unless asked, optionally those deployed to a project
+ */
+export async function listWorkers(companyId: string, filters: Partial<WorkerListFilters> = {}) {
+  const q = filters.q?.trim();
+  const workers = await prisma.worker.findMany({
+    where: {
+      companyId,
+      ...(filters.includeInactive ? {} : { isActive: true }),
+      ...(filters.projectId ? { sites: { some: { projectId: filters.projectId } } } : {}),
+      ...(q
+        ? {
+            OR: [
+              { name: { contains: q, mode: 'insensitive' as const } },
+              { phone: { contains: q } },
+              { nationalId: { contains: q } },
+              { trade: { contains: q, mode: 'insensitive' as const } },
+            ],
+          }
+        : {}),
+    },
+    include: workerInclude,
+    orderBy: { name: 'asc' },
+  });
+  return workers.map(serializeWorker);
+}
+
+async function assertProjects(db: Db, companyId: string, projectIds: string[]) {
+  if (projectIds.length === 0) return;
+  const count = await db.project.count({
+    where: { companyId, id: { in: projectIds } },
+  });
+  if (count !== new Set(projectIds).size) {
+    throw new Error('Project not found or does not belong to your company');
+  }
+}
+
+async function assertTeamLeader(
+  db: Db,
+  companyId: string,
+  teamLeaderId: string | null | undefined,
+  workerId?: string
+) {
+  if (!teamLeaderId) return;
+  if (teamLeaderId === workerId) {
+    throw new Error('A worker cannot be their own team leader');
+  }
+  const leader = await db.worker.findFirst({
+    where: { id: teamLeaderId, companyId },
+    select: { id: true },
+  });
+  if (!leader) {
+    throw new Error('Team leader not found');
+  }
+}
+
+async function assertNationalIdFree(
+  db: Db,
+  companyId: string,
+  nationalId: string | null | undefined,
+  workerId?: string
+) {
+  if (!nationalId) return;
+  const other = await db.worker.findFirst({
+    where: { companyId, nationalId, ...(workerId ? { id: { not: workerId } } : {}) },
+    select: { name: true },
+  });
+  if (other) {
+    throw new Error(`National ID ${nationalId} is already registered to ${other.name}`);
+  }
+}
+
+/**
+ * Add a worker to the register
+ */
+export async function createWorker(
+  companyId: string,
+  userId: string,
+  data: WorkerCreate,
+  request?: NextRequest
+) {
+  const nationalId = data.nationalId || null;
+  await Promise.all([
+    assertProjects(prisma, companyId, data.projectIds),
+    assertTeamLeader(prisma, companyId, data.teamLeaderId),
+    assertNationalIdFree(prisma, companyId, nationalId),
+  ]);
+
+  const worker = await prisma.worker.create({
+    data: {
+      companyId,
+      name: normalizeWorkerName(data.name),
+      phone: data.phone || null,
+      nationalId,
+      trade: data.trade || null,
+      defaultDailyRate:
+        data.defaultDailyRate != null ? new Prisma.Decimal(data.defaultDailyRate) : null,
+      teamLeaderId: data.teamLeaderId || null,
+      notes: data.notes || null,
+      sites: {
+        create: Array.from(new Set(data.projectIds)).map((projectId) => ({ projectId })),
+      },
+    },
+    include: workerInclude,
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Worker',
+    entityId: worker.id,
+    action: 'CREATE',
+    after: worker,
+    request,
+  });
+
+  return serializeWorker(worker);
+}
+
+/**
+ * Update a worker. A new name is copied onto the worker's labor entries; projectIds, when
+ * given, replaces the sites the worker is deployed to.
+ */
+export async function updateWorker(
+  companyId: string,
+  userId: string,
+  workerId: string,
+  data: WorkerUpdate,
+  request?: NextRequest
+) {
+  const existing = await prisma.worker.findFirst({
+    where: { id: workerId, companyId },
+    include: workerInclude,
+  });
+  if (!existing) {
+    throw new Error('Worker not found');
+  }
+  const nationalId = data.nationalId !== undefined ? data.nationalId || null : undefined;
+  await Promise.all([
+    assertProjects(prisma, companyId, data.projectIds ?? []),
+    assertTeamLeader(prisma, companyId, data.teamLeaderId, workerId),
+    assertNationalIdFree(prisma, companyId, nationalId, workerId),
+  ]);
+  const name = data.name !== undefined ? normalizeWorkerName(data.name) : undefined;
+
+  const worker = await prisma.$transaction(async (tx) => {
+    if (data.projectIds) {
+      const projectIds = Array.from(new Set(data.projectIds));
+      await tx.workerSite.deleteMany({
+        where: { workerId, projectId: { notIn: projectIds } },
+      });
+      for (const projectId of projectIds) {
+        await tx.workerSite.upsert({
+          where: { workerId_projectId: { workerId, projectId } },
+          create: { workerId, projectId },
+          update: {},
+        });
+      }
+    }
+    if (name && name !== existing.name) {
+      await copyWorkerNameToLabors(tx, companyId, workerId, name);
+    }
+    return tx.worker.update({
+      where: { id: workerId },
+      data: {
+        ...(name !== undefined ? { name } : {}),
+        ...(data.phone !== undefined ? { phone: data.phone || null } : {}),
+        ...(nationalId !== undefined ? { nationalId } : {}),
+        ...(data.trade !== undefined ? { trade: data.trade || null } : {}),
+        ...(data.defaultDailyRate !== undefined
+          ? {
+              defaultDailyRate:
+                data.defaultDailyRate != null ? new Prisma.Decimal(data.defaultDailyRate) : null,
+            }
+          : {}),
+        ...(data.teamLeaderId !== undefined ? { teamLeaderId: data.teamLeaderId || null } : {}),
+        ...(data.notes !== undefined ? { notes: data.notes || null } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+      include: workerInclude,
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Worker',
+    entityId: worker.id,
+    action: 'UPDATE',
+    before: existing,
+    after: worker,
+    request,
+  });
+
+  return serializeWorker(worker);
+}
+
+async function copyWorkerNameToLabors(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  workerId: string,
+  name: string
+) {
+  await tx.projectLabor.updateMany({
+    where: { companyId, workerId, type: 'MONTHLY' },
+    data: { employeeName: name },
+  });
+  await tx.projectLabor.updateMany({
+    where: { companyId, workerId, type: { not: 'MONTHLY' } },
+    data: { workerName: name },
+  });
+  await tx.projectLabor.updateMany({
+    where: { companyId, teamLeaderId: workerId },
+    data: { teamLeader: name },
+  });
+}
+
+/**
+ * The worker and team leader of a labor entry being saved: checks they are in the
+ * register and returns the names to store on the entry. The worker is added to the
+ * project's sites if not there yet.
+ */
+export async function resolveLaborWorkers(
+  db: Db,
+  companyId: string,
+  projectId: string,
+  params: { workerId?: string | null; teamLeaderId?: string | null }
+) {
+  const ids = [params.workerId, params.teamLeaderId].filter((id): id is string => !!id);
+  const workers = ids.length
+    ? await db.worker.findMany({
+        where: { companyId, id: { in: ids } },
+        select: { id: true, name: true },
+      })
+    : [];
+  const worker = params.workerId ? workers.find((w) => w.id === params.workerId) : null;
+  const teamLeader = params.teamLeaderId
+    ? workers.find((w) => w.id === params.teamLeaderId)
+    : null;
+  if (params.workerId && !worker) {
+    throw new Error('Worker not found');
+  }
+  if (params.teamLeaderId && !teamLeader) {
+    throw new Error('Team leader not found');
+  }
+  if (worker) {
+    await db.workerSite.upsert({
+      where: { workerId_projectId: { workerId: worker.id, projectId } },
+      create: { workerId: worker.id, projectId },
+      update: {},
+    });
+  }
+  return { worker: worker ?? null, teamLeader: teamLeader ?? null };
+}
+
+/**
+ * Free-text worker, employee and team leader names on labor entries not yet linked to
+ * the register, grouped by normalized name, with the worker each group would merge into
+ * when one already has that name
+ */
+export async function getUnlinkedWorkerNames(companyId: string) {
+  const [labors, workers] = await Promise.all([
+    prisma.projectLabor.findMany({
+      where: {
+        companyId,
+        OR: [
+          { workerId: null, workerName: { not: null } },
+          { workerId: null, employeeName: { not: null } },
+          { teamLeaderId: null, teamLeader: { not: null } },
+        ],
+      },
+      select: {
+        type: true,
+        amount: true,
+        workerId: true,
+        workerName: true,
+        employeeName: true,
+        teamLeaderId: true,
+        teamLeader: true,
+        project: { select: { id: true, name: true } },
+      },
+    }),
+    prisma.worker.findMany({
+      where: { companyId },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const workersByKey = new Map(workers.map((worker) => [workerNameKey(worker.name), worker]));
+
+  const groups = new Map<
+    string,
+    {
+      key: string;
+      variants: Map<string, number>;
+      entryCount: number;
+      teamLeaderCount: number;
+      amount: number;
+      projects: Map<string, string>;
+    }
+  >();
+  const add = (name: string | null, labor: (typeof labors)[number], asTeamLeader: boolean) => {
+    if (!name || !normalizeWorkerName(name)) return;
+    const key = workerNameKey(name);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        variants: new Map(),
+        entryCount: 0,
+        teamLeaderCount: 0,
+        amount: 0,
+        projects: new Map(),
+      };
+      groups.set(key, group);
+    }
+    group.variants.set(name, (group.variants.get(name) ?? 0) + 1);
+    if (asTeamLeader) {
+      group.teamLeaderCount += 1;
+    } else {
+      group.entryCount += 1;
+      group.amount += Number(labor.amount);
+    }
+    group.projects.set(labor.project.id, labor.project.name);
+  };
+
+  for (const labor of labors) {
+    if (!labor.workerId) {
+      const name =
+        labor.type === 'MONTHLY'
+          ? labor.employeeName ?? labor.workerName
+          : labor.workerName ?? labor.employeeName;
+      add(name, labor, false);
+    }
+    if (!labor.teamLeaderId) {
+      add(labor.teamLeader, labor, true);
+    }
+  }
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const variants = Array.from(group.variants.entries())
+        .map(([name, count]) => ({ name, count }))
+        .sort((a, b) => b.count - a.count);
+      return {
+        key: group.key,
+        // The most used spelling, tidied
+        suggestedName: normalizeWorkerName(variants[0].name),
+        variants,
+        entryCount: group.entryCount,
+        teamLeaderCount: group.teamLeaderCount,
+        amount: Math.round(group.amount * 100) / 100,
+        projects: Array.from(group.projects.entries()).map(([id, name]) => ({ id, name })),
+        matchingWorker: workersByKey.get(group.key) ?? null,
+      };
+    })
+    .sort((a, b) => a.suggestedName.localeCompare(b.suggestedName));
+}
+
+export type UnlinkedWorkerName = Awaited<ReturnType<typeof getUnlinkedWorkerNames>>[number];
+
+/**
+ * Link free-text names on labor entries to the register. Each group's names (as typed)
+ * go to the chosen worker, or to a worker created with the group's name; groups given the
+ * same new name (ignoring case and spacing) share one worker, so typos can be folded
+ * together. Linked entries take the worker's name, and the worker is deployed to the
+ * projects the entries belong to.
+ */
+export async function mergeWorkerNames(
+  companyId: string,
+  userId: string,
+  data: WorkerNameMerge,
+  request?: NextRequest
+) {
+  const result = await prisma.$transaction(async (tx) => {
+    const created = new Map<string, { id: string; name: string }>();
+    const touched = new Map<string, { id: string; name: string; mergedNames: string[] }>();
+    let linkedEntries = 0;
+
+    for (const group of data.groups) {
+      let worker: { id: string; name: string } | null = null;
+      if (group.workerId) {
+        worker = await tx.worker.findFirst({
+          where: { id: group.workerId, companyId },
+          select: { id: true, name: true },
+        });
+        if (!worker) {
+          throw new Error('Worker not found');
+        }
+      } else {
+        const name = normalizeWorkerName(group.name ?? '');
+        const key = workerNameKey(name);
+        worker = created.get(key) ?? null;
+        if (!worker) {
+          worker = await tx.worker.create({
+            data: { companyId, name },
+            select: { id: true, name: true },
+          });
+          created.set(key, worker);
+        }
+      }
+      const merged = touched.get(worker.id) ?? { ...worker, mergedNames: [] };
+      merged.mergedNames.push(...group.names);
+      touched.set(worker.id, merged);
+
+      const names = group.names;
+      const asWorker = await tx.projectLabor.findMany({
+        where: {
+          companyId,
+          workerId: null,
+          OR: [
+            { type: { not: 'MONTHLY' }, workerName: { in: names } },
+            { type: 'MONTHLY', employeeName: { in: names } },
+            { type: 'MONTHLY', employeeName: null, workerName: { in: names } },
+            { type: { not: 'MONTHLY' }, workerName: null, employeeName: { in: names } },
+          ],
+        },
+        select: { id: true, type: true, projectId: true },
+      });
+      const monthlyIds = asWorker.filter((l) => l.type === 'MONTHLY').map((l) => l.id);
+      const otherIds = asWorker.filter((l) => l.type !== 'MONTHLY').map((l) => l.id);
+      if (monthlyIds.length > 0) {
+        await tx.projectLabor.updateMany({
+          where: { id: { in: monthlyIds } },
+          data: { workerId: worker.id, employeeName: worker.name },
+        });
+      }
+      if (otherIds.length > 0) {
+        await tx.projectLabor.updateMany({
+          where: { id: { in: otherIds } },
+          data: { workerId: worker.id, workerName: worker.name },
+        });
+      }
+      const asTeamLeader = await tx.projectLabor.updateMany({
+        where: { companyId, teamLeaderId: null, teamLeader: { in: names } },
+        data: { teamLeaderId: worker.id, teamLeader: worker.name },
+      });
+      linkedEntries += asWorker.length + asTeamLeader.count;
+
+      const projectIds = Array.from(new Set(asWorker.map((l) => l.projectId)));
+      for (const projectId of projectIds) {
+        await tx.workerSite.upsert({
+          where: { workerId_projectId: { workerId: worker.id, projectId } },
+          create: { workerId: worker.id, projectId },
+          update: {},
+        });
+      }
+    }
+
+    return {
+      createdWorkers: Array.from(created.values()),
+      workers: Array.from(touched.values()),
+      linkedEntries,
+    };
+  });
+
+  for (const worker of result.createdWorkers) {
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Worker',
+      entityId: worker.id,
+      action: 'CREATE',
+      after: worker,
+      metadata: { source: 'name-merge' },
+      request,
+    });
+  }
+  for (const { mergedNames, ...worker } of result.workers) {
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Worker',
+      entityId: worker.id,
+      action: 'UPDATE',
+      after: worker,
+      metadata: { mergedNames },
+      request,
+    });
+  }
+
+  return {
+    createdWorkers: result.createdWorkers.length,
+    workers: result.workers.length,
+    linkedEntries: result.linkedEntries,
+  };
+}
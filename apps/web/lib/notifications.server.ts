@@ -0,0 +1,111 @@
+/**
+ * In-app notifications
+ *
+ * A notification is addressed to one user. Services raise them for everyone whose role
+ * can act on the matter (for example everyone who can write purchases when an item runs
+ * low at a site); users see theirs in the dashboard and mark them read.
+ */
+
+import { prisma } from '@accounting/db';
+import { NotificationKind, Prisma } from '@prisma/client';
+import type { NotificationListFilters, NotificationMarkRead } from '@accounting/shared';
+import { can, type Action, type Resource, type UserRole } from '@/lib/permissions';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const LIST_LIMIT = 50;
+
+/**
+ * Notify every active user of the company holding any of the given permissions
+ */
+export async function notifyUsers(
+  db: Db,
+  params: {
+    companyId: string;
+    recipients: Array<{ resource: Resource; action: Action }>;
+    kind: NotificationKind;
+    title: string;
+    message: string;
+    link?: string | null;
+    entityType?: string | null;
+    entityId?: string | null;
+  }
+): Promise<number> {
+  const users = await db.user.findMany({
+    where: { companyId: params.companyId, isActive: true },
+    select: { id: true, role: true },
+  });
+  const userIds = users
+    .filter((user) =>
+      params.recipients.some(({ resource, action }) => can(user.role as UserRole, resource, action))
+    )
+    .map((user) => user.id);
+  if (userIds.length === 0) {
+    return 0;
+  }
+
+  const result = await db.notification.createMany({
+    data: userIds.map((userId) => ({
+      companyId: params.companyId,
+      userId,
+      kind: params.kind,
+      title: params.title,
+      message: params.message,
+      link: params.link ?? null,
+      entityType: params.entityType ?? null,
+      entityId: params.entityId ?? null,
+    })),
+  });
+  return result.count;
+}
+
+/**
+ * The user's latest notifications and how many are unread
+ */
+export async function listNotifications(
+  companyId: string,
+  userId: string,
+  filters: Partial<NotificationListFilters> = {}
+) {
+  const [notifications, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where: { companyId, userId, ...(filters.unread ? { readAt: null } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: LIST_LIMIT,
+    }),
+    prisma.notification.count({ where: { companyId, userId, readAt: null } }),
+  ]);
+
+  return {
+    unreadCount,
+    notifications: notifications.map((notification) => ({
+      id: notification.id,
+      kind: notification.kind,
+      title: notification.title,
+      message: notification.message,
+      link: notification.link,
+      createdAt: notification.createdAt,
+      readAt: notification.readAt,
+    })),
+  };
+}
+
+/**
+ * Mark the user's notifications read; returns how many changed
+ */
+export async function markNotificationsRead(
+  companyId: string,
+  userId: string,
+  data: NotificationMarkRead
+): Promise<number> {
+  const result = await prisma.notification.updateMany({
+    where: {
+      companyId,
+      userId,
+      readAt: null,
+      ...(data.all ? {} : { id: { in: data.ids ?? [] } }),
+    },
+    data: { readAt: new Date() },
+  });
+  return result.count;
+}
@@ -143,6 +143,7 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
         },
         select: {
           amount: true,
+          fxAmount: true,
         },
       },
     },
@@ -173,6 +174,14 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
       // Only return items with outstanding > 0
       if (outstanding <= 0) return null;
 
+      // Foreign-currency bills are settled in their own currency
+      const fxOriginalAmount = line.currencyCode
+        ? decimalToNumber(line.fxCredit) - decimalToNumber(line.fxDebit)
+        : null;
+      const fxAllocatedAmount = line.currencyCode
+        ? line.sourceAllocations.reduce((sum, alloc) => sum + decimalToNumber(alloc.fxAmount), 0)
+        : null;
+
       return {
         lineId: line.id,
         voucherId: line.voucher.id,
@@ -184,6 +193,14 @@ export async function getVendorOpenItems(vendorId: string, companyId: string) {
         originalAmount,
         allocatedAmount,
         outstanding,
+        currencyCode: line.currencyCode,
+        exchangeRate: line.exchangeRate ? decimalToNumber(line.exchangeRate) : null,
+        fxOriginalAmount,
+        fxAllocatedAmount,
+        fxOutstanding:
+          fxOriginalAmount !== null && fxAllocatedAmount !== null
+            ? Math.round((fxOriginalAmount - fxAllocatedAmount) * 100) / 100
+            : null,
       };
     })
     .filter((item): item is NonNullable<typeof item> => item !== null);
@@ -9,7 +9,7 @@ export type UserRole =
   | 'DATA_ENTRY'
   | 'VIEWER';
 
-export type Resource = 'companies' | 'projects' | 'vendors' | 'paymentMethods' | 'vouchers' | 'purchases' | 'expenses' | 'stock' | 'users';
+export type Resource = 'companies' | 'projects' | 'vendors' | 'paymentMethods' | 'vouchers' | 'purchases' | 'expenses' | 'stock' | 'requisitions' | 'stockTakes' | 'users';
 export type Action = 'READ' | 'WRITE' | 'POST' | 'APPROVE';
 
 /**
@@ -50,6 +50,16 @@ export const permissions: Record<Resource, Partial<Record<Action, UserRole[]>>>
     READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
     WRITE: ['ADMIN', 'ACCOUNTANT'],
   },
+  requisitions: {
+    READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
+    WRITE: ['ADMIN', 'ACCOUNTANT', 'ENGINEER'],
+    APPROVE: ['ADMIN', 'ACCOUNTANT'],
+  },
+  stockTakes: {
+    READ: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY', 'VIEWER'],
+    WRITE: ['ADMIN', 'ACCOUNTANT', 'ENGINEER', 'DATA_ENTRY'],
+    APPROVE: ['ADMIN', 'ACCOUNTANT'],
+  },
   users: {
     READ: ['ADMIN'],
     WRITE: ['ADMIN'],
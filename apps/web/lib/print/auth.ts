@@ -10,7 +10,7 @@ import { prisma } from '@accounting/db';
  */
 export async function authenticatePrintRoute(
   searchParams: { pdfToken?: string },
-  requiredPermission: { resource: 'vouchers' | 'projects'; action: 'READ' }
+  requiredPermission: { resource: 'vouchers' | 'projects' | 'stockTakes'; action: 'READ' }
 ): Promise<{ userId: string; companyId: string }> {
   // Try PDF token first (for server-side PDF generation)
   if (searchParams.pdfToken) {
@@ -24,6 +24,9 @@ function endOfToday(): Date {
 /**
  * Labor totals by type (DAY / MONTHLY / CONTRACT), workers today count, and pending wages.
  * totalLaborCost = dailyCost + monthlyCost + contractCost.
+ * Day labor from the attendance sheet is included in dailyCost through the entries it
+ * generates; workers today counts those present on today's attendance plus any day labor
+ * entered by hand for today.
  */
 export async function getProjectLaborSummary(
   projectId: string,
@@ -41,7 +44,7 @@ export async function getProjectLaborSummary(
   const todayStart = startOfToday();
   const todayEnd = endOfToday();
 
-  const [dayAgg, monthlyAgg, contractAgg, workersTodayCount] = await Promise.all([
+  const [dayAgg, monthlyAgg, contractAgg, manualTodayCount, attendanceTodayCount] = await Promise.all([
     prisma.projectLabor.aggregate({
       where: { projectId, companyId, type: 'DAY' },
       _sum: { amount: true },
@@ -60,6 +63,15 @@ export async function getProjectLaborSummary(
         companyId,
         type: 'DAY',
         date: { gte: todayStart, lte: todayEnd },
+        attendance: null,
+      },
+    }),
+    prisma.laborAttendance.count({
+      where: {
+        projectId,
+        companyId,
+        date: todayStart,
+        status: { in: ['PRESENT', 'HALF_DAY'] },
       },
     }),
   ]);
@@ -70,7 +82,7 @@ export async function getProjectLaborSummary(
   const totalLaborCost = dailyCost + monthlyCost + contractCost;
 
   return {
-    workersToday: workersTodayCount,
+    workersToday: manualTodayCount + attendanceTodayCount,
     dailyCost,
     monthlyCost,
     contractCost,
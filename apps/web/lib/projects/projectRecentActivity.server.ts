@@ -1,5 +1,6 @@
 import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
+import { projectMovementsWhere } from '../stock/projectStock.server';
 
 export type ActivityType = 'purchase' | 'stock_in' | 'stock_out' | 'labor' | 'debit' | 'credit';
 
@@ -67,7 +68,7 @@ export async function getProjectRecentActivity(
     prisma.stockMovement.findMany({
       where: {
         companyId,
-        OR: [{ projectId }, { destinationProjectId: projectId }],
+        ...projectMovementsWhere(projectId),
       },
       orderBy: { movementDate: 'desc' },
       take: ACTIVITY_LIMIT_PER_SOURCE,
@@ -75,6 +76,7 @@ export async function getProjectRecentActivity(
         id: true,
         movementDate: true,
         type: true,
+        movementKind: true,
         qty: true,
         unitCost: true,
         stockItem: { select: { name: true } },
@@ -119,7 +121,14 @@ export async function getProjectRecentActivity(
   for (const s of stockMovements) {
     const qty = s.qty.toNumber();
     const value = s.unitCost ? qty * s.unitCost.toNumber() : null;
-    const label = s.type === 'IN' ? 'Stock received' : 'Stock used';
+    const label =
+      s.movementKind === 'TRANSFER_IN'
+        ? 'Stock transferred in'
+        : s.movementKind === 'TRANSFER_OUT'
+          ? 'Stock transferred out'
+          : s.type === 'IN'
+            ? 'Stock received'
+            : 'Stock used';
     items.push({
       date: s.movementDate,
       type: s.type === 'IN' ? 'stock_in' : 'stock_out',
@@ -1,6 +1,7 @@
 import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
 import { getProjectTotalCredit, getCompanyTotalCredit } from '../credits/creditTotals.server';
+import { netStockValue } from '../stock/projectStock.server';
 
 export interface LaborByType {
   DAY: number;
@@ -90,26 +91,24 @@ export async function getProjectTotals(
           qty: true,
         },
       }).then(async (result) => {
-        // Get total valuation: sum of (qty * unitCost) for all IN movements - PROJECT SCOPED
+        // Get total valuation: sum of (qty * unitCost) for all IN movements, less stock
+        // transferred to other projects - PROJECT SCOPED
         const movements = await prisma.stockMovement.findMany({
           where: {
             projectId, // PROJECT SCOPED: only movements for this project
             companyId,
-            type: 'IN',
+            OR: [{ type: 'IN' }, { movementKind: 'TRANSFER_OUT' }],
             unitCost: { not: null },
           },
           select: {
+            type: true,
+            movementKind: true,
             qty: true,
             unitCost: true,
           },
         });
 
-        return movements.reduce((sum, m) => {
-          if (m.unitCost) {
-            return sum + m.qty.toNumber() * m.unitCost.toNumber();
-          }
-          return sum;
-        }, 0);
+        return netStockValue(movements);
       }),
 
       // Investments total - PROJECT SCOPED
@@ -313,21 +312,22 @@ export async function getCompanyTotals(
 
     // Stocks total (valuation)
     (async () => {
-      const stockWhere = { ...whereClause, type: 'IN' as const, unitCost: { not: null } };
+      const stockWhere = {
+        ...whereClause,
+        OR: [{ type: 'IN' as const }, { movementKind: 'TRANSFER_OUT' as const }],
+        unitCost: { not: null },
+      };
       const movements = await prisma.stockMovement.findMany({
         where: stockWhere,
         select: {
+          type: true,
+          movementKind: true,
           qty: true,
           unitCost: true,
         },
       });
 
-      return movements.reduce((sum, m) => {
-        if (m.unitCost) {
-          return sum + m.qty.toNumber() * m.unitCost.toNumber();
-        }
-        return sum;
-      }, 0);
+      return netStockValue(movements);
     })(),
 
     // Investments total
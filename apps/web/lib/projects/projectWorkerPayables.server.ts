@@ -1,4 +1,6 @@
 import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { normalizeWorkerName } from '@/lib/labor/workers.server';
 
 export interface WorkerPayablesAging {
   d0_7: number;
@@ -17,6 +19,13 @@ export interface WorkerPayablesItem {
   lastWorkDate: string | null;
 }
 
+export interface TeamLeaderPayablesItem {
+  teamLeaderId: string;
+  teamLeaderName: string;
+  workerCount: number;
+  totalDue: number;
+}
+
 export interface ProjectWorkerPayables {
   totals: {
     totalLaborAmount: number;
@@ -25,6 +34,8 @@ export interface ProjectWorkerPayables {
     workerCountWithDue: number;
   };
   workers: WorkerPayablesItem[];
+  // Dues of each team leader's workers, for paying a team through its leader
+  teamLeaders: TeamLeaderPayablesItem[];
 }
 
 function getAgingBucket(daysOutstanding: number): keyof WorkerPayablesAging {
@@ -35,11 +46,18 @@ function getAgingBucket(daysOutstanding: number): keyof WorkerPayablesAging {
 }
 
 /**
- * Build worker key for grouping: "DAY|name" (Worker Payables is DAY labor only).
+ * Label of a worker name not linked to the register, with whitespace tidied
  */
-function buildWorkerKey(workerName: string | null): string {
-  const name = (workerName || 'Unknown').trim() || 'Unknown';
-  return `DAY|${name}`;
+export function legacyWorkerLabel(workerName: string | null): string {
+  return normalizeWorkerName(workerName || '') || 'Unknown';
+}
+
+/**
+ * Build worker key for grouping: "W|workerId" for entries linked to the worker register,
+ * else "DAY|name" on the tidied name (Worker Payables is DAY labor only).
+ */
+function buildWorkerKey(workerId: string | null, workerName: string | null): string {
+  return workerId ? `W|${workerId}` : `DAY|${legacyWorkerLabel(workerName)}`;
 }
 
 /**
@@ -72,6 +90,10 @@ export async function getProjectWorkerPayables(
       due: true,
       workerName: true,
       employeeName: true,
+      workerId: true,
+      worker: { select: { name: true } },
+      teamLeaderId: true,
+      teamLeaderWorker: { select: { name: true } },
     },
     orderBy: { date: 'desc' },
   });
@@ -91,6 +113,10 @@ export async function getProjectWorkerPayables(
       lastWorkDate: Date | null;
     }
   >();
+  const teamLeaderMap = new Map<
+    string,
+    { teamLeaderName: string; workerKeys: Set<string>; totalDue: number }
+  >();
 
   for (const l of labors) {
     const amount = l.amount.toNumber();
@@ -100,8 +126,8 @@ export async function getProjectWorkerPayables(
         ? Math.max(0, l.due.toNumber())
         : Math.max(0, amount - paid);
 
-    const workerKey = buildWorkerKey(l.workerName);
-    const workerLabel = (l.workerName || 'Unknown').trim() || 'Unknown';
+    const workerKey = buildWorkerKey(l.workerId, l.workerName);
+    const workerLabel = l.worker?.name ?? legacyWorkerLabel(l.workerName);
 
     const workDate = new Date(l.date);
     workDate.setHours(0, 0, 0, 0);
@@ -131,6 +157,16 @@ export async function getProjectWorkerPayables(
     if (!row.lastWorkDate || l.date > row.lastWorkDate) {
       row.lastWorkDate = l.date;
     }
+
+    if (l.teamLeaderId && l.teamLeaderWorker && due > 0) {
+      let team = teamLeaderMap.get(l.teamLeaderId);
+      if (!team) {
+        team = { teamLeaderName: l.teamLeaderWorker.name, workerKeys: new Set(), totalDue: 0 };
+        teamLeaderMap.set(l.teamLeaderId, team);
+      }
+      team.workerKeys.add(workerKey);
+      team.totalDue += due;
+    }
   }
 
   let totalLaborAmount = 0;
@@ -159,6 +195,16 @@ export async function getProjectWorkerPayables(
 
   workers.sort((a, b) => b.totalDue - a.totalDue);
 
+  const teamLeaders: TeamLeaderPayablesItem[] = Array.from(
+    teamLeaderMap,
+    ([teamLeaderId, team]) => ({
+      teamLeaderId,
+      teamLeaderName: team.teamLeaderName,
+      workerCount: team.workerKeys.size,
+      totalDue: team.totalDue,
+    })
+  ).sort((a, b) => b.totalDue - a.totalDue);
+
   return {
     totals: {
       totalLaborAmount,
@@ -167,6 +213,7 @@ export async function getProjectWorkerPayables(
       workerCountWithDue,
     },
     workers,
+    teamLeaders,
   };
 }
 
@@ -179,6 +226,14 @@ export interface WorkerLedgerEntry {
   due: number;
   note: string | null;
   link: string;
+  // Wage payments settled against the entry, with their vouchers
+  payments: Array<{
+    voucherId: string;
+    voucherNo: string;
+    date: string;
+    amount: number;
+    payeeName: string;
+  }>;
 }
 
 export interface ProjectWorkerLedger {
@@ -189,17 +244,22 @@ export interface ProjectWorkerLedger {
 }
 
 /**
- * Parse workerKey from URL (e.g. "DAY%7CJohn" -> DAY|John)
+ * Parse workerKey from URL (e.g. "W%7Cclx..." -> worker id, "DAY%7CJohn" -> DAY|John)
  */
-export function parseWorkerKey(encoded: string): { type: 'DAY' | 'MONTHLY'; name: string } | null {
+export function parseWorkerKey(
+  encoded: string
+): { type: 'WORKER'; workerId: string } | { type: 'DAY' | 'MONTHLY'; name: string } | null {
   try {
     const decoded = decodeURIComponent(encoded);
     const idx = decoded.indexOf('|');
     if (idx === -1) return null;
-    const type = decoded.slice(0, idx) as 'DAY' | 'MONTHLY';
-    const name = decoded.slice(idx + 1);
-    if (type !== 'DAY' && type !== 'MONTHLY') return null;
-    return { type, name: name || 'Unknown' };
+    const prefix = decoded.slice(0, idx);
+    const rest = decoded.slice(idx + 1);
+    if (prefix === 'W') {
+      return rest ? { type: 'WORKER', workerId: rest } : null;
+    }
+    if (prefix !== 'DAY' && prefix !== 'MONTHLY') return null;
+    return { type: prefix, name: rest || 'Unknown' };
   } catch {
     return null;
   }
@@ -216,24 +276,23 @@ export async function getProjectWorkerLedger(
   const parsed = parseWorkerKey(workerKeyEncoded);
   if (!parsed) return null;
 
-  const { type, name } = parsed;
-
-  const where =
-    type === 'DAY'
-      ? {
-          projectId,
-          companyId,
-          type: 'DAY' as const,
-          OR: [{ workerName: name }, { employeeName: name }],
-        }
-      : {
-          projectId,
-          companyId,
-          type: 'MONTHLY' as const,
-          OR: [{ employeeName: name }, { workerName: name }],
-        };
+  let workerLabel: string;
+  let where: Prisma.ProjectLaborWhereInput;
+  if (parsed.type === 'WORKER') {
+    const worker = await prisma.worker.findFirst({
+      where: { id: parsed.workerId, companyId },
+      select: { name: true },
+    });
+    if (!worker) return null;
+    workerLabel = worker.name;
+    where = { projectId, companyId, type: 'DAY', workerId: parsed.workerId };
+  } else {
+    // Names not linked to the register match on the tidied name, as they are grouped
+    workerLabel = parsed.name;
+    where = { projectId, companyId, type: parsed.type, workerId: null };
+  }
 
-  const labors = await prisma.projectLabor.findMany({
+  const rows = await prisma.projectLabor.findMany({
     where,
     select: {
       id: true,
@@ -243,9 +302,28 @@ export async function getProjectWorkerLedger(
       paid: true,
       due: true,
       note: true,
+      workerName: true,
+      employeeName: true,
+      wagePaymentAllocations: {
+        select: {
+          amount: true,
+          payeeName: true,
+          wagePayment: {
+            select: { date: true, voucher: { select: { id: true, voucherNo: true } } },
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      },
     },
     orderBy: { date: 'asc' },
   });
+  const labors =
+    parsed.type === 'WORKER'
+      ? rows
+      : rows.filter((l) => {
+          const typed = parsed.type === 'DAY' ? l.workerName : l.employeeName ?? l.workerName;
+          return legacyWorkerLabel(typed) === parsed.name;
+        });
 
   if (labors.length === 0) return null;
 
@@ -273,12 +351,19 @@ export async function getProjectWorkerLedger(
       due,
       note: l.note,
       link: `/dashboard/projects/${projectId}/labor/${l.type === 'DAY' ? 'day' : 'monthly'}?laborId=${l.id}`,
+      payments: l.wagePaymentAllocations.map((a) => ({
+        voucherId: a.wagePayment.voucher.id,
+        voucherNo: a.wagePayment.voucher.voucherNo,
+        date: a.wagePayment.date.toISOString().split('T')[0],
+        amount: a.amount.toNumber(),
+        payeeName: a.payeeName,
+      })),
     });
   }
 
   return {
     workerKey: workerKeyEncoded,
-    workerLabel: name,
+    workerLabel,
     summary: { totalAmount, totalPaid, totalDue },
     entries,
   };
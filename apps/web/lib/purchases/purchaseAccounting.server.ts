@@ -5,8 +5,14 @@
 
 import { prisma } from '@accounting/db';
 import { Prisma } from '@prisma/client';
-import { generateVoucherNumber, isLeafAccount } from '@/lib/voucher';
+import { generateDraftVoucherNumber, isLeafAccount } from '@/lib/voucher';
+import { splitWithholding } from '@/lib/accounting/withholdingTax';
+import {
+  getWithholdingAccountIds,
+  resolveWithholdingRate,
+} from '@/lib/accounting/withholdingTax.server';
 import { NextRequest } from 'next/server';
+import { resolveStockLocationId } from '@/lib/stock/stockLocations.server';
 
 export interface VoucherCreateData {
   companyId: string;
@@ -22,6 +28,13 @@ export interface VoucherCreateData {
     projectId: string | null;
     vendorId: string | null;
   }>;
+  // VAT/AIT deducted at source from the amount paid on the purchase
+  withholdings?: Array<{
+    taxType: 'VAT' | 'AIT';
+    baseAmount: number;
+    ratePercent: number;
+    amount: number;
+  }>;
 }
 
 /**
@@ -282,6 +295,7 @@ export async function buildVoucherFromPurchase(
   }
 
   // Credit lines: payment account (if paid) and AP account (if due)
+  let withholdings: VoucherCreateData['withholdings'] = undefined;
   if (Number(purchase.paidAmount) > 0) {
     if (!purchase.paymentAccountId) {
       return {
@@ -303,14 +317,44 @@ export async function buildVoucherFromPurchase(
       return { success: false, error: 'Payment account must be a leaf account' };
     }
 
+    // VAT/AIT at the supplier's default rates is withheld from the amount paid
+    const paidAmount = Number(purchase.paidAmount);
+    const rate = await resolveWithholdingRate(companyId, purchase.supplierVendorId);
+    const split = splitWithholding(paidAmount, rate);
+
     lines.push({
       accountId: purchase.paymentAccountId,
       description: `Payment for purchase ${purchase.challanNo || purchase.id}`,
       debit: new Prisma.Decimal(0),
-      credit: purchase.paidAmount,
+      credit: new Prisma.Decimal(split.netAmount),
       projectId: null,
       vendorId: null,
     });
+
+    if (split.vatAmount > 0 || split.aitAmount > 0) {
+      const { vatPayableAccountId, aitPayableAccountId } = await getWithholdingAccountIds(companyId);
+      const taxes = [
+        { taxType: 'VAT' as const, accountId: vatPayableAccountId, ratePercent: rate.vatPercent, amount: split.vatAmount },
+        { taxType: 'AIT' as const, accountId: aitPayableAccountId, ratePercent: rate.aitPercent, amount: split.aitAmount },
+      ].filter((tax) => tax.amount > 0);
+
+      for (const tax of taxes) {
+        lines.push({
+          accountId: tax.accountId,
+          description: `${tax.taxType} deducted at source - ${purchase.supplierVendor.name}`,
+          debit: new Prisma.Decimal(0),
+          credit: new Prisma.Decimal(tax.amount),
+          projectId: null,
+          vendorId: null,
+        });
+      }
+      withholdings = taxes.map((tax) => ({
+        taxType: tax.taxType,
+        baseAmount: paidAmount,
+        ratePercent: tax.ratePercent,
+        amount: tax.amount,
+      }));
+    }
   }
 
   if (Number(purchase.dueAmount) > 0) {
@@ -354,6 +398,7 @@ export async function buildVoucherFromPurchase(
       narration,
       expenseType: 'PROJECT_EXPENSE',
       lines,
+      withholdings,
     },
   };
 }
@@ -389,7 +434,7 @@ export async function ensurePurchaseVoucher(
     }
 
     // Generate voucher number
-    const voucherNo = await generateVoucherNumber(companyId, voucherData.data.date);
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
 
     // Create voucher
     const voucher = await tx.voucher.create({
@@ -417,6 +462,18 @@ export async function ensurePurchaseVoucher(
       },
     });
 
+    if (voucherData.data.withholdings?.length) {
+      await tx.withholdingDeduction.createMany({
+        data: voucherData.data.withholdings.map((w) => ({
+          companyId,
+          voucherId: voucher.id,
+          vendorId: purchase.supplierVendorId,
+          billRef: purchase.challanNo || purchase.reference || null,
+          ...w,
+        })),
+      });
+    }
+
     // Link purchase to voucher
     await tx.purchase.update({
       where: { id: purchaseId },
@@ -520,6 +577,11 @@ export async function createInventoryTxnsForPostedPurchase(
     return { success: false, error: 'Purchase must be POSTED to create stock movements' };
   }
 
+  // Material is received at the project's site, or at the default warehouse
+  const locationId = await resolveStockLocationId(tx, companyId, {
+    projectId: purchase.projectId,
+  });
+
   // Create stock movements for MATERIAL lines
   for (const line of purchase.lines) {
     // Only create movements for MATERIAL lines with stockItemId
@@ -539,6 +601,7 @@ export async function createInventoryTxnsForPostedPurchase(
         referenceType: 'PURCHASE',
         referenceId: purchase.id,
         projectId: purchase.projectId,
+        locationId,
         vendorId: purchase.supplierVendorId,
         createdById: '', // Will be set by adjustStock or workflow
         notes: `Purchase ${purchase.challanNo || purchase.id}`,
@@ -548,9 +611,10 @@ export async function createInventoryTxnsForPostedPurchase(
     // Update or create StockBalance
     const balance = await tx.stockBalance.findUnique({
       where: {
-        companyId_stockItemId: {
+        companyId_stockItemId_locationId: {
           companyId,
           stockItemId: line.stockItemId,
+          locationId,
         },
       },
     });
@@ -576,6 +640,7 @@ export async function createInventoryTxnsForPostedPurchase(
         data: {
           companyId,
           stockItemId: line.stockItemId,
+          locationId,
           onHandQty: line.quantity || new Prisma.Decimal(0),
           avgCost: line.unitRate || new Prisma.Decimal(0),
         },
@@ -632,6 +697,10 @@ export async function createInventoryReversalForPurchase(
 
   // Create reversal movements and update balances
   for (const originalMovement of originalMovements) {
+    const locationId =
+      originalMovement.locationId ??
+      (await resolveStockLocationId(tx, companyId, { projectId: originalMovement.projectId }));
+
     // Create reversal movement
     await tx.stockMovement.create({
       data: {
@@ -644,6 +713,7 @@ export async function createInventoryReversalForPurchase(
         referenceType: 'PURCHASE',
         referenceId: purchase.id,
         projectId: originalMovement.projectId,
+        locationId,
         vendorId: originalMovement.vendorId,
         createdById: originalMovement.createdById,
         notes: `Reversal of purchase ${purchase.challanNo || purchase.id}`,
@@ -653,9 +723,10 @@ export async function createInventoryReversalForPurchase(
     // Update StockBalance
     const balance = await tx.stockBalance.findUnique({
       where: {
-        companyId_stockItemId: {
+        companyId_stockItemId_locationId: {
           companyId,
           stockItemId: originalMovement.stockItemId,
+          locationId,
         },
       },
     });
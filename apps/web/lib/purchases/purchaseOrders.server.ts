@@ -0,0 +1,524 @@
+/**
+ * Purchase orders and goods receipts
+ *
+ * A purchase order fixes the supplier, the project, the items, the agreed rates and when
+ * each item is due. Goods are received against it through the receive stock flow: each
+ * goods receipt (GRN) brings the received quantities into stock at the agreed rate and
+ * counts them against the order lines. The supplier's bill is then recorded as a Purchase
+ * linked to the order and three-way matched (see threeWayMatch.server.ts).
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, PurchaseOrderStatus, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  GoodsReceiptCreate,
+  PurchaseOrderCreate,
+  PurchaseOrderListFilters,
+  PurchaseOrderStatusAction,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { resolveStockLocationId } from '@/lib/stock/stockLocations.server';
+import { applyStockBalance } from '@/lib/stock/stockService.server';
+import { recordStockTracking } from '@/lib/stock/stockTracking.server';
+
+const RECEIPT_REFERENCE_TYPE = 'GoodsReceipt';
+
+/** Orders still waiting on deliveries */
+const OPEN_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.OPEN,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+const purchaseOrderInclude = Prisma.validator<Prisma.PurchaseOrderInclude>()({
+  project: { select: { id: true, name: true } },
+  supplierVendor: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  lines: {
+    include: { stockItem: { select: { id: true, name: true, unit: true, trackingMode: true } } },
+    orderBy: { stockItem: { name: 'asc' } },
+  },
+  receipts: {
+    include: {
+      receivedBy: { select: { id: true, name: true } },
+      lines: { select: { purchaseOrderLineId: true, qty: true } },
+    },
+    orderBy: { grnNo: 'asc' },
+  },
+  purchases: {
+    where: { status: { not: 'REVERSED' } },
+    select: {
+      id: true,
+      date: true,
+      challanNo: true,
+      status: true,
+      total: true,
+      matchStatus: true,
+      lines: {
+        where: { lineType: 'MATERIAL', stockItemId: { not: null } },
+        select: { stockItemId: true, quantity: true },
+      },
+    },
+    orderBy: { date: 'asc' },
+  },
+});
+
+type PurchaseOrderWithRelations = Prisma.PurchaseOrderGetPayload<{
+  include: typeof purchaseOrderInclude;
+}>;
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function serializePurchaseOrder(order: PurchaseOrderWithRelations) {
+  const today = new Date();
+  const lines = order.lines.map((line) => {
+    const qtyOrdered = Number(line.qtyOrdered);
+    const qtyReceived = Number(line.qtyReceived);
+    const qtyBilled = roundQty(
+      order.purchases.reduce(
+        (sum, purchase) =>
+          sum +
+          purchase.lines
+            .filter((l) => l.stockItemId === line.stockItemId)
+            .reduce((lineSum, l) => lineSum + Number(l.quantity ?? 0), 0),
+        0
+      )
+    );
+    const qtyOutstanding = roundQty(Math.max(0, qtyOrdered - qtyReceived));
+    return {
+      id: line.id,
+      stockItem: line.stockItem,
+      qtyOrdered,
+      agreedRate: Number(line.agreedRate),
+      amount: Math.round(qtyOrdered * Number(line.agreedRate) * 100) / 100,
+      deliveryDate: line.deliveryDate,
+      qtyReceived,
+      qtyBilled,
+      qtyOutstanding,
+      isOverdue:
+        OPEN_STATUSES.includes(order.status) &&
+        qtyOutstanding > 0 &&
+        line.deliveryDate != null &&
+        line.deliveryDate < today,
+      notes: line.notes,
+    };
+  });
+
+  return {
+    id: order.id,
+    poNo: order.poNo,
+    status: order.status,
+    project: order.project,
+    supplierVendor: order.supplierVendor,
+    orderDate: order.orderDate,
+    expectedDate: order.expectedDate,
+    notes: order.notes,
+    createdBy: order.createdBy,
+    closedAt: order.closedAt,
+    createdAt: order.createdAt,
+    total: lines.reduce((sum, line) => sum + line.amount, 0),
+    lines,
+    receipts: order.receipts.map((receipt) => ({
+      id: receipt.id,
+      grnNo: receipt.grnNo,
+      receiptDate: receipt.receiptDate,
+      challanNo: receipt.challanNo,
+      notes: receipt.notes,
+      receivedBy: receipt.receivedBy,
+      lines: receipt.lines.map((l) => ({
+        purchaseOrderLineId: l.purchaseOrderLineId,
+        qty: Number(l.qty),
+      })),
+    })),
+    purchases: order.purchases.map((purchase) => ({
+      id: purchase.id,
+      date: purchase.date,
+      challanNo: purchase.challanNo,
+      status: purchase.status,
+      total: Number(purchase.total),
+      matchStatus: purchase.matchStatus,
+    })),
+    isOpen: OPEN_STATUSES.includes(order.status),
+  };
+}
+
+export type PurchaseOrderView = ReturnType<typeof serializePurchaseOrder>;
+
+async function findPurchaseOrder(companyId: string, purchaseOrderId: string) {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    include: purchaseOrderInclude,
+  });
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+  return order;
+}
+
+/**
+ * Purchase orders of the company, newest first
+ */
+export async function listPurchaseOrders(
+  companyId: string,
+  filters: Partial<PurchaseOrderListFilters> = {}
+) {
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      companyId,
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.supplierId ? { supplierVendorId: filters.supplierId } : {}),
+      ...(filters.status
+        ? { status: filters.status }
+        : filters.open
+          ? { status: { in: OPEN_STATUSES } }
+          : {}),
+    },
+    include: purchaseOrderInclude,
+    orderBy: { poNo: 'desc' },
+  });
+  return orders.map(serializePurchaseOrder);
+}
+
+/**
+ * A single purchase order with its lines, receipts and bills
+ */
+export async function getPurchaseOrder(companyId: string, purchaseOrderId: string) {
+  return serializePurchaseOrder(await findPurchaseOrder(companyId, purchaseOrderId));
+}
+
+/**
+ * Raise a purchase order. A draft is not sent to the supplier until it is issued.
+ */
+export async function createPurchaseOrder(
+  companyId: string,
+  userId: string,
+  data: PurchaseOrderCreate,
+  request?: NextRequest,
+  options: { draft?: boolean } = {}
+) {
+  const [project, supplier] = await Promise.all([
+    prisma.project.findFirst({ where: { id: data.projectId, companyId }, select: { id: true } }),
+    prisma.vendor.findFirst({
+      where: { id: data.supplierVendorId, companyId },
+      select: { id: true, isActive: true, name: true },
+    }),
+  ]);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  if (!supplier) {
+    throw new Error('Supplier not found or does not belong to your company');
+  }
+  if (!supplier.isActive) {
+    throw new Error(`${supplier.name} is inactive`);
+  }
+  if (data.expectedDate && data.expectedDate < data.orderDate) {
+    throw new Error('Expected delivery date cannot be before the order date');
+  }
+  if (data.lines.some((line) => line.deliveryDate && line.deliveryDate < data.orderDate)) {
+    throw new Error('Delivery dates cannot be before the order date');
+  }
+
+  const stockItemIds = data.lines.map((line) => line.stockItemId);
+  const items = await prisma.stockItem.findMany({
+    where: { companyId, id: { in: stockItemIds } },
+    select: { id: true, isActive: true, name: true },
+  });
+  for (const stockItemId of stockItemIds) {
+    const item = items.find((i) => i.id === stockItemId);
+    if (!item) {
+      throw new Error('Stock item not found or does not belong to your company');
+    }
+    if (!item.isActive) {
+      throw new Error(`${item.name} is inactive`);
+    }
+  }
+
+  const order = await prisma.$transaction(async (tx) => {
+    const poNo = await nextDocumentNumber(tx, companyId, 'PURCHASE_ORDER', async () => {
+      const last = await tx.purchaseOrder.aggregate({ where: { companyId }, _max: { poNo: true } });
+      return last._max.poNo;
+    });
+    return tx.purchaseOrder.create({
+      data: {
+        companyId,
+        poNo,
+        projectId: project.id,
+        supplierVendorId: supplier.id,
+        status: options.draft ? PurchaseOrderStatus.DRAFT : PurchaseOrderStatus.OPEN,
+        orderDate: data.orderDate,
+        expectedDate: data.expectedDate ?? null,
+        notes: data.notes || null,
+        createdById: userId,
+        lines: {
+          create: data.lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            qtyOrdered: new Prisma.Decimal(line.qtyOrdered),
+            agreedRate: new Prisma.Decimal(line.agreedRate),
+            deliveryDate: line.deliveryDate ?? null,
+            notes: line.notes || null,
+          })),
+        },
+      },
+      include: purchaseOrderInclude,
+    });
+  });
+
+  const view = serializePurchaseOrder(order);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PurchaseOrder',
+    entityId: order.id,
+    action: 'CREATE',
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Issue a draft order to the supplier, close an order short (no more deliveries expected)
+ * or cancel one that nothing has been received or billed against
+ */
+export async function updatePurchaseOrderStatus(
+  companyId: string,
+  userId: string,
+  purchaseOrderId: string,
+  data: PurchaseOrderStatusAction,
+  request?: NextRequest
+) {
+  const existing = await findPurchaseOrder(companyId, purchaseOrderId);
+  const allowedFrom =
+    data.action === 'ISSUE'
+      ? [PurchaseOrderStatus.DRAFT]
+      : data.action === 'CANCEL'
+        ? [PurchaseOrderStatus.DRAFT, ...OPEN_STATUSES]
+        : OPEN_STATUSES;
+  if (!allowedFrom.includes(existing.status)) {
+    if (existing.status === PurchaseOrderStatus.DRAFT) {
+      throw new Error(`Purchase order #${existing.poNo} is still a draft; issue or cancel it`);
+    }
+    if (data.action === 'ISSUE') {
+      throw new Error(`Purchase order #${existing.poNo} has already been issued`);
+    }
+    throw new Error(`Purchase order #${existing.poNo} is already ${existing.status.toLowerCase()}`);
+  }
+  if (data.action === 'CANCEL' && (existing.receipts.length > 0 || existing.purchases.length > 0)) {
+    throw new Error('Goods have been received or billed against this order; close it instead');
+  }
+
+  const claimed = await prisma.purchaseOrder.updateMany({
+    where: { id: existing.id, status: { in: allowedFrom } },
+    data:
+      data.action === 'ISSUE'
+        ? { status: PurchaseOrderStatus.OPEN }
+        : {
+            status: data.action === 'CANCEL' ? PurchaseOrderStatus.CANCELLED : PurchaseOrderStatus.CLOSED,
+            closedAt: new Date(),
+          },
+  });
+  if (claimed.count === 0) {
+    throw new Error('Purchase order was updated by someone else; please reload');
+  }
+
+  const view = await getPurchaseOrder(companyId, existing.id);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'PurchaseOrder',
+    entityId: existing.id,
+    action: 'STATUS_CHANGE',
+    before: serializePurchaseOrder(existing),
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Receive goods against an open purchase order. Each line comes into stock at the agreed
+ * rate, at the given location or else the project's site, as a RECEIVE movement.
+ */
+export async function receivePurchaseOrder(
+  companyId: string,
+  userId: string,
+  purchaseOrderId: string,
+  data: GoodsReceiptCreate,
+  request?: NextRequest
+) {
+  const order = await findPurchaseOrder(companyId, purchaseOrderId);
+  if (!OPEN_STATUSES.includes(order.status)) {
+    throw new Error(`Purchase order #${order.poNo} is not open for receipt`);
+  }
+  if (data.receiptDate < order.orderDate) {
+    throw new Error('Receipt date cannot be before the order date');
+  }
+
+  const seen = new Set<string>();
+  const receiptLines = data.lines.map((input) => {
+    const line = order.lines.find((l) => l.id === input.purchaseOrderLineId);
+    if (!line) {
+      throw new Error('Purchase order line not found');
+    }
+    if (seen.has(line.id)) {
+      throw new Error(`${line.stockItem.name} appears more than once`);
+    }
+    seen.add(line.id);
+    const qty = new Prisma.Decimal(input.qty);
+    const outstanding = line.qtyOrdered.minus(line.qtyReceived);
+    if (qty.gt(outstanding)) {
+      throw new Error(
+        `Only ${Number(outstanding)} of ${line.stockItem.name} remains to be received on PO #${order.poNo}`
+      );
+    }
+    return { line, qty, tracking: input.tracking ?? null };
+  });
+
+  const receipt = await prisma.$transaction(async (tx) => {
+    const locationId = await resolveStockLocationId(tx, companyId, {
+      locationId: data.locationId,
+      projectId: order.projectId,
+    });
+
+    const grnNo = await nextDocumentNumber(tx, companyId, 'GOODS_RECEIPT', async () => {
+      const last = await tx.goodsReceipt.aggregate({ where: { companyId }, _max: { grnNo: true } });
+      return last._max.grnNo;
+    });
+    const grn = await tx.goodsReceipt.create({
+      data: {
+        companyId,
+        grnNo,
+        purchaseOrderId: order.id,
+        receiptDate: data.receiptDate,
+        challanNo: data.challanNo || null,
+        notes: data.notes || null,
+        receivedById: userId,
+      },
+    });
+
+    for (const { line, qty, tracking } of receiptLines) {
+      // Guard against the same delivery being received twice
+      const claimed = await tx.purchaseOrderLine.updateMany({
+        where: { id: line.id, qtyReceived: line.qtyReceived },
+        data: { qtyReceived: { increment: qty } },
+      });
+      if (claimed.count === 0) {
+        throw new Error('Purchase order was updated by someone else; please reload');
+      }
+
+      const result = await applyStockBalance(tx, {
+        companyId,
+        stockItemId: line.stockItemId,
+        locationId,
+        type: 'IN',
+        qty,
+        unitCost: line.agreedRate,
+      });
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to receive stock');
+      }
+
+      const movement = await tx.stockMovement.create({
+        data: {
+          companyId,
+          stockItemId: line.stockItemId,
+          movementDate: data.receiptDate,
+          type: 'IN',
+          movementKind: StockMovementKind.RECEIVE,
+          qty,
+          unitCost: line.agreedRate,
+          referenceType: RECEIPT_REFERENCE_TYPE,
+          referenceId: grn.id,
+          projectId: order.projectId,
+          locationId,
+          vendorId: order.supplierVendorId,
+          notes: data.notes || `GRN #${grn.grnNo} against PO #${order.poNo}`,
+          meta: { purchaseOrderId: order.id, purchaseOrderLineId: line.id },
+          createdById: userId,
+        },
+      });
+      await recordStockTracking(tx, {
+        companyId,
+        stockItemId: line.stockItemId,
+        movementId: movement.id,
+        locationId,
+        direction: 'IN',
+        qty,
+        tracking,
+      });
+
+      await tx.goodsReceiptLine.create({
+        data: {
+          goodsReceiptId: grn.id,
+          purchaseOrderLineId: line.id,
+          qty,
+          stockMovementId: movement.id,
+        },
+      });
+    }
+
+    const lines = await tx.purchaseOrderLine.findMany({
+      where: { purchaseOrderId: order.id },
+      select: { qtyOrdered: true, qtyReceived: true },
+    });
+    await tx.purchaseOrder.update({
+      where: { id: order.id },
+      data: {
+        status: lines.every((l) => l.qtyReceived.gte(l.qtyOrdered))
+          ? PurchaseOrderStatus.RECEIVED
+          : PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      },
+    });
+
+    return grn;
+  });
+
+  const view = await getPurchaseOrder(companyId, order.id);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'GoodsReceipt',
+    entityId: receipt.id,
+    action: 'CREATE',
+    after: view.receipts.find((r) => r.id === receipt.id),
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Check that a bill can be recorded against the order: same supplier and project, and the
+ * order issued and not cancelled
+ */
+export async function assertPurchaseOrderBillable(
+  companyId: string,
+  purchaseOrderId: string,
+  purchase: { projectId: string; subProjectId?: string | null; supplierVendorId: string }
+) {
+  const order = await prisma.purchaseOrder.findFirst({
+    where: { id: purchaseOrderId, companyId },
+    select: { poNo: true, status: true, projectId: true, supplierVendorId: true },
+  });
+  if (!order) {
+    throw new Error('Purchase order not found');
+  }
+  if (order.status === PurchaseOrderStatus.CANCELLED) {
+    throw new Error(`Purchase order #${order.poNo} is cancelled`);
+  }
+  if (order.status === PurchaseOrderStatus.DRAFT) {
+    throw new Error(`Purchase order #${order.poNo} has not been issued yet`);
+  }
+  if (order.supplierVendorId !== purchase.supplierVendorId) {
+    throw new Error(`Purchase order #${order.poNo} is for a different supplier`);
+  }
+  if (order.projectId !== purchase.projectId && order.projectId !== purchase.subProjectId) {
+    throw new Error(`Purchase order #${order.poNo} is for a different project`);
+  }
+}
@@ -10,6 +10,7 @@ import { adjustStock } from '@/lib/stock/stockService.server';
 /**
  * Create stock movements for a posted purchase
  * For each purchase line with stockItemId, create StockMovement IN
+ * Items on the linked purchase order are skipped: they came into stock with the goods receipts
  */
 export async function createStockMovementsForPostedPurchase(
   purchaseId: string,
@@ -29,6 +30,9 @@ export async function createStockMovementsForPostedPurchase(
           },
         },
         supplierVendor: true,
+        purchaseOrder: {
+          select: { lines: { select: { stockItemId: true } } },
+        },
       },
     });
 
@@ -45,6 +49,9 @@ export async function createStockMovementsForPostedPurchase(
     }
 
     let movementsCreated = 0;
+    const receivedOnOrder = new Set(
+      purchase.purchaseOrder?.lines.map((line) => line.stockItemId) ?? []
+    );
 
     // Create stock movements only for MATERIAL lines with stockItemId
     for (const line of purchase.lines) {
@@ -53,6 +60,10 @@ export async function createStockMovementsForPostedPurchase(
         continue; // Skip non-MATERIAL lines or lines without stock item
       }
 
+      if (receivedOnOrder.has(line.stockItemId)) {
+        continue; // Already in stock via goods receipt against the purchase order
+      }
+
       // Check idempotency: if movement already exists for this purchase line, skip
       const existing = await tx.stockMovement.findFirst({
         where: {
@@ -90,6 +101,7 @@ export async function createStockMovementsForPostedPurchase(
         stockItemId: line.stockItemId,
         type: 'IN',
         qty: line.quantity.toNumber(),
+        unit: line.unit,
         unitCost: unitCostNum,
         referenceType: 'PURCHASE_VOUCHER',
         referenceId: purchaseId,
@@ -189,6 +201,7 @@ export async function reverseStockMovementsForPurchase(
         referenceType: 'PURCHASE_REVERSAL',
         referenceId: purchaseId,
         projectId: original.projectId,
+        locationId: original.locationId,
         notes: `Reversal of purchase: ${purchase.challanNo || purchase.id}`,
         userId,
         movementDate: new Date(),
@@ -0,0 +1,298 @@
+/**
+ * Three-way match of a supplier bill (Purchase) against its purchase order and the goods
+ * received on it.
+ *
+ * For every stock item billed, the quantity billed so far on the order (this bill plus
+ * earlier bills that are not reversed) must not exceed what was received, nor what was
+ * ordered, and the billed rate must equal the agreed rate. Material lines that are not on
+ * the order are flagged too. A bill with variances cannot be approved until an approver
+ * accepts them or they are cleared, e.g. by receiving the missing goods and re-checking.
+ * Quantities and rates billed in another unit (rod in tons) are compared in the item's
+ * base unit, which the order is placed in.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, PurchaseMatchStatus } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { createAuditLog } from '@/lib/audit';
+import { resolveUnitConversion } from '@/lib/stock/unitsOfMeasure.server';
+
+const QTY_TOLERANCE = 0.0005;
+const RATE_TOLERANCE = 0.005;
+
+export type PurchaseMatchVarianceKind = 'QUANTITY' | 'RATE' | 'NOT_ON_ORDER';
+
+export interface PurchaseMatchVariance {
+  kind: PurchaseMatchVarianceKind;
+  stockItemId: string | null;
+  itemName: string;
+  ordered: number | null;
+  received: number | null;
+  billed: number | null;
+  agreedRate: number | null;
+  billedRate: number | null;
+  message: string;
+}
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Base units in one of the unit a line is billed in. Older free-text units that are not
+ * in the catalogue are taken as the base unit.
+ */
+async function unitFactor(companyId: string, stockItemId: string, unit: string | null) {
+  try {
+    return Number((await resolveUnitConversion(prisma, companyId, stockItemId, unit)).factor);
+  } catch {
+    return 1;
+  }
+}
+
+/**
+ * Work out the variances of a purchase against its order. Returns null when the purchase
+ * is not linked to an order.
+ */
+export async function computeThreeWayMatch(
+  companyId: string,
+  purchaseId: string
+): Promise<{ status: PurchaseMatchStatus; variances: PurchaseMatchVariance[] } | null> {
+  const purchase = await prisma.purchase.findFirst({
+    where: { id: purchaseId, companyId },
+    select: {
+      id: true,
+      purchaseOrderId: true,
+      lines: {
+        where: { lineType: 'MATERIAL' },
+        select: {
+          stockItemId: true,
+          quantity: true,
+          unit: true,
+          unitRate: true,
+          materialName: true,
+          stockItem: { select: { name: true } },
+        },
+      },
+    },
+  });
+  if (!purchase) {
+    throw new Error('Purchase not found');
+  }
+  if (!purchase.purchaseOrderId) {
+    return null;
+  }
+
+  const [order, billedLines] = await Promise.all([
+    prisma.purchaseOrder.findUniqueOrThrow({
+      where: { id: purchase.purchaseOrderId },
+      select: {
+        poNo: true,
+        lines: { include: { stockItem: { select: { name: true } } } },
+      },
+    }),
+    // Earlier bills on the same order count towards what has been billed
+    prisma.purchaseLine.findMany({
+      where: {
+        lineType: 'MATERIAL',
+        stockItemId: { not: null },
+        purchase: {
+          purchaseOrderId: purchase.purchaseOrderId,
+          status: { not: 'REVERSED' },
+          id: { not: purchase.id },
+        },
+      },
+      select: { stockItemId: true, quantity: true, unit: true },
+    }),
+  ]);
+  const earlierBilled = await Promise.all(
+    billedLines.map(async (line) => ({
+      stockItemId: line.stockItemId,
+      qty: Number(line.quantity ?? 0) * (await unitFactor(companyId, line.stockItemId!, line.unit)),
+    }))
+  );
+
+  const variances: PurchaseMatchVariance[] = [];
+  const billedHere = new Map<string, number>();
+
+  for (const line of purchase.lines) {
+    const itemName = line.stockItem?.name || line.materialName || 'Material';
+    const orderLine = line.stockItemId
+      ? order.lines.find((l) => l.stockItemId === line.stockItemId)
+      : undefined;
+    if (!line.stockItemId || !orderLine) {
+      variances.push({
+        kind: 'NOT_ON_ORDER',
+        stockItemId: line.stockItemId,
+        itemName,
+        ordered: null,
+        received: null,
+        billed: line.quantity != null ? Number(line.quantity) : null,
+        agreedRate: null,
+        billedRate: line.unitRate != null ? Number(line.unitRate) : null,
+        message: `${itemName} is not on PO #${order.poNo}`,
+      });
+      continue;
+    }
+
+    const factor = await unitFactor(companyId, line.stockItemId, line.unit);
+    billedHere.set(
+      line.stockItemId,
+      (billedHere.get(line.stockItemId) ?? 0) + Number(line.quantity ?? 0) * factor
+    );
+
+    const agreedRate = Number(orderLine.agreedRate);
+    const billedRate = line.unitRate != null ? Number(line.unitRate) / factor : null;
+    if (billedRate != null && Math.abs(billedRate - agreedRate) > RATE_TOLERANCE) {
+      variances.push({
+        kind: 'RATE',
+        stockItemId: line.stockItemId,
+        itemName,
+        ordered: Number(orderLine.qtyOrdered),
+        received: Number(orderLine.qtyReceived),
+        billed: line.quantity != null ? roundQty(Number(line.quantity) * factor) : null,
+        agreedRate,
+        billedRate,
+        message: `${itemName} billed at ${billedRate.toFixed(2)} against the agreed ${agreedRate.toFixed(2)}`,
+      });
+    }
+  }
+
+  for (const [stockItemId, qty] of Array.from(billedHere.entries())) {
+    const orderLine = order.lines.find((l) => l.stockItemId === stockItemId)!;
+    const earlier = earlierBilled
+      .filter((l) => l.stockItemId === stockItemId)
+      .reduce((sum, l) => sum + l.qty, 0);
+    const billed = roundQty(earlier + qty);
+    const ordered = Number(orderLine.qtyOrdered);
+    const received = Number(orderLine.qtyReceived);
+    const base = {
+      kind: 'QUANTITY' as const,
+      stockItemId,
+      itemName: orderLine.stockItem.name,
+      ordered,
+      received,
+      billed,
+      agreedRate: Number(orderLine.agreedRate),
+      billedRate: null,
+    };
+    const billedText = earlier > 0 ? `${billed} billed in total (${roundQty(earlier)} on earlier bills)` : `${billed} billed`;
+    if (billed > ordered + QTY_TOLERANCE) {
+      variances.push({
+        ...base,
+        message: `${orderLine.stockItem.name}: ${billedText} but only ${ordered} ordered`,
+      });
+    } else if (billed > received + QTY_TOLERANCE) {
+      variances.push({
+        ...base,
+        message: `${orderLine.stockItem.name}: ${billedText} but only ${received} received`,
+      });
+    }
+  }
+
+  return {
+    status: variances.length > 0 ? PurchaseMatchStatus.VARIANCE : PurchaseMatchStatus.MATCHED,
+    variances,
+  };
+}
+
+/**
+ * Re-run the match and store the result on the purchase. Any earlier acceptance of
+ * variances is dropped, since it was given for a different result.
+ */
+export async function refreshPurchaseMatch(companyId: string, purchaseId: string) {
+  const result = await computeThreeWayMatch(companyId, purchaseId);
+  await prisma.purchase.update({
+    where: { id: purchaseId },
+    data: result
+      ? {
+          matchStatus: result.status,
+          matchVariances: result.variances as unknown as Prisma.InputJsonArray,
+          matchCheckedAt: new Date(),
+          matchAcceptedById: null,
+          matchAcceptedAt: null,
+          matchNotes: null,
+        }
+      : {
+          matchStatus: null,
+          matchVariances: Prisma.DbNull,
+          matchCheckedAt: null,
+          matchAcceptedById: null,
+          matchAcceptedAt: null,
+          matchNotes: null,
+        },
+  });
+  return result;
+}
+
+/**
+ * Accept the variances found on a purchase so that it can be approved
+ */
+export async function acceptPurchaseMatch(
+  companyId: string,
+  userId: string,
+  purchaseId: string,
+  notes: string,
+  request?: NextRequest
+) {
+  const existing = await prisma.purchase.findFirst({
+    where: { id: purchaseId, companyId },
+    select: { id: true, status: true, matchStatus: true, matchVariances: true },
+  });
+  if (!existing) {
+    throw new Error('Purchase not found');
+  }
+  if (existing.matchStatus !== PurchaseMatchStatus.VARIANCE) {
+    throw new Error('This purchase has no match variances to accept');
+  }
+  if (existing.status === 'APPROVED' || existing.status === 'POSTED' || existing.status === 'REVERSED') {
+    throw new Error(`Purchase is already ${existing.status}`);
+  }
+
+  const claimed = await prisma.purchase.updateMany({
+    where: { id: existing.id, matchStatus: PurchaseMatchStatus.VARIANCE },
+    data: {
+      matchStatus: PurchaseMatchStatus.ACCEPTED,
+      matchAcceptedById: userId,
+      matchAcceptedAt: new Date(),
+      matchNotes: notes.trim(),
+    },
+  });
+  if (claimed.count === 0) {
+    throw new Error('Purchase was updated by someone else; please reload');
+  }
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'Purchase',
+    entityId: existing.id,
+    action: 'STATUS_CHANGE',
+    before: { matchStatus: existing.matchStatus, matchVariances: existing.matchVariances },
+    after: { matchStatus: PurchaseMatchStatus.ACCEPTED, matchNotes: notes.trim() },
+    request,
+  });
+}
+
+/**
+ * Throw unless the purchase may be approved as far as the three-way match goes. Purchases
+ * without an order pass; otherwise the match is re-run (receipts may have arrived since
+ * the bill was entered) unless its variances were already accepted.
+ */
+export async function assertPurchaseMatchCleared(companyId: string, purchaseId: string) {
+  const purchase = await prisma.purchase.findFirst({
+    where: { id: purchaseId, companyId },
+    select: { purchaseOrderId: true, matchStatus: true },
+  });
+  if (!purchase?.purchaseOrderId || purchase.matchStatus === PurchaseMatchStatus.ACCEPTED) {
+    return;
+  }
+
+  const result = await refreshPurchaseMatch(companyId, purchaseId);
+  if (result && result.status === PurchaseMatchStatus.VARIANCE) {
+    const summary = result.variances.map((v) => v.message).join('; ');
+    throw new Error(
+      `Three-way match found variances against the purchase order: ${summary}. Accept them before approving.`
+    );
+  }
+}
@@ -20,6 +20,7 @@ export async function getMonthlyOverhead(
       gte: monthStart,
       lte: monthEnd,
     },
+    isClosingEntry: false,
     OR: [
       { expenseType: 'OFFICE_EXPENSE' },
       { projectId: null, expenseType: null }, // Legacy: null projectId treated as office expense if no expenseType
@@ -70,8 +71,9 @@ export async function getMonthlyOverhead(
 
   vouchers.forEach((voucher) => {
     voucher.lines.forEach((line) => {
-      // Only count expense accounts (debit side for expenses)
-      if (line.account.type === 'EXPENSE' && decimalToNumber(line.debit) > 0) {
+      // Only count expense accounts (debit side for expenses); lines charged to a project
+      // (e.g. site staff on a payroll voucher) are project cost, not overhead
+      if (line.account.type === 'EXPENSE' && !line.projectId && decimalToNumber(line.debit) > 0) {
         const amount = decimalToNumber(line.debit);
         totalOverhead += amount;
 
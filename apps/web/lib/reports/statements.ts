@@ -51,6 +51,7 @@ export interface BalanceSheetData {
   }>;
   totalAssets: number;
   totalLiabilities: number;
+  currentEarnings: number; // Net profit not yet closed to retained earnings
   totalEquity: number;
   totalLiabilitiesAndEquity: number;
   difference: number; // Assets - (Liabilities + Equity), should be 0
@@ -62,6 +63,9 @@ export interface ProjectProfitabilityData {
   income: number;
   expenses: number;
   profit: number;
+  // Client bills (gross) and collections posted in the period
+  billed: number;
+  collected: number;
   incomeByAccount: Array<{
     accountId: string;
     accountCode: string;
@@ -205,6 +209,7 @@ export async function getProfitAndLoss(
       voucher: {
         status: { in: ['POSTED', 'REVERSED'] },
         date: { gte: from, lte: to },
+        isClosingEntry: false,
       },
     },
     select: {
@@ -366,7 +371,8 @@ export async function getBalanceSheet(
 
   const totalAssets = assets.reduce((sum, e) => sum + e.balance, 0);
   const totalLiabilities = liabilities.reduce((sum, e) => sum + e.balance, 0);
-  const totalEquity = equity.reduce((sum, e) => sum + e.balance, 0);
+  const currentEarnings = await getUnclosedEarnings(companyId, asOf);
+  const totalEquity = equity.reduce((sum, e) => sum + e.balance, 0) + currentEarnings;
   const totalLiabilitiesAndEquity = totalLiabilities + totalEquity;
   const difference = totalAssets - totalLiabilitiesAndEquity;
 
@@ -376,12 +382,91 @@ export async function getBalanceSheet(
     equity,
     totalAssets,
     totalLiabilities,
+    currentEarnings,
     totalEquity,
     totalLiabilitiesAndEquity,
     difference,
   };
 }
 
+/**
+ * Net INCOME - EXPENSE that has not yet been closed to retained earnings as of a date.
+ * Cumulative over all lines including closing entries, which zero the P&L accounts at
+ * each year end, so anything dated inside a closed year after its close still counts.
+ */
+async function getUnclosedEarnings(companyId: string, asOf: Date): Promise<number> {
+  const lines = await prisma.voucherLine.findMany({
+    where: {
+      companyId,
+      account: {
+        type: { in: ['INCOME', 'EXPENSE'] },
+      },
+      voucher: {
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: asOf },
+      },
+    },
+    select: {
+      debit: true,
+      credit: true,
+    },
+  });
+
+  return lines.reduce(
+    (sum, line) => sum + decimalToNumber(line.credit) - decimalToNumber(line.debit),
+    0
+  );
+}
+
+/**
+ * Billed (gross of posted client bills) and collected amounts per project for a date range
+ */
+async function getProjectBillingTotals(
+  companyId: string,
+  from: Date,
+  to: Date,
+  projectId?: string
+): Promise<Map<string, { billed: number; collected: number }>> {
+  const [bills, collections] = await Promise.all([
+    prisma.clientBill.findMany({
+      where: {
+        companyId,
+        ...(projectId ? { projectId } : {}),
+        billDate: { gte: from, lte: to },
+        voucher: { status: 'POSTED' },
+      },
+      select: { projectId: true, grossAmount: true },
+    }),
+    prisma.clientBillCollection.findMany({
+      where: {
+        companyId,
+        ...(projectId ? { bill: { projectId } } : {}),
+        date: { gte: from, lte: to },
+        voucher: { status: 'POSTED' },
+      },
+      select: { netAmount: true, retentionAmount: true, bill: { select: { projectId: true } } },
+    }),
+  ]);
+
+  const totals = new Map<string, { billed: number; collected: number }>();
+  const totalsFor = (id: string) => {
+    if (!totals.has(id)) {
+      totals.set(id, { billed: 0, collected: 0 });
+    }
+    return totals.get(id)!;
+  };
+
+  bills.forEach((bill) => {
+    totalsFor(bill.projectId).billed += decimalToNumber(bill.grossAmount);
+  });
+  collections.forEach((collection) => {
+    totalsFor(collection.bill.projectId).collected +=
+      decimalToNumber(collection.netAmount) + decimalToNumber(collection.retentionAmount);
+  });
+
+  return totals;
+}
+
 /**
  * Get project profitability for a date range
  * If projectId is provided, returns detail for that project
@@ -417,6 +502,7 @@ export async function getProjectProfitability(
     voucher: {
       status: { in: ['POSTED', 'REVERSED'] },
       date: { gte: from, lte: to },
+      isClosingEntry: false,
     },
   };
 
@@ -445,6 +531,8 @@ export async function getProjectProfitability(
     },
   });
 
+  const billing = await getProjectBillingTotals(companyId, from, to, projectId);
+
   if (projectId) {
     // Return detailed breakdown for single project
     const project = await prisma.project.findUnique({
@@ -509,6 +597,8 @@ export async function getProjectProfitability(
       income,
       expenses,
       profit: income - expenses,
+      billed: billing.get(project.id)?.billed ?? 0,
+      collected: billing.get(project.id)?.collected ?? 0,
       incomeByAccount,
       expensesByAccount,
     };
@@ -605,6 +695,8 @@ export async function getProjectProfitability(
         income: totals.income,
         expenses: totals.expenses,
         profit: totals.income - totals.expenses,
+        billed: billing.get(totals.projectId)?.billed ?? 0,
+        collected: billing.get(totals.projectId)?.collected ?? 0,
         incomeByAccount,
         expensesByAccount,
       });
@@ -0,0 +1,150 @@
+/**
+ * FIFO cost layers
+ *
+ * Items costed FIFO (the item's own costing method, else the company's) keep a cost
+ * layer per receipt at each location. Receipts open a layer at their unit cost and
+ * issues consume the oldest layers first, so the balance's avgCost becomes the cost of
+ * what is left in the layers rather than a running average. When an item moves to FIFO
+ * its open layers are cleared and the next movement opens one layer for the stock
+ * already on hand at its average cost.
+ */
+
+import { prisma } from '@accounting/db';
+import { CostingMethod, Prisma } from '@prisma/client';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const ZERO = new Prisma.Decimal(0);
+
+/**
+ * Costing method that applies to an item: its own, else the company's
+ */
+export async function resolveCostingMethod(
+  db: Db,
+  companyId: string,
+  stockItemId: string
+): Promise<CostingMethod> {
+  const item = await db.stockItem.findFirst({
+    where: { id: stockItemId, companyId },
+    select: { costingMethod: true, company: { select: { costingMethod: true } } },
+  });
+  return item?.costingMethod ?? item?.company.costingMethod ?? CostingMethod.WEIGHTED_AVERAGE;
+}
+
+/**
+ * Empty the open layers of an item (or of every item of the company) after its costing
+ * method changes, so FIFO restarts from the current average cost
+ */
+export async function resetCostLayers(db: Db, companyId: string, stockItemId?: string) {
+  await db.stockCostLayer.updateMany({
+    where: {
+      companyId,
+      ...(stockItemId ? { stockItemId } : {}),
+      qtyRemaining: { gt: 0 },
+    },
+    data: { qtyRemaining: ZERO },
+  });
+}
+
+/**
+ * Take qty from the oldest open layers. Returns the cost of what was taken.
+ */
+async function consumeLayers(
+  tx: Prisma.TransactionClient,
+  layers: Array<{ id: string; qtyRemaining: Prisma.Decimal; unitCost: Prisma.Decimal }>,
+  qty: Prisma.Decimal
+): Promise<Prisma.Decimal> {
+  let left = qty;
+  let cost = ZERO;
+  for (const layer of layers) {
+    if (left.lte(0)) break;
+    const taken = Prisma.Decimal.min(layer.qtyRemaining, left);
+    await tx.stockCostLayer.update({
+      where: { id: layer.id },
+      data: { qtyRemaining: layer.qtyRemaining.minus(taken) },
+    });
+    layer.qtyRemaining = layer.qtyRemaining.minus(taken);
+    cost = cost.plus(taken.mul(layer.unitCost));
+    left = left.minus(taken);
+  }
+  return cost;
+}
+
+/**
+ * Move the FIFO layers of an item at a location from beforeQty to afterQty (within the
+ * movement's transaction). An increase opens a layer at unitCost, falling back to the
+ * current average; a decrease consumes the oldest layers. Returns the average cost of
+ * the layers left, or null when nothing is left.
+ */
+export async function applyFifoLayers(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    locationId: string;
+    beforeQty: Prisma.Decimal;
+    afterQty: Prisma.Decimal;
+    avgCost: Prisma.Decimal;
+    unitCost?: Prisma.Decimal;
+    openedAt: Date;
+  }
+): Promise<Prisma.Decimal | null> {
+  const { companyId, stockItemId, locationId, beforeQty, afterQty, avgCost, unitCost } = params;
+  const now = new Date();
+
+  const layers = await tx.stockCostLayer.findMany({
+    where: { companyId, stockItemId, locationId, qtyRemaining: { gt: 0 } },
+    select: { id: true, qtyRemaining: true, unitCost: true },
+    orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+  });
+
+  // Bring the layers in line with the balance first: stock on hand from before the item
+  // was costed FIFO becomes the oldest layer at its average cost
+  const layerQty = layers.reduce((sum, layer) => sum.plus(layer.qtyRemaining), ZERO);
+  if (layerQty.lt(beforeQty)) {
+    const opening = await tx.stockCostLayer.create({
+      data: {
+        companyId,
+        stockItemId,
+        locationId,
+        receivedAt: params.openedAt,
+        qtyIn: beforeQty.minus(layerQty),
+        qtyRemaining: beforeQty.minus(layerQty),
+        unitCost: avgCost,
+      },
+      select: { id: true, qtyRemaining: true, unitCost: true },
+    });
+    layers.unshift(opening);
+  } else if (layerQty.gt(beforeQty)) {
+    await consumeLayers(tx, layers, layerQty.minus(beforeQty));
+  }
+
+  const delta = afterQty.minus(beforeQty);
+  if (delta.gt(0)) {
+    const layer = await tx.stockCostLayer.create({
+      data: {
+        companyId,
+        stockItemId,
+        locationId,
+        receivedAt: now,
+        qtyIn: delta,
+        qtyRemaining: delta,
+        unitCost: unitCost ?? avgCost,
+      },
+      select: { id: true, qtyRemaining: true, unitCost: true },
+    });
+    layers.push(layer);
+  } else if (delta.lt(0)) {
+    await consumeLayers(tx, layers, delta.abs());
+  }
+
+  const remainingQty = layers.reduce((sum, layer) => sum.plus(layer.qtyRemaining), ZERO);
+  if (remainingQty.lte(0)) {
+    return null;
+  }
+  const remainingValue = layers.reduce(
+    (sum, layer) => sum.plus(layer.qtyRemaining.mul(layer.unitCost)),
+    ZERO
+  );
+  return remainingValue.div(remainingQty).toDecimalPlaces(2);
+}
@@ -0,0 +1,138 @@
+/**
+ * Unit tests for FIFO cost layers: receipts open layers, issues consume the oldest
+ * first and the cost of what is left becomes the balance's average
+ *
+ * Run from apps/web with: npx tsx lib/stock/costLayers.test.ts
+ */
+
+import { Prisma } from '@prisma/client';
+import { applyFifoLayers } from './costLayers.server';
+
+const D = (value: number) => new Prisma.Decimal(value);
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+interface Layer {
+  id: string;
+  receivedAt: Date;
+  qtyIn: Prisma.Decimal;
+  qtyRemaining: Prisma.Decimal;
+  unitCost: Prisma.Decimal;
+}
+
+// In-memory stockCostLayer table for one item at one location
+function layersTx(layers: Layer[]): Prisma.TransactionClient {
+  const pick = ({ id, qtyRemaining, unitCost }: Layer) => ({ id, qtyRemaining, unitCost });
+  return {
+    stockCostLayer: {
+      findMany: async () =>
+        layers
+          .filter((layer) => layer.qtyRemaining.gt(0))
+          .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime())
+          .map(pick),
+      create: async ({ data }: { data: Omit<Layer, 'id'> }) => {
+        const layer = { ...data, id: `L${layers.length + 1}` };
+        layers.push(layer);
+        return pick(layer);
+      },
+      update: async ({ where, data }: { where: { id: string }; data: { qtyRemaining: Prisma.Decimal } }) => {
+        const layer = layers.find((l) => l.id === where.id)!;
+        layer.qtyRemaining = data.qtyRemaining;
+        return layer;
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+function move(tx: Prisma.TransactionClient, beforeQty: number, afterQty: number, avgCost: number, unitCost?: number) {
+  return applyFifoLayers(tx, {
+    companyId: 'c1',
+    stockItemId: 'item',
+    locationId: 'loc',
+    beforeQty: D(beforeQty),
+    afterQty: D(afterQty),
+    avgCost: D(avgCost),
+    unitCost: unitCost === undefined ? undefined : D(unitCost),
+    openedAt: new Date('2026-01-01'),
+  });
+}
+
+async function testIssueConsumesOldestFirst() {
+  console.log('Test: an issue takes the oldest layers first');
+  const layers: Layer[] = [
+    { id: 'old', receivedAt: new Date('2026-01-05'), qtyIn: D(10), qtyRemaining: D(10), unitCost: D(100) },
+    { id: 'new', receivedAt: new Date('2026-02-05'), qtyIn: D(10), qtyRemaining: D(10), unitCost: D(130) },
+  ];
+  const tx = layersTx(layers);
+
+  const avg = await move(tx, 20, 15, 115);
+  assert(layers[0].qtyRemaining.eq(5), `old layer keeps 5, got ${layers[0].qtyRemaining}`);
+  assert(layers[1].qtyRemaining.eq(10), 'new layer untouched');
+  assert(avg !== null && avg.eq(120), `left 5 @ 100 + 10 @ 130 = 120 avg, got ${avg}`);
+
+  const spanning = await move(tx, 15, 3, 120);
+  assert(layers[0].qtyRemaining.eq(0), 'old layer used up');
+  assert(layers[1].qtyRemaining.eq(3), `new layer keeps 3, got ${layers[1].qtyRemaining}`);
+  assert(spanning !== null && spanning.eq(130), `only the newer cost is left, got ${spanning}`);
+  console.log('  PASS');
+}
+
+async function testReceiptOpensLayer() {
+  console.log('Test: a receipt opens a layer at its unit cost, else at the average');
+  const layers: Layer[] = [];
+  const tx = layersTx(layers);
+
+  const first = await move(tx, 0, 10, 0, 50);
+  assert(layers.length === 1 && layers[0].unitCost.eq(50), 'layer opened at the receipt cost');
+  assert(first !== null && first.eq(50), `avg 50, got ${first}`);
+
+  const second = await move(tx, 10, 15, 50);
+  assert(layers.length === 2 && layers[1].unitCost.eq(50), 'no unit cost falls back to the average');
+  assert(second !== null && second.eq(50), `avg stays 50, got ${second}`);
+  console.log('  PASS');
+}
+
+async function testOpeningLayerForStockOnHand() {
+  console.log('Test: stock on hand before FIFO becomes the oldest layer at its average cost');
+  const layers: Layer[] = [];
+  const tx = layersTx(layers);
+
+  const avg = await move(tx, 8, 12, 25, 40);
+  assert(layers.length === 2, `opening layer plus receipt, got ${layers.length}`);
+  assert(layers[0].qtyRemaining.eq(8) && layers[0].unitCost.eq(25), 'opening layer 8 @ 25');
+  assert(avg !== null && avg.eq(30), `(8 x 25 + 4 x 40) / 12 = 30, got ${avg}`);
+
+  const issued = await move(tx, 12, 4, 30);
+  assert(layers[0].qtyRemaining.eq(0), 'opening layer consumed first');
+  assert(issued !== null && issued.eq(40), `only the receipt cost is left, got ${issued}`);
+  console.log('  PASS');
+}
+
+async function testEmptyingStock() {
+  console.log('Test: issuing everything leaves no average');
+  const layers: Layer[] = [
+    { id: 'only', receivedAt: new Date('2026-01-05'), qtyIn: D(4), qtyRemaining: D(4), unitCost: D(10) },
+  ];
+  const avg = await move(layersTx(layers), 4, 0, 10);
+  assert(avg === null, `no layers left, got ${avg}`);
+  assert(layers[0].qtyRemaining.eq(0), 'layer used up');
+  console.log('  PASS');
+}
+
+async function runTests() {
+  console.log('Running FIFO cost layer tests...\n');
+  await testIssueConsumesOldestFirst();
+  await testReceiptOpensLayer();
+  await testOpeningLayerForStockOnHand();
+  await testEmptyingStock();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Inventory valuation
+ *
+ * Values the stock on hand as of any date by replaying the stock movements up to that
+ * date per item per location, under both weighted-average and FIFO costing. The report
+ * is stated under the chosen method (the company's costing method by default) with the
+ * other shown alongside, so the effect of the method on steel, cement and other items
+ * whose prices swing can be seen side by side. The replay does not depend on the live
+ * balances or cost layers, so it gives the same answer for a past date whatever the
+ * items are costed at today.
+ */
+
+import { prisma } from '@accounting/db';
+import { CostingMethod, Prisma, StockMovementType } from '@prisma/client';
+import type { InventoryValuationFilters } from '@accounting/shared';
+
+interface Layer {
+  qty: number;
+  unitCost: number;
+}
+
+interface PositionState {
+  qty: number;
+  avgCost: number;
+  layers: Layer[];
+}
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function layersValue(layers: Layer[]): number {
+  return layers.reduce((sum, layer) => sum + layer.qty * layer.unitCost, 0);
+}
+
+function takeOldest(layers: Layer[], qty: number) {
+  let left = qty;
+  while (left > 0 && layers.length > 0) {
+    const taken = Math.min(layers[0].qty, left);
+    layers[0].qty -= taken;
+    left -= taken;
+    if (layers[0].qty <= 1e-9) {
+      layers.shift();
+    }
+  }
+}
+
+/**
+ * Apply one movement to a position under both methods. IN adds at its unit cost (the
+ * current cost when it has none), OUT takes out and ADJUST sets the quantity on hand,
+ * matching how the live balances are kept.
+ */
+function applyMovement(
+  state: PositionState,
+  movement: { type: StockMovementType; qty: number; unitCost: number | null }
+) {
+  const delta =
+    movement.type === 'IN'
+      ? movement.qty
+      : movement.type === 'OUT'
+        ? -movement.qty
+        : movement.qty - state.qty;
+  if (delta === 0) {
+    return;
+  }
+
+  if (delta > 0) {
+    const fifoCost = state.qty > 0 ? layersValue(state.layers) / state.qty : state.avgCost;
+    const waCost = movement.unitCost ?? state.avgCost;
+    const newQty = state.qty + delta;
+    state.avgCost = newQty > 0 ? (state.qty * state.avgCost + delta * waCost) / newQty : waCost;
+    state.layers.push({ qty: delta, unitCost: movement.unitCost ?? fifoCost });
+    state.qty = newQty;
+  } else {
+    const outQty = Math.min(state.qty, -delta);
+    takeOldest(state.layers, outQty);
+    state.qty = Math.max(0, state.qty - outQty);
+  }
+}
+
+/**
+ * Value of the stock on hand as of a date, per item, under weighted average and FIFO
+ */
+export async function getInventoryValuation(
+  companyId: string,
+  filters: Partial<InventoryValuationFilters> = {}
+) {
+  const asOfDate = filters.asOf ?? new Date().toISOString().split('T')[0];
+  const asOf = new Date(`${asOfDate}T23:59:59.999Z`);
+  if (Number.isNaN(asOf.getTime())) {
+    throw new Error('Invalid as-of date');
+  }
+
+  const [company, location] = await Promise.all([
+    prisma.company.findUniqueOrThrow({
+      where: { id: companyId },
+      select: { costingMethod: true },
+    }),
+    filters.locationId
+      ? prisma.stockLocation.findFirst({
+          where: { id: filters.locationId, companyId },
+          select: { id: true, name: true },
+        })
+      : null,
+  ]);
+  if (filters.locationId && !location) {
+    throw new Error('Stock location not found or does not belong to your company');
+  }
+  const method = filters.method ?? company.costingMethod;
+
+  const where: Prisma.StockMovementWhereInput = {
+    companyId,
+    movementDate: { lte: asOf },
+    ...(filters.locationId ? { locationId: filters.locationId } : {}),
+  };
+  const [movements, items] = await Promise.all([
+    prisma.stockMovement.findMany({
+      where,
+      select: {
+        stockItemId: true,
+        locationId: true,
+        type: true,
+        qty: true,
+        unitCost: true,
+      },
+      orderBy: [{ movementDate: 'asc' }, { createdAt: 'asc' }, { id: 'asc' }],
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId },
+      select: {
+        id: true,
+        name: true,
+        sku: true,
+        unit: true,
+        category: true,
+        costingMethod: true,
+      },
+    }),
+  ]);
+
+  const positions = new Map<string, PositionState>();
+  for (const movement of movements) {
+    const key = `${movement.stockItemId}:${movement.locationId ?? ''}`;
+    let state = positions.get(key);
+    if (!state) {
+      state = { qty: 0, avgCost: 0, layers: [] };
+      positions.set(key, state);
+    }
+    applyMovement(state, {
+      type: movement.type,
+      qty: Number(movement.qty),
+      unitCost: movement.unitCost != null ? Number(movement.unitCost) : null,
+    });
+  }
+
+  const totals = new Map<string, { qty: number; weightedAverageValue: number; fifoValue: number }>();
+  for (const [key, state] of Array.from(positions.entries())) {
+    if (state.qty <= 0) continue;
+    const stockItemId = key.split(':')[0];
+    const total = totals.get(stockItemId) ?? { qty: 0, weightedAverageValue: 0, fifoValue: 0 };
+    total.qty += state.qty;
+    total.weightedAverageValue += state.qty * state.avgCost;
+    total.fifoValue += layersValue(state.layers);
+    totals.set(stockItemId, total);
+  }
+
+  const rows = items
+    .filter((item) => totals.has(item.id))
+    .map((item) => {
+      const total = totals.get(item.id)!;
+      const qty = roundQty(total.qty);
+      const weightedAverageValue = roundMoney(total.weightedAverageValue);
+      const fifoValue = roundMoney(total.fifoValue);
+      const value = method === CostingMethod.FIFO ? fifoValue : weightedAverageValue;
+      return {
+        stockItem: { id: item.id, name: item.name, sku: item.sku, unit: item.unit },
+        category: item.category,
+        costingMethod: item.costingMethod ?? company.costingMethod,
+        qty,
+        unitCost: qty > 0 ? roundMoney(value / qty) : 0,
+        value,
+        weightedAverageValue,
+        fifoValue,
+        difference: roundMoney(fifoValue - weightedAverageValue),
+      };
+    })
+    .sort((a, b) => a.stockItem.name.localeCompare(b.stockItem.name));
+
+  return {
+    asOf: asOfDate,
+    method,
+    companyMethod: company.costingMethod,
+    location,
+    rows,
+    totals: {
+      value: roundMoney(rows.reduce((sum, row) => sum + row.value, 0)),
+      weightedAverageValue: roundMoney(rows.reduce((sum, row) => sum + row.weightedAverageValue, 0)),
+      fifoValue: roundMoney(rows.reduce((sum, row) => sum + row.fifoValue, 0)),
+      difference: roundMoney(rows.reduce((sum, row) => sum + row.difference, 0)),
+    },
+  };
+}
+
+export type InventoryValuation = Awaited<ReturnType<typeof getInventoryValuation>>;
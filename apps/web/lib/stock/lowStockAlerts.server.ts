@@ -0,0 +1,71 @@
+/**
+ * Low-stock alerts
+ *
+ * When a movement takes an item at a project site from at or above its minimum to below
+ * it, everyone who buys or requisitions material is notified. The minimum is the
+ * project's stock setting for the item, else the item's reorder level. Only the crossing
+ * raises an alert, so further issues while the item stays low do not repeat it.
+ */
+
+import { NotificationKind, Prisma } from '@prisma/client';
+import { notifyUsers } from '@/lib/notifications.server';
+
+/**
+ * Raise the alert if the movement that changed the balance from beforeQty to afterQty
+ * crossed the item's minimum at the location (within the movement's transaction)
+ */
+export async function raiseLowStockAlert(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    locationId: string;
+    beforeQty: Prisma.Decimal;
+    afterQty: Prisma.Decimal;
+  }
+): Promise<void> {
+  const { companyId, stockItemId, locationId, beforeQty, afterQty } = params;
+  if (afterQty.gte(beforeQty)) {
+    return;
+  }
+
+  const location = await tx.stockLocation.findUnique({
+    where: { id: locationId },
+    select: { projectId: true, project: { select: { name: true } } },
+  });
+  if (!location?.projectId || !location.project) {
+    return;
+  }
+
+  const [setting, item] = await Promise.all([
+    tx.projectStockSetting.findUnique({
+      where: { projectId_stockItemId: { projectId: location.projectId, stockItemId } },
+      select: { minQty: true },
+    }),
+    tx.stockItem.findUnique({
+      where: { id: stockItemId },
+      select: { name: true, unit: true, reorderLevel: true },
+    }),
+  ]);
+  const minimum = setting?.minQty ?? item?.reorderLevel ?? null;
+  if (!item || minimum == null || minimum.lte(0)) {
+    return;
+  }
+  if (!(beforeQty.gte(minimum) && afterQty.lt(minimum))) {
+    return;
+  }
+
+  await notifyUsers(tx, {
+    companyId,
+    recipients: [
+      { resource: 'purchases', action: 'WRITE' },
+      { resource: 'requisitions', action: 'WRITE' },
+    ],
+    kind: NotificationKind.LOW_STOCK,
+    title: `${item.name} is low at ${location.project.name}`,
+    message: `${afterQty.toString()} ${item.unit} left, below the minimum of ${minimum.toString()} ${item.unit}.`,
+    link: `/dashboard/stock/reorder?projectId=${location.projectId}`,
+    entityType: 'StockItem',
+    entityId: stockItemId,
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Project material estimates (bill of quantities) and consumption against them
+ *
+ * A project's BOQ estimates the material it needs per stock item in the item's base
+ * unit, for the whole project or floor by floor. The consumption report sets the
+ * estimate against what was issued to the works and what was wasted, as aggregated by
+ * getProjectStockOverview, with the variance in quantity, value and percent.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ProjectMaterialEstimate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { getProjectStockOverview } from './projectStock.server';
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentOf(value: number, base: number): number | null {
+  return base > 0 ? Math.round((value / base) * 10000) / 100 : null;
+}
+
+async function findProject(companyId: string, projectId: string) {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true, totalFloors: true, progressPercent: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to company');
+  }
+  return project;
+}
+
+const estimateInclude = Prisma.validator<Prisma.ProjectMaterialEstimateInclude>()({
+  stockItem: { select: { id: true, name: true, unit: true } },
+});
+
+function serializeEstimateLine(
+  line: Prisma.ProjectMaterialEstimateGetPayload<{ include: typeof estimateInclude }>
+) {
+  return {
+    id: line.id,
+    stockItem: line.stockItem,
+    floor: line.floor,
+    estimatedQty: Number(line.estimatedQty),
+    estimatedRate: line.estimatedRate != null ? Number(line.estimatedRate) : null,
+    notes: line.notes,
+  };
+}
+
+export type MaterialEstimateLineView = ReturnType<typeof serializeEstimateLine>;
+
+/**
+ * The BOQ of a project, by item then floor
+ */
+export async function getProjectMaterialEstimate(companyId: string, projectId: string) {
+  const project = await findProject(companyId, projectId);
+  const lines = await prisma.projectMaterialEstimate.findMany({
+    where: { companyId, projectId },
+    include: estimateInclude,
+  });
+  lines.sort(
+    (a, b) =>
+      a.stockItem.name.localeCompare(b.stockItem.name) || (a.floor ?? 0) - (b.floor ?? 0)
+  );
+  return { project, lines: lines.map(serializeEstimateLine) };
+}
+
+/**
+ * Replace the BOQ of a project. Floors must be within the project's number of floors.
+ */
+export async function setProjectMaterialEstimate(
+  companyId: string,
+  userId: string,
+  projectId: string,
+  data: ProjectMaterialEstimate,
+  request?: NextRequest
+) {
+  const before = await getProjectMaterialEstimate(companyId, projectId);
+  const { project } = before;
+
+  const floors = data.lines.filter((l) => l.floor != null).map((l) => l.floor!);
+  if (floors.length > 0) {
+    if (!project.totalFloors) {
+      throw new Error('Set the number of floors on the project to estimate by floor');
+    }
+    const beyond = floors.find((floor) => floor > project.totalFloors!);
+    if (beyond) {
+      throw new Error(`${project.name} has ${project.totalFloors} floors; there is no floor ${beyond}`);
+    }
+  }
+
+  const stockItemIds = Array.from(new Set(data.lines.map((l) => l.stockItemId)));
+  const items = await prisma.stockItem.count({
+    where: { id: { in: stockItemIds }, companyId },
+  });
+  if (items !== stockItemIds.length) {
+    throw new Error('One or more stock items not found or do not belong to your company');
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.projectMaterialEstimate.deleteMany({ where: { companyId, projectId } });
+    if (data.lines.length > 0) {
+      await tx.projectMaterialEstimate.createMany({
+        data: data.lines.map((line) => ({
+          companyId,
+          projectId,
+          stockItemId: line.stockItemId,
+          floor: line.floor ?? null,
+          estimatedQty: new Prisma.Decimal(line.estimatedQty),
+          estimatedRate: line.estimatedRate != null ? new Prisma.Decimal(line.estimatedRate) : null,
+          notes: line.notes || null,
+        })),
+      });
+    }
+  });
+
+  const after = await getProjectMaterialEstimate(companyId, projectId);
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'ProjectMaterialEstimate',
+    entityId: projectId,
+    action: 'UPDATE',
+    before: { lines: before.lines },
+    after: { lines: after.lines },
+    request,
+  });
+
+  return after;
+}
+
+/**
+ * Estimated vs issued vs wasted material of a project, per item. Consumption is what
+ * was issued plus what was wasted. The estimate is valued at its estimated rate, or at
+ * the project's average rate for the item when no rate was estimated. Items consumed
+ * without an estimate are listed with a zero estimate.
+ */
+export async function getMaterialConsumptionReport(companyId: string, projectId: string) {
+  const [{ project, lines }, overview] = await Promise.all([
+    getProjectMaterialEstimate(companyId, projectId),
+    getProjectStockOverview(companyId, projectId),
+  ]);
+
+  const stockItemIds = Array.from(
+    new Set([
+      ...lines.map((l) => l.stockItem.id),
+      ...overview.items.filter((i) => i.issuedQty > 0 || i.wastageQty > 0).map((i) => i.stockItemId),
+    ])
+  );
+
+  const rows = stockItemIds
+    .map((stockItemId) => {
+      const estimateLines = lines.filter((l) => l.stockItem.id === stockItemId);
+      const stock = overview.items.find((i) => i.stockItemId === stockItemId);
+      const stockItem = estimateLines[0]?.stockItem ?? {
+        id: stockItemId,
+        name: stock!.stockItemName,
+        unit: stock!.stockItemUnit,
+      };
+
+      const issuedQty = stock?.issuedQty ?? 0;
+      const wastageQty = stock?.wastageQty ?? 0;
+      const issuedValue = stock?.issuedValue ?? 0;
+      const wastageValue = stock?.wastageValue ?? 0;
+      const consumedQty = issuedQty + wastageQty;
+      const consumedValue = issuedValue + wastageValue;
+      const fallbackRate =
+        consumedQty > 0 ? consumedValue / consumedQty : stock?.avgRate ?? 0;
+
+      const floors = estimateLines.map((line) => ({
+        floor: line.floor,
+        estimatedQty: line.estimatedQty,
+        estimatedValue: roundMoney(line.estimatedQty * (line.estimatedRate ?? fallbackRate)),
+        notes: line.notes,
+      }));
+      const estimatedQty = floors.reduce((sum, f) => sum + f.estimatedQty, 0);
+      const estimatedValue = floors.reduce((sum, f) => sum + f.estimatedValue, 0);
+
+      return {
+        stockItem,
+        estimatedQty: roundQty(estimatedQty),
+        estimatedValue: roundMoney(estimatedValue),
+        issuedQty: roundQty(issuedQty),
+        issuedValue: roundMoney(issuedValue),
+        wastageQty: roundQty(wastageQty),
+        wastageValue: roundMoney(wastageValue),
+        consumedQty: roundQty(consumedQty),
+        consumedValue: roundMoney(consumedValue),
+        remainingQty: roundQty(Math.max(0, estimatedQty - consumedQty)),
+        varianceQty: roundQty(consumedQty - estimatedQty),
+        varianceValue: roundMoney(consumedValue - estimatedValue),
+        // Consumption over (+) or under (-) the estimate, as a percent of the estimate
+        variancePercent: percentOf(consumedQty - estimatedQty, estimatedQty),
+        consumedPercent: percentOf(consumedQty, estimatedQty),
+        wastagePercent: percentOf(wastageQty, consumedQty),
+        floors,
+      };
+    })
+    .sort((a, b) => a.stockItem.name.localeCompare(b.stockItem.name));
+
+  const totals = {
+    estimatedValue: roundMoney(rows.reduce((sum, r) => sum + r.estimatedValue, 0)),
+    issuedValue: roundMoney(rows.reduce((sum, r) => sum + r.issuedValue, 0)),
+    wastageValue: roundMoney(rows.reduce((sum, r) => sum + r.wastageValue, 0)),
+    consumedValue: roundMoney(rows.reduce((sum, r) => sum + r.consumedValue, 0)),
+    varianceValue: roundMoney(rows.reduce((sum, r) => sum + r.varianceValue, 0)),
+  };
+
+  return {
+    project,
+    rows,
+    totals: {
+      ...totals,
+      variancePercent: percentOf(totals.consumedValue - totals.estimatedValue, totals.estimatedValue),
+      wastagePercent: percentOf(totals.wastageValue, totals.consumedValue),
+    },
+  };
+}
+
+export type MaterialConsumptionReport = Awaited<ReturnType<typeof getMaterialConsumptionReport>>;
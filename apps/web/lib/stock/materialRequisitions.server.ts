@@ -0,0 +1,574 @@
+/**
+ * Material requisitions
+ *
+ * A site engineer requests items and quantities for a project. An accountant or admin
+ * approves each line in full, in part or not at all; the store then issues the approved
+ * quantities from the project's site, in one go or over several ISSUE movements, through
+ * the project stock issue endpoint. The requisition is ISSUED once every approved line has
+ * been issued in full.
+ */
+
+import { prisma } from '@accounting/db';
+import { MaterialRequisitionStatus, Prisma, StockMovementKind } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  MaterialRequisitionApprove,
+  MaterialRequisitionCreate,
+  MaterialRequisitionListFilters,
+  StockTracking,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { ensureProjectStockLocation } from './stockLocations.server';
+import { applyStockBalance } from './stockService.server';
+import { recordStockTracking } from './stockTracking.server';
+
+const REFERENCE_TYPE = 'MaterialRequisition';
+
+/** Requisitions still waiting on an approval or an issue */
+const OPEN_STATUSES: MaterialRequisitionStatus[] = [
+  MaterialRequisitionStatus.PENDING,
+  MaterialRequisitionStatus.APPROVED,
+  MaterialRequisitionStatus.PARTIALLY_APPROVED,
+];
+
+const ISSUABLE_STATUSES: MaterialRequisitionStatus[] = [
+  MaterialRequisitionStatus.APPROVED,
+  MaterialRequisitionStatus.PARTIALLY_APPROVED,
+];
+
+const requisitionInclude = Prisma.validator<Prisma.MaterialRequisitionInclude>()({
+  project: { select: { id: true, name: true } },
+  requestedBy: { select: { id: true, name: true } },
+  decidedBy: { select: { id: true, name: true } },
+  lines: {
+    include: { stockItem: { select: { id: true, name: true, unit: true } } },
+    orderBy: { stockItem: { name: 'asc' } },
+  },
+});
+
+type RequisitionWithRelations = Prisma.MaterialRequisitionGetPayload<{
+  include: typeof requisitionInclude;
+}>;
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function serializeRequisition(requisition: RequisitionWithRelations) {
+  const lines = requisition.lines.map((line) => {
+    const qtyApproved = line.qtyApproved != null ? Number(line.qtyApproved) : null;
+    const qtyIssued = Number(line.qtyIssued);
+    return {
+      id: line.id,
+      stockItem: line.stockItem,
+      qtyRequested: Number(line.qtyRequested),
+      qtyApproved,
+      qtyIssued,
+      qtyOutstanding: qtyApproved != null ? roundQty(Math.max(0, qtyApproved - qtyIssued)) : 0,
+      notes: line.notes,
+    };
+  });
+
+  return {
+    id: requisition.id,
+    requisitionNo: requisition.requisitionNo,
+    status: requisition.status,
+    project: requisition.project,
+    requestDate: requisition.requestDate,
+    requiredBy: requisition.requiredBy,
+    notes: requisition.notes,
+    requestedBy: requisition.requestedBy,
+    decidedBy: requisition.decidedBy,
+    decidedAt: requisition.decidedAt,
+    decisionNotes: requisition.decisionNotes,
+    createdAt: requisition.createdAt,
+    lines,
+    isOpen: OPEN_STATUSES.includes(requisition.status),
+  };
+}
+
+export type MaterialRequisitionView = ReturnType<typeof serializeRequisition>;
+
+async function findRequisition(companyId: string, requisitionId: string) {
+  const requisition = await prisma.materialRequisition.findFirst({
+    where: { id: requisitionId, companyId },
+    include: requisitionInclude,
+  });
+  if (!requisition) {
+    throw new Error('Material requisition not found');
+  }
+  return requisition;
+}
+
+/**
+ * Requisitions of the company, newest first
+ */
+export async function listMaterialRequisitions(
+  companyId: string,
+  filters: Partial<MaterialRequisitionListFilters> = {}
+) {
+  const requisitions = await prisma.materialRequisition.findMany({
+    where: {
+      companyId,
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.status
+        ? { status: filters.status }
+        : filters.open
+          ? { status: { in: OPEN_STATUSES } }
+          : {}),
+    },
+    include: requisitionInclude,
+    orderBy: { requisitionNo: 'desc' },
+  });
+  return requisitions.map(serializeRequisition);
+}
+
+/**
+ * A single requisition with its lines
+ */
+export async function getMaterialRequisition(companyId: string, requisitionId: string) {
+  return serializeRequisition(await findRequisition(companyId, requisitionId));
+}
+
+/**
+ * Raise a requisition for a project
+ */
+export async function createMaterialRequisition(
+  companyId: string,
+  userId: string,
+  data: MaterialRequisitionCreate,
+  request?: NextRequest
+) {
+  const project = await prisma.project.findFirst({
+    where: { id: data.projectId, companyId },
+    select: { id: true },
+  });
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  if (data.requiredBy && data.requiredBy < data.requestDate) {
+    throw new Error('Required-by date cannot be before the request date');
+  }
+
+  const stockItemIds = data.lines.map((line) => line.stockItemId);
+  const items = await prisma.stockItem.findMany({
+    where: { companyId, id: { in: stockItemIds } },
+    select: { id: true, isActive: true, name: true },
+  });
+  for (const stockItemId of stockItemIds) {
+    const item = items.find((i) => i.id === stockItemId);
+    if (!item) {
+      throw new Error('Stock item not found or does not belong to your company');
+    }
+    if (!item.isActive) {
+      throw new Error(`${item.name} is inactive`);
+    }
+  }
+
+  const requisition = await prisma.$transaction(async (tx) => {
+    const requisitionNo = await nextDocumentNumber(tx, companyId, 'MATERIAL_REQUISITION', async () => {
+      const last = await tx.materialRequisition.aggregate({ where: { companyId }, _max: { requisitionNo: true } });
+      return last._max.requisitionNo;
+    });
+    return tx.materialRequisition.create({
+      data: {
+        companyId,
+        requisitionNo,
+        projectId: project.id,
+        requestDate: data.requestDate,
+        requiredBy: data.requiredBy ?? null,
+        notes: data.notes || null,
+        requestedById: userId,
+        lines: {
+          create: data.lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            qtyRequested: new Prisma.Decimal(line.qty),
+            notes: line.notes || null,
+          })),
+        },
+      },
+      include: requisitionInclude,
+    });
+  });
+
+  const view = serializeRequisition(requisition);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: requisition.id,
+    action: 'CREATE',
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Approve the quantities of a pending requisition. Lines left out are not approved.
+ */
+export async function approveMaterialRequisition(
+  companyId: string,
+  userId: string,
+  requisitionId: string,
+  data: MaterialRequisitionApprove,
+  request?: NextRequest
+) {
+  const existing = await findRequisition(companyId, requisitionId);
+  if (existing.status !== MaterialRequisitionStatus.PENDING) {
+    throw new Error('Only pending requisitions can be approved');
+  }
+
+  const approved = new Map(data.lines.map((line) => [line.lineId, line.qtyApproved]));
+  for (const lineId of Array.from(approved.keys())) {
+    if (!existing.lines.some((line) => line.id === lineId)) {
+      throw new Error('Requisition line not found');
+    }
+  }
+  const lines = existing.lines.map((line) => {
+    const qtyApproved = new Prisma.Decimal(approved.get(line.id) ?? 0);
+    if (qtyApproved.gt(line.qtyRequested)) {
+      throw new Error(
+        `Approved quantity of ${line.stockItem.name} cannot exceed the ${Number(line.qtyRequested)} requested`
+      );
+    }
+    return { id: line.id, qtyRequested: line.qtyRequested, qtyApproved };
+  });
+
+  const status = lines.every((line) => line.qtyApproved.isZero())
+    ? MaterialRequisitionStatus.REJECTED
+    : lines.every((line) => line.qtyApproved.eq(line.qtyRequested))
+      ? MaterialRequisitionStatus.APPROVED
+      : MaterialRequisitionStatus.PARTIALLY_APPROVED;
+
+  const requisition = await prisma.$transaction(async (tx) => {
+    // Guard against two approvers deciding at once
+    const claimed = await tx.materialRequisition.updateMany({
+      where: { id: existing.id, status: MaterialRequisitionStatus.PENDING },
+      data: {
+        status,
+        decidedById: userId,
+        decidedAt: new Date(),
+        decisionNotes: data.notes || null,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Only pending requisitions can be approved');
+    }
+    for (const line of lines) {
+      await tx.materialRequisitionLine.update({
+        where: { id: line.id },
+        data: { qtyApproved: line.qtyApproved },
+      });
+    }
+    return tx.materialRequisition.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: requisitionInclude,
+    });
+  });
+
+  const view = serializeRequisition(requisition);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: requisition.id,
+    action: 'STATUS_CHANGE',
+    before: serializeRequisition(existing),
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Withdraw a pending requisition. Only its requester or an approver may cancel it.
+ */
+export async function cancelMaterialRequisition(
+  companyId: string,
+  userId: string,
+  requisitionId: string,
+  canApprove: boolean,
+  request?: NextRequest
+) {
+  const existing = await findRequisition(companyId, requisitionId);
+  if (existing.status !== MaterialRequisitionStatus.PENDING) {
+    throw new Error('Only pending requisitions can be cancelled');
+  }
+  if (existing.requestedById !== userId && !canApprove) {
+    throw new Error('Only the requester or an approver can cancel this requisition');
+  }
+
+  const claimed = await prisma.materialRequisition.updateMany({
+    where: { id: existing.id, status: MaterialRequisitionStatus.PENDING },
+    data: { status: MaterialRequisitionStatus.CANCELLED },
+  });
+  if (claimed.count === 0) {
+    throw new Error('Only pending requisitions can be cancelled');
+  }
+
+  const view = await getMaterialRequisition(companyId, existing.id);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'MaterialRequisition',
+    entityId: existing.id,
+    action: 'STATUS_CHANGE',
+    before: serializeRequisition(existing),
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Issue part or all of the outstanding approved quantity of a requisition line from the
+ * project's site as an ISSUE movement
+ */
+export async function issueRequisitionStock(params: {
+  companyId: string;
+  userId: string;
+  projectId: string;
+  requisitionLineId: string;
+  stockItemId: string;
+  qty: number;
+  movementDate: Date;
+  notes?: string | null;
+  meta?: Record<string, unknown> | null;
+  tracking?: StockTracking | null;
+}) {
+  const { companyId, userId, projectId, requisitionLineId, stockItemId, movementDate } = params;
+  const qty = new Prisma.Decimal(params.qty);
+  if (qty.lte(0)) {
+    throw new Error('Quantity must be positive');
+  }
+
+  const line = await prisma.materialRequisitionLine.findFirst({
+    where: { id: requisitionLineId, requisition: { companyId } },
+    include: {
+      requisition: true,
+      stockItem: { select: { name: true } },
+    },
+  });
+  if (!line) {
+    throw new Error('Requisition line not found');
+  }
+  const { requisition } = line;
+  if (requisition.projectId !== projectId) {
+    throw new Error(`Requisition #${requisition.requisitionNo} is for a different project`);
+  }
+  if (line.stockItemId !== stockItemId) {
+    throw new Error(`Requisition line is for ${line.stockItem.name}`);
+  }
+  if (!ISSUABLE_STATUSES.includes(requisition.status)) {
+    throw new Error(`Requisition #${requisition.requisitionNo} is not approved for issue`);
+  }
+
+  const outstanding = (line.qtyApproved ?? new Prisma.Decimal(0)).minus(line.qtyIssued);
+  if (qty.gt(outstanding)) {
+    throw new Error(
+      `Only ${Number(outstanding)} of ${line.stockItem.name} remains approved on requisition #${requisition.requisitionNo}`
+    );
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Guard against the same quantity being issued twice
+    const claimed = await tx.materialRequisitionLine.updateMany({
+      where: { id: line.id, qtyIssued: line.qtyIssued },
+      data: { qtyIssued: { increment: qty } },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Requisition line was updated by someone else; please reload');
+    }
+
+    const location = await ensureProjectStockLocation(tx, companyId, projectId);
+    const result = await applyStockBalance(tx, {
+      companyId,
+      stockItemId,
+      locationId: location.id,
+      type: 'OUT',
+      qty,
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to issue stock');
+    }
+
+    const movement = await tx.stockMovement.create({
+      data: {
+        companyId,
+        stockItemId,
+        movementDate,
+        type: 'OUT',
+        movementKind: StockMovementKind.ISSUE,
+        qty,
+        referenceType: REFERENCE_TYPE,
+        referenceId: requisition.id,
+        projectId,
+        locationId: location.id,
+        notes: params.notes || `Requisition #${requisition.requisitionNo}`,
+        meta: { ...(params.meta ?? {}), requisitionLineId: line.id } as Prisma.InputJsonObject,
+        createdById: userId,
+        approvedById: requisition.decidedById,
+        approvedAt: requisition.decidedAt,
+      },
+    });
+    await recordStockTracking(tx, {
+      companyId,
+      stockItemId,
+      movementId: movement.id,
+      locationId: location.id,
+      direction: 'OUT',
+      qty,
+      tracking: params.tracking,
+    });
+
+    const lines = await tx.materialRequisitionLine.findMany({
+      where: { requisitionId: requisition.id },
+      select: { qtyApproved: true, qtyIssued: true },
+    });
+    if (lines.every((l) => l.qtyIssued.gte(l.qtyApproved ?? 0))) {
+      await tx.materialRequisition.update({
+        where: { id: requisition.id },
+        data: { status: MaterialRequisitionStatus.ISSUED },
+      });
+    }
+
+    return { movementId: movement.id, balance: result.balance };
+  });
+}
+
+/**
+ * Fulfilment of requisitions raised in a period (cancelled ones excluded). The fulfilment
+ * rate is the share of the requested quantity that was issued, averaged over lines so that
+ * items in different units weigh the same; the approval rate is the same for approvals.
+ */
+export async function getRequisitionFulfilmentReport(
+  companyId: string,
+  filters: { from?: Date; to?: Date; projectId?: string } = {}
+) {
+  const requisitions = await prisma.materialRequisition.findMany({
+    where: {
+      companyId,
+      status: { not: MaterialRequisitionStatus.CANCELLED },
+      ...(filters.projectId ? { projectId: filters.projectId } : {}),
+      ...(filters.from || filters.to
+        ? {
+            requestDate: {
+              ...(filters.from ? { gte: filters.from } : {}),
+              ...(filters.to ? { lte: filters.to } : {}),
+            },
+          }
+        : {}),
+    },
+    include: requisitionInclude,
+  });
+
+  type Tally = {
+    requisitions: number;
+    open: number;
+    lines: number;
+    linesFilled: number;
+    approvedShare: number;
+    issuedShare: number;
+    decisionDays: number;
+    decided: number;
+  };
+  const emptyTally = (): Tally => ({
+    requisitions: 0,
+    open: 0,
+    lines: 0,
+    linesFilled: 0,
+    approvedShare: 0,
+    issuedShare: 0,
+    decisionDays: 0,
+    decided: 0,
+  });
+  const summarize = (tally: Tally) => ({
+    requisitions: tally.requisitions,
+    open: tally.open,
+    lines: tally.lines,
+    linesFilled: tally.linesFilled,
+    approvalRate: tally.lines ? Math.round((tally.approvedShare / tally.lines) * 1000) / 10 : 0,
+    fulfilmentRate: tally.lines ? Math.round((tally.issuedShare / tally.lines) * 1000) / 10 : 0,
+    avgDaysToDecision: tally.decided
+      ? Math.round((tally.decisionDays / tally.decided) * 10) / 10
+      : null,
+  });
+
+  const total = emptyTally();
+  const byProject = new Map<string, { project: { id: string; name: string }; tally: Tally }>();
+  const byItem = new Map<
+    string,
+    {
+      stockItem: { id: string; name: string; unit: string };
+      requested: number;
+      approved: number;
+      issued: number;
+    }
+  >();
+
+  for (const requisition of requisitions) {
+    const projectRow = byProject.get(requisition.projectId) ?? {
+      project: requisition.project,
+      tally: emptyTally(),
+    };
+    byProject.set(requisition.projectId, projectRow);
+
+    for (const tally of [total, projectRow.tally]) {
+      tally.requisitions += 1;
+      if (OPEN_STATUSES.includes(requisition.status)) {
+        tally.open += 1;
+      }
+      if (requisition.decidedAt) {
+        tally.decided += 1;
+        tally.decisionDays +=
+          (requisition.decidedAt.getTime() - requisition.createdAt.getTime()) / 86_400_000;
+      }
+    }
+
+    for (const line of requisition.lines) {
+      const requested = Number(line.qtyRequested);
+      const approved = Number(line.qtyApproved ?? 0);
+      const issued = Number(line.qtyIssued);
+      for (const tally of [total, projectRow.tally]) {
+        tally.lines += 1;
+        tally.approvedShare += Math.min(1, approved / requested);
+        tally.issuedShare += Math.min(1, issued / requested);
+        if (issued >= requested) {
+          tally.linesFilled += 1;
+        }
+      }
+
+      const itemRow = byItem.get(line.stockItemId) ?? {
+        stockItem: line.stockItem,
+        requested: 0,
+        approved: 0,
+        issued: 0,
+      };
+      itemRow.requested += requested;
+      itemRow.approved += approved;
+      itemRow.issued += issued;
+      byItem.set(line.stockItemId, itemRow);
+    }
+  }
+
+  return {
+    totals: summarize(total),
+    projects: Array.from(byProject.values())
+      .map((row) => ({ project: row.project, ...summarize(row.tally) }))
+      .sort((a, b) => a.project.name.localeCompare(b.project.name)),
+    items: Array.from(byItem.values())
+      .map((row) => ({
+        stockItem: row.stockItem,
+        requested: roundQty(row.requested),
+        approved: roundQty(row.approved),
+        issued: roundQty(row.issued),
+        fulfilmentRate: row.requested ? Math.round((row.issued / row.requested) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => a.stockItem.name.localeCompare(b.stockItem.name)),
+  };
+}
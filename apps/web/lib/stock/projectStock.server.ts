@@ -21,6 +21,8 @@ export interface ProjectStockItemBreakdown {
   receivedValue: number;
   issuedQty: number;
   issuedValue: number;
+  transferredOutQty: number;
+  transferredOutValue: number;
   wastageQty: number;
   wastageValue: number;
   remainingQty: number;
@@ -36,7 +38,7 @@ export interface ProjectStockOverview {
   items: ProjectStockItemBreakdown[];
 }
 
-type MovementCategory = 'OPENING' | 'IN' | 'OUT' | 'WASTAGE' | 'ADJUST';
+type MovementCategory = 'OPENING' | 'IN' | 'OUT' | 'TRANSFER_OUT' | 'WASTAGE' | 'ADJUST';
 
 interface StockMovementWithRelations {
   id: string;
@@ -66,6 +68,8 @@ interface ItemState {
   receivedValue: number;
   issuedQty: number;
   issuedValue: number;
+  transferredOutQty: number;
+  transferredOutValue: number;
   wastageQty: number;
   wastageValue: number;
 }
@@ -92,12 +96,12 @@ export function classifyMovement(movement: {
   ) {
     return 'IN';
   }
-  if (
-    movement.movementKind === StockMovementKind.ISSUE ||
-    movement.movementKind === StockMovementKind.TRANSFER_OUT
-  ) {
+  if (movement.movementKind === StockMovementKind.ISSUE) {
     return 'OUT';
   }
+  if (movement.movementKind === StockMovementKind.TRANSFER_OUT) {
+    return 'TRANSFER_OUT';
+  }
   if (movement.movementKind === StockMovementKind.WASTAGE) {
     return 'WASTAGE';
   }
@@ -166,6 +170,8 @@ export function computeWeightedAverageForProjectMovements(
         receivedValue: 0,
         issuedQty: 0,
         issuedValue: 0,
+        transferredOutQty: 0,
+        transferredOutValue: 0,
         wastageQty: 0,
         wastageValue: 0,
       });
@@ -211,7 +217,7 @@ export function computeWeightedAverageForProjectMovements(
       }
       item.onHandQty = newQty;
     } else if (category === 'OUT') {
-      // OUT movements: ISSUE, TRANSFER_OUT, or negative ADJUSTMENT
+      // OUT movements: ISSUE or negative ADJUSTMENT
       const outQty = Math.abs(qty); // Ensure positive
       const outValue = outQty * item.avgCost; // Use current avgCost
 
@@ -227,6 +233,18 @@ export function computeWeightedAverageForProjectMovements(
         item.avgCost = 0;
       }
       // avgCost remains unchanged when issuing (unless qty becomes 0)
+    } else if (category === 'TRANSFER_OUT') {
+      // Transfer to another site: leaves at the cost it was dispatched at, not consumed here
+      const outQty = Math.abs(qty);
+      const outValue = outQty * (unitCost ?? item.avgCost);
+
+      item.transferredOutQty += outQty;
+      item.transferredOutValue += outValue;
+
+      item.onHandQty = Math.max(0, item.onHandQty - outQty);
+      if (item.onHandQty === 0) {
+        item.avgCost = 0;
+      }
     } else if (category === 'WASTAGE') {
       // Wastage: decreases stock, uses current avgCost
       const wastageQty = qty;
@@ -282,6 +300,48 @@ export function computeWeightedAverageForProjectMovements(
   return itemMap;
 }
 
+/**
+ * Movements that belong to a project: its own movements plus transfers received.
+ * The dispatching side of a transfer also carries destinationProjectId, so TRANSFER_OUT
+ * rows are only counted for the project they left.
+ */
+export function projectMovementsWhere(projectId: string): Prisma.StockMovementWhereInput {
+  return {
+    OR: [
+      { projectId },
+      {
+        destinationProjectId: projectId,
+        OR: [
+          { movementKind: null },
+          { movementKind: { not: StockMovementKind.TRANSFER_OUT } },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Stock value booked to a set of movements: cost of everything received (IN movements
+ * with a unit cost) less what was transferred out to another site at its dispatch cost.
+ * Company-wide, a transfer nets to zero.
+ */
+export function netStockValue(
+  movements: Array<{
+    type: StockMovementType;
+    movementKind: StockMovementKind | null;
+    qty: Prisma.Decimal;
+    unitCost: Prisma.Decimal | null;
+  }>
+): number {
+  return movements.reduce((sum, m) => {
+    if (!m.unitCost) return sum;
+    const value = m.qty.toNumber() * m.unitCost.toNumber();
+    if (m.type === 'IN') return sum + value;
+    if (m.movementKind === StockMovementKind.TRANSFER_OUT) return sum - value;
+    return sum;
+  }, 0);
+}
+
 /**
  * Calculate project stock overview with weighted average valuation
  * Processes all movements chronologically to compute running balances
@@ -309,10 +369,7 @@ export async function getProjectStockOverview(
   const movements = await prisma.stockMovement.findMany({
     where: {
       companyId,
-      OR: [
-        { projectId },
-        { destinationProjectId: projectId }, // Include transfers received
-      ],
+      ...projectMovementsWhere(projectId),
     },
     include: {
       stockItem: {
@@ -365,6 +422,8 @@ export async function getProjectStockOverview(
       receivedValue: item.receivedValue,
       issuedQty: item.issuedQty,
       issuedValue: item.issuedValue,
+      transferredOutQty: item.transferredOutQty,
+      transferredOutValue: item.transferredOutValue,
       wastageQty: item.wastageQty,
       wastageValue: item.wastageValue,
       remainingQty,
@@ -0,0 +1,487 @@
+/**
+ * Reorder engine
+ *
+ * Each item with a minimum at a project site (the project's stock setting, else the item's
+ * reorder level) is checked against its average daily consumption, taken from ISSUE
+ * movements over a window, and the lead time of its supplier. An order is suggested when
+ * the stock on hand plus what is already on order would run below the minimum before a
+ * new delivery arrives:
+ *
+ *   reorder point = minimum + daily usage × lead time
+ *   suggested qty = reorder point + daily usage × cover days − (on hand + on order)
+ *
+ * The supplier is the item's preferred supplier, else whoever it was last ordered or bought
+ * from. Accepted suggestions become draft purchase orders or draft purchases, one per
+ * supplier and project.
+ */
+
+import { prisma } from '@accounting/db';
+import {
+  Prisma,
+  PurchaseLineType,
+  PurchaseOrderStatus,
+  PurchaseStatus,
+  StockMovementKind,
+} from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { ReorderGenerate, ReorderSuggestionFilters } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { createPurchaseOrder } from '@/lib/purchases/purchaseOrders.server';
+
+/** Lead time assumed for suppliers that have none set */
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REORDER_REFERENCE = 'Raised from reorder suggestions';
+
+/** Orders whose undelivered quantity still counts as on order, drafts included */
+const ON_ORDER_PO_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.OPEN,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+/** Purchases not yet posted, so their material has not come into stock */
+const PENDING_PURCHASE_STATUSES: PurchaseStatus[] = [
+  PurchaseStatus.DRAFT,
+  PurchaseStatus.SUBMITTED,
+  PurchaseStatus.APPROVED,
+];
+
+interface SupplierInfo {
+  id: string;
+  name: string;
+  leadTimeDays: number | null;
+  isActive: boolean;
+}
+
+export interface ReorderSuggestion {
+  projectId: string;
+  projectName: string;
+  stockItem: { id: string; name: string; unit: string };
+  minimum: number;
+  onHand: number;
+  onOrder: number;
+  issuedInWindow: number;
+  avgDailyUsage: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQty: number;
+  supplier: { id: string; name: string } | null;
+  rate: number;
+  isBelowMinimum: boolean;
+}
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundUpQty(value: number): number {
+  return Math.ceil(roundQty(value * 1000)) / 1000;
+}
+
+function key(projectId: string, stockItemId: string): string {
+  return `${projectId}:${stockItemId}`;
+}
+
+/**
+ * Items at project sites that need ordering, with the suggested quantity and supplier
+ */
+export async function getReorderSuggestions(
+  companyId: string,
+  filters: Partial<ReorderSuggestionFilters> = {}
+) {
+  const windowDays = filters.windowDays ?? 30;
+  const coverDays = filters.coverDays ?? 15;
+  const since = new Date(Date.now() - windowDays * DAY_MS);
+  const projectFilter = filters.projectId ?? { not: null };
+
+  const [settings, sites, issues, itemsWithLevel] = await Promise.all([
+    prisma.projectStockSetting.findMany({
+      where: { companyId, ...(filters.projectId ? { projectId: filters.projectId } : {}) },
+      select: { projectId: true, stockItemId: true, minQty: true },
+    }),
+    prisma.stockLocation.findMany({
+      where: { companyId, projectId: projectFilter },
+      select: { id: true, projectId: true },
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['projectId', 'stockItemId'],
+      where: {
+        companyId,
+        movementKind: StockMovementKind.ISSUE,
+        movementDate: { gte: since },
+        projectId: projectFilter,
+      },
+      _sum: { qty: true },
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId, isActive: true, reorderLevel: { not: null } },
+      select: { id: true, reorderLevel: true },
+    }),
+  ]);
+
+  const siteProjects = new Map(sites.map((site) => [site.id, site.projectId as string]));
+  const balances =
+    sites.length > 0
+      ? await prisma.stockBalance.findMany({
+          where: { companyId, locationId: { in: sites.map((site) => site.id) } },
+          select: { locationId: true, stockItemId: true, onHandQty: true, avgCost: true },
+        })
+      : [];
+
+  const onHandMap = new Map<string, { qty: number; avgCost: number }>();
+  for (const balance of balances) {
+    const projectId = siteProjects.get(balance.locationId);
+    if (projectId) {
+      onHandMap.set(key(projectId, balance.stockItemId), {
+        qty: Number(balance.onHandQty),
+        avgCost: Number(balance.avgCost),
+      });
+    }
+  }
+  const issuedMap = new Map<string, number>();
+  for (const issue of issues) {
+    if (issue.projectId) {
+      issuedMap.set(key(issue.projectId, issue.stockItemId), Number(issue._sum.qty ?? 0));
+    }
+  }
+
+  // The project's own minimum wins; the item's reorder level applies wherever the item is
+  // held or used
+  const minimums = new Map<string, { projectId: string; stockItemId: string; minimum: number }>();
+  for (const setting of settings) {
+    minimums.set(key(setting.projectId, setting.stockItemId), {
+      projectId: setting.projectId,
+      stockItemId: setting.stockItemId,
+      minimum: Number(setting.minQty),
+    });
+  }
+  const reorderLevels = new Map(itemsWithLevel.map((item) => [item.id, Number(item.reorderLevel)]));
+  for (const itemKey of new Set([...onHandMap.keys(), ...issuedMap.keys()])) {
+    const [projectId, stockItemId] = itemKey.split(':');
+    const level = reorderLevels.get(stockItemId);
+    if (level != null && !minimums.has(itemKey)) {
+      minimums.set(itemKey, { projectId, stockItemId, minimum: level });
+    }
+  }
+  if (minimums.size === 0) {
+    return { windowDays, coverDays, suggestions: [] as ReorderSuggestion[] };
+  }
+
+  const candidates = Array.from(minimums.values());
+  const projectIds = Array.from(new Set(candidates.map((c) => c.projectId)));
+  const itemIds = Array.from(new Set(candidates.map((c) => c.stockItemId)));
+  const supplierSelect = { id: true, name: true, leadTimeDays: true, isActive: true } as const;
+
+  const [projects, items, orderLines, pendingPurchaseLines, pastOrderLines, pastPurchaseLines] =
+    await Promise.all([
+      prisma.project.findMany({
+        where: { companyId, id: { in: projectIds }, isActive: true },
+        select: { id: true, name: true },
+      }),
+      prisma.stockItem.findMany({
+        where: { companyId, id: { in: itemIds }, isActive: true },
+        select: {
+          id: true,
+          name: true,
+          unit: true,
+          preferredVendor: { select: supplierSelect },
+        },
+      }),
+      prisma.purchaseOrderLine.findMany({
+        where: {
+          stockItemId: { in: itemIds },
+          purchaseOrder: { companyId, status: { in: ON_ORDER_PO_STATUSES }, projectId: { in: projectIds } },
+        },
+        select: {
+          stockItemId: true,
+          qtyOrdered: true,
+          qtyReceived: true,
+          purchaseOrder: { select: { projectId: true } },
+        },
+      }),
+      prisma.purchaseLine.findMany({
+        where: {
+          lineType: PurchaseLineType.MATERIAL,
+          stockItemId: { in: itemIds },
+          purchase: {
+            companyId,
+            status: { in: PENDING_PURCHASE_STATUSES },
+            purchaseOrderId: null,
+            projectId: { in: projectIds },
+          },
+        },
+        select: { stockItemId: true, quantity: true, purchase: { select: { projectId: true } } },
+      }),
+      prisma.purchaseOrderLine.findMany({
+        where: {
+          stockItemId: { in: itemIds },
+          purchaseOrder: { companyId, status: { not: PurchaseOrderStatus.CANCELLED } },
+        },
+        select: {
+          stockItemId: true,
+          agreedRate: true,
+          purchaseOrder: { select: { supplierVendor: { select: supplierSelect } } },
+        },
+        orderBy: [{ purchaseOrder: { orderDate: 'desc' } }, { purchaseOrder: { poNo: 'desc' } }],
+      }),
+      prisma.purchaseLine.findMany({
+        where: {
+          stockItemId: { in: itemIds },
+          unitRate: { not: null },
+          purchase: { companyId, status: { not: PurchaseStatus.REVERSED } },
+        },
+        select: {
+          stockItemId: true,
+          unitRate: true,
+          purchase: { select: { supplierVendor: { select: supplierSelect } } },
+        },
+        orderBy: [{ purchase: { date: 'desc' } }, { createdAt: 'desc' }],
+      }),
+    ]);
+
+  const onOrderMap = new Map<string, number>();
+  for (const line of orderLines) {
+    const lineKey = key(line.purchaseOrder.projectId, line.stockItemId);
+    const outstanding = Math.max(0, Number(line.qtyOrdered) - Number(line.qtyReceived));
+    onOrderMap.set(lineKey, (onOrderMap.get(lineKey) ?? 0) + outstanding);
+  }
+  for (const line of pendingPurchaseLines) {
+    if (!line.stockItemId) continue;
+    const lineKey = key(line.purchase.projectId, line.stockItemId);
+    onOrderMap.set(lineKey, (onOrderMap.get(lineKey) ?? 0) + Number(line.quantity ?? 0));
+  }
+
+  // Latest supplier of each item and the latest rate from each supplier, orders first
+  const lastSupplier = new Map<string, SupplierInfo>();
+  const lastRates = new Map<string, number>();
+  for (const line of pastOrderLines) {
+    const supplier = line.purchaseOrder.supplierVendor;
+    if (!lastSupplier.has(line.stockItemId)) lastSupplier.set(line.stockItemId, supplier);
+    const rateKey = key(supplier.id, line.stockItemId);
+    if (!lastRates.has(rateKey)) lastRates.set(rateKey, Number(line.agreedRate));
+  }
+  for (const line of pastPurchaseLines) {
+    if (!line.stockItemId) continue;
+    const supplier = line.purchase.supplierVendor;
+    if (!lastSupplier.has(line.stockItemId)) lastSupplier.set(line.stockItemId, supplier);
+    const rateKey = key(supplier.id, line.stockItemId);
+    if (!lastRates.has(rateKey)) lastRates.set(rateKey, Number(line.unitRate));
+  }
+
+  const projectMap = new Map(projects.map((project) => [project.id, project]));
+  const itemMap = new Map(items.map((item) => [item.id, item]));
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const candidate of candidates) {
+    const project = projectMap.get(candidate.projectId);
+    const item = itemMap.get(candidate.stockItemId);
+    if (!project || !item) continue;
+
+    const candidateKey = key(candidate.projectId, candidate.stockItemId);
+    const preferred = item.preferredVendor?.isActive ? item.preferredVendor : null;
+    const previous = lastSupplier.get(item.id);
+    const supplier = preferred ?? (previous?.isActive ? previous : null);
+    const leadTimeDays = supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+
+    const onHand = onHandMap.get(candidateKey);
+    const onHandQty = onHand?.qty ?? 0;
+    const onOrder = roundQty(onOrderMap.get(candidateKey) ?? 0);
+    const issuedInWindow = issuedMap.get(candidateKey) ?? 0;
+    const avgDailyUsage = issuedInWindow / windowDays;
+    const reorderPoint = candidate.minimum + avgDailyUsage * leadTimeDays;
+    const position = onHandQty + onOrder;
+    if (position >= reorderPoint) continue;
+
+    const suggestedQty = roundUpQty(reorderPoint + avgDailyUsage * coverDays - position);
+    if (suggestedQty <= 0) continue;
+
+    const rate = (supplier && lastRates.get(key(supplier.id, item.id))) ?? onHand?.avgCost ?? 0;
+    suggestions.push({
+      projectId: project.id,
+      projectName: project.name,
+      stockItem: { id: item.id, name: item.name, unit: item.unit },
+      minimum: candidate.minimum,
+      onHand: onHandQty,
+      onOrder,
+      issuedInWindow,
+      avgDailyUsage: roundQty(avgDailyUsage),
+      leadTimeDays,
+      reorderPoint: roundQty(reorderPoint),
+      suggestedQty,
+      supplier: supplier ? { id: supplier.id, name: supplier.name } : null,
+      rate: Math.round(rate * 100) / 100,
+      isBelowMinimum: onHandQty < candidate.minimum,
+    });
+  }
+
+  suggestions.sort(
+    (a, b) =>
+      a.projectName.localeCompare(b.projectName) || a.stockItem.name.localeCompare(b.stockItem.name)
+  );
+  return { windowDays, coverDays, suggestions };
+}
+
+/**
+ * Raise draft purchase orders or draft purchases from the selected suggestions, one per
+ * supplier and project
+ */
+export async function generateReorderDrafts(
+  companyId: string,
+  userId: string,
+  data: ReorderGenerate,
+  request?: NextRequest
+) {
+  const supplierIds = Array.from(new Set(data.lines.map((line) => line.supplierVendorId)));
+  const projectIds = Array.from(new Set(data.lines.map((line) => line.projectId)));
+  const itemIds = Array.from(new Set(data.lines.map((line) => line.stockItemId)));
+  const [suppliers, projects, items] = await Promise.all([
+    prisma.vendor.findMany({
+      where: { companyId, id: { in: supplierIds } },
+      select: { id: true, name: true, isActive: true, leadTimeDays: true },
+    }),
+    prisma.project.findMany({
+      where: { companyId, id: { in: projectIds } },
+      select: { id: true },
+    }),
+    prisma.stockItem.findMany({
+      where: { companyId, id: { in: itemIds } },
+      select: { id: true, name: true, unit: true, isActive: true },
+    }),
+  ]);
+  for (const supplierId of supplierIds) {
+    const supplier = suppliers.find((s) => s.id === supplierId);
+    if (!supplier) {
+      throw new Error('Supplier not found or does not belong to your company');
+    }
+    if (!supplier.isActive) {
+      throw new Error(`${supplier.name} is inactive`);
+    }
+  }
+  if (projects.length !== projectIds.length) {
+    throw new Error('Project not found');
+  }
+  for (const itemId of itemIds) {
+    const item = items.find((i) => i.id === itemId);
+    if (!item) {
+      throw new Error('Stock item not found or does not belong to your company');
+    }
+    if (!item.isActive) {
+      throw new Error(`${item.name} is inactive`);
+    }
+  }
+
+  const groups = new Map<string, ReorderGenerate['lines']>();
+  for (const line of data.lines) {
+    const groupKey = key(line.supplierVendorId, line.projectId);
+    groups.set(groupKey, [...(groups.get(groupKey) ?? []), line]);
+  }
+
+  const today = new Date();
+  const documents: Array<{
+    id: string;
+    poNo: number | null;
+    supplier: { id: string; name: string };
+    project: { id: string; name: string };
+    total: number;
+  }> = [];
+
+  if (data.target === 'PURCHASE_ORDER') {
+    for (const lines of groups.values()) {
+      const supplier = suppliers.find((s) => s.id === lines[0].supplierVendorId)!;
+      const leadTimeDays = supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+      const order = await createPurchaseOrder(
+        companyId,
+        userId,
+        {
+          orderDate: today,
+          expectedDate: new Date(today.getTime() + leadTimeDays * DAY_MS),
+          projectId: lines[0].projectId,
+          supplierVendorId: supplier.id,
+          notes: REORDER_REFERENCE,
+          lines: lines.map((line) => ({
+            stockItemId: line.stockItemId,
+            qtyOrdered: line.qty,
+            agreedRate: line.rate,
+          })),
+        },
+        request,
+        { draft: true }
+      );
+      documents.push({
+        id: order.id,
+        poNo: order.poNo,
+        supplier: order.supplierVendor,
+        project: order.project,
+        total: order.total,
+      });
+    }
+    return { target: data.target, documents };
+  }
+
+  const purchases = await prisma.$transaction(async (tx) => {
+    const created = [];
+    for (const lines of groups.values()) {
+      const lineTotals = lines.map((line) => Math.round(line.qty * line.rate * 100) / 100);
+      const total = new Prisma.Decimal(lineTotals.reduce((sum, amount) => sum + amount, 0));
+      created.push(
+        await tx.purchase.create({
+          data: {
+            companyId,
+            date: today,
+            projectId: lines[0].projectId,
+            supplierVendorId: lines[0].supplierVendorId,
+            reference: REORDER_REFERENCE,
+            subtotal: total,
+            total,
+            paidAmount: new Prisma.Decimal(0),
+            dueAmount: total,
+            status: PurchaseStatus.DRAFT,
+            lines: {
+              create: lines.map((line, index) => {
+                const item = items.find((i) => i.id === line.stockItemId)!;
+                return {
+                  lineType: PurchaseLineType.MATERIAL,
+                  stockItem: { connect: { id: item.id } },
+                  materialName: item.name,
+                  unit: item.unit,
+                  quantity: new Prisma.Decimal(line.qty),
+                  unitRate: new Prisma.Decimal(line.rate),
+                  lineTotal: new Prisma.Decimal(lineTotals[index]),
+                };
+              }),
+            },
+          },
+          include: {
+            project: { select: { id: true, name: true } },
+            supplierVendor: { select: { id: true, name: true } },
+            lines: true,
+          },
+        })
+      );
+    }
+    return created;
+  });
+
+  for (const purchase of purchases) {
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'Purchase',
+      entityId: purchase.id,
+      action: 'CREATE',
+      after: purchase,
+      request,
+    });
+    documents.push({
+      id: purchase.id,
+      poNo: null,
+      supplier: purchase.supplierVendor,
+      project: purchase.project,
+      total: Number(purchase.total),
+    });
+  }
+  return { target: data.target, documents };
+}
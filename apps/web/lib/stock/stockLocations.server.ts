@@ -0,0 +1,269 @@
+/**
+ * Stock locations
+ *
+ * Stock is held at a location: a warehouse such as the central yard, or a project site.
+ * Balances are kept per item per location. Each company has one default warehouse that
+ * takes stock movements without a project; a project's site location is created the
+ * first time stock moves at that project.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockLocationType } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { StockLocationCreate, StockLocationUpdate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const DEFAULT_LOCATION_NAME = 'Central Store';
+
+/**
+ * The company's default warehouse, created on first use
+ */
+export async function getDefaultStockLocation(db: Db, companyId: string) {
+  const existing = await db.stockLocation.findFirst({
+    where: { companyId, isDefault: true },
+  });
+  if (existing) {
+    return existing;
+  }
+  return db.stockLocation.create({
+    data: {
+      companyId,
+      name: DEFAULT_LOCATION_NAME,
+      type: StockLocationType.WAREHOUSE,
+      isDefault: true,
+    },
+  });
+}
+
+/**
+ * The site location of a project, created on first use
+ */
+export async function ensureProjectStockLocation(db: Db, companyId: string, projectId: string) {
+  const existing = await db.stockLocation.findUnique({ where: { projectId } });
+  if (existing) {
+    if (existing.companyId !== companyId) {
+      throw new Error('Project not found or does not belong to company');
+    }
+    return existing;
+  }
+
+  const project = await db.project.findFirst({
+    where: { id: projectId, companyId },
+    select: { id: true, name: true },
+  });
+  if (!project) {
+    throw new Error('Project not found or does not belong to company');
+  }
+  return db.stockLocation.upsert({
+    where: { projectId },
+    create: {
+      companyId,
+      name: `${project.name} site`,
+      type: StockLocationType.PROJECT_SITE,
+      projectId,
+    },
+    update: {},
+  });
+}
+
+/**
+ * Location a movement happens at: the given location, else the project's site, else the
+ * default warehouse
+ */
+export async function resolveStockLocationId(
+  db: Db,
+  companyId: string,
+  target: { locationId?: string | null; projectId?: string | null }
+): Promise<string> {
+  if (target.locationId) {
+    const location = await db.stockLocation.findFirst({
+      where: { id: target.locationId, companyId },
+      select: { id: true, isActive: true },
+    });
+    if (!location) {
+      throw new Error('Stock location not found or does not belong to your company');
+    }
+    if (!location.isActive) {
+      throw new Error('Stock location is inactive');
+    }
+    return location.id;
+  }
+  if (target.projectId) {
+    return (await ensureProjectStockLocation(db, companyId, target.projectId)).id;
+  }
+  return (await getDefaultStockLocation(db, companyId)).id;
+}
+
+/**
+ * Locations of the company with the number of items and stock value held at each
+ */
+export async function listStockLocations(companyId: string) {
+  await getDefaultStockLocation(prisma, companyId);
+
+  const [locations, balances] = await Promise.all([
+    prisma.stockLocation.findMany({
+      where: { companyId },
+      include: { project: { select: { id: true, name: true } } },
+      orderBy: [{ isDefault: 'desc' }, { type: 'asc' }, { name: 'asc' }],
+    }),
+    prisma.stockBalance.findMany({
+      where: { companyId, onHandQty: { gt: 0 } },
+      select: { locationId: true, onHandQty: true, avgCost: true },
+    }),
+  ]);
+
+  return locations.map((location) => {
+    const held = balances.filter((b) => b.locationId === location.id);
+    return {
+      ...location,
+      itemCount: held.length,
+      stockValue:
+        Math.round(
+          held.reduce((sum, b) => sum + Number(b.onHandQty) * Number(b.avgCost), 0) * 100
+        ) / 100,
+    };
+  });
+}
+
+async function assertUniqueName(companyId: string, name: string, excludeId?: string) {
+  const duplicate = await prisma.stockLocation.findFirst({
+    where: {
+      companyId,
+      name: { equals: name, mode: 'insensitive' },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+  });
+  if (duplicate) {
+    throw new Error(`A location named ${duplicate.name} already exists`);
+  }
+}
+
+/**
+ * Create a warehouse or project site location
+ */
+export async function createStockLocation(
+  companyId: string,
+  userId: string,
+  data: StockLocationCreate,
+  request?: NextRequest
+) {
+  await assertUniqueName(companyId, data.name);
+
+  let projectId: string | null = null;
+  if (data.type === 'PROJECT_SITE') {
+    const project = await prisma.project.findFirst({
+      where: { id: data.projectId!, companyId },
+      include: { stockLocation: { select: { name: true } } },
+    });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+    if (project.stockLocation) {
+      throw new Error(`${project.name} already has a site location (${project.stockLocation.name})`);
+    }
+    projectId = project.id;
+  }
+
+  const location = await prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.stockLocation.updateMany({
+        where: { companyId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+    return tx.stockLocation.create({
+      data: {
+        companyId,
+        name: data.name,
+        code: data.code || null,
+        type: data.type,
+        projectId,
+        isDefault: data.isDefault,
+      },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockLocation',
+    entityId: location.id,
+    action: 'CREATE',
+    after: location,
+    request,
+  });
+
+  return location;
+}
+
+/**
+ * Rename, make default, or deactivate a location. The default warehouse cannot be
+ * deactivated and a location holding stock cannot be deactivated.
+ */
+export async function updateStockLocation(
+  companyId: string,
+  userId: string,
+  locationId: string,
+  data: StockLocationUpdate,
+  request?: NextRequest
+) {
+  const existing = await prisma.stockLocation.findFirst({
+    where: { id: locationId, companyId },
+  });
+  if (!existing) {
+    throw new Error('Stock location not found');
+  }
+  if (data.name !== undefined) {
+    await assertUniqueName(companyId, data.name, existing.id);
+  }
+  if (data.isDefault && existing.type !== StockLocationType.WAREHOUSE) {
+    throw new Error('Only a warehouse can be the default location');
+  }
+  if (data.isDefault === false && existing.isDefault) {
+    throw new Error('Make another warehouse the default instead');
+  }
+  if (data.isActive === false) {
+    if (existing.isDefault || data.isDefault) {
+      throw new Error('The default location cannot be deactivated');
+    }
+    const held = await prisma.stockBalance.count({
+      where: { locationId: existing.id, onHandQty: { gt: 0 } },
+    });
+    if (held > 0) {
+      throw new Error('Location still holds stock; move or adjust it out first');
+    }
+  }
+
+  const location = await prisma.$transaction(async (tx) => {
+    if (data.isDefault && !existing.isDefault) {
+      await tx.stockLocation.updateMany({
+        where: { companyId, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+    return tx.stockLocation.update({
+      where: { id: existing.id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.code !== undefined ? { code: data.code || null } : {}),
+        ...(data.isDefault !== undefined ? { isDefault: data.isDefault } : {}),
+        ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+      },
+    });
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockLocation',
+    entityId: location.id,
+    action: 'UPDATE',
+    before: existing,
+    after: location,
+    request,
+  });
+
+  return location;
+}
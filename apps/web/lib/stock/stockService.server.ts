@@ -1,24 +1,36 @@
 /**
  * Server-only stock service functions
- * Transaction-safe stock adjustment with audit trail
+ * Transaction-safe stock adjustment with audit trail. Balances are kept per item per
+ * stock location.
  */
 
 import { prisma } from '@accounting/db';
-import { Prisma, StockMovementType } from '@prisma/client';
+import { CostingMethod, Prisma, StockMovementType } from '@prisma/client';
+import type { StockTracking } from '@accounting/shared';
+import { applyFifoLayers, resolveCostingMethod } from './costLayers.server';
+import { raiseLowStockAlert } from './lowStockAlerts.server';
+import { resolveStockLocationId } from './stockLocations.server';
+import { recordStockTracking, StockTrackingError } from './stockTracking.server';
+import { resolveUnitConversion, UnitConversion } from './unitsOfMeasure.server';
 
 export interface AdjustStockParams {
   companyId: string;
   stockItemId: string;
   type: StockMovementType;
   qty: number | string | Prisma.Decimal;
+  // Unit qty and unitCost are given in; defaults to the item's base unit
+  unit?: string | null;
   unitCost?: number | string | Prisma.Decimal;
   referenceType?: string;
   referenceId?: string;
   projectId?: string | null;
+  locationId?: string | null;
   vendorId?: string | null;
   notes?: string | null;
   userId: string;
   movementDate?: Date;
+  // Lot or serials moved; left undefined the movement is not traced
+  tracking?: StockTracking | null;
 }
 
 export interface AdjustStockResult {
@@ -31,9 +43,153 @@ export interface AdjustStockResult {
   error?: string;
 }
 
+/**
+ * Apply a movement to the balance of an item at a location (within a transaction).
+ * IN adds at the given unit cost and re-averages, OUT refuses to go below zero and
+ * ADJUST sets the quantity on hand. For items costed FIFO the cost layers move with the
+ * quantity and avgCost is the cost of the layers left. Taking a site below an item's
+ * minimum raises a low-stock alert.
+ */
+export async function applyStockBalance(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    locationId: string;
+    type: StockMovementType;
+    qty: Prisma.Decimal;
+    unitCost?: number | string | Prisma.Decimal;
+  }
+): Promise<AdjustStockResult> {
+  const { companyId, stockItemId, locationId, type, qty: qtyDecimal, unitCost } = params;
+
+  // Get or create stock balance at the location
+  let balance = await tx.stockBalance.findUnique({
+    where: {
+      companyId_stockItemId_locationId: {
+        companyId,
+        stockItemId,
+        locationId,
+      },
+    },
+  });
+
+  if (!balance) {
+    balance = await tx.stockBalance.create({
+      data: {
+        companyId,
+        stockItemId,
+        locationId,
+        onHandQty: new Prisma.Decimal(0),
+        avgCost: new Prisma.Decimal(0),
+      },
+    });
+  }
+
+  let newOnHandQty: Prisma.Decimal;
+  let newAvgCost: Prisma.Decimal = balance.avgCost;
+
+  // Handle different movement types
+  if (type === 'IN') {
+    newOnHandQty = balance.onHandQty.plus(qtyDecimal);
+
+    // Update average cost if unitCost provided
+    if (unitCost !== undefined) {
+      const unitCostDecimal = new Prisma.Decimal(unitCost);
+      const oldQty = balance.onHandQty;
+      const oldAvg = balance.avgCost;
+
+      if (oldQty.plus(qtyDecimal).gt(0)) {
+        const totalOldCost = oldQty.mul(oldAvg);
+        const newCost = qtyDecimal.mul(unitCostDecimal);
+        const totalNewCost = totalOldCost.plus(newCost);
+        newAvgCost = totalNewCost.div(oldQty.plus(qtyDecimal));
+      } else {
+        newAvgCost = unitCostDecimal;
+      }
+    }
+  } else if (type === 'OUT') {
+    // Prevent negative stock
+    if (balance.onHandQty.lt(qtyDecimal)) {
+      return {
+        success: false,
+        error: `Insufficient stock. Available: ${balance.onHandQty.toString()}, Requested: ${qtyDecimal.toString()}`,
+      };
+    }
+
+    newOnHandQty = balance.onHandQty.minus(qtyDecimal);
+    // avgCost remains the same for OUT
+    newAvgCost = balance.avgCost;
+  } else if (type === 'ADJUST') {
+    // ADJUST sets the quantity on hand at the location (qty is the new onHandQty)
+    newOnHandQty = qtyDecimal;
+    // avgCost can be updated if unitCost provided
+    if (unitCost !== undefined) {
+      newAvgCost = new Prisma.Decimal(unitCost);
+    } else {
+      newAvgCost = balance.avgCost;
+    }
+  } else {
+    return { success: false, error: `Invalid movement type: ${type}` };
+  }
+
+  // Prevent negative stock (double-check for ADJUST)
+  if (newOnHandQty.lt(0)) {
+    return {
+      success: false,
+      error: 'Stock adjustment would result in negative quantity',
+    };
+  }
+
+  // Items costed FIFO carry the cost of their remaining layers instead of a running average
+  if ((await resolveCostingMethod(tx, companyId, stockItemId)) === CostingMethod.FIFO) {
+    const layerCost = await applyFifoLayers(tx, {
+      companyId,
+      stockItemId,
+      locationId,
+      beforeQty: balance.onHandQty,
+      afterQty: newOnHandQty,
+      avgCost: balance.avgCost,
+      unitCost: unitCost !== undefined ? new Prisma.Decimal(unitCost) : undefined,
+      openedAt: balance.createdAt,
+    });
+    if (layerCost) {
+      newAvgCost = layerCost;
+    }
+  }
+
+  const updatedBalance = await tx.stockBalance.update({
+    where: { id: balance.id },
+    data: {
+      onHandQty: newOnHandQty,
+      avgCost: newAvgCost,
+    },
+  });
+
+  await raiseLowStockAlert(tx, {
+    companyId,
+    stockItemId,
+    locationId,
+    beforeQty: balance.onHandQty,
+    afterQty: updatedBalance.onHandQty,
+  });
+
+  return {
+    success: true,
+    balance: {
+      onHandQty: updatedBalance.onHandQty,
+      avgCost: updatedBalance.avgCost,
+    },
+  };
+}
+
 /**
  * Adjust stock with transaction safety and idempotency
- * Creates StockMovement and updates StockBalance atomically
+ * Creates StockMovement and updates the StockBalance of the location atomically.
+ * The location defaults to the project's site when a project is given, otherwise to
+ * the company's default warehouse. A quantity in another unit than the item's base unit
+ * is converted and stored in the base unit, keeping the entered quantity and unit on
+ * the movement. With tracking the lot or serials moved are recorded on the movement.
  */
 export async function adjustStock(
   params: AdjustStockParams
@@ -43,14 +199,17 @@ export async function adjustStock(
     stockItemId,
     type,
     qty,
+    unit,
     unitCost,
     referenceType,
     referenceId,
     projectId,
+    locationId,
     vendorId,
     notes,
     userId,
     movementDate = new Date(),
+    tracking,
   } = params;
 
   // Convert qty to Decimal
@@ -59,167 +218,133 @@ export async function adjustStock(
     return { success: false, error: 'Quantity must be positive' };
   }
 
-  return await prisma.$transaction(async (tx) => {
-    // Check idempotency: if referenceType+referenceId+stockItemId+type exists, return existing
-    if (referenceType && referenceId) {
-      const existing = await tx.stockMovement.findFirst({
-        where: {
-          companyId,
-          stockItemId,
-          type,
-          referenceType,
-          referenceId,
-        },
-      });
-
-      if (existing) {
-        // Return existing movement and current balance
-        const balance = await tx.stockBalance.findUnique({
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Check idempotency: if referenceType+referenceId+stockItemId+type exists, return existing
+      if (referenceType && referenceId) {
+        const existing = await tx.stockMovement.findFirst({
           where: {
-            companyId_stockItemId: {
-              companyId,
-              stockItemId,
-            },
+            companyId,
+            stockItemId,
+            type,
+            referenceType,
+            referenceId,
           },
         });
 
-        return {
-          success: true,
-          movementId: existing.id,
-          balance: balance
-            ? {
-                onHandQty: balance.onHandQty,
-                avgCost: balance.avgCost,
-              }
-            : undefined,
-        };
-      }
-    }
-
-    // Get or create stock balance
-    let balance = await tx.stockBalance.findUnique({
-      where: {
-        companyId_stockItemId: {
-          companyId,
-          stockItemId,
-        },
-      },
-    });
-
-    if (!balance) {
-      balance = await tx.stockBalance.create({
-        data: {
-          companyId,
-          stockItemId,
-          onHandQty: new Prisma.Decimal(0),
-          avgCost: new Prisma.Decimal(0),
-        },
-      });
-    }
+        if (existing) {
+          // Return existing movement and current balance at its location
+          const balance = existing.locationId
+            ? await tx.stockBalance.findUnique({
+                where: {
+                  companyId_stockItemId_locationId: {
+                    companyId,
+                    stockItemId,
+                    locationId: existing.locationId,
+                  },
+                },
+              })
+            : null;
 
-    let newOnHandQty: Prisma.Decimal;
-    let newAvgCost: Prisma.Decimal = balance.avgCost;
-
-    // Handle different movement types
-    if (type === 'IN') {
-      newOnHandQty = balance.onHandQty.plus(qtyDecimal);
-
-      // Update average cost if unitCost provided
-      if (unitCost !== undefined) {
-        const unitCostDecimal = new Prisma.Decimal(unitCost);
-        const oldQty = balance.onHandQty;
-        const oldAvg = balance.avgCost;
-
-        if (oldQty.plus(qtyDecimal).gt(0)) {
-          const totalOldCost = oldQty.mul(oldAvg);
-          const newCost = qtyDecimal.mul(unitCostDecimal);
-          const totalNewCost = totalOldCost.plus(newCost);
-          newAvgCost = totalNewCost.div(oldQty.plus(qtyDecimal));
-        } else {
-          newAvgCost = unitCostDecimal;
+          return {
+            success: true,
+            movementId: existing.id,
+            balance: balance
+              ? {
+                  onHandQty: balance.onHandQty,
+                  avgCost: balance.avgCost,
+                }
+              : undefined,
+          };
         }
       }
-    } else if (type === 'OUT') {
-      // Prevent negative stock
-      if (balance.onHandQty.lt(qtyDecimal)) {
-        return {
-          success: false,
-          error: `Insufficient stock. Available: ${balance.onHandQty.toString()}, Requested: ${qtyDecimal.toString()}`,
-        };
-      }
 
-      newOnHandQty = balance.onHandQty.minus(qtyDecimal);
-      // avgCost remains the same for OUT
-      newAvgCost = balance.avgCost;
-    } else if (type === 'ADJUST') {
-      // ADJUST allows setting quantity directly (qty is the new onHandQty)
-      // But to keep it consistent, we'll treat qty as delta
-      // For simplicity, we'll allow setting absolute value via notes or use qty as delta
-      // Let's use qty as the target onHandQty for ADJUST
-      newOnHandQty = qtyDecimal;
-      // avgCost can be updated if unitCost provided
-      if (unitCost !== undefined) {
-        newAvgCost = new Prisma.Decimal(unitCost);
-      } else {
-        newAvgCost = balance.avgCost;
+      let resolvedLocationId: string;
+      try {
+        resolvedLocationId = await resolveStockLocationId(tx, companyId, { locationId, projectId });
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Invalid location' };
       }
-    } else {
-      return { success: false, error: `Invalid movement type: ${type}` };
-    }
 
-    // Prevent negative stock (double-check for ADJUST)
-    if (newOnHandQty.lt(0)) {
-      return {
-        success: false,
-        error: 'Stock adjustment would result in negative quantity',
-      };
-    }
+      let conversion: UnitConversion;
+      try {
+        conversion = await resolveUnitConversion(tx, companyId, stockItemId, unit);
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'Invalid unit' };
+      }
+      const baseQty = qtyDecimal.mul(conversion.factor).toDecimalPlaces(3);
+      const baseUnitCost =
+        unitCost !== undefined ? new Prisma.Decimal(unitCost).div(conversion.factor) : undefined;
 
-    // Create movement
-    const movement = await tx.stockMovement.create({
-      data: {
+      const result = await applyStockBalance(tx, {
         companyId,
         stockItemId,
-        movementDate,
+        locationId: resolvedLocationId,
         type,
-        qty: qtyDecimal,
-        unitCost: unitCost !== undefined ? new Prisma.Decimal(unitCost) : null,
-        referenceType: referenceType || null,
-        referenceId: referenceId || null,
-        notes: notes || null,
-        projectId: projectId || null,
-        vendorId: vendorId || null,
-        createdById: userId,
-      },
-    });
+        qty: baseQty,
+        unitCost: baseUnitCost,
+      });
+      if (!result.success) {
+        return result;
+      }
 
-    // Update balance
-    const updatedBalance = await tx.stockBalance.upsert({
-      where: {
-        companyId_stockItemId: {
+      // Create movement
+      const movement = await tx.stockMovement.create({
+        data: {
           companyId,
           stockItemId,
+          movementDate,
+          type,
+          qty: baseQty,
+          unitCost: baseUnitCost !== undefined ? baseUnitCost.toDecimalPlaces(2) : null,
+          enteredQty: conversion.isBase ? null : qtyDecimal,
+          enteredUnit: conversion.isBase ? null : conversion.unit,
+          referenceType: referenceType || null,
+          referenceId: referenceId || null,
+          notes: notes || null,
+          projectId: projectId || null,
+          locationId: resolvedLocationId,
+          vendorId: vendorId || null,
+          createdById: userId,
         },
-      },
-      create: {
-        companyId,
-        stockItemId,
-        onHandQty: newOnHandQty,
-        avgCost: newAvgCost,
-      },
-      update: {
-        onHandQty: newOnHandQty,
-        avgCost: newAvgCost,
-      },
+      });
+
+      if (tracking !== undefined && type !== 'ADJUST') {
+        await recordStockTracking(tx, {
+          companyId,
+          stockItemId,
+          movementId: movement.id,
+          locationId: resolvedLocationId,
+          direction: type,
+          qty: baseQty,
+          tracking,
+        });
+      }
+
+      return {
+        ...result,
+        movementId: movement.id,
+      };
     });
+  } catch (error) {
+    // Tracking is recorded after the balance moved, so a bad lot or serial rolls it back
+    if (error instanceof StockTrackingError) {
+      return { success: false, error: error.message };
+    }
+    throw error;
+  }
+}
 
-    return {
-      success: true,
-      movementId: movement.id,
-      balance: {
-        onHandQty: updatedBalance.onHandQty,
-        avgCost: updatedBalance.avgCost,
-      },
-    };
-  });
+/**
+ * Company-wide on-hand quantity and average cost of an item from its location balances
+ */
+export function totalStockBalance(
+  balances: Array<{ onHandQty: Prisma.Decimal; avgCost: Prisma.Decimal }>
+) {
+  const onHandQty = balances.reduce((sum, b) => sum + Number(b.onHandQty), 0);
+  const value = balances.reduce((sum, b) => sum + Number(b.onHandQty) * Number(b.avgCost), 0);
+  return {
+    onHandQty,
+    avgCost: onHandQty > 0 ? Math.round((value / onHandQty) * 100) / 100 : 0,
+  };
 }
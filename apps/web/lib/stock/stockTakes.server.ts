@@ -0,0 +1,491 @@
+/**
+ * Stock-takes
+ *
+ * A stock-take is a physical count at one location. Opening the session freezes the
+ * expected quantity and average cost of every active item at the location; site staff
+ * then enter what they counted and submit the sheet. An approver reviews the variances
+ * and, on approval, each variance is posted as an ADJUSTMENT movement (IN for a surplus,
+ * OUT for a shortage) and their value at the frozen average cost as one JOURNAL voucher
+ * between Inventory and Stock Wastage, all in one transaction. Variances are applied as
+ * deltas, so movements recorded at the location after the snapshot are kept.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockMovementKind, StockTakeStatus } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  StockTakeCounts,
+  StockTakeCreate,
+  StockTakeListFilters,
+  StockTakeWorkflow,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateVoucherNumber } from '@/lib/voucher';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { SYSTEM_ACCOUNT_CODES } from '@/lib/systemAccounts';
+import { ensureSystemAccounts } from '@/lib/systemAccounts.server';
+import { getPostingLockError } from '@/lib/accounting/periods.server';
+import { resolveStockLocationId } from './stockLocations.server';
+import { applyStockBalance } from './stockService.server';
+
+const REFERENCE_TYPE = 'StockTake';
+
+/** Sessions that block a new stock-take at the same location */
+const OPEN_STATUSES: StockTakeStatus[] = [StockTakeStatus.COUNTING, StockTakeStatus.SUBMITTED];
+
+/** Workflow actions that only change the status; APPROVE also posts the variances */
+const STATUS_TRANSITIONS: Record<
+  Exclude<StockTakeWorkflow['action'], 'APPROVE'>,
+  { from: StockTakeStatus[]; to: StockTakeStatus }
+> = {
+  SUBMIT: { from: [StockTakeStatus.COUNTING], to: StockTakeStatus.SUBMITTED },
+  RETURN: { from: [StockTakeStatus.SUBMITTED], to: StockTakeStatus.COUNTING },
+  CANCEL: { from: OPEN_STATUSES, to: StockTakeStatus.CANCELLED },
+};
+
+const stockTakeInclude = Prisma.validator<Prisma.StockTakeInclude>()({
+  location: { select: { id: true, name: true, type: true } },
+  project: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  submittedBy: { select: { id: true, name: true } },
+  approvedBy: { select: { id: true, name: true } },
+  voucher: { select: { id: true, voucherNo: true, status: true } },
+  lines: {
+    include: { stockItem: { select: { id: true, name: true, sku: true, unit: true } } },
+    orderBy: { stockItem: { name: 'asc' } },
+  },
+});
+
+type StockTakeWithRelations = Prisma.StockTakeGetPayload<{ include: typeof stockTakeInclude }>;
+
+function roundQty(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function serializeStockTake(stockTake: StockTakeWithRelations) {
+  const lines = stockTake.lines.map((line) => {
+    const expectedQty = Number(line.expectedQty);
+    const avgCost = Number(line.avgCost);
+    const countedQty = line.countedQty != null ? Number(line.countedQty) : null;
+    const varianceQty = countedQty != null ? roundQty(countedQty - expectedQty) : null;
+    return {
+      id: line.id,
+      stockItem: line.stockItem,
+      expectedQty,
+      avgCost,
+      countedQty,
+      varianceQty,
+      varianceValue: varianceQty != null ? roundMoney(varianceQty * avgCost) : null,
+      notes: line.notes,
+    };
+  });
+
+  const counted = lines.filter((line) => line.countedQty != null);
+  const shortageValue = counted.reduce(
+    (sum, line) => sum + Math.min(0, line.varianceValue ?? 0),
+    0
+  );
+  const surplusValue = counted.reduce(
+    (sum, line) => sum + Math.max(0, line.varianceValue ?? 0),
+    0
+  );
+
+  return {
+    id: stockTake.id,
+    stockTakeNo: stockTake.stockTakeNo,
+    status: stockTake.status,
+    location: stockTake.location,
+    project: stockTake.project,
+    countDate: stockTake.countDate,
+    snapshotAt: stockTake.snapshotAt,
+    notes: stockTake.notes,
+    createdBy: stockTake.createdBy,
+    submittedBy: stockTake.submittedBy,
+    submittedAt: stockTake.submittedAt,
+    approvedBy: stockTake.approvedBy,
+    approvedAt: stockTake.approvedAt,
+    voucher: stockTake.voucher,
+    createdAt: stockTake.createdAt,
+    lines,
+    summary: {
+      itemCount: lines.length,
+      countedCount: counted.length,
+      varianceCount: counted.filter((line) => line.varianceQty !== 0).length,
+      expectedValue: roundMoney(lines.reduce((sum, line) => sum + line.expectedQty * line.avgCost, 0)),
+      shortageValue: roundMoney(-shortageValue),
+      surplusValue: roundMoney(surplusValue),
+      netVarianceValue: roundMoney(surplusValue + shortageValue),
+    },
+  };
+}
+
+export type StockTakeView = ReturnType<typeof serializeStockTake>;
+
+async function findStockTake(companyId: string, stockTakeId: string) {
+  const stockTake = await prisma.stockTake.findFirst({
+    where: { id: stockTakeId, companyId },
+    include: stockTakeInclude,
+  });
+  if (!stockTake) {
+    throw new Error('Stock-take not found');
+  }
+  return stockTake;
+}
+
+/**
+ * Stock-takes of the company, newest first
+ */
+export async function listStockTakes(companyId: string, filters: Partial<StockTakeListFilters> = {}) {
+  const stockTakes = await prisma.stockTake.findMany({
+    where: {
+      companyId,
+      ...(filters.locationId ? { locationId: filters.locationId } : {}),
+      ...(filters.status ? { status: filters.status } : {}),
+    },
+    include: stockTakeInclude,
+    orderBy: { stockTakeNo: 'desc' },
+  });
+  return stockTakes.map(serializeStockTake);
+}
+
+/**
+ * A single stock-take with its lines and variances
+ */
+export async function getStockTake(companyId: string, stockTakeId: string) {
+  return serializeStockTake(await findStockTake(companyId, stockTakeId));
+}
+
+/**
+ * Open a stock-take at a location, freezing the expected quantity and average cost of
+ * every active item. Items with no balance at the location are listed at zero so that
+ * stock found on site can still be counted.
+ */
+export async function createStockTake(
+  companyId: string,
+  userId: string,
+  data: StockTakeCreate,
+  request?: NextRequest
+) {
+  const stockTake = await prisma.$transaction(async (tx) => {
+    const locationId = await resolveStockLocationId(tx, companyId, {
+      locationId: data.locationId,
+      projectId: data.projectId,
+    });
+    const location = await tx.stockLocation.findUniqueOrThrow({
+      where: { id: locationId },
+      select: { id: true, name: true, projectId: true },
+    });
+
+    const open = await tx.stockTake.findFirst({
+      where: { companyId, locationId, status: { in: OPEN_STATUSES } },
+      select: { stockTakeNo: true },
+    });
+    if (open) {
+      throw new Error(`Stock-take #${open.stockTakeNo} is still open at ${location.name}`);
+    }
+
+    const [items, balances] = await Promise.all([
+      tx.stockItem.findMany({
+        where: { companyId, isActive: true },
+        select: { id: true },
+      }),
+      tx.stockBalance.findMany({
+        where: { companyId, locationId },
+        select: { stockItemId: true, onHandQty: true, avgCost: true },
+      }),
+    ]);
+    if (items.length === 0) {
+      throw new Error('There are no active stock items to count');
+    }
+    const balanceByItem = new Map(balances.map((balance) => [balance.stockItemId, balance]));
+
+    const stockTakeNo = await nextDocumentNumber(tx, companyId, 'STOCK_TAKE', async () => {
+      const last = await tx.stockTake.aggregate({ where: { companyId }, _max: { stockTakeNo: true } });
+      return last._max.stockTakeNo;
+    });
+    return tx.stockTake.create({
+      data: {
+        companyId,
+        stockTakeNo,
+        locationId,
+        projectId: location.projectId,
+        countDate: data.countDate,
+        snapshotAt: new Date(),
+        notes: data.notes || null,
+        createdById: userId,
+        lines: {
+          create: items.map((item) => {
+            const balance = balanceByItem.get(item.id);
+            return {
+              stockItemId: item.id,
+              expectedQty: balance?.onHandQty ?? new Prisma.Decimal(0),
+              avgCost: balance?.avgCost ?? new Prisma.Decimal(0),
+            };
+          }),
+        },
+      },
+      include: stockTakeInclude,
+    });
+  });
+
+  const view = serializeStockTake(stockTake);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockTake',
+    entityId: stockTake.id,
+    action: 'CREATE',
+    after: { stockTakeNo: view.stockTakeNo, location: view.location.name, itemCount: view.summary.itemCount },
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Record counted quantities on a stock-take that is still being counted
+ */
+export async function saveStockTakeCounts(
+  companyId: string,
+  userId: string,
+  stockTakeId: string,
+  data: StockTakeCounts,
+  request?: NextRequest
+) {
+  const existing = await findStockTake(companyId, stockTakeId);
+  if (existing.status !== StockTakeStatus.COUNTING) {
+    throw new Error('Counts can only be entered while the stock-take is being counted');
+  }
+  for (const line of data.lines) {
+    if (!existing.lines.some((l) => l.id === line.lineId)) {
+      throw new Error('Stock-take line not found');
+    }
+  }
+
+  const stockTake = await prisma.$transaction(async (tx) => {
+    for (const line of data.lines) {
+      await tx.stockTakeLine.update({
+        where: { id: line.lineId },
+        data: {
+          countedQty: line.countedQty != null ? new Prisma.Decimal(line.countedQty) : null,
+          ...(line.notes !== undefined ? { notes: line.notes || null } : {}),
+        },
+      });
+    }
+    // Guard against counts landing after the sheet was submitted
+    const current = await tx.stockTake.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: stockTakeInclude,
+    });
+    if (current.status !== StockTakeStatus.COUNTING) {
+      throw new Error('Counts can only be entered while the stock-take is being counted');
+    }
+    return current;
+  });
+
+  const view = serializeStockTake(stockTake);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockTake',
+    entityId: stockTake.id,
+    action: 'UPDATE',
+    before: { countedCount: serializeStockTake(existing).summary.countedCount },
+    after: { countedCount: view.summary.countedCount },
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Post the counted variances of a submitted stock-take: ADJUSTMENT movements at the
+ * location and a posted JOURNAL voucher for their value, in one transaction
+ */
+async function postStockTake(existing: StockTakeWithRelations, userId: string) {
+  const { companyId } = existing;
+  const accountIds = await ensureSystemAccounts(companyId);
+  const reference = `Stock-take #${existing.stockTakeNo}`;
+  const variances = existing.lines
+    .filter((line) => line.countedQty != null && !line.countedQty.eq(line.expectedQty))
+    .map((line) => ({ line, varianceQty: line.countedQty!.minus(line.expectedQty) }));
+
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    const claimed = await tx.stockTake.updateMany({
+      where: { id: existing.id, status: StockTakeStatus.SUBMITTED },
+      data: { status: StockTakeStatus.POSTED, approvedById: userId, approvedAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Only submitted stock-takes can be approved');
+    }
+
+    const lockError = await getPostingLockError(companyId, existing.countDate, tx);
+    if (lockError) {
+      throw new Error(lockError);
+    }
+
+    let surplusValue = new Prisma.Decimal(0);
+    let shortageValue = new Prisma.Decimal(0);
+    for (const { line, varianceQty } of variances) {
+      const type = varianceQty.gt(0) ? 'IN' : 'OUT';
+      const qty = varianceQty.abs();
+      const result = await applyStockBalance(tx, {
+        companyId,
+        stockItemId: line.stockItemId,
+        locationId: existing.locationId,
+        type,
+        qty,
+        ...(type === 'IN' ? { unitCost: line.avgCost } : {}),
+      });
+      if (!result.success) {
+        throw new Error(`${line.stockItem.name}: ${result.error || 'Failed to adjust stock'}`);
+      }
+
+      const reason = `${reference}: counted ${line.countedQty!.toString()}, expected ${line.expectedQty.toString()}`;
+      await tx.stockMovement.create({
+        data: {
+          companyId,
+          stockItemId: line.stockItemId,
+          movementDate: existing.countDate,
+          type,
+          qty,
+          unitCost: line.avgCost,
+          movementKind: StockMovementKind.ADJUSTMENT,
+          referenceType: REFERENCE_TYPE,
+          referenceId: existing.id,
+          projectId: existing.projectId,
+          locationId: existing.locationId,
+          notes: line.notes,
+          reason,
+          createdById: userId,
+          approvedById: userId,
+          approvedAt: now,
+        },
+      });
+
+      const value = qty.mul(line.avgCost).toDecimalPlaces(2);
+      if (type === 'IN') {
+        surplusValue = surplusValue.plus(value);
+      } else {
+        shortageValue = shortageValue.plus(value);
+      }
+    }
+
+    let voucherId: string | null = null;
+    if (!surplusValue.isZero() || !shortageValue.isZero()) {
+      const voucherNo = await generateVoucherNumber(tx, companyId, {
+        date: existing.countDate,
+        type: 'JOURNAL',
+        projectId: existing.projectId,
+      });
+      const voucher = await tx.voucher.create({
+        data: {
+          companyId,
+          projectId: existing.projectId,
+          voucherNo,
+          type: 'JOURNAL',
+          date: existing.countDate,
+          status: 'POSTED',
+          narration: `${reference} count variance at ${existing.location.name}`,
+          createdByUserId: userId,
+          postedByUserId: userId,
+          postedAt: now,
+          lines: {
+            create: [
+              { code: SYSTEM_ACCOUNT_CODES.STOCK_WASTAGE, debit: shortageValue, credit: 0, description: `${reference} shortage` },
+              { code: SYSTEM_ACCOUNT_CODES.INVENTORY, debit: 0, credit: shortageValue, description: `${reference} shortage` },
+              { code: SYSTEM_ACCOUNT_CODES.INVENTORY, debit: surplusValue, credit: 0, description: `${reference} surplus` },
+              { code: SYSTEM_ACCOUNT_CODES.STOCK_WASTAGE, debit: 0, credit: surplusValue, description: `${reference} surplus` },
+            ]
+              .filter((line) => !new Prisma.Decimal(line.debit).isZero() || !new Prisma.Decimal(line.credit).isZero())
+              .map((line) => ({
+                companyId,
+                accountId: accountIds[line.code],
+                description: line.description,
+                debit: line.debit,
+                credit: line.credit,
+                projectId: existing.projectId,
+              })),
+          },
+        },
+      });
+      voucherId = voucher.id;
+    }
+
+    return tx.stockTake.update({
+      where: { id: existing.id },
+      data: { voucherId },
+      include: stockTakeInclude,
+    });
+  });
+}
+
+/**
+ * Move a stock-take through its workflow:
+ * SUBMIT (COUNTING → SUBMITTED), RETURN (SUBMITTED → COUNTING), APPROVE (SUBMITTED →
+ * POSTED, posting the variances) or CANCEL (an open stock-take)
+ */
+export async function updateStockTakeStatus(
+  companyId: string,
+  userId: string,
+  stockTakeId: string,
+  data: StockTakeWorkflow,
+  request?: NextRequest
+) {
+  const existing = await findStockTake(companyId, stockTakeId);
+
+  let stockTake: StockTakeWithRelations;
+  if (data.action === 'APPROVE') {
+    if (existing.status !== StockTakeStatus.SUBMITTED) {
+      throw new Error('Only submitted stock-takes can be approved');
+    }
+    stockTake = await postStockTake(existing, userId);
+  } else {
+    const transition = STATUS_TRANSITIONS[data.action];
+    if (!transition.from.includes(existing.status)) {
+      throw new Error(`A ${existing.status.toLowerCase()} stock-take cannot be changed this way`);
+    }
+    if (data.action === 'SUBMIT' && !existing.lines.some((line) => line.countedQty != null)) {
+      throw new Error('Enter at least one count before submitting');
+    }
+
+    const claimed = await prisma.stockTake.updateMany({
+      where: { id: existing.id, status: { in: transition.from } },
+      data: {
+        status: transition.to,
+        ...(data.action === 'SUBMIT'
+          ? { submittedById: userId, submittedAt: new Date() }
+          : data.action === 'RETURN'
+            ? { submittedById: null, submittedAt: null }
+            : {}),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Stock-take was updated by someone else; please reload');
+    }
+    stockTake = await findStockTake(companyId, existing.id);
+  }
+
+  const view = serializeStockTake(stockTake);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockTake',
+    entityId: stockTake.id,
+    action: 'STATUS_CHANGE',
+    before: { status: existing.status },
+    after: {
+      status: view.status,
+      netVarianceValue: view.summary.netVarianceValue,
+      voucherNo: view.voucher?.voucherNo,
+    },
+    request,
+  });
+
+  return view;
+}
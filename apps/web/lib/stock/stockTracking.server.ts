@@ -0,0 +1,340 @@
+/**
+ * Lot and serial tracking
+ *
+ * Items can be tracked by lot/batch (rod lots with their mill test certificates) or by
+ * serial number (generators, mixers, lifts). Every receipt, issue and transfer of a
+ * tracked item records which lot or serials it moved as traces on the movement, so the
+ * movement history of a lot or serial shows where it has been across sites. A lot's stock
+ * at a location is the sum of the traced movements there; a serial carries its status and
+ * the location it is in stock at. Adjustments, wastage, stock-take variances and stock
+ * posted from purchase bills are not traced.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma, StockSerialStatus, StockTrackingMode } from '@prisma/client';
+import type { StockTraceFilters, StockTracking } from '@accounting/shared';
+
+const ZERO = new Prisma.Decimal(0);
+
+/**
+ * A movement's lot or serial numbers do not fit the item or the stock at the location
+ */
+export class StockTrackingError extends Error {}
+
+/**
+ * Stock of a lot at a location from the movements traced to it there
+ */
+async function lotQtyAtLocation(
+  tx: Prisma.TransactionClient,
+  lotId: string,
+  locationId: string
+): Promise<Prisma.Decimal> {
+  const traces = await tx.stockMovementTrace.findMany({
+    where: { lotId, movement: { locationId } },
+    select: { qty: true, movement: { select: { type: true } } },
+  });
+  return traces.reduce(
+    (sum, trace) =>
+      trace.movement.type === 'OUT' ? sum.minus(trace.qty) : sum.plus(trace.qty),
+    ZERO
+  );
+}
+
+/**
+ * Record the lot or serials moved by a movement (within the movement's transaction).
+ * Batch-tracked items need a lot number and serial-tracked items one serial per unit;
+ * untracked items may still name a lot. A receipt opens the lot (keeping its expiry and
+ * certificate) or puts the serials in stock at the location; an issue or dispatch checks
+ * the lot has the quantity at the location, or that each serial is in stock there, and
+ * takes the serials out of stock with outStatus.
+ */
+export async function recordStockTracking(
+  tx: Prisma.TransactionClient,
+  params: {
+    companyId: string;
+    stockItemId: string;
+    movementId: string;
+    locationId: string;
+    direction: 'IN' | 'OUT';
+    qty: Prisma.Decimal;
+    tracking?: StockTracking | null;
+    outStatus?: StockSerialStatus;
+  }
+) {
+  const { companyId, stockItemId, movementId, locationId, direction, qty, tracking } = params;
+  const item = await tx.stockItem.findFirstOrThrow({
+    where: { id: stockItemId, companyId },
+    select: { name: true, trackingMode: true },
+  });
+  const lotNumber = tracking?.lotNumber?.trim() || null;
+  const serialNumbers = tracking?.serialNumbers ?? [];
+
+  if (item.trackingMode === StockTrackingMode.SERIAL) {
+    if (!qty.isInteger() || serialNumbers.length !== qty.toNumber()) {
+      throw new StockTrackingError(
+        `${item.name} is tracked by serial number: ${qty.toString()} serial numbers are needed, ${serialNumbers.length} given`
+      );
+    }
+    if (lotNumber) {
+      throw new StockTrackingError(`${item.name} is tracked by serial number, not by lot`);
+    }
+  } else if (serialNumbers.length > 0) {
+    throw new StockTrackingError(`${item.name} is not tracked by serial number`);
+  }
+  if (item.trackingMode === StockTrackingMode.BATCH && !lotNumber) {
+    throw new StockTrackingError(`A lot number is required for ${item.name}`);
+  }
+
+  if (lotNumber) {
+    let lot = await tx.stockLot.findUnique({
+      where: { companyId_stockItemId_lotNumber: { companyId, stockItemId, lotNumber } },
+    });
+    if (direction === 'IN') {
+      const details = {
+        ...(tracking?.expiryDate ? { expiryDate: tracking.expiryDate } : {}),
+        ...(tracking?.certificateUrl ? { certificateUrl: tracking.certificateUrl } : {}),
+      };
+      lot = lot
+        ? await tx.stockLot.update({ where: { id: lot.id }, data: details })
+        : await tx.stockLot.create({ data: { companyId, stockItemId, lotNumber, ...details } });
+    } else {
+      if (!lot) {
+        throw new StockTrackingError(`Lot ${lotNumber} of ${item.name} not found`);
+      }
+      const available = await lotQtyAtLocation(tx, lot.id, locationId);
+      if (available.lt(qty)) {
+        throw new StockTrackingError(
+          `Insufficient stock in lot ${lotNumber} of ${item.name}. Available: ${available.toString()}, Requested: ${qty.toString()}`
+        );
+      }
+    }
+    await tx.stockMovementTrace.create({
+      data: { companyId, movementId, lotId: lot.id, qty },
+    });
+  }
+
+  for (const serialNumber of serialNumbers) {
+    const existing = await tx.stockSerial.findUnique({
+      where: { companyId_stockItemId_serialNumber: { companyId, stockItemId, serialNumber } },
+    });
+    let serialId: string;
+    if (direction === 'IN') {
+      if (existing?.status === StockSerialStatus.IN_STOCK) {
+        throw new StockTrackingError(`Serial ${serialNumber} of ${item.name} is already in stock`);
+      }
+      const serial = existing
+        ? await tx.stockSerial.update({
+            where: { id: existing.id },
+            data: { status: StockSerialStatus.IN_STOCK, locationId },
+          })
+        : await tx.stockSerial.create({
+            data: { companyId, stockItemId, serialNumber, locationId },
+          });
+      serialId = serial.id;
+    } else {
+      if (
+        !existing ||
+        existing.status !== StockSerialStatus.IN_STOCK ||
+        existing.locationId !== locationId
+      ) {
+        throw new StockTrackingError(`Serial ${serialNumber} of ${item.name} is not in stock at this location`);
+      }
+      await tx.stockSerial.update({
+        where: { id: existing.id },
+        data: { status: params.outStatus ?? StockSerialStatus.ISSUED, locationId: null },
+      });
+      serialId = existing.id;
+    }
+    await tx.stockMovementTrace.create({
+      data: { companyId, movementId, serialId, qty: new Prisma.Decimal(1) },
+    });
+  }
+}
+
+/**
+ * The lot or serials a movement moved, in the shape recordStockTracking takes, so a
+ * transfer can be received with what was dispatched
+ */
+export async function getMovementTracking(
+  tx: Prisma.TransactionClient,
+  movementId: string
+): Promise<StockTracking | null> {
+  const traces = await tx.stockMovementTrace.findMany({
+    where: { movementId },
+    select: {
+      lot: { select: { lotNumber: true } },
+      serial: { select: { serialNumber: true } },
+    },
+  });
+  if (traces.length === 0) {
+    return null;
+  }
+  const lot = traces.find((trace) => trace.lot)?.lot;
+  const serialNumbers = traces.flatMap((trace) => (trace.serial ? [trace.serial.serialNumber] : []));
+  return {
+    lotNumber: lot?.lotNumber ?? null,
+    ...(serialNumbers.length > 0 ? { serialNumbers } : {}),
+  };
+}
+
+const traceMovementSelect = Prisma.validator<Prisma.StockMovementSelect>()({
+  id: true,
+  movementDate: true,
+  type: true,
+  movementKind: true,
+  referenceType: true,
+  referenceId: true,
+  notes: true,
+  reason: true,
+  location: { select: { id: true, name: true } },
+  project: { select: { id: true, name: true } },
+  sourceProject: { select: { id: true, name: true } },
+  destinationProject: { select: { id: true, name: true } },
+  vendor: { select: { id: true, name: true } },
+});
+
+type TraceMovement = Prisma.StockMovementGetPayload<{ select: typeof traceMovementSelect }>;
+
+function serializeHistory(traces: Array<{ qty: Prisma.Decimal; movement: TraceMovement }>) {
+  return traces
+    .map((trace) => ({
+      movementId: trace.movement.id,
+      movementDate: trace.movement.movementDate,
+      type: trace.movement.type,
+      movementKind: trace.movement.movementKind,
+      qty: Number(trace.qty),
+      location: trace.movement.location,
+      project: trace.movement.project,
+      sourceProject: trace.movement.sourceProject,
+      destinationProject: trace.movement.destinationProject,
+      vendor: trace.movement.vendor,
+      referenceType: trace.movement.referenceType,
+      referenceId: trace.movement.referenceId,
+      notes: trace.movement.notes ?? trace.movement.reason,
+    }))
+    .sort((a, b) => a.movementDate.getTime() - b.movementDate.getTime());
+}
+
+const TRACE_LIMIT = 50;
+
+/**
+ * Lots and serials matching a number (or all of an item), each with its movement
+ * history across locations and projects
+ */
+export async function getStockTrace(companyId: string, filters: Partial<StockTraceFilters> = {}) {
+  const q = filters.q?.trim();
+  if (!q && !filters.stockItemId) {
+    return { lots: [], serials: [] };
+  }
+  const stockItem = { select: { id: true, name: true, unit: true } } as const;
+  const traces = {
+    select: { qty: true, movement: { select: traceMovementSelect } },
+  } as const;
+
+  const [lots, serials] = await Promise.all([
+    prisma.stockLot.findMany({
+      where: {
+        companyId,
+        ...(filters.stockItemId ? { stockItemId: filters.stockItemId } : {}),
+        ...(q ? { lotNumber: { contains: q, mode: 'insensitive' as const } } : {}),
+      },
+      include: { stockItem, traces },
+      orderBy: { createdAt: 'desc' },
+      take: TRACE_LIMIT,
+    }),
+    prisma.stockSerial.findMany({
+      where: {
+        companyId,
+        ...(filters.stockItemId ? { stockItemId: filters.stockItemId } : {}),
+        ...(q ? { serialNumber: { contains: q, mode: 'insensitive' as const } } : {}),
+      },
+      include: { stockItem, location: { select: { id: true, name: true } }, traces },
+      orderBy: { createdAt: 'desc' },
+      take: TRACE_LIMIT,
+    }),
+  ]);
+
+  return {
+    lots: lots.map((lot) => {
+      const history = serializeHistory(lot.traces);
+      // Stock of the lot by location from its history
+      const onHand = new Map<string, { location: { id: string; name: string }; qty: number }>();
+      for (const entry of history) {
+        if (!entry.location) continue;
+        const held = onHand.get(entry.location.id) ?? { location: entry.location, qty: 0 };
+        held.qty += entry.type === 'OUT' ? -entry.qty : entry.qty;
+        onHand.set(entry.location.id, held);
+      }
+      return {
+        id: lot.id,
+        lotNumber: lot.lotNumber,
+        stockItem: lot.stockItem,
+        expiryDate: lot.expiryDate,
+        certificateUrl: lot.certificateUrl,
+        onHand: Array.from(onHand.values())
+          .map((held) => ({ ...held, qty: Math.round(held.qty * 1000) / 1000 }))
+          .filter((held) => held.qty > 0),
+        history,
+      };
+    }),
+    serials: serials.map((serial) => ({
+      id: serial.id,
+      serialNumber: serial.serialNumber,
+      stockItem: serial.stockItem,
+      status: serial.status,
+      location: serial.location,
+      history: serializeHistory(serial.traces),
+    })),
+  };
+}
+
+export type StockTrace = Awaited<ReturnType<typeof getStockTrace>>;
+
+/**
+ * Lots with stock and serials in stock at a location, for picking what to issue or
+ * dispatch
+ */
+export async function getTrackedStockAtLocation(
+  companyId: string,
+  locationId: string,
+  stockItemId: string
+) {
+  const [lots, serials] = await Promise.all([
+    prisma.stockLot.findMany({
+      where: { companyId, stockItemId, traces: { some: { movement: { locationId } } } },
+      select: {
+        id: true,
+        lotNumber: true,
+        expiryDate: true,
+        traces: {
+          where: { movement: { locationId } },
+          select: { qty: true, movement: { select: { type: true } } },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    }),
+    prisma.stockSerial.findMany({
+      where: { companyId, stockItemId, locationId, status: StockSerialStatus.IN_STOCK },
+      select: { id: true, serialNumber: true },
+      orderBy: { serialNumber: 'asc' },
+    }),
+  ]);
+
+  return {
+    lots: lots
+      .map((lot) => ({
+        id: lot.id,
+        lotNumber: lot.lotNumber,
+        expiryDate: lot.expiryDate,
+        qty: Number(
+          lot.traces.reduce(
+            (sum, trace) =>
+              trace.movement.type === 'OUT' ? sum.minus(trace.qty) : sum.plus(trace.qty),
+            ZERO
+          )
+        ),
+      }))
+      .filter((lot) => lot.qty > 0),
+    serials,
+  };
+}
@@ -0,0 +1,489 @@
+/**
+ * Inter-project stock transfers
+ *
+ * Material is moved from one project site to another at the source site's weighted-average
+ * cost on the dispatch date. Dispatch posts a TRANSFER_OUT movement per item at the source;
+ * receipt posts the matching TRANSFER_IN movements at the destination, so both sites' stock
+ * overviews and cost summaries pick the transfer up.
+ *
+ * A transfer that needs the receiving engineer's confirmation stays IN_TRANSIT until the
+ * quantity received is entered. The full dispatched quantity is received at the transfer
+ * cost and any shortfall is then recorded as WASTAGE at the receiving site.
+ *
+ * Stock leaves the source site's location balance on dispatch and reaches the destination
+ * site's location balance on receipt. Lots and serials dispatched are received with the
+ * transfer; serials are in transit in between.
+ */
+
+import { prisma } from '@accounting/db';
+import {
+  Prisma,
+  StockMovementKind,
+  StockSerialStatus,
+  StockTransferStatus,
+} from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { StockTransferCreate, StockTransferReceive } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { nextDocumentNumber } from '@/lib/documentNumbers.server';
+import { getProjectStockOverview } from './projectStock.server';
+import { ensureProjectStockLocation } from './stockLocations.server';
+import { applyStockBalance } from './stockService.server';
+import { getMovementTracking, recordStockTracking } from './stockTracking.server';
+
+const REFERENCE_TYPE = 'StockTransfer';
+
+const stockTransferInclude = Prisma.validator<Prisma.StockTransferInclude>()({
+  sourceProject: { select: { id: true, name: true } },
+  destinationProject: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  receivedBy: { select: { id: true, name: true } },
+  lines: {
+    include: { stockItem: { select: { id: true, name: true, unit: true } } },
+    orderBy: { stockItem: { name: 'asc' } },
+  },
+});
+
+type StockTransferWithRelations = Prisma.StockTransferGetPayload<{
+  include: typeof stockTransferInclude;
+}>;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function serializeTransfer(transfer: StockTransferWithRelations) {
+  const lines = transfer.lines.map((line) => ({
+    id: line.id,
+    stockItem: line.stockItem,
+    qtySent: Number(line.qtySent),
+    unitCost: Number(line.unitCost),
+    value: roundMoney(Number(line.qtySent) * Number(line.unitCost)),
+    qtyReceived: line.qtyReceived != null ? Number(line.qtyReceived) : null,
+    shortfallQty: line.shortfallQty != null ? Number(line.shortfallQty) : null,
+  }));
+
+  return {
+    id: transfer.id,
+    transferNo: transfer.transferNo,
+    status: transfer.status,
+    sourceProject: transfer.sourceProject,
+    destinationProject: transfer.destinationProject,
+    dispatchDate: transfer.dispatchDate,
+    receivedDate: transfer.receivedDate,
+    notes: transfer.notes,
+    receiptNotes: transfer.receiptNotes,
+    createdBy: transfer.createdBy,
+    receivedBy: transfer.receivedBy,
+    createdAt: transfer.createdAt,
+    lines,
+    totalValue: roundMoney(lines.reduce((sum, line) => sum + line.value, 0)),
+    shortfallValue: roundMoney(
+      lines.reduce((sum, line) => sum + (line.shortfallQty ?? 0) * line.unitCost, 0)
+    ),
+  };
+}
+
+export type StockTransferView = ReturnType<typeof serializeTransfer>;
+
+async function findTransfer(companyId: string, transferId: string) {
+  const transfer = await prisma.stockTransfer.findFirst({
+    where: { id: transferId, companyId },
+    include: stockTransferInclude,
+  });
+  if (!transfer) {
+    throw new Error('Stock transfer not found');
+  }
+  return transfer;
+}
+
+/**
+ * Transfers of the company (newest first), optionally for one project on either side
+ */
+export async function listStockTransfers(
+  companyId: string,
+  filters: { status?: StockTransferStatus; projectId?: string } = {}
+) {
+  const transfers = await prisma.stockTransfer.findMany({
+    where: {
+      companyId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.projectId
+        ? {
+            OR: [
+              { sourceProjectId: filters.projectId },
+              { destinationProjectId: filters.projectId },
+            ],
+          }
+        : {}),
+    },
+    include: stockTransferInclude,
+    orderBy: { transferNo: 'desc' },
+  });
+  return transfers.map(serializeTransfer);
+}
+
+/**
+ * A single transfer with its lines
+ */
+export async function getStockTransfer(companyId: string, transferId: string) {
+  return serializeTransfer(await findTransfer(companyId, transferId));
+}
+
+/**
+ * Post the receipt of a transfer: TRANSFER_IN at the destination for the dispatched
+ * quantity, then WASTAGE for whatever did not arrive
+ */
+async function postReceipt(
+  tx: Prisma.TransactionClient,
+  transfer: {
+    id: string;
+    companyId: string;
+    transferNo: number;
+    sourceProjectId: string;
+    destinationProjectId: string;
+  },
+  lines: Array<{
+    id: string;
+    stockItemId: string;
+    qtySent: Prisma.Decimal;
+    unitCost: Prisma.Decimal;
+    qtyReceived: Prisma.Decimal;
+  }>,
+  receivedDate: Date,
+  userId: string
+) {
+  const location = await ensureProjectStockLocation(
+    tx,
+    transfer.companyId,
+    transfer.destinationProjectId
+  );
+
+  for (const line of lines) {
+    const dispatch = await tx.stockMovement.findFirstOrThrow({
+      where: {
+        companyId: transfer.companyId,
+        stockItemId: line.stockItemId,
+        referenceType: REFERENCE_TYPE,
+        referenceId: transfer.id,
+        movementKind: StockMovementKind.TRANSFER_OUT,
+      },
+      select: { id: true },
+    });
+    const tracking = await getMovementTracking(tx, dispatch.id);
+    const shortfall = line.qtySent.minus(line.qtyReceived);
+    if (tracking?.serialNumbers && shortfall.gt(0)) {
+      throw new Error('Serial-numbered items must be received in full');
+    }
+
+    const received = await applyStockBalance(tx, {
+      companyId: transfer.companyId,
+      stockItemId: line.stockItemId,
+      locationId: location.id,
+      type: 'IN',
+      qty: line.qtySent,
+      unitCost: line.unitCost,
+    });
+    if (!received.success) {
+      throw new Error(received.error || 'Failed to receive stock');
+    }
+    const receipt = await tx.stockMovement.create({
+      data: {
+        companyId: transfer.companyId,
+        stockItemId: line.stockItemId,
+        movementDate: receivedDate,
+        type: 'IN',
+        movementKind: StockMovementKind.TRANSFER_IN,
+        qty: line.qtySent,
+        unitCost: line.unitCost,
+        referenceType: REFERENCE_TYPE,
+        referenceId: transfer.id,
+        projectId: transfer.destinationProjectId,
+        locationId: location.id,
+        sourceProjectId: transfer.sourceProjectId,
+        destinationProjectId: transfer.destinationProjectId,
+        notes: `Transfer #${transfer.transferNo} received`,
+        createdById: userId,
+        approvedById: userId,
+        approvedAt: new Date(),
+      },
+    });
+    if (tracking) {
+      await recordStockTracking(tx, {
+        companyId: transfer.companyId,
+        stockItemId: line.stockItemId,
+        movementId: receipt.id,
+        locationId: location.id,
+        direction: 'IN',
+        qty: line.qtySent,
+        tracking,
+      });
+    }
+
+    if (shortfall.gt(0)) {
+      const lost = await applyStockBalance(tx, {
+        companyId: transfer.companyId,
+        stockItemId: line.stockItemId,
+        locationId: location.id,
+        type: 'OUT',
+        qty: shortfall,
+      });
+      if (!lost.success) {
+        throw new Error(lost.error || 'Failed to record shortfall');
+      }
+      const wastage = await tx.stockMovement.create({
+        data: {
+          companyId: transfer.companyId,
+          stockItemId: line.stockItemId,
+          movementDate: receivedDate,
+          type: 'OUT',
+          movementKind: StockMovementKind.WASTAGE,
+          qty: shortfall,
+          referenceType: REFERENCE_TYPE,
+          referenceId: transfer.id,
+          projectId: transfer.destinationProjectId,
+          locationId: location.id,
+          reason: `Transit shortfall on transfer #${transfer.transferNo}`,
+          createdById: userId,
+          approvedById: userId,
+          approvedAt: new Date(),
+        },
+      });
+      // The shortfall is lost from the lot that was dispatched
+      if (tracking?.lotNumber) {
+        await recordStockTracking(tx, {
+          companyId: transfer.companyId,
+          stockItemId: line.stockItemId,
+          movementId: wastage.id,
+          locationId: location.id,
+          direction: 'OUT',
+          qty: shortfall,
+          tracking: { lotNumber: tracking.lotNumber },
+        });
+      }
+    }
+
+    await tx.stockTransferLine.update({
+      where: { id: line.id },
+      data: {
+        qtyReceived: line.qtyReceived,
+        shortfallQty: shortfall.gt(0) ? shortfall : new Prisma.Decimal(0),
+      },
+    });
+  }
+}
+
+/**
+ * Dispatch material from the source project. Without requireReceipt the transfer is
+ * received in full immediately.
+ */
+export async function createStockTransfer(
+  companyId: string,
+  userId: string,
+  data: StockTransferCreate,
+  request?: NextRequest
+) {
+  const projects = await prisma.project.findMany({
+    where: { companyId, id: { in: [data.sourceProjectId, data.destinationProjectId] } },
+    select: { id: true, name: true },
+  });
+  const source = projects.find((p) => p.id === data.sourceProjectId);
+  const destination = projects.find((p) => p.id === data.destinationProjectId);
+  if (!source) {
+    throw new Error('Source project not found');
+  }
+  if (!destination) {
+    throw new Error('Destination project not found');
+  }
+
+  // Valued at the source site's weighted-average cost
+  const overview = await getProjectStockOverview(companyId, source.id);
+  const lines = data.lines.map((line) => {
+    const item = overview.items.find((i) => i.stockItemId === line.stockItemId);
+    if (!item || item.remainingQty < line.qty) {
+      throw new Error(
+        `Insufficient stock${item ? ` of ${item.stockItemName}` : ''} at ${source.name}. Available: ${
+          item?.remainingQty ?? 0
+        }, Requested: ${line.qty}`
+      );
+    }
+    return {
+      stockItemId: line.stockItemId,
+      qtySent: new Prisma.Decimal(line.qty),
+      unitCost: new Prisma.Decimal(roundMoney(item.avgRate)),
+    };
+  });
+  const tracking = new Map(data.lines.map((line) => [line.stockItemId, line.tracking ?? null]));
+
+  const transfer = await prisma.$transaction(async (tx) => {
+    const transferNo = await nextDocumentNumber(tx, companyId, 'STOCK_TRANSFER', async () => {
+      const last = await tx.stockTransfer.aggregate({ where: { companyId }, _max: { transferNo: true } });
+      return last._max.transferNo;
+    });
+    const created = await tx.stockTransfer.create({
+      data: {
+        companyId,
+        transferNo,
+        sourceProjectId: source.id,
+        destinationProjectId: destination.id,
+        status: StockTransferStatus.IN_TRANSIT,
+        dispatchDate: data.dispatchDate,
+        notes: data.notes || null,
+        createdById: userId,
+        lines: { create: lines },
+      },
+      include: { lines: true },
+    });
+
+    const location = await ensureProjectStockLocation(tx, companyId, source.id);
+    for (const line of created.lines) {
+      const dispatched = await applyStockBalance(tx, {
+        companyId,
+        stockItemId: line.stockItemId,
+        locationId: location.id,
+        type: 'OUT',
+        qty: line.qtySent,
+      });
+      if (!dispatched.success) {
+        throw new Error(dispatched.error || 'Failed to dispatch stock');
+      }
+      const dispatch = await tx.stockMovement.create({
+        data: {
+          companyId,
+          stockItemId: line.stockItemId,
+          movementDate: data.dispatchDate,
+          type: 'OUT',
+          movementKind: StockMovementKind.TRANSFER_OUT,
+          qty: line.qtySent,
+          unitCost: line.unitCost,
+          referenceType: REFERENCE_TYPE,
+          referenceId: created.id,
+          projectId: source.id,
+          locationId: location.id,
+          sourceProjectId: source.id,
+          destinationProjectId: destination.id,
+          notes: `Transfer #${created.transferNo} to ${destination.name}`,
+          createdById: userId,
+          approvedById: userId,
+          approvedAt: new Date(),
+        },
+      });
+      await recordStockTracking(tx, {
+        companyId,
+        stockItemId: line.stockItemId,
+        movementId: dispatch.id,
+        locationId: location.id,
+        direction: 'OUT',
+        qty: line.qtySent,
+        tracking: tracking.get(line.stockItemId),
+        outStatus: StockSerialStatus.IN_TRANSIT,
+      });
+    }
+
+    if (!data.requireReceipt) {
+      await postReceipt(
+        tx,
+        created,
+        created.lines.map((line) => ({ ...line, qtyReceived: line.qtySent })),
+        data.dispatchDate,
+        userId
+      );
+      await tx.stockTransfer.update({
+        where: { id: created.id },
+        data: {
+          status: StockTransferStatus.RECEIVED,
+          receivedDate: data.dispatchDate,
+          receivedById: userId,
+        },
+      });
+    }
+
+    return tx.stockTransfer.findUniqueOrThrow({
+      where: { id: created.id },
+      include: stockTransferInclude,
+    });
+  });
+
+  const view = serializeTransfer(transfer);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockTransfer',
+    entityId: transfer.id,
+    action: 'CREATE',
+    after: view,
+    request,
+  });
+
+  return view;
+}
+
+/**
+ * Confirm the quantities that arrived at the destination for an IN_TRANSIT transfer
+ */
+export async function receiveStockTransfer(
+  companyId: string,
+  userId: string,
+  transferId: string,
+  data: StockTransferReceive,
+  request?: NextRequest
+) {
+  const existing = await findTransfer(companyId, transferId);
+  if (existing.status !== StockTransferStatus.IN_TRANSIT) {
+    throw new Error('Only transfers in transit can be received');
+  }
+  if (data.receivedDate < existing.dispatchDate) {
+    throw new Error('Received date cannot be before the dispatch date');
+  }
+
+  const received = new Map(data.lines.map((line) => [line.lineId, line.qtyReceived]));
+  const lines = existing.lines.map((line) => {
+    const qtyReceived = received.get(line.id);
+    if (qtyReceived === undefined) {
+      throw new Error(`Received quantity is required for ${line.stockItem.name}`);
+    }
+    if (line.qtySent.lt(qtyReceived)) {
+      throw new Error(
+        `Received quantity of ${line.stockItem.name} cannot exceed the ${Number(line.qtySent)} dispatched`
+      );
+    }
+    return { ...line, qtyReceived: new Prisma.Decimal(qtyReceived) };
+  });
+
+  const transfer = await prisma.$transaction(async (tx) => {
+    // Guard against the transfer being received twice
+    const claimed = await tx.stockTransfer.updateMany({
+      where: { id: existing.id, status: StockTransferStatus.IN_TRANSIT },
+      data: {
+        status: StockTransferStatus.RECEIVED,
+        receivedDate: data.receivedDate,
+        receivedById: userId,
+        receiptNotes: data.notes || null,
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Only transfers in transit can be received');
+    }
+
+    await postReceipt(tx, existing, lines, data.receivedDate, userId);
+
+    return tx.stockTransfer.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: stockTransferInclude,
+    });
+  });
+
+  const view = serializeTransfer(transfer);
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockTransfer',
+    entityId: transfer.id,
+    action: 'UPDATE',
+    before: serializeTransfer(existing),
+    after: view,
+    request,
+  });
+
+  return view;
+}
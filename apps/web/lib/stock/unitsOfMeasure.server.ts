@@ -0,0 +1,259 @@
+/**
+ * Units of measure
+ *
+ * The company keeps a catalogue of units (kg, ton, bag, cft, pcs...). A stock item's unit
+ * is its base unit: balances, movements and costs are always kept in it. Each item can
+ * allow other units of the catalogue with a conversion factor, so rod can be bought in
+ * tons and issued in kg, or cement received in bags; quantities entered in another unit
+ * are converted to the base unit when stock moves.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type {
+  StockItemUnits,
+  UnitOfMeasureCreate,
+  UnitOfMeasureUpdate,
+} from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export interface UnitConversion {
+  baseUnit: string;
+  unit: string;
+  // Base units in one of the unit; 1 for the base unit itself
+  factor: Prisma.Decimal;
+  isBase: boolean;
+}
+
+/**
+ * Units of the catalogue with the number of items using each
+ */
+export async function listUnitsOfMeasure(companyId: string) {
+  const units = await prisma.unitOfMeasure.findMany({
+    where: { companyId },
+    include: { _count: { select: { conversions: true } } },
+    orderBy: { code: 'asc' },
+  });
+  return units.map(({ _count, ...unit }) => ({ ...unit, itemCount: _count.conversions }));
+}
+
+/**
+ * Add a unit to the catalogue
+ */
+export async function createUnitOfMeasure(
+  companyId: string,
+  userId: string,
+  data: UnitOfMeasureCreate,
+  request?: NextRequest
+) {
+  const duplicate = await prisma.unitOfMeasure.findFirst({
+    where: { companyId, code: { equals: data.code, mode: 'insensitive' } },
+  });
+  if (duplicate) {
+    throw new Error(`Unit ${duplicate.code} already exists`);
+  }
+
+  const unit = await prisma.unitOfMeasure.create({
+    data: { companyId, code: data.code, name: data.name },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'UnitOfMeasure',
+    entityId: unit.id,
+    action: 'CREATE',
+    after: unit,
+    request,
+  });
+
+  return unit;
+}
+
+/**
+ * Rename or (de)activate a unit. An inactive unit can no longer be used to move stock.
+ */
+export async function updateUnitOfMeasure(
+  companyId: string,
+  userId: string,
+  unitId: string,
+  data: UnitOfMeasureUpdate,
+  request?: NextRequest
+) {
+  const existing = await prisma.unitOfMeasure.findFirst({
+    where: { id: unitId, companyId },
+  });
+  if (!existing) {
+    throw new Error('Unit of measure not found');
+  }
+
+  const unit = await prisma.unitOfMeasure.update({
+    where: { id: existing.id },
+    data: {
+      ...(data.name !== undefined ? { name: data.name } : {}),
+      ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+    },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'UnitOfMeasure',
+    entityId: unit.id,
+    action: 'UPDATE',
+    before: existing,
+    after: unit,
+    request,
+  });
+
+  return unit;
+}
+
+const stockItemUnitsInclude = Prisma.validator<Prisma.StockItemUnitInclude>()({
+  unit: { select: { id: true, code: true, name: true, isActive: true } },
+});
+
+function serializeStockItemUnit(
+  itemUnit: Prisma.StockItemUnitGetPayload<{ include: typeof stockItemUnitsInclude }>
+) {
+  return {
+    unitId: itemUnit.unit.id,
+    code: itemUnit.unit.code,
+    name: itemUnit.unit.name,
+    isActive: itemUnit.unit.isActive,
+    factor: Number(itemUnit.factor),
+  };
+}
+
+export type StockItemUnitView = ReturnType<typeof serializeStockItemUnit>;
+
+/**
+ * Units an item may be bought or issued in besides its base unit
+ */
+export async function getStockItemUnits(companyId: string, stockItemId: string) {
+  const item = await prisma.stockItem.findFirst({
+    where: { id: stockItemId, companyId },
+    select: {
+      id: true,
+      name: true,
+      unit: true,
+      units: { include: stockItemUnitsInclude, orderBy: { unit: { code: 'asc' } } },
+    },
+  });
+  if (!item) {
+    throw new Error('Stock item not found');
+  }
+  return {
+    stockItemId: item.id,
+    name: item.name,
+    baseUnit: item.unit,
+    units: item.units.map(serializeStockItemUnit),
+  };
+}
+
+/**
+ * Replace the units an item may be bought or issued in. The base unit itself cannot be
+ * listed: its factor is always 1.
+ */
+export async function setStockItemUnits(
+  companyId: string,
+  userId: string,
+  stockItemId: string,
+  data: StockItemUnits,
+  request?: NextRequest
+) {
+  const before = await getStockItemUnits(companyId, stockItemId);
+
+  const units = await prisma.unitOfMeasure.findMany({
+    where: { companyId, id: { in: data.units.map((u) => u.unitId) } },
+  });
+  for (const entry of data.units) {
+    const unit = units.find((u) => u.id === entry.unitId);
+    if (!unit) {
+      throw new Error('Unit of measure not found');
+    }
+    if (unit.code.toLowerCase() === before.baseUnit.toLowerCase()) {
+      throw new Error(`${unit.code} is the base unit of ${before.name}`);
+    }
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.stockItemUnit.deleteMany({ where: { stockItemId } });
+    if (data.units.length > 0) {
+      await tx.stockItemUnit.createMany({
+        data: data.units.map((entry) => ({
+          stockItemId,
+          unitId: entry.unitId,
+          factor: new Prisma.Decimal(entry.factor),
+        })),
+      });
+    }
+  });
+
+  const after = await getStockItemUnits(companyId, stockItemId);
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'StockItem',
+    entityId: stockItemId,
+    action: 'UPDATE',
+    before: { units: before.units },
+    after: { units: after.units },
+    request,
+  });
+
+  return after;
+}
+
+/**
+ * Conversion from a unit to an item's base unit. No unit, or the base unit, converts at
+ * 1; any other unit must be an active unit allowed for the item.
+ */
+export async function resolveUnitConversion(
+  db: Db,
+  companyId: string,
+  stockItemId: string,
+  unit?: string | null
+): Promise<UnitConversion> {
+  const item = await db.stockItem.findFirst({
+    where: { id: stockItemId, companyId },
+    select: {
+      name: true,
+      unit: true,
+      units: { where: { unit: { isActive: true } }, include: stockItemUnitsInclude },
+    },
+  });
+  if (!item) {
+    throw new Error('Stock item not found');
+  }
+
+  const code = unit?.trim();
+  if (!code || code.toLowerCase() === item.unit.toLowerCase()) {
+    return { baseUnit: item.unit, unit: item.unit, factor: new Prisma.Decimal(1), isBase: true };
+  }
+
+  const allowed = item.units.find((u) => u.unit.code.toLowerCase() === code.toLowerCase());
+  if (!allowed) {
+    const options = [item.unit, ...item.units.map((u) => u.unit.code)].join(', ');
+    throw new Error(`${item.name} cannot be moved in ${code}; use ${options}`);
+  }
+  return { baseUnit: item.unit, unit: allowed.unit.code, factor: allowed.factor, isBase: false };
+}
+
+/**
+ * Check that every line naming a stock item uses a unit allowed for it
+ */
+export async function assertAllowedUnits(
+  companyId: string,
+  lines: Array<{ stockItemId?: string | null; unit?: string | null }>
+) {
+  for (const line of lines) {
+    if (line.stockItemId && line.unit) {
+      await resolveUnitConversion(prisma, companyId, line.stockItemId, line.unit);
+    }
+  }
+}
@@ -25,22 +25,36 @@ export const SYSTEM_ACCOUNTS: SystemAccountDefinition[] = [
   { code: '1020', name: 'Bank - Main Account', type: 'ASSET' },
   { code: '1030', name: 'Accounts Receivable', type: 'ASSET' },
   { code: '1040', name: 'Inventory', type: 'ASSET' },
+  { code: '1050', name: 'Retention Receivable', type: 'ASSET' },
+  { code: '1060', name: 'Advance Income Tax (AIT)', type: 'ASSET' },
+  { code: '1070', name: 'VAT Deducted at Source', type: 'ASSET' },
+  { code: '1080', name: 'Advances to Subcontractors', type: 'ASSET' },
+  { code: '1090', name: 'Staff Advances & Loans', type: 'ASSET' },
   
   // LIABILITY accounts
   { code: '2010', name: 'Accounts Payable', type: 'LIABILITY' },
+  { code: '2040', name: 'VAT Deducted at Source Payable', type: 'LIABILITY' },
+  { code: '2050', name: 'AIT Deducted at Source Payable', type: 'LIABILITY' },
+  { code: '2060', name: 'Retention Payable', type: 'LIABILITY' },
+  { code: '2070', name: 'Salaries Payable', type: 'LIABILITY' },
   
   // EQUITY accounts
   { code: '3010', name: 'Owner Equity', type: 'EQUITY' },
   { code: '3020', name: 'Capital', type: 'EQUITY' },
+  { code: '3030', name: 'Retained Earnings', type: 'EQUITY' },
   
   // INCOME accounts (if needed for future revenue tracking)
   { code: '4010', name: 'Sales Revenue', type: 'INCOME' },
+  { code: '4020', name: 'Foreign Exchange Gain', type: 'INCOME' },
   
   // EXPENSE accounts
   { code: '5010', name: 'Direct Materials', type: 'EXPENSE' },
   { code: '5020', name: 'Direct Labor', type: 'EXPENSE' },
   { code: '5030', name: 'Site Overhead', type: 'EXPENSE' },
+  { code: '5040', name: 'Stock Wastage & Count Variance', type: 'EXPENSE' },
+  { code: '5080', name: 'Foreign Exchange Loss', type: 'EXPENSE' },
   { code: '5090', name: 'Miscellaneous Expenses', type: 'EXPENSE' },
+  { code: '5100', name: 'Salaries & Allowances', type: 'EXPENSE' },
 ];
 
 /**
@@ -65,12 +79,26 @@ export const SYSTEM_ACCOUNT_CODES = {
   BANK: '1020',
   ACCOUNTS_RECEIVABLE: '1030',
   INVENTORY: '1040',
+  RETENTION_RECEIVABLE: '1050',
+  AIT_RECEIVABLE: '1060',
+  VAT_RECEIVABLE: '1070',
+  SUBCONTRACT_ADVANCES: '1080',
+  STAFF_ADVANCES: '1090',
   ACCOUNTS_PAYABLE: '2010',
+  VAT_PAYABLE: '2040',
+  AIT_PAYABLE: '2050',
+  RETENTION_PAYABLE: '2060',
+  SALARIES_PAYABLE: '2070',
   OWNER_EQUITY: '3010',
   CAPITAL: '3020',
+  RETAINED_EARNINGS: '3030',
   SALES_REVENUE: '4010',
+  FX_GAIN: '4020',
   DIRECT_MATERIALS: '5010',
   DIRECT_LABOR: '5020',
   SITE_OVERHEAD: '5030',
+  STOCK_WASTAGE: '5040',
+  FX_LOSS: '5080',
   MISC_EXPENSES: '5090',
+  SALARIES: '5100',
 } as const;
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for voucher balancing in base currency, on the server check and the
+ * shared create schema
+ *
+ * Run from apps/web with: npx tsx lib/voucher.test.ts
+ */
+
+import { VoucherCreateSchema } from '@accounting/shared';
+import { toBaseAmount, validateVoucherBalance } from './voucher';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+function testToBaseAmount() {
+  console.log('Test: amounts convert at the rate and round to cents');
+  assert(toBaseAmount(100, 110.255) === 11025.5, `100 x 110.255, got ${toBaseAmount(100, 110.255)}`);
+  assert(toBaseAmount(12.345) === 12.35, 'no rate means base currency');
+  console.log('  PASS');
+}
+
+function testForeignBalance() {
+  console.log('Test: a foreign line balances against base lines at its rate');
+  const balanced = validateVoucherBalance([
+    { debit: 1000, credit: 0, currencyCode: 'USD', exchangeRate: 110 },
+    { debit: 0, credit: 110000 },
+  ]);
+  assert(balanced.valid, `USD 1000 at 110 balances 110000, got ${balanced.error}`);
+
+  const unbalanced = validateVoucherBalance([
+    { debit: 1000, credit: 0, currencyCode: 'USD', exchangeRate: 110 },
+    { debit: 0, credit: 1000 },
+  ]);
+  assert(!unbalanced.valid, 'transaction amounts alone do not balance');
+  console.log('  PASS');
+}
+
+function testRateWithoutCurrency() {
+  console.log('Test: a rate on a base-currency line is ignored, as it is when stored');
+  const result = validateVoucherBalance([
+    { debit: 500, credit: 0, exchangeRate: 2 },
+    { debit: 0, credit: 500 },
+  ]);
+  assert(result.valid, `base lines balance at face value, got ${result.error}`);
+
+  const doubled = validateVoucherBalance([
+    { debit: 500, credit: 0, exchangeRate: 2 },
+    { debit: 0, credit: 1000 },
+  ]);
+  assert(!doubled.valid, 'the stray rate cannot be used to balance');
+  console.log('  PASS');
+}
+
+function testCreateSchema() {
+  console.log('Test: create schema balances in base currency and needs a currency for a rate');
+  const base = { date: '2026-03-10', type: 'JOURNAL' as const };
+
+  const foreign = VoucherCreateSchema.safeParse({
+    ...base,
+    lines: [
+      { accountId: 'a1', debit: 1000, credit: 0, currencyCode: 'USD', exchangeRate: 110 },
+      { accountId: 'a2', debit: 0, credit: 110000 },
+    ],
+  });
+  assert(foreign.success, 'foreign line balanced at its rate is accepted');
+
+  const pending = VoucherCreateSchema.safeParse({
+    ...base,
+    lines: [
+      { accountId: 'a1', debit: 1000, credit: 0, currencyCode: 'USD' },
+      { accountId: 'a2', debit: 0, credit: 110000 },
+    ],
+  });
+  assert(pending.success, 'rate still to be looked up is left to the server');
+
+  const strayRate = VoucherCreateSchema.safeParse({
+    ...base,
+    lines: [
+      { accountId: 'a1', debit: 500, credit: 0, exchangeRate: 2 },
+      { accountId: 'a2', debit: 0, credit: 1000 },
+    ],
+  });
+  assert(!strayRate.success, 'rate without a currency is rejected');
+  console.log('  PASS');
+}
+
+function runTests() {
+  console.log('Running voucher balance tests...\n');
+  testToBaseAmount();
+  testForeignBalance();
+  testRateWithoutCurrency();
+  testCreateSchema();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests();
+}
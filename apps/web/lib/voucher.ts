@@ -1,27 +1,49 @@
 import { prisma } from '@accounting/db';
+import { Prisma, VoucherType } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import {
+  DEFAULT_PADDING,
+  DEFAULT_PREFIX_TEMPLATE,
+  DRAFT_VOUCHER_PREFIX,
+  formatVoucherNumber,
+  renderSeriesPrefix,
+} from '@/lib/vouchers/numberSeries';
 
 export interface VoucherLineInput {
   debit: number;
   credit: number;
+  // Transaction currency of a foreign line; omitted for base-currency lines
+  currencyCode?: string | null;
+  // Base-currency units per unit of the line's currency; ignored without a currency code
+  exchangeRate?: number | null;
 }
 
 /**
- * Validate that total debit equals total credit (with tolerance for floating point)
+ * Convert a transaction-currency amount to the base currency, rounded to cents
+ */
+export function toBaseAmount(amount: number, exchangeRate?: number | null): number {
+  return Math.round(amount * (exchangeRate ?? 1) * 100) / 100;
+}
+
+/**
+ * Validate that total debit equals total credit in base currency (with tolerance for
+ * floating point). Foreign-currency lines are converted at their exchange rate first;
+ * lines without a currency code are already in the base currency, as they are stored.
  */
 export function validateVoucherBalance(lines: VoucherLineInput[]): { valid: boolean; error?: string } {
   if (lines.length < 2) {
     return { valid: false, error: 'At least 2 voucher lines are required' };
   }
 
-  const totalDebit = lines.reduce((sum, line) => sum + line.debit, 0);
-  const totalCredit = lines.reduce((sum, line) => sum + line.credit, 0);
+  const rateOf = (line: VoucherLineInput) => (line.currencyCode ? line.exchangeRate : null);
+  const totalDebit = lines.reduce((sum, line) => sum + toBaseAmount(line.debit, rateOf(line)), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + toBaseAmount(line.credit, rateOf(line)), 0);
   const difference = Math.abs(totalDebit - totalCredit);
 
   if (difference >= 0.01) {
     return {
       valid: false,
-      error: `Voucher is not balanced. Debit: ${totalDebit.toFixed(2)}, Credit: ${totalCredit.toFixed(2)}, Difference: ${difference.toFixed(2)}`,
+      error: `Voucher is not balanced in base currency. Debit: ${totalDebit.toFixed(2)}, Credit: ${totalCredit.toFixed(2)}, Difference: ${difference.toFixed(2)}`,
     };
   }
 
@@ -29,38 +51,130 @@ export function validateVoucherBalance(lines: VoucherLineInput[]): { valid: bool
 }
 
 /**
- * Generate unique voucher number in format: V-YYYY-NNNNNN
- * Example: V-2026-000001
+ * Increment the counter of a rendered prefix and return the new last number. The row is
+ * locked until the calling transaction ends, so numbers are gap-free and never issued
+ * twice; a rolled-back voucher gives its number back.
+ */
+async function nextCounterNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  prefix: string
+): Promise<number> {
+  const existing = await tx.voucherNumberCounter.findUnique({
+    where: { companyId_prefix: { companyId, prefix } },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    // First use of this prefix: continue after any numbers already issued with it
+    // (e.g. vouchers created before numbering series existed)
+    const lastVoucher = await tx.voucher.findFirst({
+      where: {
+        companyId,
+        voucherNo: { startsWith: prefix },
+      },
+      orderBy: { voucherNo: 'desc' },
+      select: { voucherNo: true },
+    });
+    const match = lastVoucher?.voucherNo.slice(prefix.length).match(/^(\d+)$/);
+    const lastNumber = match ? parseInt(match[1], 10) : 0;
+
+    // ON CONFLICT DO NOTHING: a concurrent first use waits for the other insert and then
+    // increments the same row, instead of failing the transaction on the unique index
+    await tx.voucherNumberCounter.createMany({
+      data: [{ companyId, prefix, lastNumber }],
+      skipDuplicates: true,
+    });
+  }
+
+  const counter = await tx.voucherNumberCounter.update({
+    where: { companyId_prefix: { companyId, prefix } },
+    data: { lastNumber: { increment: 1 } },
+  });
+  return counter.lastNumber;
+}
+
+/**
+ * Allocate the next voucher number from the matching numbering series for a voucher
+ * that is being posted. Must be called with the transaction that posts the voucher.
+ * Drafts are numbered with generateDraftVoucherNumber instead and receive their series
+ * number when posted, so deleted drafts never leave gaps in a series.
+ * Without a configured series the legacy format V-YYYY-NNNNNN is used.
  */
-export async function generateVoucherNumber(companyId: string, date: Date): Promise<string> {
-  const year = date.getFullYear();
-  const prefix = `V-${year}-`;
+export async function generateVoucherNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  options: {
+    date: Date;
+    type?: VoucherType | null;
+    projectId?: string | null;
+  }
+): Promise<string> {
+  const type = options.type || 'JOURNAL';
+  const projectId = options.projectId || null;
 
-  // Find the highest voucher number for this company and year
-  const lastVoucher = await prisma.voucher.findFirst({
+  const matching = await tx.voucherNumberSeries.findMany({
     where: {
       companyId,
-      voucherNo: {
-        startsWith: prefix,
-      },
-    },
-    orderBy: {
-      voucherNo: 'desc',
+      isActive: true,
+      AND: [
+        { OR: [{ voucherType: type }, { voucherType: null }] },
+        { OR: [{ projectId }, { projectId: null }] },
+      ],
     },
   });
 
-  let nextNumber = 1;
-  if (lastVoucher) {
-    // Extract the number part (e.g., "000001" from "V-2026-000001")
-    const match = lastVoucher.voucherNo.match(/-(\d+)$/);
-    if (match) {
-      nextNumber = parseInt(match[1], 10) + 1;
-    }
+  // Most specific match wins: type + project, project only, type only, company default
+  const specificity = (s: (typeof matching)[number]) =>
+    (s.projectId ? 2 : 0) + (s.voucherType ? 1 : 0);
+  const series = matching.sort((a, b) => specificity(b) - specificity(a))[0] ?? null;
+
+  const template = series?.prefixTemplate ?? DEFAULT_PREFIX_TEMPLATE;
+  const padding = series?.padding ?? DEFAULT_PADDING;
+
+  let projectCode: string | null = null;
+  if (projectId && template.includes('{PROJECT}')) {
+    const project = await tx.project.findUnique({
+      where: { id: projectId },
+      select: { reference: true },
+    });
+    projectCode = project?.reference ?? null;
   }
 
-  // Format with leading zeros (6 digits)
-  const numberPart = nextNumber.toString().padStart(6, '0');
-  return `${prefix}${numberPart}`;
+  const prefix = renderSeriesPrefix(template, {
+    date: options.date,
+    type,
+    projectCode,
+    fiscalYearStartMonth: series?.fiscalYearStartMonth,
+  });
+
+  return formatVoucherNumber(prefix, await nextCounterNumber(tx, companyId, prefix), padding);
+}
+
+/**
+ * Provisional number for a DRAFT voucher (DRAFT-NNNNNN), from a counter of its own
+ */
+export async function generateDraftVoucherNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string
+): Promise<string> {
+  const number = await nextCounterNumber(tx, companyId, DRAFT_VOUCHER_PREFIX);
+  return formatVoucherNumber(DRAFT_VOUCHER_PREFIX, number, DEFAULT_PADDING);
+}
+
+/**
+ * Number a voucher keeps when it is posted: drafts with a provisional number get the
+ * next number of their series, anything else keeps the number it has
+ */
+export async function resolvePostingVoucherNumber(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  voucher: { voucherNo: string; date: Date; type: VoucherType | null; projectId: string | null }
+): Promise<string> {
+  if (!voucher.voucherNo.startsWith(DRAFT_VOUCHER_PREFIX)) {
+    return voucher.voucherNo;
+  }
+  return generateVoucherNumber(tx, companyId, voucher);
 }
 
 /**
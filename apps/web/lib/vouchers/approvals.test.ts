@@ -0,0 +1,128 @@
+/**
+ * Unit tests for voucher approval chains: rule selection, progress through the chain
+ * and who may take (or reject) the next step
+ *
+ * Run from apps/web with: npx tsx lib/vouchers/approvals.test.ts
+ */
+
+import { Prisma, UserRole, VoucherType } from '@prisma/client';
+import {
+  ApprovalRecord,
+  canApproveStep,
+  getApprovalProgress,
+  resolveApprovalChain,
+} from './approvals';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(`Assertion failed: ${message}`);
+}
+
+interface Rule {
+  id: string;
+  voucherType: VoucherType | null;
+  minAmount: number;
+  approverRoles: UserRole[];
+  isActive: boolean;
+}
+
+// Answers findMany the way the database would for the filter resolveApprovalChain builds
+function rulesTx(rules: Rule[]): Prisma.TransactionClient {
+  return {
+    voucherApprovalRule: {
+      findMany: async ({ where }: { where: { minAmount: { lte: number }; OR: Array<{ voucherType: VoucherType | null }> } }) =>
+        rules
+          .filter((rule) => rule.isActive && rule.minAmount <= where.minAmount.lte)
+          .filter((rule) => where.OR.some((or) => or.voucherType === rule.voucherType))
+          .map((rule) => ({ ...rule, minAmount: new Prisma.Decimal(rule.minAmount) })),
+    },
+  } as unknown as Prisma.TransactionClient;
+}
+
+function approval(step: number, userId: string, createdAt: Date, action: 'APPROVED' | 'REJECTED' = 'APPROVED'): ApprovalRecord {
+  return { id: `${step}-${userId}`, step, requiredRole: null, action, userId, reason: null, createdAt };
+}
+
+async function testResolveApprovalChain() {
+  console.log('Test: approval chain picks the most specific matching rule');
+  const tx = rulesTx([
+    { id: 'any-0', voucherType: null, minAmount: 0, approverRoles: ['ACCOUNTANT'], isActive: true },
+    { id: 'any-100k', voucherType: null, minAmount: 100000, approverRoles: ['ACCOUNTANT', 'ADMIN'], isActive: true },
+    { id: 'pv-100k', voucherType: 'PAYMENT', minAmount: 100000, approverRoles: ['ADMIN'], isActive: true },
+    { id: 'jv-1m-off', voucherType: 'JOURNAL', minAmount: 1000000, approverRoles: ['ADMIN'], isActive: false },
+  ]);
+
+  const small = await resolveApprovalChain(tx, 'c1', 'JOURNAL', 5000);
+  assert(small.ruleId === 'any-0', `small journal uses the any-type rule, got ${small.ruleId}`);
+
+  const large = await resolveApprovalChain(tx, 'c1', 'JOURNAL', 2000000);
+  assert(large.ruleId === 'any-100k', `inactive rule is ignored, got ${large.ruleId}`);
+  assert(large.steps.join(',') === 'ACCOUNTANT,ADMIN', 'two-step chain in rule order');
+
+  const payment = await resolveApprovalChain(tx, 'c1', 'PAYMENT', 150000);
+  assert(payment.ruleId === 'pv-100k', `type rule beats any-type rule at the same amount, got ${payment.ruleId}`);
+
+  const none = await resolveApprovalChain(rulesTx([]), 'c1', 'RECEIPT', 10);
+  assert(none.ruleId === null && none.steps.length === 0, 'no rule means the default single approval');
+  console.log('  PASS');
+}
+
+function testApprovalProgress() {
+  console.log('Test: progress counts only approvals since the latest submission');
+  const submittedAt = new Date('2026-03-10T10:00:00Z');
+  const before = new Date('2026-03-09T10:00:00Z');
+  const after = new Date('2026-03-10T11:00:00Z');
+  const voucher = { status: 'SUBMITTED', submittedAt, approvalSteps: ['ACCOUNTANT', 'ADMIN'] as UserRole[] };
+
+  const fresh = getApprovalProgress(voucher, [approval(1, 'u-old', before)]);
+  assert(fresh.nextStep === 1 && fresh.nextRole === 'ACCOUNTANT', 'approval from an earlier submission is ignored');
+
+  const halfway = getApprovalProgress(voucher, [approval(1, 'u-acc', after)]);
+  assert(halfway.nextStep === 2 && halfway.nextRole === 'ADMIN', 'second step needs ADMIN');
+
+  const rejected = getApprovalProgress(voucher, [approval(1, 'u-acc', after, 'REJECTED')]);
+  assert(rejected.nextStep === 1, 'a rejection is not an approval');
+
+  const twice = getApprovalProgress(voucher, [approval(1, 'u-acc', after), approval(1, 'u-acc2', after)]);
+  assert(twice.completed.length === 1 && twice.nextStep === 2, 'a step recorded twice counts once');
+
+  const done = getApprovalProgress(voucher, [approval(1, 'u-acc', after), approval(2, 'u-adm', after)]);
+  assert(done.nextStep === null, 'fully approved chain has no next step');
+
+  const single = getApprovalProgress({ status: 'SUBMITTED', submittedAt, approvalSteps: [] }, []);
+  assert(single.totalSteps === 1 && single.nextRole === null, 'no rule: one step for ADMIN or ACCOUNTANT');
+  console.log('  PASS');
+}
+
+function testCanApproveStep() {
+  console.log('Test: only the role of the current step, and not the creator, may act on it');
+  const submittedAt = new Date('2026-03-10T10:00:00Z');
+  const after = new Date('2026-03-10T11:00:00Z');
+  const voucher = { status: 'SUBMITTED', submittedAt, approvalSteps: ['ACCOUNTANT', 'ADMIN'] as UserRole[], createdByUserId: 'u-creator' };
+  const halfway = getApprovalProgress(voucher, [approval(1, 'u-acc', after)]);
+
+  assert(!canApproveStep('ACCOUNTANT', 'u-acc2', voucher, halfway).allowed, 'ACCOUNTANT cannot act on the ADMIN step');
+  assert(canApproveStep('ADMIN', 'u-adm', voucher, halfway).allowed, 'ADMIN can act on the ADMIN step');
+  assert(!canApproveStep('ADMIN', 'u-acc', voucher, halfway).allowed, 'one user cannot take two steps');
+  assert(!canApproveStep('ADMIN', 'u-creator', voucher, halfway).allowed, 'creator cannot approve or reject');
+
+  const single = { ...voucher, approvalSteps: [] as UserRole[] };
+  const progress = getApprovalProgress(single, []);
+  assert(canApproveStep('ACCOUNTANT', 'u-acc', single, progress).allowed, 'default step allows ACCOUNTANT');
+  assert(!canApproveStep('VIEWER', 'u-viewer', single, progress).allowed, 'default step refuses other roles');
+  console.log('  PASS');
+}
+
+async function runTests() {
+  console.log('Running approval chain tests...\n');
+  await testResolveApprovalChain();
+  testApprovalProgress();
+  testCanApproveStep();
+  console.log('\nAll tests PASSED');
+}
+
+if (require.main === module) {
+  runTests().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
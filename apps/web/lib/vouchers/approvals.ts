@@ -0,0 +1,145 @@
+/**
+ * Voucher Approval Chains
+ *
+ * A voucher's approval chain is fixed when it is submitted: the matching
+ * VoucherApprovalRule contributes one required role per step (e.g. ACCOUNTANT then
+ * ADMIN). With no matching rule a single approval by an ADMIN or ACCOUNTANT is enough.
+ * Each step is recorded as a VoucherApproval row; the voucher only becomes APPROVED
+ * once every step is done. The creator of a voucher can never approve it, and one
+ * user can approve only one step of the same submission.
+ */
+
+import { Prisma, UserRole, VoucherApprovalAction, VoucherType } from '@prisma/client';
+
+type Tx = Prisma.TransactionClient;
+
+/** Roles that may approve a step without a specific required role */
+export const DEFAULT_APPROVER_ROLES: UserRole[] = ['ADMIN', 'ACCOUNTANT'];
+
+export interface ApprovalRecord {
+  id: string;
+  step: number;
+  requiredRole: UserRole | null;
+  action: VoucherApprovalAction;
+  userId: string;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export interface ApprovalProgress {
+  totalSteps: number;
+  /** Approvals recorded for the current submission, in step order */
+  completed: ApprovalRecord[];
+  /** 1-based number of the next step, or null when fully approved / not submitted */
+  nextStep: number | null;
+  /** Role required for the next step (null = ADMIN or ACCOUNTANT) */
+  nextRole: UserRole | null;
+}
+
+/**
+ * Pick the approval chain for a voucher from the company's active rules.
+ * The rule with the highest minimum amount not above the voucher total wins;
+ * a rule for the voucher's own type beats an any-type rule at the same amount.
+ */
+export async function resolveApprovalChain(
+  tx: Tx,
+  companyId: string,
+  voucherType: VoucherType | null,
+  amount: number
+): Promise<{ ruleId: string | null; steps: UserRole[] }> {
+  const rules = await tx.voucherApprovalRule.findMany({
+    where: {
+      companyId,
+      isActive: true,
+      minAmount: { lte: amount },
+      OR: [{ voucherType: voucherType || 'JOURNAL' }, { voucherType: null }],
+    },
+  });
+
+  const rule = rules.sort((a, b) => {
+    const byAmount = Number(b.minAmount) - Number(a.minAmount);
+    if (byAmount !== 0) return byAmount;
+    return (b.voucherType ? 1 : 0) - (a.voucherType ? 1 : 0);
+  })[0];
+
+  if (!rule || rule.approverRoles.length === 0) {
+    return { ruleId: null, steps: [] };
+  }
+
+  return { ruleId: rule.id, steps: rule.approverRoles };
+}
+
+/**
+ * Work out where a submitted voucher is in its approval chain.
+ * Only approvals recorded since the latest submission count; a rejection sends the
+ * voucher back to DRAFT, so re-submitting starts the chain again.
+ */
+export function getApprovalProgress(
+  voucher: {
+    status: string;
+    submittedAt: Date | null;
+    approvalSteps: UserRole[];
+  },
+  approvals: ApprovalRecord[]
+): ApprovalProgress {
+  const totalSteps = Math.max(voucher.approvalSteps.length, 1);
+  const submittedAt = voucher.submittedAt ? new Date(voucher.submittedAt).getTime() : null;
+
+  const completed =
+    submittedAt === null
+      ? []
+      : approvals
+          .filter(
+            (approval) =>
+              approval.action === 'APPROVED' && new Date(approval.createdAt).getTime() >= submittedAt
+          )
+          .sort((a, b) => a.step - b.step)
+          // One approval per step, should a step ever have been recorded twice
+          .filter((approval, index, sorted) => index === 0 || sorted[index - 1].step !== approval.step);
+
+  if (voucher.status !== 'SUBMITTED' || completed.length >= totalSteps) {
+    return { totalSteps, completed, nextStep: null, nextRole: null };
+  }
+
+  const nextStep = completed.length + 1;
+  return {
+    totalSteps,
+    completed,
+    nextStep,
+    nextRole: voucher.approvalSteps[nextStep - 1] ?? null,
+  };
+}
+
+/**
+ * Check whether a user may take the next approval step (or reject) on a voucher
+ */
+export function canApproveStep(
+  role: UserRole,
+  userId: string,
+  voucher: { createdByUserId: string },
+  progress: ApprovalProgress
+): { allowed: boolean; reason?: string } {
+  if (progress.nextStep === null) {
+    return { allowed: false, reason: 'Voucher is not awaiting approval' };
+  }
+  if (voucher.createdByUserId === userId) {
+    return { allowed: false, reason: 'You cannot approve a voucher you created' };
+  }
+  if (progress.nextRole) {
+    if (role !== progress.nextRole) {
+      return {
+        allowed: false,
+        reason: `Step ${progress.nextStep} of ${progress.totalSteps} must be approved by ${progress.nextRole}`,
+      };
+    }
+  } else if (!DEFAULT_APPROVER_ROLES.includes(role)) {
+    return { allowed: false, reason: 'Only ADMIN or ACCOUNTANT can approve vouchers' };
+  }
+  if (progress.completed.some((approval) => approval.userId === userId)) {
+    return {
+      allowed: false,
+      reason: 'You have already approved an earlier step of this voucher',
+    };
+  }
+  return { allowed: true };
+}
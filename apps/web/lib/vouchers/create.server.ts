@@ -0,0 +1,168 @@
+/**
+ * Draft Voucher Creation
+ *
+ * The single path for creating a DRAFT voucher from a VoucherCreate payload.
+ * Used by POST /api/vouchers and by recurring template generation, so both apply
+ * the same account, project and balance checks and the same numbering.
+ */
+
+import { prisma } from '@accounting/db';
+import { Prisma } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import type { VoucherCreate } from '@accounting/shared';
+import { createAuditLog } from '@/lib/audit';
+import { generateDraftVoucherNumber, validateVoucherBalance } from '@/lib/voucher';
+import { resolveLineCurrencies, voucherLineAmounts } from '@/lib/accounting/currency.server';
+
+const draftVoucherInclude = Prisma.validator<Prisma.VoucherInclude>()({
+  project: {
+    select: { id: true, name: true },
+  },
+  createdBy: {
+    select: { id: true, name: true, email: true },
+  },
+  lines: {
+    include: {
+      account: {
+        select: { id: true, code: true, name: true },
+      },
+      expenseCategory: {
+        select: { id: true, name: true },
+      },
+    },
+  },
+});
+
+export interface CreateDraftVoucherResult {
+  success: boolean;
+  voucher?: Prisma.VoucherGetPayload<{ include: typeof draftVoucherInclude }>;
+  error?: string;
+}
+
+/**
+ * Validate and create a DRAFT voucher with its lines
+ */
+export async function createDraftVoucher(
+  companyId: string,
+  userId: string,
+  data: VoucherCreate,
+  options: {
+    recurringTemplateId?: string;
+    recurringRunDate?: Date;
+    request?: NextRequest;
+  } = {}
+): Promise<CreateDraftVoucherResult> {
+  // Resolve foreign-currency rates, then validate balance in base currency
+  let lines: VoucherCreate['lines'];
+  try {
+    lines = await resolveLineCurrencies(companyId, data.date, data.lines);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid currency' };
+  }
+  const balanceCheck = validateVoucherBalance(lines);
+  if (!balanceCheck.valid) {
+    return { success: false, error: balanceCheck.error };
+  }
+
+  // Validate all accounts exist, belong to company, and are active
+  const accountIds = lines.map((line) => line.accountId);
+  const accounts = await prisma.account.findMany({
+    where: {
+      id: { in: accountIds },
+      companyId,
+      isActive: true,
+      isSystem: true, // Only system accounts are allowed
+    },
+  });
+
+  if (accounts.length !== accountIds.length) {
+    return {
+      success: false,
+      error: 'One or more accounts not found, inactive, or are not system accounts',
+    };
+  }
+
+  // Validate project if provided
+  if (data.projectId) {
+    const project = await prisma.project.findUnique({
+      where: { id: data.projectId },
+    });
+
+    if (!project || project.companyId !== companyId) {
+      return { success: false, error: 'Project not found or does not belong to your company' };
+    }
+  }
+
+  // Ensure office expenses don't have projectId
+  if (data.expenseType === 'OFFICE_EXPENSE' && data.projectId) {
+    return { success: false, error: 'Office expenses cannot have a project assigned' };
+  }
+
+  const voucherProjectId =
+    data.expenseType === 'OFFICE_EXPENSE' ? null : (data.projectId || null);
+
+  // Create voucher with lines in a transaction
+  const voucher = await prisma.$transaction(async (tx) => {
+    const voucherNo = await generateDraftVoucherNumber(tx, companyId);
+
+    return tx.voucher.create({
+      data: {
+        companyId,
+        projectId: voucherProjectId,
+        voucherNo,
+        type: data.type,
+        date: data.date,
+        status: 'DRAFT',
+        narration: data.narration || null,
+        expenseType: data.expenseType || null,
+        createdByUserId: userId,
+        recurringTemplateId: options.recurringTemplateId || null,
+        recurringRunDate: options.recurringRunDate || null,
+        lines: {
+          create: lines.map((line) => {
+            // Determine projectId: use line.projectId if set, otherwise fall back to voucher.projectId
+            // Exception: if isCompanyLevel is true or expenseType is OFFICE_EXPENSE, projectId should be null
+            const lineProjectId = data.expenseType === 'OFFICE_EXPENSE'
+              ? null
+              : (line.isCompanyLevel ? null : (line.projectId || voucherProjectId));
+
+            return {
+              companyId,
+              accountId: line.accountId,
+              description: line.description || null,
+              ...voucherLineAmounts(line),
+              projectId: lineProjectId,
+              isCompanyLevel: data.expenseType === 'OFFICE_EXPENSE' ? false : (line.isCompanyLevel || false),
+              vendorId: line.vendorId || null,
+              paymentMethodId: line.paymentMethodId || null,
+              expenseCategoryId: line.expenseCategoryId || null, // Only stored on debit lines (debit > 0)
+              // PDF fields
+              workDetails: line.workDetails || null,
+              paidBy: line.paidBy || null,
+              receivedBy: line.receivedBy || null,
+              fileRef: line.fileRef || null,
+              voucherRef: line.voucherRef || null,
+            };
+          }),
+        },
+      },
+      include: draftVoucherInclude,
+    });
+  });
+
+  // Create audit log
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'VOUCHER',
+    entityId: voucher.id,
+    action: 'CREATE',
+    after: voucher,
+    metadata: options.recurringTemplateId
+      ? { recurringTemplateId: options.recurringTemplateId }
+      : undefined,
+    request: options.request,
+  });
+
+  return { success: true, voucher };
+}
@@ -0,0 +1,56 @@
+/**
+ * Voucher Number Series (server)
+ *
+ * Queries behind the numbering settings screen. Allocation itself lives in
+ * generateVoucherNumber (lib/voucher.ts) so it always runs in the voucher's transaction.
+ */
+
+import { prisma } from '@accounting/db';
+import { VoucherType } from '@prisma/client';
+import { DRAFT_VOUCHER_PREFIX } from './numberSeries';
+
+/**
+ * List numbering series for a company with their project names
+ */
+export async function listVoucherNumberSeries(companyId: string) {
+  return prisma.voucherNumberSeries.findMany({
+    where: { companyId },
+    include: {
+      project: { select: { id: true, name: true, reference: true } },
+    },
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * List counters (last number issued per prefix) for a company, without the counter of
+ * provisional draft numbers
+ */
+export async function listVoucherNumberCounters(companyId: string) {
+  return prisma.voucherNumberCounter.findMany({
+    where: { companyId, prefix: { not: DRAFT_VOUCHER_PREFIX } },
+    orderBy: { prefix: 'asc' },
+  });
+}
+
+/**
+ * Find another active series covering the same voucher type / project combination.
+ * Only one active series may match a combination, otherwise the choice would be ambiguous.
+ */
+export async function findOverlappingSeries(
+  companyId: string,
+  voucherType: VoucherType | null,
+  projectId: string | null,
+  excludeId?: string
+) {
+  return prisma.voucherNumberSeries.findFirst({
+    where: {
+      companyId,
+      isActive: true,
+      voucherType,
+      projectId,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: { id: true, name: true },
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Voucher Number Series Templates
+ *
+ * Pure helpers for rendering voucher number prefixes from a series template.
+ * Shared by the allocator (server) and the numbering settings screen (client preview).
+ *
+ * Supported tokens:
+ *   {TYPE}    voucher type code (RV, PV, JV, CV)
+ *   {PROJECT} project reference, or GEN when the voucher has no project
+ *   {FY}      fiscal year (e.g. 2026, or 2025-26 when the year does not start in January)
+ *   {YYYY}    calendar year, {YY} two-digit year, {MM} month
+ */
+
+import type { VoucherType } from '@prisma/client';
+
+export const DEFAULT_PREFIX_TEMPLATE = 'V-{YYYY}-';
+export const DEFAULT_PADDING = 6;
+
+/** Prefix of the provisional numbers drafts carry until they are posted */
+export const DRAFT_VOUCHER_PREFIX = 'DRAFT-';
+
+export const VOUCHER_TYPE_CODES: Record<VoucherType, string> = {
+  RECEIPT: 'RV',
+  PAYMENT: 'PV',
+  JOURNAL: 'JV',
+  CONTRA: 'CV',
+};
+
+export const SERIES_TOKENS = ['{TYPE}', '{PROJECT}', '{FY}', '{YYYY}', '{YY}', '{MM}'];
+
+export interface SeriesTemplateContext {
+  date: Date;
+  type?: VoucherType | null;
+  projectCode?: string | null;
+  fiscalYearStartMonth?: number;
+}
+
+/**
+ * Fiscal year label for a date. With a January start this is just the year;
+ * otherwise it is "2025-26" style, named by the year the fiscal year starts in.
+ */
+export function fiscalYearLabel(date: Date, fiscalYearStartMonth = 1): string {
+  const month = date.getMonth() + 1;
+  const startYear = month >= fiscalYearStartMonth ? date.getFullYear() : date.getFullYear() - 1;
+  if (fiscalYearStartMonth === 1) {
+    return String(startYear);
+  }
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Project code as used in voucher numbers: uppercase letters/digits only
+ */
+export function normalizeProjectCode(code: string | null | undefined): string {
+  const cleaned = (code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return cleaned || 'GEN';
+}
+
+/**
+ * Render a prefix template for a voucher
+ */
+export function renderSeriesPrefix(template: string, context: SeriesTemplateContext): string {
+  const { date } = context;
+  return template
+    .replace(/\{TYPE\}/g, VOUCHER_TYPE_CODES[context.type || 'JOURNAL'])
+    .replace(/\{PROJECT\}/g, normalizeProjectCode(context.projectCode))
+    .replace(/\{FY\}/g, fiscalYearLabel(date, context.fiscalYearStartMonth ?? 1))
+    .replace(/\{YYYY\}/g, String(date.getFullYear()))
+    .replace(/\{YY\}/g, String(date.getFullYear() % 100).padStart(2, '0'))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'));
+}
+
+/**
+ * Full voucher number from a rendered prefix and sequence number
+ */
+export function formatVoucherNumber(prefix: string, sequence: number, padding = DEFAULT_PADDING): string {
+  return `${prefix}${sequence.toString().padStart(padding, '0')}`;
+}
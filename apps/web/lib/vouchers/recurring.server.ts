@@ -0,0 +1,213 @@
+/**
+ * Recurring Voucher Templates (server)
+ *
+ * Generates DRAFT vouchers from templates that are due. Each run is claimed by moving
+ * the template's nextRunDate forward before the voucher is created, so two generators
+ * running at once cannot create the same run twice. If the voucher cannot be created
+ * (e.g. an account was deactivated) the run is released again and the error is kept
+ * on the template.
+ */
+
+import { prisma } from '@accounting/db';
+import { RecurrenceFrequency } from '@prisma/client';
+import { NextRequest } from 'next/server';
+import { VoucherCreateSchema } from '@accounting/shared';
+import { ZodError } from 'zod';
+import { createAuditLog } from '@/lib/audit';
+import { CreateDraftVoucherResult, createDraftVoucher } from '@/lib/vouchers/create.server';
+import { nextRunAfter, utcDay } from '@/lib/vouchers/recurring';
+
+/** Upper bound on runs generated for one template in a single call (catch-up) */
+const MAX_RUNS_PER_TEMPLATE = 24;
+
+export interface RecurringGenerationResult {
+  generated: Array<{
+    templateId: string;
+    templateName: string;
+    voucherId: string;
+    voucherNo: string;
+    runDate: Date;
+  }>;
+  failed: Array<{
+    templateId: string;
+    templateName: string;
+    runDate: Date;
+    error: string;
+  }>;
+}
+
+/**
+ * List recurring templates with their most recent generated vouchers
+ */
+export async function listRecurringTemplates(companyId: string) {
+  return prisma.recurringVoucherTemplate.findMany({
+    where: { companyId },
+    include: {
+      project: { select: { id: true, name: true } },
+      createdBy: { select: { id: true, name: true } },
+      vouchers: {
+        select: { id: true, voucherNo: true, date: true, status: true, recurringRunDate: true },
+        orderBy: { date: 'desc' },
+        take: 5,
+      },
+      _count: { select: { vouchers: true } },
+    },
+    orderBy: [{ isPaused: 'asc' }, { nextRunDate: 'asc' }],
+  });
+}
+
+/**
+ * Run date after `runDate`, or null once the template's end date has passed
+ */
+function followingRunDate(
+  template: { frequency: RecurrenceFrequency; startDate: Date; endDate: Date | null },
+  runDate: Date
+): Date | null {
+  const next = nextRunAfter(template.frequency, template.startDate, runDate);
+  if (template.endDate && next > template.endDate) {
+    return null;
+  }
+  return next;
+}
+
+/**
+ * Generate DRAFT vouchers for every run due on or before `asOf`
+ */
+export async function generateDueVouchers(
+  companyId: string,
+  userId: string,
+  options: { templateId?: string; asOf?: Date; request?: NextRequest } = {}
+): Promise<RecurringGenerationResult> {
+  const asOf = utcDay(options.asOf ?? new Date());
+  const result: RecurringGenerationResult = { generated: [], failed: [] };
+
+  const templates = await prisma.recurringVoucherTemplate.findMany({
+    where: {
+      companyId,
+      isPaused: false,
+      nextRunDate: { lte: asOf },
+      ...(options.templateId ? { id: options.templateId } : {}),
+    },
+    orderBy: { nextRunDate: 'asc' },
+  });
+
+  for (const template of templates) {
+    let runDate = template.nextRunDate;
+
+    for (let run = 0; runDate && runDate <= asOf && run < MAX_RUNS_PER_TEMPLATE; run++) {
+      const nextRunDate = followingRunDate(template, runDate);
+
+      // Claim the run
+      const claimed = await prisma.recurringVoucherTemplate.updateMany({
+        where: { id: template.id, nextRunDate: runDate, isPaused: false },
+        data: { nextRunDate, lastRunAt: new Date() },
+      });
+      if (claimed.count === 0) break;
+
+      let error: string | undefined;
+      let voucher: CreateDraftVoucherResult['voucher'];
+      try {
+        const data = VoucherCreateSchema.parse({
+          date: runDate,
+          type: template.type,
+          narration: template.narration,
+          projectId: template.projectId,
+          expenseType: template.expenseType,
+          lines: template.lines,
+        });
+        const created = await createDraftVoucher(companyId, userId, data, {
+          recurringTemplateId: template.id,
+          recurringRunDate: runDate,
+          request: options.request,
+        });
+        error = created.error;
+        voucher = created.voucher;
+      } catch (err) {
+        error =
+          err instanceof ZodError
+            ? err.errors[0]?.message || 'Template lines are invalid'
+            : err instanceof Error
+              ? err.message
+              : 'Unknown error';
+      }
+
+      if (!voucher) {
+        // Release the run so it is retried once the template is fixed, unless a skip or
+        // edit has moved the template on since it was claimed
+        await prisma.recurringVoucherTemplate.updateMany({
+          where: { id: template.id, nextRunDate },
+          data: { nextRunDate: runDate, lastError: error || 'Failed to create voucher' },
+        });
+        result.failed.push({
+          templateId: template.id,
+          templateName: template.name,
+          runDate,
+          error: error || 'Failed to create voucher',
+        });
+        break;
+      }
+
+      if (template.lastError) {
+        await prisma.recurringVoucherTemplate.update({
+          where: { id: template.id },
+          data: { lastError: null },
+        });
+        template.lastError = null;
+      }
+
+      result.generated.push({
+        templateId: template.id,
+        templateName: template.name,
+        voucherId: voucher.id,
+        voucherNo: voucher.voucherNo,
+        runDate,
+      });
+      runDate = nextRunDate;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Skip the next run of a template without generating a voucher
+ */
+export async function skipNextRun(
+  companyId: string,
+  userId: string,
+  templateId: string,
+  request?: NextRequest
+) {
+  const template = await prisma.recurringVoucherTemplate.findFirst({
+    where: { id: templateId, companyId },
+  });
+
+  if (!template) {
+    throw new Error('Recurring template not found');
+  }
+  if (!template.nextRunDate) {
+    throw new Error('This template has no upcoming runs');
+  }
+
+  const skippedDate = template.nextRunDate;
+  const nextRunDate = followingRunDate(template, skippedDate);
+
+  const updated = await prisma.recurringVoucherTemplate.update({
+    where: { id: template.id },
+    data: { nextRunDate },
+  });
+
+  await createAuditLog({
+    companyId,
+    actorUserId: userId,
+    entityType: 'RecurringVoucherTemplate',
+    entityId: template.id,
+    action: 'RECURRING_SKIP',
+    before: { nextRunDate: skippedDate.toISOString() },
+    after: { nextRunDate: nextRunDate ? nextRunDate.toISOString() : null },
+    metadata: { skippedDate: skippedDate.toISOString().slice(0, 10) },
+    request,
+  });
+
+  return updated;
+}
@@ -0,0 +1,76 @@
+/**
+ * Recurring Voucher Schedules
+ *
+ * Pure date helpers for recurring voucher templates, shared by the generator (server)
+ * and the templates screen (upcoming runs). Dates are handled in UTC. Monthly,
+ * quarterly and yearly runs keep the day of month of the start date, falling back to
+ * the last day of shorter months (a template starting on the 31st runs on Feb 28/29).
+ */
+
+import type { RecurrenceFrequency } from '@prisma/client';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly',
+};
+
+const MONTHS_PER_RUN: Record<Exclude<RecurrenceFrequency, 'WEEKLY'>, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12,
+};
+
+/**
+ * Start of the UTC day for a date
+ */
+export function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Run date following `current` for a schedule anchored on `startDate`
+ */
+export function nextRunAfter(
+  frequency: RecurrenceFrequency,
+  startDate: Date,
+  current: Date
+): Date {
+  if (frequency === 'WEEKLY') {
+    return new Date(utcDay(current).getTime() + 7 * 24 * 60 * 60 * 1000);
+  }
+
+  const anchorDay = startDate.getUTCDate();
+  const monthIndex = current.getUTCMonth() + MONTHS_PER_RUN[frequency];
+  const year = current.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(anchorDay, daysInMonth)));
+}
+
+/**
+ * Next `count` run dates starting at `nextRunDate`, stopping after `endDate`
+ */
+export function upcomingRunDates(
+  schedule: {
+    frequency: RecurrenceFrequency;
+    startDate: Date;
+    endDate: Date | null;
+    nextRunDate: Date | null;
+  },
+  count: number
+): Date[] {
+  const dates: Date[] = [];
+  let runDate = schedule.nextRunDate ? utcDay(new Date(schedule.nextRunDate)) : null;
+  const startDate = new Date(schedule.startDate);
+  const endDate = schedule.endDate ? new Date(schedule.endDate) : null;
+
+  while (runDate && dates.length < count) {
+    if (endDate && runDate > endDate) break;
+    dates.push(runDate);
+    runDate = nextRunAfter(schedule.frequency, startDate, runDate);
+  }
+
+  return dates;
+}
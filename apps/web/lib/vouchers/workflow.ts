@@ -2,8 +2,21 @@ import { prisma } from '@accounting/db';
 import { VoucherStatus, UserRole } from '@prisma/client';
 import { createAuditLog } from '@/lib/audit';
 import { createDiff, createAuditSnapshot } from '@/lib/audit/diff';
-import { validateVoucherBalance, isLeafAccount, generateVoucherNumber } from '@/lib/voucher';
+import {
+  validateVoucherBalance,
+  isLeafAccount,
+  generateVoucherNumber,
+  resolvePostingVoucherNumber,
+} from '@/lib/voucher';
 import { syncPurchaseStatusWithVoucher } from '@/lib/purchases/purchaseAccounting.server';
+import { assertPurchaseMatchCleared } from '@/lib/purchases/threeWayMatch.server';
+import { getPeriodLockError, getPostingLockError } from '@/lib/accounting/periods.server';
+import { reverseFiscalYearCloseForVoucher } from '@/lib/accounting/yearEndClose.server';
+import {
+  canApproveStep,
+  getApprovalProgress,
+  resolveApprovalChain,
+} from '@/lib/vouchers/approvals';
 import { NextRequest } from 'next/server';
 
 export interface WorkflowResult {
@@ -120,6 +133,10 @@ export async function submitVoucher(
       return { success: false, error: balanceCheck.error };
     }
 
+    // Fix the approval chain now so later rule changes don't affect vouchers in flight
+    const totalAmount = voucher.lines.reduce((sum, line) => sum + Number(line.debit), 0);
+    const chain = await resolveApprovalChain(tx, companyId, voucher.type, totalAmount);
+
     const before = createAuditSnapshot(voucher);
 
     // Update voucher
@@ -129,6 +146,9 @@ export async function submitVoucher(
         status: 'SUBMITTED',
         submittedAt: new Date(),
         submittedById: userId,
+        approvalSteps: chain.steps,
+        approvalStepsDone: 0,
+        approvalRuleId: chain.ruleId,
       },
       include: {
         project: { select: { id: true, name: true } },
@@ -164,7 +184,8 @@ export async function submitVoucher(
 }
 
 /**
- * Approve a voucher (SUBMITTED → APPROVED)
+ * Approve the next step of a voucher's approval chain.
+ * The voucher moves SUBMITTED → APPROVED once the final step is approved.
  */
 export async function approveVoucher(
   voucherId: string,
@@ -173,6 +194,20 @@ export async function approveVoucher(
   role: UserRole,
   request?: NextRequest
 ): Promise<WorkflowResult> {
+  // A bill against a purchase order must pass the three-way match before approval,
+  // whichever route approves its voucher
+  const purchase = await prisma.purchase.findFirst({
+    where: { voucherId, companyId },
+    select: { id: true },
+  });
+  if (purchase) {
+    try {
+      await assertPurchaseMatchCleared(companyId, purchase.id);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Three-way match failed' };
+    }
+  }
+
   return await prisma.$transaction(async (tx) => {
     const voucher = await tx.voucher.findUnique({
       where: { id: voucherId },
@@ -180,6 +215,7 @@ export async function approveVoucher(
         lines: {
           include: { account: true },
         },
+        approvals: true,
       },
     });
 
@@ -201,16 +237,53 @@ export async function approveVoucher(
       return { success: false, error: permissionCheck.reason };
     }
 
+    const progress = getApprovalProgress(voucher, voucher.approvals);
+    const stepCheck = canApproveStep(role, userId, voucher, progress);
+    if (!stepCheck.allowed) {
+      return { success: false, error: stepCheck.reason };
+    }
+
+    // Refuse vouchers dated inside a closed period or fiscal year
+    const lockError = await getPostingLockError(companyId, voucher.date, tx);
+    if (lockError) {
+      return { success: false, error: lockError };
+    }
+
+    // Claim the step, so two approvers acting at once cannot both take it
+    const claimed = await tx.voucher.updateMany({
+      where: { id: voucherId, status: 'SUBMITTED', approvalStepsDone: progress.completed.length },
+      data: { approvalStepsDone: { increment: 1 } },
+    });
+    if (claimed.count === 0) {
+      return { success: false, error: 'Voucher was updated by someone else; please reload' };
+    }
+
     const before = createAuditSnapshot(voucher);
 
+    await tx.voucherApproval.create({
+      data: {
+        companyId,
+        voucherId,
+        step: progress.nextStep!,
+        requiredRole: progress.nextRole,
+        action: 'APPROVED',
+        userId,
+      },
+    });
+
+    // Only the final step moves the voucher to APPROVED
+    const isFinalStep = progress.nextStep === progress.totalSteps;
+
     // Update voucher
     const updated = await tx.voucher.update({
       where: { id: voucherId },
-      data: {
-        status: 'APPROVED',
-        approvedAt: new Date(),
-        approvedById: userId,
-      },
+      data: isFinalStep
+        ? {
+            status: 'APPROVED',
+            approvedAt: new Date(),
+            approvedById: userId,
+          }
+        : {},
       include: {
         project: { select: { id: true, name: true } },
         createdBy: { select: { id: true, name: true, email: true } },
@@ -235,6 +308,99 @@ export async function approveVoucher(
       before,
       after,
       diffJson: diff,
+      metadata: {
+        approvalStep: progress.nextStep,
+        totalSteps: progress.totalSteps,
+      },
+      request,
+    });
+
+    // Sync purchase status if voucher is linked to a purchase
+    await syncPurchaseStatusWithVoucher(voucherId, companyId);
+
+    return { success: true, voucher: updated };
+  });
+}
+
+/**
+ * Reject a submitted voucher (SUBMITTED → DRAFT) with a reason.
+ * The creator can then edit and re-submit, which restarts the approval chain.
+ */
+export async function rejectVoucher(
+  voucherId: string,
+  userId: string,
+  companyId: string,
+  role: UserRole,
+  reason: string,
+  request?: NextRequest
+): Promise<WorkflowResult> {
+  return await prisma.$transaction(async (tx) => {
+    const voucher = await tx.voucher.findUnique({
+      where: { id: voucherId },
+      include: {
+        approvals: true,
+      },
+    });
+
+    if (!voucher || voucher.companyId !== companyId) {
+      return { success: false, error: 'Voucher not found' };
+    }
+
+    if (voucher.status !== 'SUBMITTED' || !isValidTransition(voucher.status, 'DRAFT')) {
+      return {
+        success: false,
+        error: `Cannot reject voucher with status ${voucher.status}. Only SUBMITTED vouchers can be rejected.`,
+      };
+    }
+
+    const progress = getApprovalProgress(voucher, voucher.approvals);
+    if (voucher.createdByUserId === userId) {
+      return { success: false, error: 'You cannot reject a voucher you created' };
+    }
+    // Only the approver of the current step can reject at that step
+    const stepCheck = canApproveStep(role, userId, voucher, progress);
+    if (!stepCheck.allowed) {
+      return { success: false, error: stepCheck.reason };
+    }
+
+    // Send it back only if no one has acted on it in the meantime
+    const claimed = await tx.voucher.updateMany({
+      where: { id: voucherId, status: 'SUBMITTED', approvalStepsDone: progress.completed.length },
+      data: { status: 'DRAFT' },
+    });
+    if (claimed.count === 0) {
+      return { success: false, error: 'Voucher was updated by someone else; please reload' };
+    }
+
+    const before = createAuditSnapshot(voucher);
+
+    await tx.voucherApproval.create({
+      data: {
+        companyId,
+        voucherId,
+        step: progress.nextStep ?? progress.totalSteps,
+        requiredRole: progress.nextRole,
+        action: 'REJECTED',
+        userId,
+        reason,
+      },
+    });
+
+    const updated = await tx.voucher.findUniqueOrThrow({ where: { id: voucherId } });
+
+    const after = createAuditSnapshot(updated);
+    const diff = createDiff(before, after);
+
+    await createAuditLog({
+      companyId,
+      actorUserId: userId,
+      entityType: 'VOUCHER',
+      entityId: voucherId,
+      action: 'STATUS_CHANGE',
+      before,
+      after,
+      diffJson: diff,
+      metadata: { rejectionReason: reason },
       request,
     });
 
@@ -283,6 +449,12 @@ export async function postVoucher(
       return { success: false, error: permissionCheck.reason };
     }
 
+    // Refuse vouchers dated inside a closed period or fiscal year
+    const lockError = await getPostingLockError(companyId, voucher.date, tx);
+    if (lockError) {
+      return { success: false, error: lockError };
+    }
+
     // Validate balance
     const balanceCheck = validateVoucherBalance(
       voucher.lines.map((line) => ({
@@ -316,10 +488,14 @@ export async function postVoucher(
 
     const before = createAuditSnapshot(voucher);
 
+    // Drafts carry a provisional number; the series number is issued now
+    const voucherNo = await resolvePostingVoucherNumber(tx, companyId, voucher);
+
     // Update voucher
     const updated = await tx.voucher.update({
       where: { id: voucherId },
       data: {
+        voucherNo,
         status: 'POSTED',
         postedAt: new Date(),
         postedByUserId: userId,
@@ -426,8 +602,28 @@ export async function reverseVoucher(
     const reversalDescription =
       options?.description || `Reversal of ${originalVoucher.voucherNo}`;
 
+    // The reversal voucher is posted immediately, so its date must fall in an open period
+    // and outside a closed fiscal year. Reversing a closing entry reopens its own year, so
+    // only the period lock applies to it.
+    const lockError = originalVoucher.isClosingEntry
+      ? await getPeriodLockError(companyId, reversalDate, tx)
+      : await getPostingLockError(companyId, reversalDate, tx);
+    if (lockError) {
+      return { success: false, error: lockError };
+    }
+
+    // Reversing a year-end closing entry undoes that fiscal year close
+    const fiscalYearError = await reverseFiscalYearCloseForVoucher(tx, companyId, voucherId);
+    if (fiscalYearError) {
+      return { success: false, error: fiscalYearError };
+    }
+
     // Generate reversal voucher number
-    const reversalVoucherNo = await generateVoucherNumber(companyId, reversalDate);
+    const reversalVoucherNo = await generateVoucherNumber(tx, companyId, {
+      date: reversalDate,
+      type: originalVoucher.type,
+      projectId: originalVoucher.projectId,
+    });
 
     const before = createAuditSnapshot(originalVoucher);
 
@@ -448,6 +644,7 @@ export async function reverseVoucher(
         reversalOfId: voucherId,
         reversedById: userId,
         reversedAt: new Date(),
+        isClosingEntry: originalVoucher.isClosingEntry,
         lines: {
           create: originalVoucher.lines.map((line) => ({
             companyId,
@@ -456,6 +653,11 @@ export async function reverseVoucher(
             // Swap debit and credit (negate)
             debit: line.credit,
             credit: line.debit,
+            // Reverse at the original rate so the base amounts cancel exactly
+            currencyCode: line.currencyCode,
+            exchangeRate: line.exchangeRate,
+            fxDebit: line.fxCredit,
+            fxCredit: line.fxDebit,
             projectId: line.projectId,
             vendorId: line.vendorId,
             paymentMethodId: line.paymentMethodId,
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "AccountingPeriodStatus" AS ENUM ('OPEN', 'CLOSED', 'LOCKED');
+
+-- CreateTable
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "month" DATE NOT NULL,
+    "status" "AccountingPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "closing_snapshot" JSONB,
+    "closed_at" TIMESTAMP(3),
+    "closed_by_id" TEXT,
+    "reopened_at" TIMESTAMP(3),
+    "reopened_by_id" TEXT,
+    "reopen_reason" TEXT,
+    "locked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accounting_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_company_id_month_key" ON "accounting_periods"("company_id", "month");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_company_id_status_idx" ON "accounting_periods"("company_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_closed_by_id_fkey" FOREIGN KEY ("closed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_reopened_by_id_fkey" FOREIGN KEY ("reopened_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "FiscalYearCloseStatus" AS ENUM ('CLOSED', 'REVERSED');
+
+-- AlterTable
+ALTER TABLE "vouchers" ADD COLUMN "is_closing_entry" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "fiscal_year_closes" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3) NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "net_profit" DECIMAL(18,2) NOT NULL,
+    "status" "FiscalYearCloseStatus" NOT NULL DEFAULT 'CLOSED',
+    "created_by_id" TEXT NOT NULL,
+    "reversed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fiscal_year_closes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fiscal_year_closes_voucher_id_key" ON "fiscal_year_closes"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "fiscal_year_closes_company_id_end_date_idx" ON "fiscal_year_closes"("company_id", "end_date");
+
+-- CreateIndex
+CREATE INDEX "fiscal_year_closes_company_id_status_idx" ON "fiscal_year_closes"("company_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "fiscal_year_closes" ADD CONSTRAINT "fiscal_year_closes_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fiscal_year_closes" ADD CONSTRAINT "fiscal_year_closes_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fiscal_year_closes" ADD CONSTRAINT "fiscal_year_closes_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
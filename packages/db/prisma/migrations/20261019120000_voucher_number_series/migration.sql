@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "voucher_number_series" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "voucher_type" "VoucherType",
+    "project_id" TEXT,
+    "prefix_template" TEXT NOT NULL,
+    "padding" INTEGER NOT NULL DEFAULT 6,
+    "fiscal_year_start_month" INTEGER NOT NULL DEFAULT 1,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_number_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "voucher_number_counters" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "last_number" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_number_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "voucher_number_series_company_id_is_active_idx" ON "voucher_number_series"("company_id", "is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "voucher_number_counters_company_id_prefix_key" ON "voucher_number_counters"("company_id", "prefix");
+
+-- AddForeignKey
+ALTER TABLE "voucher_number_series" ADD CONSTRAINT "voucher_number_series_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_number_series" ADD CONSTRAINT "voucher_number_series_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_number_counters" ADD CONSTRAINT "voucher_number_counters_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
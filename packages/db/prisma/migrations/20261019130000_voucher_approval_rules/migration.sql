@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "VoucherApprovalAction" AS ENUM ('APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "vouchers" ADD COLUMN "approval_steps" "UserRole"[],
+ADD COLUMN "approval_rule_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "voucher_approval_rules" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "voucher_type" "VoucherType",
+    "min_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "approver_roles" "UserRole"[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "voucher_approval_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "voucher_approvals" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "step" INTEGER NOT NULL,
+    "required_role" "UserRole",
+    "action" "VoucherApprovalAction" NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "voucher_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "voucher_approval_rules_company_id_is_active_idx" ON "voucher_approval_rules"("company_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "voucher_approvals_voucher_id_created_at_idx" ON "voucher_approvals"("voucher_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_approval_rule_id_fkey" FOREIGN KEY ("approval_rule_id") REFERENCES "voucher_approval_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_approval_rules" ADD CONSTRAINT "voucher_approval_rules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_approvals" ADD CONSTRAINT "voucher_approvals_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_approvals" ADD CONSTRAINT "voucher_approvals_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "voucher_approvals" ADD CONSTRAINT "voucher_approvals_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY');
+
+-- AlterTable
+ALTER TABLE "vouchers" ADD COLUMN "recurring_template_id" TEXT,
+ADD COLUMN "recurring_run_date" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "recurring_voucher_templates" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "VoucherType" NOT NULL DEFAULT 'JOURNAL',
+    "narration" TEXT,
+    "project_id" TEXT,
+    "expense_type" "ExpenseType",
+    "lines" JSONB NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "end_date" TIMESTAMP(3),
+    "next_run_date" TIMESTAMP(3),
+    "is_paused" BOOLEAN NOT NULL DEFAULT false,
+    "last_run_at" TIMESTAMP(3),
+    "last_error" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_voucher_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vouchers_recurring_template_id_idx" ON "vouchers"("recurring_template_id");
+
+-- CreateIndex
+CREATE INDEX "recurring_voucher_templates_company_id_next_run_date_idx" ON "recurring_voucher_templates"("company_id", "next_run_date");
+
+-- AddForeignKey
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_recurring_template_id_fkey" FOREIGN KEY ("recurring_template_id") REFERENCES "recurring_voucher_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_voucher_templates" ADD CONSTRAINT "recurring_voucher_templates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_voucher_templates" ADD CONSTRAINT "recurring_voucher_templates_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_voucher_templates" ADD CONSTRAINT "recurring_voucher_templates_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "BankMatchMethod" AS ENUM ('AUTO', 'MANUAL', 'CREATED');
+
+-- CreateTable
+CREATE TABLE "bank_statements" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "account_id" TEXT NOT NULL,
+    "statement_date" TIMESTAMP(3) NOT NULL,
+    "opening_balance" DECIMAL(18,2),
+    "closing_balance" DECIMAL(18,2) NOT NULL,
+    "file_name" TEXT,
+    "imported_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "statement_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "description" TEXT,
+    "reference" TEXT,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "balance" DECIMAL(18,2),
+    "voucher_line_id" TEXT,
+    "match_method" "BankMatchMethod",
+    "matched_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statements_company_id_account_id_statement_date_idx" ON "bank_statements"("company_id", "account_id", "statement_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_voucher_line_id_key" ON "bank_statement_lines"("voucher_line_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_statement_id_idx" ON "bank_statement_lines"("statement_id");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_company_id_date_idx" ON "bank_statement_lines"("company_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_account_id_fkey" FOREIGN KEY ("account_id") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statements" ADD CONSTRAINT "bank_statements_imported_by_id_fkey" FOREIGN KEY ("imported_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_statement_id_fkey" FOREIGN KEY ("statement_id") REFERENCES "bank_statements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_voucher_line_id_fkey" FOREIGN KEY ("voucher_line_id") REFERENCES "voucher_lines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
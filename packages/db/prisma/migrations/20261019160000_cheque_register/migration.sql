@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "ChequeStatus" AS ENUM ('ISSUED', 'PRESENTED', 'CLEARED', 'BOUNCED', 'CANCELLED', 'STALE');
+
+-- CreateEnum
+CREATE TYPE "ChequeDirection" AS ENUM ('OUTGOING', 'INCOMING');
+
+-- CreateTable
+CREATE TABLE "cheques" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "voucher_line_id" TEXT NOT NULL,
+    "direction" "ChequeDirection" NOT NULL,
+    "cheque_no" TEXT NOT NULL,
+    "bank_name" TEXT NOT NULL,
+    "payee" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "issue_date" TIMESTAMP(3) NOT NULL,
+    "cheque_date" TIMESTAMP(3) NOT NULL,
+    "status" "ChequeStatus" NOT NULL DEFAULT 'ISSUED',
+    "presented_at" TIMESTAMP(3),
+    "cleared_at" TIMESTAMP(3),
+    "bounced_at" TIMESTAMP(3),
+    "status_note" TEXT,
+    "reversal_voucher_id" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cheques_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cheques_voucher_line_id_key" ON "cheques"("voucher_line_id");
+
+-- CreateIndex
+CREATE INDEX "cheques_company_id_status_cheque_date_idx" ON "cheques"("company_id", "status", "cheque_date");
+
+-- CreateIndex
+CREATE INDEX "cheques_company_id_cheque_no_idx" ON "cheques"("company_id", "cheque_no");
+
+-- AddForeignKey
+ALTER TABLE "cheques" ADD CONSTRAINT "cheques_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cheques" ADD CONSTRAINT "cheques_voucher_line_id_fkey" FOREIGN KEY ("voucher_line_id") REFERENCES "voucher_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cheques" ADD CONSTRAINT "cheques_reversal_voucher_id_fkey" FOREIGN KEY ("reversal_voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cheques" ADD CONSTRAINT "cheques_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
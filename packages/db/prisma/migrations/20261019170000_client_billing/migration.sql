@@ -0,0 +1,116 @@
+-- CreateEnum
+CREATE TYPE "ClientBillBasis" AS ENUM ('PROGRESS', 'MEASURED');
+
+-- CreateEnum
+CREATE TYPE "ClientBillStatus" AS ENUM ('DRAFT', 'ISSUED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "client_bills" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "bill_no" INTEGER NOT NULL,
+    "bill_date" TIMESTAMP(3) NOT NULL,
+    "due_date" TIMESTAMP(3),
+    "basis" "ClientBillBasis" NOT NULL,
+    "progress_percent" DECIMAL(5,2),
+    "cumulative_amount" DECIMAL(18,2) NOT NULL,
+    "previous_amount" DECIMAL(18,2) NOT NULL,
+    "gross_amount" DECIMAL(18,2) NOT NULL,
+    "vat_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "vat_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "ait_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "ait_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "retention_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "retention_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "net_amount" DECIMAL(18,2) NOT NULL,
+    "status" "ClientBillStatus" NOT NULL DEFAULT 'DRAFT',
+    "voucher_id" TEXT,
+    "notes" TEXT,
+    "issued_at" TIMESTAMP(3),
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_bill_items" (
+    "id" TEXT NOT NULL,
+    "bill_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT,
+    "quantity" DECIMAL(18,3) NOT NULL,
+    "rate" DECIMAL(18,2) NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "client_bill_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_bill_collections" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "bill_id" TEXT NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "net_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "retention_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_bill_collections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_bills_voucher_id_key" ON "client_bills"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "client_bills_company_id_status_idx" ON "client_bills"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "client_bills_company_id_bill_date_idx" ON "client_bills"("company_id", "bill_date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_bills_project_id_bill_no_key" ON "client_bills"("project_id", "bill_no");
+
+-- CreateIndex
+CREATE INDEX "client_bill_items_bill_id_idx" ON "client_bill_items"("bill_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_bill_collections_voucher_id_key" ON "client_bill_collections"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "client_bill_collections_bill_id_idx" ON "client_bill_collections"("bill_id");
+
+-- CreateIndex
+CREATE INDEX "client_bill_collections_company_id_date_idx" ON "client_bill_collections"("company_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "client_bills" ADD CONSTRAINT "client_bills_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bills" ADD CONSTRAINT "client_bills_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bills" ADD CONSTRAINT "client_bills_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bills" ADD CONSTRAINT "client_bills_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bill_items" ADD CONSTRAINT "client_bill_items_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "client_bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bill_collections" ADD CONSTRAINT "client_bill_collections_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bill_collections" ADD CONSTRAINT "client_bill_collections_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "client_bills"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bill_collections" ADD CONSTRAINT "client_bill_collections_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_bill_collections" ADD CONSTRAINT "client_bill_collections_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "WithholdingServiceType" AS ENUM ('SUPPLY', 'CONSTRUCTION', 'SERVICE', 'RENT', 'TRANSPORT', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "WithholdingTaxType" AS ENUM ('VAT', 'AIT');
+
+-- AlterTable
+ALTER TABLE "vendors" ADD COLUMN     "service_type" "WithholdingServiceType",
+ADD COLUMN     "tin" TEXT,
+ADD COLUMN     "bin" TEXT;
+
+-- CreateTable
+CREATE TABLE "withholding_tax_rates" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "service_type" "WithholdingServiceType",
+    "vendor_id" TEXT,
+    "vat_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "ait_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "withholding_tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "withholding_deductions" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "vendor_id" TEXT NOT NULL,
+    "source_line_id" TEXT,
+    "bill_ref" TEXT,
+    "tax_type" "WithholdingTaxType" NOT NULL,
+    "base_amount" DECIMAL(18,2) NOT NULL,
+    "rate_percent" DECIMAL(5,2) NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "challan_no" TEXT,
+    "challan_date" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "withholding_deductions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "withholding_tax_rates_company_id_is_active_idx" ON "withholding_tax_rates"("company_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "withholding_deductions_company_id_tax_type_idx" ON "withholding_deductions"("company_id", "tax_type");
+
+-- CreateIndex
+CREATE INDEX "withholding_deductions_voucher_id_idx" ON "withholding_deductions"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "withholding_deductions_vendor_id_idx" ON "withholding_deductions"("vendor_id");
+
+-- AddForeignKey
+ALTER TABLE "withholding_tax_rates" ADD CONSTRAINT "withholding_tax_rates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withholding_tax_rates" ADD CONSTRAINT "withholding_tax_rates_vendor_id_fkey" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withholding_deductions" ADD CONSTRAINT "withholding_deductions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withholding_deductions" ADD CONSTRAINT "withholding_deductions_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withholding_deductions" ADD CONSTRAINT "withholding_deductions_vendor_id_fkey" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "withholding_deductions" ADD CONSTRAINT "withholding_deductions_source_line_id_fkey" FOREIGN KEY ("source_line_id") REFERENCES "voucher_lines"("id") ON DELETE SET NULL ON UPDATE CASCADE;
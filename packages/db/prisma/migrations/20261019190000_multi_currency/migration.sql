@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "base_currency" TEXT NOT NULL DEFAULT 'BDT';
+
+-- AlterTable
+ALTER TABLE "voucher_lines" ADD COLUMN     "currency_code" TEXT,
+ADD COLUMN     "exchange_rate" DECIMAL(18,6),
+ADD COLUMN     "fx_credit" DECIMAL(18,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "fx_debit" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "vendor_allocations" ADD COLUMN     "exchange_rate" DECIMAL(18,6),
+ADD COLUMN     "fx_amount" DECIMAL(18,2),
+ADD COLUMN     "fx_gain_loss" DECIMAL(18,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "rate" DECIMAL(18,6) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_company_id_currency_idx" ON "exchange_rates"("company_id", "currency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_company_id_currency_date_key" ON "exchange_rates"("company_id", "currency", "date");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "StockTransferStatus" AS ENUM ('IN_TRANSIT', 'RECEIVED');
+
+-- CreateTable
+CREATE TABLE "stock_transfers" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "transfer_no" INTEGER NOT NULL,
+    "source_project_id" TEXT NOT NULL,
+    "destination_project_id" TEXT NOT NULL,
+    "status" "StockTransferStatus" NOT NULL DEFAULT 'IN_TRANSIT',
+    "dispatch_date" TIMESTAMP(3) NOT NULL,
+    "received_date" TIMESTAMP(3),
+    "notes" TEXT,
+    "receipt_notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "received_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_transfer_lines" (
+    "id" TEXT NOT NULL,
+    "transfer_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "qty_sent" DECIMAL(18,3) NOT NULL,
+    "unit_cost" DECIMAL(18,2) NOT NULL,
+    "qty_received" DECIMAL(18,3),
+    "shortfall_qty" DECIMAL(18,3),
+
+    CONSTRAINT "stock_transfer_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_transfers_company_id_transfer_no_key" ON "stock_transfers"("company_id", "transfer_no");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_company_id_status_idx" ON "stock_transfers"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_source_project_id_idx" ON "stock_transfers"("source_project_id");
+
+-- CreateIndex
+CREATE INDEX "stock_transfers_destination_project_id_idx" ON "stock_transfers"("destination_project_id");
+
+-- CreateIndex
+CREATE INDEX "stock_transfer_lines_transfer_id_idx" ON "stock_transfer_lines"("transfer_id");
+
+-- CreateIndex
+CREATE INDEX "stock_transfer_lines_stock_item_id_idx" ON "stock_transfer_lines"("stock_item_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_source_project_id_fkey" FOREIGN KEY ("source_project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_destination_project_id_fkey" FOREIGN KEY ("destination_project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfers" ADD CONSTRAINT "stock_transfers_received_by_id_fkey" FOREIGN KEY ("received_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_lines" ADD CONSTRAINT "stock_transfer_lines_transfer_id_fkey" FOREIGN KEY ("transfer_id") REFERENCES "stock_transfers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_transfer_lines" ADD CONSTRAINT "stock_transfer_lines_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,116 @@
+-- CreateEnum
+CREATE TYPE "StockLocationType" AS ENUM ('WAREHOUSE', 'PROJECT_SITE');
+
+-- CreateTable
+CREATE TABLE "stock_locations" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "type" "StockLocationType" NOT NULL,
+    "project_id" TEXT,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "stock_balances" ADD COLUMN "location_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN "location_id" TEXT;
+
+-- Backfill: a default warehouse per company and a site location per project with stock
+INSERT INTO "stock_locations" ("id", "company_id", "name", "type", "is_default", "updated_at")
+SELECT gen_random_uuid()::text, "id", 'Central Store', 'WAREHOUSE', true, CURRENT_TIMESTAMP
+FROM "companies";
+
+INSERT INTO "stock_locations" ("id", "company_id", "name", "type", "project_id", "updated_at")
+SELECT gen_random_uuid()::text, p."company_id", p."name" || ' site', 'PROJECT_SITE', p."id", CURRENT_TIMESTAMP
+FROM "projects" p
+WHERE EXISTS (SELECT 1 FROM "stock_movements" m WHERE m."project_id" = p."id");
+
+-- Backfill: movements with a project happened at its site, the rest at the default warehouse
+UPDATE "stock_movements" m
+SET "location_id" = l."id"
+FROM "stock_locations" l
+WHERE l."project_id" = m."project_id";
+
+UPDATE "stock_movements" m
+SET "location_id" = l."id"
+FROM "stock_locations" l
+WHERE m."location_id" IS NULL AND l."company_id" = m."company_id" AND l."is_default";
+
+-- Backfill: existing company balances move to the default warehouse, less what is on hand at sites
+UPDATE "stock_balances" b
+SET "location_id" = l."id"
+FROM "stock_locations" l
+WHERE l."company_id" = b."company_id" AND l."is_default";
+
+INSERT INTO "stock_balances" ("id", "company_id", "stock_item_id", "location_id", "on_hand_qty", "avg_cost", "updated_at")
+SELECT gen_random_uuid()::text, s."company_id", s."stock_item_id", s."location_id", s."qty", COALESCE(b."avg_cost", 0), CURRENT_TIMESTAMP
+FROM (
+    SELECT m."company_id", m."stock_item_id", m."location_id",
+        GREATEST(SUM(CASE
+            WHEN m."type" = 'IN' THEN m."qty"
+            WHEN m."type" = 'OUT' THEN -m."qty"
+            WHEN m."type" = 'ADJUST' AND m."qty" < 0 THEN m."qty"
+            ELSE 0
+        END), 0) AS "qty"
+    FROM "stock_movements" m
+    JOIN "stock_locations" l ON l."id" = m."location_id"
+    WHERE l."type" = 'PROJECT_SITE'
+    GROUP BY m."company_id", m."stock_item_id", m."location_id"
+) s
+LEFT JOIN "stock_balances" b ON b."company_id" = s."company_id" AND b."stock_item_id" = s."stock_item_id";
+
+UPDATE "stock_balances" b
+SET "on_hand_qty" = GREATEST(b."on_hand_qty" - s."qty", 0)
+FROM (
+    SELECT sb."company_id", sb."stock_item_id", SUM(sb."on_hand_qty") AS "qty"
+    FROM "stock_balances" sb
+    JOIN "stock_locations" l ON l."id" = sb."location_id"
+    WHERE l."type" = 'PROJECT_SITE'
+    GROUP BY sb."company_id", sb."stock_item_id"
+) s, "stock_locations" dl
+WHERE dl."id" = b."location_id" AND dl."is_default"
+    AND s."company_id" = b."company_id" AND s."stock_item_id" = b."stock_item_id";
+
+-- AlterTable
+ALTER TABLE "stock_balances" ALTER COLUMN "location_id" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "stock_balances_company_id_stock_item_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_locations_project_id_key" ON "stock_locations"("project_id");
+
+-- CreateIndex
+CREATE INDEX "stock_locations_company_id_idx" ON "stock_locations"("company_id");
+
+-- CreateIndex
+CREATE INDEX "stock_locations_company_id_name_idx" ON "stock_locations"("company_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_balances_company_id_stock_item_id_location_id_key" ON "stock_balances"("company_id", "stock_item_id", "location_id");
+
+-- CreateIndex
+CREATE INDEX "stock_balances_location_id_idx" ON "stock_balances"("location_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_company_id_location_id_idx" ON "stock_movements"("company_id", "location_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_locations" ADD CONSTRAINT "stock_locations_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_locations" ADD CONSTRAINT "stock_locations_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_balances" ADD CONSTRAINT "stock_balances_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "stock_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
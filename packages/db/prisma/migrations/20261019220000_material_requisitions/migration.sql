@@ -0,0 +1,68 @@
+-- CreateEnum
+CREATE TYPE "MaterialRequisitionStatus" AS ENUM ('PENDING', 'APPROVED', 'PARTIALLY_APPROVED', 'REJECTED', 'ISSUED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "material_requisitions" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "requisition_no" INTEGER NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "status" "MaterialRequisitionStatus" NOT NULL DEFAULT 'PENDING',
+    "request_date" TIMESTAMP(3) NOT NULL,
+    "required_by" TIMESTAMP(3),
+    "notes" TEXT,
+    "requested_by_id" TEXT NOT NULL,
+    "decided_by_id" TEXT,
+    "decided_at" TIMESTAMP(3),
+    "decision_notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "material_requisitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "material_requisition_lines" (
+    "id" TEXT NOT NULL,
+    "requisition_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "qty_requested" DECIMAL(18,3) NOT NULL,
+    "qty_approved" DECIMAL(18,3),
+    "qty_issued" DECIMAL(18,3) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+
+    CONSTRAINT "material_requisition_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "material_requisitions_company_id_requisition_no_key" ON "material_requisitions"("company_id", "requisition_no");
+
+-- CreateIndex
+CREATE INDEX "material_requisitions_company_id_status_idx" ON "material_requisitions"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "material_requisitions_project_id_idx" ON "material_requisitions"("project_id");
+
+-- CreateIndex
+CREATE INDEX "material_requisition_lines_requisition_id_idx" ON "material_requisition_lines"("requisition_id");
+
+-- CreateIndex
+CREATE INDEX "material_requisition_lines_stock_item_id_idx" ON "material_requisition_lines"("stock_item_id");
+
+-- AddForeignKey
+ALTER TABLE "material_requisitions" ADD CONSTRAINT "material_requisitions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "material_requisitions" ADD CONSTRAINT "material_requisitions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "material_requisitions" ADD CONSTRAINT "material_requisitions_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "material_requisitions" ADD CONSTRAINT "material_requisitions_decided_by_id_fkey" FOREIGN KEY ("decided_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "material_requisition_lines" ADD CONSTRAINT "material_requisition_lines_requisition_id_fkey" FOREIGN KEY ("requisition_id") REFERENCES "material_requisitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "material_requisition_lines" ADD CONSTRAINT "material_requisition_lines_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,151 @@
+-- CreateEnum
+CREATE TYPE "PurchaseOrderStatus" AS ENUM ('OPEN', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "PurchaseMatchStatus" AS ENUM ('MATCHED', 'VARIANCE', 'ACCEPTED');
+
+-- AlterTable
+ALTER TABLE "purchases" ADD COLUMN     "match_accepted_at" TIMESTAMP(3),
+ADD COLUMN     "match_accepted_by_id" TEXT,
+ADD COLUMN     "match_checked_at" TIMESTAMP(3),
+ADD COLUMN     "match_notes" TEXT,
+ADD COLUMN     "match_status" "PurchaseMatchStatus",
+ADD COLUMN     "match_variances" JSONB,
+ADD COLUMN     "purchase_order_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "purchase_orders" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "po_no" INTEGER NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "supplier_vendor_id" TEXT NOT NULL,
+    "status" "PurchaseOrderStatus" NOT NULL DEFAULT 'OPEN',
+    "order_date" TIMESTAMP(3) NOT NULL,
+    "expected_date" TIMESTAMP(3),
+    "notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "closed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "purchase_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "purchase_order_lines" (
+    "id" TEXT NOT NULL,
+    "purchase_order_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "qty_ordered" DECIMAL(18,3) NOT NULL,
+    "agreed_rate" DECIMAL(18,2) NOT NULL,
+    "delivery_date" TIMESTAMP(3),
+    "qty_received" DECIMAL(18,3) NOT NULL DEFAULT 0,
+    "notes" TEXT,
+
+    CONSTRAINT "purchase_order_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goods_receipts" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "grn_no" INTEGER NOT NULL,
+    "purchase_order_id" TEXT NOT NULL,
+    "receipt_date" TIMESTAMP(3) NOT NULL,
+    "challan_no" TEXT,
+    "notes" TEXT,
+    "received_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "goods_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "goods_receipt_lines" (
+    "id" TEXT NOT NULL,
+    "goods_receipt_id" TEXT NOT NULL,
+    "purchase_order_line_id" TEXT NOT NULL,
+    "qty" DECIMAL(18,3) NOT NULL,
+    "stock_movement_id" TEXT,
+
+    CONSTRAINT "goods_receipt_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "purchases_purchase_order_id_idx" ON "purchases"("purchase_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_orders_company_id_po_no_key" ON "purchase_orders"("company_id", "po_no");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_company_id_status_idx" ON "purchase_orders"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_company_id_supplier_vendor_id_idx" ON "purchase_orders"("company_id", "supplier_vendor_id");
+
+-- CreateIndex
+CREATE INDEX "purchase_orders_project_id_idx" ON "purchase_orders"("project_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_order_lines_purchase_order_id_stock_item_id_key" ON "purchase_order_lines"("purchase_order_id", "stock_item_id");
+
+-- CreateIndex
+CREATE INDEX "purchase_order_lines_stock_item_id_idx" ON "purchase_order_lines"("stock_item_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goods_receipts_company_id_grn_no_key" ON "goods_receipts"("company_id", "grn_no");
+
+-- CreateIndex
+CREATE INDEX "goods_receipts_purchase_order_id_idx" ON "goods_receipts"("purchase_order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "goods_receipt_lines_stock_movement_id_key" ON "goods_receipt_lines"("stock_movement_id");
+
+-- CreateIndex
+CREATE INDEX "goods_receipt_lines_goods_receipt_id_idx" ON "goods_receipt_lines"("goods_receipt_id");
+
+-- CreateIndex
+CREATE INDEX "goods_receipt_lines_purchase_order_line_id_idx" ON "goods_receipt_lines"("purchase_order_line_id");
+
+-- AddForeignKey
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchases" ADD CONSTRAINT "purchases_match_accepted_by_id_fkey" FOREIGN KEY ("match_accepted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_supplier_vendor_id_fkey" FOREIGN KEY ("supplier_vendor_id") REFERENCES "vendors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_orders" ADD CONSTRAINT "purchase_orders_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_order_lines" ADD CONSTRAINT "purchase_order_lines_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_purchase_order_id_fkey" FOREIGN KEY ("purchase_order_id") REFERENCES "purchase_orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipts" ADD CONSTRAINT "goods_receipts_received_by_id_fkey" FOREIGN KEY ("received_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipt_lines" ADD CONSTRAINT "goods_receipt_lines_goods_receipt_id_fkey" FOREIGN KEY ("goods_receipt_id") REFERENCES "goods_receipts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipt_lines" ADD CONSTRAINT "goods_receipt_lines_purchase_order_line_id_fkey" FOREIGN KEY ("purchase_order_line_id") REFERENCES "purchase_order_lines"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "goods_receipt_lines" ADD CONSTRAINT "goods_receipt_lines_stock_movement_id_fkey" FOREIGN KEY ("stock_movement_id") REFERENCES "stock_movements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- CreateEnum
+CREATE TYPE "StockTakeStatus" AS ENUM ('COUNTING', 'SUBMITTED', 'POSTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "stock_takes" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "stock_take_no" INTEGER NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "project_id" TEXT,
+    "status" "StockTakeStatus" NOT NULL DEFAULT 'COUNTING',
+    "count_date" TIMESTAMP(3) NOT NULL,
+    "snapshot_at" TIMESTAMP(3) NOT NULL,
+    "notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "submitted_by_id" TEXT,
+    "submitted_at" TIMESTAMP(3),
+    "approved_by_id" TEXT,
+    "approved_at" TIMESTAMP(3),
+    "voucher_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_takes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_take_lines" (
+    "id" TEXT NOT NULL,
+    "stock_take_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "expected_qty" DECIMAL(18,3) NOT NULL,
+    "avg_cost" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "counted_qty" DECIMAL(18,3),
+    "notes" TEXT,
+
+    CONSTRAINT "stock_take_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_takes_voucher_id_key" ON "stock_takes"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "stock_takes_company_id_status_idx" ON "stock_takes"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "stock_takes_location_id_idx" ON "stock_takes"("location_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_takes_company_id_stock_take_no_key" ON "stock_takes"("company_id", "stock_take_no");
+
+-- CreateIndex
+CREATE INDEX "stock_take_lines_stock_take_id_idx" ON "stock_take_lines"("stock_take_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_take_lines_stock_take_id_stock_item_id_key" ON "stock_take_lines"("stock_take_id", "stock_item_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_approved_by_id_fkey" FOREIGN KEY ("approved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_takes" ADD CONSTRAINT "stock_takes_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_take_lines" ADD CONSTRAINT "stock_take_lines_stock_take_id_fkey" FOREIGN KEY ("stock_take_id") REFERENCES "stock_takes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_take_lines" ADD CONSTRAINT "stock_take_lines_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
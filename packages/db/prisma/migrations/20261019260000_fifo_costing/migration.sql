@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "CostingMethod" AS ENUM ('WEIGHTED_AVERAGE', 'FIFO');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "costing_method" "CostingMethod" NOT NULL DEFAULT 'WEIGHTED_AVERAGE';
+
+-- AlterTable
+ALTER TABLE "stock_items" ADD COLUMN     "costing_method" "CostingMethod";
+
+-- CreateTable
+CREATE TABLE "stock_cost_layers" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "location_id" TEXT NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL,
+    "qty_in" DECIMAL(18,3) NOT NULL,
+    "qty_remaining" DECIMAL(18,3) NOT NULL,
+    "unit_cost" DECIMAL(18,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_cost_layers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_cost_layers_company_id_stock_item_id_location_id_rece_idx" ON "stock_cost_layers"("company_id", "stock_item_id", "location_id", "received_at");
+
+-- AddForeignKey
+ALTER TABLE "stock_cost_layers" ADD CONSTRAINT "stock_cost_layers_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_cost_layers" ADD CONSTRAINT "stock_cost_layers_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_cost_layers" ADD CONSTRAINT "stock_cost_layers_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
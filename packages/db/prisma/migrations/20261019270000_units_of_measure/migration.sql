@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "entered_qty" DECIMAL(18,3),
+ADD COLUMN     "entered_unit" TEXT;
+
+-- CreateTable
+CREATE TABLE "units_of_measure" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "units_of_measure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_item_units" (
+    "id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "unit_id" TEXT NOT NULL,
+    "factor" DECIMAL(18,6) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_item_units_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "units_of_measure_company_id_code_key" ON "units_of_measure"("company_id", "code");
+
+-- CreateIndex
+CREATE INDEX "units_of_measure_company_id_idx" ON "units_of_measure"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_item_units_stock_item_id_unit_id_key" ON "stock_item_units"("stock_item_id", "unit_id");
+
+-- CreateIndex
+CREATE INDEX "stock_item_units_unit_id_idx" ON "stock_item_units"("unit_id");
+
+-- AddForeignKey
+ALTER TABLE "units_of_measure" ADD CONSTRAINT "units_of_measure_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_item_units" ADD CONSTRAINT "stock_item_units_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_item_units" ADD CONSTRAINT "stock_item_units_unit_id_fkey" FOREIGN KEY ("unit_id") REFERENCES "units_of_measure"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
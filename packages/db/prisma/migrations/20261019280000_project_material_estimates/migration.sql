@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "project_material_estimates" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "floor" INTEGER,
+    "estimated_qty" DECIMAL(18,3) NOT NULL,
+    "estimated_rate" DECIMAL(18,2),
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "project_material_estimates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_material_estimates_company_id_project_id_idx" ON "project_material_estimates"("company_id", "project_id");
+
+-- CreateIndex
+CREATE INDEX "project_material_estimates_project_id_stock_item_id_idx" ON "project_material_estimates"("project_id", "stock_item_id");
+
+-- AddForeignKey
+ALTER TABLE "project_material_estimates" ADD CONSTRAINT "project_material_estimates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_material_estimates" ADD CONSTRAINT "project_material_estimates_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_material_estimates" ADD CONSTRAINT "project_material_estimates_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
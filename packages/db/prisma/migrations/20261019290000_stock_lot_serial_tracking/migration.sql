@@ -0,0 +1,94 @@
+-- CreateEnum
+CREATE TYPE "StockTrackingMode" AS ENUM ('NONE', 'BATCH', 'SERIAL');
+
+-- CreateEnum
+CREATE TYPE "StockSerialStatus" AS ENUM ('IN_STOCK', 'IN_TRANSIT', 'ISSUED');
+
+-- AlterTable
+ALTER TABLE "stock_items" ADD COLUMN     "tracking_mode" "StockTrackingMode" NOT NULL DEFAULT 'NONE';
+
+-- CreateTable
+CREATE TABLE "stock_lots" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "lot_number" TEXT NOT NULL,
+    "expiry_date" DATE,
+    "certificate_url" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_serials" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "stock_item_id" TEXT NOT NULL,
+    "serial_number" TEXT NOT NULL,
+    "status" "StockSerialStatus" NOT NULL DEFAULT 'IN_STOCK',
+    "location_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_serials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_movement_traces" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "movement_id" TEXT NOT NULL,
+    "lot_id" TEXT,
+    "serial_id" TEXT,
+    "qty" DECIMAL(18,3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movement_traces_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_lots_company_id_stock_item_id_lot_number_key" ON "stock_lots"("company_id", "stock_item_id", "lot_number");
+
+-- CreateIndex
+CREATE INDEX "stock_lots_company_id_lot_number_idx" ON "stock_lots"("company_id", "lot_number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_serials_company_id_stock_item_id_serial_number_key" ON "stock_serials"("company_id", "stock_item_id", "serial_number");
+
+-- CreateIndex
+CREATE INDEX "stock_serials_company_id_serial_number_idx" ON "stock_serials"("company_id", "serial_number");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_traces_movement_id_idx" ON "stock_movement_traces"("movement_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_traces_lot_id_idx" ON "stock_movement_traces"("lot_id");
+
+-- CreateIndex
+CREATE INDEX "stock_movement_traces_serial_id_idx" ON "stock_movement_traces"("serial_id");
+
+-- AddForeignKey
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_lots" ADD CONSTRAINT "stock_lots_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_serials" ADD CONSTRAINT "stock_serials_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_serials" ADD CONSTRAINT "stock_serials_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "stock_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_serials" ADD CONSTRAINT "stock_serials_location_id_fkey" FOREIGN KEY ("location_id") REFERENCES "stock_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement_traces" ADD CONSTRAINT "stock_movement_traces_movement_id_fkey" FOREIGN KEY ("movement_id") REFERENCES "stock_movements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement_traces" ADD CONSTRAINT "stock_movement_traces_lot_id_fkey" FOREIGN KEY ("lot_id") REFERENCES "stock_lots"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movement_traces" ADD CONSTRAINT "stock_movement_traces_serial_id_fkey" FOREIGN KEY ("serial_id") REFERENCES "stock_serials"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- AlterTable
+ALTER TABLE "project_labors" ADD COLUMN     "team_leader_id" TEXT,
+ADD COLUMN     "worker_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "workers" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "national_id" TEXT,
+    "trade" TEXT,
+    "default_daily_rate" DECIMAL(18,2),
+    "team_leader_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "worker_sites" (
+    "id" TEXT NOT NULL,
+    "worker_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "worker_sites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "project_labors_worker_id_idx" ON "project_labors"("worker_id");
+
+-- CreateIndex
+CREATE INDEX "workers_company_id_name_idx" ON "workers"("company_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workers_company_id_national_id_key" ON "workers"("company_id", "national_id");
+
+-- CreateIndex
+CREATE INDEX "worker_sites_project_id_idx" ON "worker_sites"("project_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "worker_sites_worker_id_project_id_key" ON "worker_sites"("worker_id", "project_id");
+
+-- AddForeignKey
+ALTER TABLE "project_labors" ADD CONSTRAINT "project_labors_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_labors" ADD CONSTRAINT "project_labors_team_leader_id_fkey" FOREIGN KEY ("team_leader_id") REFERENCES "workers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workers" ADD CONSTRAINT "workers_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "workers" ADD CONSTRAINT "workers_team_leader_id_fkey" FOREIGN KEY ("team_leader_id") REFERENCES "workers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "worker_sites" ADD CONSTRAINT "worker_sites_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "worker_sites" ADD CONSTRAINT "worker_sites_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('PRESENT', 'HALF_DAY', 'ABSENT');
+
+-- CreateTable
+CREATE TABLE "labor_attendance" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "worker_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "status" "AttendanceStatus" NOT NULL,
+    "overtime_hours" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "daily_rate" DECIMAL(18,2) NOT NULL,
+    "wage" DECIMAL(18,2) NOT NULL,
+    "labor_id" TEXT,
+    "recorded_by_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "labor_attendance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "labor_attendance_labor_id_key" ON "labor_attendance"("labor_id");
+
+-- CreateIndex
+CREATE INDEX "labor_attendance_company_id_project_id_date_idx" ON "labor_attendance"("company_id", "project_id", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "labor_attendance_project_id_worker_id_date_key" ON "labor_attendance"("project_id", "worker_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "labor_attendance" ADD CONSTRAINT "labor_attendance_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labor_attendance" ADD CONSTRAINT "labor_attendance_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labor_attendance" ADD CONSTRAINT "labor_attendance_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labor_attendance" ADD CONSTRAINT "labor_attendance_labor_id_fkey" FOREIGN KEY ("labor_id") REFERENCES "project_labors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "labor_attendance" ADD CONSTRAINT "labor_attendance_recorded_by_user_id_fkey" FOREIGN KEY ("recorded_by_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
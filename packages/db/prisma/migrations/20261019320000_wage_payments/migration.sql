@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "wage_payments" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "payment_account_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "narration" TEXT,
+    "created_by_user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "wage_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "wage_payment_allocations" (
+    "id" TEXT NOT NULL,
+    "wage_payment_id" TEXT NOT NULL,
+    "labor_id" TEXT NOT NULL,
+    "payee_name" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "wage_payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "wage_payments_voucher_id_key" ON "wage_payments"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "wage_payments_company_id_project_id_date_idx" ON "wage_payments"("company_id", "project_id", "date");
+
+-- CreateIndex
+CREATE INDEX "wage_payment_allocations_wage_payment_id_idx" ON "wage_payment_allocations"("wage_payment_id");
+
+-- CreateIndex
+CREATE INDEX "wage_payment_allocations_labor_id_idx" ON "wage_payment_allocations"("labor_id");
+
+-- AddForeignKey
+ALTER TABLE "wage_payments" ADD CONSTRAINT "wage_payments_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payments" ADD CONSTRAINT "wage_payments_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payments" ADD CONSTRAINT "wage_payments_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payments" ADD CONSTRAINT "wage_payments_payment_account_id_fkey" FOREIGN KEY ("payment_account_id") REFERENCES "accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payments" ADD CONSTRAINT "wage_payments_created_by_user_id_fkey" FOREIGN KEY ("created_by_user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payment_allocations" ADD CONSTRAINT "wage_payment_allocations_wage_payment_id_fkey" FOREIGN KEY ("wage_payment_id") REFERENCES "wage_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "wage_payment_allocations" ADD CONSTRAINT "wage_payment_allocations_labor_id_fkey" FOREIGN KEY ("labor_id") REFERENCES "project_labors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,172 @@
+-- CreateEnum
+CREATE TYPE "SubcontractStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "SubcontractBillStatus" AS ENUM ('DRAFT', 'CERTIFIED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "subcontracts" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "vendor_id" TEXT NOT NULL,
+    "work_order_no" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "order_date" TIMESTAMP(3) NOT NULL,
+    "completion_date" TIMESTAMP(3),
+    "contract_value" DECIMAL(18,2) NOT NULL,
+    "retention_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "status" "SubcontractStatus" NOT NULL DEFAULT 'ACTIVE',
+    "notes" TEXT,
+    "retention_release_voucher_id" TEXT,
+    "retention_released_at" TIMESTAMP(3),
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subcontracts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subcontract_items" (
+    "id" TEXT NOT NULL,
+    "subcontract_id" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "unit" TEXT,
+    "quantity" DECIMAL(18,3) NOT NULL,
+    "rate" DECIMAL(18,2) NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "subcontract_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subcontract_advances" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "subcontract_id" TEXT NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "subcontract_advances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subcontract_bills" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "subcontract_id" TEXT NOT NULL,
+    "bill_no" INTEGER NOT NULL,
+    "bill_date" TIMESTAMP(3) NOT NULL,
+    "is_final" BOOLEAN NOT NULL DEFAULT false,
+    "cumulative_amount" DECIMAL(18,2) NOT NULL,
+    "previous_amount" DECIMAL(18,2) NOT NULL,
+    "gross_amount" DECIMAL(18,2) NOT NULL,
+    "retention_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "retention_amount" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "advance_recovery" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "net_amount" DECIMAL(18,2) NOT NULL,
+    "status" "SubcontractBillStatus" NOT NULL DEFAULT 'DRAFT',
+    "voucher_id" TEXT,
+    "notes" TEXT,
+    "certified_at" TIMESTAMP(3),
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "subcontract_bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "subcontract_bill_items" (
+    "id" TEXT NOT NULL,
+    "bill_id" TEXT NOT NULL,
+    "item_id" TEXT NOT NULL,
+    "quantity" DECIMAL(18,3) NOT NULL,
+    "rate" DECIMAL(18,2) NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+
+    CONSTRAINT "subcontract_bill_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontracts_retention_release_voucher_id_key" ON "subcontracts"("retention_release_voucher_id");
+
+-- CreateIndex
+CREATE INDEX "subcontracts_company_id_vendor_id_idx" ON "subcontracts"("company_id", "vendor_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontracts_project_id_work_order_no_key" ON "subcontracts"("project_id", "work_order_no");
+
+-- CreateIndex
+CREATE INDEX "subcontract_items_subcontract_id_idx" ON "subcontract_items"("subcontract_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontract_advances_voucher_id_key" ON "subcontract_advances"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "subcontract_advances_subcontract_id_idx" ON "subcontract_advances"("subcontract_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontract_bills_voucher_id_key" ON "subcontract_bills"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "subcontract_bills_company_id_status_idx" ON "subcontract_bills"("company_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontract_bills_subcontract_id_bill_no_key" ON "subcontract_bills"("subcontract_id", "bill_no");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "subcontract_bill_items_bill_id_item_id_key" ON "subcontract_bill_items"("bill_id", "item_id");
+
+-- AddForeignKey
+ALTER TABLE "subcontracts" ADD CONSTRAINT "subcontracts_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontracts" ADD CONSTRAINT "subcontracts_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontracts" ADD CONSTRAINT "subcontracts_vendor_id_fkey" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontracts" ADD CONSTRAINT "subcontracts_retention_release_voucher_id_fkey" FOREIGN KEY ("retention_release_voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontracts" ADD CONSTRAINT "subcontracts_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_items" ADD CONSTRAINT "subcontract_items_subcontract_id_fkey" FOREIGN KEY ("subcontract_id") REFERENCES "subcontracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_advances" ADD CONSTRAINT "subcontract_advances_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_advances" ADD CONSTRAINT "subcontract_advances_subcontract_id_fkey" FOREIGN KEY ("subcontract_id") REFERENCES "subcontracts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_advances" ADD CONSTRAINT "subcontract_advances_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_advances" ADD CONSTRAINT "subcontract_advances_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bills" ADD CONSTRAINT "subcontract_bills_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bills" ADD CONSTRAINT "subcontract_bills_subcontract_id_fkey" FOREIGN KEY ("subcontract_id") REFERENCES "subcontracts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bills" ADD CONSTRAINT "subcontract_bills_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bills" ADD CONSTRAINT "subcontract_bills_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bill_items" ADD CONSTRAINT "subcontract_bill_items_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "subcontract_bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "subcontract_bill_items" ADD CONSTRAINT "subcontract_bill_items_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "subcontract_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
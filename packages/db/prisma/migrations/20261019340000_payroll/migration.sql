@@ -0,0 +1,182 @@
+-- CreateEnum
+CREATE TYPE "SalaryPaymentMode" AS ENUM ('CASH', 'BANK');
+
+-- CreateEnum
+CREATE TYPE "StaffAdvanceType" AS ENUM ('ADVANCE', 'LOAN');
+
+-- CreateEnum
+CREATE TYPE "PayrollRunStatus" AS ENUM ('DRAFT', 'POSTED', 'PAID', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "salary_structures" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "worker_id" TEXT NOT NULL,
+    "designation" TEXT,
+    "basic" DECIMAL(18,2) NOT NULL,
+    "house_rent" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "conveyance" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "mobile" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "project_id" TEXT,
+    "payment_mode" "SalaryPaymentMode" NOT NULL DEFAULT 'CASH',
+    "bank_name" TEXT,
+    "bank_account_no" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "salary_structures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "staff_advances" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "worker_id" TEXT NOT NULL,
+    "type" "StaffAdvanceType" NOT NULL,
+    "date" DATE NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+    "installment_amount" DECIMAL(18,2) NOT NULL,
+    "voucher_id" TEXT NOT NULL,
+    "notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "staff_advances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_runs" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "month" INTEGER NOT NULL,
+    "status" "PayrollRunStatus" NOT NULL DEFAULT 'DRAFT',
+    "voucher_id" TEXT,
+    "payment_voucher_id" TEXT,
+    "posted_at" TIMESTAMP(3),
+    "paid_at" TIMESTAMP(3),
+    "notes" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payroll_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_entries" (
+    "id" TEXT NOT NULL,
+    "run_id" TEXT NOT NULL,
+    "worker_id" TEXT NOT NULL,
+    "employee_name" TEXT NOT NULL,
+    "designation" TEXT,
+    "project_id" TEXT,
+    "basic" DECIMAL(18,2) NOT NULL,
+    "house_rent" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "conveyance" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "mobile" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "gross_pay" DECIMAL(18,2) NOT NULL,
+    "days_in_month" INTEGER NOT NULL,
+    "absent_days" DECIMAL(5,1) NOT NULL DEFAULT 0,
+    "absence_deduction" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "advance_deduction" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "loan_deduction" DECIMAL(18,2) NOT NULL DEFAULT 0,
+    "net_pay" DECIMAL(18,2) NOT NULL,
+    "payment_mode" "SalaryPaymentMode" NOT NULL,
+    "bank_name" TEXT,
+    "bank_account_no" TEXT,
+
+    CONSTRAINT "payroll_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_recoveries" (
+    "id" TEXT NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "advance_id" TEXT NOT NULL,
+    "amount" DECIMAL(18,2) NOT NULL,
+
+    CONSTRAINT "payroll_recoveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "salary_structures_worker_id_key" ON "salary_structures"("worker_id");
+
+-- CreateIndex
+CREATE INDEX "salary_structures_company_id_idx" ON "salary_structures"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "staff_advances_voucher_id_key" ON "staff_advances"("voucher_id");
+
+-- CreateIndex
+CREATE INDEX "staff_advances_company_id_worker_id_idx" ON "staff_advances"("company_id", "worker_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_runs_voucher_id_key" ON "payroll_runs"("voucher_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_runs_payment_voucher_id_key" ON "payroll_runs"("payment_voucher_id");
+
+-- CreateIndex
+CREATE INDEX "payroll_runs_company_id_year_month_idx" ON "payroll_runs"("company_id", "year", "month");
+
+-- CreateIndex
+CREATE INDEX "payroll_entries_worker_id_idx" ON "payroll_entries"("worker_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_entries_run_id_worker_id_key" ON "payroll_entries"("run_id", "worker_id");
+
+-- CreateIndex
+CREATE INDEX "payroll_recoveries_advance_id_idx" ON "payroll_recoveries"("advance_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_recoveries_entry_id_advance_id_key" ON "payroll_recoveries"("entry_id", "advance_id");
+
+-- AddForeignKey
+ALTER TABLE "salary_structures" ADD CONSTRAINT "salary_structures_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "salary_structures" ADD CONSTRAINT "salary_structures_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "salary_structures" ADD CONSTRAINT "salary_structures_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_advances" ADD CONSTRAINT "staff_advances_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_advances" ADD CONSTRAINT "staff_advances_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_advances" ADD CONSTRAINT "staff_advances_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "staff_advances" ADD CONSTRAINT "staff_advances_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_payment_voucher_id_fkey" FOREIGN KEY ("payment_voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_entries" ADD CONSTRAINT "payroll_entries_run_id_fkey" FOREIGN KEY ("run_id") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_entries" ADD CONSTRAINT "payroll_entries_worker_id_fkey" FOREIGN KEY ("worker_id") REFERENCES "workers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_entries" ADD CONSTRAINT "payroll_entries_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_recoveries" ADD CONSTRAINT "payroll_recoveries_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "payroll_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_recoveries" ADD CONSTRAINT "payroll_recoveries_advance_id_fkey" FOREIGN KEY ("advance_id") REFERENCES "staff_advances"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
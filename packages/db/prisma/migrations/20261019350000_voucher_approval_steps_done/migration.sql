@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "vouchers" ADD COLUMN "approval_steps_done" INTEGER NOT NULL DEFAULT 0;
+
+-- Carry over the steps already approved on vouchers awaiting approval
+UPDATE "vouchers" AS v
+SET "approval_steps_done" = (
+    SELECT COUNT(DISTINCT a."step")
+    FROM "voucher_approvals" a
+    WHERE a."voucher_id" = v."id"
+      AND a."action" = 'APPROVED'
+      AND a."created_at" >= v."submitted_at"
+)
+WHERE v."status" = 'SUBMITTED';
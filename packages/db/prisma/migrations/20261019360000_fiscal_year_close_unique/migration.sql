@@ -0,0 +1,3 @@
+-- CreateIndex
+-- One active close per fiscal year end; reversed closes may repeat it
+CREATE UNIQUE INDEX "fiscal_year_closes_company_id_end_date_closed_key" ON "fiscal_year_closes"("company_id", "end_date") WHERE "status" = 'CLOSED';
@@ -0,0 +1,3 @@
+-- CreateIndex
+-- One payroll run per month that is not cancelled
+CREATE UNIQUE INDEX "payroll_runs_company_id_year_month_active_key" ON "payroll_runs"("company_id", "year", "month") WHERE "status" <> 'CANCELLED';
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "document_number_counters" (
+    "id" TEXT NOT NULL,
+    "company_id" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "last_number" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "document_number_counters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "document_number_counters_company_id_scope_key" ON "document_number_counters"("company_id", "scope");
+
+-- AddForeignKey
+ALTER TABLE "document_number_counters" ADD CONSTRAINT "document_number_counters_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
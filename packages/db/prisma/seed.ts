@@ -227,14 +227,20 @@ async function seedCompany(name: string): Promise<SeedContext> {
     { code: '1020', name: 'Bank', type: AccountType.ASSET, parentCode: '1000' },
     { code: '1030', name: 'Accounts Receivable', type: AccountType.ASSET, parentCode: '1000' },
     { code: '1040', name: 'Equipment', type: AccountType.ASSET, parentCode: '1000' },
+    { code: '1050', name: 'Retention Receivable', type: AccountType.ASSET, parentCode: '1000' },
+    { code: '1060', name: 'Advance Income Tax (AIT)', type: AccountType.ASSET, parentCode: '1000' },
+    { code: '1070', name: 'VAT Deducted at Source', type: AccountType.ASSET, parentCode: '1000' },
     { code: '2000', name: 'Liabilities', type: AccountType.LIABILITY },
     { code: '2010', name: 'Accounts Payable', type: AccountType.LIABILITY, parentCode: '2000' },
     { code: '2020', name: 'Advance from Client', type: AccountType.LIABILITY, parentCode: '2000' },
+    { code: '2040', name: 'VAT Deducted at Source Payable', type: AccountType.LIABILITY, parentCode: '2000' },
+    { code: '2050', name: 'AIT Deducted at Source Payable', type: AccountType.LIABILITY, parentCode: '2000' },
     { code: '3000', name: 'Equity', type: AccountType.EQUITY },
     { code: '3010', name: 'Retained Earnings', type: AccountType.EQUITY, parentCode: '3000' },
     { code: '3020', name: 'Capital', type: AccountType.EQUITY, parentCode: '3000' },
     { code: '4000', name: 'Income', type: AccountType.INCOME },
     { code: '4010', name: 'Contract Revenue', type: AccountType.INCOME, parentCode: '4000' },
+    { code: '4020', name: 'Foreign Exchange Gain', type: AccountType.INCOME, parentCode: '4000' },
     { code: '5000', name: 'Expenses', type: AccountType.EXPENSE },
     { code: '5010', name: 'Direct Materials', type: AccountType.EXPENSE, parentCode: '5000' },
     { code: '5020', name: 'Direct Labor', type: AccountType.EXPENSE, parentCode: '5000' },
@@ -243,6 +249,7 @@ async function seedCompany(name: string): Promise<SeedContext> {
     { code: '5050', name: 'Utilities', type: AccountType.EXPENSE, parentCode: '5000' },
     { code: '5060', name: 'Fuel', type: AccountType.EXPENSE, parentCode: '5000' },
     { code: '5070', name: 'Equipment Rental', type: AccountType.EXPENSE, parentCode: '5000' },
+    { code: '5080', name: 'Foreign Exchange Loss', type: AccountType.EXPENSE, parentCode: '5000' },
     { code: '5090', name: 'Misc Expense', type: AccountType.EXPENSE, parentCode: '5000' },
   ];
 
@@ -65,15 +65,19 @@ export {
   VoucherCreateSchema,
   VoucherUpdateSchema,
   VoucherListFiltersSchema,
+  VoucherRejectSchema,
   VoucherLineCreateSchema,
   VoucherLineUpdateSchema,
   VoucherStatusEnum,
+  VoucherTypeEnum,
   type VoucherCreate,
   type VoucherUpdate,
   type VoucherListFilters,
+  type VoucherReject,
   type VoucherLineCreate,
   type VoucherLineUpdate,
   type VoucherStatus,
+  type VoucherType,
 } from './schemas/voucher';
 
 // Project ledger schemas
@@ -94,6 +98,12 @@ export {
   PurchaseStatusEnum,
   PurchaseLineTypeEnum,
   PurchasePaymentMethodEnum,
+  PurchaseOrderStatusEnum,
+  PurchaseOrderCreateSchema,
+  GoodsReceiptCreateSchema,
+  PurchaseOrderStatusActionSchema,
+  PurchaseMatchActionSchema,
+  PurchaseOrderListFiltersSchema,
   type PurchaseCreate,
   type PurchaseUpdate,
   type PurchaseListFilters,
@@ -102,6 +112,12 @@ export {
   type PurchaseStatus,
   type PurchaseLineType,
   type PurchasePaymentMethod,
+  type PurchaseOrderStatus,
+  type PurchaseOrderCreate,
+  type GoodsReceiptCreate,
+  type PurchaseOrderStatusAction,
+  type PurchaseMatchAction,
+  type PurchaseOrderListFilters,
 } from './schemas/purchase';
 
 // Expense schemas
@@ -118,6 +134,9 @@ export {
 
 // Stock schemas
 export {
+  CostingMethodSchema,
+  StockTrackingModeSchema,
+  StockTrackingSchema,
   StockItemCreateSchema,
   StockItemUpdateSchema,
   StockItemListFiltersSchema,
@@ -126,6 +145,28 @@ export {
   StockMovementAdjustSchema,
   StockBalanceListFiltersSchema,
   StockMovementListFiltersSchema,
+  StockLocationCreateSchema,
+  StockLocationUpdateSchema,
+  MaterialRequisitionCreateSchema,
+  MaterialRequisitionApproveSchema,
+  MaterialRequisitionListFiltersSchema,
+  StockTransferCreateSchema,
+  StockTransferReceiveSchema,
+  ReorderSuggestionFiltersSchema,
+  ReorderGenerateSchema,
+  StockTakeCreateSchema,
+  StockTakeCountsSchema,
+  StockTakeWorkflowSchema,
+  StockTakeListFiltersSchema,
+  InventoryValuationFiltersSchema,
+  UnitOfMeasureCreateSchema,
+  UnitOfMeasureUpdateSchema,
+  StockItemUnitsSchema,
+  ProjectMaterialEstimateSchema,
+  StockTraceFiltersSchema,
+  type CostingMethod,
+  type StockTrackingMode,
+  type StockTracking,
   type StockItemCreate,
   type StockItemUpdate,
   type StockItemListFilters,
@@ -134,6 +175,25 @@ export {
   type StockMovementAdjust,
   type StockBalanceListFilters,
   type StockMovementListFilters,
+  type StockLocationCreate,
+  type StockLocationUpdate,
+  type MaterialRequisitionCreate,
+  type MaterialRequisitionApprove,
+  type MaterialRequisitionListFilters,
+  type StockTransferCreate,
+  type StockTransferReceive,
+  type ReorderSuggestionFilters,
+  type ReorderGenerate,
+  type StockTakeCreate,
+  type StockTakeCounts,
+  type StockTakeWorkflow,
+  type StockTakeListFilters,
+  type InventoryValuationFilters,
+  type UnitOfMeasureCreate,
+  type UnitOfMeasureUpdate,
+  type StockItemUnits,
+  type ProjectMaterialEstimate,
+  type StockTraceFilters,
 } from './schemas/stock';
 
 // Investment schemas
@@ -152,12 +212,50 @@ export {
   ProjectLaborUpdateSchema,
   ProjectLaborListFiltersSchema,
   ProjectLaborTypeEnum,
+  WorkerCreateSchema,
+  WorkerUpdateSchema,
+  WorkerListFiltersSchema,
+  WorkerNameMergeSchema,
+  AttendanceStatusSchema,
+  AttendanceSheetFiltersSchema,
+  AttendanceSheetSaveSchema,
+  WagePaymentCreateSchema,
   type ProjectLaborCreate,
   type ProjectLaborUpdate,
   type ProjectLaborListFilters,
   type ProjectLaborType,
+  type WorkerCreate,
+  type WorkerUpdate,
+  type WorkerListFilters,
+  type WorkerNameMerge,
+  type AttendanceStatus,
+  type AttendanceSheetFilters,
+  type AttendanceSheetSave,
+  type WagePaymentCreate,
 } from './schemas/labor';
 
+// Payroll schemas
+export {
+  SalaryPaymentModeEnum,
+  StaffAdvanceTypeEnum,
+  PayrollRunStatusEnum,
+  SalaryStructureSaveSchema,
+  StaffAdvanceCreateSchema,
+  PayrollRunCreateSchema,
+  PayrollEntryUpdateSchema,
+  PayrollRunPostSchema,
+  PayrollRunPaySchema,
+  type SalaryPaymentMode,
+  type StaffAdvanceType,
+  type PayrollRunStatus,
+  type SalaryStructureSave,
+  type StaffAdvanceCreate,
+  type PayrollRunCreate,
+  type PayrollEntryUpdate,
+  type PayrollRunPost,
+  type PayrollRunPay,
+} from './schemas/payroll';
+
 // Credit schemas
 export {
   CreditCreateSchema,
@@ -167,3 +265,148 @@ export {
   type CreditUpdate,
   type CreditListFilters,
 } from './schemas/credit';
+
+// Accounting period schemas
+export {
+  AccountingPeriodStatusEnum,
+  AccountingPeriodCloseSchema,
+  AccountingPeriodReopenSchema,
+  AccountingPeriodChangesFiltersSchema,
+  type AccountingPeriodStatus,
+  type AccountingPeriodClose,
+  type AccountingPeriodReopen,
+  type AccountingPeriodChangesFilters,
+} from './schemas/accountingPeriod';
+
+// Fiscal year close schemas
+export {
+  FiscalYearCloseStatusEnum,
+  FiscalYearClosePreviewSchema,
+  FiscalYearCloseCreateSchema,
+  type FiscalYearCloseStatus,
+  type FiscalYearClosePreview,
+  type FiscalYearCloseCreate,
+} from './schemas/fiscalYearClose';
+
+// Voucher numbering series schemas
+export {
+  VoucherNumberSeriesCreateSchema,
+  VoucherNumberSeriesUpdateSchema,
+  type VoucherNumberSeriesCreate,
+  type VoucherNumberSeriesUpdate,
+} from './schemas/voucherNumberSeries';
+
+// Voucher approval rule schemas
+export {
+  VoucherApprovalRuleCreateSchema,
+  VoucherApprovalRuleUpdateSchema,
+  type VoucherApprovalRuleCreate,
+  type VoucherApprovalRuleUpdate,
+} from './schemas/voucherApprovalRule';
+
+// Recurring voucher schemas
+export {
+  RecurrenceFrequencyEnum,
+  RecurringVoucherTemplateCreateSchema,
+  RecurringVoucherTemplateUpdateSchema,
+  RecurringVoucherGenerateSchema,
+  type RecurrenceFrequency,
+  type RecurringVoucherTemplateCreate,
+  type RecurringVoucherTemplateUpdate,
+  type RecurringVoucherGenerate,
+} from './schemas/recurringVoucher';
+
+// Bank reconciliation schemas
+export {
+  BankStatementImportOptionsSchema,
+  BankAutoMatchSchema,
+  BankStatementLineMatchSchema,
+  BankStatementLineVoucherSchema,
+  type BankStatementImportOptions,
+  type BankAutoMatch,
+  type BankStatementLineMatch,
+  type BankStatementLineVoucher,
+} from './schemas/bankReconciliation';
+
+// Cheque register schemas
+export {
+  ChequeStatusEnum,
+  ChequeDirectionEnum,
+  ChequeCreateSchema,
+  ChequeUpdateSchema,
+  ChequeStatusUpdateSchema,
+  type ChequeStatus,
+  type ChequeDirection,
+  type ChequeCreate,
+  type ChequeUpdate,
+  type ChequeStatusUpdate,
+} from './schemas/cheque';
+
+// Client billing schemas
+export {
+  ClientBillBasisEnum,
+  ClientBillStatusEnum,
+  ClientBillItemSchema,
+  ClientBillCreateSchema,
+  ClientBillUpdateSchema,
+  ClientBillCollectionSchema,
+  type ClientBillBasis,
+  type ClientBillStatus,
+  type ClientBillItem,
+  type ClientBillCreate,
+  type ClientBillUpdate,
+  type ClientBillCollection,
+} from './schemas/clientBill';
+
+// Subcontract schemas
+export {
+  SubcontractStatusEnum,
+  SubcontractBillStatusEnum,
+  SubcontractItemSchema,
+  SubcontractCreateSchema,
+  SubcontractUpdateSchema,
+  SubcontractAdvanceCreateSchema,
+  SubcontractBillCreateSchema,
+  SubcontractRetentionReleaseSchema,
+  type SubcontractStatus,
+  type SubcontractBillStatus,
+  type SubcontractItem,
+  type SubcontractCreate,
+  type SubcontractUpdate,
+  type SubcontractAdvanceCreate,
+  type SubcontractBillCreate,
+  type SubcontractRetentionRelease,
+} from './schemas/subcontract';
+
+// Withholding tax schemas
+export {
+  WithholdingServiceTypeEnum,
+  WithholdingTaxTypeEnum,
+  WithholdingTaxRateCreateSchema,
+  WithholdingTaxRateUpdateSchema,
+  WithholdingRatesSchema,
+  WithholdingChallanSchema,
+  type WithholdingServiceType,
+  type WithholdingTaxType,
+  type WithholdingTaxRateCreate,
+  type WithholdingTaxRateUpdate,
+  type WithholdingRates,
+  type WithholdingChallan,
+} from './schemas/withholdingTax';
+
+// Currency schemas
+export {
+  CurrencyCodeSchema,
+  ExchangeRateCreateSchema,
+  ExchangeRateLookupSchema,
+  type ExchangeRateCreate,
+  type ExchangeRateLookup,
+} from './schemas/currency';
+
+// Notification schemas
+export {
+  NotificationListFiltersSchema,
+  NotificationMarkReadSchema,
+  type NotificationListFilters,
+  type NotificationMarkRead,
+} from './schemas/notification';
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+/**
+ * Accounting period status enum values
+ */
+export const AccountingPeriodStatusEnum = z.enum(['OPEN', 'CLOSED', 'LOCKED']);
+
+/**
+ * Month in YYYY-MM format (e.g. 2026-01)
+ */
+const PeriodMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format');
+
+/**
+ * Schema for closing an accounting period
+ */
+export const AccountingPeriodCloseSchema = z.object({
+  month: PeriodMonthSchema,
+});
+
+/**
+ * Schema for reopening a closed accounting period
+ */
+export const AccountingPeriodReopenSchema = z.object({
+  reason: z.string().trim().min(5, 'Please give a reason for reopening (at least 5 characters)'),
+});
+
+/**
+ * Schema for the period changes query
+ */
+export const AccountingPeriodChangesFiltersSchema = z.object({
+  month: PeriodMonthSchema,
+});
+
+// Inferred TypeScript types
+export type AccountingPeriodStatus = z.infer<typeof AccountingPeriodStatusEnum>;
+export type AccountingPeriodClose = z.infer<typeof AccountingPeriodCloseSchema>;
+export type AccountingPeriodReopen = z.infer<typeof AccountingPeriodReopenSchema>;
+export type AccountingPeriodChangesFilters = z.infer<typeof AccountingPeriodChangesFiltersSchema>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+/**
+ * Column mapping and statement details for a bank statement import.
+ * Amounts come either from one signed amount column or from separate
+ * deposit / withdrawal columns.
+ */
+export const BankStatementImportOptionsSchema = z.object({
+  accountId: z.string().min(1, 'Bank account is required'),
+  statementDate: z.coerce.date(),
+  closingBalance: z.number({ invalid_type_error: 'Closing balance is required' }),
+  openingBalance: z.number().optional().nullable(),
+  dateColumn: z.string().min(1, 'Date column is required'),
+  descriptionColumn: z.string().optional().nullable(),
+  referenceColumn: z.string().optional().nullable(),
+  amountColumn: z.string().optional().nullable(),
+  depositColumn: z.string().optional().nullable(),
+  withdrawalColumn: z.string().optional().nullable(),
+  balanceColumn: z.string().optional().nullable(),
+}).refine(
+  (data) => !!data.amountColumn || !!data.depositColumn || !!data.withdrawalColumn,
+  { message: 'Map an amount column, or deposit and withdrawal columns' }
+);
+
+/**
+ * Schema for auto-matching a statement
+ */
+export const BankAutoMatchSchema = z.object({
+  dateWindowDays: z.number().int().min(0).max(60).default(7),
+});
+
+/**
+ * Schema for manually matching a statement line to a voucher line
+ */
+export const BankStatementLineMatchSchema = z.object({
+  voucherLineId: z.string().min(1, 'Voucher line is required'),
+});
+
+/**
+ * Schema for creating a voucher from an unmatched statement line
+ */
+export const BankStatementLineVoucherSchema = z.object({
+  contraAccountId: z.string().min(1, 'Account is required'),
+  narration: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type BankStatementImportOptions = z.infer<typeof BankStatementImportOptionsSchema>;
+export type BankAutoMatch = z.infer<typeof BankAutoMatchSchema>;
+export type BankStatementLineMatch = z.infer<typeof BankStatementLineMatchSchema>;
+export type BankStatementLineVoucher = z.infer<typeof BankStatementLineVoucherSchema>;
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+/**
+ * Cheque status enum values
+ */
+export const ChequeStatusEnum = z.enum([
+  'ISSUED',
+  'PRESENTED',
+  'CLEARED',
+  'BOUNCED',
+  'CANCELLED',
+  'STALE',
+]);
+
+/**
+ * Cheque direction enum values (OUTGOING = issued on a PAYMENT, INCOMING = received on a RECEIPT)
+ */
+export const ChequeDirectionEnum = z.enum(['OUTGOING', 'INCOMING']);
+
+/**
+ * Schema for registering a cheque against a voucher line
+ */
+export const ChequeCreateSchema = z.object({
+  voucherLineId: z.string().min(1, 'Voucher line is required'),
+  chequeNo: z.string().trim().min(1, 'Cheque number is required'),
+  bankName: z.string().trim().min(1, 'Bank is required'),
+  payee: z.string().trim().min(1, 'Payee is required'),
+  issueDate: z.coerce.date(),
+  chequeDate: z.coerce.date(),
+});
+
+/**
+ * Schema for correcting cheque details while the cheque is still ISSUED
+ */
+export const ChequeUpdateSchema = z.object({
+  chequeNo: z.string().trim().min(1, 'Cheque number is required').optional(),
+  bankName: z.string().trim().min(1, 'Bank is required').optional(),
+  payee: z.string().trim().min(1, 'Payee is required').optional(),
+  issueDate: z.coerce.date().optional(),
+  chequeDate: z.coerce.date().optional(),
+});
+
+/**
+ * Schema for moving a cheque to a new status
+ */
+export const ChequeStatusUpdateSchema = z.object({
+  status: ChequeStatusEnum.exclude(['ISSUED']),
+  date: z.coerce.date().optional(),
+  note: z.string().trim().optional().nullable(),
+}).refine(
+  (data) => data.status !== 'BOUNCED' || (data.note?.length ?? 0) >= 3,
+  { message: 'Bounce reason is required' }
+);
+
+// Inferred TypeScript types
+export type ChequeStatus = z.infer<typeof ChequeStatusEnum>;
+export type ChequeDirection = z.infer<typeof ChequeDirectionEnum>;
+export type ChequeCreate = z.infer<typeof ChequeCreateSchema>;
+export type ChequeUpdate = z.infer<typeof ChequeUpdateSchema>;
+export type ChequeStatusUpdate = z.infer<typeof ChequeStatusUpdateSchema>;
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+/**
+ * Client bill basis enum values (PROGRESS = % of contract value, MEASURED = measured work items)
+ */
+export const ClientBillBasisEnum = z.enum(['PROGRESS', 'MEASURED']);
+
+/**
+ * Client bill status enum values
+ */
+export const ClientBillStatusEnum = z.enum(['DRAFT', 'ISSUED', 'CANCELLED']);
+
+const percentSchema = z.coerce
+  .number()
+  .min(0, 'Percentage cannot be negative')
+  .max(100, 'Percentage cannot exceed 100');
+
+/**
+ * Schema for a measured work item on a running-account bill. Quantity and rate are
+ * cumulative to date; the bill charges the increase over the previous bill.
+ */
+export const ClientBillItemSchema = z.object({
+  description: z.string().trim().min(1, 'Item description is required'),
+  unit: z.string().trim().optional().nullable(),
+  quantity: z.coerce.number().positive('Quantity must be greater than 0'),
+  rate: z.coerce.number().nonnegative('Rate cannot be negative'),
+});
+
+const clientBillBaseSchema = z.object({
+  billDate: z.coerce.date(),
+  dueDate: z.coerce.date().optional().nullable(),
+  basis: ClientBillBasisEnum,
+  progressPercent: percentSchema.optional().nullable(),
+  items: z.array(ClientBillItemSchema).optional().default([]),
+  vatPercent: percentSchema.default(0),
+  aitPercent: percentSchema.default(0),
+  retentionPercent: percentSchema.default(0),
+  notes: z.string().trim().optional().nullable(),
+});
+
+/**
+ * Schema for creating a running-account bill for a project
+ */
+export const ClientBillCreateSchema = clientBillBaseSchema
+  .refine((data) => data.basis !== 'PROGRESS' || data.progressPercent != null, {
+    message: 'Progress percentage is required for progress bills',
+    path: ['progressPercent'],
+  })
+  .refine((data) => data.basis !== 'MEASURED' || data.items.length > 0, {
+    message: 'At least one measured item is required',
+    path: ['items'],
+  })
+  .refine(
+    (data) => data.vatPercent + data.aitPercent + data.retentionPercent < 100,
+    { message: 'Deductions must be less than 100% of the bill' }
+  );
+
+/**
+ * Schema for updating a DRAFT bill
+ */
+export const ClientBillUpdateSchema = clientBillBaseSchema.partial();
+
+/**
+ * Schema for recording a collection against an issued bill
+ */
+export const ClientBillCollectionSchema = z.object({
+  date: z.coerce.date(),
+  accountId: z.string().min(1, 'Receiving account is required'),
+  paymentMethodId: z.string().optional().nullable(),
+  netAmount: z.coerce.number().nonnegative('Amount cannot be negative').default(0),
+  retentionAmount: z.coerce.number().nonnegative('Amount cannot be negative').default(0),
+  narration: z.string().trim().optional().nullable(),
+}).refine((data) => data.netAmount + data.retentionAmount > 0, {
+  message: 'Collection amount must be greater than 0',
+});
+
+// Inferred TypeScript types
+export type ClientBillBasis = z.infer<typeof ClientBillBasisEnum>;
+export type ClientBillStatus = z.infer<typeof ClientBillStatusEnum>;
+export type ClientBillItem = z.infer<typeof ClientBillItemSchema>;
+export type ClientBillCreate = z.infer<typeof ClientBillCreateSchema>;
+export type ClientBillUpdate = z.infer<typeof ClientBillUpdateSchema>;
+export type ClientBillCollection = z.infer<typeof ClientBillCollectionSchema>;
@@ -1,10 +1,13 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './currency';
+import { CostingMethodSchema } from './stock';
 
 /**
  * Schema for creating a company
  */
 export const CompanyCreateSchema = z.object({
   name: z.string().min(1, 'Company name is required'),
+  baseCurrency: CurrencyCodeSchema.optional().default('BDT'),
   isActive: z.boolean().optional().default(true),
 });
 
@@ -13,6 +16,8 @@ export const CompanyCreateSchema = z.object({
  */
 export const CompanyUpdateSchema = z.object({
   name: z.string().min(1, 'Company name is required').optional(),
+  baseCurrency: CurrencyCodeSchema.optional(),
+  costingMethod: CostingMethodSchema.optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * ISO 4217 currency code (e.g. BDT, USD)
+ */
+export const CurrencyCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code');
+
+/**
+ * Schema for recording the exchange rate of a currency effective from a date.
+ * The rate is in base-currency units per one unit of the currency.
+ */
+export const ExchangeRateCreateSchema = z.object({
+  currency: CurrencyCodeSchema,
+  date: z.coerce.date(),
+  rate: z.coerce.number().positive('Rate must be greater than 0'),
+});
+
+/**
+ * Schema for looking up the rate effective on a date
+ */
+export const ExchangeRateLookupSchema = z.object({
+  currency: CurrencyCodeSchema,
+  date: z.coerce.date(),
+});
+
+// Inferred TypeScript types
+export type ExchangeRateCreate = z.infer<typeof ExchangeRateCreateSchema>;
+export type ExchangeRateLookup = z.infer<typeof ExchangeRateLookupSchema>;
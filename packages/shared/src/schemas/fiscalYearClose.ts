@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+/**
+ * Fiscal year close status enum values
+ */
+export const FiscalYearCloseStatusEnum = z.enum(['CLOSED', 'REVERSED']);
+
+/**
+ * Schema for previewing a fiscal year-end close
+ */
+export const FiscalYearClosePreviewSchema = z
+  .object({
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'Fiscal year start date must be on or before the end date',
+    path: ['endDate'],
+  });
+
+/**
+ * Schema for closing a fiscal year into retained earnings
+ */
+export const FiscalYearCloseCreateSchema = z
+  .object({
+    label: z.string().trim().min(1, 'Fiscal year label is required').max(50),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+  })
+  .refine((data) => data.startDate <= data.endDate, {
+    message: 'Fiscal year start date must be on or before the end date',
+    path: ['endDate'],
+  });
+
+// Inferred TypeScript types
+export type FiscalYearCloseStatus = z.infer<typeof FiscalYearCloseStatusEnum>;
+export type FiscalYearClosePreview = z.infer<typeof FiscalYearClosePreviewSchema>;
+export type FiscalYearCloseCreate = z.infer<typeof FiscalYearCloseCreateSchema>;
@@ -15,17 +15,23 @@ export const ProjectLaborCreateSchema = z
     note: z.string().optional().nullable(),
     workerName: z.string().optional().nullable(),
     employeeName: z.string().optional().nullable(),
+    // Worker register entry; its name is used as workerName / employeeName
+    workerId: z.string().optional().nullable(),
     month: z.number().int().min(1).max(12).optional().nullable(),
     year: z.number().int().optional().nullable(),
     // DAY / CONTRACT labor optional fields (CONTRACT uses workerName as contractor name)
     teamLeader: z.string().optional().nullable(),
+    teamLeaderId: z.string().optional().nullable(),
     paid: z.number().min(0).optional().default(0),
     rating: z.number().int().min(1).max(5).optional().nullable(),
   })
   .refine(
     (data) => {
       if (data.type === 'CONTRACT') {
-        return data.workerName != null && String(data.workerName).trim().length > 0;
+        return (
+          !!data.workerId ||
+          (data.workerName != null && String(data.workerName).trim().length > 0)
+        );
       }
       return true;
     },
@@ -42,10 +48,12 @@ export const ProjectLaborUpdateSchema = z.object({
   note: z.string().optional().nullable(),
   workerName: z.string().optional().nullable(),
   employeeName: z.string().optional().nullable(),
+  workerId: z.string().optional().nullable(),
   month: z.number().int().min(1).max(12).optional().nullable(),
   year: z.number().int().optional().nullable(),
   // DAY / CONTRACT labor optional fields
   teamLeader: z.string().optional().nullable(),
+  teamLeaderId: z.string().optional().nullable(),
   paid: z.number().min(0).optional(),
   rating: z.number().int().min(1).max(5).optional().nullable(),
 });
@@ -62,7 +70,126 @@ export const ProjectLaborListFiltersSchema = z.object({
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
 });
 
+/**
+ * Schema for adding a worker to the register
+ */
+export const WorkerCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  phone: z.string().trim().optional().nullable(),
+  nationalId: z.string().trim().optional().nullable(),
+  trade: z.string().trim().optional().nullable(),
+  defaultDailyRate: z.number().min(0, 'Daily rate cannot be negative').optional().nullable(),
+  teamLeaderId: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  // Projects the worker is currently deployed to
+  projectIds: z.array(z.string().min(1)).optional().default([]),
+});
+
+/**
+ * Schema for updating a worker
+ */
+export const WorkerUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  phone: z.string().trim().optional().nullable(),
+  nationalId: z.string().trim().optional().nullable(),
+  trade: z.string().trim().optional().nullable(),
+  defaultDailyRate: z.number().min(0, 'Daily rate cannot be negative').optional().nullable(),
+  teamLeaderId: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  isActive: z.boolean().optional(),
+  projectIds: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * Schema for filtering the worker register
+ */
+export const WorkerListFiltersSchema = z.object({
+  q: z.string().optional(),
+  projectId: z.string().optional(),
+  includeInactive: z.coerce.boolean().optional(),
+});
+
+/**
+ * Schema for linking free-text labor names to the worker register. Each group lists the
+ * names as typed on labor entries and either an existing worker or the name of a new one;
+ * groups given the same new name become one worker.
+ */
+export const WorkerNameMergeSchema = z.object({
+  groups: z
+    .array(
+      z
+        .object({
+          names: z.array(z.string()).min(1, 'Each group needs at least one name'),
+          workerId: z.string().optional().nullable(),
+          name: z.string().trim().optional().nullable(),
+        })
+        .refine((group) => !!group.workerId || !!group.name, {
+          message: 'Choose a worker or enter a name for each group',
+          path: ['name'],
+        })
+    )
+    .min(1, 'Select at least one name group to merge'),
+});
+
+export const AttendanceStatusSchema = z.enum(['PRESENT', 'HALF_DAY', 'ABSENT']);
+
+const attendanceDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+/**
+ * Schema for the days shown on an attendance sheet or muster roll
+ */
+export const AttendanceSheetFiltersSchema = z.object({
+  from: attendanceDate.optional(),
+  days: z.coerce.number().int().min(1).max(31).optional().default(7),
+});
+
+/**
+ * Schema for saving cells of an attendance sheet. A cell with no status clears the day;
+ * dailyRate overrides the worker's default daily rate.
+ */
+export const AttendanceSheetSaveSchema = z.object({
+  entries: z
+    .array(
+      z.object({
+        workerId: z.string().min(1, 'Worker is required'),
+        date: attendanceDate,
+        status: AttendanceStatusSchema.nullable(),
+        overtimeHours: z.number().min(0).max(16, 'Overtime cannot exceed 16 hours').optional().default(0),
+        dailyRate: z.number().positive('Daily rate must be positive').optional().nullable(),
+      })
+    )
+    .min(1, 'Nothing to save'),
+});
+
+/**
+ * Schema for paying wages on a project. Each payee is a worker payables key ("W|<workerId>"
+ * or "DAY|<name>") or a team leader ("TL|<workerId>") paid for the team. The amount settles
+ * the payee's oldest dues first, or only the labor entries listed in laborIds.
+ */
+export const WagePaymentCreateSchema = z.object({
+  date: attendanceDate,
+  paymentMethod: z.enum(['CASH', 'BANK']),
+  narration: z.string().trim().optional().nullable(),
+  payees: z
+    .array(
+      z.object({
+        payeeKey: z.string().min(1, 'Payee is required'),
+        amount: z.number().positive('Payment amount must be positive'),
+        laborIds: z.array(z.string()).optional(),
+      })
+    )
+    .min(1, 'Select at least one worker or team leader to pay'),
+});
+
 // Inferred TypeScript types
 export type ProjectLaborCreate = z.infer<typeof ProjectLaborCreateSchema>;
 export type ProjectLaborUpdate = z.infer<typeof ProjectLaborUpdateSchema>;
 export type ProjectLaborListFilters = z.infer<typeof ProjectLaborListFiltersSchema>;
+export type WorkerCreate = z.infer<typeof WorkerCreateSchema>;
+export type WorkerUpdate = z.infer<typeof WorkerUpdateSchema>;
+export type WorkerListFilters = z.infer<typeof WorkerListFiltersSchema>;
+export type WorkerNameMerge = z.infer<typeof WorkerNameMergeSchema>;
+export type AttendanceStatus = z.infer<typeof AttendanceStatusSchema>;
+export type AttendanceSheetFilters = z.infer<typeof AttendanceSheetFiltersSchema>;
+export type AttendanceSheetSave = z.infer<typeof AttendanceSheetSaveSchema>;
+export type WagePaymentCreate = z.infer<typeof WagePaymentCreateSchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+/**
+ * Query parameters for listing the current user's notifications
+ */
+export const NotificationListFiltersSchema = z.object({
+  unread: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+/**
+ * Schema for marking notifications as read: the given ids, or all of them
+ */
+export const NotificationMarkReadSchema = z
+  .object({
+    ids: z.array(z.string().min(1)).optional(),
+    all: z.boolean().optional(),
+  })
+  .refine((data) => data.all || (data.ids?.length ?? 0) > 0, {
+    message: 'Select the notifications to mark as read',
+  });
+
+// Inferred TypeScript types
+export type NotificationListFilters = z.infer<typeof NotificationListFiltersSchema>;
+export type NotificationMarkRead = z.infer<typeof NotificationMarkReadSchema>;
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+
+/**
+ * How a staff member's salary is paid out
+ */
+export const SalaryPaymentModeEnum = z.enum(['CASH', 'BANK']);
+
+/**
+ * Salary advance (recovered in a month or two) or staff loan (recovered over many months)
+ */
+export const StaffAdvanceTypeEnum = z.enum(['ADVANCE', 'LOAN']);
+
+/**
+ * Payroll run status enum values
+ */
+export const PayrollRunStatusEnum = z.enum(['DRAFT', 'POSTED', 'PAID', 'CANCELLED']);
+
+const payrollDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const allowance = z.coerce.number().nonnegative('Allowance cannot be negative').default(0);
+
+/**
+ * Schema for saving an employee's salary structure. projectId is the project the salary
+ * is charged to; without one it is office overhead.
+ */
+export const SalaryStructureSaveSchema = z
+  .object({
+    designation: z.string().trim().optional().nullable(),
+    basic: z.coerce.number().positive('Basic salary must be greater than 0'),
+    houseRent: allowance,
+    conveyance: allowance,
+    mobile: allowance,
+    projectId: z.string().optional().nullable(),
+    paymentMode: SalaryPaymentModeEnum.default('CASH'),
+    bankName: z.string().trim().optional().nullable(),
+    bankAccountNo: z.string().trim().optional().nullable(),
+    isActive: z.boolean().optional().default(true),
+  })
+  .refine((data) => data.paymentMode !== 'BANK' || !!data.bankAccountNo, {
+    message: 'Bank account number is required for salary paid by bank',
+    path: ['bankAccountNo'],
+  });
+
+/**
+ * Schema for paying a salary advance or loan to a staff member
+ */
+export const StaffAdvanceCreateSchema = z
+  .object({
+    workerId: z.string().min(1, 'Employee is required'),
+    type: StaffAdvanceTypeEnum,
+    date: payrollDate,
+    amount: z.coerce.number().positive('Amount must be greater than 0'),
+    installmentAmount: z.coerce.number().positive('Monthly installment must be greater than 0'),
+    paymentMethod: z.enum(['CASH', 'BANK']),
+    notes: z.string().trim().optional().nullable(),
+  })
+  .refine((data) => data.installmentAmount <= data.amount, {
+    message: 'Monthly installment cannot exceed the amount paid',
+    path: ['installmentAmount'],
+  });
+
+/**
+ * Schema for starting the payroll of a month
+ */
+export const PayrollRunCreateSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100),
+  month: z.coerce.number().int().min(1).max(12),
+  notes: z.string().trim().optional().nullable(),
+});
+
+/**
+ * Schema for adjusting a payslip of a draft payroll run. Advance and loan deductions are
+ * recovered from the employee's open advances or loans, oldest first.
+ */
+export const PayrollEntryUpdateSchema = z.object({
+  absentDays: z.coerce
+    .number()
+    .min(0, 'Absent days cannot be negative')
+    .max(31, 'Absent days cannot exceed 31')
+    .multipleOf(0.5, 'Absent days must be in half days')
+    .optional(),
+  projectId: z.string().optional().nullable(),
+  advanceDeduction: z.coerce.number().nonnegative('Deduction cannot be negative').optional(),
+  loanDeduction: z.coerce.number().nonnegative('Deduction cannot be negative').optional(),
+});
+
+/**
+ * Schema for posting a payroll run; the voucher is dated the last day of the month unless
+ * a date is given
+ */
+export const PayrollRunPostSchema = z.object({
+  date: payrollDate.optional(),
+});
+
+/**
+ * Schema for paying the net salaries of a posted payroll run
+ */
+export const PayrollRunPaySchema = z.object({
+  date: payrollDate,
+  narration: z.string().trim().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type SalaryPaymentMode = z.infer<typeof SalaryPaymentModeEnum>;
+export type StaffAdvanceType = z.infer<typeof StaffAdvanceTypeEnum>;
+export type PayrollRunStatus = z.infer<typeof PayrollRunStatusEnum>;
+export type SalaryStructureSave = z.infer<typeof SalaryStructureSaveSchema>;
+export type StaffAdvanceCreate = z.infer<typeof StaffAdvanceCreateSchema>;
+export type PayrollRunCreate = z.infer<typeof PayrollRunCreateSchema>;
+export type PayrollEntryUpdate = z.infer<typeof PayrollEntryUpdateSchema>;
+export type PayrollRunPost = z.infer<typeof PayrollRunPostSchema>;
+export type PayrollRunPay = z.infer<typeof PayrollRunPaySchema>;
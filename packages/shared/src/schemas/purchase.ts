@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { StockTrackingSchema } from './stock';
 
 /**
  * Purchase status enum values
@@ -103,6 +104,7 @@ export const PurchaseCreateSchema = z.object({
   projectId: z.string().min(1, 'Main project is required'),
   subProjectId: z.string().optional().nullable(),
   supplierVendorId: z.string().min(1, 'Supplier is required'),
+  purchaseOrderId: z.string().optional().nullable(),
   reference: z.string().optional().nullable(),
   discountPercent: z.number().nonnegative().max(100).optional().nullable(),
   paidAmount: z.number().nonnegative('Paid amount must be non-negative').default(0),
@@ -189,6 +191,94 @@ export const PurchaseListFiltersSchema = z.object({
   dateTo: z.coerce.date().optional(),
 });
 
+/**
+ * Purchase order status enum values
+ */
+export const PurchaseOrderStatusEnum = z.enum(['DRAFT', 'OPEN', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED', 'CANCELLED']);
+
+/**
+ * Schema for creating a purchase order. Each line carries the agreed rate and an
+ * optional delivery date, which together form the delivery schedule.
+ */
+export const PurchaseOrderCreateSchema = z
+  .object({
+    orderDate: z.coerce.date(),
+    expectedDate: z.coerce.date().optional().nullable(),
+    projectId: z.string().min(1, 'Project is required'),
+    supplierVendorId: z.string().min(1, 'Supplier is required'),
+    notes: z.string().optional().nullable(),
+    lines: z
+      .array(
+        z.object({
+          stockItemId: z.string().min(1, 'Stock item is required'),
+          qtyOrdered: z.number().positive('Quantity must be positive'),
+          agreedRate: z.number().nonnegative('Agreed rate must be non-negative'),
+          deliveryDate: z.coerce.date().optional().nullable(),
+          notes: z.string().optional().nullable(),
+        })
+      )
+      .min(1, 'At least one item is required'),
+  })
+  .refine(
+    (data) => new Set(data.lines.map((line) => line.stockItemId)).size === data.lines.length,
+    { message: 'Each stock item can only appear once per purchase order', path: ['lines'] }
+  );
+
+/**
+ * Schema for a goods receipt (GRN) against a purchase order
+ */
+export const GoodsReceiptCreateSchema = z.object({
+  receiptDate: z.coerce.date(),
+  challanNo: z.string().optional().nullable(),
+  locationId: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        purchaseOrderLineId: z.string().min(1),
+        qty: z.number().positive('Quantity must be positive'),
+        tracking: StockTrackingSchema.optional().nullable(),
+      })
+    )
+    .min(1, 'At least one item is required'),
+});
+
+/**
+ * Schema for issuing a draft purchase order to the supplier, or closing or
+ * cancelling one
+ */
+export const PurchaseOrderStatusActionSchema = z.object({
+  action: z.enum(['ISSUE', 'CLOSE', 'CANCEL']),
+});
+
+/**
+ * Schema for acting on a purchase's three-way match: re-run it against the
+ * latest receipts, or accept the flagged variances so the purchase can be approved.
+ */
+export const PurchaseMatchActionSchema = z
+  .object({
+    action: z.enum(['RECHECK', 'ACCEPT']),
+    notes: z.string().optional().nullable(),
+  })
+  .refine((data) => data.action !== 'ACCEPT' || !!data.notes?.trim(), {
+    message: 'A note is required when accepting variances',
+    path: ['notes'],
+  });
+
+/**
+ * Query parameters for listing purchase orders. open=true keeps those still
+ * awaiting delivery.
+ */
+export const PurchaseOrderListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  supplierId: z.string().optional(),
+  status: PurchaseOrderStatusEnum.optional(),
+  open: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
 // Inferred TypeScript types
 export type PurchaseLineCreate = z.infer<typeof PurchaseLineCreateSchema>;
 export type PurchaseAttachmentCreate = z.infer<typeof PurchaseAttachmentCreateSchema>;
@@ -198,3 +288,9 @@ export type PurchaseListFilters = z.infer<typeof PurchaseListFiltersSchema>;
 export type PurchaseStatus = z.infer<typeof PurchaseStatusEnum>;
 export type PurchaseLineType = z.infer<typeof PurchaseLineTypeEnum>;
 export type PurchasePaymentMethod = z.infer<typeof PurchasePaymentMethodEnum>;
+export type PurchaseOrderStatus = z.infer<typeof PurchaseOrderStatusEnum>;
+export type PurchaseOrderCreate = z.infer<typeof PurchaseOrderCreateSchema>;
+export type GoodsReceiptCreate = z.infer<typeof GoodsReceiptCreateSchema>;
+export type PurchaseOrderStatusAction = z.infer<typeof PurchaseOrderStatusActionSchema>;
+export type PurchaseMatchAction = z.infer<typeof PurchaseMatchActionSchema>;
+export type PurchaseOrderListFilters = z.infer<typeof PurchaseOrderListFiltersSchema>;
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ExpenseTypeEnum, VoucherLineCreateSchema, VoucherTypeEnum } from './voucher';
+
+/**
+ * Recurrence frequency enum values
+ */
+export const RecurrenceFrequencyEnum = z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY']);
+
+/**
+ * Schema for creating a recurring voucher template.
+ * The voucher header and lines are either given directly or copied from an existing voucher.
+ */
+export const RecurringVoucherTemplateCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  frequency: RecurrenceFrequencyEnum,
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().optional().nullable(),
+  sourceVoucherId: z.string().optional().nullable(),
+  type: VoucherTypeEnum.optional().default('JOURNAL'),
+  narration: z.string().optional().nullable(),
+  projectId: z.string().optional().nullable(),
+  expenseType: ExpenseTypeEnum.optional().nullable(),
+  lines: z.array(VoucherLineCreateSchema).optional(),
+}).refine(
+  (data) => !!data.sourceVoucherId || (data.lines?.length ?? 0) >= 2,
+  { message: 'Choose a voucher to copy or provide at least 2 voucher lines' }
+).refine(
+  (data) => !data.endDate || data.endDate >= data.startDate,
+  { message: 'End date must be on or after the start date' }
+);
+
+/**
+ * Schema for updating a recurring voucher template (schedule, name and pause state)
+ */
+export const RecurringVoucherTemplateUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  narration: z.string().optional().nullable(),
+  endDate: z.coerce.date().optional().nullable(),
+  isPaused: z.boolean().optional(),
+});
+
+/**
+ * Schema for generating due vouchers from recurring templates
+ */
+export const RecurringVoucherGenerateSchema = z.object({
+  templateId: z.string().optional(),
+  asOf: z.coerce.date().optional(),
+});
+
+// Inferred TypeScript types
+export type RecurrenceFrequency = z.infer<typeof RecurrenceFrequencyEnum>;
+export type RecurringVoucherTemplateCreate = z.infer<typeof RecurringVoucherTemplateCreateSchema>;
+export type RecurringVoucherTemplateUpdate = z.infer<typeof RecurringVoucherTemplateUpdateSchema>;
+export type RecurringVoucherGenerate = z.infer<typeof RecurringVoucherGenerateSchema>;
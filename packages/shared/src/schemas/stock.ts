@@ -1,5 +1,15 @@
 import { z } from 'zod';
 
+/**
+ * How stock issues are costed: at the running weighted average, or first in, first out
+ */
+export const CostingMethodSchema = z.enum(['WEIGHTED_AVERAGE', 'FIFO']);
+
+/**
+ * How units of an item are traced: not at all, by lot/batch number, or by serial number
+ */
+export const StockTrackingModeSchema = z.enum(['NONE', 'BATCH', 'SERIAL']);
+
 /**
  * Schema for creating a stock item
  */
@@ -9,6 +19,9 @@ export const StockItemCreateSchema = z.object({
   unit: z.string().min(1, 'Unit is required'),
   category: z.string().optional().nullable(),
   reorderLevel: z.number().nonnegative('Reorder level must be non-negative').optional().nullable(),
+  preferredVendorId: z.string().optional().nullable(),
+  costingMethod: CostingMethodSchema.optional().nullable(),
+  trackingMode: StockTrackingModeSchema.default('NONE'),
   isActive: z.boolean().default(true),
 });
 
@@ -21,6 +34,9 @@ export const StockItemUpdateSchema = z.object({
   unit: z.string().min(1, 'Unit is required').optional(),
   category: z.string().optional().nullable(),
   reorderLevel: z.number().nonnegative('Reorder level must be non-negative').optional().nullable(),
+  preferredVendorId: z.string().optional().nullable(),
+  costingMethod: CostingMethodSchema.optional().nullable(),
+  trackingMode: StockTrackingModeSchema.optional(),
   isActive: z.boolean().optional(),
 });
 
@@ -35,19 +51,40 @@ export const StockItemListFiltersSchema = z.object({
   isActive: z.coerce.boolean().optional(),
 });
 
+/**
+ * Lot or serial numbers moved by a stock movement. Batch-tracked items need a lot number
+ * and serial-tracked items one serial number per unit; expiry and certificate are kept
+ * on the lot when it is received.
+ */
+export const StockTrackingSchema = z
+  .object({
+    lotNumber: z.string().trim().max(100).optional().nullable(),
+    expiryDate: z.coerce.date().optional().nullable(),
+    certificateUrl: z.string().trim().url('Certificate must be a valid URL').optional().nullable(),
+    serialNumbers: z.array(z.string().trim().min(1, 'Serial number is required').max(100)).optional(),
+  })
+  .refine(
+    (data) => new Set(data.serialNumbers ?? []).size === (data.serialNumbers ?? []).length,
+    { message: 'Each serial number can only be given once', path: ['serialNumbers'] }
+  );
+
 /**
  * Schema for creating a stock movement (IN)
  */
 export const StockMovementInSchema = z.object({
   stockItemId: z.string().min(1, 'Stock item is required'),
   qty: z.number().positive('Quantity must be positive'),
+  // Unit qty and unitCost are in; defaults to the item's base unit
+  unit: z.string().optional().nullable(),
   unitCost: z.number().nonnegative('Unit cost must be non-negative').optional(),
   referenceType: z.string().optional(),
   referenceId: z.string().optional(),
   projectId: z.string().optional().nullable(),
+  locationId: z.string().optional().nullable(),
   vendorId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   movementDate: z.string().datetime().optional(),
+  tracking: StockTrackingSchema.optional().nullable(),
 });
 
 /**
@@ -56,9 +93,12 @@ export const StockMovementInSchema = z.object({
 export const StockMovementOutSchema = z.object({
   stockItemId: z.string().min(1, 'Stock item is required'),
   qty: z.number().positive('Quantity must be positive'),
+  unit: z.string().optional().nullable(),
   projectId: z.string().optional().nullable(),
+  locationId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   movementDate: z.string().datetime().optional(),
+  tracking: StockTrackingSchema.optional().nullable(),
 });
 
 /**
@@ -68,6 +108,7 @@ export const StockMovementAdjustSchema = z.object({
   stockItemId: z.string().min(1, 'Stock item is required'),
   qty: z.number().nonnegative('Quantity must be non-negative'),
   unitCost: z.number().nonnegative('Unit cost must be non-negative').optional(),
+  locationId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
   movementDate: z.string().datetime().optional(),
 });
@@ -81,6 +122,7 @@ export const StockBalanceListFiltersSchema = z.object({
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
   lowStock: z.coerce.boolean().optional(),
   category: z.string().optional(),
+  locationId: z.string().optional(),
 });
 
 /**
@@ -90,13 +132,306 @@ export const StockMovementListFiltersSchema = z.object({
   stockItemId: z.string().optional(),
   type: z.enum(['IN', 'OUT', 'ADJUST']).optional(),
   projectId: z.string().optional(),
+  locationId: z.string().optional(),
   dateFrom: z.string().optional(),
   dateTo: z.string().optional(),
   page: z.coerce.number().int().positive().optional().default(1),
   pageSize: z.coerce.number().int().positive().max(100).optional().default(25),
 });
 
+/**
+ * Schema for creating a stock location (warehouse or project site)
+ */
+export const StockLocationCreateSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Location name is required'),
+    code: z.string().trim().optional().nullable(),
+    type: z.enum(['WAREHOUSE', 'PROJECT_SITE']),
+    projectId: z.string().optional().nullable(),
+    isDefault: z.boolean().default(false),
+  })
+  .refine((data) => data.type !== 'PROJECT_SITE' || !!data.projectId, {
+    message: 'A project site location needs a project',
+    path: ['projectId'],
+  })
+  .refine((data) => data.type === 'WAREHOUSE' || !data.isDefault, {
+    message: 'Only a warehouse can be the default location',
+    path: ['isDefault'],
+  });
+
+/**
+ * Schema for updating a stock location
+ */
+export const StockLocationUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Location name is required').optional(),
+  code: z.string().trim().optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for dispatching material from one project site to another.
+ * With requireReceipt the transfer stays IN_TRANSIT until the receiving site confirms.
+ */
+export const StockTransferCreateSchema = z
+  .object({
+    sourceProjectId: z.string().min(1, 'Source project is required'),
+    destinationProjectId: z.string().min(1, 'Destination project is required'),
+    dispatchDate: z.coerce.date(),
+    requireReceipt: z.boolean().default(true),
+    notes: z.string().optional().nullable(),
+    lines: z
+      .array(
+        z.object({
+          stockItemId: z.string().min(1, 'Stock item is required'),
+          qty: z.number().positive('Quantity must be positive'),
+          tracking: StockTrackingSchema.optional().nullable(),
+        })
+      )
+      .min(1, 'At least one item is required'),
+  })
+  .refine((data) => data.sourceProjectId !== data.destinationProjectId, {
+    message: 'Source and destination projects must be different',
+    path: ['destinationProjectId'],
+  })
+  .refine(
+    (data) => new Set(data.lines.map((line) => line.stockItemId)).size === data.lines.length,
+    { message: 'Each stock item can only appear once per transfer', path: ['lines'] }
+  );
+
+/**
+ * Schema for confirming the quantity received for an in-transit transfer
+ */
+export const StockTransferReceiveSchema = z.object({
+  receivedDate: z.coerce.date(),
+  notes: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        qtyReceived: z.number().nonnegative('Received quantity must be non-negative'),
+      })
+    )
+    .min(1, 'At least one item is required'),
+});
+
+/**
+ * Schema for a site engineer's material requisition against a project
+ */
+export const MaterialRequisitionCreateSchema = z
+  .object({
+    projectId: z.string().min(1, 'Project is required'),
+    requestDate: z.coerce.date(),
+    requiredBy: z.coerce.date().optional().nullable(),
+    notes: z.string().optional().nullable(),
+    lines: z
+      .array(
+        z.object({
+          stockItemId: z.string().min(1, 'Stock item is required'),
+          qty: z.number().positive('Quantity must be positive'),
+          notes: z.string().optional().nullable(),
+        })
+      )
+      .min(1, 'At least one item is required'),
+  })
+  .refine(
+    (data) => new Set(data.lines.map((line) => line.stockItemId)).size === data.lines.length,
+    { message: 'Each stock item can only appear once per requisition', path: ['lines'] }
+  );
+
+/**
+ * Schema for approving a requisition. Approving less than requested is a partial
+ * approval; approving nothing on every line rejects it.
+ */
+export const MaterialRequisitionApproveSchema = z.object({
+  notes: z.string().optional().nullable(),
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        qtyApproved: z.number().nonnegative('Approved quantity must be non-negative'),
+      })
+    )
+    .min(1, 'At least one item is required'),
+});
+
+/**
+ * Query parameters for listing requisitions. open=true keeps those still awaiting
+ * approval or issue.
+ */
+export const MaterialRequisitionListFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  status: z
+    .enum(['PENDING', 'APPROVED', 'PARTIALLY_APPROVED', 'REJECTED', 'ISSUED', 'CANCELLED'])
+    .optional(),
+  open: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+});
+
+/**
+ * Query parameters for reorder suggestions. windowDays is how far back ISSUE movements
+ * are averaged to get the daily consumption; coverDays is how many days of consumption
+ * an order should last beyond the supplier's lead time.
+ */
+export const ReorderSuggestionFiltersSchema = z.object({
+  projectId: z.string().optional(),
+  windowDays: z.coerce.number().int().min(1).max(365).optional().default(30),
+  coverDays: z.coerce.number().int().min(0).max(365).optional().default(15),
+});
+
+/**
+ * Schema for turning reorder suggestions into draft purchase orders or draft purchases,
+ * one per supplier and project
+ */
+export const ReorderGenerateSchema = z
+  .object({
+    target: z.enum(['PURCHASE_ORDER', 'PURCHASE']),
+    lines: z
+      .array(
+        z.object({
+          projectId: z.string().min(1, 'Project is required'),
+          stockItemId: z.string().min(1, 'Stock item is required'),
+          supplierVendorId: z.string().min(1, 'Supplier is required'),
+          qty: z.number().positive('Quantity must be positive'),
+          rate: z.number().nonnegative('Rate must be non-negative'),
+        })
+      )
+      .min(1, 'Select at least one item to reorder'),
+  })
+  .refine(
+    (data) =>
+      new Set(data.lines.map((line) => `${line.projectId}:${line.stockItemId}`)).size ===
+      data.lines.length,
+    { message: 'Each item can only be reordered once per project', path: ['lines'] }
+  );
+
+/**
+ * Schema for opening a stock-take session at a location, or at a project's site
+ */
+export const StockTakeCreateSchema = z
+  .object({
+    locationId: z.string().optional().nullable(),
+    projectId: z.string().optional().nullable(),
+    countDate: z.coerce.date(),
+    notes: z.string().optional().nullable(),
+  })
+  .refine((data) => !!data.locationId || !!data.projectId, {
+    message: 'Select a location or a project',
+    path: ['locationId'],
+  });
+
+/**
+ * Schema for entering counted quantities. A null count clears the line; lines left
+ * uncounted are not adjusted when the session is posted.
+ */
+export const StockTakeCountsSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        lineId: z.string().min(1),
+        countedQty: z.number().nonnegative('Counted quantity must be non-negative').nullable(),
+        notes: z.string().optional().nullable(),
+      })
+    )
+    .min(1, 'At least one count is required'),
+});
+
+/**
+ * Schema for moving a stock-take through its workflow. RETURN sends a submitted count
+ * back for recounting; APPROVE posts the variances.
+ */
+export const StockTakeWorkflowSchema = z.object({
+  action: z.enum(['SUBMIT', 'RETURN', 'APPROVE', 'CANCEL']),
+});
+
+/**
+ * Query parameters for listing stock-takes
+ */
+export const StockTakeListFiltersSchema = z.object({
+  locationId: z.string().optional(),
+  status: z.enum(['COUNTING', 'SUBMITTED', 'POSTED', 'CANCELLED']).optional(),
+});
+
+/**
+ * Query parameters for the inventory valuation report. asOf defaults to today and
+ * method to the company's costing method.
+ */
+export const InventoryValuationFiltersSchema = z.object({
+  asOf: z.string().optional(),
+  method: CostingMethodSchema.optional(),
+  locationId: z.string().optional(),
+});
+
+/**
+ * Schema for adding a unit of measure to the catalogue
+ */
+export const UnitOfMeasureCreateSchema = z.object({
+  code: z.string().trim().min(1, 'Unit code is required').max(20),
+  name: z.string().trim().min(1, 'Unit name is required'),
+});
+
+/**
+ * Schema for updating a unit of measure (the code is fixed once created)
+ */
+export const UnitOfMeasureUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Unit name is required').optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * Schema for setting the units a stock item may be bought or issued in. factor is the
+ * number of base units in one of the unit (1 ton = 1000 kg).
+ */
+export const StockItemUnitsSchema = z.object({
+  units: z
+    .array(
+      z.object({
+        unitId: z.string().min(1, 'Unit is required'),
+        factor: z.number().positive('Conversion factor must be positive'),
+      })
+    )
+    .refine((units) => new Set(units.map((u) => u.unitId)).size === units.length, {
+      message: 'Each unit can only be listed once',
+    }),
+});
+
+/**
+ * Schema for saving a project's bill of quantities (material estimate). The lines
+ * replace the whole estimate; an item may have one line per floor, or one line without
+ * a floor for the whole project.
+ */
+export const ProjectMaterialEstimateSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        stockItemId: z.string().min(1, 'Stock item is required'),
+        floor: z.number().int().positive('Floor must be 1 or above').optional().nullable(),
+        estimatedQty: z.number().positive('Estimated quantity must be positive'),
+        estimatedRate: z.number().nonnegative('Estimated rate must be non-negative').optional().nullable(),
+        notes: z.string().optional().nullable(),
+      })
+    )
+    .refine(
+      (lines) =>
+        new Set(lines.map((l) => `${l.stockItemId}:${l.floor ?? ''}`)).size === lines.length,
+      { message: 'Each item can only be estimated once per floor' }
+    ),
+});
+
+/**
+ * Schema for searching the movement history of lots and serial numbers
+ */
+export const StockTraceFiltersSchema = z.object({
+  q: z.string().trim().optional(),
+  stockItemId: z.string().optional(),
+});
+
 // Inferred TypeScript types
+export type CostingMethod = z.infer<typeof CostingMethodSchema>;
+export type StockTrackingMode = z.infer<typeof StockTrackingModeSchema>;
+export type StockTracking = z.infer<typeof StockTrackingSchema>;
 export type StockItemCreate = z.infer<typeof StockItemCreateSchema>;
 export type StockItemUpdate = z.infer<typeof StockItemUpdateSchema>;
 export type StockItemListFilters = z.infer<typeof StockItemListFiltersSchema>;
@@ -105,3 +440,22 @@ export type StockMovementOut = z.infer<typeof StockMovementOutSchema>;
 export type StockMovementAdjust = z.infer<typeof StockMovementAdjustSchema>;
 export type StockBalanceListFilters = z.infer<typeof StockBalanceListFiltersSchema>;
 export type StockMovementListFilters = z.infer<typeof StockMovementListFiltersSchema>;
+export type StockTransferCreate = z.infer<typeof StockTransferCreateSchema>;
+export type StockTransferReceive = z.infer<typeof StockTransferReceiveSchema>;
+export type StockLocationCreate = z.infer<typeof StockLocationCreateSchema>;
+export type StockLocationUpdate = z.infer<typeof StockLocationUpdateSchema>;
+export type MaterialRequisitionCreate = z.infer<typeof MaterialRequisitionCreateSchema>;
+export type MaterialRequisitionApprove = z.infer<typeof MaterialRequisitionApproveSchema>;
+export type MaterialRequisitionListFilters = z.infer<typeof MaterialRequisitionListFiltersSchema>;
+export type ReorderSuggestionFilters = z.infer<typeof ReorderSuggestionFiltersSchema>;
+export type ReorderGenerate = z.infer<typeof ReorderGenerateSchema>;
+export type StockTakeCreate = z.infer<typeof StockTakeCreateSchema>;
+export type StockTakeCounts = z.infer<typeof StockTakeCountsSchema>;
+export type StockTakeWorkflow = z.infer<typeof StockTakeWorkflowSchema>;
+export type StockTakeListFilters = z.infer<typeof StockTakeListFiltersSchema>;
+export type InventoryValuationFilters = z.infer<typeof InventoryValuationFiltersSchema>;
+export type UnitOfMeasureCreate = z.infer<typeof UnitOfMeasureCreateSchema>;
+export type UnitOfMeasureUpdate = z.infer<typeof UnitOfMeasureUpdateSchema>;
+export type StockItemUnits = z.infer<typeof StockItemUnitsSchema>;
+export type ProjectMaterialEstimate = z.infer<typeof ProjectMaterialEstimateSchema>;
+export type StockTraceFilters = z.infer<typeof StockTraceFiltersSchema>;
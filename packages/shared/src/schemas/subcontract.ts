@@ -0,0 +1,91 @@
+import { z } from 'zod';
+
+/**
+ * Subcontract (work order) status enum values
+ */
+export const SubcontractStatusEnum = z.enum(['ACTIVE', 'COMPLETED', 'CANCELLED']);
+
+/**
+ * Subcontract running bill status enum values
+ */
+export const SubcontractBillStatusEnum = z.enum(['DRAFT', 'CERTIFIED', 'CANCELLED']);
+
+/**
+ * Schema for an item of work on a subcontract work order
+ */
+export const SubcontractItemSchema = z.object({
+  description: z.string().trim().min(1, 'Item description is required'),
+  unit: z.string().trim().optional().nullable(),
+  quantity: z.coerce.number().positive('Quantity must be greater than 0'),
+  rate: z.coerce.number().nonnegative('Rate cannot be negative'),
+});
+
+const subcontractBaseSchema = z.object({
+  vendorId: z.string().min(1, 'Subcontractor is required'),
+  title: z.string().trim().min(1, 'Work order title is required'),
+  orderDate: z.coerce.date(),
+  completionDate: z.coerce.date().optional().nullable(),
+  retentionPercent: z.coerce
+    .number()
+    .min(0, 'Percentage cannot be negative')
+    .max(50, 'Retention cannot exceed 50%')
+    .default(0),
+  items: z.array(SubcontractItemSchema).min(1, 'At least one work item is required'),
+  notes: z.string().trim().optional().nullable(),
+});
+
+/**
+ * Schema for creating a subcontract work order on a project
+ */
+export const SubcontractCreateSchema = subcontractBaseSchema;
+
+/**
+ * Schema for updating a work order; items can only change before the first bill
+ */
+export const SubcontractUpdateSchema = subcontractBaseSchema.omit({ vendorId: true }).partial();
+
+/**
+ * Schema for paying an advance to a subcontractor against a work order
+ */
+export const SubcontractAdvanceCreateSchema = z.object({
+  date: z.coerce.date(),
+  accountId: z.string().min(1, 'Payment account is required'),
+  amount: z.coerce.number().positive('Amount must be greater than 0'),
+  narration: z.string().trim().optional().nullable(),
+});
+
+/**
+ * Schema for a running bill of a work order. Quantities are cumulative to date against
+ * the work order items; the bill charges the increase over the previous certified bill.
+ */
+export const SubcontractBillCreateSchema = z.object({
+  billDate: z.coerce.date(),
+  isFinal: z.boolean().optional().default(false),
+  items: z
+    .array(
+      z.object({
+        itemId: z.string().min(1, 'Work item is required'),
+        quantity: z.coerce.number().nonnegative('Quantity cannot be negative'),
+      })
+    )
+    .min(1, 'At least one measured item is required'),
+  notes: z.string().trim().optional().nullable(),
+});
+
+/**
+ * Schema for releasing the retention held on a completed work order
+ */
+export const SubcontractRetentionReleaseSchema = z.object({
+  date: z.coerce.date(),
+  narration: z.string().trim().optional().nullable(),
+});
+
+// Inferred TypeScript types
+export type SubcontractStatus = z.infer<typeof SubcontractStatusEnum>;
+export type SubcontractBillStatus = z.infer<typeof SubcontractBillStatusEnum>;
+export type SubcontractItem = z.infer<typeof SubcontractItemSchema>;
+export type SubcontractCreate = z.infer<typeof SubcontractCreateSchema>;
+export type SubcontractUpdate = z.infer<typeof SubcontractUpdateSchema>;
+export type SubcontractAdvanceCreate = z.infer<typeof SubcontractAdvanceCreateSchema>;
+export type SubcontractBillCreate = z.infer<typeof SubcontractBillCreateSchema>;
+export type SubcontractRetentionRelease = z.infer<typeof SubcontractRetentionReleaseSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { WithholdingServiceTypeEnum } from './withholdingTax';
 
 const optionalString = z.preprocess(
   (v) => {
@@ -19,6 +20,10 @@ export const VendorCreateSchema = z.object({
   phone: optionalString,
   address: optionalString,
   notes: optionalString,
+  serviceType: WithholdingServiceTypeEnum.optional().nullable(),
+  tin: optionalString,
+  bin: optionalString,
+  leadTimeDays: z.number().int().nonnegative('Lead time must be non-negative').optional().nullable(),
   isActive: z.boolean().optional().default(true),
 });
 
@@ -30,6 +35,10 @@ export const VendorUpdateSchema = z.object({
   phone: z.string().optional().nullable(),
   address: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
+  serviceType: WithholdingServiceTypeEnum.optional().nullable(),
+  tin: z.string().optional().nullable(),
+  bin: z.string().optional().nullable(),
+  leadTimeDays: z.number().int().nonnegative('Lead time must be non-negative').optional().nullable(),
   isActive: z.boolean().optional(),
 });
 
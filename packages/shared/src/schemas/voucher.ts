@@ -1,10 +1,16 @@
 import { z } from 'zod';
+import { CurrencyCodeSchema } from './currency';
 
 /**
  * Voucher status enum values
  */
 export const VoucherStatusEnum = z.enum(['DRAFT', 'SUBMITTED', 'APPROVED', 'POSTED', 'REVERSED']);
 
+/**
+ * Voucher type enum values
+ */
+export const VoucherTypeEnum = z.enum(['RECEIPT', 'PAYMENT', 'JOURNAL', 'CONTRA']);
+
 /**
  * Schema for creating a voucher line
  */
@@ -13,6 +19,10 @@ export const VoucherLineCreateSchema = z.object({
   description: z.string().optional().nullable(),
   debit: z.number().nonnegative('Debit must be non-negative').default(0),
   credit: z.number().nonnegative('Credit must be non-negative').default(0),
+  // Foreign-currency line: debit/credit are in currencyCode and converted to the base
+  // currency at exchangeRate (looked up from the exchange rate table when omitted)
+  currencyCode: CurrencyCodeSchema.optional().nullable(),
+  exchangeRate: z.number().positive('Exchange rate must be greater than 0').optional().nullable(),
   projectId: z.string().optional().nullable(),
   isCompanyLevel: z.boolean().optional().default(false),
   vendorId: z.string().optional().nullable(),
@@ -30,6 +40,9 @@ export const VoucherLineCreateSchema = z.object({
 ).refine(
   (data) => !(data.debit > 0 && data.credit > 0),
   { message: 'A line cannot have both debit and credit' }
+).refine(
+  (data) => !data.exchangeRate || !!data.currencyCode,
+  { message: 'An exchange rate needs the currency of the line' }
 ).refine(
   (data) => {
     // If isCompanyLevel is true, projectId must be null
@@ -41,6 +54,24 @@ export const VoucherLineCreateSchema = z.object({
   { message: 'Company-level credits cannot have a project assigned' }
 );
 
+/**
+ * Whether debit equals credit in base currency. Lines whose rate is still to be
+ * looked up on the server are not checked here; lines without a currency code are
+ * taken as base currency whatever their rate, the same way they are stored.
+ */
+function isBalancedInBaseCurrency(
+  lines: Array<{ debit: number; credit: number; currencyCode?: string | null; exchangeRate?: number | null }>
+): boolean {
+  if (lines.some((line) => line.currencyCode && !line.exchangeRate)) {
+    return true;
+  }
+  const toBase = (amount: number, line: { currencyCode?: string | null; exchangeRate?: number | null }) =>
+    Math.round(amount * (line.currencyCode ? line.exchangeRate ?? 1 : 1) * 100) / 100;
+  const totalDebit = lines.reduce((sum, line) => sum + toBase(line.debit, line), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + toBase(line.credit, line), 0);
+  return Math.abs(totalDebit - totalCredit) < 0.01; // Allow small tolerance for floating point
+}
+
 /**
  * Expense type enum values
  */
@@ -51,16 +82,13 @@ export const ExpenseTypeEnum = z.enum(['PROJECT_EXPENSE', 'OFFICE_EXPENSE']);
  */
 export const VoucherCreateSchema = z.object({
   date: z.coerce.date(),
+  type: VoucherTypeEnum.optional().default('JOURNAL'),
   narration: z.string().optional().nullable(),
   projectId: z.string().optional().nullable(),
   expenseType: ExpenseTypeEnum.optional().nullable(),
   lines: z.array(VoucherLineCreateSchema).min(2, 'At least 2 voucher lines are required'),
 }).refine(
-  (data) => {
-    const totalDebit = data.lines.reduce((sum, line) => sum + line.debit, 0);
-    const totalCredit = data.lines.reduce((sum, line) => sum + line.credit, 0);
-    return Math.abs(totalDebit - totalCredit) < 0.01; // Allow small tolerance for floating point
-  },
+  (data) => isBalancedInBaseCurrency(data.lines),
   { message: 'Total debit must equal total credit' }
 ).refine(
   (data) => {
@@ -84,12 +112,7 @@ export const VoucherUpdateSchema = z.object({
   expenseType: ExpenseTypeEnum.optional().nullable(),
   lines: z.array(VoucherLineCreateSchema).min(2, 'At least 2 voucher lines are required').optional(),
 }).refine(
-  (data) => {
-    if (!data.lines) return true;
-    const totalDebit = data.lines.reduce((sum, line) => sum + line.debit, 0);
-    const totalCredit = data.lines.reduce((sum, line) => sum + line.credit, 0);
-    return Math.abs(totalDebit - totalCredit) < 0.01;
-  },
+  (data) => !data.lines || isBalancedInBaseCurrency(data.lines),
   { message: 'Total debit must equal total credit' }
 ).refine(
   (data) => {
@@ -154,11 +177,20 @@ export const VoucherListFiltersSchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional().default(20),
 });
 
+/**
+ * Schema for rejecting a submitted voucher
+ */
+export const VoucherRejectSchema = z.object({
+  reason: z.string().trim().min(5, 'Please give a reason for the rejection (at least 5 characters)'),
+});
+
 // Inferred TypeScript types
 export type VoucherLineCreate = z.infer<typeof VoucherLineCreateSchema>;
 export type VoucherLineUpdate = z.infer<typeof VoucherLineUpdateSchema>;
 export type VoucherCreate = z.infer<typeof VoucherCreateSchema>;
 export type VoucherUpdate = z.infer<typeof VoucherUpdateSchema>;
 export type VoucherListFilters = z.infer<typeof VoucherListFiltersSchema>;
+export type VoucherReject = z.infer<typeof VoucherRejectSchema>;
 export type VoucherStatus = z.infer<typeof VoucherStatusEnum>;
+export type VoucherType = z.infer<typeof VoucherTypeEnum>;
 export type ExpenseType = z.infer<typeof ExpenseTypeEnum>;
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const ApprovalRuleVoucherTypeEnum = z.enum(['RECEIPT', 'PAYMENT', 'JOURNAL', 'CONTRA']);
+
+/**
+ * Only roles that may approve vouchers can be steps in a chain
+ */
+const ApproverRoleEnum = z.enum(['ADMIN', 'ACCOUNTANT']);
+
+const ApproverRolesSchema = z
+  .array(ApproverRoleEnum)
+  .min(1, 'At least one approval step is required')
+  .max(5, 'At most 5 approval steps are allowed');
+
+/**
+ * Schema for creating a voucher approval rule
+ */
+export const VoucherApprovalRuleCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  voucherType: ApprovalRuleVoucherTypeEnum.optional().nullable(),
+  minAmount: z.number().nonnegative('Minimum amount must be non-negative').default(0),
+  approverRoles: ApproverRolesSchema,
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Schema for updating a voucher approval rule
+ */
+export const VoucherApprovalRuleUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  voucherType: ApprovalRuleVoucherTypeEnum.optional().nullable(),
+  minAmount: z.number().nonnegative('Minimum amount must be non-negative').optional(),
+  approverRoles: ApproverRolesSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Inferred TypeScript types
+export type VoucherApprovalRuleCreate = z.infer<typeof VoucherApprovalRuleCreateSchema>;
+export type VoucherApprovalRuleUpdate = z.infer<typeof VoucherApprovalRuleUpdateSchema>;
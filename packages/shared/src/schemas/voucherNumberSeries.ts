@@ -0,0 +1,47 @@
+import { z } from 'zod';
+
+const VoucherSeriesTypeEnum = z.enum(['RECEIPT', 'PAYMENT', 'JOURNAL', 'CONTRA']);
+
+const KNOWN_TOKENS = /\{(TYPE|PROJECT|FY|YYYY|YY|MM)\}/g;
+
+/**
+ * Prefix template, e.g. "{TYPE}-{FY}-" or "{PROJECT}/PV/{YYYY}/"
+ */
+const PrefixTemplateSchema = z
+  .string()
+  .trim()
+  .min(1, 'Prefix template is required')
+  .max(40, 'Prefix template must be at most 40 characters')
+  .refine((value) => !/[{}]/.test(value.replace(KNOWN_TOKENS, '')), {
+    message: 'Unknown token in prefix template. Use {TYPE}, {PROJECT}, {FY}, {YYYY}, {YY} or {MM}',
+  });
+
+/**
+ * Schema for creating a voucher numbering series
+ */
+export const VoucherNumberSeriesCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  voucherType: VoucherSeriesTypeEnum.optional().nullable(),
+  projectId: z.string().optional().nullable(),
+  prefixTemplate: PrefixTemplateSchema,
+  padding: z.number().int().min(3, 'Padding must be at least 3 digits').max(10).default(6),
+  fiscalYearStartMonth: z.number().int().min(1).max(12).default(1),
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Schema for updating a voucher numbering series
+ */
+export const VoucherNumberSeriesUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  voucherType: VoucherSeriesTypeEnum.optional().nullable(),
+  projectId: z.string().optional().nullable(),
+  prefixTemplate: PrefixTemplateSchema.optional(),
+  padding: z.number().int().min(3, 'Padding must be at least 3 digits').max(10).optional(),
+  fiscalYearStartMonth: z.number().int().min(1).max(12).optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Inferred TypeScript types
+export type VoucherNumberSeriesCreate = z.infer<typeof VoucherNumberSeriesCreateSchema>;
+export type VoucherNumberSeriesUpdate = z.infer<typeof VoucherNumberSeriesUpdateSchema>;
@@ -0,0 +1,74 @@
+import { z } from 'zod';
+
+/**
+ * Withholding service type enum values (drives the default VAT/AIT rate of a vendor)
+ */
+export const WithholdingServiceTypeEnum = z.enum([
+  'SUPPLY',
+  'CONSTRUCTION',
+  'SERVICE',
+  'RENT',
+  'TRANSPORT',
+  'OTHER',
+]);
+
+/**
+ * Withholding tax type enum values
+ */
+export const WithholdingTaxTypeEnum = z.enum(['VAT', 'AIT']);
+
+const percentSchema = z.coerce
+  .number()
+  .min(0, 'Rate cannot be negative')
+  .max(100, 'Rate cannot exceed 100');
+
+/**
+ * Schema for creating a withholding tax rate for a service type or a single vendor
+ */
+export const WithholdingTaxRateCreateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  serviceType: WithholdingServiceTypeEnum.optional().nullable(),
+  vendorId: z.string().optional().nullable(),
+  vatPercent: percentSchema.default(0),
+  aitPercent: percentSchema.default(0),
+  isActive: z.boolean().optional().default(true),
+}).refine((data) => !!data.serviceType !== !!data.vendorId, {
+  message: 'Choose either a service type or a vendor',
+});
+
+/**
+ * Schema for updating a withholding tax rate
+ */
+export const WithholdingTaxRateUpdateSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').optional(),
+  vatPercent: percentSchema.optional(),
+  aitPercent: percentSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+/**
+ * VAT/AIT percentages to deduct from a supplier payment
+ */
+export const WithholdingRatesSchema = z.object({
+  vatPercent: percentSchema.default(0),
+  aitPercent: percentSchema.default(0),
+}).refine((data) => data.vatPercent + data.aitPercent < 100, {
+  message: 'Withholding must be less than 100% of the payment',
+});
+
+/**
+ * Schema for recording the treasury challan of deposited deductions
+ */
+export const WithholdingChallanSchema = z.object({
+  deductionIds: z.array(z.string()).min(1, 'Select at least one deduction'),
+  challanNo: z.string().trim().min(1, 'Challan number is required'),
+  challanDate: z.coerce.date(),
+});
+
+// Inferred TypeScript types
+export type WithholdingServiceType = z.infer<typeof WithholdingServiceTypeEnum>;
+export type WithholdingTaxType = z.infer<typeof WithholdingTaxTypeEnum>;
+export type WithholdingTaxRateCreate = z.infer<typeof WithholdingTaxRateCreateSchema>;
+export type WithholdingTaxRateUpdate = z.infer<typeof WithholdingTaxRateUpdateSchema>;
+export type WithholdingRates = z.infer<typeof WithholdingRatesSchema>;
+export type WithholdingChallan = z.infer<typeof WithholdingChallanSchema>;